@@ -22,7 +22,7 @@ export interface VirtualTicketProps {
     id: string;
     orderNumber?: string | null;
     ticketId?: string | null;
-    status?: 'pending' | 'in_progress' | 'completed' | 'past' | null;
+    status?: 'pending' | 'in_progress' | 'completed' | 'past' | 'voided' | 'refunded' | null;
     userEmail?: string | null;
     customerName?: string | null;
     posCustomerId?: string | null;
@@ -57,9 +57,28 @@ export interface VirtualTicketProps {
         percent?: number | null;
       } | null;
     } | null;
+    refund?: {
+      status: 'voided' | 'refunded' | 'partially_refunded';
+      amount: number;
+      reason?: string | null;
+      lines?: Array<{ name?: string | null; quantity: number; amount: number }> | null;
+    } | null;
+    discount?: {
+      code: string;
+      amount: number;
+      description?: string | null;
+    } | null;
+    payments?: Array<{
+      method: string;
+      label?: string | null;
+      amount: number;
+      reference?: string | null;
+      cashTendered?: number | null;
+      cashChange?: number | null;
+    }> | null;
   };
   showQr?: boolean;
-  orderStatus?: 'pending' | 'in_progress' | 'completed' | 'past' | null;
+  orderStatus?: 'pending' | 'in_progress' | 'completed' | 'past' | 'voided' | 'refunded' | null;
 }
 
 const QR_API_URL = '/api/qr';
@@ -389,6 +408,15 @@ const VirtualTicket = forwardRef<HTMLDivElement, VirtualTicketProps>(
     const thankYouHeadline =
       normalizedStatus === 'pending' ? 'Gracias por su pedido' : 'Gracias por su compra';
     const isDelivered = normalizedStatus === 'completed';
+    const refund = order.refund && order.refund.amount > 0 ? order.refund : null;
+    const refundHeadline =
+      refund?.status === 'voided'
+        ? 'Pedido cancelado'
+        : refund?.status === 'refunded'
+          ? 'Pedido reembolsado'
+          : refund
+            ? 'Reembolso parcial'
+            : null;
 
     const formatCurrency = (value?: number | null) =>
       new Intl.NumberFormat('es-MX', {
@@ -529,26 +557,30 @@ const VirtualTicket = forwardRef<HTMLDivElement, VirtualTicketProps>(
         ? totalsSnapshot.vatPercent
         : 16;
 
+    const discountAmount =
+      typeof order.discount?.amount === 'number' && order.discount.amount > 0 ? order.discount.amount : 0;
+
+    // El subtotal se muestra antes del descuento; el IVA se calcula sobre el importe ya descontado.
     const subtotalBeforeVat = useMemo(() => {
       if (typeof explicitSubtotal === 'number') {
         return Math.max(explicitSubtotal, 0);
       }
       if (typeof explicitVatAmount === 'number') {
-        return Math.max(totalWithoutTips - explicitVatAmount, 0);
+        return Math.max(totalWithoutTips - explicitVatAmount + discountAmount, 0);
       }
       const vatFactor = (derivedVatPercent ?? 0) / 100;
       if (vatFactor > 0 && totalWithoutTips > 0) {
-        return Math.max(totalWithoutTips / (1 + vatFactor), 0);
+        return Math.max(totalWithoutTips / (1 + vatFactor) + discountAmount, 0);
       }
-      return Math.max(totalWithoutTips, 0);
-    }, [derivedVatPercent, explicitSubtotal, explicitVatAmount, totalWithoutTips]);
+      return Math.max(totalWithoutTips + discountAmount, 0);
+    }, [derivedVatPercent, discountAmount, explicitSubtotal, explicitVatAmount, totalWithoutTips]);
 
     const vatAmount = useMemo(() => {
       if (typeof explicitVatAmount === 'number') {
         return Math.max(explicitVatAmount, 0);
       }
-      return Math.max(totalWithoutTips - subtotalBeforeVat, 0);
-    }, [explicitVatAmount, subtotalBeforeVat, totalWithoutTips]);
+      return Math.max(totalWithoutTips - (subtotalBeforeVat - discountAmount), 0);
+    }, [discountAmount, explicitVatAmount, subtotalBeforeVat, totalWithoutTips]);
 
     const grandTotal = useMemo(() => {
       if (typeof order.total === 'number') {
@@ -759,6 +791,17 @@ const VirtualTicket = forwardRef<HTMLDivElement, VirtualTicketProps>(
             <span>Subtotal (sin IVA)</span>
             <span className="font-semibold text-gray-900">{formatCurrency(subtotalBeforeVat)}</span>
           </div>
+          {discountAmount > 0 && order.discount && (
+            <div className="flex items-center justify-between">
+              <span>
+                Descuento ({order.discount.code})
+                {order.discount.description && (
+                  <span className="block text-[11px] text-gray-500">{order.discount.description}</span>
+                )}
+              </span>
+              <span className="font-semibold text-gray-900">-{formatCurrency(discountAmount)}</span>
+            </div>
+          )}
           <div className="flex items-center justify-between">
             <span>
               IVA ({Number.isFinite(derivedVatPercent) ? Number(derivedVatPercent).toFixed(2) : '0'}%)
@@ -791,6 +834,52 @@ const VirtualTicket = forwardRef<HTMLDivElement, VirtualTicketProps>(
           <span>Total general</span>
           <span>{formatCurrency(grandTotal)}</span>
         </div>
+        {order.payments && order.payments.length > 0 && (
+          <div className="mt-3 space-y-1 text-xs text-gray-600">
+            <p className="font-semibold uppercase tracking-[0.35em] text-[10px] text-gray-500">
+              {order.payments.length > 1 ? 'Pagos' : 'Pago'}
+            </p>
+            {order.payments.map((payment, index) => (
+              <div key={`${payment.method}-${index}`}>
+                <div className="flex items-center justify-between">
+                  <span>{payment.label ?? payment.method}</span>
+                  <span className="font-semibold text-gray-900">{formatCurrency(payment.amount)}</span>
+                </div>
+                {payment.reference && (
+                  <p className="truncate text-[11px] text-gray-500">Ref. {payment.reference}</p>
+                )}
+                {typeof payment.cashTendered === 'number' && (
+                  <p className="text-[11px] text-gray-500">
+                    Recibido {formatCurrency(payment.cashTendered)} · Cambio{' '}
+                    {formatCurrency(payment.cashChange ?? 0)}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {refund && (
+          <div className="mt-3 space-y-1 rounded-2xl border border-dashed border-red-200 bg-red-50/60 p-3 text-xs text-red-700">
+            <p className="font-semibold uppercase tracking-[0.35em] text-[10px]">{refundHeadline}</p>
+            {refund.lines?.map((line, index) => (
+              <div key={`${line.name ?? 'linea'}-${index}`} className="flex items-center justify-between">
+                <span>
+                  {line.quantity} × {line.name ?? 'Producto'}
+                </span>
+                <span>-{formatCurrency(line.amount)}</span>
+              </div>
+            ))}
+            {refund.reason && <p className="text-[11px]">Motivo: {refund.reason}</p>}
+            <div className="flex items-center justify-between text-sm font-semibold">
+              <span>Reembolsado</span>
+              <span>-{formatCurrency(refund.amount)}</span>
+            </div>
+            <div className="flex items-center justify-between text-sm font-semibold text-gray-900">
+              <span>Total neto</span>
+              <span>{formatCurrency(Math.max(0, grandTotal - refund.amount))}</span>
+            </div>
+          </div>
+        )}
         {showQr && (
           <div className="mt-4 flex flex-col items-center space-y-2">
             <p className="text-xs font-semibold uppercase tracking-[0.3em] text-primary-600">
@@ -82,6 +82,14 @@ CREATE TABLE IF NOT EXISTS users (
   phone TEXT,
   city TEXT,
   country TEXT,
+  fiscalRfc TEXT,
+  fiscalName TEXT,
+  fiscalRegime TEXT,
+  fiscalPostalCode TEXT,
+  cfdiUse TEXT DEFAULT 'G03',
+  noShowOverride INTEGER NOT NULL DEFAULT 0,
+  noShowOverrideByStaffId TEXT,
+  noShowOverrideAt TEXT,
   termsAccepted INTEGER NOT NULL DEFAULT 0,
   privacyAccepted INTEGER NOT NULL DEFAULT 0,
   marketingEmail INTEGER NOT NULL DEFAULT 0,
@@ -120,7 +128,8 @@ CREATE TABLE IF NOT EXISTS users (
   userSegment TEXT,
   acquisitionChannel TEXT,
   lifetimeValue REAL NOT NULL DEFAULT 0,
-  loyaltyActivatedAt TEXT
+  loyaltyActivatedAt TEXT,
+  anonymizedAt TEXT
 );
 
 CREATE TABLE IF NOT EXISTS addresses (
@@ -174,6 +183,7 @@ CREATE TABLE IF NOT EXISTS orders (
   shipping_contact_phone TEXT,
   shipping_contact_is_whatsapp INTEGER DEFAULT 0,
   shipping_address_id TEXT,
+  branchId TEXT DEFAULT 'MATRIZ',
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -196,6 +206,11 @@ CREATE TABLE IF NOT EXISTS loyalty_points (
   orderId TEXT REFERENCES orders(id) ON DELETE SET NULL,
   expiresAt TEXT,
   metadata TEXT,
+  entryType TEXT NOT NULL DEFAULT 'earn',
+  programId TEXT,
+  stamps INTEGER NOT NULL DEFAULT 0,
+  staffId TEXT,
+  sourceEntryId TEXT,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -281,6 +296,8 @@ CREATE TABLE IF NOT EXISTS reservations (
   linkedOrderId TEXT REFERENCES orders(id) ON DELETE SET NULL,
   status TEXT NOT NULL DEFAULT 'pending',
   sourceType TEXT DEFAULT 'cliente',
+  depositRequired INTEGER NOT NULL DEFAULT 0,
+  depositAmount REAL,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -300,6 +317,7 @@ CREATE TABLE IF NOT EXISTS tickets (
   qrImageUrl TEXT,
   ticketImageUrl TEXT,
   emailSentAt TEXT,
+  invoiceId TEXT,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -339,6 +357,10 @@ CREATE TABLE IF NOT EXISTS branches (
   postalCode TEXT,
   country TEXT DEFAULT 'MX',
   isActive INTEGER NOT NULL DEFAULT 1,
+  reservationTables INTEGER NOT NULL DEFAULT 8,
+  reservationSeatsPerTable INTEGER NOT NULL DEFAULT 4,
+  reservationSlotMinutes INTEGER NOT NULL DEFAULT 90,
+  reservationMaxPerSlot INTEGER,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -407,6 +429,7 @@ CREATE INDEX IF NOT EXISTS staff_sessions_staff_id_idx ON staff_sessions (staffI
 CREATE TABLE IF NOT EXISTS prep_queue (
   id TEXT PRIMARY KEY,
   orderItemId TEXT NOT NULL UNIQUE REFERENCES order_items(id) ON DELETE CASCADE,
+  branchId TEXT DEFAULT 'MATRIZ',
   status TEXT NOT NULL DEFAULT 'pending',
   handledByStaffId TEXT REFERENCES staff_users(id) ON DELETE SET NULL,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -441,6 +464,9 @@ CREATE TABLE IF NOT EXISTS inventory_items (
   lastRestockAt TEXT,
   lastRestockQty REAL,
   avgCost REAL,
+  reorderLeadTimeDays INTEGER,
+  reorderPackSize REAL,
+  barcode TEXT,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
   updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -463,6 +489,7 @@ CREATE TABLE IF NOT EXISTS inventory_movements (
   quantity REAL NOT NULL,
   reason TEXT,
   relatedOrderItemId TEXT REFERENCES order_items(id) ON DELETE SET NULL,
+  transferId TEXT,
   createdByStaffId TEXT REFERENCES staff_users(id) ON DELETE SET NULL,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
@@ -477,6 +504,8 @@ CREATE TABLE IF NOT EXISTS pos_action_logs (
   userAgent TEXT,
   createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
+CREATE INDEX IF NOT EXISTS pos_action_logs_staff_created_idx ON pos_action_logs (staffId, createdAt);
+CREATE INDEX IF NOT EXISTS pos_action_logs_action_created_idx ON pos_action_logs (action, createdAt);
 
 CREATE TABLE IF NOT EXISTS report_requests (
   id TEXT PRIMARY KEY,
@@ -631,9 +660,13 @@ CREATE TABLE IF NOT EXISTS waste_logs (
 CREATE TABLE IF NOT EXISTS product_recipes (
   id TEXT PRIMARY KEY,
   productId TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sizeId TEXT,
   inventoryItemId TEXT NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
   quantityUsed REAL NOT NULL,
-  createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  yield REAL NOT NULL DEFAULT 1,
+  isCritical INTEGER NOT NULL DEFAULT 1,
+  createdAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updatedAt TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE TABLE IF NOT EXISTS promo_codes (
@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+/**
+ * Vencimiento nocturno de puntos de lealtad sobre la réplica SQLite.
+ * Los puntos se consumen en orden de vencimiento (primero los más próximos a
+ * vencer); lo que quede de cada acumulación vencida se registra como una fila
+ * `expire` en loyalty_points, ligada a su origen por `sourceEntryId`.
+ * Las filas nuevas suben a Supabase en la siguiente corrida de `npm run sync:sqlite`.
+ *
+ * Programación sugerida (cron, 03:15 todos los días):
+ *   15 3 * * * cd /ruta/Xoco-POS && npm run loyalty:expire && npm run sync:sqlite
+ *
+ * Uso: node scripts/expire-loyalty-points.mjs [--dry-run]
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import sqlite3 from 'sqlite3';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const projectRoot = path.join(__dirname, '..');
+
+const envFiles = ['.env.local', '.env'];
+const loadEnvFile = (filePath) => {
+  if (!fs.existsSync(filePath)) {
+    return;
+  }
+  const content = fs.readFileSync(filePath, 'utf-8');
+  content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .forEach((line) => {
+      if (!line || line.startsWith('#')) {
+        return;
+      }
+      const eqIndex = line.indexOf('=');
+      if (eqIndex === -1) {
+        return;
+      }
+      const key = line.slice(0, eqIndex).trim();
+      if (!key || Object.prototype.hasOwnProperty.call(process.env, key)) {
+        return;
+      }
+      let value = line.slice(eqIndex + 1).trim();
+      if (
+        (value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'"))
+      ) {
+        value = value.slice(1, -1);
+      }
+      process.env[key] = value;
+    });
+};
+
+envFiles.forEach((file) => loadEnvFile(path.join(projectRoot, file)));
+
+const sqliteFile = process.env.LOCAL_SQLITE_PATH ?? path.join(projectRoot, 'local.db');
+if (!fs.existsSync(sqliteFile)) {
+  console.error(`No encontramos la base local en: ${sqliteFile}`);
+  process.exit(1);
+}
+
+const db = new sqlite3.Database(sqliteFile);
+
+const run = (sql, params = []) =>
+  new Promise((resolve, reject) => {
+    db.run(sql, params, function handleRun(err) {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(this?.changes ?? 0);
+    });
+  });
+
+const all = (sql, params = []) =>
+  new Promise((resolve, reject) => {
+    db.all(sql, params, (err, rows) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(rows ?? []);
+    });
+  });
+
+const toTime = (value) => {
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+function planExpirations(rows, now) {
+  const groups = new Map();
+  rows.forEach((row) => {
+    const key = `${row.userId}|${row.programId ?? ''}`;
+    const group = groups.get(key) ?? [];
+    group.push(row);
+    groups.set(key, group);
+  });
+
+  const expirations = [];
+  groups.forEach((entries) => {
+    const lots = entries
+      .filter((entry) => Number(entry.points) > 0)
+      .map((entry) => ({ ...entry, remaining: Number(entry.points) }))
+      .sort(
+        (a, b) =>
+          (toTime(a.expiresAt) ?? Number.MAX_SAFE_INTEGER) - (toTime(b.expiresAt) ?? Number.MAX_SAFE_INTEGER) ||
+          (toTime(a.createdAt) ?? 0) - (toTime(b.createdAt) ?? 0)
+      );
+    const lotsById = new Map(lots.map((lot) => [lot.id, lot]));
+
+    // Reversiones y vencimientos previos descuentan de su acumulación de origen;
+    // canjes y ajustes negativos consumen primero lo que vence antes.
+    let pendingDebit = 0;
+    entries
+      .filter((entry) => Number(entry.points) < 0)
+      .forEach((entry) => {
+        const amount = Math.abs(Number(entry.points));
+        const source = entry.sourceEntryId ? lotsById.get(entry.sourceEntryId) : null;
+        if (source) {
+          const taken = Math.min(source.remaining, amount);
+          source.remaining -= taken;
+          pendingDebit += amount - taken;
+          return;
+        }
+        pendingDebit += amount;
+      });
+    lots.forEach((lot) => {
+      const taken = Math.min(lot.remaining, pendingDebit);
+      lot.remaining -= taken;
+      pendingDebit -= taken;
+    });
+
+    lots.forEach((lot) => {
+      const expiresAt = toTime(lot.expiresAt);
+      if (expiresAt !== null && expiresAt <= now && lot.remaining > 0) {
+        expirations.push({
+          userId: lot.userId,
+          programId: lot.programId ?? null,
+          points: lot.remaining,
+          sourceEntryId: lot.id,
+        });
+      }
+    });
+  });
+  return expirations;
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const rows = await all(
+    `SELECT id, userId, programId, entryType, points, expiresAt, sourceEntryId, createdAt
+     FROM loyalty_points`
+  );
+  const expirations = planExpirations(rows, Date.now());
+  if (!expirations.length) {
+    console.log('Sin puntos por vencer.');
+    return;
+  }
+
+  const createdAt = new Date().toISOString();
+  let expiredPoints = 0;
+  for (const expiration of expirations) {
+    expiredPoints += expiration.points;
+    if (dryRun) {
+      console.log(
+        `${expiration.userId} | programa=${expiration.programId ?? '—'} | -${expiration.points} pts | origen=${expiration.sourceEntryId}`
+      );
+      continue;
+    }
+    await run(
+      `INSERT INTO loyalty_points
+         (id, userId, programId, entryType, points, stamps, reason, sourceEntryId, createdAt)
+       VALUES (?, ?, ?, 'expire', ?, 0, ?, ?, ?)`,
+      [
+        randomUUID(),
+        expiration.userId,
+        expiration.programId,
+        -expiration.points,
+        'Vencimiento de puntos',
+        expiration.sourceEntryId,
+        createdAt,
+      ]
+    );
+  }
+  console.log(
+    `${dryRun ? 'Vencerían' : 'Vencimos'} ${expiredPoints} puntos en ${expirations.length} acumulaciones.`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error('Error venciendo puntos de lealtad:', err.message);
+    process.exit(1);
+  })
+  .finally(() => {
+    db.close();
+  });
@@ -148,7 +148,16 @@ const SYNC_TABLES = [
   { name: 'promo_redemptions', pk: 'id', updatedColumn: 'redeemedAt' },
 ];
 
-const SCHEMA_PATCHES = {};
+const SCHEMA_PATCHES = {
+  loyalty_points: [
+    { column: 'entryType', definition: "TEXT NOT NULL DEFAULT 'earn'" },
+    { column: 'programId', definition: 'TEXT' },
+    { column: 'stamps', definition: 'INTEGER NOT NULL DEFAULT 0' },
+    { column: 'staffId', definition: 'TEXT' },
+    { column: 'sourceEntryId', definition: 'TEXT' },
+  ],
+  users: [{ column: 'anonymizedAt', definition: 'TEXT' }],
+};
 
 const ADDRESS_COLUMNS = [
   'id',
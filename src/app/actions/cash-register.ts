@@ -30,10 +30,22 @@
 
 import { z } from 'zod';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import {
+  sumDenominationCount,
+  type CashDenominationCount,
+  type CashMovement,
+  type CashSaleMethod,
+  type CashShiftSummary,
+  type CashZReport,
+} from '@/lib/cash-shift';
 
 const TURNOS_TABLE = process.env.SUPABASE_TURNOS_TABLE ?? 'turnos';
 const VENTAS_TABLE = process.env.SUPABASE_VENTAS_TABLE ?? 'ventas';
+const GASTOS_TABLE = process.env.SUPABASE_GASTOS_CAJA_TABLE ?? 'gastos_caja';
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const TURNO_COLUMNS =
+  'id,usuario_id,estado,fecha_apertura,fecha_cierre,saldo_inicial,total_ventas_efectivo,total_gastos_efectivo,monto_fisico,diferencia,estado_corte,conteo_denominaciones,"branchId"';
+const DEFAULT_CORTES_LIMIT = 20;
 
 const registrarVentaSchema = z.object({
   turnoId: z.number().int().positive(),
@@ -41,11 +53,41 @@ const registrarVentaSchema = z.object({
   metodoPago: z.enum(['efectivo', 'tarjeta', 'transferencia']),
   montoRecibido: z.number().nonnegative().optional(),
   orderId: z.string().min(1).optional(),
+  // En pagos divididos el pedido conserva el método `mixto`; cada pago se
+  // registra como venta sin sobrescribirlo.
+  actualizarPedido: z.boolean().optional(),
 });
 
-const cerrarTurnoSchema = z.object({
+const abrirTurnoSchema = z.object({
+  usuarioId: z.string().min(1),
+  saldoInicial: z.number().nonnegative(),
+  branchId: z.string().min(1).optional(),
+});
+
+const registrarGastoSchema = z.object({
   turnoId: z.number().int().positive(),
-  montoFisico: z.number().nonnegative(),
+  monto: z.number().positive(),
+  motivo: z.string().trim().min(3),
+  tipo: z.enum(['gasto', 'retiro']),
+  usuarioId: z.string().min(1).optional(),
+});
+
+const cerrarTurnoSchema = z
+  .object({
+    turnoId: z.number().int().positive(),
+    montoFisico: z.number().nonnegative().optional(),
+    conteo: z.record(z.string(), z.number().int().nonnegative()).optional(),
+    usuarioId: z.string().min(1).optional(),
+  })
+  .refine((value) => value.montoFisico !== undefined || value.conteo !== undefined, {
+    message: 'Captura el conteo de efectivo.',
+  });
+
+const registrarReembolsoSchema = z.object({
+  orderId: z.string().min(1),
+  monto: z.number().positive(),
+  metodoPago: z.enum(['efectivo', 'tarjeta', 'transferencia']),
+  branchId: z.string().min(1).optional(),
 });
 
 type RegistrarVentaInput = z.infer<typeof registrarVentaSchema>;
@@ -55,6 +97,15 @@ type RegistrarVentaResult = {
   cambioEntregado: number | null;
 };
 
+type RegistrarReembolsoInput = z.infer<typeof registrarReembolsoSchema>;
+type RegistrarReembolsoResult = {
+  ventaId: number;
+  turnoId: number;
+} | null;
+
+type AbrirTurnoInput = z.infer<typeof abrirTurnoSchema>;
+type RegistrarGastoInput = z.infer<typeof registrarGastoSchema>;
+
 type CerrarTurnoInput = z.infer<typeof cerrarTurnoSchema>;
 type CerrarTurnoResult = {
   turnoId: number;
@@ -66,10 +117,18 @@ type CerrarTurnoResult = {
 
 type TurnoRecord = {
   id: number;
+  usuario_id?: string | null;
   estado?: string | null;
+  fecha_apertura?: string | null;
+  fecha_cierre?: string | null;
   saldo_inicial?: number | string | null;
   total_ventas_efectivo?: number | string | null;
   total_gastos_efectivo?: number | string | null;
+  monto_fisico?: number | string | null;
+  diferencia?: number | string | null;
+  estado_corte?: string | null;
+  conteo_denominaciones?: unknown;
+  branchId?: string | null;
 };
 
 const toNumber = (value: unknown, fallback = 0) => {
@@ -83,6 +142,37 @@ const toNumber = (value: unknown, fallback = 0) => {
   return fallback;
 };
 
+const roundMoney = (value: number) => Number(value.toFixed(2));
+
+const computeSaldoEsperado = (turno: TurnoRecord) =>
+  roundMoney(
+    toNumber(turno.saldo_inicial, 0) +
+      toNumber(turno.total_ventas_efectivo, 0) -
+      toNumber(turno.total_gastos_efectivo, 0)
+  );
+
+const toShiftSummary = (turno: TurnoRecord): CashShiftSummary => {
+  const estadoCorte =
+    turno.estado_corte === 'OK' || turno.estado_corte === 'Faltante' || turno.estado_corte === 'Sobrante'
+      ? turno.estado_corte
+      : null;
+  return {
+    id: turno.id,
+    usuarioId: turno.usuario_id ?? '',
+    estado: turno.estado?.toLowerCase() === 'cerrado' ? 'cerrado' : 'abierto',
+    fechaApertura: turno.fecha_apertura ?? '',
+    fechaCierre: turno.fecha_cierre ?? null,
+    saldoInicial: toNumber(turno.saldo_inicial, 0),
+    totalVentasEfectivo: toNumber(turno.total_ventas_efectivo, 0),
+    totalGastosEfectivo: toNumber(turno.total_gastos_efectivo, 0),
+    saldoEsperado: computeSaldoEsperado(turno),
+    montoFisico: turno.monto_fisico === null || turno.monto_fisico === undefined ? null : toNumber(turno.monto_fisico),
+    diferencia: turno.diferencia === null || turno.diferencia === undefined ? null : toNumber(turno.diferencia),
+    estadoCorte,
+    branchId: turno.branchId ?? null,
+  };
+};
+
 const fetchTurno = async (turnoId: number): Promise<TurnoRecord> => {
   const { data, error } = await supabaseAdmin
     .from(TURNOS_TABLE)
@@ -101,9 +191,24 @@ const fetchTurno = async (turnoId: number): Promise<TurnoRecord> => {
   return data as TurnoRecord;
 };
 
+// `sumar_totales_turno` incrementa en SQL: el turno se comparte entre terminales.
+const sumarTotalesTurno = async (
+  turnoId: number,
+  totales: { ventasEfectivo?: number; gastosEfectivo?: number }
+) => {
+  const { error } = await supabaseAdmin.rpc('sumar_totales_turno', {
+    p_turno_id: turnoId,
+    p_ventas_efectivo: roundMoney(totales.ventasEfectivo ?? 0),
+    p_gastos_efectivo: roundMoney(totales.gastosEfectivo ?? 0),
+  });
+  if (error) {
+    throw new Error(error.message ?? 'No pudimos actualizar el total del turno.');
+  }
+};
+
 export async function registrarVenta(input: RegistrarVentaInput): Promise<RegistrarVentaResult> {
   const payload = registrarVentaSchema.parse(input);
-  const turno = await fetchTurno(payload.turnoId);
+  await fetchTurno(payload.turnoId);
   const isCash = payload.metodoPago === 'efectivo';
 
   if (isCash) {
@@ -136,19 +241,10 @@ export async function registrarVenta(input: RegistrarVentaInput): Promise<Regist
   }
 
   if (isCash) {
-    const currentCash = toNumber(turno.total_ventas_efectivo, 0);
-    const nextCash = currentCash + payload.total;
-    const { error: updateError } = await supabaseAdmin
-      .from(TURNOS_TABLE)
-      .update({ total_ventas_efectivo: nextCash })
-      .eq('id', payload.turnoId);
-
-    if (updateError) {
-      throw new Error(updateError.message ?? 'No pudimos actualizar el total del turno.');
-    }
+    await sumarTotalesTurno(payload.turnoId, { ventasEfectivo: payload.total });
   }
 
-  if (payload.orderId) {
+  if (payload.orderId && payload.actualizarPedido !== false) {
     const orderUpdate: Record<string, unknown> = {
       paymentMethod: payload.metodoPago,
     };
@@ -172,14 +268,172 @@ export async function registrarVenta(input: RegistrarVentaInput): Promise<Regist
   };
 }
 
+const findTurnoAbiertoParaReembolso = async (orderId: string, branchId?: string) => {
+  const { data: ventaOriginal } = await supabaseAdmin
+    .from(VENTAS_TABLE)
+    .select('turno_id')
+    .eq('order_id', orderId)
+    .gt('total', 0)
+    .order('fecha', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const turnoOriginalId = toNumber(ventaOriginal?.turno_id, 0);
+  if (turnoOriginalId > 0) {
+    try {
+      return await fetchTurno(turnoOriginalId);
+    } catch {
+      // El turno original ya cerró; el reembolso se descuenta del turno vigente.
+    }
+  }
+
+  const abierto = await obtenerTurnoActivo(null, { branchId });
+  return abierto ? await fetchTurno(abierto.id) : null;
+};
+
+/**
+ * Registra un reembolso como venta negativa en el turno donde se cobró el pedido
+ * (o en el turno abierto si aquél ya cerró). Si no hay turno abierto devuelve null.
+ */
+export async function registrarReembolso(
+  input: RegistrarReembolsoInput
+): Promise<RegistrarReembolsoResult> {
+  const payload = registrarReembolsoSchema.parse(input);
+  const turno = await findTurnoAbiertoParaReembolso(payload.orderId, payload.branchId);
+  if (!turno) {
+    return null;
+  }
+  const monto = Number(payload.monto.toFixed(2));
+
+  const { data: venta, error: ventaError } = await supabaseAdmin
+    .from(VENTAS_TABLE)
+    .insert({
+      turno_id: turno.id,
+      order_id: payload.orderId,
+      total: -monto,
+      metodo_pago: payload.metodoPago,
+      monto_recibido: null,
+      cambio_entregado: null,
+    })
+    .select('id,turno_id')
+    .single();
+
+  if (ventaError || !venta) {
+    throw new Error(ventaError?.message ?? 'No pudimos registrar el reembolso en caja.');
+  }
+
+  if (payload.metodoPago === 'efectivo') {
+    await sumarTotalesTurno(turno.id, { ventasEfectivo: -monto });
+  }
+
+  return {
+    ventaId: venta.id as number,
+    turnoId: venta.turno_id as number,
+  };
+}
+
+const reemplazarVentasSchema = z.object({
+  orderId: z.string().min(1),
+  ventas: z.array(
+    z.object({
+      total: z.number().positive(),
+      metodoPago: z.enum(['efectivo', 'tarjeta', 'transferencia']),
+      montoRecibido: z.number().nonnegative().optional(),
+    })
+  ),
+});
+
+type ReemplazarVentasInput = z.infer<typeof reemplazarVentasSchema>;
+
+/**
+ * Sustituye las ventas de un pedido cuando su cobro se vuelve a capturar, para que
+ * el corte refleje los mismos pagos que `payments`. Solo toca pedidos que ya
+ * tenían ventas (los reembolsos, que son ventas negativas, se conservan) y las
+ * nuevas quedan en el turno de la última venta. Devuelve el turno o null si el
+ * pedido no se había sumado a ningún turno.
+ */
+export async function reemplazarVentasDePedido(input: ReemplazarVentasInput): Promise<number | null> {
+  const payload = reemplazarVentasSchema.parse(input);
+  const { data: previas, error: previasError } = await supabaseAdmin
+    .from(VENTAS_TABLE)
+    .select('id,turno_id,total,metodo_pago')
+    .eq('order_id', payload.orderId)
+    .not('turno_id', 'is', null)
+    .gt('total', 0)
+    .order('fecha', { ascending: false });
+
+  if (previasError) {
+    throw new Error(previasError.message ?? 'No pudimos consultar las ventas del pedido.');
+  }
+  if (!previas?.length) {
+    return null;
+  }
+
+  // Efectivo que cada turno deja de tener al retirar las ventas anteriores.
+  const efectivoPorTurno = new Map<number, number>();
+  previas.forEach((venta) => {
+    const turnoId = toNumber(venta.turno_id, 0);
+    const efectivo = venta.metodo_pago === 'efectivo' ? toNumber(venta.total, 0) : 0;
+    efectivoPorTurno.set(turnoId, roundMoney((efectivoPorTurno.get(turnoId) ?? 0) - efectivo));
+  });
+  // Ningún turno involucrado puede estar cerrado.
+  for (const turnoId of efectivoPorTurno.keys()) {
+    await fetchTurno(turnoId);
+  }
+  const turnoDestino = toNumber(previas[0].turno_id, 0);
+  payload.ventas.forEach((venta) => {
+    if (venta.metodoPago === 'efectivo') {
+      const actual = efectivoPorTurno.get(turnoDestino) ?? 0;
+      efectivoPorTurno.set(turnoDestino, roundMoney(actual + venta.total));
+    }
+  });
+
+  const { error: deleteError } = await supabaseAdmin
+    .from(VENTAS_TABLE)
+    .delete()
+    .in('id', previas.map((venta) => venta.id));
+  if (deleteError) {
+    throw new Error(deleteError.message ?? 'No pudimos reemplazar las ventas del pedido.');
+  }
+
+  if (payload.ventas.length) {
+    const { error: insertError } = await supabaseAdmin.from(VENTAS_TABLE).insert(
+      payload.ventas.map((venta) => {
+        const isCash = venta.metodoPago === 'efectivo';
+        const montoRecibido = isCash ? Math.max(venta.montoRecibido ?? venta.total, venta.total) : null;
+        return {
+          turno_id: turnoDestino,
+          order_id: payload.orderId,
+          total: venta.total,
+          metodo_pago: venta.metodoPago,
+          monto_recibido: montoRecibido,
+          cambio_entregado: montoRecibido === null ? null : roundMoney(montoRecibido - venta.total),
+        };
+      })
+    );
+    if (insertError) {
+      throw new Error(insertError.message ?? 'No pudimos registrar las ventas del pedido.');
+    }
+  }
+
+  for (const [turnoId, delta] of efectivoPorTurno.entries()) {
+    if (Math.abs(delta) < 0.005) {
+      continue;
+    }
+    await sumarTotalesTurno(turnoId, { ventasEfectivo: delta });
+  }
+
+  return turnoDestino;
+}
+
 export async function cerrarTurno(input: CerrarTurnoInput): Promise<CerrarTurnoResult> {
   const payload = cerrarTurnoSchema.parse(input);
   const turno = await fetchTurno(payload.turnoId);
-  const saldoInicial = toNumber(turno.saldo_inicial, 0);
-  const ventasEfectivo = toNumber(turno.total_ventas_efectivo, 0);
-  const gastosEfectivo = toNumber(turno.total_gastos_efectivo, 0);
-  const saldoEsperado = saldoInicial + ventasEfectivo - gastosEfectivo;
-  const diferencia = Number((payload.montoFisico - saldoEsperado).toFixed(2));
+  const saldoEsperado = computeSaldoEsperado(turno);
+  const montoFisico = payload.conteo
+    ? sumDenominationCount(payload.conteo)
+    : roundMoney(payload.montoFisico ?? 0);
+  const diferencia = roundMoney(montoFisico - saldoEsperado);
 
   let estado: CerrarTurnoResult['estado'] = 'OK';
   if (Math.abs(diferencia) > 0.009) {
@@ -191,6 +445,11 @@ export async function cerrarTurno(input: CerrarTurnoInput): Promise<CerrarTurnoR
     .update({
       estado: 'cerrado',
       fecha_cierre: new Date().toISOString(),
+      monto_fisico: montoFisico,
+      diferencia,
+      estado_corte: estado,
+      conteo_denominaciones: payload.conteo ?? null,
+      cerrado_por: payload.usuarioId ?? null,
     })
     .eq('id', payload.turnoId);
 
@@ -200,9 +459,215 @@ export async function cerrarTurno(input: CerrarTurnoInput): Promise<CerrarTurnoR
 
   return {
     turnoId: payload.turnoId,
-    saldoEsperado: Number(saldoEsperado.toFixed(2)),
-    montoFisico: Number(payload.montoFisico.toFixed(2)),
+    saldoEsperado,
+    montoFisico,
     diferencia,
     estado,
   };
 }
+
+export async function abrirTurno(input: AbrirTurnoInput): Promise<CashShiftSummary> {
+  const payload = abrirTurnoSchema.parse(input);
+  const abierto = await obtenerTurnoActivo(payload.usuarioId, { soloPropio: true });
+  if (abierto) {
+    throw new Error('Ya tienes un turno abierto; ciérralo antes de abrir otro.');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(TURNOS_TABLE)
+    .insert({
+      usuario_id: payload.usuarioId,
+      branchId: payload.branchId ?? null,
+      saldo_inicial: roundMoney(payload.saldoInicial),
+      total_ventas_efectivo: 0,
+      total_gastos_efectivo: 0,
+      estado: 'abierto',
+      fecha_apertura: new Date().toISOString(),
+    })
+    .select(TURNO_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'No pudimos abrir el turno.');
+  }
+  return toShiftSummary(data as TurnoRecord);
+}
+
+/**
+ * Devuelve el turno abierto del usuario. Sin `soloPropio` recurre al último
+ * turno abierto de `branchId`, ya que la caja suele compartirse entre baristas;
+ * sin sucursal no hay respaldo para no cobrar en la caja de otra sucursal.
+ */
+export async function obtenerTurnoActivo(
+  usuarioId?: string | null,
+  options: { soloPropio?: boolean; branchId?: string | null } = {}
+): Promise<CashShiftSummary | null> {
+  const buildQuery = () =>
+    supabaseAdmin
+      .from(TURNOS_TABLE)
+      .select(TURNO_COLUMNS)
+      .eq('estado', 'abierto')
+      .order('fecha_apertura', { ascending: false })
+      .limit(1);
+
+  if (usuarioId) {
+    const { data, error } = await buildQuery().eq('usuario_id', usuarioId).maybeSingle();
+    if (error) {
+      throw new Error(error.message ?? 'No pudimos consultar el turno activo.');
+    }
+    if (data) {
+      return toShiftSummary(data as TurnoRecord);
+    }
+    if (options.soloPropio) {
+      return null;
+    }
+  }
+
+  if (!options.branchId) {
+    return null;
+  }
+
+  const { data, error } = await buildQuery().eq('branchId', options.branchId).maybeSingle();
+  if (error) {
+    throw new Error(error.message ?? 'No pudimos consultar el turno activo.');
+  }
+  return data ? toShiftSummary(data as TurnoRecord) : null;
+}
+
+export async function registrarGasto(input: RegistrarGastoInput): Promise<CashMovement> {
+  const payload = registrarGastoSchema.parse(input);
+  const turno = await fetchTurno(payload.turnoId);
+  const monto = roundMoney(payload.monto);
+  const disponible = computeSaldoEsperado(turno);
+  if (monto > disponible) {
+    throw new Error('El monto excede el efectivo disponible en caja.');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(GASTOS_TABLE)
+    .insert({
+      turno_id: payload.turnoId,
+      tipo: payload.tipo,
+      monto,
+      motivo: payload.motivo,
+      usuario_id: payload.usuarioId ?? null,
+    })
+    .select('id,turno_id,tipo,monto,motivo,usuario_id,fecha')
+    .single();
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'No pudimos registrar el movimiento de caja.');
+  }
+
+  await sumarTotalesTurno(payload.turnoId, { gastosEfectivo: monto });
+
+  return {
+    id: data.id as number,
+    turnoId: data.turno_id as number,
+    tipo: data.tipo as CashMovement['tipo'],
+    monto: toNumber(data.monto),
+    motivo: data.motivo as string,
+    usuarioId: (data.usuario_id as string | null) ?? null,
+    fecha: data.fecha as string,
+  };
+}
+
+export async function obtenerTurno(turnoId: number): Promise<CashShiftSummary | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TURNOS_TABLE)
+    .select(TURNO_COLUMNS)
+    .eq('id', turnoId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message ?? 'No pudimos consultar el turno.');
+  }
+  return data ? toShiftSummary(data as TurnoRecord) : null;
+}
+
+/** Cortes recientes; con `branchId` solo los de esa sucursal. */
+export async function listarCortes(
+  limit = DEFAULT_CORTES_LIMIT,
+  branchId?: string | null
+): Promise<CashShiftSummary[]> {
+  const safeLimit = Number.isFinite(limit) ? Math.trunc(limit) : DEFAULT_CORTES_LIMIT;
+  const { data, error } = await supabaseAdmin
+    .from(TURNOS_TABLE)
+    .select(TURNO_COLUMNS)
+    .match(branchId ? { branchId } : {})
+    .eq('estado', 'cerrado')
+    .order('fecha_cierre', { ascending: false })
+    .limit(Math.min(Math.max(safeLimit, 1), 100));
+
+  if (error) {
+    throw new Error(error.message ?? 'No pudimos consultar los cortes.');
+  }
+  return (data ?? []).map((row) => toShiftSummary(row as TurnoRecord));
+}
+
+export async function generarReporteZ(turnoId: number): Promise<CashZReport> {
+  const { data: turno, error } = await supabaseAdmin
+    .from(TURNOS_TABLE)
+    .select(TURNO_COLUMNS)
+    .eq('id', turnoId)
+    .maybeSingle();
+
+  if (error || !turno) {
+    throw new Error('No encontramos el turno solicitado.');
+  }
+
+  const [{ data: ventas, error: ventasError }, { data: gastos, error: gastosError }] = await Promise.all([
+    supabaseAdmin.from(VENTAS_TABLE).select('total,metodo_pago').eq('turno_id', turnoId),
+    supabaseAdmin
+      .from(GASTOS_TABLE)
+      .select('id,turno_id,tipo,monto,motivo,usuario_id,fecha')
+      .eq('turno_id', turnoId)
+      .order('fecha', { ascending: true }),
+  ]);
+
+  if (ventasError || gastosError) {
+    throw new Error(ventasError?.message ?? gastosError?.message ?? 'No pudimos generar el reporte Z.');
+  }
+
+  const porMetodo = new Map<CashSaleMethod, { total: number; operaciones: number }>();
+  const reembolsos = { total: 0, operaciones: 0 };
+  (ventas ?? []).forEach((venta) => {
+    const total = toNumber(venta.total, 0);
+    if (total < 0) {
+      reembolsos.total = roundMoney(reembolsos.total + Math.abs(total));
+      reembolsos.operaciones += 1;
+      return;
+    }
+    const metodo = venta.metodo_pago as CashSaleMethod;
+    const bucket = porMetodo.get(metodo) ?? { total: 0, operaciones: 0 };
+    bucket.total = roundMoney(bucket.total + total);
+    bucket.operaciones += 1;
+    porMetodo.set(metodo, bucket);
+  });
+
+  const record = turno as TurnoRecord;
+  const conteo =
+    record.conteo_denominaciones && typeof record.conteo_denominaciones === 'object'
+      ? (record.conteo_denominaciones as CashDenominationCount)
+      : null;
+
+  return {
+    turno: toShiftSummary(record),
+    ventasPorMetodo: Array.from(porMetodo.entries()).map(([metodo, bucket]) => ({
+      metodo,
+      ...bucket,
+    })),
+    reembolsos,
+    movimientos: (gastos ?? []).map((gasto) => ({
+      id: gasto.id as number,
+      turnoId: gasto.turno_id as number,
+      tipo: gasto.tipo as CashMovement['tipo'],
+      monto: toNumber(gasto.monto),
+      motivo: gasto.motivo as string,
+      usuarioId: (gasto.usuario_id as string | null) ?? null,
+      fecha: gasto.fecha as string,
+    })),
+    conteo,
+    generadoEn: new Date().toISOString(),
+  };
+}
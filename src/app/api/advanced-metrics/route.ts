@@ -29,6 +29,8 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { canSwitchBranch, resolveBranchScope } from '@/lib/auth/branch-scope';
 
 const sanitizeEnv = (value?: string | null) => value?.trim() || null;
 
@@ -58,6 +60,8 @@ const INVENTORY_ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS_TABLE ?? 'inv
 const INVENTORY_STOCK_TABLE = process.env.SUPABASE_INVENTORY_STOCK_TABLE ?? 'inventory_stock';
 const LOYALTY_PUNCHES_TABLE = process.env.SUPABASE_LOYALTY_PUNCHES_TABLE ?? 'loyalty_points';
 const ADDRESSES_TABLE = process.env.SUPABASE_ADDRESSES_TABLE ?? 'addresses';
+const BRANCHES_TABLE = process.env.SUPABASE_BRANCHES_TABLE ?? 'branches';
+const DELIVERY_DISPATCHES_TABLE = process.env.SUPABASE_DELIVERY_DISPATCHES_TABLE ?? 'delivery_dispatches';
 const parseEmailList = (value?: string | null) =>
   (value ?? '')
     .split(',')
@@ -286,6 +290,17 @@ type AdvancedMetricsPayload = {
   sections: Record<SectionId, SectionPayload>;
   forecasts: ForecastPayload;
   marketing: MarketingInsights;
+  branchId: string | null;
+  branchComparison?: BranchComparisonRow[];
+};
+
+type BranchComparisonRow = {
+  branchId: string;
+  branchName: string;
+  orders: number;
+  completedOrders: number;
+  revenue: number;
+  averageTicket: number;
 };
 
 const toNumber = (value: unknown) => {
@@ -563,8 +578,10 @@ const fetchEarliestTimestamp = async () => {
   return new Date(Math.min(...dates.map((date) => date.getTime())));
 };
 
-const fetchRangeData = async (sinceIso: string, untilIso: string) => {
-  const [orders, payments, reservations, prepQueue, staffSessions, pageAnalytics, ledger] = await Promise.all([
+const fetchRangeData = async (sinceIso: string, untilIso: string, branchId: string | null = null) => {
+  // Con `null` (solo socios) el filtro queda vacío y se leen todas las sucursales.
+  const branchFilter = branchId ? { branchId } : {};
+  const [orders, payments, reservations, prepQueue, staffSessions, pageAnalytics, ledger, deliveries] = await Promise.all([
     supabaseAdmin
       .from(ORDERS_TABLE)
       .select(
@@ -589,6 +606,7 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
           'shipping_address_id',
         ].join(',')
       )
+      .match(branchFilter)
       .gte('createdAt', sinceIso)
       .lte('createdAt', untilIso),
     supabaseAdmin
@@ -616,11 +634,13 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
     supabaseAdmin
       .from(RESERVATIONS_TABLE)
       .select('id,"userId",status,"peopleCount","reservationDate","reservationTime","createdAt","sourceType","reservationCode"')
+      .match(branchFilter)
       .gte('createdAt', sinceIso)
       .lte('createdAt', untilIso),
     supabaseAdmin
       .from(PREP_QUEUE_TABLE)
       .select('id,"orderItemId",status,"handledByStaffId","createdAt","updatedAt","completedAt"')
+      .match(branchFilter)
       .gte('createdAt', sinceIso)
       .lte('createdAt', untilIso),
     supabaseAdmin
@@ -636,17 +656,29 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
     supabaseAdmin
       .from(INVENTORY_LEDGER_TABLE)
       .select('id,"itemId","branchId","voucherType","postingDate","inQty","outQty","inValue","outValue","balanceQty","balanceValue","createdAt"')
+      .match(branchFilter)
       .gte('createdAt', sinceIso)
       .lte('createdAt', untilIso),
+    supabaseAdmin
+      .from(DELIVERY_DISPATCHES_TABLE)
+      .select('id,"orderId","courierStaffId","readyAt","assignedAt","outForDeliveryAt","deliveredAt"')
+      .match(branchFilter)
+      .eq('status', 'delivered')
+      .gte('deliveredAt', sinceIso)
+      .lte('deliveredAt', untilIso),
   ]);
 
   const orderRows = asRows(orders.data);
-  const paymentRows = asRows(payments.data);
+  const scopedOrderIds = branchId ? new Set(orderRows.map((order) => order.id)) : null;
+  // Pagos y partidas no guardan sucursal; se acotan por los pedidos de la sucursal.
+  const belongsToScope = (row: SupabaseRow) => !scopedOrderIds || scopedOrderIds.has(row.orderId);
+  const paymentRows = asRows(payments.data).filter(belongsToScope);
   const reservationRows = asRows(reservations.data);
   const prepQueueRows = asRows(prepQueue.data);
   const staffSessionRows = asRows(staffSessions.data);
   const analyticsRows = asRows(pageAnalytics.data);
   const ledgerRows = asRows(ledger.data);
+  const deliveryRows = asRows(deliveries.data);
 
   const orderIds = orderRows
     .map((order) => {
@@ -688,7 +720,8 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
 
   const inventoryStockPromise = supabaseAdmin
     .from(INVENTORY_STOCK_TABLE)
-    .select('id,"itemId","branchId",quantity');
+    .select('id,"itemId","branchId",quantity')
+    .match(branchFilter);
 
   const loyaltyPunchesPromise = userIds.size
     ? supabaseAdmin.from(LOYALTY_PUNCHES_TABLE).select('"userId"').in('userId', Array.from(userIds))
@@ -745,6 +778,7 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
         'shipping_address_id',
       ].join(',')
     )
+    .match(branchFilter)
     .gte('createdAt', monthStartIsoFrom(untilIso))
     .lte('createdAt', untilIso);
 
@@ -769,7 +803,7 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
       monthOrdersPromise,
     ]);
 
-  const orderItemRows = asRows(orderItemsResponse.data);
+  const orderItemRows = asRows(orderItemsResponse.data).filter(belongsToScope);
   const inventoryItemRows = asRows(inventoryItemsResponse.data);
   const inventoryStockRows = asRows(inventoryStockResponse.data);
   const shippingAddressRows = asRows(shippingAddressesResponse.data);
@@ -818,6 +852,12 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
       staffIds.add(staffId);
     }
   });
+  deliveryRows.forEach((delivery) => {
+    const staffId = (delivery as { courierStaffId?: unknown }).courierStaffId;
+    if (typeof staffId === 'string') {
+      staffIds.add(staffId);
+    }
+  });
 
   const baseStaffSelect = [
     'id',
@@ -894,6 +934,7 @@ const fetchRangeData = async (sinceIso: string, untilIso: string) => {
     staffSessions: staffSessionRows,
     pageAnalytics: analyticsRows,
     ledger: ledgerRows,
+    deliveries: deliveryRows,
     orderItems: orderItemRows,
     inventoryItems: inventoryItemRows,
     inventoryStock: inventoryStockRows,
@@ -1795,6 +1836,20 @@ const buildEmployeesSection = (data: Awaited<ReturnType<typeof fetchRangeData>>)
     }))
     .sort((a, b) => b.completed - a.completed)
     .slice(0, 5);
+  // Reparto por repartidor: tiempo en ruta (salida → entrega) y total (lista → entrega).
+  const deliveriesByStaff = new Map<string, { delivered: number; ride: number[]; total: number[] }>();
+  data.deliveries.forEach((delivery) => {
+    if (!delivery.courierStaffId) return;
+    const entry = deliveriesByStaff.get(delivery.courierStaffId) ?? { delivered: 0, ride: [], total: [] };
+    entry.delivered += 1;
+    const ride = durationSeconds(delivery.outForDeliveryAt, delivery.deliveredAt);
+    if (ride) entry.ride.push(ride);
+    const total = durationSeconds(delivery.readyAt, delivery.deliveredAt);
+    if (total) entry.total.push(total);
+    deliveriesByStaff.set(delivery.courierStaffId, entry);
+  });
+  const rideTimes = Array.from(deliveriesByStaff.values()).flatMap((entry) => entry.ride);
+  const minutesLabel = (values: number[]) => (values.length ? (average(values) / 60).toFixed(1) : '—');
   const avgSessionDisplay =
     avgSession >= 3600
       ? `${(avgSession / 3600).toFixed(1)} h`
@@ -1803,6 +1858,8 @@ const buildEmployeesSection = (data: Awaited<ReturnType<typeof fetchRangeData>>)
     { label: 'Sesiones registradas', value: data.staffSessions.length },
     { label: 'Duración media sesión', value: avgSessionDisplay },
     { label: 'Pedidos completados (cola)', value: topStaff.reduce((sum, staff) => sum + staff.completed, 0) },
+    { label: 'Entregas a domicilio', value: data.deliveries.length },
+    { label: 'Tiempo medio en ruta', value: `${minutesLabel(rideTimes)} min` },
   ];
   const bars: ChartBar[] = topStaff.map((staff) => {
     const member = staffMap.get(staff.staffId);
@@ -1833,6 +1890,7 @@ const buildEmployeesSection = (data: Awaited<ReturnType<typeof fetchRangeData>>)
       const cleaningKey = member.email?.toLowerCase() ?? '';
       const cleaningCount = CLEANING_COMPLETION_COUNTS[cleaningKey] ?? 0;
       const completedOrders = tasksByStaff.get(member.id ?? '')?.completed ?? 0;
+      const deliveryStats = deliveriesByStaff.get(member.id ?? '');
       return {
         sortMetric: durationHoursRaw,
         row: {
@@ -1843,6 +1901,9 @@ const buildEmployeesSection = (data: Awaited<ReturnType<typeof fetchRangeData>>)
           'Tiempo promedio (h)': avgHoursLabel,
           'Día fuerte': topDay,
           'Pedidos completados': completedOrders,
+          Entregas: deliveryStats?.delivered ?? 0,
+          'Tiempo en ruta (min)': minutesLabel(deliveryStats?.ride ?? []),
+          'Tiempo total entrega (min)': minutesLabel(deliveryStats?.total ?? []),
           'Dispositivo principal': primaryDevice,
           'Sistema operativo': primaryOs,
           'Limpiezas completadas': cleaningCount,
@@ -1862,13 +1923,18 @@ const buildEmployeesSection = (data: Awaited<ReturnType<typeof fetchRangeData>>)
       'Tiempo promedio (h)',
       'Día fuerte',
       'Pedidos completados',
+      'Entregas',
+      'Tiempo en ruta (min)',
+      'Tiempo total entrega (min)',
       'Dispositivo principal',
       'Sistema operativo',
       'Limpiezas completadas',
     ],
     rows: staffRows,
   };
-  const hasData = Boolean(data.staffSessions.length || data.prepQueue.length || staffRows.length);
+  const hasData = Boolean(
+    data.staffSessions.length || data.prepQueue.length || data.deliveries.length || staffRows.length
+  );
   return hasData
     ? { title: sectionTitles.employees, hasData, cards, bars, table }
     : buildEmptySection(sectionTitles.employees);
@@ -2367,6 +2433,57 @@ const buildMarketingInsights = (data: Awaited<ReturnType<typeof fetchRangeData>>
   };
 };
 
+// Comparativo entre sucursales para socios; siempre abarca todas, sin importar el selector.
+const fetchBranchComparison = async (sinceIso: string, untilIso: string): Promise<BranchComparisonRow[]> => {
+  const [branchesResult, ordersResult] = await Promise.all([
+    supabaseAdmin.from(BRANCHES_TABLE).select('id,name'),
+    supabaseAdmin
+      .from(ORDERS_TABLE)
+      .select('id,"branchId",status,total')
+      .gte('createdAt', sinceIso)
+      .lte('createdAt', untilIso),
+  ]);
+  if (branchesResult.error) {
+    throw new Error(branchesResult.error.message);
+  }
+  if (ordersResult.error) {
+    throw new Error(ordersResult.error.message);
+  }
+
+  const rows = new Map<string, BranchComparisonRow>();
+  asRows(branchesResult.data).forEach((branch) => {
+    if (typeof branch.id !== 'string') return;
+    rows.set(branch.id, {
+      branchId: branch.id,
+      branchName: typeof branch.name === 'string' && branch.name.trim() ? branch.name : branch.id,
+      orders: 0,
+      completedOrders: 0,
+      revenue: 0,
+      averageTicket: 0,
+    });
+  });
+  asRows(ordersResult.data).forEach((order) => {
+    const branchId = typeof order.branchId === 'string' && order.branchId ? order.branchId : 'Sin sucursal';
+    const entry =
+      rows.get(branchId) ??
+      { branchId, branchName: branchId, orders: 0, completedOrders: 0, revenue: 0, averageTicket: 0 };
+    entry.orders += 1;
+    if (order.status === 'completed') {
+      entry.completedOrders += 1;
+      entry.revenue += toNumber(order.total);
+    }
+    rows.set(branchId, entry);
+  });
+
+  return Array.from(rows.values())
+    .map((entry) => ({
+      ...entry,
+      revenue: Number(entry.revenue.toFixed(2)),
+      averageTicket: entry.completedOrders ? Number((entry.revenue / entry.completedOrders).toFixed(2)) : 0,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+};
+
 const EMPTY_FORECASTS: ForecastPayload = {
   restock: [],
   production: [],
@@ -2387,6 +2504,12 @@ const EMPTY_MARKETING: MarketingInsights = {
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/advanced-metrics');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const branchId = resolveBranchScope(request, auth.session);
   const url = new URL(request.url);
   const rangeParam = url.searchParams.get('range') ?? undefined;
   const marketingRangeParam = url.searchParams.get('marketing_range') ?? undefined;
@@ -2453,21 +2576,24 @@ export async function GET(request: Request) {
     let baseData: Awaited<ReturnType<typeof fetchRangeData>> | null = null;
 
     if (rangeHasData) {
-      baseData = await fetchRangeData(sinceIso, untilIso);
+      baseData = await fetchRangeData(sinceIso, untilIso, branchId);
       sections = computeSections(baseData);
       forecasts = buildForecasts(baseData, sinceIso, untilIso);
     }
 
     if (marketingRangeHasData) {
       if (marketingRangeInfo.key === rangeKey) {
-        const marketingData = baseData ?? (await fetchRangeData(marketingSinceIso, marketingUntilIso));
+        const marketingData = baseData ?? (await fetchRangeData(marketingSinceIso, marketingUntilIso, branchId));
         marketing = buildMarketingInsights(marketingData);
       } else {
-        const marketingData = await fetchRangeData(marketingSinceIso, marketingUntilIso);
+        const marketingData = await fetchRangeData(marketingSinceIso, marketingUntilIso, branchId);
         marketing = buildMarketingInsights(marketingData);
       }
     }
 
+    const branchComparison =
+      rangeHasData && canSwitchBranch(auth.session) ? await fetchBranchComparison(sinceIso, untilIso) : undefined;
+
     const payload: AdvancedMetricsPayload = {
       range: rangeKey,
       rangeLabel,
@@ -2480,6 +2606,8 @@ export async function GET(request: Request) {
       sections,
       forecasts,
       marketing,
+      branchId,
+      ...(branchComparison ? { branchComparison } : {}),
     };
 
     if (exportParam && sectionParam) {
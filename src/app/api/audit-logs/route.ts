@@ -0,0 +1,80 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { buildAuditLogCsv, loadAuditLogs } from '@/lib/audit-log';
+
+export const dynamic = 'force-dynamic';
+
+const readParam = (searchParams: URLSearchParams, key: string) => searchParams.get(key)?.trim() || null;
+
+// Las fechas llegan como `YYYY-MM-DD`; el filtro `to` incluye el día completo.
+const toRangeBoundary = (value: string | null, endOfDay: boolean) => {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999` : value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/audit-logs');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit'));
+    const entries = await loadAuditLogs({
+      staffId: readParam(searchParams, 'staffId'),
+      action: readParam(searchParams, 'action'),
+      from: toRangeBoundary(readParam(searchParams, 'from'), false),
+      to: toRangeBoundary(readParam(searchParams, 'to'), true),
+      limit: Number.isFinite(limit) && limit > 0 ? limit : null,
+    });
+
+    if ((searchParams.get('format') ?? 'json').toLowerCase() === 'csv') {
+      const stamp = new Date().toISOString().slice(0, 10);
+      return new NextResponse(buildAuditLogCsv(entries), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="auditoria-${stamp}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, data: entries });
+  } catch (error) {
+    console.error('Error obteniendo bitácora de auditoría:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar la bitácora' },
+      { status: 500 }
+    );
+  }
+}
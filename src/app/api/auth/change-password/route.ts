@@ -31,19 +31,25 @@ import bcrypt from 'bcryptjs';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { meetsPasswordPolicy, PASSWORD_POLICY_MESSAGE } from '@/lib/password-policy';
 import { sendPasswordChangedEmail } from '@/lib/mailer';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
 
 const STAFF_TABLE = process.env.SUPABASE_STAFF_TABLE ?? 'staff_users';
 
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/auth/change-password');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
-    const { userId, email, currentPassword, newPassword } = (await request.json()) as {
-      userId?: string;
-      email?: string;
+    const { currentPassword, newPassword } = (await request.json()) as {
       currentPassword?: string;
       newPassword?: string;
     };
+    const { staffId, email } = auth.session;
 
-    if (!userId || !email || !currentPassword || !newPassword) {
+    if (!currentPassword || !newPassword) {
       return NextResponse.json(
         { success: false, error: 'Falta información para validar el cambio.' },
         { status: 400 }
@@ -53,7 +59,7 @@ export async function POST(request: Request) {
     const { data: staffRecord, error: staffError } = await supabaseAdmin
       .from(STAFF_TABLE)
       .select('id,email,"passwordHash"')
-      .or(`id.eq.${userId},email.eq.${email}`)
+      .eq('id', staffId)
       .maybeSingle();
 
     if (staffError) {
@@ -69,6 +75,13 @@ export async function POST(request: Request) {
 
     const matches = await bcrypt.compare(currentPassword, staffRecord.passwordHash);
     if (!matches) {
+      await logAuditAction({
+        request,
+        session: auth.session,
+        action: 'auth.password_change',
+        level: 'warning',
+        details: { email: staffRecord.email ?? email, outcome: 'current_password_mismatch' },
+      });
       return NextResponse.json(
         { success: false, error: 'La contraseña actual no coincide.' },
         { status: 401 }
@@ -98,6 +111,14 @@ export async function POST(request: Request) {
       throw new Error(updateError.message);
     }
 
+    // El hash nunca entra a la bitácora; basta con registrar cuándo cambió.
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'auth.password_change',
+      details: { email: staffRecord.email ?? email, outcome: 'changed', changedAt },
+    });
+
     const requestIp = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ?? null;
     const requestAgent = request.headers.get('user-agent');
     if (staffRecord.email) {
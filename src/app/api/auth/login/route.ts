@@ -32,6 +32,8 @@ import bcrypt from 'bcryptjs';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import type { AuthenticatedStaff, ShiftType, StaffRole } from '@/providers/auth-provider';
 import { getPresetHashOverride, hashWithSalts } from '@/lib/auth/password-hash';
+import { buildSessionCookie, issueStaffSession } from '@/lib/auth/staff-session';
+import { logAuditAction } from '@/lib/audit-log';
 
 const STAFF_TABLE = process.env.SUPABASE_STAFF_TABLE ?? 'staff_users';
 const BRANCHES_TABLE = process.env.SUPABASE_BRANCHES_TABLE ?? 'branches';
@@ -346,6 +348,13 @@ export async function POST(request: Request) {
     }
 
     if (!passwordIsValid) {
+      await logAuditAction({
+        request,
+        staffId: staffRecord?.id ?? null,
+        action: 'auth.login_failed',
+        level: 'warning',
+        details: { email: normalizedEmail },
+      });
       return NextResponse.json(
         { success: false, error: 'Usuario o contraseña incorrectos.' },
         { status: 401 }
@@ -457,7 +466,20 @@ export async function POST(request: Request) {
         new Date().toISOString(),
     };
 
-    return NextResponse.json({ success: true, user });
+    const session = await issueStaffSession(user, request);
+    await logAuditAction({
+      request,
+      staffId: recordId ?? null,
+      action: 'auth.login',
+      details: { email: user.email, role: user.role, branchId, sessionId: session.sessionId },
+    });
+    const response = NextResponse.json({
+      success: true,
+      user,
+      session: { token: session.token, expiresAt: session.expiresAt },
+    });
+    response.cookies.set(buildSessionCookie(session.token, session.maxAge));
+    return response;
   } catch (error) {
     console.error('Error en login de staff:', error);
     return NextResponse.json(
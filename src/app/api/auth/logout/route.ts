@@ -0,0 +1,56 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import {
+  buildClearedSessionCookie,
+  endStaffSession,
+  readStaffSessionToken,
+  verifyStaffSessionToken,
+} from '@/lib/auth/staff-session';
+import { buildClearedBranchScopeCookie } from '@/lib/auth/branch-scope';
+
+export async function POST(request: Request) {
+  try {
+    const token = readStaffSessionToken(request);
+    const session = token ? verifyStaffSessionToken(token) : null;
+    if (session) {
+      await endStaffSession(session.sessionId);
+    }
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(buildClearedSessionCookie());
+    response.cookies.set(buildClearedBranchScopeCookie());
+    return response;
+  } catch (error) {
+    console.error('Error cerrando sesión de staff:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cerrar la sesión.' },
+      { status: 500 }
+    );
+  }
+}
@@ -29,6 +29,7 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { db } from '@/lib/database-manager';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 type ProductType = 'beverage' | 'food' | 'package';
 type AvailabilityStatus = 'available' | 'low_stock' | 'unavailable';
@@ -59,7 +60,12 @@ interface AvailabilitySection {
 }
 
 // GET - Obtener disponibilidad desde tabla products
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/availability-new');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     // Obtener productos con sus banderas de stock
     const productsResult = await db.select('products', {
@@ -168,6 +174,11 @@ export async function GET() {
 
 // POST - Actualizar banderas de stock en tabla products
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/availability-new');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { productId, productType, availabilityStatus, reason } = await request.json();
 
@@ -28,6 +28,7 @@
 
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/database-manager';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 type ProductType = 'beverage' | 'food' | 'package';
 
@@ -64,7 +65,12 @@ interface AvailabilitySection {
 }
 
 // GET - Obtener disponibilidad desde tabla products
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/availability');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     // Obtener productos con sus banderas de stock
     const productsResult = await db.select('products', {
@@ -176,6 +182,11 @@ export async function GET() {
 
 // POST - Actualizar banderas de stock en tabla products
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/availability');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { productId, productType, availabilityStatus, reason } = await request.json();
 
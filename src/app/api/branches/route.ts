@@ -0,0 +1,123 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  ALL_BRANCHES,
+  buildBranchScopeCookie,
+  canSwitchBranch,
+  resolveBranchScope,
+  resolveSessionBranch,
+} from '@/lib/auth/branch-scope';
+
+export const dynamic = 'force-dynamic';
+
+const BRANCHES_TABLE = process.env.SUPABASE_BRANCHES_TABLE ?? 'branches';
+
+const SelectBranchSchema = z.object({
+  branchId: z.string().trim().min(1),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/branches');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(BRANCHES_TABLE)
+      .select('id,code,name,city,"isActive"')
+      .eq('isActive', true)
+      .order('name', { ascending: true });
+    if (error) {
+      throw new Error(error.message);
+    }
+    return NextResponse.json({
+      success: true,
+      data: {
+        branches: (data ?? []).map((branch) => ({
+          id: String(branch.id),
+          code: String(branch.code ?? branch.id),
+          name: String(branch.name ?? branch.id),
+          city: typeof branch.city === 'string' ? branch.city : null,
+        })),
+        selected: resolveBranchScope(request, auth.session) ?? ALL_BRANCHES,
+        sessionBranchId: resolveSessionBranch(auth.session),
+        canSwitch: canSwitchBranch(auth.session),
+      },
+    });
+  } catch (error) {
+    console.error('Error obteniendo sucursales:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las sucursales' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/branches');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { branchId } = SelectBranchSchema.parse(await request.json());
+    if (branchId !== ALL_BRANCHES) {
+      const { data, error } = await supabaseAdmin
+        .from(BRANCHES_TABLE)
+        .select('id')
+        .eq('id', branchId)
+        .eq('isActive', true)
+        .maybeSingle();
+      if (error) {
+        throw new Error(error.message);
+      }
+      if (!data) {
+        return NextResponse.json({ success: false, error: 'Sucursal no encontrada' }, { status: 404 });
+      }
+    }
+
+    const response = NextResponse.json({ success: true, data: { selected: branchId } });
+    response.cookies.set(buildBranchScopeCookie(branchId));
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error cambiando de sucursal:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cambiar de sucursal' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resolveBranchScope, resolveWriteBranch } from '@/lib/auth/branch-scope';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  abrirTurno,
+  cerrarTurno,
+  generarReporteZ,
+  listarCortes,
+  obtenerTurno,
+  obtenerTurnoActivo,
+  registrarGasto,
+} from '@/app/actions/cash-register';
+import type { CashShiftSummary } from '@/lib/cash-shift';
+
+const MANAGER_ROLES = new Set(['gerente', 'socio', 'superuser']);
+
+const cashRegisterActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('open'), saldoInicial: z.number().nonnegative() }),
+  z.object({
+    action: z.literal('expense'),
+    turnoId: z.number().int().positive().optional(),
+    tipo: z.enum(['gasto', 'retiro']),
+    monto: z.number().positive(),
+    motivo: z.string().trim().min(3),
+  }),
+  z.object({
+    action: z.literal('close'),
+    turnoId: z.number().int().positive().optional(),
+    conteo: z.record(z.string(), z.number().int().nonnegative()),
+  }),
+]);
+
+// Un `limit` inválido usa el valor por defecto de listarCortes.
+const parseLimit = (value: string | null) => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const errorResponse = (message: string, status = 400) =>
+  NextResponse.json({ success: false, error: message }, { status });
+
+// Corte ciego: el cajero no ve el saldo esperado mientras el turno sigue abierto.
+const hideExpected = (shift: CashShiftSummary | null, isManager: boolean) =>
+  shift && !isManager && shift.estado === 'abierto' ? { ...shift, saldoEsperado: null } : shift;
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/cash-register');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const isManager = MANAGER_ROLES.has(auth.session.role);
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const turnoIdParam = searchParams.get('turnoId');
+    if (turnoIdParam) {
+      const turnoId = Number(turnoIdParam);
+      if (!Number.isInteger(turnoId) || turnoId <= 0) {
+        return errorResponse('Turno inválido');
+      }
+      const report = await generarReporteZ(turnoId);
+      const branchId = resolveBranchScope(request, auth.session);
+      if (branchId && report.turno.branchId && report.turno.branchId !== branchId) {
+        return errorResponse('El turno pertenece a otra sucursal.', 403);
+      }
+      if (report.turno.estado === 'abierto' && !isManager) {
+        return errorResponse('El reporte Z se habilita al cerrar el turno.', 403);
+      }
+      return NextResponse.json({ success: true, data: report });
+    }
+
+    const [activeShift, closings] = await Promise.all([
+      obtenerTurnoActivo(auth.session.staffId, { branchId: resolveWriteBranch(request, auth.session) }),
+      listarCortes(parseLimit(searchParams.get('limit')), resolveBranchScope(request, auth.session)),
+    ]);
+    return NextResponse.json({
+      success: true,
+      data: { activeShift: hideExpected(activeShift, isManager), closings },
+    });
+  } catch (error) {
+    console.error('Error consultando turnos de caja:', error);
+    return errorResponse('No pudimos cargar los turnos de caja.', 500);
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/cash-register');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = cashRegisterActionSchema.parse(await request.json());
+    const staffId = auth.session.staffId;
+    const branchId = resolveWriteBranch(request, auth.session);
+
+    if (payload.action === 'open') {
+      const shift = await abrirTurno({
+        usuarioId: staffId,
+        saldoInicial: payload.saldoInicial,
+        branchId,
+      });
+      return NextResponse.json({ success: true, data: shift });
+    }
+
+    const shift = payload.turnoId
+      ? await obtenerTurno(payload.turnoId)
+      : await obtenerTurnoActivo(staffId, { branchId });
+    if (!shift || shift.estado !== 'abierto') {
+      return errorResponse('No hay un turno de caja abierto.', 409);
+    }
+    // Gastos y cortes solo sobre el turno propio; un gerente puede operar la caja
+    // de otra persona, pero únicamente dentro de su sucursal.
+    const isManager = MANAGER_ROLES.has(auth.session.role);
+    if (shift.usuarioId !== staffId && !isManager) {
+      return errorResponse('Solo un gerente puede operar el turno de otra persona.', 403);
+    }
+    if (shift.branchId && shift.branchId !== branchId) {
+      return errorResponse('El turno pertenece a otra sucursal.', 403);
+    }
+    const turnoId = shift.id;
+
+    if (payload.action === 'expense') {
+      const movement = await registrarGasto({
+        turnoId,
+        tipo: payload.tipo,
+        monto: payload.monto,
+        motivo: payload.motivo,
+        usuarioId: staffId,
+      });
+      return NextResponse.json({ success: true, data: movement });
+    }
+
+    const result = await cerrarTurno({ turnoId, conteo: payload.conteo, usuarioId: staffId });
+    const report = await generarReporteZ(turnoId);
+    return NextResponse.json({ success: true, data: { result, report } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errorResponse('Datos inválidos');
+    }
+    console.error('Error en turno de caja:', error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'No pudimos actualizar el turno de caja.',
+      500
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,149 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { CATALOG_PRODUCTS_TABLE, logCatalogAction } from '@/lib/catalog-admin';
+
+// Las categorías viven como texto en cada producto, así que se editan en bloque.
+const RenameCategorySchema = z.object({
+  from: z.string().trim().min(1).max(80),
+  to: z.string().trim().min(1).max(80),
+});
+
+const DeleteCategorySchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  reassignTo: z.string().trim().min(1).max(80).optional().nullable(),
+});
+
+const listCategoryProductIds = async (category: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(CATALOG_PRODUCTS_TABLE)
+    .select('id')
+    .eq('category', category);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).map((row) => row.id as string);
+};
+
+export async function PATCH(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/categories');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { from, to } = RenameCategorySchema.parse(await request.json());
+    if (from === to) {
+      return NextResponse.json({ success: false, error: 'No hay cambios por guardar' }, { status: 400 });
+    }
+
+    const productIds = await listCategoryProductIds(from);
+    if (!productIds.length) {
+      return NextResponse.json({ success: false, error: 'Categoría no encontrada' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from(CATALOG_PRODUCTS_TABLE)
+      .update({ category: to, updatedAt: new Date().toISOString() })
+      .eq('category', from);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.category.rename',
+      details: { before: from, after: to, productIds },
+    });
+
+    return NextResponse.json({ success: true, data: { name: to, products: productIds.length } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error renombrando categoría:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos renombrar la categoría' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Con `reassignTo` los productos pasan a otra categoría; sin él se desactivan
+ * todos para que la categoría desaparezca del menú sin perder su historial.
+ */
+export async function DELETE(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/categories');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { name, reassignTo } = DeleteCategorySchema.parse(await request.json());
+    const productIds = await listCategoryProductIds(name);
+    if (!productIds.length) {
+      return NextResponse.json({ success: false, error: 'Categoría no encontrada' }, { status: 404 });
+    }
+
+    const update = reassignTo ? { category: reassignTo } : { isActive: false };
+    const { error } = await supabaseAdmin
+      .from(CATALOG_PRODUCTS_TABLE)
+      .update({ ...update, updatedAt: new Date().toISOString() })
+      .eq('category', name);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.category.delete',
+      details: { name, reassignTo: reassignTo ?? null, productIds },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { name, reassignTo: reassignTo ?? null, products: productIds.length },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error eliminando categoría:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos eliminar la categoría' },
+      { status: 500 }
+    );
+  }
+}
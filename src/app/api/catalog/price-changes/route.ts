@@ -0,0 +1,202 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  PRICE_CHANGES_TABLE,
+  loadCatalogProduct,
+  logCatalogAction,
+  readProductSizes,
+} from '@/lib/catalog-admin';
+import { roundCurrency } from '@/lib/order-pricing';
+
+const SchedulePriceSchema = z.object({
+  productId: z.string().trim().min(1),
+  sizeId: z.string().trim().min(1).optional().nullable(),
+  price: z.number().nonnegative(),
+  effectiveAt: z.coerce.date(),
+});
+
+const CancelPriceSchema = z.object({
+  id: z.string().trim().min(1),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/price-changes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') ?? 'scheduled';
+    let query = supabaseAdmin
+      .from(PRICE_CHANGES_TABLE)
+      .select('*')
+      .order('effectiveAt', { ascending: true })
+      .limit(200);
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+    const productId = searchParams.get('productId');
+    if (productId) {
+      query = query.eq('productId', productId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ success: true, data: data ?? [] });
+  } catch (error) {
+    console.error('Error obteniendo cambios de precio:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos obtener los cambios de precio' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/price-changes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = SchedulePriceSchema.parse(await request.json());
+    if (payload.effectiveAt.getTime() <= Date.now()) {
+      return NextResponse.json(
+        { success: false, error: 'La fecha del cambio debe ser futura' },
+        { status: 400 }
+      );
+    }
+
+    const product = await loadCatalogProduct(payload.productId);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Producto no encontrado' }, { status: 404 });
+    }
+    const sizeId = payload.sizeId || null;
+    if (sizeId && !readProductSizes(product).some((size) => size.id === sizeId)) {
+      return NextResponse.json({ success: false, error: 'Tamaño no encontrado' }, { status: 404 });
+    }
+
+    const record = {
+      id: randomUUID(),
+      productId: product.id,
+      sizeId,
+      price: roundCurrency(payload.price),
+      effectiveAt: payload.effectiveAt.toISOString(),
+      status: 'scheduled',
+      createdByStaffId: auth.session.staffId,
+    };
+
+    const { data, error } = await supabaseAdmin
+      .from(PRICE_CHANGES_TABLE)
+      .insert(record)
+      .select('*')
+      .single();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.price.schedule',
+      details: {
+        priceChangeId: record.id,
+        productId: product.id,
+        sizeId,
+        price: record.price,
+        effectiveAt: record.effectiveAt,
+      },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error programando cambio de precio:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos programar el cambio de precio' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/price-changes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { id } = CancelPriceSchema.parse(await request.json());
+    const { data, error } = await supabaseAdmin
+      .from(PRICE_CHANGES_TABLE)
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .eq('status', 'scheduled')
+      .select('*')
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'El cambio ya no está programado' },
+        { status: 404 }
+      );
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.price.cancel',
+      details: { priceChangeId: id, productId: data.productId, sizeId: data.sizeId ?? null },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error cancelando cambio de precio:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cancelar el cambio de precio' },
+      { status: 500 }
+    );
+  }
+}
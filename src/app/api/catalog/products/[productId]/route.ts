@@ -0,0 +1,168 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  CATALOG_PRODUCTS_TABLE,
+  loadCatalogProduct,
+  logCatalogAction,
+} from '@/lib/catalog-admin';
+import { parseModifierGroups } from '@/lib/product-modifiers';
+import { roundCurrency } from '@/lib/order-pricing';
+
+const UpdateProductSchema = z
+  .object({
+    name: z.string().trim().min(2).max(120),
+    category: z.string().trim().min(1).max(80),
+    subcategory: z.string().trim().max(80).nullable(),
+    price: z.number().nonnegative(),
+    cost: z.number().nonnegative().nullable(),
+    isActive: z.boolean(),
+    modifierGroups: z.array(z.record(z.string(), z.any())),
+  })
+  .partial();
+
+export async function PATCH(request: Request, context: { params: { productId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/catalog/products/[productId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const productId = context.params?.productId?.trim();
+  if (!productId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del producto' }, { status: 400 });
+  }
+
+  try {
+    const payload = UpdateProductSchema.parse(await request.json());
+    const product = await loadCatalogProduct(productId);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Producto no encontrado' }, { status: 404 });
+    }
+
+    const changes: Record<string, unknown> = {};
+    if (payload.name !== undefined) changes.name = payload.name;
+    if (payload.category !== undefined) changes.category = payload.category;
+    if (payload.subcategory !== undefined) changes.subcategory = payload.subcategory || null;
+    if (payload.price !== undefined) changes.price = roundCurrency(payload.price);
+    if (payload.cost !== undefined) {
+      changes.cost = payload.cost === null ? null : roundCurrency(payload.cost);
+    }
+    if (payload.isActive !== undefined) changes.isActive = payload.isActive;
+    if (payload.modifierGroups !== undefined) {
+      changes.modifierGroups = parseModifierGroups(payload.modifierGroups);
+    }
+
+    if (!Object.keys(changes).length) {
+      return NextResponse.json({ success: false, error: 'No hay cambios por guardar' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(CATALOG_PRODUCTS_TABLE)
+      .update({ ...changes, updatedAt: new Date().toISOString() })
+      .eq('id', product.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const productRecord = product as unknown as Record<string, unknown>;
+    const before = Object.fromEntries(
+      Object.keys(changes).map((key) => [key, productRecord[key] ?? null])
+    );
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.product.update',
+      details: { productId: product.id, before, after: changes },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error actualizando producto:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar el producto' },
+      { status: 500 }
+    );
+  }
+}
+
+// Los productos nunca se borran: los pedidos históricos siguen apuntando a ellos.
+export async function DELETE(request: Request, context: { params: { productId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/catalog/products/[productId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const productId = context.params?.productId?.trim();
+  if (!productId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del producto' }, { status: 400 });
+  }
+
+  try {
+    const product = await loadCatalogProduct(productId);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Producto no encontrado' }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(CATALOG_PRODUCTS_TABLE)
+      .update({ isActive: false, updatedAt: new Date().toISOString() })
+      .eq('id', product.id)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.product.deactivate',
+      details: { productId: product.id, name: product.name ?? null },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error('Error desactivando producto:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos desactivar el producto' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  CATALOG_PRODUCTS_TABLE,
+  buildSizesUpdate,
+  loadCatalogProduct,
+  logCatalogAction,
+  normalizeSizeInputs,
+  readProductSizes,
+} from '@/lib/catalog-admin';
+
+const UpsertSizeSchema = z.object({
+  id: z.string().trim().max(60).optional().nullable(),
+  label: z.string().trim().min(1).max(60),
+  price: z.number().nonnegative().optional().nullable(),
+});
+
+const DeleteSizeSchema = z.object({
+  sizeId: z.string().trim().min(1),
+});
+
+const saveSizes = async (productId: string, update: Record<string, unknown>) => {
+  const { data, error } = await supabaseAdmin
+    .from(CATALOG_PRODUCTS_TABLE)
+    .update({ ...update, updatedAt: new Date().toISOString() })
+    .eq('id', productId)
+    .select('*')
+    .single();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data;
+};
+
+export async function POST(request: Request, context: { params: { productId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/catalog/products/[productId]/sizes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const productId = context.params?.productId?.trim();
+  if (!productId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del producto' }, { status: 400 });
+  }
+
+  try {
+    const payload = UpsertSizeSchema.parse(await request.json());
+    const product = await loadCatalogProduct(productId);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Producto no encontrado' }, { status: 404 });
+    }
+
+    const [size] = normalizeSizeInputs([payload]);
+    const current = readProductSizes(product);
+    const before = current.find((entry) => entry.id === size.id) ?? null;
+    const sizes = before
+      ? current.map((entry) => (entry.id === size.id ? size : entry))
+      : [...current, size];
+
+    const data = await saveSizes(product.id, buildSizesUpdate(product, sizes));
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.size.upsert',
+      details: { productId: product.id, sizeId: size.id, before, after: size },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error guardando tamaño:', error);
+    return NextResponse.json({ success: false, error: 'No pudimos guardar el tamaño' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request, context: { params: { productId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/catalog/products/[productId]/sizes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const productId = context.params?.productId?.trim();
+  if (!productId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del producto' }, { status: 400 });
+  }
+
+  try {
+    const { sizeId } = DeleteSizeSchema.parse(await request.json());
+    const product = await loadCatalogProduct(productId);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Producto no encontrado' }, { status: 404 });
+    }
+
+    const current = readProductSizes(product);
+    const removed = current.find((entry) => entry.id === sizeId);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Tamaño no encontrado' }, { status: 404 });
+    }
+
+    const data = await saveSizes(
+      product.id,
+      buildSizesUpdate(
+        product,
+        current.filter((entry) => entry.id !== sizeId)
+      )
+    );
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.size.delete',
+      details: { productId: product.id, sizeId, before: removed },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error eliminando tamaño:', error);
+    return NextResponse.json({ success: false, error: 'No pudimos eliminar el tamaño' }, { status: 500 });
+  }
+}
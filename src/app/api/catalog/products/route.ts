@@ -0,0 +1,128 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  CATALOG_PRODUCTS_TABLE,
+  loadCatalogProduct,
+  logCatalogAction,
+  normalizeSizeInputs,
+} from '@/lib/catalog-admin';
+import { parseModifierGroups } from '@/lib/product-modifiers';
+import { roundCurrency, slugify } from '@/lib/order-pricing';
+
+const SizeSchema = z.object({
+  id: z.string().trim().max(60).optional().nullable(),
+  label: z.string().trim().min(1).max(60),
+  price: z.number().nonnegative().optional().nullable(),
+});
+
+const CreateProductSchema = z.object({
+  productId: z.string().trim().max(80).optional().nullable(),
+  name: z.string().trim().min(2).max(120),
+  category: z.string().trim().min(1).max(80),
+  subcategory: z.string().trim().max(80).optional().nullable(),
+  price: z.number().nonnegative(),
+  cost: z.number().nonnegative().optional().nullable(),
+  isActive: z.boolean().optional(),
+  sizes: z.array(SizeSchema).max(12).optional(),
+  modifierGroups: z.array(z.record(z.string(), z.any())).optional(),
+});
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/products');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CreateProductSchema.parse(await request.json());
+    const productId = slugify(payload.productId?.trim() || payload.name);
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: 'El producto necesita un identificador válido' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await loadCatalogProduct(productId);
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `Ya existe un producto con el ID ${productId}` },
+        { status: 409 }
+      );
+    }
+
+    const nowISO = new Date().toISOString();
+    const record = {
+      id: productId,
+      productId,
+      name: payload.name,
+      category: payload.category,
+      subcategory: payload.subcategory || null,
+      price: roundCurrency(payload.price),
+      cost: typeof payload.cost === 'number' ? roundCurrency(payload.cost) : null,
+      isActive: payload.isActive ?? true,
+      available_sizes: normalizeSizeInputs(payload.sizes ?? []),
+      modifierGroups: parseModifierGroups(payload.modifierGroups ?? []),
+      createdAt: nowISO,
+      updatedAt: nowISO,
+    };
+
+    const { data, error } = await supabaseAdmin
+      .from(CATALOG_PRODUCTS_TABLE)
+      .insert(record)
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.product.create',
+      details: { productId, after: record },
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error creando producto:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos crear el producto' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { RECIPES_TABLE, normalizeRecipeRow } from '@/lib/product-recipes';
+
+const UpdateRecipeSchema = z
+  .object({
+    quantityUsed: z.number().positive(),
+    yield: z.number().positive(),
+    isCritical: z.boolean(),
+  })
+  .partial();
+
+export async function PATCH(request: Request, context: { params: { recipeId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/catalog/recipes/[recipeId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const recipeId = context.params?.recipeId?.trim();
+  if (!recipeId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la receta' }, { status: 400 });
+  }
+
+  try {
+    const payload = UpdateRecipeSchema.parse(await request.json());
+    if (!Object.keys(payload).length) {
+      return NextResponse.json({ success: false, error: 'No hay cambios por guardar' }, { status: 400 });
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from(RECIPES_TABLE)
+      .select('*')
+      .eq('id', recipeId)
+      .maybeSingle();
+    if (existingError) {
+      throw new Error(existingError.message);
+    }
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Receta no encontrada' }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(RECIPES_TABLE)
+      .update({ ...payload, updatedAt: new Date().toISOString() })
+      .eq('id', recipeId)
+      .select('*')
+      .single();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const before = normalizeRecipeRow(existing as Record<string, unknown>);
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.recipe.update',
+      details: {
+        recipeId,
+        productId: before.productId,
+        before: Object.fromEntries(
+          Object.keys(payload).map((key) => [key, before[key as keyof typeof before] ?? null])
+        ),
+        after: payload,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: normalizeRecipeRow(data as Record<string, unknown>),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error actualizando receta:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar la receta' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, context: { params: { recipeId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/catalog/recipes/[recipeId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const recipeId = context.params?.recipeId?.trim();
+  if (!recipeId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la receta' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(RECIPES_TABLE)
+      .delete()
+      .eq('id', recipeId)
+      .select('*')
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Receta no encontrada' }, { status: 404 });
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.recipe.delete',
+      details: { recipeId, before: normalizeRecipeRow(data as Record<string, unknown>) },
+    });
+
+    return NextResponse.json({ success: true, data: { id: recipeId } });
+  } catch (error) {
+    console.error('Error eliminando receta:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos eliminar la línea de receta' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { loadCatalogProduct, logCatalogAction, readProductSizes } from '@/lib/catalog-admin';
+import { RECIPES_TABLE, loadRecipeOverview, normalizeRecipeRow } from '@/lib/product-recipes';
+
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
+
+const CreateRecipeSchema = z.object({
+  productId: z.string().trim().min(1),
+  sizeId: z.string().trim().min(1).optional().nullable(),
+  inventoryItemId: z.string().trim().min(1),
+  quantityUsed: z.number().positive(),
+  yield: z.number().positive().optional(),
+  isCritical: z.boolean().optional(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/recipes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const overview = await loadRecipeOverview();
+    return NextResponse.json({ success: true, data: overview });
+  } catch (error) {
+    console.error('Error obteniendo recetas:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las recetas' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog/recipes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CreateRecipeSchema.parse(await request.json());
+    const product = await loadCatalogProduct(payload.productId);
+    if (!product) {
+      return NextResponse.json({ success: false, error: 'Producto no encontrado' }, { status: 404 });
+    }
+    const sizeId = payload.sizeId || null;
+    if (sizeId && !readProductSizes(product).some((size) => size.id === sizeId)) {
+      return NextResponse.json({ success: false, error: 'Tamaño no encontrado' }, { status: 404 });
+    }
+
+    const { data: item, error: itemError } = await supabaseAdmin
+      .from(ITEMS_TABLE)
+      .select('id')
+      .eq('id', payload.inventoryItemId)
+      .maybeSingle();
+    if (itemError) {
+      throw new Error(itemError.message);
+    }
+    if (!item) {
+      return NextResponse.json({ success: false, error: 'Insumo no encontrado' }, { status: 404 });
+    }
+
+    let duplicateQuery = supabaseAdmin
+      .from(RECIPES_TABLE)
+      .select('id')
+      .eq('productId', product.id)
+      .eq('inventoryItemId', payload.inventoryItemId);
+    duplicateQuery = sizeId
+      ? duplicateQuery.eq('sizeId', sizeId)
+      : duplicateQuery.is('sizeId', null);
+    const { data: duplicate, error: duplicateError } = await duplicateQuery.maybeSingle();
+    if (duplicateError) {
+      throw new Error(duplicateError.message);
+    }
+    if (duplicate) {
+      return NextResponse.json(
+        { success: false, error: 'Ese insumo ya está en la receta; edita su cantidad' },
+        { status: 409 }
+      );
+    }
+
+    const record = {
+      id: randomUUID(),
+      productId: product.id,
+      sizeId,
+      inventoryItemId: payload.inventoryItemId,
+      quantityUsed: payload.quantityUsed,
+      yield: payload.yield ?? 1,
+      isCritical: payload.isCritical ?? true,
+    };
+    const { data, error } = await supabaseAdmin
+      .from(RECIPES_TABLE)
+      .insert(record)
+      .select('*')
+      .single();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'catalog.recipe.create',
+      details: { recipeId: record.id, after: record },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: normalizeRecipeRow(data as Record<string, unknown>),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error guardando receta:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos guardar la receta' },
+      { status: 500 }
+    );
+  }
+}
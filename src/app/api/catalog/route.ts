@@ -28,12 +28,23 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { applyDuePriceChanges } from '@/lib/catalog-admin';
 
 const PRODUCTS_TABLE = process.env.SUPABASE_PRODUCTS_TABLE ?? 'products';
 const MAX_PRODUCTS = Number(process.env.CATALOG_LIMIT ?? 500);
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/catalog');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
+    await applyDuePriceChanges().catch((error) => {
+      console.warn('No pudimos aplicar los cambios de precio programados:', error);
+    });
+
     const { data: products, error } = await supabaseAdmin
       .from(PRODUCTS_TABLE)
       .select('*')
@@ -36,10 +36,13 @@ import {
   markSupabaseHealthy,
   shouldPreferSupabase,
 } from '@/lib/offline-sync';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const HYGIENE_TABLE = process.env.SUPABASE_HYGIENE_TABLE ?? 'hygiene_logs';
 const PEST_TABLE = process.env.SUPABASE_PEST_CONTROL_TABLE ?? 'pest_control_logs';
 const WASTE_TABLE = process.env.SUPABASE_WASTE_TABLE ?? 'waste_logs';
+const BATCHES_TABLE = process.env.SUPABASE_INVENTORY_BATCHES ?? 'inventory_batches';
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
 
 type HygieneArea = 'BAÑO' | 'COCINA' | 'BARRA' | 'MESAS';
 
@@ -116,6 +119,47 @@ const normalizeWaste = (record: Record<string, unknown>) => ({
     new Date().toISOString(),
 });
 
+const normalizeDiscard = (record: Record<string, unknown>, items: Map<string, { name: string; unit: string }>) => {
+  const itemId = String(record.itemId ?? '');
+  const item = items.get(itemId);
+  return {
+    id: String(record.id ?? ''),
+    itemId,
+    itemName: item?.name ?? itemId,
+    unit: item?.unit ?? 'unidad',
+    quantity: Number(record.discardedQuantity ?? 0),
+    reference: (record.reference as string | null) ?? null,
+    expiresAt: (record.expiresAt as string | null) ?? null,
+    branchId: (record.branchId as string | null) ?? null,
+    staffId: (record.discardedByStaffId as string | null) ?? null,
+    discardedAt: String(record.discardedAt ?? ''),
+  };
+};
+
+// Los lotes solo viven en Supabase; sin conexión el reporte sale sin descartes.
+const loadDiscardedBatches = async (startIso: string, endIso: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(BATCHES_TABLE)
+    .select('id,"itemId","branchId",reference,"expiresAt","discardedAt","discardedQuantity","discardedByStaffId"')
+    .gte('discardedAt', startIso)
+    .lt('discardedAt', endIso)
+    .order('discardedAt', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  const itemIds = Array.from(new Set((data ?? []).map((row) => String(row.itemId))));
+  const { data: items, error: itemsError } = itemIds.length
+    ? await supabaseAdmin.from(ITEMS_TABLE).select('id,name,unit').in('id', itemIds)
+    : { data: [], error: null };
+  if (itemsError) {
+    throw new Error(itemsError.message);
+  }
+  const itemMap = new Map(
+    (items ?? []).map((item) => [String(item.id), { name: String(item.name ?? item.id), unit: String(item.unit ?? 'unidad') }])
+  );
+  return (data ?? []).map((row) => normalizeDiscard(row, itemMap));
+};
+
 const loadHygieneFromSqlite = async (startIso: string, endIso: string) => {
   const rows = await sqlite.all<Record<string, unknown>>(
     `
@@ -166,7 +210,8 @@ const toCsvValue = (value: unknown) => {
 const buildCsv = (
   hygiene: ReturnType<typeof normalizeHygiene>[],
   pest: ReturnType<typeof normalizePest>[],
-  waste: ReturnType<typeof normalizeWaste>[]
+  waste: ReturnType<typeof normalizeWaste>[],
+  discarded: ReturnType<typeof normalizeDiscard>[]
 ) => {
   const headers = [
     'module',
@@ -183,6 +228,10 @@ const buildCsv = (
     'inorganicKg',
     'trashRemoved',
     'binsWashed',
+    'itemId',
+    'quantity',
+    'unit',
+    'expiresAt',
   ];
   const lines = [headers.join(',')];
   hygiene.forEach((entry) => {
@@ -202,6 +251,10 @@ const buildCsv = (
         '',
         '',
         '',
+        '',
+        '',
+        '',
+        '',
       ]
         .map(toCsvValue)
         .join(',')
@@ -224,6 +277,10 @@ const buildCsv = (
         '',
         '',
         '',
+        '',
+        '',
+        '',
+        '',
       ]
         .map(toCsvValue)
         .join(',')
@@ -246,6 +303,36 @@ const buildCsv = (
         entry.inorganicKg,
         entry.trashRemoved ? 'Sí' : 'No',
         entry.binsWashed ? 'Sí' : 'No',
+        '',
+        '',
+        '',
+        '',
+      ]
+        .map(toCsvValue)
+        .join(',')
+    );
+  });
+  discarded.forEach((entry) => {
+    lines.push(
+      [
+        'batch_discard',
+        entry.discardedAt,
+        entry.itemName,
+        entry.staffId ?? '',
+        'Descartado por caducidad',
+        entry.reference ? `Lote ${entry.reference}` : '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        '',
+        entry.itemId,
+        entry.quantity,
+        entry.unit,
+        entry.expiresAt ?? '',
       ]
         .map(toCsvValue)
         .join(',')
@@ -258,6 +345,7 @@ const buildWorkbook = (
   hygiene: ReturnType<typeof normalizeHygiene>[],
   pest: ReturnType<typeof normalizePest>[],
   waste: ReturnType<typeof normalizeWaste>[],
+  discarded: ReturnType<typeof normalizeDiscard>[],
   label: string
 ) => {
   const workbook = XLSX.utils.book_new();
@@ -296,13 +384,31 @@ const buildWorkbook = (
       'Fecha y hora': new Date(entry.createdAt).toLocaleString('es-MX'),
     }))
   );
+  const discardSheet = XLSX.utils.json_to_sheet(
+    discarded.map((entry) => ({
+      Insumo: entry.itemName,
+      Lote: entry.reference ?? '—',
+      Cantidad: entry.quantity,
+      Unidad: entry.unit,
+      Caducidad: entry.expiresAt ? new Date(entry.expiresAt).toLocaleDateString('es-MX') : '—',
+      Sucursal: entry.branchId ?? '—',
+      Responsable: entry.staffId ?? '—',
+      'Fecha de descarte': new Date(entry.discardedAt).toLocaleString('es-MX'),
+    }))
+  );
   XLSX.utils.book_append_sheet(workbook, hygieneSheet, 'Higiene');
   XLSX.utils.book_append_sheet(workbook, pestSheet, 'Plagas');
   XLSX.utils.book_append_sheet(workbook, wasteSheet, 'Residuos');
+  XLSX.utils.book_append_sheet(workbook, discardSheet, 'Lotes descartados');
   return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx', compression: true, Props: { Title: `COFEPRIS ${label}` } });
 };
 
 export async function GET(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/cofepris/export');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const format = (searchParams.get('format') ?? 'json').toLowerCase();
@@ -313,10 +419,11 @@ export async function GET(request: NextRequest) {
     const respond = (
       hygieneEntries: ReturnType<typeof normalizeHygiene>[],
       pestEntries: ReturnType<typeof normalizePest>[],
-      wasteEntries: ReturnType<typeof normalizeWaste>[]
+      wasteEntries: ReturnType<typeof normalizeWaste>[],
+      discardedEntries: ReturnType<typeof normalizeDiscard>[]
     ) => {
       if (format === 'csv') {
-        const csv = buildCsv(hygieneEntries, pestEntries, wasteEntries);
+        const csv = buildCsv(hygieneEntries, pestEntries, wasteEntries, discardedEntries);
         return new NextResponse(csv, {
           headers: {
             'Content-Type': 'text/csv; charset=utf-8',
@@ -325,7 +432,7 @@ export async function GET(request: NextRequest) {
         });
       }
       if (format === 'xlsx') {
-        const buffer = buildWorkbook(hygieneEntries, pestEntries, wasteEntries, label);
+        const buffer = buildWorkbook(hygieneEntries, pestEntries, wasteEntries, discardedEntries, label);
         return new NextResponse(buffer, {
           headers: {
             'Content-Type':
@@ -341,6 +448,7 @@ export async function GET(request: NextRequest) {
           hygiene: hygieneEntries,
           pest: pestEntries,
           waste: wasteEntries,
+          discardedBatches: discardedEntries,
         },
       });
     };
@@ -351,7 +459,7 @@ export async function GET(request: NextRequest) {
         loadPestFromSqlite(startIso, endIso),
         loadWasteFromSqlite(startIso, endIso),
       ]);
-      return respond(hygieneEntries, pestEntries, wasteEntries);
+      return respond(hygieneEntries, pestEntries, wasteEntries, []);
     };
 
     const preferSupabase = shouldPreferSupabase();
@@ -360,7 +468,7 @@ export async function GET(request: NextRequest) {
     }
 
     try {
-      const [hygieneResponse, pestResponse, wasteResponse] = await Promise.all([
+      const [hygieneResponse, pestResponse, wasteResponse, discardedEntries] = await Promise.all([
         supabaseAdmin
           .from(HYGIENE_TABLE)
           .select('id,area,"staffId","is_clean","supplies_refilled",observations,"createdAt"')
@@ -383,6 +491,7 @@ export async function GET(request: NextRequest) {
           .gte('createdAt', startIso)
           .lt('createdAt', endIso)
           .order('createdAt', { ascending: true }),
+        loadDiscardedBatches(startIso, endIso),
       ]);
 
       if (hygieneResponse.error || pestResponse.error || wasteResponse.error) {
@@ -395,7 +504,7 @@ export async function GET(request: NextRequest) {
       const pestEntries = (pestResponse.data ?? []).map(normalizePest);
       const wasteEntries = (wasteResponse.data ?? []).map(normalizeWaste);
       markSupabaseHealthy();
-      return respond(hygieneEntries, pestEntries, wasteEntries);
+      return respond(hygieneEntries, pestEntries, wasteEntries, discardedEntries);
     } catch (error) {
       if (!isLikelyNetworkError(error)) {
         throw error;
@@ -38,6 +38,7 @@ import {
   markSupabaseHealthy,
   shouldPreferSupabase,
 } from '@/lib/offline-sync';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const TABLE = process.env.SUPABASE_PEST_CONTROL_TABLE ?? 'pest_control_logs';
 const SQLITE_TABLE = 'pest_control_logs';
@@ -168,7 +169,12 @@ const buildAlertMessage = (daysSince: number | null, nextServiceDate?: string |
   return null;
 };
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/cofepris/pest');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const respond = (latest: PestRecord | null) => {
       const daysSince =
@@ -235,6 +241,11 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/cofepris/pest');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     await flushPendingOperations();
     const payload = (await request.json()) as {
@@ -260,7 +271,7 @@ export async function POST(request: NextRequest) {
       provider_name: payload.providerName?.trim() || null,
       certificate_number: payload.certificateNumber?.trim() || null,
       next_service_date: payload.nextServiceDate ? new Date(payload.nextServiceDate).toISOString() : null,
-      staffId: payload.staffId ?? null,
+      staffId: auth.session.staffId,
       observations: payload.observations?.trim() || null,
       createdAt,
     };
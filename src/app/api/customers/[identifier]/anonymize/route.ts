@@ -0,0 +1,99 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { getRequestIp } from '@/lib/auth/staff-session';
+import { logAuditAction } from '@/lib/audit-log';
+import { findCustomerAccount } from '@/lib/customer-accounts';
+import { anonymizeCustomer } from '@/lib/customer-privacy';
+
+export const dynamic = 'force-dynamic';
+
+const AnonymizeSchema = z.object({
+  reason: z.string().trim().min(5, 'Indica el folio o motivo de la solicitud').max(280),
+});
+
+const ANONYMIZE_ERRORS: Record<string, { status: number; message: string }> = {
+  CUSTOMER_NOT_FOUND: { status: 404, message: 'No encontramos a la persona indicada.' },
+  ALREADY_ANONYMIZED: { status: 409, message: 'Este cliente ya fue anonimizado.' },
+};
+
+type RouteContext = { params: { identifier?: string } };
+
+export async function POST(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/anonymize');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const { reason } = AnonymizeSchema.parse(await request.json());
+    const account = await findCustomerAccount(identifier);
+    if (!account) {
+      throw new Error('CUSTOMER_NOT_FOUND');
+    }
+    const result = await anonymizeCustomer(account.id, 'anonymize', reason, {
+      staffId: auth.session.staffId,
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.privacy.anonymize',
+      level: 'warning',
+      details: { ...result, reason },
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    const known = error instanceof Error ? ANONYMIZE_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error anonimizando cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos anonimizar al cliente' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  normalizeFiscalProfile,
+  toFiscalProfileUpdate,
+  validateFiscalProfile,
+} from '@/lib/cfdi-invoices';
+
+export const dynamic = 'force-dynamic';
+
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const FISCAL_FIELDS = 'id,"clientId","fiscalRfc","fiscalName","fiscalRegime","fiscalPostalCode","cfdiUse"';
+
+const FiscalProfileSchema = z.object({
+  rfc: z.string().trim().max(13).nullable(),
+  name: z.string().trim().max(300).nullable(),
+  regime: z.string().trim().max(3).nullable(),
+  postalCode: z.string().trim().max(5).nullable(),
+  cfdiUse: z.string().trim().max(4).nullable(),
+});
+
+type RouteContext = { params: { identifier?: string } };
+
+const loadUserByIdentifier = async (identifier: string) => {
+  const byClientId = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select(FISCAL_FIELDS)
+    .eq('clientId', identifier)
+    .maybeSingle();
+
+  if (byClientId.data) {
+    return byClientId.data as Record<string, unknown>;
+  }
+
+  if (byClientId.error && byClientId.error.code !== 'PGRST116') {
+    throw new Error(byClientId.error.message);
+  }
+
+  const byId = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select(FISCAL_FIELDS)
+    .eq('id', identifier)
+    .maybeSingle();
+
+  if (byId.error && byId.error.code !== 'PGRST116') {
+    throw new Error(byId.error.message);
+  }
+
+  return (byId.data as Record<string, unknown> | null) ?? null;
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/fiscal');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const user = await loadUserByIdentifier(identifier);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos a la persona indicada.' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, data: normalizeFiscalProfile(user) });
+  } catch (error) {
+    console.error('Error obteniendo datos fiscales del cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar los datos fiscales' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/fiscal');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const profile = FiscalProfileSchema.parse(await request.json());
+    const validationError = validateFiscalProfile(profile);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const user = await loadUserByIdentifier(identifier);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos a la persona indicada.' },
+        { status: 404 }
+      );
+    }
+
+    const updates = toFiscalProfileUpdate(profile);
+    const { data, error } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .update(updates)
+      .eq('id', user.id)
+      .select(FISCAL_FIELDS)
+      .single();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.fiscal.update',
+      before: user,
+      after: updates,
+      details: { userId: user.id, clientId: user.clientId ?? null },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: normalizeFiscalProfile(data as unknown as Record<string, unknown>),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error guardando datos fiscales del cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos guardar los datos fiscales' },
+      { status: 500 }
+    );
+  }
+}
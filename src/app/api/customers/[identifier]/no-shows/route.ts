@@ -0,0 +1,173 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  RESERVATION_FAILURES_TABLE,
+  evaluateNoShowPolicy,
+  resolveReservationCustomer,
+} from '@/lib/reservations';
+
+export const dynamic = 'force-dynamic';
+
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const HISTORY_LIMIT = 10;
+
+const OverrideSchema = z.object({
+  override: z.boolean(),
+});
+
+type RouteContext = { params: { identifier?: string } };
+
+const loadNoShowSummary = async (userId: string) => {
+  const [policy, history] = await Promise.all([
+    evaluateNoShowPolicy(userId),
+    supabaseAdmin
+      .from(RESERVATION_FAILURES_TABLE)
+      .select(
+        '"originalReservationId","reservationCode","reservationDate","reservationTime","branchId","peopleCount","archivedAt"'
+      )
+      .eq('userId', userId)
+      .eq('status', 'no_show')
+      .order('reservationDate', { ascending: false })
+      .limit(HISTORY_LIMIT),
+  ]);
+  if (history.error) {
+    throw new Error(history.error.message);
+  }
+  return {
+    userId,
+    ...policy,
+    history: (history.data ?? []).map((row) => ({
+      reservationId: String(row.originalReservationId),
+      reservationCode: row.reservationCode ?? null,
+      reservationDate: String(row.reservationDate),
+      reservationTime: String(row.reservationTime),
+      branchId: String(row.branchId),
+      peopleCount: Number(row.peopleCount ?? 1),
+      archivedAt: String(row.archivedAt),
+    })),
+  };
+};
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/no-shows');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const customer = await resolveReservationCustomer(identifier);
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos a la persona indicada.' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, data: await loadNoShowSummary(customer.id) });
+  } catch (error) {
+    console.error('Error obteniendo inasistencias del cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las inasistencias' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Un gerente exime (o vuelve a sujetar) al cliente de las reglas de inasistencia. */
+export async function PATCH(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/no-shows');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const { override } = OverrideSchema.parse(await request.json());
+    const customer = await resolveReservationCustomer(identifier);
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos a la persona indicada.' },
+        { status: 404 }
+      );
+    }
+
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .select('"noShowOverride","noShowOverrideByStaffId","noShowOverrideAt"')
+      .eq('id', customer.id)
+      .maybeSingle();
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+
+    const updates = {
+      noShowOverride: override,
+      noShowOverrideByStaffId: override ? auth.session.staffId : null,
+      noShowOverrideAt: override ? new Date().toISOString() : null,
+    };
+    const { error } = await supabaseAdmin.from(USERS_TABLE).update(updates).eq('id', customer.id);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.no_show.override',
+      level: override ? 'warning' : 'info',
+      before: previous,
+      after: updates,
+      details: { userId: customer.id, clientId: customer.clientId },
+    });
+
+    return NextResponse.json({ success: true, data: await loadNoShowSummary(customer.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error actualizando excepción de inasistencias:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar la excepción' },
+      { status: 500 }
+    );
+  }
+}
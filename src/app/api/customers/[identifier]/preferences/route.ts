@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 
@@ -46,6 +47,11 @@ const loadUserByIdentifier = async (identifier: string) => {
 };
 
 export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/preferences');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const identifier = params.identifier?.trim();
   if (!identifier) {
     return NextResponse.json(
@@ -0,0 +1,109 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { getRequestIp } from '@/lib/auth/staff-session';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  buildCustomerDataExport,
+  buildCustomerExportPdf,
+  logRetentionAction,
+} from '@/lib/customer-privacy';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { identifier?: string } };
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]/privacy-export');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+  const format = new URL(request.url).searchParams.get('format') === 'pdf' ? 'pdf' : 'json';
+
+  try {
+    const data = await buildCustomerDataExport(identifier);
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos a la persona indicada.' },
+        { status: 404 }
+      );
+    }
+    const userId = String(data.profile.id);
+    const clientId = String(data.profile.clientId ?? userId);
+
+    await logRetentionAction(
+      userId,
+      'export',
+      { format, orders: data.orders.length, reservations: data.reservations.length },
+      {
+        staffId: auth.session.staffId,
+        ipAddress: getRequestIp(request),
+        userAgent: request.headers.get('user-agent'),
+      }
+    );
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.privacy.export',
+      details: { userId, clientId, format },
+    });
+
+    const filename = `datos-${clientId}-${data.generatedAt.slice(0, 10)}`;
+    if (format === 'pdf') {
+      const pdfBuffer = buildCustomerExportPdf(data);
+      return new NextResponse(pdfBuffer, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Content-Length': String(pdfBuffer.length),
+        },
+      });
+    }
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exportando datos personales del cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos generar la exportación de datos' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  CUSTOMER_ACCOUNT_ERRORS,
+  findCustomerAccount,
+  loadCustomerAddresses,
+  updateCustomerAccount,
+} from '@/lib/customer-accounts';
+
+export const dynamic = 'force-dynamic';
+
+const UpdateCustomerSchema = z
+  .object({
+    email: z.string().trim().email('Captura un correo válido').max(254),
+    firstName: z.string().trim().min(1, 'El nombre es obligatorio').max(80),
+    lastName: z.string().trim().max(80).nullable(),
+    phone: z.string().trim().max(20).nullable(),
+    city: z.string().trim().max(80).nullable(),
+    country: z.string().trim().max(80).nullable(),
+    marketingEmail: z.boolean(),
+    marketingSms: z.boolean(),
+  })
+  .partial();
+
+type RouteContext = { params: { identifier?: string } };
+
+export async function GET(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const account = await findCustomerAccount(identifier);
+    if (!account) {
+      return NextResponse.json(
+        { success: false, error: CUSTOMER_ACCOUNT_ERRORS.CUSTOMER_NOT_FOUND.message },
+        { status: 404 }
+      );
+    }
+    const addresses = await loadCustomerAddresses(account);
+    return NextResponse.json({ success: true, data: { ...account, addresses } });
+  } catch (error) {
+    console.error('Error obteniendo la cuenta del cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar los datos del cliente' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/customers/[identifier]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const identifier = context.params?.identifier?.trim();
+  if (!identifier) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const changes = UpdateCustomerSchema.parse(await request.json());
+    const { account, fields } = await updateCustomerAccount(identifier, changes);
+
+    if (fields.length) {
+      // Solo los nombres de los campos: los valores son datos personales cifrados.
+      await logAuditAction({
+        request,
+        session: auth.session,
+        action: 'customer.update',
+        details: { userId: account.id, clientId: account.clientId, fields },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: account });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    const known = error instanceof Error ? CUSTOMER_ACCOUNT_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error actualizando la cuenta del cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos guardar los datos del cliente' },
+      { status: 500 }
+    );
+  }
+}
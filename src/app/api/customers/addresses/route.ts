@@ -1,17 +1,48 @@
 /*
  * --------------------------------------------------------------------
- *  Xoco POS — Customer addresses lookup endpoint
+ *  Xoco POS — Customer addresses endpoint
  * --------------------------------------------------------------------
  */
 
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
 import { decryptAddressRow } from '@/lib/address-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  CUSTOMER_ACCOUNT_ERRORS,
+  deleteCustomerAddress,
+  findCustomerAccount,
+  saveCustomerAddress,
+} from '@/lib/customer-accounts';
 
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 const ADDRESSES_TABLE = process.env.SUPABASE_ADDRESSES_TABLE ?? 'addresses';
 
+const AddressSchema = z.object({
+  label: z.string().trim().min(1, 'Ponle un nombre a la dirección').max(60),
+  nickname: z.string().trim().max(60).nullable().optional(),
+  type: z.enum(['shipping', 'billing', 'other']),
+  street: z.string().trim().min(1, 'La calle es obligatoria').max(200),
+  city: z.string().trim().min(1, 'La ciudad es obligatoria').max(80),
+  state: z.string().trim().max(80).nullable().optional(),
+  postalCode: z.string().trim().min(4, 'Captura el código postal').max(10),
+  country: z.string().trim().min(1, 'El país es obligatorio').max(80),
+  reference: z.string().trim().max(200).nullable().optional(),
+  additionalInfo: z.string().trim().max(200).nullable().optional(),
+  contactPhone: z.string().trim().max(20).nullable().optional(),
+  isWhatsapp: z.boolean().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+const SaveAddressSchema = z.object({
+  identifier: z.string().trim().min(1, 'Falta el ID del cliente'),
+  addressId: z.string().trim().min(1).optional(),
+  address: AddressSchema,
+});
+
 type GenericStringError = {
   error: true;
 } & String;
@@ -47,6 +78,11 @@ const getStringField = (record: RawUserRecord | null, field: string): string | n
 };
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers/addresses');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const { searchParams } = new URL(request.url);
   const userIdParam = normalizeString(searchParams.get('userId'));
   const clientIdParam = normalizeString(searchParams.get('clientId'));
@@ -170,4 +206,112 @@ export async function GET(request: Request) {
   }
 }
 
+const addressErrorResponse = (error: unknown, fallback: string) => {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+      { status: 400 }
+    );
+  }
+  const known = error instanceof Error ? CUSTOMER_ACCOUNT_ERRORS[error.message] : undefined;
+  if (known) {
+    return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+  }
+  console.error('Error guardando dirección del cliente:', error);
+  return NextResponse.json({ success: false, error: fallback }, { status: 500 });
+};
+
+const saveAddress = async (request: Request, method: 'POST' | 'PATCH') => {
+  const auth = await requireStaffSession(request, '/api/customers/addresses');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = SaveAddressSchema.parse(await request.json());
+    if (method === 'PATCH' && !payload.addressId) {
+      return NextResponse.json(
+        { success: false, error: 'Indica la dirección que quieres editar.' },
+        { status: 400 }
+      );
+    }
+    const account = await findCustomerAccount(payload.identifier);
+    if (!account) {
+      throw new Error('CUSTOMER_NOT_FOUND');
+    }
+    const address = await saveCustomerAddress(
+      account,
+      payload.address,
+      method === 'PATCH' ? payload.addressId : undefined
+    );
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.update',
+      details: {
+        userId: account.id,
+        clientId: account.clientId,
+        fields: ['address'],
+        addressId: address?.id ?? payload.addressId ?? null,
+        operation: method === 'POST' ? 'create' : 'update',
+      },
+    });
+
+    return NextResponse.json({ success: true, data: address }, { status: method === 'POST' ? 201 : 200 });
+  } catch (error) {
+    return addressErrorResponse(error, 'No pudimos guardar la dirección.');
+  }
+};
+
+export async function POST(request: Request) {
+  return saveAddress(request, 'POST');
+}
+
+export async function PATCH(request: Request) {
+  return saveAddress(request, 'PATCH');
+}
+
+export async function DELETE(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers/addresses');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const identifier = normalizeString(searchParams.get('identifier'));
+  const addressId = normalizeString(searchParams.get('addressId'));
+  if (!identifier || !addressId) {
+    return NextResponse.json(
+      { success: false, error: 'Indica el cliente y la dirección a eliminar.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const account = await findCustomerAccount(identifier);
+    if (!account) {
+      throw new Error('CUSTOMER_NOT_FOUND');
+    }
+    await deleteCustomerAddress(account.id, addressId);
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.update',
+      details: {
+        userId: account.id,
+        clientId: account.clientId,
+        fields: ['address'],
+        addressId,
+        operation: 'delete',
+      },
+    });
+
+    return NextResponse.json({ success: true, data: { id: addressId } });
+  } catch (error) {
+    return addressErrorResponse(error, 'No pudimos eliminar la dirección.');
+  }
+}
+
 export const dynamic = 'force-dynamic';
@@ -29,6 +29,7 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { type RawUserRecord, withDecryptedUserNames } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 
@@ -40,6 +41,11 @@ const isGenericStringError = (value: unknown): value is GenericStringError =>
   typeof value === 'object' && value !== null && 'error' in value;
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers/lookup');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const { searchParams } = new URL(request.url);
   const clientId = searchParams.get('clientId')?.trim();
   if (!clientId) {
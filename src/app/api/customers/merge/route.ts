@@ -0,0 +1,79 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { CUSTOMER_ACCOUNT_ERRORS, mergeCustomerAccounts } from '@/lib/customer-accounts';
+
+export const dynamic = 'force-dynamic';
+
+const MergeSchema = z.object({
+  sourceId: z.string().trim().min(1, 'Indica la cuenta duplicada'),
+  targetId: z.string().trim().min(1, 'Indica la cuenta que se conserva'),
+  reason: z.string().trim().min(5, 'Explica el motivo de la fusión').max(280),
+});
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers/merge');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = MergeSchema.parse(await request.json());
+    const summary = await mergeCustomerAccounts(payload.sourceId, payload.targetId);
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.merge',
+      level: 'warning',
+      details: { ...summary, reason: payload.reason },
+    });
+
+    return NextResponse.json({ success: true, data: summary });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    const known = error instanceof Error ? CUSTOMER_ACCOUNT_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error fusionando cuentas de cliente:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos fusionar las cuentas. Puedes repetir la fusión sin riesgo.' },
+      { status: 500 }
+    );
+  }
+}
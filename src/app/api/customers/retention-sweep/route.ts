@@ -0,0 +1,89 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { getRequestIp } from '@/lib/auth/staff-session';
+import { logAuditAction } from '@/lib/audit-log';
+import { loadExpiredRetentionUsers, sweepExpiredCustomerData } from '@/lib/customer-privacy';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers/retention-sweep');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const pending = await loadExpiredRetentionUsers();
+    return NextResponse.json({ success: true, data: { pending } });
+  } catch (error) {
+    console.error('Error consultando clientes con retención vencida:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos consultar los plazos de conservación' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers/retention-sweep');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const result = await sweepExpiredCustomerData({
+      staffId: auth.session.staffId,
+      ipAddress: getRequestIp(request),
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    if (result.anonymized.length || result.failed.length) {
+      await logAuditAction({
+        request,
+        session: auth.session,
+        action: 'customer.privacy.sweep',
+        level: 'warning',
+        details: {
+          anonymized: result.anonymized.map((entry) => entry.clientId),
+          failed: result.failed,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error en el barrido de retención de datos:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos completar el barrido de retención' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { CUSTOMER_ACCOUNT_ERRORS, createCustomerAccount } from '@/lib/customer-accounts';
+
+export const dynamic = 'force-dynamic';
+
+const CreateCustomerSchema = z.object({
+  email: z.string().trim().email('Captura un correo válido').max(254),
+  firstName: z.string().trim().min(1, 'El nombre es obligatorio').max(80),
+  lastName: z.string().trim().max(80).nullable().optional(),
+  phone: z.string().trim().max(20).nullable().optional(),
+  city: z.string().trim().max(80).nullable().optional(),
+  country: z.string().trim().max(80).nullable().optional(),
+  marketingEmail: z.boolean().optional(),
+  marketingSms: z.boolean().optional(),
+});
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/customers');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CreateCustomerSchema.parse(await request.json());
+    const account = await createCustomerAccount(payload);
+
+    // Nombre, teléfono y correo no se copian a la bitácora: solo el ID asignado.
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'customer.create',
+      details: {
+        userId: account.id,
+        clientId: account.clientId,
+        marketingEmail: account.marketingEmail,
+        marketingSms: account.marketingSms,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    const known = error instanceof Error ? CUSTOMER_ACCOUNT_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error registrando cliente desde POS:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos registrar al cliente' },
+      { status: 500 }
+    );
+  }
+}
@@ -38,6 +38,8 @@ import {
   markSupabaseHealthy,
   shouldPreferSupabase,
 } from '@/lib/offline-sync';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { buildTextPdf } from '@/lib/text-pdf';
 
 const TABLE = process.env.SUPABASE_HYGIENE_TABLE ?? 'hygiene_logs';
 const SQLITE_TABLE = 'hygiene_logs';
@@ -70,9 +72,6 @@ const resolveMonthRange = (monthKey: string) => {
   };
 };
 
-const escapePdfText = (text: string) =>
-  text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
-
 const buildPdfBuffer = (
   entries: Array<{
     area: HygieneArea;
@@ -109,54 +108,7 @@ const buildPdfBuffer = (
   if (entries.length === 0) {
     lines.push('Sin registros en el mes seleccionado.');
   }
-  const content = [
-    'BT',
-    '/F1 10 Tf',
-    '14 TL',
-    '72 760 Td',
-    ...lines.map((line, index) => {
-      const escaped = escapePdfText(line);
-      if (index === 0) {
-        return `(${escaped}) Tj`;
-      }
-      return `T*\n(${escaped}) Tj`;
-    }),
-    'ET',
-  ].join('\n');
-  const contentLength = Buffer.byteLength(content, 'utf8');
-  const parts: string[] = [];
-  let offset = 0;
-  const offsets: number[] = [0];
-  const push = (chunk: string) => {
-    parts.push(chunk);
-    offset += Buffer.byteLength(chunk, 'utf8');
-  };
-  push('%PDF-1.4\n');
-  const register = (body: string) => {
-    const index = offsets.length;
-    const chunk = `${index} 0 obj\n${body}\nendobj\n`;
-    offsets.push(offset);
-    push(chunk);
-    return index;
-  };
-  const fontIndex = register('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>');
-  const contentsIndex = register(`<< /Length ${contentLength} >>\nstream\n${content}\nendstream`);
-  const pageIndex = register(
-    `<< /Type /Page /Parent 4 0 R /MediaBox [0 0 612 792] /Contents ${contentsIndex} 0 R /Resources << /Font << /F1 ${fontIndex} 0 R >> >> >>`
-  );
-  const pagesIndex = register(`<< /Type /Pages /Kids [${pageIndex} 0 R] /Count 1 >>`);
-  const catalogIndex = register(`<< /Type /Catalog /Pages ${pagesIndex} 0 R >>`);
-  const xrefStart = offset;
-  const totalObjects = offsets.length;
-  push(`xref\n0 ${totalObjects}\n`);
-  push('0000000000 65535 f \n');
-  for (let i = 1; i < totalObjects; i += 1) {
-    const entryOffset = offsets[i];
-    push(`${entryOffset.toString().padStart(10, '0')} 00000 n \n`);
-  }
-  push(`trailer\n<< /Size ${totalObjects} /Root ${catalogIndex} 0 R >>\n`);
-  push(`startxref\n${xrefStart}\n%%EOF`);
-  return Buffer.from(parts.join(''), 'utf8');
+  return buildTextPdf(lines);
 };
 
 const normalizeArea = (value?: string | null): HygieneArea => {
@@ -232,6 +184,11 @@ const queueHygieneInsert = async (payload: Record<string, unknown>) => {
 };
 
 export async function GET(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/hygiene-checklist');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const monthParam = searchParams.get('month');
@@ -307,6 +264,11 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/hygiene-checklist');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     await flushPendingOperations();
     const payload = (await request.json()) as {
@@ -330,7 +292,7 @@ export async function POST(request: NextRequest) {
     const insertPayload = {
       id,
       area,
-      staffId: payload.staffId ?? null,
+      staffId: auth.session.staffId,
       is_clean: payload.isClean ?? true,
       supplies_refilled: payload.suppliesRefilled ?? true,
       observations: payload.observations?.trim() || null,
@@ -28,6 +28,8 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
 
 const CATEGORIES_TABLE = process.env.SUPABASE_INVENTORY_CATEGORIES ?? 'inventory_categories';
 const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
@@ -63,7 +65,12 @@ const deriveAutoStatus = (stockTotal: number, minStock: number): ManualStockStat
   return 'normal';
 };
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/inventory-dashboard');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const [{ data: categories, error: categoriesError }, { data: items, error: itemsError }] =
       await Promise.all([
@@ -83,15 +90,19 @@ export async function GET() {
       throw new Error(message);
     }
 
+    const branchId = resolveBranchScope(request, auth.session);
+    let stockQuery = supabaseAdmin.from(STOCK_TABLE).select('itemId,branchId,quantity');
+    let movementsQuery = supabaseAdmin
+      .from(MOVEMENTS_TABLE)
+      .select('id,itemId,branchId,type,quantity,reason,"transferId","createdAt"')
+      .order('createdAt', { ascending: false })
+      .limit(MAX_MOVEMENTS);
+    if (branchId) {
+      stockQuery = stockQuery.eq('branchId', branchId);
+      movementsQuery = movementsQuery.eq('branchId', branchId);
+    }
     const [{ data: stockRows, error: stockError }, { data: movements, error: movementsError }] =
-      await Promise.all([
-        supabaseAdmin.from(STOCK_TABLE).select('itemId,branchId,quantity'),
-        supabaseAdmin
-          .from(MOVEMENTS_TABLE)
-          .select('id,itemId,branchId,type,quantity,reason,"createdAt"')
-          .order('createdAt', { ascending: false })
-          .limit(MAX_MOVEMENTS),
-      ]);
+      await Promise.all([stockQuery, movementsQuery]);
 
     if (stockError || movementsError) {
       const message = stockError?.message || movementsError?.message || 'Failed to fetch stock';
@@ -161,6 +172,7 @@ export async function GET() {
         items: enrichedItems,
         lowStock: lowStockItems,
         recentMovements: movements ?? [],
+        branchId,
       },
     });
   } catch (error) {
@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
 
 const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
 const PRODUCTS_TABLE = process.env.SUPABASE_PRODUCTS_TABLE ?? 'products';
@@ -47,6 +49,11 @@ const sanitizeReason = (value: unknown): string | null => {
 };
 
 export async function POST(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/inventory/manual-status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const payload = (await request.json()) as {
       target?: string;
@@ -73,6 +80,24 @@ export async function POST(request: NextRequest) {
       manualStatusUpdatedAt: now,
     };
 
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(target === 'inventory' ? ITEMS_TABLE : PRODUCTS_TABLE)
+      .select('"manualStockStatus","manualStockReason"')
+      .eq('id', recordId)
+      .maybeSingle();
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+    const logStatusChange = () =>
+      logAuditAction({
+        request,
+        session: auth.session,
+        action: 'inventory.manual_status',
+        before: previous,
+        after: { manualStockStatus: status, manualStockReason: reason },
+        details: { target, id: recordId },
+      });
+
     if (target === 'inventory') {
       const { data, error } = await supabaseAdmin
         .from(ITEMS_TABLE)
@@ -90,6 +115,7 @@ export async function POST(request: NextRequest) {
           { status: 404 }
         );
       }
+      await logStatusChange();
 
       return NextResponse.json({
         success: true,
@@ -119,6 +145,7 @@ export async function POST(request: NextRequest) {
         { status: 404 }
       );
     }
+    await logStatusChange();
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,174 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { canSwitchBranch, resolveBranchScope, resolveWriteBranch } from '@/lib/auth/branch-scope';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { TRANSFERS_TABLE, transferStock } from '@/lib/smart-inventory';
+
+export const dynamic = 'force-dynamic';
+
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS_TABLE ?? 'inventory_items';
+const TRANSFER_HISTORY_LIMIT = 50;
+
+const TransferSchema = z.object({
+  itemId: z.string().trim().min(1),
+  fromBranchId: z.string().trim().min(1).optional().nullable(),
+  toBranchId: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/inventory/transfers');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const branchId = resolveBranchScope(request, auth.session);
+    let query = supabaseAdmin
+      .from(TRANSFERS_TABLE)
+      .select('*')
+      .order('createdAt', { ascending: false })
+      .limit(TRANSFER_HISTORY_LIMIT);
+    if (branchId) {
+      query = query.or(`fromBranchId.eq.${branchId},toBranchId.eq.${branchId}`);
+    }
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(error.message);
+    }
+    const rows = (data ?? []) as Record<string, unknown>[];
+
+    const itemIds = Array.from(new Set(rows.map((row) => String(row.itemId ?? '')).filter(Boolean)));
+    const itemsById = new Map<string, { name: string; unit: string }>();
+    if (itemIds.length) {
+      const { data: items, error: itemsError } = await supabaseAdmin
+        .from(ITEMS_TABLE)
+        .select('id,name,unit')
+        .in('id', itemIds);
+      if (itemsError) {
+        throw new Error(itemsError.message);
+      }
+      (items ?? []).forEach((item) => {
+        itemsById.set(String(item.id), { name: String(item.name ?? item.id), unit: String(item.unit ?? '') });
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: rows.map((row) => {
+        const itemId = String(row.itemId ?? '');
+        const item = itemsById.get(itemId);
+        return {
+          id: String(row.id),
+          folio: String(row.folio ?? ''),
+          itemId,
+          name: item?.name ?? itemId,
+          unit: item?.unit ?? '',
+          fromBranchId: String(row.fromBranchId ?? ''),
+          toBranchId: String(row.toBranchId ?? ''),
+          quantity: Number(row.quantity ?? 0),
+          notes: typeof row.notes === 'string' ? row.notes : null,
+          createdAt: String(row.createdAt ?? ''),
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Error obteniendo traspasos de inventario:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar los traspasos' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/inventory/transfers');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = TransferSchema.parse(await request.json());
+    // Solo los socios despachan desde otra sucursal; el resto envía desde la suya.
+    const fromBranchId =
+      canSwitchBranch(auth.session) && payload.fromBranchId
+        ? payload.fromBranchId
+        : resolveWriteBranch(request, auth.session);
+
+    let transfer: Awaited<ReturnType<typeof transferStock>>;
+    try {
+      transfer = await transferStock({
+        itemId: payload.itemId,
+        fromBranchId,
+        toBranchId: payload.toBranchId,
+        quantity: payload.quantity,
+        notes: payload.notes,
+        staffId: auth.session.staffId,
+      });
+    } catch (transferError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: transferError instanceof Error ? transferError.message : 'No pudimos registrar el traspaso',
+        },
+        { status: 400 }
+      );
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.transfer',
+      details: {
+        transferId: transfer.id,
+        folio: transfer.folio,
+        itemId: transfer.itemId,
+        fromBranchId: transfer.fromBranchId,
+        toBranchId: transfer.toBranchId,
+        quantity: transfer.quantity,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: transfer });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error registrando traspaso de inventario:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos registrar el traspaso' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { cancelInvoice } from '@/lib/cfdi-invoices';
+
+export const dynamic = 'force-dynamic';
+
+const CancelInvoiceSchema = z.object({
+  motive: z.enum(['01', '02', '03', '04']),
+  replacementUuid: z.string().trim().uuid().optional().nullable(),
+});
+
+export async function POST(request: Request, context: { params: { invoiceId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/invoices/[invoiceId]/cancel');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const invoiceId = context.params?.invoiceId?.trim();
+  if (!invoiceId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la factura' }, { status: 400 });
+  }
+
+  try {
+    const payload = CancelInvoiceSchema.parse(await request.json());
+    const result = await cancelInvoice({
+      invoiceId,
+      motive: payload.motive,
+      replacementUuid: payload.replacementUuid,
+      staffId: auth.session.staffId,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'invoice.cancel',
+      level: 'warning',
+      details: {
+        invoiceId,
+        uuid: result.invoice.uuid,
+        motive: payload.motive,
+        replacementUuid: payload.replacementUuid ?? null,
+        status: result.invoice.status,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result.invoice });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error cancelando factura:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cancelar la factura' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { loadInvoiceFiles } from '@/lib/cfdi-invoices';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, context: { params: { invoiceId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/invoices/[invoiceId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const invoiceId = context.params?.invoiceId?.trim();
+  if (!invoiceId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la factura' }, { status: 400 });
+  }
+
+  try {
+    const files = await loadInvoiceFiles(invoiceId);
+    if (!files) {
+      return NextResponse.json({ success: false, error: 'Factura no encontrada' }, { status: 404 });
+    }
+    const { invoice } = files;
+    const filename = `factura-${invoice.series}-${invoice.folio}`;
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') ?? 'json').toLowerCase();
+
+    if (format === 'xml') {
+      return new NextResponse(files.xml, {
+        headers: {
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.xml"`,
+        },
+      });
+    }
+
+    if (format === 'pdf') {
+      if (!files.pdfBase64) {
+        return NextResponse.json(
+          { success: false, error: 'La factura no tiene PDF guardado' },
+          { status: 404 }
+        );
+      }
+      const pdfBuffer = Buffer.from(files.pdfBase64, 'base64');
+      return new NextResponse(pdfBuffer, {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Content-Length': String(pdfBuffer.length),
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, data: invoice });
+  } catch (error) {
+    console.error('Error obteniendo factura:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar la factura' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { issueGlobalInvoice } from '@/lib/cfdi-invoices';
+
+export const dynamic = 'force-dynamic';
+
+const GlobalInvoiceSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/),
+});
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/invoices/global');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = GlobalInvoiceSchema.parse(await request.json());
+    const result = await issueGlobalInvoice({ month: payload.month, staffId: auth.session.staffId });
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'invoice.global',
+      details: {
+        invoiceId: result.invoice.id,
+        month: payload.month,
+        uuid: result.invoice.uuid,
+        folio: `${result.invoice.series}-${result.invoice.folio}`,
+        orderCount: result.invoice.orderCount,
+        total: result.invoice.total,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result.invoice });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error emitiendo factura global:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos emitir la factura global' },
+      { status: 500 }
+    );
+  }
+}
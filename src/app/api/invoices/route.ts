@@ -0,0 +1,112 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { issueOrderInvoice, loadInvoices } from '@/lib/cfdi-invoices';
+
+export const dynamic = 'force-dynamic';
+
+const ReceiverSchema = z.object({
+  rfc: z.string().trim().max(13).optional().nullable(),
+  name: z.string().trim().max(300).optional().nullable(),
+  regime: z.string().trim().max(3).optional().nullable(),
+  postalCode: z.string().trim().max(5).optional().nullable(),
+  cfdiUse: z.string().trim().max(4).optional().nullable(),
+});
+
+const IssueInvoiceSchema = z.object({
+  orderId: z.string().trim().min(1),
+  receiver: ReceiverSchema.optional().nullable(),
+  saveToProfile: z.boolean().optional(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/invoices');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind');
+    const invoices = await loadInvoices({
+      orderId: searchParams.get('orderId')?.trim() || null,
+      kind: kind === 'global' || kind === 'individual' ? kind : null,
+    });
+    return NextResponse.json({ success: true, data: invoices });
+  } catch (error) {
+    console.error('Error obteniendo facturas:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las facturas' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/invoices');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = IssueInvoiceSchema.parse(await request.json());
+    const result = await issueOrderInvoice({ ...payload, staffId: auth.session.staffId });
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'invoice.create',
+      details: {
+        invoiceId: result.invoice.id,
+        orderId: payload.orderId,
+        uuid: result.invoice.uuid,
+        folio: `${result.invoice.series}-${result.invoice.folio}`,
+        receiverRfc: result.invoice.receiverRfc,
+        total: result.invoice.total,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result.invoice });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error emitiendo factura:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos emitir la factura' },
+      { status: 500 }
+    );
+  }
+}
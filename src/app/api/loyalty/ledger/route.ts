@@ -0,0 +1,130 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { adjustLoyaltyBalance, loadLoyaltyLedger, loadLoyaltyPointBalances } from '@/lib/loyalty-sync';
+
+export const dynamic = 'force-dynamic';
+
+const AdjustmentSchema = z
+  .object({
+    userId: z.string().trim().min(1),
+    programId: z.string().trim().min(1),
+    points: z.number().int().default(0),
+    stamps: z.number().int().default(0),
+    reason: z.string().trim().min(5, 'Explica el motivo del ajuste').max(280),
+  })
+  .refine((payload) => payload.points !== 0 || payload.stamps !== 0, {
+    message: 'El ajuste debe mover puntos o sellos',
+  });
+
+const ADJUST_ERRORS: Record<string, { status: number; message: string }> = {
+  PROGRAM_NOT_FOUND: { status: 404, message: 'El programa no existe' },
+  INSUFFICIENT_POINTS: { status: 409, message: 'El ajuste dejaría el saldo de puntos en negativo' },
+  USER_NOT_FOUND: { status: 404, message: 'No encontramos al cliente indicado' },
+};
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/loyalty/ledger');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const userId = new URL(request.url).searchParams.get('userId')?.trim();
+  if (!userId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del cliente' }, { status: 400 });
+  }
+
+  try {
+    const [entries, balances] = await Promise.all([
+      loadLoyaltyLedger(userId),
+      loadLoyaltyPointBalances([userId]),
+    ]);
+    return NextResponse.json({
+      success: true,
+      data: {
+        entries,
+        balances: Object.fromEntries(balances.get(userId) ?? new Map<string, number>()),
+      },
+    });
+  } catch (error) {
+    console.error('Error obteniendo historial de lealtad:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar el historial de lealtad' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/loyalty/ledger');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = AdjustmentSchema.parse(await request.json());
+    const entry = await adjustLoyaltyBalance({ ...payload, staffId: auth.session.staffId });
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'loyalty.adjust',
+      level: 'warning',
+      after: { ...entry },
+      details: {
+        userId: payload.userId,
+        programId: payload.programId,
+        points: payload.points,
+        stamps: payload.stamps,
+        reason: payload.reason,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: entry });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    const known = error instanceof Error ? ADJUST_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error registrando ajuste de lealtad:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos registrar el ajuste' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,224 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { LOYALTY_PROGRAMS_TABLE, loadLoyaltyPrograms, mapLoyaltyProgramRow } from '@/lib/loyalty-sync';
+import { buildLegacyLoyaltyProgram } from '@/lib/loyalty-programs';
+
+export const dynamic = 'force-dynamic';
+
+const RuleSchema = z.object({
+  productId: z.string().trim().min(1).optional().nullable(),
+  category: z.string().trim().min(1).optional().nullable(),
+  stamps: z.number().int().min(0).max(20).default(0),
+  points: z.number().int().min(0).max(10000).default(0),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional().nullable(),
+});
+
+const RewardSchema = z.object({
+  id: z.string().trim().min(1).optional(),
+  type: z.enum(['free_drink', 'discount', 'upgrade']),
+  label: z.string().trim().min(1).max(120),
+  pointsCost: z.number().int().positive().optional().nullable(),
+  discountPercent: z.number().min(1).max(100).optional().nullable(),
+  productId: z.string().trim().min(1).optional().nullable(),
+});
+
+const ProgramSchema = z.object({
+  id: z.string().trim().min(1).optional(),
+  name: z.string().trim().min(2).max(120),
+  description: z.string().trim().max(280).optional().nullable(),
+  isActive: z.boolean().default(true),
+  resetPeriod: z.enum(['weekly', 'monthly', 'never']).default('weekly'),
+  stampsTarget: z.number().int().min(1).max(50),
+  rules: z.array(RuleSchema).min(1, 'Agrega al menos una regla de acumulación'),
+  rewards: z.array(RewardSchema).min(1, 'Agrega al menos una recompensa'),
+  startsAt: z.coerce.date().optional().nullable(),
+  endsAt: z.coerce.date().optional().nullable(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/loyalty/programs');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const programs = await loadLoyaltyPrograms();
+    // Sin programas en la base seguimos operando con la tarjeta semanal del entorno.
+    return NextResponse.json({
+      success: true,
+      data: programs.length ? programs : [buildLegacyLoyaltyProgram()],
+    });
+  } catch (error) {
+    console.error('Error obteniendo programas de lealtad:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar los programas de lealtad' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/loyalty/programs');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = ProgramSchema.parse(await request.json());
+    if (payload.rules.some((rule) => !rule.productId && !rule.category)) {
+      return NextResponse.json(
+        { success: false, error: 'Cada regla necesita un producto o una categoría' },
+        { status: 400 }
+      );
+    }
+    if (payload.rules.every((rule) => rule.stamps === 0 && rule.points === 0)) {
+      return NextResponse.json(
+        { success: false, error: 'Las reglas deben otorgar sellos o puntos' },
+        { status: 400 }
+      );
+    }
+    if (payload.startsAt && payload.endsAt && payload.endsAt <= payload.startsAt) {
+      return NextResponse.json(
+        { success: false, error: 'La fecha de fin debe ser posterior al inicio' },
+        { status: 400 }
+      );
+    }
+
+    const nowISO = new Date().toISOString();
+    const record = {
+      name: payload.name,
+      description: payload.description || null,
+      isActive: payload.isActive,
+      resetPeriod: payload.resetPeriod,
+      stampsTarget: payload.stampsTarget,
+      rules: payload.rules.map((rule) => ({
+        productId: rule.productId ?? null,
+        category: rule.category ?? null,
+        stamps: rule.stamps,
+        points: rule.points,
+        weekdays: rule.weekdays?.length ? rule.weekdays : null,
+      })),
+      rewards: payload.rewards.map((reward) => ({
+        id: reward.id ?? randomUUID(),
+        type: reward.type,
+        label: reward.label,
+        pointsCost: reward.pointsCost ?? null,
+        discountPercent: reward.type === 'discount' ? reward.discountPercent ?? null : null,
+        productId: reward.productId ?? null,
+      })),
+      startsAt: payload.startsAt ? payload.startsAt.toISOString() : null,
+      endsAt: payload.endsAt ? payload.endsAt.toISOString() : null,
+      updatedAt: nowISO,
+    };
+
+    if (payload.id) {
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from(LOYALTY_PROGRAMS_TABLE)
+        .select('*')
+        .eq('id', payload.id)
+        .maybeSingle();
+      if (existingError) {
+        throw new Error(existingError.message);
+      }
+      if (!existing) {
+        return NextResponse.json({ success: false, error: 'Programa no encontrado' }, { status: 404 });
+      }
+
+      const { data, error } = await supabaseAdmin
+        .from(LOYALTY_PROGRAMS_TABLE)
+        .update(record)
+        .eq('id', payload.id)
+        .select('*')
+        .single();
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      await logAuditAction({
+        request,
+        session: auth.session,
+        action: 'loyalty.program.update',
+        before: existing,
+        after: record,
+        details: { programId: payload.id, name: record.name },
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: mapLoyaltyProgramRow(data as Record<string, unknown>),
+      });
+    }
+
+    const newRecord = {
+      ...record,
+      id: randomUUID(),
+      createdByStaffId: auth.session.staffId,
+      createdAt: nowISO,
+    };
+    const { data, error } = await supabaseAdmin
+      .from(LOYALTY_PROGRAMS_TABLE)
+      .insert(newRecord)
+      .select('*')
+      .single();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'loyalty.program.create',
+      after: record,
+      details: { programId: newRecord.id, name: record.name },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: mapLoyaltyProgramRow(data as Record<string, unknown>),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Datos inválidos', details: error.flatten() },
+        { status: 400 }
+      );
+    }
+    console.error('Error guardando programa de lealtad:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos guardar el programa de lealtad' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { redeemLoyaltyReward } from '@/lib/loyalty-sync';
+
+export const dynamic = 'force-dynamic';
+
+const RedeemSchema = z.object({
+  userId: z.string().trim().min(1),
+  programId: z.string().trim().min(1),
+  rewardId: z.string().trim().min(1).optional().nullable(),
+});
+
+const REDEEM_ERRORS: Record<string, { status: number; message: string }> = {
+  PROGRAM_NOT_FOUND: { status: 404, message: 'El programa no está activo' },
+  REWARD_NOT_FOUND: { status: 404, message: 'La recompensa no existe en este programa' },
+  REWARD_NOT_AVAILABLE: {
+    status: 409,
+    message: 'El cliente aún no tiene sellos o puntos suficientes para esta recompensa',
+  },
+};
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/loyalty/redeem');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = RedeemSchema.parse(await request.json());
+    const result = await redeemLoyaltyReward(
+      payload.userId,
+      payload.programId,
+      payload.rewardId,
+      auth.session.staffId
+    );
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'loyalty.reward.redeem',
+      details: {
+        userId: payload.userId,
+        programId: payload.programId,
+        rewardId: result.reward.id,
+        reward: result.reward.label,
+        pointsCost: result.reward.pointsCost ?? null,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    const known = error instanceof Error ? REDEEM_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error canjeando recompensa de lealtad:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos canjear la recompensa' },
+      { status: 500 }
+    );
+  }
+}
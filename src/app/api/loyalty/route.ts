@@ -29,6 +29,9 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { loadCustomerLoyaltyPrograms } from '@/lib/loyalty-sync';
+import type { CustomerLoyaltyProgram } from '@/lib/loyalty-programs';
 
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
@@ -53,7 +56,12 @@ const getWeekBounds = () => {
   return { start, end };
 };
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/loyalty');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const [{ data: orders, error: ordersError }, { data: reservations, error: reservationsError }] =
       await Promise.all([
@@ -230,6 +238,19 @@ export async function GET() {
       })
     );
 
+    let programsByUser = new Map<string, CustomerLoyaltyProgram[]>();
+    try {
+      programsByUser = await loadCustomerLoyaltyPrograms(
+        users.map((user) => ({
+          id: String(user.id),
+          weeklyCoffeeCount: user.weeklyCoffeeCount ?? null,
+          rewardEarned: user.rewardEarned ?? null,
+        }))
+      );
+    } catch (error) {
+      console.warn('No pudimos cargar el avance por programa de lealtad:', error);
+    }
+
     const customers = Array.from(statsMap.values())
       .map((record) => {
         const user = userMap.get(record.userId);
@@ -258,6 +279,7 @@ export async function GET() {
           loyaltyCoffees: loyaltyCount,
           weeklyCoffeeCount: loyaltyCount,
           rewardEarned,
+          loyaltyPrograms: programsByUser.get(record.userId) ?? [],
           favoriteBeverage,
           favoriteFood: user?.favoriteFood ?? null,
         };
@@ -28,8 +28,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
-import { LOYALTY_STAMPS_TARGET, getCurrentWeekBounds, normalizeWeeklyPunches } from '@/lib/loyalty';
-import { LOYALTY_PRODUCTS_REQUIRED_ERROR, countEligiblePunchesFromSnapshot, ensureLoyaltyProductsConfigured } from '@/lib/loyalty-sync';
+import { getLoyaltyPeriodStart } from '@/lib/loyalty-programs';
+import {
+  LOYALTY_ELIGIBLE_STATUSES,
+  LOYALTY_PROGRAMS_REQUIRED_ERROR,
+  ensureLoyaltyProgramsConfigured,
+  recalculateLoyaltyProgress,
+} from '@/lib/loyalty-sync';
 
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
@@ -37,19 +42,12 @@ const LOYALTY_SYNC_KEY = process.env.LOYALTY_SYNC_KEY?.trim() ?? null;
 const LOYALTY_SYNC_BATCH = Number(process.env.LOYALTY_SYNC_BATCH ?? 200);
 const LOYALTY_SYNC_USER_BATCH = Number(process.env.LOYALTY_SYNC_USER_BATCH ?? 500);
 const MIN_COMPLETED_MINUTES = Number(process.env.LOYALTY_COMPLETED_DELAY_MINUTES ?? 60);
-const ELIGIBLE_STATUSES = (process.env.LOYALTY_ELIGIBLE_STATUSES || 'completed')
-  .split(',')
-  .map((status) => status.trim())
-  .filter(Boolean);
 
 const MIN_COMPLETED_MS = MIN_COMPLETED_MINUTES * 60 * 1000;
 
 const buildError = (message: string, status = 400) =>
   NextResponse.json({ success: false, error: message }, { status });
 
-const orderHasEligibleProduct = (order: Record<string, unknown>) =>
-  countEligiblePunchesFromSnapshot(order.items) > 0;
-
 const orderCompletedLongEnough = (order: Record<string, unknown>) => {
   const timestamp =
     (typeof order.completedAt === 'string' && order.completedAt) ||
@@ -66,64 +64,20 @@ const orderCompletedLongEnough = (order: Record<string, unknown>) => {
   return Date.now() - completedAt >= MIN_COMPLETED_MS;
 };
 
-const countPunchesPerUser = (orders: Array<Record<string, unknown>>) => {
-  const punches = new Map<string, number>();
-  const perDay = new Map<string, Set<string>>();
-
-  for (const order of orders) {
-    const userId = typeof order.userId === 'string' ? order.userId.trim() : null;
-    if (!userId) {
-      continue;
-    }
-    if (!orderCompletedLongEnough(order)) {
-      continue;
-    }
-    if (!orderHasEligibleProduct(order)) {
-      continue;
-    }
-
-    const timestamp =
-      (typeof order.completedAt === 'string' && order.completedAt) ||
-      (typeof order.createdAt === 'string' && order.createdAt) ||
-      null;
-    if (!timestamp) {
-      continue;
-    }
-    const dayKey = new Date(timestamp).toISOString().slice(0, 10);
-    let days = perDay.get(userId);
-    if (!days) {
-      days = new Set<string>();
-      perDay.set(userId, days);
-    }
-    if (days.has(dayKey)) {
-      continue;
-    }
-    days.add(dayKey);
-    const current = punches.get(userId) ?? 0;
-    if (current >= LOYALTY_STAMPS_TARGET) {
-      continue;
-    }
-    punches.set(userId, Math.min(LOYALTY_STAMPS_TARGET, current + 1));
-  }
-
-  return punches;
-};
-
-const fetchWeeklyOrders = async () => {
-  const { start } = getCurrentWeekBounds();
+const fetchPeriodOrders = async (since: Date) => {
   const orders: Array<Record<string, unknown>> = [];
   let from = 0;
   while (true) {
     const to = from + LOYALTY_SYNC_BATCH - 1;
     const query = supabaseAdmin
       .from(ORDERS_TABLE)
-      .select('id,"userId",status,"items","createdAt","updatedAt","completedAt"')
-      .gte('createdAt', start.toISOString())
+      .select('id,"userId",status,"createdAt","updatedAt","completedAt"')
+      .gte('createdAt', since.toISOString())
       .order('createdAt', { ascending: false })
       .range(from, to);
 
-    if (ELIGIBLE_STATUSES.length) {
-      query.in('status', ELIGIBLE_STATUSES);
+    if (LOYALTY_ELIGIBLE_STATUSES.length) {
+      query.in('status', LOYALTY_ELIGIBLE_STATUSES);
     }
 
     const { data, error } = await query;
@@ -173,40 +127,52 @@ const fetchAllUserIds = async () => {
   return ids;
 };
 
+/**
+ * Recalcula el periodo vigente de cada programa para quien compró en él y
+ * reinicia la tarjeta principal del resto cuando ese programa tiene reinicio.
+ */
 export async function POST(request: NextRequest) {
   try {
     if (!LOYALTY_SYNC_KEY) {
       return buildError('Configura LOYALTY_SYNC_KEY para habilitar este endpoint.', 500);
     }
+    const providedKey = request.headers.get('x-loyalty-sync-key');
+    if (!providedKey || providedKey !== LOYALTY_SYNC_KEY) {
+      return buildError('Cabecera x-loyalty-sync-key inválida o ausente.', 401);
+    }
+
+    let programs;
     try {
-      ensureLoyaltyProductsConfigured();
+      programs = await ensureLoyaltyProgramsConfigured();
     } catch (err) {
-      if (err instanceof Error && err.message === LOYALTY_PRODUCTS_REQUIRED_ERROR) {
-        return buildError('Define LOYALTY_ELIGIBLE_PRODUCTS antes de sincronizar.', 500);
+      if (err instanceof Error && err.message === LOYALTY_PROGRAMS_REQUIRED_ERROR) {
+        return buildError('Activa un programa de lealtad antes de sincronizar.', 500);
       }
       throw err;
     }
-    const providedKey = request.headers.get('x-loyalty-sync-key');
-    if (!providedKey || providedKey !== LOYALTY_SYNC_KEY) {
-      return buildError('Cabecera x-loyalty-sync-key inválida o ausente.', 401);
-    }
 
-    const [orders, userIds] = await Promise.all([fetchWeeklyOrders(), fetchAllUserIds()]);
-    const punchesMap = countPunchesPerUser(orders);
-
-    const updates = userIds.map((userId) => {
-      const punches = punchesMap.get(userId) ?? 0;
-      const normalized = normalizeWeeklyPunches(punches);
-      return {
-        id: userId,
-        weeklyCoffeeCount: normalized.weeklyCoffeeCount,
-        rewardEarned: normalized.rewardEarned,
-      };
-    });
+    const since = programs
+      .map((program) => getLoyaltyPeriodStart(program.resetPeriod))
+      .reduce((earliest, start) => (start < earliest ? start : earliest));
+    const [orders, userIds] = await Promise.all([fetchPeriodOrders(since), fetchAllUserIds()]);
+
+    const activeUsers = new Set(
+      orders
+        .filter(orderCompletedLongEnough)
+        .map((order) => (typeof order.userId === 'string' ? order.userId.trim() : ''))
+        .filter(Boolean)
+    );
+    for (const userId of activeUsers) {
+      await recalculateLoyaltyProgress(userId);
+    }
 
+    const resetUsers =
+      programs[0].resetPeriod === 'never' ? [] : userIds.filter((userId) => !activeUsers.has(userId));
     const chunkSize = Number(process.env.LOYALTY_SYNC_UPDATE_BATCH ?? 200);
-    for (let i = 0; i < updates.length; i += chunkSize) {
-      const chunk = updates.slice(i, i + chunkSize);
+    for (let i = 0; i < resetUsers.length; i += chunkSize) {
+      const chunk = resetUsers
+        .slice(i, i + chunkSize)
+        .map((id) => ({ id, weeklyCoffeeCount: 0, rewardEarned: false }));
       if (!chunk.length) {
         continue;
       }
@@ -220,8 +186,9 @@ export async function POST(request: NextRequest) {
       success: true,
       data: {
         processedOrders: orders.length,
-        updatedUsers: updates.length,
-        maxStamps: LOYALTY_STAMPS_TARGET,
+        updatedUsers: activeUsers.size + resetUsers.length,
+        programs: programs.map((program) => program.id),
+        maxStamps: programs[0].stampsTarget,
       },
     });
   } catch (error) {
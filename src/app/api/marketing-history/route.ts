@@ -28,6 +28,8 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { classifyMarketingCluster, type MarketingCluster } from '@/lib/marketing-campaigns';
 
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
 const RESERVATIONS_TABLE = process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations';
@@ -44,17 +46,7 @@ type CustomerStat = {
   avgTicket: number;
 };
 
-type ClusterKey = 'high' | 'routine' | 'occasional';
-
-const classifyCluster = (stat: CustomerStat): ClusterKey => {
-  if (stat.spent >= 800 || stat.orders >= 12) {
-    return 'high';
-  }
-  if (stat.spent >= 300) {
-    return 'routine';
-  }
-  return 'occasional';
-};
+type ClusterKey = MarketingCluster;
 
 const buildMonthLabel = (monthKey: string) => {
   const [year, month] = monthKey.split('-').map(Number);
@@ -134,6 +126,11 @@ const exportClusterToExcel = (customers: CustomerStat[]) => {
 };
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/marketing-history');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const url = new URL(request.url);
     const targetMonth = url.searchParams.get('month')?.substring(0, 7) ?? null;
@@ -273,7 +270,7 @@ export async function GET(request: Request) {
           spent: Number(stats.spent.toFixed(2)),
           avgTicket: stats.orders ? Number((stats.spent / stats.orders).toFixed(2)) : 0,
         };
-        const bucket = classifyCluster(customerStat);
+        const bucket = classifyMarketingCluster(customerStat);
         clusterBuckets[bucket].push(customerStat);
       });
       monthCustomers.set(month, clusterBuckets);
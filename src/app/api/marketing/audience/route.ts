@@ -0,0 +1,76 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import {
+  CUSTOMER_SEGMENTS,
+  MARKETING_CLUSTERS,
+  resolveCampaignAudience,
+} from '@/lib/marketing-campaigns';
+
+export const dynamic = 'force-dynamic';
+
+const AudienceQuerySchema = z.object({
+  cluster: z.enum(MARKETING_CLUSTERS).optional(),
+  favoriteDrink: z.string().trim().max(80).optional(),
+  inactiveDays: z.coerce.number().int().min(7).max(365).optional(),
+  segment: z.enum(CUSTOMER_SEGMENTS).optional(),
+});
+
+/** Vista previa de la audiencia: solo devuelve el conteo, nunca los correos. */
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/marketing/audience');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const url = new URL(request.url);
+    const filter = AudienceQuerySchema.parse(
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value.trim() !== '')
+      )
+    );
+    const audience = await resolveCampaignAudience(filter);
+    return NextResponse.json({ success: true, data: { count: audience.length } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    console.error('Error calculando audiencia de campaña:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos calcular la audiencia' },
+      { status: 500 }
+    );
+  }
+}
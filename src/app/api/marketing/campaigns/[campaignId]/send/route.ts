@@ -0,0 +1,83 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { MARKETING_CAMPAIGN_ERRORS, sendMarketingCampaignBatch } from '@/lib/marketing-campaigns';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { campaignId?: string } };
+
+// Las ligas del correo (baja y pixel) deben apuntar al dominio público del POS.
+const resolveOrigin = (request: Request) => {
+  const headerOrigin = request.headers.get('origin');
+  return (
+    process.env.NEXT_PUBLIC_APP_URL?.trim() ||
+    process.env.APP_URL?.trim() ||
+    (headerOrigin?.startsWith('http') ? headerOrigin : null) ||
+    'http://localhost:8000'
+  ).replace(/\/$/, '');
+};
+
+/** Envía el siguiente lote; el panel repite la llamada mientras `remaining` sea mayor a cero. */
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = await requireStaffSession(request, '/api/marketing/campaigns/[campaignId]/send');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const campaignId = params.campaignId?.trim();
+  if (!campaignId) {
+    return NextResponse.json({ success: false, error: 'Campaña inválida' }, { status: 400 });
+  }
+
+  try {
+    const result = await sendMarketingCampaignBatch(campaignId, resolveOrigin(request));
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'marketing.campaign.send',
+      details: { ...result },
+    });
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    const known = error instanceof Error ? MARKETING_CAMPAIGN_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error enviando campaña de marketing:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos enviar el lote, intenta de nuevo.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  CUSTOMER_SEGMENTS,
+  MARKETING_CAMPAIGN_ERRORS,
+  MARKETING_CLUSTERS,
+  createMarketingCampaign,
+  loadMarketingCampaigns,
+} from '@/lib/marketing-campaigns';
+
+export const dynamic = 'force-dynamic';
+
+const AudienceSchema = z.object({
+  cluster: z.enum(MARKETING_CLUSTERS).optional().nullable(),
+  favoriteDrink: z.string().trim().max(80).optional().nullable(),
+  inactiveDays: z.number().int().min(7).max(365).optional().nullable(),
+  segment: z.enum(CUSTOMER_SEGMENTS).optional().nullable(),
+});
+
+const CampaignSchema = z.object({
+  name: z.string().trim().min(3, 'Ponle nombre a la campaña').max(120),
+  subject: z.string().trim().min(3, 'Escribe el asunto del correo').max(150),
+  headline: z.string().trim().max(150).optional().nullable(),
+  body: z.string().trim().min(10, 'El mensaje es demasiado corto').max(4000),
+  ctaLabel: z.string().trim().max(60).optional().nullable(),
+  ctaUrl: z.string().trim().url('La liga del botón no es válida').optional().nullable().or(z.literal('')),
+  audience: AudienceSchema,
+  promo: z
+    .object({
+      discountType: z.enum(['percentage', 'amount']),
+      discountValue: z.number().positive('Indica el valor del descuento'),
+      validDays: z.number().int().min(1).max(90),
+    })
+    .optional()
+    .nullable(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/marketing/campaigns');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const campaigns = await loadMarketingCampaigns();
+    return NextResponse.json({ success: true, data: campaigns });
+  } catch (error) {
+    console.error('Error cargando campañas de marketing:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las campañas' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/marketing/campaigns');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CampaignSchema.parse(await request.json());
+    if (payload.promo?.discountType === 'percentage' && payload.promo.discountValue > 100) {
+      return NextResponse.json(
+        { success: false, error: 'El porcentaje no puede pasar de 100' },
+        { status: 400 }
+      );
+    }
+    const campaign = await createMarketingCampaign(payload, auth.session.staffId);
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'marketing.campaign.create',
+      details: {
+        campaignId: campaign.id,
+        name: campaign.name,
+        audience: campaign.audience,
+        recipients: campaign.recipientCount,
+        promoCode: campaign.promoCode,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: campaign });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: error.issues[0]?.message ?? 'Datos inválidos' },
+        { status: 400 }
+      );
+    }
+    const known = error instanceof Error ? MARKETING_CAMPAIGN_ERRORS[error.message] : undefined;
+    if (known) {
+      return NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error creando campaña de marketing:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos crear la campaña' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { MARKETING_CAMPAIGN_ERRORS, unsubscribeCampaignRecipient } from '@/lib/marketing-campaigns';
+
+export const dynamic = 'force-dynamic';
+
+const renderPage = (title: string, message: string, status: number, extra = '') =>
+  new Response(
+    `<!doctype html><html lang="es"><head><meta charset="utf-8" /><meta name="viewport" content="width=device-width, initial-scale=1" /><title>${title}</title></head><body style="font-family:sans-serif;max-width:480px;margin:48px auto;padding:0 16px"><h1>${title}</h1><p>${message}</p>${extra}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+
+const readToken = (request: Request) => new URL(request.url).searchParams.get('token')?.trim() ?? '';
+
+const unsubscribe = async (request: Request) => {
+  const token = readToken(request);
+  if (!token) {
+    throw new Error('INVALID_TOKEN');
+  }
+  await unsubscribeCampaignRecipient(token);
+};
+
+/**
+ * Liga de baja del correo de campaña. Solo muestra la confirmación: los
+ * escáneres de correo y la precarga de ligas abren este GET sin que la persona
+ * lo pida, así que la baja ocurre únicamente en el POST.
+ */
+export async function GET(request: Request) {
+  const token = readToken(request);
+  if (!token) {
+    const invalid = MARKETING_CAMPAIGN_ERRORS.INVALID_TOKEN;
+    return renderPage('No pudimos darte de baja', invalid.message, invalid.status);
+  }
+  return renderPage(
+    '¿Darte de baja?',
+    'Confirma que ya no quieres recibir correos promocionales de Xoco Café.',
+    200,
+    `<form method="post" action="?token=${encodeURIComponent(token)}"><input type="hidden" name="confirm" value="1" /><button type="submit">Darme de baja</button></form>`
+  );
+}
+
+/**
+ * Baja confirmada desde la página anterior o en un clic (`List-Unsubscribe-Post`)
+ * desde el cliente de correo. El formulario recibe una página; el resto, JSON.
+ */
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null);
+  const fromPage = form?.get('confirm') === '1';
+  try {
+    await unsubscribe(request);
+    if (fromPage) {
+      return renderPage(
+        'Listo, te dimos de baja',
+        'Ya no recibirás correos promocionales de Xoco Café. Puedes volver a activarlos desde tu perfil.',
+        200
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const known = error instanceof Error ? MARKETING_CAMPAIGN_ERRORS[error.message] : undefined;
+    if (known) {
+      return fromPage
+        ? renderPage('No pudimos darte de baja', known.message, known.status)
+        : NextResponse.json({ success: false, error: known.message }, { status: known.status });
+    }
+    console.error('Error procesando baja de marketing:', error);
+    return fromPage
+      ? renderPage('No pudimos darte de baja', 'Intenta de nuevo en unos minutos.', 500)
+      : NextResponse.json({ success: false, error: 'No pudimos procesar la baja' }, { status: 500 });
+  }
+}
@@ -29,10 +29,19 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { maybeAwardDailyCoffee } from '../../loyalty-utils';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { isOutsideBranchScope } from '@/lib/auth/branch-scope';
+import { logAuditAction } from '@/lib/audit-log';
+import { REVERSED_ORDER_STATUS_FILTER, isReversedOrderStatus } from '@/lib/order-refunds';
 
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
 
-export async function POST(_: Request, context: { params: { orderId?: string } }) {
+export async function POST(request: Request, context: { params: { orderId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/orders/[orderId]/complete');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const orderId = context.params?.orderId?.trim();
 
   if (!orderId) {
@@ -40,6 +49,28 @@ export async function POST(_: Request, context: { params: { orderId?: string } }
   }
 
   try {
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(ORDERS_TABLE)
+      .select('status,"branchId"')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+    if (isOutsideBranchScope(request, auth.session, previous?.branchId)) {
+      return NextResponse.json(
+        { success: false, error: 'El pedido pertenece a otra sucursal.' },
+        { status: 403 }
+      );
+    }
+    if (isReversedOrderStatus(previous?.status)) {
+      return NextResponse.json(
+        { success: false, error: 'El pedido fue cancelado o reembolsado; no puede completarse.' },
+        { status: 409 }
+      );
+    }
+
     const now = new Date().toISOString();
     const {
       data,
@@ -48,6 +79,7 @@ export async function POST(_: Request, context: { params: { orderId?: string } }
       .from(ORDERS_TABLE)
       .update({ status: 'completed', updatedAt: now })
       .eq('id', orderId)
+      .not('status', 'in', REVERSED_ORDER_STATUS_FILTER)
       .select('id,"userId",items')
       .maybeSingle();
 
@@ -56,13 +88,24 @@ export async function POST(_: Request, context: { params: { orderId?: string } }
     }
 
     if (!data) {
-      return NextResponse.json(
-        { success: false, error: 'No encontramos el pedido' },
-        { status: 404 }
-      );
+      // El pedido pudo cancelarse entre la lectura y la actualización.
+      return previous
+        ? NextResponse.json(
+            { success: false, error: 'El pedido fue cancelado o reembolsado; no puede completarse.' },
+            { status: 409 }
+          )
+        : NextResponse.json({ success: false, error: 'No encontramos el pedido' }, { status: 404 });
     }
 
     await maybeAwardDailyCoffee(orderId, data.userId ?? null, data.items ?? null);
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'order.complete',
+      before: previous,
+      after: { status: 'completed' },
+      details: { orderId },
+    });
 
     return NextResponse.json({ success: true, data: { id: data.id } });
   } catch (error) {
@@ -29,6 +29,22 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { revertLoyaltyCoffee } from '../../loyalty-utils';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { isOutsideBranchScope, resolveWriteBranch } from '@/lib/auth/branch-scope';
+import { logAuditAction } from '@/lib/audit-log';
+import { REVERSED_ORDER_STATUS_FILTER, isReversedOrderStatus } from '@/lib/order-refunds';
+import { toCashSaleMethod } from '@/lib/cash-shift';
+import { reemplazarVentasDePedido } from '@/app/actions/cash-register';
+import {
+  SPLIT_PAYMENT_METHOD,
+  extractPaymentTenders,
+  parsePaymentTenders,
+  resolvePaymentTendersMethod,
+  sumPaymentTenders,
+  validatePaymentTenders,
+  type PaymentTender,
+} from '@/lib/payment-tenders';
+import { replaceOrderTenderPayments } from '../../tender-utils';
 
 const PREP_QUEUE_TABLE = process.env.SUPABASE_PREP_QUEUE_TABLE ?? 'prep_queue';
 const ORDER_ITEMS_TABLE = process.env.SUPABASE_ORDER_ITEMS_TABLE ?? 'order_items';
@@ -131,6 +147,11 @@ const coerceMetadataObject = (value: unknown): Record<string, unknown> => {
 };
 
 export async function POST(request: Request, context: { params: { orderId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/orders/[orderId]/queue');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const orderId = context.params?.orderId?.trim();
 
   if (!orderId) {
@@ -138,23 +159,15 @@ export async function POST(request: Request, context: { params: { orderId?: stri
   }
 
   try {
-    const sanitizeStaffId = (value?: string | null) => {
-      if (!value) {
-        return null;
-      }
-      const trimmed = value.trim();
-      return trimmed || null;
-    };
-
-    const { searchParams } = new URL(request.url);
-    let assignedStaffId: string | null = sanitizeStaffId(searchParams.get('staffId'));
+    const assignedStaffId = auth.session.staffId;
+    const assignedStaffName =
+      sanitizeStaffName(auth.session.name) ?? sanitizeStaffName(auth.session.email);
     type QueuePayload = {
-      staffId?: string | null;
       paymentReference?: string | null;
-      staffName?: string | null;
       paymentMethod?: string | null;
       cashTendered?: number | null;
       cashChange?: number | null;
+      payments?: unknown;
     };
     let parsedBody: QueuePayload | null = null;
     try {
@@ -162,17 +175,6 @@ export async function POST(request: Request, context: { params: { orderId?: stri
     } catch {
       parsedBody = null;
     }
-    if (parsedBody?.staffId) {
-      assignedStaffId = sanitizeStaffId(parsedBody.staffId);
-    }
-
-    if (!assignedStaffId) {
-      const staffHeader = request.headers.get('x-xoco-staff-id') ?? request.headers.get('x-xoco-staffid');
-      assignedStaffId = sanitizeStaffId(staffHeader);
-    }
-    const assignedStaffName =
-      sanitizeStaffName(request.headers.get('x-xoco-staff-name')) ??
-      sanitizeStaffName(parsedBody?.staffName ?? null);
 
     const sanitizePaymentMethod = (value?: string | null) => {
       if (!value) {
@@ -182,7 +184,14 @@ export async function POST(request: Request, context: { params: { orderId?: stri
       if (!trimmed) {
         return null;
       }
-      const allowed = new Set(['debito', 'credito', 'transferencia', 'efectivo', 'cripto']);
+      const allowed = new Set([
+        'debito',
+        'credito',
+        'transferencia',
+        'efectivo',
+        'cripto',
+        SPLIT_PAYMENT_METHOD,
+      ]);
       return allowed.has(trimmed) ? trimmed : 'otro';
     };
 
@@ -205,6 +214,34 @@ export async function POST(request: Request, context: { params: { orderId?: stri
         : null;
     const statusForQueue = assignedStaffId ? 'in_progress' : 'pending';
 
+    const {
+      data: existingOrderRecord,
+      error: existingOrderError,
+    } = await supabaseAdmin
+      .from(ORDERS_TABLE)
+      .select(
+        'status,metadata,"queuedPaymentMethod","queuedPaymentReference","queuedPaymentReferenceType","paymentMethod","montoRecibido","cambioEntregado",total,totals,currency,"tipAmount","tipPercent","branchId","queuedByStaffId","queuedByStaffName"'
+      )
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (existingOrderError) {
+      console.warn('No se pudo recuperar metadatos del pedido:', existingOrderError);
+    }
+
+    if (isOutsideBranchScope(request, auth.session, toTrimmedString(existingOrderRecord?.branchId))) {
+      return NextResponse.json(
+        { success: false, error: 'El pedido pertenece a otra sucursal.' },
+        { status: 403 }
+      );
+    }
+    if (isReversedOrderStatus(existingOrderRecord?.status)) {
+      return NextResponse.json(
+        { success: false, error: 'El pedido fue cancelado o reembolsado; no puede volver a la cola.' },
+        { status: 409 }
+      );
+    }
+
     const ensureOrderItemsSnapshot = async () => {
       const {
         data: existingItems,
@@ -268,17 +305,6 @@ export async function POST(request: Request, context: { params: { orderId?: stri
       return refreshedItems ?? [];
     };
 
-    if (!assignedStaffId) {
-      return NextResponse.json(
-        {
-          success: false,
-          error:
-            'Solo el personal del POS puede mover pedidos a preparación. Escanea tu sesión e intenta de nuevo.',
-        },
-        { status: 403 }
-      );
-    }
-
     const orderItems = await ensureOrderItemsSnapshot();
 
     if (!orderItems.length) {
@@ -290,21 +316,6 @@ export async function POST(request: Request, context: { params: { orderId?: stri
 
     const orderItemIds = orderItems.map((item) => item.id).filter((id): id is string => Boolean(id));
 
-    const {
-      data: existingOrderRecord,
-      error: existingOrderError,
-    } = await supabaseAdmin
-      .from(ORDERS_TABLE)
-      .select(
-        'metadata,"queuedPaymentMethod","queuedPaymentReference","queuedPaymentReferenceType","paymentMethod","montoRecibido","cambioEntregado",total,totals'
-      )
-      .eq('id', orderId)
-      .maybeSingle();
-
-    if (existingOrderError) {
-      console.warn('No se pudo recuperar metadatos del pedido:', existingOrderError);
-    }
-
     const metadataDraft = coerceMetadataObject(existingOrderRecord?.metadata ?? null);
     const metadataPayment =
       metadataDraft.payment && typeof metadataDraft.payment === 'object'
@@ -315,7 +326,18 @@ export async function POST(request: Request, context: { params: { orderId?: stri
         toTrimmedString(existingOrderRecord?.paymentMethod) ??
         null
     );
-    const paymentMethodForQueue = trackedPaymentMethod ?? fallbackPaymentMethod;
+    // Un cobro dividido llega como lista de pagos; si el cliente no la reenvía
+    // reutilizamos la que se guardó al crear el pedido.
+    const storedTenders = extractPaymentTenders(metadataDraft);
+    const incomingTenders = parsePaymentTenders(parsedBody?.payments);
+    const tendersForQueue = incomingTenders.length
+      ? incomingTenders
+      : trackedPaymentMethod && trackedPaymentMethod !== SPLIT_PAYMENT_METHOD
+        ? []
+        : storedTenders;
+    const isTenderPayment = tendersForQueue.length > 0;
+    const paymentMethodForQueue =
+      resolvePaymentTendersMethod(tendersForQueue) ?? trackedPaymentMethod ?? fallbackPaymentMethod;
     const fallbackReference =
       sanitizePaymentReference(
         toTrimmedString(existingOrderRecord?.queuedPaymentReference) ??
@@ -356,8 +378,23 @@ export async function POST(request: Request, context: { params: { orderId?: stri
         { status: 400 }
       );
     }
-    const isCashMethod = paymentMethodForQueue === 'efectivo';
-    if (!isCashMethod && !paymentReferenceForQueue) {
+    if (paymentMethodForQueue === SPLIT_PAYMENT_METHOD && !isTenderPayment) {
+      return NextResponse.json(
+        { success: false, error: 'Captura los pagos del cobro dividido.' },
+        { status: 400 }
+      );
+    }
+    if (isTenderPayment) {
+      const tenderError = validatePaymentTenders(
+        tendersForQueue,
+        orderTotalAmount ?? sumPaymentTenders(tendersForQueue)
+      );
+      if (tenderError) {
+        return NextResponse.json({ success: false, error: tenderError }, { status: 400 });
+      }
+    }
+    const isCashMethod = !isTenderPayment && paymentMethodForQueue === 'efectivo';
+    if (!isTenderPayment && !isCashMethod && !paymentReferenceForQueue) {
       return NextResponse.json(
         {
           success: false,
@@ -382,6 +419,28 @@ export async function POST(request: Request, context: { params: { orderId?: stri
         : isCashMethod
           ? existingCashChange
           : null;
+    const cashTenders = tendersForQueue.filter((tender) => tender.method === 'efectivo');
+    const tenderCashTendered = cashTenders.length
+      ? cashTenders.reduce((acc, tender) => acc + (tender.cashTendered ?? tender.amount), 0)
+      : null;
+    const tenderCashChange = cashTenders.length
+      ? cashTenders.reduce((acc, tender) => acc + (tender.cashChange ?? 0), 0)
+      : null;
+    // Los pedidos creados desde el POS ya tienen sus pagos en `payments`; si el
+    // cobro se recaptura con un solo método, reemplazamos esas filas.
+    const tendersToPersist: PaymentTender[] = isTenderPayment
+      ? tendersForQueue
+      : storedTenders.length && orderTotalAmount !== null
+        ? parsePaymentTenders([
+            {
+              method: paymentMethodForQueue,
+              amount: orderTotalAmount,
+              reference: paymentReferenceForQueue,
+              referenceType: paymentReferenceTypeForQueue,
+              cashTendered: cashTenderedForQueue,
+            },
+          ])
+        : [];
 
     let tasksToCreate = orderItemIds;
 
@@ -464,8 +523,12 @@ export async function POST(request: Request, context: { params: { orderId?: stri
       });
     }
 
+    // La tarea se prepara en la sucursal del pedido, no en la de quien lo encola.
+    const branchId =
+      toTrimmedString(existingOrderRecord?.branchId) ?? resolveWriteBranch(request, auth.session);
     const payload = tasksToCreate.map((itemId) => ({
       orderItemId: itemId,
+      branchId,
       status: statusForQueue,
       handledByStaffId: assignedStaffId ?? null,
     }));
@@ -493,7 +556,13 @@ export async function POST(request: Request, context: { params: { orderId?: stri
     if (assignedStaffName) {
       orderUpdatePayload.queuedByStaffName = assignedStaffName;
     }
-    if (paymentReferenceForQueue) {
+    if (isTenderPayment) {
+      const singleTender = tendersForQueue.length === 1 ? tendersForQueue[0] : null;
+      orderUpdatePayload.queuedPaymentReference = singleTender?.reference ?? null;
+      orderUpdatePayload.queuedPaymentReferenceType = singleTender?.referenceType ?? null;
+      orderUpdatePayload.montoRecibido = tenderCashTendered;
+      orderUpdatePayload.cambioEntregado = tenderCashChange;
+    } else if (paymentReferenceForQueue) {
       orderUpdatePayload.queuedPaymentReference = paymentReferenceForQueue;
       orderUpdatePayload.queuedPaymentReferenceType = paymentReferenceTypeForQueue ?? null;
     }
@@ -550,20 +619,105 @@ export async function POST(request: Request, context: { params: { orderId?: stri
       metadataChanged = true;
     }
 
+    if (isTenderPayment) {
+      const singleTender = tendersForQueue.length === 1 ? tendersForQueue[0] : null;
+      metadataDraft.payment = {
+        ...(metadataDraft.payment as Record<string, unknown>),
+        method: paymentMethodForQueue,
+        tenders: tendersForQueue,
+        reference: singleTender?.reference ?? null,
+        referenceType: singleTender?.referenceType ?? null,
+        cashTendered: tenderCashTendered,
+        cashChange: tenderCashChange,
+      };
+    } else if (storedTenders.length) {
+      metadataDraft.payment = {
+        ...(metadataDraft.payment as Record<string, unknown>),
+        tenders: tendersToPersist,
+      };
+      metadataChanged = true;
+    }
+
     if (metadataChanged) {
       orderUpdatePayload.metadata = metadataDraft;
     }
-    const { error: updateError } = await supabaseAdmin
+    const { data: updatedOrder, error: updateError } = await supabaseAdmin
       .from(ORDERS_TABLE)
       .update(orderUpdatePayload)
-      .eq('id', orderId);
+      .eq('id', orderId)
+      .not('status', 'in', REVERSED_ORDER_STATUS_FILTER)
+      .select('id')
+      .maybeSingle();
 
     if (updateError) {
       console.warn('No se pudo actualizar el estatus del pedido al moverlo a la cola:', updateError);
+    } else if (!updatedOrder && existingOrderRecord) {
+      // Se canceló mientras se encolaba: sus tareas no deben quedar activas.
+      if (inserted?.length) {
+        await supabaseAdmin
+          .from(PREP_QUEUE_TABLE)
+          .delete()
+          .in('id', inserted.map((task) => task.id));
+      }
+      return NextResponse.json(
+        { success: false, error: 'El pedido fue cancelado o reembolsado; no puede volver a la cola.' },
+        { status: 409 }
+      );
+    }
+
+    if (tendersToPersist.length) {
+      try {
+        await replaceOrderTenderPayments({
+          orderId,
+          tenders: tendersToPersist,
+          currency: toTrimmedString(existingOrderRecord?.currency),
+          tipAmount: coerceOptionalNumber(existingOrderRecord?.tipAmount),
+          tipPercent: coerceOptionalNumber(existingOrderRecord?.tipPercent),
+        });
+      } catch (paymentsError) {
+        console.warn('No se pudieron registrar los pagos del pedido:', paymentsError);
+      }
+      // El corte del turno debe cuadrar con los pagos recapturados.
+      try {
+        await reemplazarVentasDePedido({
+          orderId,
+          ventas: tendersToPersist.flatMap((tender) => {
+            const metodoPago = toCashSaleMethod(tender.method);
+            return metodoPago && tender.amount > 0
+              ? [
+                  {
+                    total: tender.amount,
+                    metodoPago,
+                    montoRecibido: tender.cashTendered ?? undefined,
+                  },
+                ]
+              : [];
+          }),
+        });
+      } catch (cashError) {
+        console.warn('No se pudieron actualizar las ventas del turno de caja:', cashError);
+      }
     }
 
     await revertLoyaltyCoffee(orderId);
 
+    // La metadata se audita por sus campos de cobro, no completa.
+    const auditedUpdate = { ...orderUpdatePayload };
+    delete auditedUpdate.metadata;
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'order.queue',
+      before: existingOrderRecord,
+      after: auditedUpdate,
+      details: {
+        orderId,
+        branchId,
+        tasksCreated: inserted?.length ?? tasksToCreate.length,
+        tenders: isTenderPayment ? tendersForQueue.length : 0,
+      },
+    });
+
     return NextResponse.json({
       success: true,
       data: { created: inserted?.length ?? tasksToCreate.length },
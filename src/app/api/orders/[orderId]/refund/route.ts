@@ -0,0 +1,75 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
+import { parseReversalLines, reverseOrder } from '../../reversal-utils';
+
+export async function POST(request: Request, context: { params: { orderId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/orders/[orderId]/refund');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const orderId = context.params?.orderId?.trim();
+
+  if (!orderId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del pedido' }, { status: 400 });
+  }
+
+  try {
+    const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+    const reason = typeof body.reason === 'string' ? body.reason : '';
+    const lines = body.lines === undefined || body.lines === null ? null : parseReversalLines(body.lines);
+    if (body.lines !== undefined && body.lines !== null && !lines) {
+      return NextResponse.json(
+        { success: false, error: 'Las líneas a reembolsar no son válidas' },
+        { status: 400 }
+      );
+    }
+
+    const result = await reverseOrder({
+      orderId,
+      type: 'refund',
+      reason,
+      lines,
+      staff: auth.session,
+      branchScope: resolveBranchScope(request, auth.session),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error reembolsando pedido:', error);
+    return NextResponse.json({ success: false, error: 'No pudimos reembolsar el pedido' }, { status: 500 });
+  }
+}
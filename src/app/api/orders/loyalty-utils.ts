@@ -28,12 +28,11 @@
 
 import { supabaseAdmin } from '@/lib/supabase-server';
 import {
-  LOYALTY_PRODUCTS_REQUIRED_ERROR,
-  applyPunchesForUser,
-  countEligiblePunchesFromSnapshot,
-  ensureLoyaltyProductsConfigured,
+  LOYALTY_PROGRAMS_REQUIRED_ERROR,
+  applyOrderToLoyaltyPrograms,
   loadOrderItemsSnapshot,
-  recalculateWeeklyCoffeeCount,
+  recalculateLoyaltyProgress,
+  reverseOrderLoyaltyEntries,
 } from '@/lib/loyalty-sync';
 
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
@@ -64,37 +63,39 @@ export const maybeAwardDailyCoffee = async (
     return;
   }
 
-  try {
-    ensureLoyaltyProductsConfigured();
-  } catch (error) {
-    if (error instanceof Error && error.message === LOYALTY_PRODUCTS_REQUIRED_ERROR) {
-      console.warn('Programa de lealtad deshabilitado: faltan LOYALTY_ELIGIBLE_PRODUCTS.');
-      return;
-    }
-    throw error;
-  }
-
   try {
     const items = await loadOrderItemsSnapshot(orderId, snapshotItems);
-    const punches = countEligiblePunchesFromSnapshot(items);
-    if (!punches) {
+    if (!items.length) {
       return;
     }
-
-    await applyPunchesForUser(resolvedUserId, punches);
+    const programs = await applyOrderToLoyaltyPrograms(resolvedUserId, items, { orderId });
+    if (!programs.length) {
+      console.warn('Programa de lealtad deshabilitado: no hay programas activos.');
+    }
   } catch (error) {
     console.warn('No pudimos otorgar sellos de lealtad para el pedido:', orderId, error);
   }
 };
 
-export const revertLoyaltyCoffee = async (orderId: string) => {
+/**
+ * Con `keepUnrefunded` solo se descuenta lo ganado por los artículos
+ * reembolsados; sin él se revierte todo lo que acumuló el pedido.
+ */
+export const revertLoyaltyCoffee = async (orderId: string, options: { keepUnrefunded?: boolean } = {}) => {
   try {
     const order = await fetchOrderUser(orderId);
     if (!order) {
       return;
     }
-    await recalculateWeeklyCoffeeCount(order.userId);
+    await reverseOrderLoyaltyEntries(
+      orderId,
+      options.keepUnrefunded ? await loadOrderItemsSnapshot(orderId, order.snapshot) : []
+    );
+    await recalculateLoyaltyProgress(order.userId);
   } catch (error) {
+    if (error instanceof Error && error.message === LOYALTY_PROGRAMS_REQUIRED_ERROR) {
+      return;
+    }
     console.warn('No pudimos recalcular el contador de lealtad tras revertir el pedido:', error);
   }
 };
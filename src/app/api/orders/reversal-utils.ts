@@ -0,0 +1,437 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'node:crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { registrarReembolso } from '@/app/actions/cash-register';
+import { findActiveOrderInvoice } from '@/lib/cfdi-invoices';
+import { roundCurrency } from '@/lib/order-pricing';
+import { toCashSaleMethod } from '@/lib/cash-shift';
+import { allocateRefundAcrossTenders, extractPaymentTenders } from '@/lib/payment-tenders';
+import { extractOrderPromo } from '@/lib/promo-codes';
+import { releaseOrderPromoRedemptions } from '@/lib/promotions';
+import {
+  extractOrderRefund,
+  type OrderRefundEntry,
+  type OrderRefundLine,
+  type OrderRefundSummary,
+  type OrderReversalType,
+} from '@/lib/order-refunds';
+import type { StaffSessionClaims } from '@/lib/auth/staff-session';
+import { revertLoyaltyCoffee } from './loyalty-utils';
+
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const ORDER_ITEMS_TABLE = process.env.SUPABASE_ORDER_ITEMS_TABLE ?? 'order_items';
+const PREP_QUEUE_TABLE = process.env.SUPABASE_PREP_QUEUE_TABLE ?? 'prep_queue';
+const PAYMENTS_TABLE = process.env.SUPABASE_PAYMENTS_TABLE ?? 'payments';
+
+const NON_VOIDABLE_STATUSES = new Set(['completed', 'voided', 'refunded']);
+
+export type ReversalLineInput = { lineIndex: number; quantity: number };
+
+export type ReversalInput = {
+  orderId: string;
+  type: OrderReversalType;
+  reason: string;
+  lines?: ReversalLineInput[] | null;
+  staff: StaffSessionClaims;
+  /** Sucursal que opera la caja; `null` cuando el socio ve todas. */
+  branchScope?: string | null;
+};
+
+export type ReversalResult =
+  | {
+      ok: true;
+      data: {
+        orderId: string;
+        status: string;
+        refund: OrderRefundSummary;
+        entry: OrderRefundEntry;
+        warnings: string[];
+      };
+    }
+  | { ok: false; status: number; error: string };
+
+type OrderRow = {
+  id: string;
+  status?: string | null;
+  userId?: string | null;
+  items?: unknown;
+  total?: number | string | null;
+  totals?: unknown;
+  metadata?: unknown;
+  currency?: string | null;
+  queuedPaymentMethod?: string | null;
+  branchId?: string | null;
+  updatedAt?: string | null;
+};
+
+type SnapshotLine = Record<string, unknown>;
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toRecord = (value: unknown): Record<string, unknown> => {
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return {};
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? { ...(value as Record<string, unknown>) }
+    : {};
+};
+
+/**
+ * El snapshot `orders.items` puede ser un arreglo o `{ list, shipping }`; lo
+ * separamos para poder reescribirlo con la misma forma.
+ */
+const splitSnapshot = (raw: unknown) => {
+  let value = raw;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = [];
+    }
+  }
+  if (Array.isArray(value)) {
+    return {
+      lines: value.map((line) => ({ ...(line as SnapshotLine) })),
+      wrap: (lines: SnapshotLine[]): unknown => lines,
+    };
+  }
+  const record = toRecord(value);
+  const list = Array.isArray(record.list) ? (record.list as SnapshotLine[]) : [];
+  return {
+    lines: list.map((line) => ({ ...line })),
+    wrap: (lines: SnapshotLine[]): unknown => ({ ...record, list: lines }),
+  };
+};
+
+const remainingQuantity = (line: SnapshotLine) =>
+  Math.max(0, toNumber(line.quantity, 1) - toNumber(line.refundedQuantity, 0));
+
+const resolvePaymentMethod = (order: OrderRow, metadata: Record<string, unknown>) => {
+  const payment = toRecord(metadata.payment);
+  const method =
+    (typeof payment.method === 'string' && payment.method) || order.queuedPaymentMethod || null;
+  return method?.trim().toLowerCase() || null;
+};
+
+const cancelPrepTasks = async (orderId: string) => {
+  const { data: orderItems, error } = await supabaseAdmin
+    .from(ORDER_ITEMS_TABLE)
+    .select('id')
+    .eq('orderId', orderId);
+  if (error) {
+    throw new Error(error.message);
+  }
+  const orderItemIds = (orderItems ?? [])
+    .map((item) => item.id as string | null)
+    .filter((value): value is string => Boolean(value));
+  if (!orderItemIds.length) {
+    return;
+  }
+  const { error: updateError } = await supabaseAdmin
+    .from(PREP_QUEUE_TABLE)
+    .update({ status: 'cancelled', updatedAt: new Date().toISOString() })
+    .in('orderItemId', orderItemIds)
+    .in('status', ['pending', 'in_progress']);
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+};
+
+export const parseReversalLines = (value: unknown): ReversalLineInput[] | null => {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const lines: ReversalLineInput[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') {
+      return null;
+    }
+    const record = entry as Record<string, unknown>;
+    const lineIndex = Number(record.lineIndex);
+    const quantity = Number(record.quantity);
+    if (!Number.isInteger(lineIndex) || lineIndex < 0 || !Number.isInteger(quantity) || quantity <= 0) {
+      return null;
+    }
+    lines.push({ lineIndex, quantity });
+  }
+  return lines;
+};
+
+/**
+ * Cancela o reembolsa un pedido: reescribe el snapshot con `refundedQuantity`,
+ * registra un pago negativo, descuenta la caja del turno y recalcula los
+ * sellos de lealtad del cliente. Las ventas del POS no descuentan insumos, así
+ * que tampoco hay nada que regresar al inventario.
+ */
+export const reverseOrder = async (input: ReversalInput): Promise<ReversalResult> => {
+  const reason = input.reason.trim();
+  if (!reason) {
+    return { ok: false, status: 400, error: 'Debes indicar el motivo.' };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(ORDERS_TABLE)
+    .select('id,status,"userId",items,total,totals,metadata,currency,"queuedPaymentMethod","branchId","updatedAt"')
+    .eq('id', input.orderId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) {
+    return { ok: false, status: 404, error: 'No encontramos el pedido' };
+  }
+
+  const order = data as OrderRow;
+  if (input.branchScope && order.branchId && order.branchId !== input.branchScope) {
+    return { ok: false, status: 403, error: 'El pedido pertenece a otra sucursal.' };
+  }
+  const currentStatus = (order.status ?? '').toLowerCase();
+  if (input.type === 'void' && NON_VOIDABLE_STATUSES.has(currentStatus)) {
+    return {
+      ok: false,
+      status: 409,
+      error:
+        currentStatus === 'completed'
+          ? 'El pedido ya se cobró; utiliza un reembolso.'
+          : 'El pedido ya fue cancelado o reembolsado.',
+    };
+  }
+  if (input.type === 'refund' && currentStatus !== 'completed') {
+    return { ok: false, status: 409, error: 'Solo es posible reembolsar pedidos completados.' };
+  }
+  // Un CFDI vigente seguiría amparando el importe reembolsado; se cancela primero
+  // y, si procede, se vuelve a facturar lo que queda del pedido.
+  const invoice = await findActiveOrderInvoice(order.id);
+  if (invoice) {
+    return {
+      ok: false,
+      status: 409,
+      error: `El pedido está amparado por la factura ${invoice.series}-${invoice.folio}; cancélala antes de reembolsar.`,
+    };
+  }
+
+  const metadata = toRecord(order.metadata);
+  const previous = extractOrderRefund(metadata);
+  const orderTotal = toNumber(order.total, 0);
+  const remainingTotal = roundCurrency(Math.max(0, orderTotal - (previous?.amount ?? 0)));
+  const { lines: snapshotLines, wrap } = splitSnapshot(order.items);
+
+  const requested =
+    input.type === 'refund' && input.lines?.length
+      ? input.lines
+      : snapshotLines.map((line, lineIndex) => ({ lineIndex, quantity: remainingQuantity(line) }));
+
+  const refundLines: OrderRefundLine[] = [];
+  for (const request of requested) {
+    if (!request.quantity) {
+      continue;
+    }
+    const line = snapshotLines[request.lineIndex];
+    if (!line) {
+      return { ok: false, status: 400, error: `La línea ${request.lineIndex + 1} no existe.` };
+    }
+    if (request.quantity > remainingQuantity(line)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `La línea ${request.lineIndex + 1} solo tiene ${remainingQuantity(line)} piezas por reembolsar.`,
+      };
+    }
+    line.refundedQuantity = toNumber(line.refundedQuantity, 0) + request.quantity;
+    refundLines.push({
+      lineIndex: request.lineIndex,
+      productId: typeof line.productId === 'string' ? line.productId : null,
+      name: typeof line.name === 'string' ? line.name : null,
+      quantity: request.quantity,
+      amount: roundCurrency(
+        (toNumber(line.price, 0) -
+          toNumber(line.discount, 0) / Math.max(toNumber(line.quantity, 1), 1)) *
+          request.quantity
+      ),
+    });
+  }
+
+  const fullyReversed = snapshotLines.every((line) => remainingQuantity(line) === 0);
+  if (input.type === 'refund' && !refundLines.length) {
+    return { ok: false, status: 400, error: 'No hay artículos pendientes por reembolsar.' };
+  }
+  if (input.type === 'refund' && remainingTotal <= 0) {
+    return { ok: false, status: 409, error: 'El pedido ya fue reembolsado por completo.' };
+  }
+
+  // Las líneas parciales incluyen su parte proporcional de IVA; al liquidar el
+  // pedido completo devolvemos el saldo restante (propinas incluidas).
+  const totals = toRecord(order.totals);
+  const subtotal = toNumber(totals.subtotal, 0);
+  const taxableSubtotal = subtotal - toNumber(totals.discount, 0);
+  const taxShare = taxableSubtotal > 0 ? toNumber(totals.tax, 0) / taxableSubtotal : 0;
+  const linesAmount = refundLines.reduce((acc, line) => acc + line.amount, 0);
+  const amount = fullyReversed
+    ? remainingTotal
+    : roundCurrency(Math.min(remainingTotal, linesAmount * (1 + taxShare)));
+
+  const now = new Date().toISOString();
+  const paymentMethod = resolvePaymentMethod(order, metadata);
+  const entry: OrderRefundEntry = {
+    id: randomUUID(),
+    type: input.type,
+    amount,
+    reason,
+    lines: refundLines,
+    approvedByStaffId: input.staff.staffId,
+    approvedByName: input.staff.name ?? input.staff.email,
+    paymentMethod,
+    createdAt: now,
+  };
+  const nextStatus = input.type === 'void' ? 'voided' : fullyReversed ? 'refunded' : currentStatus;
+  const refund: OrderRefundSummary = {
+    status: input.type === 'void' ? 'voided' : fullyReversed ? 'refunded' : 'partially_refunded',
+    amount: roundCurrency((previous?.amount ?? 0) + amount),
+    entries: [...(previous?.entries ?? []), entry],
+    updatedAt: now,
+  };
+
+  // Se reclama el pedido tal como se leyó: si otra cancelación o reembolso lo
+  // modificó mientras tanto, esta no revierte caja, lealtad ni inventario.
+  const claim = supabaseAdmin
+    .from(ORDERS_TABLE)
+    .update({
+      status: nextStatus,
+      items: wrap(snapshotLines),
+      metadata: { ...metadata, refund },
+      updatedAt: now,
+    })
+    .eq('id', order.id);
+  if (order.status) {
+    claim.eq('status', order.status);
+  } else {
+    claim.is('status', null);
+  }
+  if (order.updatedAt) {
+    claim.eq('updatedAt', order.updatedAt);
+  } else {
+    claim.is('updatedAt', null);
+  }
+  const { data: claimed, error: updateError } = await claim.select('id');
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+  if (!claimed?.length) {
+    return {
+      ok: false,
+      status: 409,
+      error: 'El pedido cambió mientras se procesaba; recárgalo e intenta de nuevo.',
+    };
+  }
+
+  const warnings: string[] = [];
+
+  if (input.type === 'void') {
+    try {
+      await cancelPrepTasks(order.id);
+    } catch (prepError) {
+      console.warn('No pudimos cancelar las tareas de preparación del pedido:', prepError);
+      warnings.push('No pudimos cancelar las tareas de preparación.');
+    }
+  }
+
+  // En cobros divididos el reembolso se reparte entre los pagos originales.
+  const tenders = extractPaymentTenders(metadata);
+  const allocations = tenders.length
+    ? allocateRefundAcrossTenders(amount, tenders)
+    : paymentMethod && amount > 0
+      ? [{ method: paymentMethod, amount }]
+      : [];
+
+  if (allocations.length) {
+    const { error: paymentError } = await supabaseAdmin.from(PAYMENTS_TABLE).insert(
+      allocations.map((allocation) => ({
+        id: randomUUID(),
+        orderId: order.id,
+        method: allocation.method,
+        amount: -allocation.amount,
+        currency: order.currency ?? 'MXN',
+        status: 'refunded',
+        createdAt: now,
+        updatedAt: now,
+      }))
+    );
+    if (paymentError) {
+      console.warn('No pudimos registrar el pago negativo del reembolso:', paymentError);
+      warnings.push('No pudimos registrar el pago negativo.');
+    }
+  }
+
+  for (const allocation of allocations) {
+    const cashMethod = toCashSaleMethod(allocation.method);
+    if (!cashMethod) {
+      continue;
+    }
+    try {
+      const venta = await registrarReembolso({
+        orderId: order.id,
+        monto: allocation.amount,
+        metodoPago: cashMethod,
+        branchId: order.branchId ?? undefined,
+      });
+      if (!venta) {
+        warnings.push('No hay turno de caja abierto; el reembolso no se descontó del corte.');
+        break;
+      }
+    } catch (cashError) {
+      console.warn('No pudimos descontar el reembolso del turno de caja:', cashError);
+      warnings.push('No pudimos descontar el reembolso del turno de caja.');
+    }
+  }
+
+  if (order.userId) {
+    await revertLoyaltyCoffee(order.id, { keepUnrefunded: refund.status === 'partially_refunded' });
+  }
+
+  if (refund.status !== 'partially_refunded' && extractOrderPromo(metadata)) {
+    try {
+      await releaseOrderPromoRedemptions(order.id);
+    } catch (promoError) {
+      console.warn('No pudimos liberar el código promocional del pedido:', promoError);
+      warnings.push('No pudimos liberar el código promocional.');
+    }
+  }
+
+  return { ok: true, data: { orderId: order.id, status: nextStatus, refund, entry, warnings } };
+};
@@ -42,7 +42,37 @@ import {
 import { withDecryptedUserNames } from '@/lib/customer-decrypt';
 import { decryptAddressRow, type DecryptedAddressPayload } from '@/lib/address-decrypt';
 import { sqlite } from '@/lib/sqlite';
-import type { OrderShippingInfo } from '@/lib/api';
+import type { CatalogProduct, OrderShippingInfo, PosSettings } from '@/lib/api';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope, resolveWriteBranch } from '@/lib/auth/branch-scope';
+import {
+  computeOrderPricing,
+  findCatalogProduct,
+  roundCurrency,
+  type OrderTotalsSnapshot,
+} from '@/lib/order-pricing';
+import { obtenerTurnoActivo, reemplazarVentasDePedido, registrarVenta } from '@/app/actions/cash-register';
+import { toCashSaleMethod, type CashSaleMethod } from '@/lib/cash-shift';
+import {
+  parsePaymentTenders,
+  resolvePaymentTendersMethod,
+  sumPaymentTenders,
+  validatePaymentTenders,
+} from '@/lib/payment-tenders';
+import {
+  computePromoDiscount,
+  resolveLineDiscounts,
+  type OrderPromoDiscount,
+} from '@/lib/promo-codes';
+import { checkPromoCode, recordPromoRedemption } from '@/lib/promotions';
+import { applyDuePriceChanges } from '@/lib/catalog-admin';
+import {
+  extractItemModifiers,
+  extractModifierGroups,
+  resolveModifierSelections,
+  type OrderItemModifier,
+} from '@/lib/product-modifiers';
+import { replaceOrderTenderPayments } from './tender-utils';
 
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
 const TICKETS_TABLE = process.env.SUPABASE_TICKETS_TABLE ?? 'tickets';
@@ -52,6 +82,10 @@ const PRODUCTS_TABLE = process.env.SUPABASE_PRODUCTS_TABLE ?? 'products';
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 const VENTAS_TABLE = process.env.SUPABASE_VENTAS_TABLE ?? 'ventas';
 const ADDRESSES_TABLE = process.env.SUPABASE_ADDRESSES_TABLE ?? 'addresses';
+const POS_SETTINGS_TABLE = process.env.SUPABASE_POS_SETTINGS_TABLE ?? 'pos_settings';
+const ORDER_TOTALS_TOLERANCE = Math.max(0, Number(process.env.ORDER_TOTALS_TOLERANCE ?? 1) || 0);
+const PRICE_MISMATCH_POLICY =
+  process.env.ORDER_PRICE_MISMATCH_POLICY?.trim().toLowerCase() === 'flag' ? 'flag' : 'reject';
 const ORDER_CLIENT_ID_COLUMN =
   process.env.SUPABASE_ORDERS_CLIENT_ID_COLUMN?.trim() || null;
 
@@ -734,6 +768,7 @@ const mapOrderItems = (rawItems: unknown, productMap?: Map<string, ProductRecord
       packageId,
       packageName,
       variantId: toTrimmedString(item?.variantId) ?? null,
+      refundedQuantity: normalizeNumber(item?.refundedQuantity) ?? 0,
       metadata,
     };
   });
@@ -760,6 +795,7 @@ type IncomingOrderItem = {
   packageId: string | null;
   packageName: string | null;
   variantId: string | null;
+  modifiers: OrderItemModifier[];
   metadata: Record<string, unknown> | null;
 };
 
@@ -822,6 +858,7 @@ const normalizeOrderItems = (rawItems: unknown): IncomingOrderItem[] => {
         packageId,
         packageName,
         variantId,
+        modifiers: extractItemModifiers(item?.modifiers ?? metadata?.modifiers),
         metadata,
       };
     })
@@ -1726,7 +1763,7 @@ const supabaseOrdersLoader: OrdersDataLoader = {
   },
 };
 
-const loadOrdersFromSupabase = async (status: string | null) => {
+const loadOrdersFromSupabase = async (status: string | null, branchId: string | null) => {
   const orderSelectFields = [
     'id',
     '"userId"',
@@ -1789,6 +1826,9 @@ const loadOrdersFromSupabase = async (status: string | null) => {
   if (status) {
     query = query.eq('status', status);
   }
+  if (branchId) {
+    query = query.eq('branchId', branchId);
+  }
 
   const { data, error } = await query;
 
@@ -1904,6 +1944,144 @@ const loadOrdersFromSqlite = async (status: string | null) => {
   return mapOrdersPayload(normalizedRows, sqliteOrdersLoader);
 };
 
+/**
+ * Catálogo para cotizar el pedido. Sin red se lee la réplica SQLite, que solo
+ * guarda el precio base: `offline` avisa que ahí no hay tamaños ni modificadores.
+ */
+const loadPricingCatalog = async (items: IncomingOrderItem[]) => {
+  const productIds = Array.from(new Set(items.map((item) => item.productId))).filter(Boolean);
+  const catalog = new Map<string, CatalogProduct>();
+  if (!productIds.length) {
+    return { catalog, offline: false };
+  }
+  // Un cambio de precio vencido se aplica antes de cotizar, aunque nadie haya
+  // recargado el catálogo desde entonces.
+  await applyDuePriceChanges().catch((error) => {
+    console.warn('No pudimos aplicar los cambios de precio programados:', error);
+  });
+  const register = (product: CatalogProduct) => {
+    [product.id, product.productId].forEach((key) => {
+      if (typeof key === 'string' && key.trim()) {
+        catalog.set(key.trim().toLowerCase(), product);
+      }
+    });
+  };
+
+  try {
+    const [byIdResult, byProductIdResult] = await Promise.all([
+      supabaseAdmin.from(PRODUCTS_TABLE).select('*').in('id', productIds),
+      supabaseAdmin.from(PRODUCTS_TABLE).select('*').in('productId', productIds),
+    ]);
+    if (byIdResult.error || byProductIdResult.error) {
+      throw new Error(byIdResult.error?.message ?? byProductIdResult.error?.message);
+    }
+    [...(byIdResult.data ?? []), ...(byProductIdResult.data ?? [])].forEach((product) =>
+      register(product as CatalogProduct)
+    );
+    return { catalog, offline: false };
+  } catch (error) {
+    if (!isLikelyNetworkError(error)) {
+      throw error;
+    }
+  }
+
+  const { placeholders, bindings } = buildSqliteInClause(productIds, 'price');
+  const rows = await sqlite.all<CatalogProduct>(
+    `SELECT id, productId, name, price, cost, totalSales, totalRevenue
+     FROM products
+     WHERE id IN (${placeholders.join(',')}) OR productId IN (${placeholders.join(',')})`,
+    bindings
+  );
+  rows.forEach(register);
+  return { catalog, offline: true };
+};
+
+// Líneas cuyo precio depende de un tamaño o de extras que la réplica no conoce.
+const requiresOnlinePricing = (item: IncomingOrderItem) =>
+  Boolean(item.sizeId || item.sizeLabel || item.variantId?.includes('::') || item.modifiers.length);
+
+const loadPricingSettings = async (): Promise<PosSettings | null> => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(POS_SETTINGS_TABLE)
+      .select('tax,charge_tax')
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data as PosSettings | null) ?? null;
+  } catch (error) {
+    console.warn('No pudimos cargar la configuración de impuestos, se asume IVA incluido:', error);
+    return null;
+  }
+};
+
+const exceedsTolerance = (client: number | null, server: number) =>
+  client !== null && Math.abs(roundCurrency(client - server)) > ORDER_TOTALS_TOLERANCE;
+
+/**
+ * Registra la venta en el turno de caja abierto, una venta por cada pago del
+ * pedido. Si el pedido ya se había sumado a un turno (reintento o edición), sus
+ * ventas se reemplazan en lugar de duplicarse. Un pedido sin turno activo no se
+ * bloquea; solo se reporta para que el cajero abra caja.
+ */
+const postSaleToActiveShift = async ({
+  orderId,
+  tenders,
+  staffId,
+  branchId,
+}: {
+  orderId: string;
+  tenders: Array<{ method: string | null; amount: number; cashTendered: number | null }>;
+  staffId: string;
+  branchId: string;
+}) => {
+  const sales = tenders
+    .map((tender) => ({ ...tender, metodoPago: toCashSaleMethod(tender.method) }))
+    .filter(
+      (tender): tender is typeof tender & { metodoPago: CashSaleMethod } =>
+        Boolean(tender.metodoPago) && tender.amount > 0
+    );
+  if (!sales.length) {
+    return { turnoId: null, warning: null };
+  }
+  try {
+    const turnoPrevio = await reemplazarVentasDePedido({
+      orderId,
+      ventas: sales.map((sale) => ({
+        total: sale.amount,
+        metodoPago: sale.metodoPago,
+        montoRecibido: sale.metodoPago === 'efectivo' ? sale.cashTendered ?? undefined : undefined,
+      })),
+    });
+    if (turnoPrevio !== null) {
+      return { turnoId: turnoPrevio, warning: null };
+    }
+    const turno = await obtenerTurnoActivo(staffId, { branchId });
+    if (!turno) {
+      return { turnoId: null, warning: 'No hay turno de caja abierto; la venta no se sumó al corte.' };
+    }
+    for (const sale of sales) {
+      await registrarVenta({
+        turnoId: turno.id,
+        total: sale.amount,
+        metodoPago: sale.metodoPago,
+        montoRecibido:
+          sale.metodoPago === 'efectivo'
+            ? Math.max(sale.cashTendered ?? sale.amount, sale.amount)
+            : undefined,
+        orderId,
+        actualizarPedido: tenders.length === 1,
+      });
+    }
+    return { turnoId: turno.id, warning: null };
+  } catch (error) {
+    console.warn('No pudimos registrar la venta en el turno de caja:', error);
+    return { turnoId: null, warning: 'No pudimos registrar la venta en el turno de caja.' };
+  }
+};
+
 const ensureProducts = async (items: IncomingOrderItem[]) => {
   const productIds = Array.from(new Set(items.map((item) => item.productId))).filter(Boolean);
   if (!productIds.length) {
@@ -1961,13 +2139,18 @@ const ensureProducts = async (items: IncomingOrderItem[]) => {
 };
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/orders');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     // Forzar uso de Supabase - eliminar fallback a SQLite
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
 
     // Usar directamente Supabase sin fallback
-    const remoteData = await loadOrdersFromSupabase(status);
+    const remoteData = await loadOrdersFromSupabase(status, resolveBranchScope(request, auth.session));
     markSupabaseHealthy();
     return NextResponse.json({ success: true, data: remoteData });
   } catch (error) {
@@ -1984,6 +2167,11 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/orders');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     await db.syncPending();
 
@@ -2003,15 +2191,19 @@ export async function POST(request: Request) {
 
     const status = typeof payload.status === 'string' ? payload.status : 'pending';
     const currency = typeof payload.currency === 'string' ? payload.currency : 'MXN';
+    const requestedTenders = parsePaymentTenders(
+      Array.isArray(payload.payments) ? payload.payments : payload?.metadata?.payment?.tenders
+    );
     const paymentMethod =
-      typeof payload.paymentMethod === 'string'
+      resolvePaymentTendersMethod(requestedTenders) ??
+      (typeof payload.paymentMethod === 'string'
         ? payload.paymentMethod
-        : payload?.ticket?.paymentMethod ?? null;
+        : payload?.ticket?.paymentMethod ?? null);
 
-    const subtotal = normalizeNumber(payload?.totals?.subtotal);
-    const tax = normalizeNumber(payload?.totals?.tax);
-    const total = normalizeNumber(payload?.totals?.total) ?? subtotal ?? 0;
-    const tipAmount =
+    const clientSubtotal = normalizeNumber(payload?.totals?.subtotal);
+    const clientTax = normalizeNumber(payload?.totals?.tax);
+    const clientTotal = normalizeNumber(payload?.totals?.total);
+    const clientTipAmount =
       normalizeNumber(payload?.totals?.tip) ??
       normalizeNumber(payload?.tip?.amount) ??
       null;
@@ -2036,16 +2228,205 @@ export async function POST(request: Request) {
       (normalizedClientId && normalizedPublicClient && normalizedClientId === normalizedPublicClient) ||
       (payloadUserId && normalizedPublicUserId && payloadUserId.toLowerCase() === normalizedPublicUserId);
 
-    const items = normalizeOrderItems(payload?.items);
+    const requestedItems = normalizeOrderItems(payload?.items);
 
-    if (!items.length) {
+    if (!requestedItems.length) {
       return NextResponse.json(
         { success: false, error: 'At least one order item is required' },
         { status: 400 }
       );
     }
 
-    const orderItemsSnapshot = items.map((item) => ({
+    const incomingShipping = normalizeShippingPayload(payload.shipping);
+    const [{ catalog: pricingCatalog, offline: pricingOffline }, pricingSettings] = await Promise.all([
+      loadPricingCatalog(requestedItems),
+      loadPricingSettings(),
+    ]);
+    if (pricingOffline) {
+      const unpriceable = requestedItems.filter(requiresOnlinePricing);
+      if (unpriceable.length) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Sin conexión no podemos cotizar tamaños ni extras de: ${unpriceable
+              .map((item) => item.name ?? item.productId)
+              .join(', ')}. Intenta de nuevo cuando vuelva la red.`,
+          },
+          { status: 503 }
+        );
+      }
+    }
+
+    // Los modificadores se vuelven a leer del catálogo para fijar precio e
+    // insumos; nunca se conserva el precio ni el insumo que mande el cliente.
+    const pricedItems: IncomingOrderItem[] = [];
+    for (const item of requestedItems) {
+      const groups = extractModifierGroups(findCatalogProduct(pricingCatalog, item.productId));
+      if (!groups.length) {
+        if (item.modifiers.length) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: `${item.name ?? item.productId}: el producto no tiene modificadores en el catálogo.`,
+            },
+            { status: 400 }
+          );
+        }
+        pricedItems.push(item);
+        continue;
+      }
+      const resolution = resolveModifierSelections(
+        groups,
+        item.modifiers.map(({ groupId, optionId }) => ({ groupId, optionId }))
+      );
+      if (resolution.error) {
+        return NextResponse.json(
+          { success: false, error: `${item.name ?? item.productId}: ${resolution.error}` },
+          { status: 400 }
+        );
+      }
+      pricedItems.push({ ...item, modifiers: resolution.modifiers });
+    }
+
+    const pricingInput = {
+      lines: pricedItems,
+      catalog: pricingCatalog,
+      settings: pricingSettings,
+      tipPercent,
+      tipAmount: clientTipAmount,
+      deliveryTipPercent: incomingShipping?.deliveryTip?.percent ?? null,
+      deliveryTipAmount: incomingShipping?.deliveryTip?.amount ?? null,
+    };
+    const basePricing = computeOrderPricing(pricingInput);
+    if (basePricing.unverifiedProductIds.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No encontramos precio en el catálogo para: ${basePricing.unverifiedProductIds.join(', ')}. Actualiza el menú e inténtalo de nuevo.`,
+          data: { productIds: basePricing.unverifiedProductIds },
+        },
+        { status: 400 }
+      );
+    }
+
+    // El código se valida con las mismas reglas que `promotions/redeem` y el
+    // descuento se calcula sobre los precios del catálogo, no los del cliente.
+    // El límite por cliente aplica también en mostrador cuando se asocia un
+    // cliente; solo la cuenta genérica de venta al público queda fuera.
+    const promoCode = toTrimmedString(payload.promoCode)?.toUpperCase() ?? null;
+    const promoUserId =
+      userId && userId.toLowerCase() !== normalizedPublicUserId ? userId : null;
+    let promoDiscount: OrderPromoDiscount | null = null;
+    if (promoCode) {
+      const promoCheck = await checkPromoCode({
+        code: promoCode,
+        userId: promoUserId,
+        target: 'product',
+      });
+      if (!promoCheck.ok) {
+        return NextResponse.json({ success: false, error: promoCheck.error }, { status: 400 });
+      }
+      promoDiscount = computePromoDiscount(
+        promoCheck.promo,
+        pricedItems.map((item, index) => ({
+          productId: item.productId,
+          category: findCatalogProduct(pricingCatalog, item.productId)?.category ?? null,
+          unitPrice: basePricing.lines[index]?.unitPrice ?? 0,
+          quantity: item.quantity,
+        }))
+      );
+      if (!promoDiscount) {
+        return NextResponse.json(
+          { success: false, error: 'El código no aplica a los productos del pedido.' },
+          { status: 400 }
+        );
+      }
+    }
+    const pricing = promoDiscount
+      ? computeOrderPricing({ ...pricingInput, discount: promoDiscount.amount })
+      : basePricing;
+    const clientTotals = {
+      subtotal: clientSubtotal,
+      tax: clientTax,
+      tip: clientTipAmount,
+      total: clientTotal,
+    };
+    const serverTotals: OrderTotalsSnapshot = {
+      subtotal: pricing.subtotal,
+      discount: pricing.discount,
+      tax: pricing.tax,
+      tip: pricing.tip,
+      deliveryTip: pricing.deliveryTip,
+      total: pricing.total,
+    };
+    const mismatchedFields = (['subtotal', 'tax', 'tip', 'total'] as const).filter((field) =>
+      exceedsTolerance(clientTotals[field], serverTotals[field])
+    );
+    const mismatchedItems = pricing.lines
+      .filter((line) => line.verified && exceedsTolerance(line.clientPrice, line.unitPrice))
+      .map((line) => ({
+        productId: line.productId,
+        clientPrice: line.clientPrice,
+        catalogPrice: line.unitPrice,
+      }));
+
+    if (mismatchedFields.length && PRICE_MISMATCH_POLICY === 'reject') {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            'Los importes del pedido no coinciden con el catálogo vigente. Actualiza el menú e inténtalo de nuevo.',
+          data: {
+            client: clientTotals,
+            server: serverTotals,
+            fields: mismatchedFields,
+            items: mismatchedItems,
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    const items = pricedItems.map((item, index) => ({
+      ...item,
+      price: pricing.lines[index]?.unitPrice ?? 0,
+    }));
+    const subtotal = serverTotals.subtotal;
+    const tax = serverTotals.tax;
+    const total = serverTotals.total;
+    const tipAmount = serverTotals.tip;
+
+    // Un pago único siempre cubre el total recalculado por el servidor.
+    const paymentTenders =
+      requestedTenders.length === 1
+        ? parsePaymentTenders([{ ...requestedTenders[0], amount: total }])
+        : requestedTenders;
+    if (paymentTenders.length) {
+      const tenderError = validatePaymentTenders(paymentTenders, total);
+      if (tenderError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: tenderError,
+            data: { total, paid: sumPaymentTenders(paymentTenders) },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const lineDiscounts = promoDiscount
+      ? resolveLineDiscounts(
+          promoDiscount,
+          items.map((item) => ({
+            productId: item.productId,
+            category: item.category,
+            unitPrice: item.price,
+            quantity: item.quantity,
+          }))
+        )
+      : [];
+    const orderItemsSnapshot = items.map((item, index) => ({
       productId: item.productId,
       name: item.name,
       category: item.category,
@@ -2058,7 +2439,10 @@ export async function POST(request: Request) {
       packageId: item.packageId,
       packageName: item.packageName,
       metadata: item.metadata ?? null,
+      ...(item.modifiers.length ? { modifiers: item.modifiers } : {}),
+      ...(lineDiscounts[index] ? { discount: lineDiscounts[index] } : {}),
     }));
+    const branchId = resolveWriteBranch(request, auth.session);
     const orderRecord: Record<string, unknown> = {
       id: orderId,
       status,
@@ -2067,6 +2451,7 @@ export async function POST(request: Request) {
       items: orderItemsSnapshot,
       queuedPaymentMethod: paymentMethod ?? null,
       orderNumber: ticketCode,
+      branchId,
     };
 
     if (userId) {
@@ -2076,19 +2461,10 @@ export async function POST(request: Request) {
       orderRecord[ORDER_CLIENT_ID_COLUMN] = clientId;
     }
 
-    const totalsPayload: Record<string, number | null> = {};
-    if (subtotal !== null) totalsPayload.subtotal = subtotal;
-    if (tax !== null) totalsPayload.tax = tax;
-    if (tipAmount !== null) totalsPayload.tip = tipAmount;
-    if (total !== null) totalsPayload.total = total;
-
-    if (Object.keys(totalsPayload).length) {
-      orderRecord.totals = totalsPayload;
-    }
-
-    if (tipAmount !== null) {
-      orderRecord.tipAmount = tipAmount;
-    }
+    orderRecord.totals = promoDiscount
+      ? { subtotal, discount: serverTotals.discount, tax, tip: tipAmount, total }
+      : { subtotal, tax, tip: tipAmount, total };
+    orderRecord.tipAmount = tipAmount;
     if (tipPercent !== null) {
       orderRecord.tipPercent = tipPercent;
     }
@@ -2099,10 +2475,9 @@ export async function POST(request: Request) {
         payload.instructions ??
         (typeof payload.metadata === 'string' ? payload.metadata : null)
     );
-    let metadataPayload =
-      payload.metadata && typeof payload.metadata === 'object'
-        ? { ...(payload.metadata as Record<string, unknown>) }
-        : null;
+    // `metadata` puede llegar como objeto, como JSON serializado o como texto libre.
+    const metadataObject = coerceMetadataObject(payload.metadata);
+    let metadataPayload = metadataObject ? { ...metadataObject } : null;
     let shippingSnapshot: Record<string, unknown> | null = null;
 
     const paymentMetadata =
@@ -2148,7 +2523,26 @@ export async function POST(request: Request) {
       }
     }
 
-    const incomingShipping = normalizeShippingPayload(payload.shipping);
+    if (paymentTenders.length) {
+      if (!metadataPayload) {
+        metadataPayload = {};
+      }
+      const cashTenders = paymentTenders.filter((tender) => tender.method === 'efectivo');
+      metadataPayload.payment = {
+        ...(metadataPayload.payment && typeof metadataPayload.payment === 'object'
+          ? (metadataPayload.payment as Record<string, unknown>)
+          : {}),
+        method: paymentMethod,
+        tenders: paymentTenders,
+        cashTendered: cashTenders.length
+          ? cashTenders.reduce((acc, tender) => acc + (tender.cashTendered ?? tender.amount), 0)
+          : null,
+        cashChange: cashTenders.length
+          ? cashTenders.reduce((acc, tender) => acc + (tender.cashChange ?? 0), 0)
+          : null,
+      };
+    }
+
     if (incomingShipping) {
       shippingSnapshot = {};
       if (incomingShipping.address) {
@@ -2166,22 +2560,23 @@ export async function POST(request: Request) {
         shippingSnapshot.isWhatsapp = incomingShipping.isWhatsapp;
         orderRecord.shipping_contact_is_whatsapp = incomingShipping.isWhatsapp;
       }
-      if (incomingShipping.deliveryTip) {
-        shippingSnapshot.deliveryTip = incomingShipping.deliveryTip;
+      const deliveryTip = incomingShipping.deliveryTip
+        ? { ...incomingShipping.deliveryTip, amount: serverTotals.deliveryTip }
+        : null;
+      if (deliveryTip) {
+        shippingSnapshot.deliveryTip = deliveryTip;
       }
       if (!metadataPayload) {
         metadataPayload = {};
       }
       metadataPayload.shipping = shippingSnapshot;
-      if (incomingShipping.deliveryTip) {
-        metadataPayload.deliveryTip = incomingShipping.deliveryTip;
-        metadataPayload.deliveryTipAmount = incomingShipping.deliveryTip.amount;
-        metadataPayload.deliveryTipPercent = incomingShipping.deliveryTip.percent;
+      if (deliveryTip) {
+        metadataPayload.deliveryTip = deliveryTip;
+        metadataPayload.deliveryTipAmount = deliveryTip.amount;
+        metadataPayload.deliveryTipPercent = deliveryTip.percent;
       }
-      const normalizedDeliveryTipAmount =
-        normalizeNumber(incomingShipping.deliveryTip?.amount) ?? null;
-      const normalizedDeliveryTipPercent =
-        normalizeNumber(incomingShipping.deliveryTip?.percent) ?? null;
+      const normalizedDeliveryTipAmount = normalizeNumber(deliveryTip?.amount) ?? null;
+      const normalizedDeliveryTipPercent = normalizeNumber(deliveryTip?.percent) ?? null;
       if (normalizedDeliveryTipAmount !== null) {
         orderRecord.deliveryTipAmount = normalizedDeliveryTipAmount;
       }
@@ -2190,11 +2585,27 @@ export async function POST(request: Request) {
       }
     }
 
-    if (metadataPayload) {
-      orderRecord.metadata = metadataPayload;
-    } else if (typeof payload.metadata === 'string' && payload.metadata.trim()) {
-      orderRecord.metadata = payload.metadata.trim();
+    if (!metadataPayload) {
+      metadataPayload = {};
+    }
+    if (!metadataObject && typeof payload.metadata === 'string' && payload.metadata.trim()) {
+      metadataPayload.raw = payload.metadata.trim();
+    }
+    if (promoDiscount) {
+      metadataPayload.promo = promoDiscount;
     }
+    metadataPayload.pricing = {
+      client: clientTotals,
+      server: serverTotals,
+      taxRate: pricing.taxRate,
+      chargeTax: pricing.chargeTax,
+      tolerance: ORDER_TOTALS_TOLERANCE,
+      flagged: mismatchedFields.length > 0,
+      mismatchedFields,
+      mismatchedItems,
+      checkedAt: new Date().toISOString(),
+    };
+    orderRecord.metadata = metadataPayload;
 
     if (shippingSnapshot) {
       orderRecord.items = {
@@ -2212,6 +2623,7 @@ export async function POST(request: Request) {
       productId: item.productId,
       quantity: item.quantity,
       price: item.price,
+      ...(item.modifiers.length ? { modifiers: item.modifiers } : {}),
     }));
 
     const ticketRecord =
@@ -2220,6 +2632,7 @@ export async function POST(request: Request) {
             orderId,
             ticketCode,
             paymentMethod,
+            branchId,
           }
         : null;
 
@@ -2254,6 +2667,54 @@ export async function POST(request: Request) {
         }
       }
 
+      if (paymentTenders.length && !orderResult.fallbackUsed) {
+        try {
+          await replaceOrderTenderPayments({
+            orderId,
+            tenders: paymentTenders,
+            currency,
+            tipAmount,
+            tipPercent,
+          });
+        } catch (paymentsError) {
+          console.warn('No pudimos registrar los pagos del pedido:', paymentsError);
+        }
+      }
+
+      if (promoDiscount && !orderResult.fallbackUsed) {
+        try {
+          await recordPromoRedemption({
+            promoCodeId: promoDiscount.promoCodeId,
+            userId: promoUserId,
+            orderId,
+            context: {
+              source: 'pos',
+              staffId: auth.session.staffId,
+              discount: promoDiscount.amount,
+            },
+          });
+        } catch (promoError) {
+          console.warn('No pudimos registrar el canje del código promocional:', promoError);
+        }
+      }
+
+      const cashShift = orderResult.fallbackUsed
+        ? { turnoId: null, warning: null }
+        : await postSaleToActiveShift({
+            orderId,
+            tenders: paymentTenders.length
+              ? paymentTenders
+              : [
+                  {
+                    method: paymentMethod,
+                    amount: total,
+                    cashTendered: normalizeNumber(paymentMetadata?.cashTendered),
+                  },
+                ],
+            staffId: auth.session.staffId,
+            branchId,
+          });
+
       return NextResponse.json({
         success: true,
         data: {
@@ -2262,6 +2723,8 @@ export async function POST(request: Request) {
           items: orderItemsPayload.length,
           pendingSync: orderResult.fallbackUsed,
           source: orderResult.source,
+          cashShiftId: cashShift.turnoId,
+          cashShiftWarning: cashShift.warning,
         },
       });
     } catch (error) {
@@ -0,0 +1,87 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { PaymentTender } from '@/lib/payment-tenders';
+
+const PAYMENTS_TABLE = process.env.SUPABASE_PAYMENTS_TABLE ?? 'payments';
+
+const buildTenderPaymentId = (orderId: string, index: number) => `${orderId}:tender:${index + 1}`;
+
+/**
+ * Guarda cada pago del pedido como una fila de `payments`. Las filas usan un id
+ * derivado del pedido para poder reemplazarlas si el cobro se vuelve a capturar
+ * sin tocar los pagos negativos de reembolsos. La propina se asigna al primer
+ * pago para no duplicarla en los reportes.
+ */
+export const replaceOrderTenderPayments = async ({
+  orderId,
+  tenders,
+  currency,
+  tipAmount,
+  tipPercent,
+}: {
+  orderId: string;
+  tenders: PaymentTender[];
+  currency?: string | null;
+  tipAmount?: number | null;
+  tipPercent?: number | null;
+}) => {
+  const { error: deleteError } = await supabaseAdmin
+    .from(PAYMENTS_TABLE)
+    .delete()
+    .eq('orderId', orderId)
+    .like('id', `${orderId}:tender:%`);
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+
+  if (!tenders.length) {
+    return 0;
+  }
+
+  const now = new Date().toISOString();
+  const rows = tenders.map((tender, index) => ({
+    id: buildTenderPaymentId(orderId, index),
+    orderId,
+    method: tender.method,
+    amount: tender.amount,
+    currency: currency ?? 'MXN',
+    status: 'completed',
+    tipAmount: index === 0 ? tipAmount ?? 0 : 0,
+    tipPercent: index === 0 ? tipPercent ?? 0 : 0,
+    externalPaymentId: tender.reference,
+    createdAt: now,
+    updatedAt: now,
+  }));
+  const { error: insertError } = await supabaseAdmin.from(PAYMENTS_TABLE).insert(rows);
+  if (insertError) {
+    throw new Error(insertError.message);
+  }
+  return rows.length;
+};
@@ -20,6 +20,7 @@
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { type RawUserRecord, withDecryptedUserNames } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const TICKETS_TABLE = process.env.SUPABASE_TICKETS_TABLE ?? 'tickets';
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
@@ -109,11 +110,16 @@ export const fetchCache = 'force-no-store';
 export const revalidate = 0;
 
 export async function GET(
-  _: Request,
+  request: Request,
   context: {
     params: { identifier?: string };
   }
 ) {
+  const auth = await requireStaffSession(request, '/api/orders/ticket/[identifier]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const identifier = context.params?.identifier
     ? decodeURIComponent(context.params.identifier)
     : '';
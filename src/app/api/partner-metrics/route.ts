@@ -28,6 +28,7 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 export const dynamic = 'force-dynamic';
 
@@ -36,6 +37,9 @@ const PAYMENTS_TABLE = process.env.SUPABASE_PAYMENTS_TABLE ?? 'payments';
 const CUSTOMER_METRICS_VIEW =
   process.env.SUPABASE_CUSTOMER_METRICS_VIEW ?? 'v_customer_last_month';
 const REPORTS_TABLE = process.env.SUPABASE_REPORTS_TABLE ?? 'report_requests';
+const SUPPLIERS_TABLE = process.env.SUPABASE_SUPPLIERS_TABLE ?? 'suppliers';
+const PURCHASE_RECEIPTS_TABLE =
+  process.env.SUPABASE_PURCHASE_RECEIPTS_TABLE ?? 'purchase_receipts';
 
 const DEFAULT_DAYS = Number(process.env.PARTNER_METRICS_DAYS ?? 30);
 const VIP_SPENT_THRESHOLD = Number(process.env.PARTNER_VIP_THRESHOLD ?? 1200);
@@ -105,7 +109,51 @@ const collectAvailableMonths = async () => {
     .map((month) => ({ month, label: buildMonthLabel(month) }));
 };
 
+/**
+ * Gasto por proveedor según la mercancía recibida en el periodo. Si las tablas
+ * de compras aún no existen, el panel sigue funcionando sin esta sección.
+ */
+const collectSupplierSpend = async (sinceIso: string, untilIso: string | null) => {
+  let receiptsQuery = supabaseAdmin
+    .from(PURCHASE_RECEIPTS_TABLE)
+    .select('"supplierId",amount')
+    .gte('receivedAt', sinceIso);
+  if (untilIso) {
+    receiptsQuery = receiptsQuery.lt('receivedAt', untilIso);
+  }
+  const [{ data: receipts, error: receiptsError }, { data: suppliers, error: suppliersError }] =
+    await Promise.all([receiptsQuery, supabaseAdmin.from(SUPPLIERS_TABLE).select('id,name')]);
+  if (receiptsError || suppliersError) {
+    console.warn(
+      'Partner metrics supplier spend query failed:',
+      receiptsError?.message ?? suppliersError?.message
+    );
+    return [];
+  }
+  const names = new Map((suppliers ?? []).map((supplier) => [supplier.id, supplier.name]));
+  const totals = new Map<string, { amount: number; receipts: number }>();
+  (receipts ?? []).forEach((receipt) => {
+    const bucket = totals.get(receipt.supplierId) ?? { amount: 0, receipts: 0 };
+    bucket.amount += toNumber(receipt.amount);
+    bucket.receipts += 1;
+    totals.set(receipt.supplierId, bucket);
+  });
+  return Array.from(totals.entries())
+    .map(([supplierId, totalsEntry]) => ({
+      supplierId,
+      name: names.get(supplierId) ?? 'Proveedor',
+      amount: Number(totalsEntry.amount.toFixed(2)),
+      receipts: totalsEntry.receipts,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/partner-metrics');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const requestedDays = Number(searchParams.get('days'));
@@ -270,6 +318,8 @@ export async function GET(request: Request) {
       tipPerformance,
     };
 
+    const supplierSpend = await collectSupplierSpend(sinceIso, untilIso);
+
     return NextResponse.json({
       success: true,
       data: {
@@ -277,6 +327,7 @@ export async function GET(request: Request) {
         loyalty,
         reports: reports ?? [],
         advanced,
+        supplierSpend,
         availableMonths,
         selectedMonth: validMonth,
       },
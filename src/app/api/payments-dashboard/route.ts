@@ -28,6 +28,8 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
 
 const PAYMENTS_TABLE = process.env.SUPABASE_PAYMENTS_TABLE ?? 'payments';
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
@@ -35,12 +37,36 @@ const REPORTS_TABLE = process.env.SUPABASE_REPORTS_TABLE ?? 'report_requests';
 
 const DEFAULT_WINDOW_HOURS = Number(process.env.PAYMENTS_WINDOW_HOURS ?? 24);
 
+const PAYMENT_COLUMNS =
+  'id,"orderId","ticketId",method,amount,currency,status,"tipAmount","tipPercent","externalPaymentId","createdAt","updatedAt"';
+
+type PaymentRow = {
+  id: string;
+  orderId: string | null;
+  ticketId: string | null;
+  method: string | null;
+  amount: number | string | null;
+  currency: string | null;
+  status: string | null;
+  tipAmount: number | string | null;
+  tipPercent: number | string | null;
+  externalPaymentId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+  scope?: unknown;
+};
+
 const toNumber = (value: unknown) => {
   const parsed = Number(value);
   return Number.isFinite(parsed) ? parsed : 0;
 };
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/payments-dashboard');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const hours = Number(searchParams.get('hours')) || DEFAULT_WINDOW_HOURS;
@@ -51,23 +77,30 @@ export async function GET(request: Request) {
     monthStart.setHours(0, 0, 0, 0);
     const monthStartIso = monthStart.toISOString();
 
+    // Los pagos no guardan sucursal; con alcance se unen a su pedido para filtrar.
+    const branchId = resolveBranchScope(request, auth.session);
+    const scopedPayments = (columns: string) =>
+      branchId
+        ? supabaseAdmin
+            .from(PAYMENTS_TABLE)
+            .select(`${columns},scope:${ORDERS_TABLE}!inner("branchId")`)
+            .eq('scope.branchId', branchId)
+        : supabaseAdmin.from(PAYMENTS_TABLE).select(columns);
+
     const [
       { data: payments, error: paymentsError },
       { data: orders, error: ordersError },
       { data: reportRequests, error: reportsError },
       { data: monthlyTipsRows, error: monthlyTipsError },
     ] = await Promise.all([
-      supabaseAdmin
-        .from(PAYMENTS_TABLE)
-        .select(
-          'id,"orderId","ticketId",method,amount,currency,status,"tipAmount","tipPercent","createdAt","updatedAt"'
-        )
+      scopedPayments(PAYMENT_COLUMNS)
         .gte('createdAt', since)
         .order('createdAt', { ascending: false })
         .limit(200),
       supabaseAdmin
         .from(ORDERS_TABLE)
         .select('id,"orderNumber",status,total,currency,"createdAt"')
+        .match(branchId ? { branchId } : {})
         .gte('createdAt', since),
       supabaseAdmin
         .from(REPORTS_TABLE)
@@ -76,7 +109,7 @@ export async function GET(request: Request) {
         )
         .order('createdAt', { ascending: false })
         .limit(20),
-      supabaseAdmin.from(PAYMENTS_TABLE).select('"tipAmount"').gte('createdAt', monthStartIso),
+      scopedPayments('"tipAmount"').gte('createdAt', monthStartIso),
     ]);
 
     if (paymentsError || ordersError || reportsError || monthlyTipsError) {
@@ -90,13 +123,14 @@ export async function GET(request: Request) {
     }
 
     const orderMap = new Map((orders ?? []).map((order) => [order.id, order]));
+    const paymentRows = (payments ?? []) as unknown as PaymentRow[];
 
     let totalAmount = 0;
     let totalTips = 0;
     const byMethod = new Map<string, number>();
     const byStatus = new Map<string, number>();
 
-    (payments ?? []).forEach((payment) => {
+    paymentRows.forEach((payment) => {
       const amount = toNumber(payment.amount);
       const tip = toNumber(payment.tipAmount);
       totalAmount += amount;
@@ -119,10 +153,39 @@ export async function GET(request: Request) {
       count,
     }));
 
-    const enrichedPayments = (payments ?? []).map((payment) => ({
-      ...payment,
-      order: payment.orderId ? orderMap.get(payment.orderId) || null : null,
-    }));
+    // Pedidos cobrados con más de un pago (efectivo + tarjeta, etc.).
+    const tendersByOrder = new Map<string, PaymentRow[]>();
+    paymentRows.forEach((payment) => {
+      if (!payment.orderId || toNumber(payment.amount) <= 0 || payment.status === 'refunded') {
+        return;
+      }
+      tendersByOrder.set(payment.orderId, [...(tendersByOrder.get(payment.orderId) ?? []), payment]);
+    });
+    const splitPayments = Array.from(tendersByOrder.entries())
+      .filter(([, rows]) => rows.length > 1)
+      .map(([orderId, rows]) => ({
+        orderId,
+        orderNumber: orderMap.get(orderId)?.orderNumber ?? null,
+        total: Number(rows.reduce((sum, row) => sum + toNumber(row.amount), 0).toFixed(2)),
+        createdAt: rows[0]?.createdAt ?? null,
+        tenders: rows
+          .slice()
+          .sort((a, b) => String(a.id).localeCompare(String(b.id)))
+          .map((row) => ({
+            method: row.method || 'otro',
+            amount: toNumber(row.amount),
+            reference: row.externalPaymentId ?? null,
+          })),
+      }));
+
+    const enrichedPayments = paymentRows.map((row) => {
+      const payment = { ...row };
+      delete payment.scope;
+      return {
+        ...payment,
+        order: payment.orderId ? orderMap.get(payment.orderId) || null : null,
+      };
+    });
 
     const pendingReports = (reportRequests ?? []).filter(
       (report) => report.status === 'queued' || report.status === 'processing'
@@ -144,6 +207,7 @@ export async function GET(request: Request) {
         payments: enrichedPayments,
         methodBreakdown,
         statusBreakdown,
+        splitPayments,
         pendingReports,
       },
     });
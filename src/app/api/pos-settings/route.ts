@@ -28,6 +28,8 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
 
 const POS_SETTINGS_TABLE = process.env.SUPABASE_POS_SETTINGS_TABLE ?? 'pos_settings';
 const DEFAULT_SETTINGS = {
@@ -42,10 +44,25 @@ const DEFAULT_SETTINGS = {
   charge_tax: false,
   footer: '',
   img: null as string | null,
+  rfc: null as string | null,
+  legal_name: null as string | null,
+  fiscal_regime: null as string | null,
+  expedition_postal_code: null as string | null,
+  invoice_series: 'A',
+  global_invoice_series: 'G',
+  certificate_number: null as string | null,
+  no_show_limit: null as number | null,
+  no_show_action: null as 'deposit' | 'block' | null,
+  no_show_deposit: null as number | null,
   updatedAt: null as string | null,
 };
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/pos-settings');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { data, error } = await supabaseAdmin
       .from(POS_SETTINGS_TABLE)
@@ -71,6 +88,11 @@ export async function GET() {
 }
 
 export async function PUT(request: Request) {
+  const auth = await requireStaffSession(request, '/api/pos-settings');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const body = await request.json();
     const payload = {
@@ -86,9 +108,29 @@ export async function PUT(request: Request) {
       charge_tax: body.charge_tax,
       footer: body.footer,
       img: body.img,
+      rfc: body.rfc,
+      legal_name: body.legal_name,
+      fiscal_regime: body.fiscal_regime,
+      expedition_postal_code: body.expedition_postal_code,
+      invoice_series: body.invoice_series,
+      global_invoice_series: body.global_invoice_series,
+      certificate_number: body.certificate_number,
+      no_show_limit: body.no_show_limit,
+      no_show_action: body.no_show_action,
+      no_show_deposit: body.no_show_deposit,
       updatedAt: new Date().toISOString(),
     };
 
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(POS_SETTINGS_TABLE)
+      .select('*')
+      .eq('id', payload.id)
+      .maybeSingle();
+
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+
     const { data, error } = await supabaseAdmin
       .from(POS_SETTINGS_TABLE)
       .upsert(payload, { onConflict: 'id' })
@@ -99,6 +141,15 @@ export async function PUT(request: Request) {
       throw new Error(error.message);
     }
 
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'pos.settings.update',
+      before: previous,
+      after: payload,
+      details: { settingsId: payload.id },
+    });
+
     return NextResponse.json({ success: true, data });
   } catch (error) {
     console.error('Error updating POS settings:', error);
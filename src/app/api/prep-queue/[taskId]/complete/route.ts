@@ -28,10 +28,16 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const PREP_QUEUE_TABLE = process.env.SUPABASE_PREP_QUEUE_TABLE ?? 'prep_queue';
 
-export async function POST(_: Request, context: { params: { taskId?: string } }) {
+export async function POST(request: Request, context: { params: { taskId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/prep-queue/[taskId]/complete');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const taskId = context.params?.taskId?.trim();
 
   if (!taskId) {
@@ -0,0 +1,120 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolvePrepTransition } from '@/lib/prep-status';
+
+const PREP_QUEUE_TABLE = process.env.SUPABASE_PREP_QUEUE_TABLE ?? 'prep_queue';
+
+const StatusActionSchema = z.object({
+  action: z.enum(['claim', 'bump', 'recall']),
+});
+
+export async function POST(request: Request, context: { params: { taskId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/prep-queue/[taskId]/status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const taskId = context.params?.taskId?.trim();
+
+  if (!taskId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la tarea' }, { status: 400 });
+  }
+
+  try {
+    const { action } = StatusActionSchema.parse(await request.json());
+
+    const { data: task, error: taskError } = await supabaseAdmin
+      .from(PREP_QUEUE_TABLE)
+      .select('id,status,"handledByStaffId"')
+      .eq('id', taskId)
+      .maybeSingle();
+
+    if (taskError) {
+      throw new Error(taskError.message);
+    }
+
+    if (!task) {
+      return NextResponse.json({ success: false, error: 'No encontramos la tarea' }, { status: 404 });
+    }
+
+    const nextStatus = resolvePrepTransition(task.status, action);
+    if (!nextStatus) {
+      return NextResponse.json(
+        { success: false, error: 'La tarea ya no está en ese estado' },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const update: Record<string, unknown> = { status: nextStatus, updatedAt: now };
+    if (action === 'claim' || (nextStatus === 'in_progress' && !task.handledByStaffId)) {
+      update.handledByStaffId = auth.session.staffId;
+    }
+    if (nextStatus === 'completed') {
+      update.completedAt = now;
+    } else if (task.status === 'completed') {
+      update.completedAt = null;
+    }
+
+    // Filtramos por el estado leído para que dos pantallas no pisen el mismo cambio.
+    const { data, error } = await supabaseAdmin
+      .from(PREP_QUEUE_TABLE)
+      .update(update)
+      .eq('id', taskId)
+      .eq('status', task.status)
+      .select('id,status,"handledByStaffId","updatedAt","completedAt"')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'Otra estación actualizó la tarea; recarga la pantalla' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Acción inválida' }, { status: 400 });
+    }
+    console.error('Error actualizando tarea de preparación:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar la tarea de preparación' },
+      { status: 500 }
+    );
+  }
+}
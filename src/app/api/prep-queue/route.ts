@@ -31,6 +31,8 @@ import { supabaseAdmin } from '@/lib/supabase-server';
 
 export const dynamic = 'force-dynamic';
 import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
 
 const PREP_QUEUE_TABLE = process.env.SUPABASE_PREP_QUEUE_TABLE ?? 'prep_queue';
 const ORDER_ITEMS_TABLE = process.env.SUPABASE_ORDER_ITEMS_TABLE ?? 'order_items';
@@ -215,6 +217,11 @@ const hasManualQueueSignal = (order: Record<string, unknown> | null) => {
 };
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/prep-queue');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
@@ -225,8 +232,24 @@ export async function GET(request: Request) {
       .order('createdAt', { ascending: true })
       .limit(MAX_RESULTS);
 
-    if (status) {
-      query = query.eq('status', status);
+    const statuses = (status ?? '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+    if (statuses.length === 1) {
+      query = query.eq('status', statuses[0]);
+    } else if (statuses.length > 1) {
+      query = query.in('status', statuses);
+    }
+
+    const branchId = resolveBranchScope(request, auth.session);
+    if (branchId) {
+      query = query.eq('branchId', branchId);
+    }
+
+    const completedSince = searchParams.get('completedSince');
+    if (completedSince && !Number.isNaN(Date.parse(completedSince))) {
+      query = query.gte('completedAt', new Date(completedSince).toISOString());
     }
 
     const { data: queueRows, error: queueError } = await query;
@@ -247,7 +270,7 @@ export async function GET(request: Request) {
       await Promise.all([
         supabaseAdmin
           .from(ORDER_ITEMS_TABLE)
-          .select('id,"orderId","productId",quantity,price,"createdAt"')
+          .select('id,"orderId","productId",quantity,price,modifiers,"createdAt"')
           .in('id', orderItemIds),
         supabaseAdmin
           .from(STAFF_TABLE)
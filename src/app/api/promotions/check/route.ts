@@ -0,0 +1,93 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { checkPromoCode } from '@/lib/promotions';
+import { computePromoDiscount } from '@/lib/promo-codes';
+
+const PromoCheckSchema = z.object({
+  code: z.string().trim().min(3),
+  userId: z.string().trim().min(1).optional().nullable(),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        category: z.string().optional().nullable(),
+        price: z.number().nonnegative(),
+        quantity: z.number().positive(),
+      })
+    )
+    .min(1),
+});
+
+const errorResponse = (message: string, status = 400) =>
+  NextResponse.json({ success: false, error: message }, { status });
+
+/**
+ * Vista previa del descuento para la caja. No registra el canje: eso ocurre al
+ * guardar el pedido, donde los importes se recalculan con el catálogo.
+ */
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/promotions/check');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = PromoCheckSchema.parse(await request.json());
+    const check = await checkPromoCode({
+      code: payload.code,
+      userId: payload.userId ?? null,
+      target: 'product',
+    });
+    if (!check.ok) {
+      return errorResponse(check.error);
+    }
+    const discount = computePromoDiscount(
+      check.promo,
+      payload.items.map((item) => ({
+        productId: item.productId,
+        category: item.category ?? null,
+        unitPrice: item.price,
+        quantity: item.quantity,
+      }))
+    );
+    if (!discount) {
+      return errorResponse('El código no aplica a los productos del pedido.');
+    }
+    return NextResponse.json({ success: true, data: discount });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return errorResponse('Datos inválidos');
+    }
+    console.error('Error validando código promocional:', error);
+    return errorResponse('No pudimos validar el código en este momento.', 500);
+  }
+}
@@ -30,6 +30,9 @@ import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import type { StaffSessionClaims } from '@/lib/auth/staff-session';
 
 const APPLY_TARGETS = ['product', 'membership', 'both'] as const;
 const DISCOUNT_TYPES = ['percentage', 'amount', 'trial'] as const;
@@ -49,27 +52,28 @@ const ManagePromoSchema = z.object({
   isActive: z.boolean().optional().nullable(),
 });
 
-const requireAdminKey = (request: NextRequest) => {
+// La llave de administración sigue disponible para integraciones sin sesión de staff.
+const hasAdminKey = (request: NextRequest) => {
   const adminKey = process.env.PROMO_ADMIN_KEY;
   if (!adminKey) {
-    throw new Error('PROMO_ADMIN_KEY is not configured on the server');
-  }
-  const provided = request.headers.get('x-xoco-promo-key');
-  if (!provided || provided !== adminKey) {
     return false;
   }
-  return true;
+  const provided = request.headers.get('x-xoco-promo-key');
+  return Boolean(provided && provided === adminKey);
 };
 
 export async function POST(request: NextRequest) {
-  try {
-    if (!requireAdminKey(request)) {
-      return NextResponse.json(
-        { success: false, message: 'Acceso no autorizado' },
-        { status: 401 }
-      );
+  let session: StaffSessionClaims | null = null;
+  if (!hasAdminKey(request)) {
+    const auth = await requireStaffSession(request, '/api/promotions/manage');
+    if (!auth.ok) {
+      return auth.response;
     }
+    session = auth.session;
+  }
+  const createdBy = session?.staffId ?? null;
 
+  try {
     const body = await request.json();
     const payload = ManagePromoSchema.parse(body);
     const uppercaseCode = payload.code.trim().toUpperCase();
@@ -80,7 +84,7 @@ export async function POST(request: NextRequest) {
 
     const { data: existing } = await supabaseAdmin
       .from('promo_codes')
-      .select('id')
+      .select('*')
       .eq('code', uppercaseCode)
       .maybeSingle();
 
@@ -112,13 +116,22 @@ export async function POST(request: NextRequest) {
         throw new Error(error.message);
       }
 
+      await logAuditAction({
+        request,
+        session,
+        action: 'promotion.update',
+        before: existing,
+        after: promoRecord,
+        details: { promoId: existing.id, code: uppercaseCode, viaAdminKey: !session },
+      });
+
       return NextResponse.json({ success: true, data });
     }
 
     const newRecord = {
       ...promoRecord,
       id: randomUUID(),
-      createdBy: payload.metadata?.createdBy ?? 'pos',
+      createdBy: createdBy ?? payload.metadata?.createdBy ?? 'pos',
       createdAt: nowISO,
     };
 
@@ -132,6 +145,14 @@ export async function POST(request: NextRequest) {
       throw new Error(error.message);
     }
 
+    await logAuditAction({
+      request,
+      session,
+      action: 'promotion.create',
+      after: promoRecord,
+      details: { promoId: newRecord.id, code: uppercaseCode, viaAdminKey: !session },
+    });
+
     return NextResponse.json({ success: true, data });
   } catch (error) {
     if (error instanceof z.ZodError) {
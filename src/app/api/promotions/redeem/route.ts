@@ -26,11 +26,10 @@
  * --------------------------------------------------------------------
  */
 
-import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { supabaseAdmin } from '@/lib/supabase-server';
 import { verifyToken } from '@/lib/jwt';
+import { checkPromoCode, recordPromoRedemption } from '@/lib/promotions';
 
 const RedeemSchema = z.object({
   code: z.string().min(3),
@@ -55,78 +54,18 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const payload = RedeemSchema.parse(body);
-    const normalizedCode = payload.code.trim().toUpperCase();
-
-    const { data: promo, error: promoError } = await supabaseAdmin
-      .from('promo_codes')
-      .select('*')
-      .eq('code', normalizedCode)
-      .maybeSingle();
-
-    if (promoError) {
-      throw new Error(promoError.message);
-    }
-
-    if (!promo || !promo.isActive) {
-      return errorResponse('El código no es válido o está inactivo.');
-    }
-
-    const now = Date.now();
-    if (promo.validFrom && new Date(promo.validFrom).getTime() > now) {
-      return errorResponse('El código aún no está activo.');
-    }
-    if (promo.expiresAt && new Date(promo.expiresAt).getTime() < now) {
-      return errorResponse('El código ha expirado.');
-    }
-
-    if (promo.maxRedemptions) {
-      const { count: totalCount, error: totalError } = await supabaseAdmin
-        .from('promo_redemptions')
-        .select('id', { count: 'exact', head: true })
-        .eq('promoCodeId', promo.id)
-        .eq('status', 'redeemed');
-
-      if (totalError) {
-        throw new Error(totalError.message);
-      }
-      if (typeof totalCount === 'number' && totalCount >= promo.maxRedemptions) {
-        return errorResponse('Este código alcanzó el número máximo de usos.');
-      }
-    }
-
-    const perUserLimit = promo.perUserLimit ?? 1;
-    if (perUserLimit > 0) {
-      const { count: userCount, error: userError } = await supabaseAdmin
-        .from('promo_redemptions')
-        .select('id', { count: 'exact', head: true })
-        .eq('promoCodeId', promo.id)
-        .eq('userId', decoded.userId)
-        .eq('status', 'redeemed');
-
-      if (userError) {
-        throw new Error(userError.message);
-      }
-      if (typeof userCount === 'number' && userCount >= perUserLimit) {
-        return errorResponse('Ya usaste este código.');
-      }
+    const check = await checkPromoCode({ code: payload.code, userId: decoded.userId });
+    if (!check.ok) {
+      return errorResponse(check.error);
     }
+    const { promo } = check;
 
-    const redemptionId = randomUUID();
-    const { error: insertError } = await supabaseAdmin.from('promo_redemptions').insert({
-      id: redemptionId,
+    const redemptionId = await recordPromoRedemption({
       promoCodeId: promo.id,
       userId: decoded.userId,
-      status: 'redeemed',
-      context: {
-        source: 'client_app',
-        redeemedAt: new Date().toISOString(),
-      },
+      context: { source: 'client_app' },
     });
 
-    if (insertError) {
-      throw new Error(insertError.message);
-    }
-
     return NextResponse.json({
       success: true,
       data: {
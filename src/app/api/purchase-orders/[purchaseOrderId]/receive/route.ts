@@ -0,0 +1,98 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { loadPurchaseOrder, receivePurchaseOrderLines } from '@/lib/purchase-orders';
+
+const ReceiveSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().trim().min(1),
+        quantity: z.number().positive(),
+        expiresAt: z.string().datetime().optional().nullable(),
+      })
+    )
+    .min(1),
+});
+
+export async function POST(request: Request, context: { params: { purchaseOrderId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/purchase-orders/[purchaseOrderId]/receive');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const purchaseOrderId = context.params?.purchaseOrderId?.trim();
+  if (!purchaseOrderId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la orden' }, { status: 400 });
+  }
+
+  try {
+    const payload = ReceiveSchema.parse(await request.json());
+    const order = await loadPurchaseOrder(purchaseOrderId);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Orden no encontrada' }, { status: 404 });
+    }
+
+    const result = await receivePurchaseOrderLines(order, payload.lines, auth.session.staffId);
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.purchase_order.receive',
+      details: {
+        purchaseOrderId: order.id,
+        folio: order.folio,
+        supplierId: order.supplierId,
+        lines: payload.lines,
+        before: { status: order.status },
+        after: { status: result.order.status },
+      },
+    });
+
+    return NextResponse.json({ success: true, data: result.order });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error recibiendo orden de compra:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'No pudimos registrar la recepción',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,180 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction, type CatalogAction } from '@/lib/catalog-admin';
+import { normalizeBranch } from '@/lib/smart-inventory';
+import {
+  PURCHASE_ORDERS_TABLE,
+  loadPurchaseOrder,
+  loadSupplier,
+  replacePurchaseOrderLines,
+} from '@/lib/purchase-orders';
+import type { PurchaseOrderAction, PurchaseOrderStatus } from '@/lib/api';
+
+const OrderLineSchema = z.object({
+  itemId: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  packSize: z.number().positive(),
+  unitCost: z.number().nonnegative(),
+});
+
+const UpdateOrderSchema = z.object({
+  action: z.enum(['send', 'cancel', 'close']).optional(),
+  branchId: z.string().trim().optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  expectedAt: z.string().datetime().optional().nullable(),
+  lines: z.array(OrderLineSchema).min(1).optional(),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Estados desde los que procede cada acción y el estado al que llevan. */
+const ACTION_TRANSITIONS: Record<
+  PurchaseOrderAction,
+  { from: PurchaseOrderStatus[]; to: PurchaseOrderStatus; log: CatalogAction }
+> = {
+  send: { from: ['draft'], to: 'sent', log: 'inventory.purchase_order.send' },
+  cancel: { from: ['draft', 'sent'], to: 'cancelled', log: 'inventory.purchase_order.cancel' },
+  close: { from: ['partially_received'], to: 'received', log: 'inventory.purchase_order.close' },
+};
+
+export async function PATCH(request: Request, context: { params: { purchaseOrderId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/purchase-orders/[purchaseOrderId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const purchaseOrderId = context.params?.purchaseOrderId?.trim();
+  if (!purchaseOrderId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la orden' }, { status: 400 });
+  }
+
+  try {
+    const { action, lines, ...fields } = UpdateOrderSchema.parse(await request.json());
+    if (!action && !lines && !Object.keys(fields).length) {
+      return NextResponse.json({ success: false, error: 'No hay cambios por guardar' }, { status: 400 });
+    }
+
+    const order = await loadPurchaseOrder(purchaseOrderId);
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'Orden no encontrada' }, { status: 404 });
+    }
+    if ((lines || fields.branchId !== undefined) && order.status !== 'draft') {
+      return NextResponse.json(
+        { success: false, error: 'Solo puedes cambiar insumos o sucursal mientras la orden es borrador' },
+        { status: 409 }
+      );
+    }
+    if (order.status === 'received' || order.status === 'cancelled') {
+      return NextResponse.json({ success: false, error: 'La orden ya está cerrada' }, { status: 409 });
+    }
+
+    const transition = action ? ACTION_TRANSITIONS[action] : null;
+    if (transition && !transition.from.includes(order.status)) {
+      return NextResponse.json(
+        { success: false, error: 'La orden no admite esa acción en su estado actual' },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const update: Record<string, unknown> = { updatedAt: now };
+    if (fields.notes !== undefined) {
+      update.notes = fields.notes || null;
+    }
+    if (fields.expectedAt !== undefined) {
+      update.expectedAt = fields.expectedAt;
+    }
+    if (fields.branchId !== undefined) {
+      update.branchId = normalizeBranch(fields.branchId);
+    }
+    if (lines) {
+      update.total = await replacePurchaseOrderLines(order.id, lines);
+    }
+
+    if (transition) {
+      update.status = transition.to;
+      if (action === 'send') {
+        update.sentAt = now;
+        if (!order.expectedAt && update.expectedAt === undefined) {
+          const supplier = await loadSupplier(order.supplierId);
+          update.expectedAt = new Date(Date.now() + (supplier?.leadTimeDays ?? 1) * DAY_MS).toISOString();
+        }
+      }
+      if (action === 'cancel') {
+        update.cancelledAt = now;
+      }
+      if (action === 'close') {
+        update.receivedAt = now;
+      }
+    }
+
+    const { data: updated, error } = await supabaseAdmin
+      .from(PURCHASE_ORDERS_TABLE)
+      .update(update)
+      .eq('id', order.id)
+      .eq('status', order.status)
+      .select('id');
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!updated?.length) {
+      return NextResponse.json(
+        { success: false, error: 'La orden cambió mientras la editabas; recárgala' },
+        { status: 409 }
+      );
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: transition?.log ?? 'inventory.purchase_order.update',
+      details: {
+        purchaseOrderId: order.id,
+        folio: order.folio,
+        before: { status: order.status, total: order.total },
+        after: { ...update, ...(lines ? { lines } : {}) },
+      },
+    });
+
+    return NextResponse.json({ success: true, data: await loadPurchaseOrder(order.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error actualizando orden de compra:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar la orden de compra' },
+      { status: 500 }
+    );
+  }
+}
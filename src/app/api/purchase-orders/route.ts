@@ -0,0 +1,153 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { normalizeBranch } from '@/lib/smart-inventory';
+import {
+  PURCHASE_ORDERS_TABLE,
+  buildPurchaseOrderFolio,
+  loadPurchaseOrder,
+  loadPurchaseOrders,
+  loadSupplier,
+  replacePurchaseOrderLines,
+} from '@/lib/purchase-orders';
+import type { PurchaseOrderStatus } from '@/lib/api';
+
+export const dynamic = 'force-dynamic';
+
+const ORDER_STATUSES: PurchaseOrderStatus[] = [
+  'draft',
+  'sent',
+  'partially_received',
+  'received',
+  'cancelled',
+];
+
+const OrderLineSchema = z.object({
+  itemId: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  packSize: z.number().positive(),
+  unitCost: z.number().nonnegative(),
+});
+
+const CreateOrderSchema = z.object({
+  supplierId: z.string().trim().min(1),
+  branchId: z.string().trim().optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  expectedAt: z.string().datetime().optional().nullable(),
+  lines: z.array(OrderLineSchema).min(1),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/purchase-orders');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') as PurchaseOrderStatus | null;
+    const status = statusParam && ORDER_STATUSES.includes(statusParam) ? statusParam : null;
+    const orders = await loadPurchaseOrders(status);
+    return NextResponse.json({ success: true, data: orders });
+  } catch (error) {
+    console.error('Error obteniendo órdenes de compra:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las órdenes de compra' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/purchase-orders');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CreateOrderSchema.parse(await request.json());
+    const supplier = await loadSupplier(payload.supplierId);
+    if (!supplier || !supplier.isActive) {
+      return NextResponse.json({ success: false, error: 'Proveedor no encontrado' }, { status: 404 });
+    }
+
+    const record = {
+      id: randomUUID(),
+      folio: buildPurchaseOrderFolio(),
+      supplierId: supplier.id,
+      branchId: normalizeBranch(payload.branchId),
+      status: 'draft' as PurchaseOrderStatus,
+      notes: payload.notes || null,
+      expectedAt: payload.expectedAt ?? null,
+      total: 0,
+      createdByStaffId: auth.session.staffId,
+    };
+    const { error } = await supabaseAdmin.from(PURCHASE_ORDERS_TABLE).insert(record);
+    if (error) {
+      throw new Error(error.message);
+    }
+    const total = await replacePurchaseOrderLines(record.id, payload.lines);
+    const { error: totalError } = await supabaseAdmin
+      .from(PURCHASE_ORDERS_TABLE)
+      .update({ total })
+      .eq('id', record.id);
+    if (totalError) {
+      throw new Error(totalError.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.purchase_order.create',
+      details: {
+        purchaseOrderId: record.id,
+        folio: record.folio,
+        supplierId: supplier.id,
+        total,
+        lines: payload.lines,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: await loadPurchaseOrder(record.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error creando orden de compra:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos crear la orden de compra' },
+      { status: 500 }
+    );
+  }
+}
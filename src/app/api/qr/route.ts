@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const REMOTE_QR_API = 'https://api.qrserver.com/v1/create-qr-code/';
 const DEFAULT_SIZE = '220x220';
@@ -9,6 +10,11 @@ const isValidSize = (value: string | null) => {
 };
 
 export async function GET(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/qr');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const { searchParams } = new URL(request.url);
   const data = searchParams.get('data');
   if (!data) {
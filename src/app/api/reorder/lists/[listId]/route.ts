@@ -0,0 +1,70 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { REORDER_LISTS_TABLE, normalizeReorderListRow } from '@/lib/reorder-engine';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, context: { params: { listId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/reorder/lists/[listId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const listId = context.params?.listId?.trim();
+  if (!listId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID de la lista' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(REORDER_LISTS_TABLE)
+      .select('*')
+      .eq('id', listId)
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Lista no encontrada' }, { status: 404 });
+    }
+    return NextResponse.json({
+      success: true,
+      data: normalizeReorderListRow(data as Record<string, unknown>),
+    });
+  } catch (error) {
+    console.error('Error obteniendo lista de compra:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar la lista de compra' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import {
+  REORDER_LISTS_TABLE,
+  buildReorderListRecord,
+  normalizeReorderListRow,
+} from '@/lib/reorder-engine';
+
+export const dynamic = 'force-dynamic';
+
+const LIST_HISTORY_LIMIT = 30;
+
+const ApproveListSchema = z.object({
+  branchId: z.string().trim().optional().nullable(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  items: z
+    .array(
+      z.object({
+        itemId: z.string().trim().min(1),
+        branchId: z.string().trim().min(1),
+        packs: z.number().positive(),
+      })
+    )
+    .min(1),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reorder/lists');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(REORDER_LISTS_TABLE)
+      .select('*')
+      .order('approvedAt', { ascending: false })
+      .limit(LIST_HISTORY_LIMIT);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return NextResponse.json({
+      success: true,
+      data: ((data ?? []) as Record<string, unknown>[]).map(normalizeReorderListRow),
+    });
+  } catch (error) {
+    console.error('Error obteniendo listas de compra:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar las listas de compra' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reorder/lists');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = ApproveListSchema.parse(await request.json());
+    const result = await buildReorderListRecord({ ...payload, staffId: auth.session.staffId });
+    if (!result.ok) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from(REORDER_LISTS_TABLE)
+      .insert(result.record)
+      .select('*')
+      .single();
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.reorder.approve',
+      details: {
+        reorderListId: result.record.id,
+        folio: result.record.folio,
+        items: payload.items,
+        estimatedTotal: result.record.estimatedTotal,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: normalizeReorderListRow(data as Record<string, unknown>),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error aprobando lista de compra:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos aprobar la lista de compra' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { INVENTORY_ITEMS_TABLE } from '@/lib/reorder-engine';
+
+const ReorderSettingsSchema = z.object({
+  itemId: z.string().trim().min(1),
+  leadTimeDays: z.number().int().min(0).max(90).nullable().optional(),
+  packSize: z.number().positive().nullable().optional(),
+});
+
+export async function PATCH(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reorder/settings');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = ReorderSettingsSchema.parse(await request.json());
+    const update: Record<string, unknown> = {};
+    if (payload.leadTimeDays !== undefined) {
+      update.reorderLeadTimeDays = payload.leadTimeDays;
+    }
+    if (payload.packSize !== undefined) {
+      update.reorderPackSize = payload.packSize;
+    }
+    if (!Object.keys(update).length) {
+      return NextResponse.json({ success: false, error: 'No hay cambios por guardar' }, { status: 400 });
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from(INVENTORY_ITEMS_TABLE)
+      .select('id,"reorderLeadTimeDays","reorderPackSize"')
+      .eq('id', payload.itemId)
+      .maybeSingle();
+    if (existingError) {
+      throw new Error(existingError.message);
+    }
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Insumo no encontrado' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from(INVENTORY_ITEMS_TABLE)
+      .update({ ...update, updatedAt: new Date().toISOString() })
+      .eq('id', payload.itemId);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.reorder.settings',
+      details: {
+        itemId: payload.itemId,
+        before: {
+          reorderLeadTimeDays: existing.reorderLeadTimeDays ?? null,
+          reorderPackSize: existing.reorderPackSize ?? null,
+        },
+        after: update,
+      },
+    });
+
+    return NextResponse.json({ success: true, data: payload });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error guardando parámetros de reabasto:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos guardar la configuración de reabasto' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { buildReorderCsv, computeReorderSuggestions } from '@/lib/reorder-engine';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reorder/suggestions');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const branchId = searchParams.get('branchId')?.trim() || null;
+    const lookbackDays = Number(searchParams.get('lookbackDays'));
+    const report = await computeReorderSuggestions({
+      branchId,
+      lookbackDays: Number.isFinite(lookbackDays) && lookbackDays > 0 ? Math.min(lookbackDays, 180) : undefined,
+    });
+
+    if ((searchParams.get('format') ?? 'json').toLowerCase() === 'csv') {
+      const dateKey = report.generatedAt.slice(0, 10);
+      return new NextResponse(buildReorderCsv(report.suggestions), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="reabasto-${branchId ?? 'todas'}-${dateKey}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error calculando reabasto:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos calcular las sugerencias de reabasto' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import { RESERVATIONS_TABLE } from '@/lib/reservations';
+
+export const dynamic = 'force-dynamic';
+
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+
+const ArrivalSchema = z.object({
+  orderId: z.string().trim().min(1).max(120),
+});
+
+/**
+ * Registra la llegada del cliente: liga el pedido que el POS creó con su
+ * pre-orden y marca la reservación como completada.
+ */
+export async function POST(request: Request, context: { params: { reservationId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/reservations/[reservationId]/arrival');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const reservationId = context.params?.reservationId?.trim();
+  if (!reservationId) {
+    return NextResponse.json(
+      { success: false, error: 'Falta el ID de la reservación' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { orderId } = ArrivalSchema.parse(await request.json());
+
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(RESERVATIONS_TABLE)
+      .select('id,status,"linkedOrderId"')
+      .eq('id', reservationId)
+      .maybeSingle();
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+    if (!previous) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos la reservación' },
+        { status: 404 }
+      );
+    }
+    if (previous.status === 'cancelled') {
+      return NextResponse.json(
+        { success: false, error: 'La reservación está cancelada' },
+        { status: 409 }
+      );
+    }
+    if (previous.linkedOrderId && previous.linkedOrderId !== orderId) {
+      return NextResponse.json(
+        { success: false, error: 'La reservación ya tiene un pedido ligado' },
+        { status: 409 }
+      );
+    }
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from(ORDERS_TABLE)
+      .select('id')
+      .eq('id', orderId)
+      .maybeSingle();
+    if (orderError) {
+      throw new Error(orderError.message);
+    }
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos el pedido a ligar' },
+        { status: 404 }
+      );
+    }
+
+    const updates = {
+      linkedOrderId: orderId,
+      status: 'completed',
+      updatedAt: new Date().toISOString(),
+    };
+    const { error } = await supabaseAdmin
+      .from(RESERVATIONS_TABLE)
+      .update(updates)
+      .eq('id', reservationId);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'reservation.arrival',
+      before: previous,
+      after: updates,
+      details: { reservationId, orderId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { id: reservationId, status: updates.status, linkedOrderId: orderId },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error registrando llegada de reservación:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos ligar el pedido a la reservación' },
+      { status: 500 }
+    );
+  }
+}
@@ -28,11 +28,18 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
 
 const RESERVATIONS_TABLE = process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations';
 const ALLOWED_STATUSES = new Set(['completed', 'cancelled']);
 
 export async function POST(request: Request, context: { params: { reservationId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/reservations/[reservationId]/complete');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const reservationId = context.params?.reservationId?.trim();
 
   if (!reservationId) {
@@ -57,6 +64,16 @@ export async function POST(request: Request, context: { params: { reservationId?
       ? requestedStatus
       : 'completed';
 
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(RESERVATIONS_TABLE)
+      .select('status')
+      .eq('id', reservationId)
+      .maybeSingle();
+
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+
     const now = new Date().toISOString();
     const {
       data,
@@ -79,6 +96,15 @@ export async function POST(request: Request, context: { params: { reservationId?
       );
     }
 
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'reservation.status',
+      before: previous,
+      after: { status },
+      details: { reservationId },
+    });
+
     return NextResponse.json({ success: true, data: { id: data.id, status } });
   } catch (error) {
     console.error('Error actualizando reservación:', error);
@@ -1,8 +1,21 @@
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  MAX_RESERVATION_PEOPLE,
+  RESERVATIONS_TABLE,
+  RESERVATION_CAPACITY_CONFLICT_MESSAGE,
+  checkReservationCapacity,
+  isReservationCapacityError,
+  loadReservationCustomer,
+  normalizeReservationTime,
+  sendReservationConfirmation,
+  todayReservationDate,
+} from '@/lib/reservations';
 
-const RESERVATIONS_TABLE = process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations';
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 
 const SELECT_COLUMNS = [
@@ -16,6 +29,10 @@ const SELECT_COLUMNS = [
   '"branchNumber"',
   'message',
   '"preOrderItems"',
+  '"linkedOrderId"',
+  '"sourceType"',
+  '"depositRequired"',
+  '"depositAmount"',
   'status',
   '"createdAt"',
   '"updatedAt"',
@@ -41,6 +58,18 @@ const SELECT_COLUMNS = [
   ].join(''),
 ].join(',');
 
+const UpdateReservationSchema = z
+  .object({
+    peopleCount: z.number().int().min(1).max(MAX_RESERVATION_PEOPLE).optional(),
+    reservationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    reservationTime: z.string().trim().min(4).max(8).optional(),
+    message: z.string().trim().max(500).nullable().optional(),
+    preOrderItems: z.string().trim().max(2000).nullable().optional(),
+  })
+  .refine((payload) => Object.values(payload).some((value) => value !== undefined), {
+    message: 'Sin cambios',
+  });
+
 const normalizeReservationRecord = (reservation: Record<string, unknown>) => {
   const { user, ...rest } = reservation as { user?: RawUserRecord | null };
   return {
@@ -84,7 +113,12 @@ const fetchReservationByCode = async (value: string) => {
   return data ?? null;
 };
 
-export async function GET(_: Request, { params }: { params: { reservationId?: string } }) {
+export async function GET(request: Request, { params }: { params: { reservationId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/reservations/[reservationId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   const identifier = params.reservationId?.trim();
   if (!identifier) {
     return NextResponse.json(
@@ -152,4 +186,155 @@ export async function GET(_: Request, { params }: { params: { reservationId?: st
   }
 }
 
+export async function PATCH(request: Request, context: { params: { reservationId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/reservations/[reservationId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const reservationId = context.params?.reservationId?.trim();
+  if (!reservationId) {
+    return NextResponse.json(
+      { success: false, error: 'Falta el ID de la reservación' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const payload = UpdateReservationSchema.parse(await request.json());
+
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from(RESERVATIONS_TABLE)
+      .select(
+        'id,"reservationCode","userId","peopleCount","reservationDate","reservationTime","branchId",message,"preOrderItems",status'
+      )
+      .eq('id', reservationId)
+      .maybeSingle();
+    if (previousError) {
+      throw new Error(previousError.message);
+    }
+    if (!previous) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos la reservación' },
+        { status: 404 }
+      );
+    }
+    if (previous.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, error: 'Solo se pueden modificar reservaciones pendientes' },
+        { status: 409 }
+      );
+    }
+
+    const reservationTime = payload.reservationTime
+      ? normalizeReservationTime(payload.reservationTime)
+      : normalizeReservationTime(previous.reservationTime);
+    if (!reservationTime) {
+      return NextResponse.json({ success: false, error: 'Horario inválido' }, { status: 400 });
+    }
+    const reservationDate = payload.reservationDate ?? String(previous.reservationDate);
+    const peopleCount = payload.peopleCount ?? Number(previous.peopleCount);
+    const rescheduled =
+      reservationDate !== String(previous.reservationDate) ||
+      reservationTime !== normalizeReservationTime(previous.reservationTime) ||
+      peopleCount !== Number(previous.peopleCount);
+
+    if (payload.reservationDate && reservationDate < todayReservationDate()) {
+      return NextResponse.json(
+        { success: false, error: 'No puedes reservar en una fecha pasada' },
+        { status: 400 }
+      );
+    }
+
+    let branchName = String(previous.branchId);
+    if (rescheduled) {
+      const capacityCheck = await checkReservationCapacity({
+        branchId: String(previous.branchId),
+        reservationDate,
+        reservationTime,
+        peopleCount,
+        excludeReservationId: reservationId,
+      });
+      if (!capacityCheck.ok) {
+        return NextResponse.json(
+          { success: false, error: capacityCheck.error },
+          { status: capacityCheck.status }
+        );
+      }
+      branchName = capacityCheck.capacity.branchName;
+    }
+
+    const message =
+      payload.message !== undefined ? payload.message || null : (previous.message as string | null);
+    const preOrderItems =
+      payload.preOrderItems !== undefined
+        ? payload.preOrderItems || null
+        : (previous.preOrderItems as string | null);
+    const updates = {
+      peopleCount,
+      numPeople: peopleCount,
+      reservationDate,
+      reservationTime,
+      message,
+      preOrderItems,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const { error } = await supabaseAdmin
+      .from(RESERVATIONS_TABLE)
+      .update(updates)
+      .eq('id', reservationId);
+    if (isReservationCapacityError(error)) {
+      return NextResponse.json(
+        { success: false, error: RESERVATION_CAPACITY_CONFLICT_MESSAGE },
+        { status: 409 }
+      );
+    }
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    // El cliente recibe de nuevo la confirmación solo si cambió su horario o su grupo.
+    let emailSent = false;
+    if (rescheduled && previous.userId) {
+      const customer = await loadReservationCustomer(String(previous.userId));
+      if (customer) {
+        emailSent = await sendReservationConfirmation({
+          customer,
+          reservationCode: String(previous.reservationCode),
+          reservationDate,
+          reservationTime,
+          peopleCount,
+          branchName,
+          message,
+          preOrderItems,
+        });
+      }
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'reservation.update',
+      before: previous,
+      after: updates,
+      details: { reservationId, rescheduled, emailSent },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { ...previous, ...updates, emailSent },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error modificando reservación:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos modificar la reservación' },
+      { status: 500 }
+    );
+  }
+}
+
 export const dynamic = 'force-dynamic';
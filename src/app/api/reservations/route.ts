@@ -26,13 +26,30 @@
  * --------------------------------------------------------------------
  */
 
+import { randomUUID } from 'node:crypto';
 import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { supabaseAdmin } from '@/lib/supabase-server';
 
 export const dynamic = 'force-dynamic';
 import { type RawUserRecord, withDecryptedUserNames } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope, resolveWriteBranch } from '@/lib/auth/branch-scope';
+import { logAuditAction } from '@/lib/audit-log';
+import {
+  MAX_RESERVATION_PEOPLE,
+  RESERVATIONS_TABLE,
+  RESERVATION_CAPACITY_CONFLICT_MESSAGE,
+  checkReservationCapacity,
+  evaluateNoShowPolicy,
+  isReservationCapacityError,
+  normalizeReservationTime,
+  resolveReservationCustomer,
+  sendReservationConfirmation,
+  sweepReservationNoShows,
+  todayReservationDate,
+} from '@/lib/reservations';
 
-const RESERVATIONS_TABLE = process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations';
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
 const MAX_RESULTS = Number(process.env.RESERVATIONS_LIMIT ?? 100);
 
@@ -41,8 +58,28 @@ type ReservationWithUser = Record<string, unknown> & {
   user?: ReturnType<typeof withDecryptedUserNames>;
 };
 
+const CreateReservationSchema = z.object({
+  customerId: z.string().trim().min(1).max(160),
+  peopleCount: z.number().int().min(1).max(MAX_RESERVATION_PEOPLE),
+  reservationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  reservationTime: z.string().trim().min(4).max(8),
+  message: z.string().trim().max(500).nullable().optional(),
+  preOrderItems: z.string().trim().max(2000).nullable().optional(),
+});
+
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reservations');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
+    try {
+      await sweepReservationNoShows();
+    } catch (sweepError) {
+      console.warn('No pudimos registrar las inasistencias de reservaciones:', sweepError);
+    }
+
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
 
@@ -60,6 +97,10 @@ export async function GET(request: Request) {
           '"branchNumber"',
           'message',
           '"preOrderItems"',
+          '"linkedOrderId"',
+          '"sourceType"',
+          '"depositRequired"',
+          '"depositAmount"',
           'status',
           '"createdAt"',
           '"updatedAt"',
@@ -92,6 +133,10 @@ export async function GET(request: Request) {
     if (status) {
       query = query.eq('status', status);
     }
+    const branchId = resolveBranchScope(request, auth.session);
+    if (branchId) {
+      query = query.eq('branchId', branchId);
+    }
 
     const { data, error } = await query;
     if (error) {
@@ -187,3 +232,121 @@ export async function GET(request: Request) {
     );
   }
 }
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reservations');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CreateReservationSchema.parse(await request.json());
+    const reservationTime = normalizeReservationTime(payload.reservationTime);
+    if (!reservationTime) {
+      return NextResponse.json({ success: false, error: 'Horario inválido' }, { status: 400 });
+    }
+    if (payload.reservationDate < todayReservationDate()) {
+      return NextResponse.json(
+        { success: false, error: 'No puedes reservar en una fecha pasada' },
+        { status: 400 }
+      );
+    }
+
+    const customer = await resolveReservationCustomer(payload.customerId);
+    if (!customer) {
+      return NextResponse.json(
+        { success: false, error: 'No encontramos un cliente con ese ID o correo' },
+        { status: 404 }
+      );
+    }
+
+    const noShowPolicy = await evaluateNoShowPolicy(customer.id);
+    if (noShowPolicy.blocked) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `El cliente acumula ${noShowPolicy.count} inasistencias; un gerente debe autorizarlo desde su ficha.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const branchId = resolveWriteBranch(request, auth.session);
+    const capacityCheck = await checkReservationCapacity({
+      branchId,
+      reservationDate: payload.reservationDate,
+      reservationTime,
+      peopleCount: payload.peopleCount,
+    });
+    if (!capacityCheck.ok) {
+      return NextResponse.json(
+        { success: false, error: capacityCheck.error },
+        { status: capacityCheck.status }
+      );
+    }
+
+    const record = {
+      id: randomUUID(),
+      userId: customer.id,
+      peopleCount: payload.peopleCount,
+      numPeople: payload.peopleCount,
+      reservationDate: payload.reservationDate,
+      reservationTime,
+      branchId,
+      message: payload.message || null,
+      preOrderItems: payload.preOrderItems || null,
+      status: 'pending',
+      sourceType: 'pos',
+      depositRequired: noShowPolicy.depositRequired,
+      depositAmount: noShowPolicy.depositRequired ? noShowPolicy.depositAmount : null,
+    };
+    const { data, error } = await supabaseAdmin
+      .from(RESERVATIONS_TABLE)
+      .insert(record)
+      .select('id,"reservationCode"')
+      .single();
+    if (isReservationCapacityError(error)) {
+      return NextResponse.json(
+        { success: false, error: RESERVATION_CAPACITY_CONFLICT_MESSAGE },
+        { status: 409 }
+      );
+    }
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const reservationCode = String(data.reservationCode);
+    const emailSent = await sendReservationConfirmation({
+      customer,
+      reservationCode,
+      reservationDate: payload.reservationDate,
+      reservationTime,
+      peopleCount: payload.peopleCount,
+      branchName: capacityCheck.capacity.branchName,
+      message: record.message,
+      preOrderItems: record.preOrderItems,
+    });
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'reservation.create',
+      after: { ...record, reservationCode },
+      details: { reservationId: record.id, reservationCode, emailSent },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { ...record, reservationCode, emailSent } },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error creando reservación:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos registrar la reservación' },
+      { status: 500 }
+    );
+  }
+}
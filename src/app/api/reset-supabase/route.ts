@@ -31,9 +31,15 @@ import {
   markSupabaseHealthy, 
   flushPendingOperations 
 } from '@/lib/offline-sync';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 // POST - Forzar recuperación de Supabase
-export async function POST() {
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/reset-supabase');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     // Forzar que Supabase se marque como saludable
     markSupabaseHealthy();
@@ -28,35 +28,51 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
 
 const STAFF_TABLE = process.env.SUPABASE_STAFF_TABLE ?? 'staff_users';
 const SESSIONS_TABLE = process.env.SUPABASE_STAFF_SESSIONS_TABLE ?? 'staff_sessions';
 const MAX_STAFF = Number(process.env.STAFF_DASHBOARD_LIMIT ?? 200);
 const MAX_SESSIONS = Number(process.env.STAFF_SESSION_LIMIT ?? 100);
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-dashboard');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
-    const [{ data: staff, error: staffError }, { data: sessions, error: sessionsError }] =
-      await Promise.all([
-        supabaseAdmin
-          .from(STAFF_TABLE)
-          .select(
-            'id,email,role,"branchId",is_active,"createdAt","updatedAt","lastLoginAt","firstNameEncrypted","lastNameEncrypted"'
-          )
-          .order('createdAt', { ascending: false })
-          .limit(MAX_STAFF),
-        supabaseAdmin
-          .from(SESSIONS_TABLE)
-          .select(
-            'id,"staffId","sessionStart","sessionEnd","durationSeconds","ipAddress","deviceType","createdAt","updatedAt"'
-          )
-          .order('sessionStart', { ascending: false })
-          .limit(MAX_SESSIONS),
-      ]);
+    // Con `null` (solo socios) se lee el staff de todas las sucursales.
+    const branchId = resolveBranchScope(request, auth.session);
+    const { data: staff, error: staffError } = await supabaseAdmin
+      .from(STAFF_TABLE)
+      .select(
+        'id,email,role,"branchId",is_active,"createdAt","updatedAt","lastLoginAt","firstNameEncrypted","lastNameEncrypted"'
+      )
+      .match(branchId ? { branchId } : {})
+      .order('createdAt', { ascending: false })
+      .limit(MAX_STAFF);
+
+    if (staffError) {
+      throw new Error(staffError.message || 'Failed to fetch staff data');
+    }
+
+    // Las sesiones no guardan sucursal; se acotan por el staff de la sucursal.
+    let sessionsQuery = supabaseAdmin
+      .from(SESSIONS_TABLE)
+      .select(
+        'id,"staffId","sessionStart","sessionEnd","durationSeconds","ipAddress","deviceType","createdAt","updatedAt"'
+      )
+      .order('sessionStart', { ascending: false })
+      .limit(MAX_SESSIONS);
+    if (branchId) {
+      sessionsQuery = sessionsQuery.in('staffId', (staff ?? []).map((member) => member.id));
+    }
+    const { data: sessions, error: sessionsError } = await sessionsQuery;
 
-    if (staffError || sessionsError) {
-      const message = staffError?.message || sessionsError?.message || 'Failed to fetch staff data';
-      throw new Error(message);
+    if (sessionsError) {
+      throw new Error(sessionsError.message || 'Failed to fetch staff data');
     }
 
     const normalizedStaff = (staff ?? []).map((member) => ({
@@ -28,6 +28,7 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const TABLE = process.env.SUPABASE_STAFF_EVALS_TABLE ?? 'staff_evaluations';
 const MAX_LIMIT = Number(process.env.STAFF_EVALS_LIMIT ?? 100);
@@ -36,6 +37,11 @@ const normalizeEmail = (value?: string | null) =>
   typeof value === 'string' ? value.trim().toLowerCase() : null;
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-evaluations');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = Math.min(Number(searchParams.get('limit') ?? MAX_LIMIT), MAX_LIMIT);
@@ -63,6 +69,11 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-evaluations');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const payload = (await request.json()) as {
       employeeEmail?: string;
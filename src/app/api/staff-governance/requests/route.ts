@@ -28,6 +28,7 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const TABLE = process.env.SUPABASE_STAFF_GOV_REQUESTS_TABLE ?? 'staff_governance_requests';
 const MAX_LIMIT = Number(process.env.GOVERNANCE_REQUESTS_LIMIT ?? 100);
@@ -49,6 +50,11 @@ const ALLOWED_TYPES = new Set([
 const ALLOWED_STATUS = new Set(['pending', 'requires_changes', 'approved', 'declined']);
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-governance/requests');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = Math.min(Number(searchParams.get('limit') ?? MAX_LIMIT), MAX_LIMIT);
@@ -81,6 +87,11 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-governance/requests');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const payload = (await request.json()) as {
       employeeEmail?: string;
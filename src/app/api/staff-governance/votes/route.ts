@@ -28,6 +28,8 @@
 
 import { NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
 
 const TABLE = process.env.SUPABASE_STAFF_GOV_VOTES_TABLE ?? 'staff_governance_votes';
 const REQUESTS_TABLE = process.env.SUPABASE_STAFF_GOV_REQUESTS_TABLE ?? 'staff_governance_requests';
@@ -39,6 +41,11 @@ const normalizeEmail = (value?: string | null) =>
 const ALLOWED_DECISIONS = new Set(['pending', 'approved', 'declined']);
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-governance/votes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = Math.min(Number(searchParams.get('limit') ?? MAX_LIMIT), MAX_LIMIT);
@@ -66,6 +73,11 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff-governance/votes');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const payload = (await request.json()) as {
       requestId?: string;
@@ -99,6 +111,17 @@ export async function POST(request: Request) {
       return NextResponse.json({ success: false, error: 'La solicitud no existe.' }, { status: 404 });
     }
 
+    const { data: previousVote, error: previousVoteError } = await supabaseAdmin
+      .from(TABLE)
+      .select('decision,comment')
+      .eq('request_id', requestId)
+      .eq('reviewer_email', reviewerEmail)
+      .maybeSingle();
+
+    if (previousVoteError) {
+      throw previousVoteError;
+    }
+
     const { data, error } = await supabaseAdmin
       .from(TABLE)
       .upsert(
@@ -118,6 +141,15 @@ export async function POST(request: Request) {
       throw error;
     }
 
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'governance.vote',
+      before: previousVote,
+      after: { decision, comment },
+      details: { requestId, reviewerEmail },
+    });
+
     return NextResponse.json({ success: true, data });
   } catch (error) {
     console.error('POST /api/staff-governance/votes failed:', error);
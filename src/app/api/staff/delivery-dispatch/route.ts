@@ -0,0 +1,395 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
+import { logAuditAction } from '@/lib/audit-log';
+import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
+import { sendOrderDeliveredEmail } from '@/lib/mailer';
+import {
+  DELIVERY_STAGE_TIMESTAMPS,
+  resolveDeliveryTransition,
+  type DeliveryBoardStatus,
+} from '@/lib/delivery-dispatch';
+
+export const dynamic = 'force-dynamic';
+
+const DISPATCHES_TABLE = process.env.SUPABASE_DELIVERY_DISPATCHES_TABLE ?? 'delivery_dispatches';
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const STAFF_TABLE = process.env.SUPABASE_STAFF_TABLE ?? 'staff_users';
+// Los entregados siguen en el tablero un rato para que el equipo vea el cierre.
+const DELIVERED_VISIBLE_MS = 12 * 60 * 60 * 1000;
+
+const DISPATCH_FIELDS =
+  'id,"orderId","branchId",status,"courierStaffId","readyAt","assignedAt","outForDeliveryAt","deliveredAt","notifiedAt","updatedAt"';
+
+const NAME_FIELDS = [
+  'email',
+  '"firstNameEncrypted"',
+  '"firstNameIv"',
+  '"firstNameTag"',
+  '"firstNameSalt"',
+  '"lastNameEncrypted"',
+  '"lastNameIv"',
+  '"lastNameTag"',
+  '"lastNameSalt"',
+];
+
+const DispatchSchema = z.object({
+  orderId: z.string().trim().min(1).max(120),
+  action: z.enum(['ready', 'assign', 'depart', 'deliver']),
+  courierStaffId: z.string().trim().min(1).max(120).optional().nullable(),
+});
+
+type DispatchRow = {
+  id: string;
+  orderId: string;
+  branchId?: string | null;
+  status: DeliveryBoardStatus;
+  courierStaffId?: string | null;
+  readyAt?: string | null;
+  assignedAt?: string | null;
+  outForDeliveryAt?: string | null;
+  deliveredAt?: string | null;
+  notifiedAt?: string | null;
+  updatedAt?: string | null;
+};
+
+const displayNameOf = (record: Record<string, unknown>) => {
+  const decrypted = withDecryptedUserNames(record as RawUserRecord);
+  const name = [decrypted?.firstName, decrypted?.lastName].filter(Boolean).join(' ').trim();
+  return name || (typeof record.email === 'string' ? record.email : null);
+};
+
+const loadCouriers = async (branchId: string | null) => {
+  let query = supabaseAdmin
+    .from(STAFF_TABLE)
+    .select(['id', 'role', '"branchId"', 'is_active', 'delivery_paused', 'delivery_pause_note', ...NAME_FIELDS].join(','))
+    .neq('role', 'superuser');
+  if (branchId) {
+    query = query.eq('branchId', branchId);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>)
+    .filter((row) => row.is_active !== false)
+    .map((row) => ({
+      staffId: String(row.id),
+      name: displayNameOf(row) ?? String(row.id),
+      role: typeof row.role === 'string' ? row.role : null,
+      branchId: typeof row.branchId === 'string' ? row.branchId : null,
+      paused: Boolean(row.delivery_paused),
+      note: typeof row.delivery_pause_note === 'string' ? row.delivery_pause_note : null,
+    }));
+};
+
+const CLOSED_ORDER_STATUSES = new Set(['voided', 'refunded', 'cancelled']);
+
+// Igual que el POS: es a domicilio si trae dirección de envío, ya sea en columna o en metadata.
+const isDeliveryOrder = (order: Record<string, unknown>) => {
+  if (order.shipping_address_id || order.sourceType === 'delivery') {
+    return true;
+  }
+  let metadata = order.metadata;
+  if (typeof metadata === 'string') {
+    try {
+      metadata = JSON.parse(metadata);
+    } catch {
+      return false;
+    }
+  }
+  return Boolean(
+    metadata &&
+      typeof metadata === 'object' &&
+      ((metadata as Record<string, unknown>).shipping || (metadata as Record<string, unknown>).delivery)
+  );
+};
+
+const toItemsSummary = (value: unknown) => {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!Array.isArray(parsed)) {
+    return undefined;
+  }
+  const items = parsed
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((entry) => ({
+      name: String(entry.name ?? entry.productName ?? entry.label ?? 'Producto'),
+      quantity: Number(entry.quantity ?? 1) || 1,
+      price: typeof entry.price === 'number' ? entry.price : null,
+    }));
+  return items.length ? items : undefined;
+};
+
+/** Avisa al cliente que su pedido llegó; un fallo del correo no revierte la entrega. */
+const notifyOrderDelivered = async (order: Record<string, unknown>, deliveredAt: string) => {
+  if (typeof order.userId !== 'string') {
+    return false;
+  }
+  const { data: customer, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select(NAME_FIELDS.join(','))
+    .eq('id', order.userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  const record = customer as unknown as Record<string, unknown> | null;
+  const email = typeof record?.email === 'string' ? record.email.trim() : '';
+  if (!record || !email) {
+    return false;
+  }
+  const result = await sendOrderDeliveredEmail({
+    to: email,
+    displayName: displayNameOf(record) ?? undefined,
+    orderNumber: String(order.orderNumber ?? order.id),
+    totalAmount: Number(order.total ?? 0),
+    currency: typeof order.currency === 'string' ? order.currency : undefined,
+    paymentMethod:
+      typeof order.queuedPaymentMethod === 'string' && order.queuedPaymentMethod
+        ? order.queuedPaymentMethod
+        : 'Pagado',
+    deliveredAt,
+    items: toItemsSummary(order.items),
+  });
+  return result.success;
+};
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff/delivery-dispatch');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const branchId = resolveBranchScope(request, auth.session);
+    const deliveredSince = new Date(Date.now() - DELIVERED_VISIBLE_MS).toISOString();
+
+    let query = supabaseAdmin
+      .from(DISPATCHES_TABLE)
+      .select(DISPATCH_FIELDS)
+      .or(`status.neq.delivered,deliveredAt.gte."${deliveredSince}"`)
+      .order('readyAt', { ascending: true });
+    if (branchId) {
+      query = query.eq('branchId', branchId);
+    }
+
+    const [{ data, error }, couriers] = await Promise.all([query, loadCouriers(branchId)]);
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    const names = new Map(couriers.map((courier) => [courier.staffId, courier.name]));
+    const dispatches = ((data ?? []) as unknown as DispatchRow[]).map((row) => ({
+      ...row,
+      courierName: row.courierStaffId ? names.get(row.courierStaffId) ?? null : null,
+    }));
+
+    return NextResponse.json({ success: true, data: { dispatches, couriers } });
+  } catch (error) {
+    console.error('Error fetching delivery dispatches:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos obtener el tablero de reparto.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Mueve un pedido a domicilio a su siguiente etapa y sella la hora. Al marcarlo
+ * entregado se envía el correo de pedido entregado.
+ */
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/staff/delivery-dispatch');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = DispatchSchema.parse(await request.json());
+    const isBarista = auth.session.role === 'barista';
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from(ORDERS_TABLE)
+      .select('id,"userId","orderNumber",status,total,currency,items,"queuedPaymentMethod","branchId","sourceType",shipping_address_id,metadata')
+      .eq('id', payload.orderId)
+      .maybeSingle();
+    if (orderError) {
+      throw new Error(orderError.message);
+    }
+    if (!order) {
+      return NextResponse.json({ success: false, error: 'No encontramos el pedido.' }, { status: 404 });
+    }
+    if (!isDeliveryOrder(order as Record<string, unknown>)) {
+      return NextResponse.json(
+        { success: false, error: 'El pedido no es a domicilio.' },
+        { status: 409 }
+      );
+    }
+    if (CLOSED_ORDER_STATUSES.has(String(order.status))) {
+      return NextResponse.json({ success: false, error: 'El pedido fue anulado.' }, { status: 409 });
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from(DISPATCHES_TABLE)
+      .select(DISPATCH_FIELDS)
+      .eq('orderId', payload.orderId)
+      .maybeSingle();
+    if (existingError) {
+      throw new Error(existingError.message);
+    }
+    const previous = existing as unknown as DispatchRow | null;
+
+    const nextStatus = resolveDeliveryTransition(previous?.status ?? 'pending', payload.action);
+    if (!nextStatus) {
+      return NextResponse.json(
+        { success: false, error: 'Ese cambio de etapa no aplica al pedido.' },
+        { status: 409 }
+      );
+    }
+
+    let courierStaffId = previous?.courierStaffId ?? null;
+    if (payload.action === 'assign') {
+      courierStaffId = payload.courierStaffId ?? null;
+      if (!courierStaffId) {
+        return NextResponse.json(
+          { success: false, error: 'Selecciona al repartidor.' },
+          { status: 400 }
+        );
+      }
+      if (isBarista && courierStaffId !== auth.session.staffId) {
+        return NextResponse.json(
+          { success: false, error: 'Solo puedes asignarte entregas a ti.' },
+          { status: 403 }
+        );
+      }
+      const { data: courier, error: courierError } = await supabaseAdmin
+        .from(STAFF_TABLE)
+        .select('id,is_active,delivery_paused')
+        .eq('id', courierStaffId)
+        .maybeSingle();
+      if (courierError) {
+        throw new Error(courierError.message);
+      }
+      if (!courier || courier.is_active === false) {
+        return NextResponse.json(
+          { success: false, error: 'No encontramos al repartidor.' },
+          { status: 404 }
+        );
+      }
+      if (courier.delivery_paused) {
+        return NextResponse.json(
+          { success: false, error: 'El repartidor tiene sus entregas en pausa.' },
+          { status: 409 }
+        );
+      }
+    } else if (isBarista && previous?.courierStaffId && previous.courierStaffId !== auth.session.staffId) {
+      return NextResponse.json(
+        { success: false, error: 'Solo el repartidor asignado puede actualizar la entrega.' },
+        { status: 403 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<string, unknown> = {
+      status: nextStatus,
+      [DELIVERY_STAGE_TIMESTAMPS[nextStatus]]: now,
+      courierStaffId,
+      updatedByStaffId: auth.session.staffId,
+      updatedAt: now,
+    };
+
+    const { data: saved, error: saveError } = previous
+      ? await supabaseAdmin
+          .from(DISPATCHES_TABLE)
+          .update(updates)
+          .eq('id', previous.id)
+          .select(DISPATCH_FIELDS)
+          .maybeSingle()
+      : await supabaseAdmin
+          .from(DISPATCHES_TABLE)
+          .insert({
+            id: randomUUID(),
+            orderId: payload.orderId,
+            branchId: order.branchId ?? null,
+            ...updates,
+          })
+          .select(DISPATCH_FIELDS)
+          .maybeSingle();
+    if (saveError) {
+      throw new Error(saveError.message);
+    }
+    const dispatch = saved as unknown as DispatchRow;
+
+    let emailSent = false;
+    if (nextStatus === 'delivered') {
+      try {
+        emailSent = await notifyOrderDelivered(order as Record<string, unknown>, now);
+        if (emailSent) {
+          await supabaseAdmin.from(DISPATCHES_TABLE).update({ notifiedAt: now }).eq('id', dispatch.id);
+          dispatch.notifiedAt = now;
+        }
+      } catch (mailError) {
+        console.warn('No pudimos enviar el correo de pedido entregado:', mailError);
+      }
+    }
+
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'delivery.dispatch',
+      before: previous,
+      after: updates,
+      details: { orderId: payload.orderId, action: payload.action, courierStaffId },
+    });
+
+    return NextResponse.json({ success: true, data: { ...dispatch, emailSent } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error updating delivery dispatch:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar el reparto.' },
+      { status: 500 }
+    );
+  }
+}
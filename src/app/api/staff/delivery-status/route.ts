@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin } from '@/lib/supabase-server';
 import { sqlite } from '@/lib/sqlite';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const STAFF_TABLE = process.env.SUPABASE_STAFF_TABLE ?? 'staff_users';
 const MAX_NOTE_LENGTH = 320;
@@ -62,6 +63,11 @@ const mapRecord = (record: {
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/staff/delivery-status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const staffId = sanitizeStaffId(searchParams.get('staffId'));
@@ -99,6 +105,11 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/staff/delivery-status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const payload = (await request.json()) as { staffId?: string; paused?: boolean; note?: string | null };
     const staffId = sanitizeStaffId(payload?.staffId);
@@ -111,6 +122,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (staffId !== auth.session.staffId && auth.session.role === 'barista') {
+      return NextResponse.json(
+        { success: false, error: 'Solo puedes pausar tus propias entregas.' },
+        { status: 403 }
+      );
+    }
+
     const now = new Date().toISOString();
     const note = paused ? sanitizeNote(payload?.note) : null;
     const pausedAt = paused ? now : null;
@@ -0,0 +1,104 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { STOCK_COUNT_LINES_TABLE, loadStockCount } from '@/lib/stock-counts';
+
+const RecordLinesSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        itemId: z.string().trim().min(1),
+        countedQuantity: z.number().nonnegative().nullable(),
+      })
+    )
+    .min(1),
+});
+
+export async function PATCH(request: Request, context: { params: { countId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/stock-counts/[countId]/lines');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const countId = context.params?.countId?.trim();
+  if (!countId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del conteo' }, { status: 400 });
+  }
+
+  try {
+    const payload = RecordLinesSchema.parse(await request.json());
+    const count = await loadStockCount(countId);
+    if (!count) {
+      return NextResponse.json({ success: false, error: 'Conteo no encontrado' }, { status: 404 });
+    }
+    if (count.status !== 'open') {
+      return NextResponse.json(
+        { success: false, error: 'El conteo ya fue cerrado' },
+        { status: 409 }
+      );
+    }
+    const lineByItem = new Map(count.lines.map((line) => [line.itemId, line]));
+    const unknown = payload.lines.find((line) => !lineByItem.has(line.itemId));
+    if (unknown) {
+      return NextResponse.json(
+        { success: false, error: 'Ese insumo no forma parte del conteo' },
+        { status: 400 }
+      );
+    }
+
+    const countedAt = new Date().toISOString();
+    for (const entry of payload.lines) {
+      const { error } = await supabaseAdmin
+        .from(STOCK_COUNT_LINES_TABLE)
+        .update({
+          countedQuantity: entry.countedQuantity,
+          countedByStaffId: entry.countedQuantity === null ? null : auth.session.staffId,
+          countedAt: entry.countedQuantity === null ? null : countedAt,
+        })
+        .eq('id', lineByItem.get(entry.itemId)!.id);
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+
+    return NextResponse.json({ success: true, data: await loadStockCount(countId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error guardando cantidades contadas:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos guardar las cantidades contadas' },
+      { status: 500 }
+    );
+  }
+}
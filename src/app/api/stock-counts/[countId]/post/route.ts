@@ -0,0 +1,93 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { loadStockCount, postStockCountAdjustments } from '@/lib/stock-counts';
+
+export async function POST(request: Request, context: { params: { countId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/stock-counts/[countId]/post');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const countId = context.params?.countId?.trim();
+  if (!countId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del conteo' }, { status: 400 });
+  }
+
+  try {
+    const count = await loadStockCount(countId);
+    if (!count) {
+      return NextResponse.json({ success: false, error: 'Conteo no encontrado' }, { status: 404 });
+    }
+    if (!count.totals.counted) {
+      return NextResponse.json(
+        { success: false, error: 'Captura al menos una cantidad antes de contabilizar' },
+        { status: 400 }
+      );
+    }
+    const posted = await postStockCountAdjustments(count, auth.session.staffId);
+    if (!posted) {
+      return NextResponse.json(
+        { success: false, error: 'El conteo ya fue contabilizado o cancelado' },
+        { status: 409 }
+      );
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.stock_count.post',
+      details: {
+        countId,
+        folio: count.folio,
+        branchId: count.branchId,
+        totals: count.totals,
+        adjustments: count.lines
+          .filter((line) => line.varianceQuantity)
+          .map((line) => ({
+            itemId: line.itemId,
+            expected: line.expectedQuantity,
+            counted: line.countedQuantity,
+            variance: line.varianceQuantity,
+            varianceValue: line.varianceValue,
+          })),
+      },
+    });
+
+    return NextResponse.json({ success: true, data: await loadStockCount(countId) });
+  } catch (error) {
+    console.error('Error contabilizando conteo físico:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos contabilizar el conteo' },
+      { status: 500 }
+    );
+  }
+}
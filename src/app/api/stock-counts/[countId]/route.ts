@@ -0,0 +1,115 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { STOCK_COUNTS_TABLE, buildStockCountCsv, loadStockCount } from '@/lib/stock-counts';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request, context: { params: { countId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/stock-counts/[countId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const countId = context.params?.countId?.trim();
+  if (!countId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del conteo' }, { status: 400 });
+  }
+
+  try {
+    const count = await loadStockCount(countId);
+    if (!count) {
+      return NextResponse.json({ success: false, error: 'Conteo no encontrado' }, { status: 404 });
+    }
+    const { searchParams } = new URL(request.url);
+    if ((searchParams.get('format') ?? 'json').toLowerCase() === 'csv') {
+      return new NextResponse(buildStockCountCsv(count), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="conteo-${count.folio}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, data: count });
+  } catch (error) {
+    console.error('Error obteniendo conteo físico:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar el conteo' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, context: { params: { countId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/stock-counts/[countId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const countId = context.params?.countId?.trim();
+  if (!countId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del conteo' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(STOCK_COUNTS_TABLE)
+      .update({ status: 'cancelled', cancelledAt: new Date().toISOString() })
+      .eq('id', countId)
+      .eq('status', 'open')
+      .select('id,folio');
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data?.length) {
+      return NextResponse.json(
+        { success: false, error: 'Solo puedes cancelar conteos abiertos' },
+        { status: 409 }
+      );
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.stock_count.cancel',
+      details: { countId, folio: data[0].folio },
+    });
+
+    return NextResponse.json({ success: true, data: await loadStockCount(countId) });
+  } catch (error) {
+    console.error('Error cancelando conteo físico:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cancelar el conteo' },
+      { status: 500 }
+    );
+  }
+}
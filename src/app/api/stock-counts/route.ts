@@ -0,0 +1,100 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { loadStockCountOverview, openStockCount } from '@/lib/stock-counts';
+
+export const dynamic = 'force-dynamic';
+
+const OpenCountSchema = z.object({
+  branchId: z.string().trim().optional().nullable(),
+  itemIds: z.array(z.string().trim().min(1)).optional(),
+  notes: z.string().trim().max(500).optional().nullable(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/stock-counts');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const overview = await loadStockCountOverview();
+    return NextResponse.json({ success: true, data: overview });
+  } catch (error) {
+    console.error('Error obteniendo conteos físicos:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar los conteos' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/stock-counts');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = OpenCountSchema.parse(await request.json());
+    const count = await openStockCount({ ...payload, staffId: auth.session.staffId });
+    if (!count) {
+      return NextResponse.json(
+        { success: false, error: 'No hay insumos activos para contar' },
+        { status: 400 }
+      );
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.stock_count.open',
+      details: {
+        countId: count.id,
+        folio: count.folio,
+        branchId: count.branchId,
+        itemIds: count.lines.map((line) => line.itemId),
+      },
+    });
+
+    return NextResponse.json({ success: true, data: count });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error abriendo conteo físico:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos abrir el conteo' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import { SUPPLIERS_TABLE, loadSupplier, replaceSupplierItems } from '@/lib/purchase-orders';
+
+const SupplierItemSchema = z.object({
+  itemId: z.string().trim().min(1),
+  supplierSku: z.string().trim().max(60).optional().nullable(),
+  packLabel: z.string().trim().max(80).optional().nullable(),
+  packSize: z.number().positive(),
+  unitCost: z.number().nonnegative().optional().nullable(),
+  isPreferred: z.boolean().optional(),
+});
+
+const UpdateSupplierSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    contactName: z.string().trim().max(120).nullable(),
+    phone: z.string().trim().max(30).nullable(),
+    whatsapp: z.string().trim().max(30).nullable(),
+    email: z.string().trim().email().nullable().or(z.literal('')),
+    leadTimeDays: z.number().int().min(0).max(90),
+    notes: z.string().trim().max(500).nullable(),
+    isActive: z.boolean(),
+    items: z.array(SupplierItemSchema),
+  })
+  .partial();
+
+export async function PATCH(request: Request, context: { params: { supplierId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/suppliers/[supplierId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const supplierId = context.params?.supplierId?.trim();
+  if (!supplierId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del proveedor' }, { status: 400 });
+  }
+
+  try {
+    const { items, ...fields } = UpdateSupplierSchema.parse(await request.json());
+    if (!Object.keys(fields).length && !items) {
+      return NextResponse.json({ success: false, error: 'No hay cambios por guardar' }, { status: 400 });
+    }
+
+    const existing = await loadSupplier(supplierId);
+    if (!existing) {
+      return NextResponse.json({ success: false, error: 'Proveedor no encontrado' }, { status: 404 });
+    }
+
+    const update = Object.fromEntries(
+      Object.entries(fields).map(([key, value]) => [key, value === '' ? null : value])
+    );
+    if (Object.keys(update).length) {
+      const { error } = await supabaseAdmin
+        .from(SUPPLIERS_TABLE)
+        .update({ ...update, updatedAt: new Date().toISOString() })
+        .eq('id', supplierId);
+      if (error) {
+        throw new Error(error.message);
+      }
+    }
+    if (items) {
+      await replaceSupplierItems(supplierId, items);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.supplier.update',
+      details: {
+        supplierId,
+        before: {
+          ...Object.fromEntries(
+            Object.keys(update).map((key) => [key, existing[key as keyof typeof existing] ?? null])
+          ),
+          ...(items ? { items: existing.items } : {}),
+        },
+        after: { ...update, ...(items ? { items } : {}) },
+      },
+    });
+
+    return NextResponse.json({ success: true, data: await loadSupplier(supplierId) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error actualizando proveedor:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos actualizar al proveedor' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Baja lógica: el proveedor conserva su historial de órdenes y gasto. */
+export async function DELETE(request: Request, context: { params: { supplierId?: string } }) {
+  const auth = await requireStaffSession(request, '/api/suppliers/[supplierId]');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  const supplierId = context.params?.supplierId?.trim();
+  if (!supplierId) {
+    return NextResponse.json({ success: false, error: 'Falta el ID del proveedor' }, { status: 400 });
+  }
+
+  try {
+    const { data, error } = await supabaseAdmin
+      .from(SUPPLIERS_TABLE)
+      .update({ isActive: false, updatedAt: new Date().toISOString() })
+      .eq('id', supplierId)
+      .select('id,name')
+      .maybeSingle();
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      return NextResponse.json({ success: false, error: 'Proveedor no encontrado' }, { status: 404 });
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.supplier.deactivate',
+      details: { supplierId, name: data.name },
+    });
+
+    return NextResponse.json({ success: true, data: { id: supplierId } });
+  } catch (error) {
+    console.error('Error dando de baja proveedor:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos dar de baja al proveedor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logCatalogAction } from '@/lib/catalog-admin';
+import {
+  SUPPLIERS_TABLE,
+  loadSupplier,
+  loadSupplierDirectory,
+  replaceSupplierItems,
+} from '@/lib/purchase-orders';
+
+export const dynamic = 'force-dynamic';
+
+const SupplierItemSchema = z.object({
+  itemId: z.string().trim().min(1),
+  supplierSku: z.string().trim().max(60).optional().nullable(),
+  packLabel: z.string().trim().max(80).optional().nullable(),
+  packSize: z.number().positive(),
+  unitCost: z.number().nonnegative().optional().nullable(),
+  isPreferred: z.boolean().optional(),
+});
+
+const CreateSupplierSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  contactName: z.string().trim().max(120).optional().nullable(),
+  phone: z.string().trim().max(30).optional().nullable(),
+  whatsapp: z.string().trim().max(30).optional().nullable(),
+  email: z.string().trim().email().optional().nullable().or(z.literal('')),
+  leadTimeDays: z.number().int().min(0).max(90).optional(),
+  notes: z.string().trim().max(500).optional().nullable(),
+  items: z.array(SupplierItemSchema).optional(),
+});
+
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/suppliers');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const directory = await loadSupplierDirectory();
+    return NextResponse.json({ success: true, data: directory });
+  } catch (error) {
+    console.error('Error obteniendo proveedores:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos cargar los proveedores' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const auth = await requireStaffSession(request, '/api/suppliers');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const payload = CreateSupplierSchema.parse(await request.json());
+    const record = {
+      id: randomUUID(),
+      name: payload.name,
+      contactName: payload.contactName || null,
+      phone: payload.phone || null,
+      whatsapp: payload.whatsapp || null,
+      email: payload.email || null,
+      leadTimeDays: payload.leadTimeDays ?? 1,
+      notes: payload.notes || null,
+      isActive: true,
+    };
+    const { error } = await supabaseAdmin.from(SUPPLIERS_TABLE).insert(record);
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (payload.items?.length) {
+      await replaceSupplierItems(record.id, payload.items);
+    }
+
+    await logCatalogAction({
+      request,
+      session: auth.session,
+      action: 'inventory.supplier.create',
+      details: { supplierId: record.id, after: { ...record, items: payload.items ?? [] } },
+    });
+
+    return NextResponse.json({ success: true, data: await loadSupplier(record.id) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ success: false, error: 'Datos inválidos' }, { status: 400 });
+    }
+    console.error('Error registrando proveedor:', error);
+    return NextResponse.json(
+      { success: false, error: 'No pudimos registrar al proveedor' },
+      { status: 500 }
+    );
+  }
+}
@@ -31,6 +31,8 @@ import { supabaseAdmin } from '@/lib/supabase-server';
 
 export const dynamic = 'force-dynamic';
 import { withDecryptedUserNames } from '@/lib/customer-decrypt';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { resolveBranchScope } from '@/lib/auth/branch-scope';
 
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
 const TICKETS_TABLE = process.env.SUPABASE_TICKETS_TABLE ?? 'tickets';
@@ -143,6 +145,11 @@ const extractClientId = (
 };
 
 export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/transactions-history');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
@@ -205,6 +212,10 @@ export async function GET(request: Request) {
       .order('createdAt', { ascending: false })
       .limit(MAX_RESULTS);
 
+    const branchId = resolveBranchScope(request, auth.session);
+    if (branchId) {
+      orderQuery = orderQuery.eq('branchId', branchId);
+    }
     if (status) {
       orderQuery = orderQuery.eq('status', status);
     }
@@ -332,11 +343,19 @@ export async function GET(request: Request) {
       }
     }
 
+    // Los reembolsos se guardan como pagos negativos; no deben reemplazar al cobro original.
     const paymentMap = new Map(
       (payments ?? [])
-        .filter((payment) => typeof payment.orderId === 'string')
+        .filter((payment) => typeof payment.orderId === 'string' && (normalizeNumber(payment.amount) ?? 0) >= 0)
         .map((payment) => [payment.orderId as string, payment])
     );
+    const refundedMap = new Map<string, number>();
+    (payments ?? []).forEach((payment) => {
+      const amount = normalizeNumber(payment.amount) ?? 0;
+      if (typeof payment.orderId === 'string' && amount < 0) {
+        refundedMap.set(payment.orderId, (refundedMap.get(payment.orderId) ?? 0) + Math.abs(amount));
+      }
+    });
 
     const transactions = Array.from(orderMap.values()).map((order) => {
       const normalizedOrderId = typeof order.id === 'string' ? order.id : null;
@@ -376,6 +395,7 @@ export async function GET(request: Request) {
         payment,
         total: normalizeNumber(order.total),
         tip: normalizeNumber(ticket?.tipAmount ?? payment?.tipAmount),
+        refundedAmount: normalizedOrderId ? refundedMap.get(normalizedOrderId) ?? null : null,
         status: order.status,
         createdAt: order.createdAt,
       };
@@ -27,83 +27,31 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin } from '@/lib/supabase-server';
-import { LOYALTY_STAMPS_TARGET, addWeeklyPunches } from '@/lib/loyalty';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { logAuditAction } from '@/lib/audit-log';
 import {
-  LOYALTY_PRODUCTS_REQUIRED_ERROR,
-  ensureLoyaltyProductsConfigured,
-  recalculateWeeklyCoffeeCount,
+  LOYALTY_PROGRAMS_REQUIRED_ERROR,
+  addManualStamps,
+  recalculateLoyaltyProgress,
+  resetPrimaryLoyaltyCard,
 } from '@/lib/loyalty-sync';
+import { buildErrorResponse, extractUserIdentifier, fetchUserRecord } from '../user-identifier';
 
-const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
-const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
-
-type UserIdentifier = { userId?: string | null; clientId?: string | null };
-
-const buildErrorResponse = (message: string, status = 400) =>
-  NextResponse.json({ success: false, error: message }, { status });
-
-const extractUserIdentifier = (request: NextRequest, payload?: Record<string, unknown> | null): UserIdentifier => {
-  const url = new URL(request.url);
-  const searchParams = url.searchParams;
-  const userId = payload?.userId ?? payload?.user_id ?? searchParams.get('userId') ?? searchParams.get('user_id');
-  const clientId =
-    payload?.clientId ??
-    payload?.client_id ??
-    payload?.token ??
-    searchParams.get('clientId') ??
-    searchParams.get('client_id') ??
-    searchParams.get('token');
-  return {
-    userId: typeof userId === 'string' && userId.trim() ? userId.trim() : null,
-    clientId: typeof clientId === 'string' && clientId.trim() ? clientId.trim() : null,
-  };
-};
-
-const fetchUserRecord = async (identifier: UserIdentifier) => {
-  const filters = [];
-  if (identifier.userId) {
-    filters.push(`id.eq.${identifier.userId}`);
-  }
-  if (identifier.clientId) {
-    filters.push(`"clientId".eq.${identifier.clientId}`);
-  }
-
-  if (!filters.length) {
-    throw new Error('IDENTIFIER_MISSING');
-  }
-
-  const { data, error } = await supabaseAdmin
-    .from(USERS_TABLE)
-    .select('id,"clientId","weeklyCoffeeCount","rewardEarned"')
-    .or(filters.join(','))
-    .maybeSingle();
-
-  if (error) {
-    throw error;
-  }
-  if (!data) {
-    throw new Error('USER_NOT_FOUND');
+export async function GET(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/user/coffee-count');
+  if (!auth.ok) {
+    return auth.response;
   }
-  return data as {
-    id: string;
-    clientId?: string | null;
-    weeklyCoffeeCount?: number | null;
-    rewardEarned?: boolean | null;
-  };
-};
 
-export async function GET(request: NextRequest) {
   try {
-    ensureLoyaltyProductsConfigured();
     const identifier = extractUserIdentifier(request);
     const user = await fetchUserRecord(identifier);
-    const result = await recalculateWeeklyCoffeeCount(user.id);
+    const result = await recalculateLoyaltyProgress(user.id);
     return NextResponse.json({ success: true, data: result });
   } catch (error) {
     if (error instanceof Error) {
-      if (error.message === LOYALTY_PRODUCTS_REQUIRED_ERROR) {
-        return buildErrorResponse('Define LOYALTY_ELIGIBLE_PRODUCTS para usar este endpoint.', 500);
+      if (error.message === LOYALTY_PROGRAMS_REQUIRED_ERROR) {
+        return buildErrorResponse('Activa un programa de lealtad para usar este endpoint.', 500);
       }
       if (error.message === 'IDENTIFIER_MISSING') {
         return buildErrorResponse('Proporciona userId o clientId para recalcular el contador.');
@@ -118,46 +66,51 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/user/coffee-count');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
-    ensureLoyaltyProductsConfigured();
     const payload = (await request.json().catch(() => null)) as Record<string, unknown> | null;
     const identifier = extractUserIdentifier(request, payload);
     const punches = Number(payload?.punches ?? 1);
     const increment = Number.isFinite(punches) ? Math.max(1, Math.floor(punches)) : 1;
 
     const user = await fetchUserRecord(identifier);
-    if (user.rewardEarned) {
-      return buildErrorResponse('El cliente tiene un Americano pendiente de canje. Resetea antes de sumar más.', 409);
-    }
-
-    const nextState = addWeeklyPunches(user.weeklyCoffeeCount ?? 0, increment);
-    const { error: updateError } = await supabaseAdmin
-      .from(USERS_TABLE)
-      .update({
-        weeklyCoffeeCount: nextState.weeklyCoffeeCount,
-        rewardEarned: nextState.rewardEarned,
-      })
-      .eq('id', user.id)
-      .select('weeklyCoffeeCount,rewardEarned')
-      .maybeSingle();
-
-    if (updateError) {
-      throw updateError;
-    }
+    const reason = typeof payload?.reason === 'string' && payload.reason.trim() ? payload.reason.trim() : undefined;
+    const card = await addManualStamps(user.id, increment, { reason, staffId: auth.session.staffId });
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'loyalty.adjust',
+      level: 'warning',
+      details: {
+        userId: user.id,
+        programId: card.programId,
+        stamps: increment,
+        reason: reason ?? null,
+        source: 'coffee-count',
+      },
+    });
 
     return NextResponse.json({
       success: true,
       data: {
         userId: user.id,
-        weeklyCoffeeCount: nextState.weeklyCoffeeCount,
-        rewardEarned: nextState.rewardEarned,
-        maxStamps: LOYALTY_STAMPS_TARGET,
+        weeklyCoffeeCount: card.stamps,
+        rewardEarned: card.rewardsAvailable > 0,
+        maxStamps: card.stampsTarget,
+        programId: card.programId,
       },
     });
   } catch (error) {
     if (error instanceof Error) {
-      if (error.message === LOYALTY_PRODUCTS_REQUIRED_ERROR) {
-        return buildErrorResponse('Define LOYALTY_ELIGIBLE_PRODUCTS antes de consumir este endpoint.', 500);
+      if (error.message === LOYALTY_PROGRAMS_REQUIRED_ERROR) {
+        return buildErrorResponse('Activa un programa de lealtad antes de consumir este endpoint.', 500);
+      }
+      if (error.message === 'REWARD_PENDING') {
+        return buildErrorResponse('El cliente tiene un Americano pendiente de canje. Resetea antes de sumar más.', 409);
       }
       if (error.message === 'IDENTIFIER_MISSING') {
         return buildErrorResponse('Envía userId o clientId en la petición.');
@@ -172,19 +125,23 @@ export async function POST(request: NextRequest) {
 }
 
 export async function PUT(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/user/coffee-count');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const payload = (await request.json().catch(() => null)) as Record<string, unknown> | null;
     const identifier = extractUserIdentifier(request, payload);
     const user = await fetchUserRecord(identifier);
-
-    const { error } = await supabaseAdmin
-      .from(USERS_TABLE)
-      .update({ weeklyCoffeeCount: 0, rewardEarned: false })
-      .eq('id', user.id);
-
-    if (error) {
-      throw error;
-    }
+    await resetPrimaryLoyaltyCard(user.id, auth.session.staffId);
+    await logAuditAction({
+      request,
+      session: auth.session,
+      action: 'loyalty.adjust',
+      level: 'warning',
+      details: { userId: user.id, reset: true, source: 'coffee-count' },
+    });
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,100 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireStaffSession } from '@/lib/auth/route-guard';
+import { loadLoyaltyLedger, loadLoyaltyPointBalances, loadLoyaltyPrograms } from '@/lib/loyalty-sync';
+import { LOYALTY_ENTRY_LABELS, buildLegacyLoyaltyProgram } from '@/lib/loyalty-programs';
+import { buildErrorResponse, extractUserIdentifier, fetchUserRecord } from '../user-identifier';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HISTORY_ENTRIES = 500;
+
+export async function GET(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/user/loyalty-history');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const identifier = extractUserIdentifier(request);
+    const user = await fetchUserRecord(identifier);
+    const requestedLimit = Number(new URL(request.url).searchParams.get('limit'));
+    const limit =
+      Number.isFinite(requestedLimit) && requestedLimit > 0
+        ? Math.min(Math.floor(requestedLimit), MAX_HISTORY_ENTRIES)
+        : undefined;
+
+    const [entries, pointBalances, programs] = await Promise.all([
+      loadLoyaltyLedger(user.id, limit),
+      loadLoyaltyPointBalances([user.id]),
+      loadLoyaltyPrograms(),
+    ]);
+    const names = new Map(
+      [...programs, buildLegacyLoyaltyProgram()].map((program) => [program.id, program.name])
+    );
+    const balances = Array.from(pointBalances.get(user.id)?.entries() ?? []).map(([programId, points]) => ({
+      programId,
+      programName: names.get(programId) ?? 'Programa anterior',
+      points,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        userId: user.id,
+        balances,
+        entries: entries.map((entry) => ({
+          id: entry.id,
+          programId: entry.programId ?? null,
+          programName: entry.programId ? names.get(entry.programId) ?? null : null,
+          entryType: entry.entryType,
+          label: LOYALTY_ENTRY_LABELS[entry.entryType] ?? entry.entryType,
+          points: entry.points,
+          stamps: entry.stamps,
+          reason: entry.reason,
+          orderId: entry.orderId ?? null,
+          expiresAt: entry.expiresAt ?? null,
+          createdAt: entry.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === 'IDENTIFIER_MISSING') {
+        return buildErrorResponse('Proporciona userId o clientId para consultar el historial.');
+      }
+      if (error.message === 'USER_NOT_FOUND') {
+        return buildErrorResponse('No encontramos al cliente indicado.', 404);
+      }
+    }
+    console.error('GET /api/user/loyalty-history falló', error);
+    return buildErrorResponse('No pudimos cargar el historial de lealtad.', 502);
+  }
+}
@@ -0,0 +1,88 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+
+// Rutas de /api/user: identifican al cliente por userId o clientId.
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+
+export type UserIdentifier = { userId?: string | null; clientId?: string | null };
+
+export const buildErrorResponse = (message: string, status = 400) =>
+  NextResponse.json({ success: false, error: message }, { status });
+
+export const extractUserIdentifier = (request: NextRequest, payload?: Record<string, unknown> | null): UserIdentifier => {
+  const url = new URL(request.url);
+  const searchParams = url.searchParams;
+  const userId = payload?.userId ?? payload?.user_id ?? searchParams.get('userId') ?? searchParams.get('user_id');
+  const clientId =
+    payload?.clientId ??
+    payload?.client_id ??
+    payload?.token ??
+    searchParams.get('clientId') ??
+    searchParams.get('client_id') ??
+    searchParams.get('token');
+  return {
+    userId: typeof userId === 'string' && userId.trim() ? userId.trim() : null,
+    clientId: typeof clientId === 'string' && clientId.trim() ? clientId.trim() : null,
+  };
+};
+
+export const fetchUserRecord = async (identifier: UserIdentifier) => {
+  const filters = [];
+  if (identifier.userId) {
+    filters.push(`id.eq.${identifier.userId}`);
+  }
+  if (identifier.clientId) {
+    filters.push(`"clientId".eq.${identifier.clientId}`);
+  }
+
+  if (!filters.length) {
+    throw new Error('IDENTIFIER_MISSING');
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select('id,"clientId","weeklyCoffeeCount","rewardEarned"')
+    .or(filters.join(','))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new Error('USER_NOT_FOUND');
+  }
+  return data as {
+    id: string;
+    clientId?: string | null;
+    weeklyCoffeeCount?: number | null;
+    rewardEarned?: boolean | null;
+  };
+};
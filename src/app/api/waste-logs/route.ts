@@ -38,6 +38,7 @@ import {
   markSupabaseHealthy,
   shouldPreferSupabase,
 } from '@/lib/offline-sync';
+import { requireStaffSession } from '@/lib/auth/route-guard';
 
 const TABLE = process.env.SUPABASE_WASTE_TABLE ?? 'waste_logs';
 const SQLITE_TABLE = 'waste_logs';
@@ -148,7 +149,12 @@ const queueWasteInsert = async (payload: Record<string, unknown>) => {
   ]);
 };
 
-export async function GET() {
+export async function GET(request: Request) {
+  const auth = await requireStaffSession(request, '/api/waste-logs');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const preferSupabase = shouldPreferSupabase();
     const loadFromSqlite = async () => {
@@ -198,6 +204,11 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireStaffSession(request, '/api/waste-logs');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     await flushPendingOperations();
     const payload = (await request.json()) as {
@@ -228,7 +239,7 @@ export async function POST(request: NextRequest) {
       trashRemoved: Boolean(payload.trashRemoved),
       binsWashed: Boolean(payload.binsWashed),
       branchId: payload.branchId ?? null,
-      staffId: payload.staffId ?? null,
+      staffId: auth.session.staffId,
       createdAt,
     };
     const localRecord = normalizeRecord(insertPayload);
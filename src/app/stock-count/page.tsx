@@ -0,0 +1,55 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { LoginPanel } from '@/components/auth/login-panel';
+import { StockCountPanel } from '@/components/stock-count-panel';
+import { useAuth } from '@/providers/auth-provider';
+
+export default function StockCountPage() {
+  const { user } = useAuth();
+  if (!user) {
+    return <LoginPanel />;
+  }
+  return (
+    <main className="mx-auto max-w-5xl space-y-4 p-4">
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Conteo físico de inventario</h1>
+        <Link
+          href="/"
+          className="text-sm font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+        >
+          Volver al POS
+        </Link>
+      </header>
+      <StockCountPanel canManage={user.role !== 'barista'} defaultBranchId={user.branchId} />
+    </main>
+  );
+}
@@ -0,0 +1,252 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  buildAuditLogCsvUrl,
+  fetchAuditLogs,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type StaffMember,
+} from '@/lib/api';
+
+const AUDIT_MODULES = [
+  { value: '', label: 'Todas las acciones' },
+  { value: 'auth', label: 'Accesos y contraseñas' },
+  { value: 'pos', label: 'Configuración del POS' },
+  { value: 'order', label: 'Pedidos' },
+  { value: 'reservation', label: 'Reservaciones' },
+  { value: 'inventory', label: 'Inventario y compras' },
+  { value: 'catalog', label: 'Catálogo' },
+  { value: 'promotion', label: 'Promociones' },
+  { value: 'invoice', label: 'Facturación' },
+  { value: 'customer', label: 'Clientes' },
+  { value: 'governance', label: 'Gobernanza' },
+];
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const readChanges = (entry: AuditLogEntry) => {
+  const changes = entry.details.changes;
+  if (!changes || typeof changes !== 'object') {
+    return [];
+  }
+  return Object.entries(changes as Record<string, { before?: unknown; after?: unknown }>);
+};
+
+export function AuditLogPanel({ staff }: { staff: StaffMember[] }) {
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async (nextFilters: AuditLogFilters) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setEntries(await fetchAuditLogs(nextFilters));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No pudimos cargar la bitácora.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadEntries(filters);
+  }, [filters, loadEntries]);
+
+  const updateFilter = (key: keyof AuditLogFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value || undefined }));
+  };
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className={LABEL_CLASS}>
+          Staff
+          <select
+            value={filters.staffId ?? ''}
+            onChange={(event) => updateFilter('staffId', event.target.value)}
+            className={FIELD_CLASS}
+          >
+            <option value="">Todo el staff</option>
+            {staff.map((member) => (
+              <option key={member.id} value={member.id}>
+                {member.email ?? member.id}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={LABEL_CLASS}>
+          Acción
+          <select
+            value={filters.action ?? ''}
+            onChange={(event) => updateFilter('action', event.target.value)}
+            className={FIELD_CLASS}
+          >
+            {AUDIT_MODULES.map((module) => (
+              <option key={module.value} value={module.value}>
+                {module.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={LABEL_CLASS}>
+          Desde
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(event) => updateFilter('from', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Hasta
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(event) => updateFilter('to', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <div className="ml-auto flex items-center gap-3 pb-1 text-xs">
+          {isLoading && <span className="text-[var(--brand-muted)]">Cargando…</span>}
+          <a
+            href={buildAuditLogCsvUrl(filters)}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Descargar CSV
+          </a>
+          <button
+            type="button"
+            onClick={() => void loadEntries(filters)}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Actualizar
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-semibold text-danger-600">{error}</p>}
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-[var(--brand-muted)]">
+          {isLoading ? 'Cargando bitácora…' : 'No hay acciones registradas con estos filtros.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[var(--brand-muted)]">
+              <tr>
+                <th className="py-1">Fecha</th>
+                <th className="py-1">Staff</th>
+                <th className="py-1">Acción</th>
+                <th className="py-1">IP</th>
+                <th className="py-1">Cambios</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => {
+                const changes = readChanges(entry);
+                const isExpanded = expandedId === entry.id;
+                return (
+                  <tr
+                    key={entry.id}
+                    className={`border-t border-primary-100/60 align-top dark:border-white/10 ${entry.level === 'warning' ? 'text-danger-600' : ''}`}
+                  >
+                    <td className="whitespace-nowrap py-1">
+                      {new Date(entry.createdAt).toLocaleString('es-MX', {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                    </td>
+                    <td className="py-1">
+                      {entry.staffEmail ?? entry.staffId ?? '—'}
+                      {entry.staffRole && (
+                        <span className="block text-[var(--brand-muted)]">{entry.staffRole}</span>
+                      )}
+                    </td>
+                    <td className="py-1 font-semibold">{entry.action}</td>
+                    <td className="py-1">
+                      {entry.ipAddress ?? '—'}
+                      {entry.userAgent && (
+                        <span className="block max-w-[14rem] truncate text-[var(--brand-muted)]" title={entry.userAgent}>
+                          {entry.userAgent}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1">
+                      {changes.length === 0 ? (
+                        <span className="text-[var(--brand-muted)]">Sin cambios de campos</span>
+                      ) : (
+                        <ul className="space-y-0.5">
+                          {changes.map(([field, change]) => (
+                            <li key={field}>
+                              <span className="font-semibold">{field}</span>: {formatValue(change.before)} →{' '}
+                              {formatValue(change.after)}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                        className="mt-1 font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+                      >
+                        {isExpanded ? 'Ocultar detalle' : 'Ver detalle'}
+                      </button>
+                      {isExpanded && (
+                        <pre className="mt-1 max-w-md overflow-x-auto whitespace-pre-wrap rounded-lg bg-primary-50/60 p-2 text-[11px] text-[var(--brand-text)] dark:bg-white/5">
+                          {JSON.stringify(entry.details, null, 2)}
+                        </pre>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
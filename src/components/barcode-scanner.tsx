@@ -0,0 +1,163 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+const BARCODE_FORMATS = ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39', 'qr_code'];
+
+/**
+ * Lector de códigos de barras para conteos y recepción. Usa BarcodeDetector cuando el
+ * navegador lo soporta y ZXing como respaldo; `onDetected` recibe cada lectura distinta.
+ */
+export function BarcodeScanner({ onDetected }: { onDetected: (value: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let raf: number | null = null;
+    let stopped = false;
+    let lastValue: string | null = null;
+    let lastAt = 0;
+    let fallbackControls: import('@zxing/browser').IScannerControls | null = null;
+
+    // Evitamos registrar el mismo código varias veces mientras sigue frente a la cámara.
+    const emit = (value: string) => {
+      const now = Date.now();
+      if (value === lastValue && now - lastAt < 1500) {
+        return;
+      }
+      lastValue = value;
+      lastAt = now;
+      onDetectedRef.current(value);
+    };
+
+    const start = async () => {
+      if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+        setCameraError('El navegador no permite abrir la cámara. Captura el código manualmente.');
+        return;
+      }
+
+      try {
+        if (typeof window !== 'undefined' && window.BarcodeDetector) {
+          stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+          if (stopped || !videoRef.current) {
+            return;
+          }
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => undefined);
+          setIsCameraReady(true);
+          const detector = new window.BarcodeDetector({ formats: BARCODE_FORMATS });
+          const scan = async () => {
+            if (stopped) {
+              return;
+            }
+            if (videoRef.current) {
+              try {
+                const barcodes = await detector.detect(videoRef.current);
+                if (barcodes.length > 0) {
+                  emit(barcodes[0].rawValue);
+                }
+              } catch {
+                // Ignoramos errores temporales del detector.
+              }
+            }
+            raf = requestAnimationFrame(scan);
+          };
+          void scan();
+          return;
+        }
+
+        const { BrowserMultiFormatReader } = await import('@zxing/browser');
+        const reader = new BrowserMultiFormatReader(undefined, {
+          delayBetweenScanAttempts: 200,
+          delayBetweenScanSuccess: 800,
+        });
+        if (stopped) {
+          return;
+        }
+        fallbackControls = await reader.decodeFromVideoDevice(
+          undefined,
+          videoRef.current ?? undefined,
+          (result) => {
+            if (result?.getText()) {
+              emit(result.getText());
+            }
+          }
+        );
+        if (stopped) {
+          fallbackControls.stop();
+          return;
+        }
+        setIsCameraReady(true);
+      } catch (error) {
+        setCameraError(
+          error instanceof Error
+            ? error.message
+            : 'No pudimos acceder a la cámara. Revisa los permisos del dispositivo.'
+        );
+      }
+    };
+
+    void start();
+
+    return () => {
+      stopped = true;
+      if (stream) {
+        stream.getTracks().forEach((track) => track.stop());
+      }
+      if (raf) {
+        cancelAnimationFrame(raf);
+      }
+      if (fallbackControls) {
+        fallbackControls.stop();
+      }
+    };
+  }, []);
+
+  return (
+    <div className="rounded-2xl border border-dashed border-primary-200/60 bg-black/80 p-3 text-center text-white dark:border-white/20">
+      <video
+        ref={videoRef}
+        className="mx-auto h-40 w-full max-w-md rounded-xl border border-white/10 object-cover"
+        playsInline
+        muted
+      />
+      {!isCameraReady && !cameraError && <p className="mt-2 text-xs text-white/80">Preparando la cámara…</p>}
+      {cameraError && <p className="mt-2 text-xs text-amber-300">{cameraError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { fetchBranches, selectBranch, type BranchScope } from '@/lib/api';
+
+export function BranchSwitcher() {
+  const [scope, setScope] = useState<BranchScope | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    fetchBranches()
+      .then((nextScope) => {
+        if (isMounted) {
+          setScope(nextScope);
+        }
+      })
+      .catch((err) => {
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : 'No pudimos cargar las sucursales.');
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  if (!scope?.canSwitch) {
+    return error ? <p className="text-xs text-danger-600">{error}</p> : null;
+  }
+
+  const handleChange = async (branchId: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await selectBranch(branchId);
+      // Todas las vistas leen la sucursal de la cookie; recargar evita datos mezclados.
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No pudimos cambiar de sucursal.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-[var(--brand-muted)]">
+      Sucursal
+      <select
+        value={scope.selected}
+        onChange={(event) => void handleChange(event.target.value)}
+        disabled={isSaving}
+        className="rounded-full border border-primary-200 bg-transparent px-3 py-1 text-xs font-semibold text-primary-600 dark:border-white/20 dark:text-primary-200"
+      >
+        <option value="all">Todas las sucursales</option>
+        {scope.branches.map((branch) => (
+          <option key={branch.id} value={branch.id}>
+            {branch.name}
+          </option>
+        ))}
+      </select>
+      {error && <span className="text-danger-600">{error}</span>}
+    </label>
+  );
+}
@@ -0,0 +1,473 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useMemo, useRef, useState, type FormEvent } from 'react';
+import { useCashRegister } from '@/hooks/use-cash-register';
+import {
+  closeCashShift,
+  fetchCashZReport,
+  openCashShift,
+  registerCashMovement,
+} from '@/lib/api';
+import {
+  CASH_DENOMINATIONS,
+  sumDenominationCount,
+  type CashDenominationCount,
+  type CashMovementType,
+  type CashShiftSummary,
+  type CashZReport,
+} from '@/lib/cash-shift';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-MX', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const CLOSE_STATE_STYLES: Record<string, string> = {
+  OK: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-100',
+  Faltante: 'bg-danger-100 text-danger-700 dark:bg-danger-900/40 dark:text-danger-100',
+  Sobrante: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-100',
+};
+
+const SALE_METHOD_LABELS: Record<string, string> = {
+  efectivo: 'Efectivo',
+  tarjeta: 'Tarjeta',
+  transferencia: 'Transferencia',
+};
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export function CashRegisterPanel() {
+  const { overview, isLoading, error, refresh } = useCashRegister();
+  const activeShift = overview?.activeShift ?? null;
+  const closings = overview?.closings ?? [];
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [movementType, setMovementType] = useState<CashMovementType>('gasto');
+  const [movementAmount, setMovementAmount] = useState('');
+  const [movementReason, setMovementReason] = useState('');
+  const [count, setCount] = useState<CashDenominationCount>({});
+  const [isClosing, setIsClosing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+  const [report, setReport] = useState<CashZReport | null>(null);
+  const countedTotal = useMemo(() => sumDenominationCount(count), [count]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const message = await action();
+      setFeedback({ message, error: null });
+      await refresh();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos actualizar la caja.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpen = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = parseAmount(openingFloat);
+    if (amount === null || amount < 0) {
+      setFeedback({ message: null, error: 'Captura el fondo inicial de caja.' });
+      return;
+    }
+    void runAction(async () => {
+      await openCashShift(amount);
+      setOpeningFloat('');
+      return 'Turno de caja abierto.';
+    });
+  };
+
+  const handleMovement = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const amount = parseAmount(movementAmount);
+    if (!amount || amount <= 0 || movementReason.trim().length < 3) {
+      setFeedback({ message: null, error: 'Indica monto y motivo del movimiento.' });
+      return;
+    }
+    void runAction(async () => {
+      await registerCashMovement({
+        tipo: movementType,
+        monto: amount,
+        motivo: movementReason.trim(),
+        turnoId: activeShift?.id,
+      });
+      setMovementAmount('');
+      setMovementReason('');
+      return movementType === 'gasto' ? 'Gasto registrado.' : 'Retiro registrado.';
+    });
+  };
+
+  const handleClose = () => {
+    void runAction(async () => {
+      const { result, report: closingReport } = await closeCashShift({
+        conteo: count,
+        turnoId: activeShift?.id,
+      });
+      setCount({});
+      setIsClosing(false);
+      setReport(closingReport);
+      return result.estado === 'OK'
+        ? 'Corte cuadrado.'
+        : `Corte con ${result.estado.toLowerCase()} de ${formatCurrency(Math.abs(result.diferencia))}.`;
+    });
+  };
+
+  const handleOpenReport = (shift: CashShiftSummary) => {
+    void runAction(async () => {
+      setReport(await fetchCashZReport(shift.id));
+      return '';
+    });
+  };
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Turno de caja</p>
+          <p className="text-[var(--brand-muted)]">
+            Fondo inicial, gastos de caja chica y corte ciego por denominación.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-[var(--brand-muted)]">
+          {isLoading && <span>Actualizando…</span>}
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Actualizar caja
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-semibold text-danger-600">{error}</p>}
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      {!activeShift ? (
+        <form onSubmit={handleOpen} className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+            Fondo inicial
+            <input
+              value={openingFloat}
+              onChange={(event) => setOpeningFloat(event.target.value)}
+              inputMode="decimal"
+              placeholder="0.00"
+              className="mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+            />
+          </label>
+          <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+            Abrir turno
+          </button>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-4">
+            <ShiftStat label="Apertura" value={formatDateTime(activeShift.fechaApertura)} />
+            <ShiftStat label="Fondo inicial" value={formatCurrency(activeShift.saldoInicial)} />
+            <ShiftStat label="Ventas en efectivo" value={formatCurrency(activeShift.totalVentasEfectivo)} />
+            <ShiftStat label="Gastos y retiros" value={formatCurrency(activeShift.totalGastosEfectivo)} />
+          </div>
+          {activeShift.saldoEsperado !== null && (
+            <p className="text-xs text-[var(--brand-muted)]">
+              Efectivo esperado en caja:{' '}
+              <span className="font-semibold text-[var(--brand-text)] dark:text-white">
+                {formatCurrency(activeShift.saldoEsperado)}
+              </span>
+            </p>
+          )}
+
+          <form onSubmit={handleMovement} className="flex flex-wrap items-end gap-3">
+            <label className="flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+              Movimiento
+              <select
+                value={movementType}
+                onChange={(event) => setMovementType(event.target.value as CashMovementType)}
+                className="mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm text-[var(--brand-text)] dark:border-white/20 dark:bg-white/5 dark:text-white"
+              >
+                <option value="gasto">Gasto de caja chica</option>
+                <option value="retiro">Retiro de efectivo</option>
+              </select>
+            </label>
+            <label className="flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+              Monto
+              <input
+                value={movementAmount}
+                onChange={(event) => setMovementAmount(event.target.value)}
+                inputMode="decimal"
+                placeholder="0.00"
+                className="mt-1 w-28 rounded-xl border border-primary-100/70 px-3 py-1 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+              />
+            </label>
+            <label className="flex flex-1 flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+              Motivo
+              <input
+                value={movementReason}
+                onChange={(event) => setMovementReason(event.target.value)}
+                placeholder="Ej. compra de hielo"
+                className="mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+              />
+            </label>
+            <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+              Registrar
+            </button>
+          </form>
+
+          {!isClosing ? (
+            <button
+              type="button"
+              onClick={() => setIsClosing(true)}
+              className="rounded-full border border-primary-200 px-3 py-1 text-xs font-semibold text-primary-700 transition hover:bg-primary-50 dark:border-white/20 dark:text-white dark:hover:bg-white/10"
+            >
+              Hacer corte de caja
+            </button>
+          ) : (
+            <div className="space-y-3 rounded-2xl border border-dashed border-primary-200/70 p-3 dark:border-white/20">
+              <p className="text-xs text-[var(--brand-muted)]">
+                Cuenta el efectivo por denominación. El sistema compara contra lo esperado al cerrar.
+              </p>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {CASH_DENOMINATIONS.map((denomination) => (
+                  <label key={denomination.id} className="flex items-center justify-between gap-2 text-xs">
+                    <span className="font-semibold">
+                      {denomination.label}
+                      <span className="ml-1 text-[var(--brand-muted)]">{denomination.kind}</span>
+                    </span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={count[denomination.id] ?? ''}
+                      onChange={(event) => {
+                        const pieces = Math.max(0, Math.floor(Number(event.target.value) || 0));
+                        setCount((prev) => ({ ...prev, [denomination.id]: pieces }));
+                      }}
+                      className="w-16 rounded-xl border border-primary-100/70 px-2 py-1 text-right text-sm dark:border-white/20 dark:bg-white/5"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm font-semibold">Contado: {formatCurrency(countedTotal)}</p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsClosing(false);
+                      setCount({});
+                    }}
+                    className="brand-button--ghost text-xs"
+                  >
+                    Cancelar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={isSubmitting}
+                    className="brand-button text-xs disabled:opacity-40"
+                  >
+                    Cerrar turno
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-[var(--brand-muted)]">Cortes anteriores</p>
+        {closings.length === 0 ? (
+          <p className="text-xs text-[var(--brand-muted)]">Aún no hay cortes registrados.</p>
+        ) : (
+          <ul className="space-y-2">
+            {closings.map((shift) => (
+              <li
+                key={shift.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-primary-100/60 px-3 py-2 text-xs dark:border-white/10"
+              >
+                <div>
+                  <p className="font-semibold">
+                    Turno #{shift.id} · {formatDateTime(shift.fechaCierre)}
+                  </p>
+                  <p className="text-[var(--brand-muted)]">
+                    Esperado {formatCurrency(shift.saldoEsperado)} · Contado {formatCurrency(shift.montoFisico)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {shift.estadoCorte && (
+                    <span
+                      className={`rounded-full px-2 py-0.5 font-semibold ${CLOSE_STATE_STYLES[shift.estadoCorte]}`}
+                    >
+                      {shift.estadoCorte}
+                      {shift.estadoCorte !== 'OK' && ` ${formatCurrency(Math.abs(shift.diferencia ?? 0))}`}
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => handleOpenReport(shift)}
+                    className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+                  >
+                    Reporte Z
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {report && <ZReportModal report={report} onClose={() => setReport(null)} />}
+    </div>
+  );
+}
+
+const ShiftStat = ({ label, value }: { label: string; value: string }) => (
+  <div className="rounded-2xl border border-primary-100/60 px-3 py-2 dark:border-white/10">
+    <p className="text-[11px] text-[var(--brand-muted)]">{label}</p>
+    <p className="font-semibold">{value}</p>
+  </div>
+);
+
+function ZReportModal({ report, onClose }: { report: CashZReport; onClose: () => void }) {
+  const printableRef = useRef<HTMLDivElement>(null);
+  const { turno } = report;
+
+  const handlePrint = () => {
+    const content = printableRef.current?.innerHTML;
+    const popup = window.open('', '_blank', 'width=420,height=640');
+    if (!content || !popup) {
+      return;
+    }
+    popup.document.write(
+      `<html><head><title>Reporte Z · Turno ${turno.id}</title>` +
+        '<style>body{font-family:monospace;font-size:12px;padding:16px}' +
+        'div{display:flex;justify-content:space-between}h2,h3,p{margin:4px 0}</style>' +
+        `</head><body>${content}</body></html>`
+    );
+    popup.document.close();
+    popup.focus();
+    popup.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur" role="presentation" onClick={onClose} />
+      <div className="relative z-10 max-h-[85vh] w-full max-w-md overflow-y-auto rounded-3xl bg-white p-6 text-sm text-gray-900 shadow-2xl">
+        <div ref={printableRef} className="space-y-2 font-mono text-xs">
+          <h2 className="text-base font-bold">Reporte Z · Turno #{turno.id}</h2>
+          <p>Apertura: {formatDateTime(turno.fechaApertura)}</p>
+          <p>Cierre: {formatDateTime(turno.fechaCierre)}</p>
+          <hr />
+          <h3 className="font-semibold">Ventas</h3>
+          {report.ventasPorMetodo.map((entry) => (
+            <div key={entry.metodo} className="flex justify-between">
+              <span>
+                {SALE_METHOD_LABELS[entry.metodo] ?? entry.metodo} ({entry.operaciones})
+              </span>
+              <span>{formatCurrency(entry.total)}</span>
+            </div>
+          ))}
+          {report.reembolsos.operaciones > 0 && (
+            <div className="flex justify-between">
+              <span>Reembolsos ({report.reembolsos.operaciones})</span>
+              <span>-{formatCurrency(report.reembolsos.total)}</span>
+            </div>
+          )}
+          <hr />
+          <h3 className="font-semibold">Caja chica</h3>
+          {report.movimientos.length === 0 ? (
+            <p>Sin movimientos.</p>
+          ) : (
+            report.movimientos.map((movement) => (
+              <div key={movement.id} className="flex justify-between">
+                <span>
+                  {movement.tipo === 'gasto' ? 'Gasto' : 'Retiro'} · {movement.motivo}
+                </span>
+                <span>-{formatCurrency(movement.monto)}</span>
+              </div>
+            ))
+          )}
+          <hr />
+          <div className="flex justify-between">
+            <span>Fondo inicial</span>
+            <span>{formatCurrency(turno.saldoInicial)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Efectivo esperado</span>
+            <span>{formatCurrency(turno.saldoEsperado)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span>Efectivo contado</span>
+            <span>{formatCurrency(turno.montoFisico)}</span>
+          </div>
+          {report.conteo &&
+            CASH_DENOMINATIONS.filter((denomination) => (report.conteo?.[denomination.id] ?? 0) > 0).map(
+              (denomination) => (
+                <div key={denomination.id} className="flex justify-between pl-2 text-gray-500">
+                  <span>
+                    {report.conteo?.[denomination.id]} × {denomination.label}
+                  </span>
+                  <span>
+                    {formatCurrency((report.conteo?.[denomination.id] ?? 0) * denomination.value)}
+                  </span>
+                </div>
+              )
+            )}
+          <div className="flex justify-between font-bold">
+            <span>{turno.estadoCorte ?? 'Pendiente'}</span>
+            <span>{formatCurrency(turno.diferencia)}</span>
+          </div>
+          <p className="text-gray-500">Generado {formatDateTime(report.generadoEn)}</p>
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="brand-button--ghost text-xs">
+            Cerrar
+          </button>
+          <button type="button" onClick={handlePrint} className="brand-button text-xs">
+            Imprimir
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,667 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import { useCatalog } from '@/hooks/use-catalog';
+import {
+  cancelPriceChange,
+  createCatalogProduct,
+  deactivateCatalogProduct,
+  deleteCatalogCategory,
+  deleteCatalogSize,
+  fetchPriceChanges,
+  renameCatalogCategory,
+  schedulePriceChange,
+  updateCatalogProduct,
+  upsertCatalogSize,
+  type CatalogProduct,
+  type ProductPriceChange,
+} from '@/lib/api';
+import { extractSizeOptions, resolveCatalogBasePrice } from '@/lib/order-pricing';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-MX', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const INPUT_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+type ProductDraft = {
+  name: string;
+  category: string;
+  subcategory: string;
+  price: string;
+  cost: string;
+};
+
+const EMPTY_DRAFT: ProductDraft = { name: '', category: '', subcategory: '', price: '', cost: '' };
+
+const toDraft = (product: CatalogProduct): ProductDraft => ({
+  name: product.name ?? '',
+  category: product.category ?? '',
+  subcategory: product.subcategory ?? '',
+  price: String(resolveCatalogBasePrice(product) ?? ''),
+  cost: product.cost === null || product.cost === undefined ? '' : String(product.cost),
+});
+
+export function CatalogEditorPanel() {
+  const { catalog, isLoading, error, refresh } = useCatalog();
+  const products = useMemo(() => catalog?.products ?? [], [catalog]);
+  const categories = useMemo(
+    () =>
+      Array.from(
+        new Set(products.map((product) => product.category?.trim()).filter(Boolean) as string[])
+      ).sort((a, b) => a.localeCompare(b, 'es')),
+    [products]
+  );
+  const [search, setSearch] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [draft, setDraft] = useState<ProductDraft>(EMPTY_DRAFT);
+  const [sizeLabel, setSizeLabel] = useState('');
+  const [sizePrice, setSizePrice] = useState('');
+  const [scheduleSizeId, setScheduleSizeId] = useState('');
+  const [schedulePrice, setSchedulePrice] = useState('');
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [categoryFrom, setCategoryFrom] = useState('');
+  const [categoryTo, setCategoryTo] = useState('');
+  const [priceChanges, setPriceChanges] = useState<ProductPriceChange[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+
+  const selectedProduct = useMemo(
+    () => products.find((product) => product.id === selectedId) ?? null,
+    [products, selectedId]
+  );
+  const selectedSizes = useMemo(
+    () => (selectedProduct ? extractSizeOptions(selectedProduct) : []),
+    [selectedProduct]
+  );
+  const selectedPriceChanges = useMemo(
+    () => priceChanges.filter((change) => change.productId === selectedProduct?.id),
+    [priceChanges, selectedProduct]
+  );
+
+  const filteredProducts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return products
+      .filter((product) => showInactive || product.isActive !== false)
+      .filter((product) => !categoryFilter || product.category === categoryFilter)
+      .filter(
+        (product) =>
+          !query ||
+          (product.name ?? '').toLowerCase().includes(query) ||
+          product.id.toLowerCase().includes(query)
+      )
+      .sort((a, b) => (a.name ?? a.id).localeCompare(b.name ?? b.id, 'es'));
+  }, [categoryFilter, products, search, showInactive]);
+
+  const loadPriceChanges = useCallback(async () => {
+    try {
+      setPriceChanges(await fetchPriceChanges());
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar los cambios de precio.',
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPriceChanges();
+  }, [loadPriceChanges]);
+
+  useEffect(() => {
+    if (selectedProduct) {
+      setDraft(toDraft(selectedProduct));
+    }
+  }, [selectedProduct]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const message = await action();
+      setFeedback({ message, error: null });
+      await Promise.all([refresh(), loadPriceChanges()]);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos actualizar el catálogo.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const readDraft = () => {
+    const price = parseAmount(draft.price);
+    const cost = draft.cost.trim() ? parseAmount(draft.cost) : null;
+    if (draft.name.trim().length < 2 || !draft.category.trim() || price === null || price < 0) {
+      setFeedback({ message: null, error: 'Indica nombre, categoría y precio del producto.' });
+      return null;
+    }
+    return {
+      name: draft.name.trim(),
+      category: draft.category.trim(),
+      subcategory: draft.subcategory.trim() || null,
+      price,
+      cost: cost !== null && cost >= 0 ? cost : null,
+    };
+  };
+
+  const handleSaveProduct = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const values = readDraft();
+    if (!values) {
+      return;
+    }
+    void runAction(async () => {
+      if (isCreating) {
+        const created = await createCatalogProduct(values);
+        setIsCreating(false);
+        setSelectedId(created.id);
+        return 'Producto creado.';
+      }
+      if (!selectedProduct) {
+        return '';
+      }
+      await updateCatalogProduct(selectedProduct.id, values);
+      return 'Producto actualizado.';
+    });
+  };
+
+  const handleToggleActive = () => {
+    if (!selectedProduct) {
+      return;
+    }
+    const isActive = selectedProduct.isActive !== false;
+    void runAction(async () => {
+      if (isActive) {
+        await deactivateCatalogProduct(selectedProduct.id);
+        return 'Producto desactivado; ya no aparece en el menú.';
+      }
+      await updateCatalogProduct(selectedProduct.id, { isActive: true });
+      return 'Producto reactivado.';
+    });
+  };
+
+  const handleAddSize = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const price = sizePrice.trim() ? parseAmount(sizePrice) : null;
+    if (!selectedProduct || !sizeLabel.trim() || (price !== null && price < 0)) {
+      setFeedback({ message: null, error: 'Indica el nombre y precio del tamaño.' });
+      return;
+    }
+    void runAction(async () => {
+      await upsertCatalogSize(selectedProduct.id, { label: sizeLabel.trim(), price });
+      setSizeLabel('');
+      setSizePrice('');
+      return 'Tamaño guardado.';
+    });
+  };
+
+  const handleDeleteSize = (sizeId: string) => {
+    if (!selectedProduct) {
+      return;
+    }
+    void runAction(async () => {
+      await deleteCatalogSize(selectedProduct.id, sizeId);
+      return 'Tamaño eliminado.';
+    });
+  };
+
+  const handleSchedulePrice = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const price = parseAmount(schedulePrice);
+    const effectiveAt = scheduleAt ? new Date(scheduleAt) : null;
+    if (!selectedProduct || price === null || price < 0 || !effectiveAt) {
+      setFeedback({ message: null, error: 'Indica el nuevo precio y la fecha en que aplica.' });
+      return;
+    }
+    if (effectiveAt.getTime() <= Date.now()) {
+      setFeedback({ message: null, error: 'La fecha del cambio debe ser futura.' });
+      return;
+    }
+    void runAction(async () => {
+      await schedulePriceChange({
+        productId: selectedProduct.id,
+        sizeId: scheduleSizeId || null,
+        price,
+        effectiveAt: effectiveAt.toISOString(),
+      });
+      setSchedulePrice('');
+      setScheduleAt('');
+      return `Cambio programado para ${formatDateTime(effectiveAt.toISOString())}.`;
+    });
+  };
+
+  const handleCancelPriceChange = (id: string) => {
+    void runAction(async () => {
+      await cancelPriceChange(id);
+      return 'Cambio de precio cancelado.';
+    });
+  };
+
+  const handleRenameCategory = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!categoryFrom || !categoryTo.trim()) {
+      setFeedback({ message: null, error: 'Elige la categoría y su nuevo nombre.' });
+      return;
+    }
+    void runAction(async () => {
+      const result = await renameCatalogCategory(categoryFrom, categoryTo.trim());
+      setCategoryFrom('');
+      setCategoryTo('');
+      return `Categoría renombrada (${result.products} productos).`;
+    });
+  };
+
+  const handleDeleteCategory = () => {
+    if (!categoryFrom) {
+      setFeedback({ message: null, error: 'Elige la categoría a eliminar.' });
+      return;
+    }
+    const reassignTo = categoryTo.trim() || null;
+    void runAction(async () => {
+      const result = await deleteCatalogCategory(categoryFrom, reassignTo);
+      setCategoryFrom('');
+      setCategoryTo('');
+      return reassignTo
+        ? `${result.products} productos movidos a ${reassignTo}.`
+        : `Categoría eliminada; ${result.products} productos desactivados.`;
+    });
+  };
+
+  const sizeLabelFor = (sizeId?: string | null) =>
+    sizeId ? selectedSizes.find((size) => size.id === sizeId)?.label ?? sizeId : 'Precio base';
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Catálogo</p>
+          <p className="text-[var(--brand-muted)]">
+            Productos, tamaños y precios. Los cambios llegan al POS sin volver a desplegar.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-[var(--brand-muted)]">
+          {isLoading && <span>Actualizando…</span>}
+          <button
+            type="button"
+            onClick={() => {
+              setIsCreating(true);
+              setSelectedId(null);
+              setDraft(EMPTY_DRAFT);
+            }}
+            className="brand-button text-xs"
+          >
+            Nuevo producto
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-semibold text-danger-600">{error}</p>}
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.3fr)]">
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-end gap-2">
+            <label className={`${LABEL_CLASS} flex-1`}>
+              Buscar
+              <input
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Nombre o ID"
+                className={INPUT_CLASS}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Categoría
+              <select
+                value={categoryFilter}
+                onChange={(event) => setCategoryFilter(event.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">Todas</option>
+                {categories.map((category) => (
+                  <option key={category} value={category}>
+                    {category}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-[var(--brand-muted)]">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(event) => setShowInactive(event.target.checked)}
+            />
+            Mostrar desactivados
+          </label>
+          <ul className="max-h-[28rem] space-y-2 overflow-y-auto pr-1">
+            {filteredProducts.length === 0 && (
+              <li className="text-xs text-[var(--brand-muted)]">Sin productos con esos filtros.</li>
+            )}
+            {filteredProducts.map((product) => (
+              <li key={product.id}>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsCreating(false);
+                    setSelectedId(product.id);
+                  }}
+                  className={`flex w-full items-center justify-between gap-2 rounded-2xl border px-3 py-2 text-left text-xs transition ${
+                    product.id === selectedId
+                      ? 'border-primary-400 bg-primary-50 dark:border-primary-300 dark:bg-white/10'
+                      : 'border-primary-100/60 hover:bg-primary-50/60 dark:border-white/10 dark:hover:bg-white/5'
+                  }`}
+                >
+                  <span>
+                    <span className="block font-semibold">{product.name ?? product.id}</span>
+                    <span className="text-[var(--brand-muted)]">
+                      {product.category ?? 'Sin categoría'}
+                      {product.isActive === false && ' · Desactivado'}
+                    </span>
+                  </span>
+                  <span className="font-semibold">{formatCurrency(resolveCatalogBasePrice(product))}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-4">
+          {!isCreating && !selectedProduct ? (
+            <p className="text-xs text-[var(--brand-muted)]">
+              Elige un producto para editarlo o crea uno nuevo.
+            </p>
+          ) : (
+            <form onSubmit={handleSaveProduct} className="space-y-3">
+              <p className="text-xs font-semibold uppercase tracking-[0.35em] text-[var(--brand-muted)]">
+                {isCreating ? 'Nuevo producto' : `Editar · ${selectedProduct?.id}`}
+              </p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <label className={LABEL_CLASS}>
+                  Nombre
+                  <input
+                    value={draft.name}
+                    onChange={(event) => setDraft((prev) => ({ ...prev, name: event.target.value }))}
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  Categoría
+                  <input
+                    value={draft.category}
+                    list="catalog-editor-categories"
+                    onChange={(event) => setDraft((prev) => ({ ...prev, category: event.target.value }))}
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  Subcategoría
+                  <input
+                    value={draft.subcategory}
+                    onChange={(event) =>
+                      setDraft((prev) => ({ ...prev, subcategory: event.target.value }))
+                    }
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className={LABEL_CLASS}>
+                    Precio
+                    <input
+                      value={draft.price}
+                      onChange={(event) => setDraft((prev) => ({ ...prev, price: event.target.value }))}
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                  <label className={LABEL_CLASS}>
+                    Costo
+                    <input
+                      value={draft.cost}
+                      onChange={(event) => setDraft((prev) => ({ ...prev, cost: event.target.value }))}
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                </div>
+              </div>
+              <datalist id="catalog-editor-categories">
+                {categories.map((category) => (
+                  <option key={category} value={category} />
+                ))}
+              </datalist>
+              <div className="flex flex-wrap gap-2">
+                <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+                  {isCreating ? 'Crear producto' : 'Guardar cambios'}
+                </button>
+                {selectedProduct && (
+                  <button
+                    type="button"
+                    onClick={handleToggleActive}
+                    disabled={isSubmitting}
+                    className="brand-button--ghost text-xs disabled:opacity-40"
+                  >
+                    {selectedProduct.isActive === false ? 'Reactivar' : 'Desactivar'}
+                  </button>
+                )}
+              </div>
+            </form>
+          )}
+
+          {selectedProduct && (
+            <div className="space-y-3 rounded-2xl border border-dashed border-primary-200/70 p-3 dark:border-white/20">
+              <p className="text-xs font-semibold uppercase tracking-[0.35em] text-[var(--brand-muted)]">Tamaños</p>
+              {selectedSizes.length === 0 ? (
+                <p className="text-xs text-[var(--brand-muted)]">Este producto se vende en un solo tamaño.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {selectedSizes.map((size) => (
+                    <li key={size.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="font-semibold">{size.label}</span>
+                      <span className="flex items-center gap-3">
+                        {formatCurrency(size.price ?? resolveCatalogBasePrice(selectedProduct))}
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteSize(size.id)}
+                          disabled={isSubmitting}
+                          className="font-semibold text-danger-600 underline-offset-4 hover:underline disabled:opacity-40"
+                        >
+                          Quitar
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleAddSize} className="flex flex-wrap items-end gap-2">
+                <label className={`${LABEL_CLASS} flex-1`}>
+                  Tamaño
+                  <input
+                    value={sizeLabel}
+                    onChange={(event) => setSizeLabel(event.target.value)}
+                    placeholder="Ej. Grande"
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  Precio
+                  <input
+                    value={sizePrice}
+                    onChange={(event) => setSizePrice(event.target.value)}
+                    inputMode="decimal"
+                    placeholder="0.00"
+                    className={`${INPUT_CLASS} w-24`}
+                  />
+                </label>
+                <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+                  Guardar tamaño
+                </button>
+              </form>
+            </div>
+          )}
+
+          {selectedProduct && (
+            <div className="space-y-3 rounded-2xl border border-dashed border-primary-200/70 p-3 dark:border-white/20">
+              <p className="text-xs font-semibold uppercase tracking-[0.35em] text-[var(--brand-muted)]">
+                Cambios de precio programados
+              </p>
+              {selectedPriceChanges.length === 0 ? (
+                <p className="text-xs text-[var(--brand-muted)]">Sin cambios pendientes.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {selectedPriceChanges.map((change) => (
+                    <li key={change.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span>
+                        <span className="font-semibold">{sizeLabelFor(change.sizeId)}</span> →{' '}
+                        {formatCurrency(Number(change.price))} · {formatDateTime(change.effectiveAt)}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleCancelPriceChange(change.id)}
+                        disabled={isSubmitting}
+                        className="font-semibold text-danger-600 underline-offset-4 hover:underline disabled:opacity-40"
+                      >
+                        Cancelar
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleSchedulePrice} className="flex flex-wrap items-end gap-2">
+                <label className={LABEL_CLASS}>
+                  Aplica a
+                  <select
+                    value={scheduleSizeId}
+                    onChange={(event) => setScheduleSizeId(event.target.value)}
+                    className={INPUT_CLASS}
+                  >
+                    <option value="">Precio base</option>
+                    {selectedSizes.map((size) => (
+                      <option key={size.id} value={size.id}>
+                        {size.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className={LABEL_CLASS}>
+                  Nuevo precio
+                  <input
+                    value={schedulePrice}
+                    onChange={(event) => setSchedulePrice(event.target.value)}
+                    inputMode="decimal"
+                    placeholder="0.00"
+                    className={`${INPUT_CLASS} w-24`}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  A partir de
+                  <input
+                    type="datetime-local"
+                    value={scheduleAt}
+                    onChange={(event) => setScheduleAt(event.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+                  Programar
+                </button>
+              </form>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <form
+        onSubmit={handleRenameCategory}
+        className="flex flex-wrap items-end gap-2 border-t border-primary-100/60 pt-4 dark:border-white/10"
+      >
+        <label className={LABEL_CLASS}>
+          Categoría
+          <select
+            value={categoryFrom}
+            onChange={(event) => setCategoryFrom(event.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="">Elige una</option>
+            {categories.map((category) => (
+              <option key={category} value={category}>
+                {category}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={`${LABEL_CLASS} flex-1`}>
+          Nuevo nombre o destino
+          <input
+            value={categoryTo}
+            onChange={(event) => setCategoryTo(event.target.value)}
+            list="catalog-editor-categories"
+            placeholder="Vacío al eliminar desactiva sus productos"
+            className={INPUT_CLASS}
+          />
+        </label>
+        <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+          Renombrar
+        </button>
+        <button
+          type="button"
+          onClick={handleDeleteCategory}
+          disabled={isSubmitting}
+          className="brand-button--ghost text-xs disabled:opacity-40"
+        >
+          Eliminar
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -29,6 +29,7 @@
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import {
   downloadHygieneChecklistPdf,
   exportCofeprisReport,
@@ -40,6 +41,7 @@ import {
   savePestControlRecord,
   submitHygieneChecklist,
   submitWasteLog,
+  type ExpiringInventoryBatch,
   type HygieneArea,
   type HygieneChecklist,
   type HygieneChecklistSummary,
@@ -150,6 +152,7 @@ export const SanitaryCompliancePanel = ({
     itemId: '',
     quantity: '',
     unitSize: '',
+    unitCost: '',
     expiresAt: '',
     reference: '',
   });
@@ -206,10 +209,12 @@ export const SanitaryCompliancePanel = ({
     const totalEntries = inventoryStatus?.entries?.length ?? 0;
     const lowStock = inventoryStatus?.lowStock?.length ?? 0;
     const zeroStock = inventoryStatus?.zeroStock?.length ?? 0;
+    const expiring = inventoryStatus?.expiring?.length ?? 0;
     return [
       { name: 'Monitoreados', value: totalEntries },
       { name: 'Bajo stock', value: lowStock },
       { name: 'Sin stock', value: zeroStock },
+      { name: 'Por caducar', value: expiring },
     ];
   }, [inventoryStatus]);
 
@@ -459,6 +464,7 @@ export const SanitaryCompliancePanel = ({
         itemId: ingressForm.itemId,
         quantity: Number(ingressForm.quantity || 0),
         unitSize: Number(ingressForm.unitSize || 0),
+        unitCost: ingressForm.unitCost ? Number(ingressForm.unitCost) : undefined,
         reference: ingressForm.reference || undefined,
         expiresAt: ingressForm.expiresAt || undefined,
         branchId: branchId ?? undefined,
@@ -466,7 +472,14 @@ export const SanitaryCompliancePanel = ({
       };
       await runSmartInventoryAction(payload);
       inventoryStatusActions.success('Ingreso registrado.');
-      setIngressForm({ itemId: '', quantity: '', unitSize: '', expiresAt: '', reference: '' });
+      setIngressForm({
+        itemId: '',
+        quantity: '',
+        unitSize: '',
+        unitCost: '',
+        expiresAt: '',
+        reference: '',
+      });
       await loadInventoryStatus();
     } catch (error) {
       inventoryStatusActions.error(
@@ -487,7 +500,7 @@ export const SanitaryCompliancePanel = ({
         ],
       };
       await runSmartInventoryAction(payload);
-      inventoryStatusActions.success('Receta descontada vía PEPS.');
+      inventoryStatusActions.success('Receta descontada vía PCPS.');
       setSaleForm({ productId: '', quantity: '' });
       await loadInventoryStatus();
     } catch (error) {
@@ -497,6 +510,19 @@ export const SanitaryCompliancePanel = ({
     }
   };
 
+  const handleDiscardBatch = async (batch: ExpiringInventoryBatch) => {
+    inventoryStatusActions.loading('Descartando lote caducado...');
+    try {
+      await runSmartInventoryAction({ action: 'discard', batchId: batch.batchId, staffId });
+      inventoryStatusActions.success(`Lote de ${batch.name} descartado y registrado en residuos.`);
+      await Promise.all([loadInventoryStatus(), loadWasteLogs()]);
+    } catch (error) {
+      inventoryStatusActions.error(
+        error instanceof Error ? error.message : 'No pudimos descartar el lote.'
+      );
+    }
+  };
+
   const handleWasteSubmit = async () => {
     wasteStatusActions.loading('Guardando cierre sanitario...');
     try {
@@ -527,6 +553,7 @@ export const SanitaryCompliancePanel = ({
 
   const hygieneHistory = useMemo(() => hygieneSummary?.entries.slice(-5).reverse() ?? [], [hygieneSummary]);
   const lowStockEntries = inventoryStatus?.lowStock ?? [];
+  const expiringBatches = inventoryStatus?.expiring ?? [];
   const latestHygieneEntry = hygieneSummary?.summary.lastEntry ?? hygieneHistory[0] ?? null;
   const lastWasteLog = wasteLogs[0] ?? null;
 
@@ -796,9 +823,14 @@ export const SanitaryCompliancePanel = ({
       <div className="flex items-center justify-between">
         <div>
           <p className="text-xs uppercase tracking-[0.3em]">Smart Inventory</p>
-          <p className="text-lg font-semibold">Fraccionamiento & PEPS</p>
+          <p className="text-lg font-semibold">Fraccionamiento & PCPS</p>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          {inventoryStatusState.type === 'loading' && <span>Actualizando…</span>}
+          <Link href="/stock-count" className="font-semibold underline-offset-4 hover:underline">
+            Conteo físico
+          </Link>
         </div>
-        {inventoryStatusState.type === 'loading' && <span className="text-xs">Actualizando…</span>}
       </div>
       <div className="grid gap-3 md:grid-cols-2">
         <div className="rounded-2xl bg-white/70 p-3 dark:bg-emerald-900/30">
@@ -831,6 +863,15 @@ export const SanitaryCompliancePanel = ({
               />
             </label>
           </div>
+          <label className="mt-2 block text-xs">
+            Costo por pieza (MXN)
+            <input
+              type="number"
+              value={ingressForm.unitCost}
+              onChange={(event) => setIngressForm((prev) => ({ ...prev, unitCost: event.target.value }))}
+              className="mt-1 w-full rounded-2xl border border-emerald-200 bg-white/90 px-3 py-2 text-emerald-900 focus:border-emerald-400 focus:outline-none"
+            />
+          </label>
           <label className="mt-2 block text-xs">
             Caducidad
             <input
@@ -872,10 +913,51 @@ export const SanitaryCompliancePanel = ({
             />
           </label>
           <button type="button" className="brand-button mt-3 text-xs" onClick={() => void handleSaleSubmit()}>
-            Aplicar receta y PEPS
+            Aplicar receta y PCPS
           </button>
         </div>
       </div>
+      <div className="rounded-2xl bg-white/70 p-3 dark:bg-emerald-900/30">
+        <p className="text-xs uppercase tracking-[0.3em] text-emerald-500">Próximos a caducar</p>
+        {expiringBatches.length === 0 ? (
+          <p className="text-sm text-emerald-900 dark:text-emerald-50">Sin lotes por caducar en los próximos días.</p>
+        ) : (
+          <div className="mt-2 space-y-2">
+            {expiringBatches.map((batch) => (
+              <div
+                key={batch.batchId}
+                className={`flex flex-wrap items-center justify-between gap-2 rounded-2xl border px-3 py-2 text-xs ${
+                  batch.isExpired
+                    ? 'border-danger-200 text-danger-700 dark:border-danger-400/40 dark:text-danger-200'
+                    : 'border-emerald-100/70 text-emerald-900 dark:border-emerald-300/30 dark:text-emerald-50'
+                }`}
+              >
+                <div>
+                  <p className="font-semibold">
+                    {batch.name} · {batch.quantity.toFixed(1)} {batch.unit}
+                  </p>
+                  <p>
+                    {batch.isExpired ? 'Caducó' : 'Caduca'} el{' '}
+                    {new Date(batch.expiresAt).toLocaleDateString('es-MX', { dateStyle: 'medium' })} ·{' '}
+                    {batch.branchId}
+                    {batch.reference && ` · lote ${batch.reference}`}
+                  </p>
+                </div>
+                {batch.isExpired && (
+                  <button
+                    type="button"
+                    className="brand-button text-xs"
+                    disabled={inventoryStatusState.type === 'loading'}
+                    onClick={() => void handleDiscardBatch(batch)}
+                  >
+                    Descartar lote
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
       <div className="rounded-2xl bg-white/70 p-3 dark:bg-emerald-900/30">
         <p className="text-xs uppercase tracking-[0.3em] text-emerald-500">Alertas críticas</p>
         {lowStockEntries.length === 0 ? (
@@ -0,0 +1,742 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createCustomerAccount,
+  deleteCustomerAddress,
+  fetchCustomerAccount,
+  mergeCustomerAccounts,
+  saveCustomerAddress,
+  updateCustomerAccount,
+  type CustomerAccountDetail,
+} from '@/lib/api';
+import type { DecryptedAddressPayload } from '@/lib/address-decrypt';
+import type {
+  CustomerAccount,
+  CustomerAccountInput,
+  CustomerAddressInput,
+  CustomerAddressType,
+} from '@/lib/customer-accounts';
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const MAX_ADDRESSES = 3;
+
+const ADDRESS_TYPE_LABELS: Record<CustomerAddressType, string> = {
+  shipping: 'Envío',
+  billing: 'Facturación',
+  other: 'Otra',
+};
+
+type Feedback = { message: string | null; error: string | null };
+
+type AccountDraft = {
+  email: string;
+  firstName: string;
+  lastName: string;
+  phone: string;
+  city: string;
+  country: string;
+  marketingEmail: boolean;
+  marketingSms: boolean;
+};
+
+type AddressDraft = {
+  label: string;
+  type: CustomerAddressType;
+  street: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  reference: string;
+  contactPhone: string;
+  isWhatsapp: boolean;
+  isDefault: boolean;
+};
+
+const EMPTY_ACCOUNT: AccountDraft = {
+  email: '',
+  firstName: '',
+  lastName: '',
+  phone: '',
+  city: '',
+  country: 'México',
+  marketingEmail: false,
+  marketingSms: false,
+};
+
+const EMPTY_ADDRESS: AddressDraft = {
+  label: '',
+  type: 'shipping',
+  street: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: 'México',
+  reference: '',
+  contactPhone: '',
+  isWhatsapp: false,
+  isDefault: false,
+};
+
+const toAccountDraft = (account: CustomerAccount): AccountDraft => ({
+  email: account.email,
+  firstName: account.firstName ?? '',
+  lastName: account.lastName ?? '',
+  phone: account.phone ?? '',
+  city: account.city ?? '',
+  country: account.country ?? '',
+  marketingEmail: account.marketingEmail,
+  marketingSms: account.marketingSms,
+});
+
+const toAccountInput = (draft: AccountDraft): CustomerAccountInput => ({
+  email: draft.email.trim(),
+  firstName: draft.firstName.trim(),
+  lastName: draft.lastName.trim() || null,
+  phone: draft.phone.trim() || null,
+  city: draft.city.trim() || null,
+  country: draft.country.trim() || null,
+  marketingEmail: draft.marketingEmail,
+  marketingSms: draft.marketingSms,
+});
+
+const toAddressDraft = (address: DecryptedAddressPayload): AddressDraft => ({
+  label: address.label ?? address.nickname ?? '',
+  type: address.type === 'billing' || address.type === 'other' ? address.type : 'shipping',
+  street: address.street ?? '',
+  city: address.city ?? '',
+  state: address.state ?? '',
+  postalCode: address.postalCode ?? '',
+  country: address.country ?? '',
+  reference: address.reference ?? '',
+  contactPhone: address.contactPhone ?? '',
+  isWhatsapp: Boolean(address.isWhatsapp),
+  isDefault: Boolean(address.isDefault),
+});
+
+const toAddressInput = (draft: AddressDraft): CustomerAddressInput => ({
+  label: draft.label.trim(),
+  type: draft.type,
+  street: draft.street.trim(),
+  city: draft.city.trim(),
+  state: draft.state.trim() || null,
+  postalCode: draft.postalCode.trim(),
+  country: draft.country.trim(),
+  reference: draft.reference.trim() || null,
+  contactPhone: draft.contactPhone.trim() || null,
+  isWhatsapp: draft.isWhatsapp,
+  isDefault: draft.isDefault,
+});
+
+const formatAccountName = (account: Pick<CustomerAccount, 'firstName' | 'lastName' | 'clientId'>) =>
+  [account.firstName, account.lastName].filter(Boolean).join(' ') || account.clientId;
+
+type CustomerAccountFormProps = {
+  account?: CustomerAccount | null;
+  onSaved?: (account: CustomerAccount) => Promise<void> | void;
+  onCancel?: () => void;
+};
+
+/** Alta de clientes en mostrador o edición de sus datos de contacto. */
+export function CustomerAccountForm({ account = null, onSaved, onCancel }: CustomerAccountFormProps) {
+  const [draft, setDraft] = useState<AccountDraft>(account ? toAccountDraft(account) : EMPTY_ACCOUNT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  useEffect(() => {
+    setDraft(account ? toAccountDraft(account) : EMPTY_ACCOUNT);
+  }, [account]);
+
+  const updateDraft = <K extends keyof AccountDraft>(key: K, value: AccountDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const handleSubmit = async () => {
+    if (!draft.firstName.trim() || !draft.email.trim()) {
+      setFeedback({ message: null, error: 'Nombre y correo son obligatorios.' });
+      return;
+    }
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const saved = account
+        ? await updateCustomerAccount(account.id, toAccountInput(draft))
+        : await createCustomerAccount(toAccountInput(draft));
+      setFeedback({
+        message: account ? 'Datos actualizados.' : `Cliente registrado con ID ${saved.clientId}.`,
+        error: null,
+      });
+      if (!account) {
+        setDraft(EMPTY_ACCOUNT);
+      }
+      await onSaved?.(saved);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos guardar al cliente.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">
+        {account ? 'Datos de contacto' : 'Nuevo cliente'}
+      </p>
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <label className={LABEL_CLASS}>
+          Nombre
+          <input
+            value={draft.firstName}
+            onChange={(event) => updateDraft('firstName', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Apellidos
+          <input
+            value={draft.lastName}
+            onChange={(event) => updateDraft('lastName', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Correo
+          <input
+            type="email"
+            value={draft.email}
+            onChange={(event) => updateDraft('email', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Teléfono
+          <input
+            type="tel"
+            value={draft.phone}
+            onChange={(event) => updateDraft('phone', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Ciudad
+          <input
+            value={draft.city}
+            onChange={(event) => updateDraft('city', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          País
+          <input
+            value={draft.country}
+            onChange={(event) => updateDraft('country', event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-[var(--brand-muted)]">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.marketingEmail}
+            onChange={(event) => updateDraft('marketingEmail', event.target.checked)}
+          />
+          Acepta promociones por correo
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.marketingSms}
+            onChange={(event) => updateDraft('marketingSms', event.target.checked)}
+          />
+          Acepta promociones por SMS
+        </label>
+      </div>
+      {account && draft.email.trim().toLowerCase() !== account.email && (
+        <p className="text-xs text-[var(--brand-muted)]">
+          Al cambiar el correo el cliente deberá iniciar sesión con el nuevo en la app.
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="brand-button--ghost text-xs">
+            Cancelar
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => void handleSubmit()}
+          disabled={isSaving}
+          className="brand-button text-xs disabled:opacity-40"
+        >
+          {account ? 'Guardar cambios' : 'Registrar cliente'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type CustomerAddressesEditorProps = {
+  identifier: string;
+  addresses: DecryptedAddressPayload[];
+  onChanged: () => Promise<void> | void;
+};
+
+function CustomerAddressesEditor({ identifier, addresses, onChanged }: CustomerAddressesEditorProps) {
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<AddressDraft>(EMPTY_ADDRESS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const updateDraft = <K extends keyof AddressDraft>(key: K, value: AddressDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const startEditing = (address: DecryptedAddressPayload | null) => {
+    setEditingId(address?.id ?? 'new');
+    setDraft(address ? toAddressDraft(address) : EMPTY_ADDRESS);
+    setFeedback({ message: null, error: null });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      await saveCustomerAddress(
+        identifier,
+        toAddressInput(draft),
+        editingId && editingId !== 'new' ? editingId : undefined
+      );
+      setEditingId(null);
+      setFeedback({ message: 'Dirección guardada.', error: null });
+      await onChanged();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos guardar la dirección.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (addressId: string) => {
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      await deleteCustomerAddress(identifier, addressId);
+      setFeedback({ message: 'Dirección eliminada.', error: null });
+      await onChanged();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos eliminar la dirección.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">
+          Direcciones ({addresses.length}/{MAX_ADDRESSES})
+        </p>
+        {addresses.length < MAX_ADDRESSES && editingId === null && (
+          <button type="button" onClick={() => startEditing(null)} className="brand-button--ghost text-xs">
+            Agregar dirección
+          </button>
+        )}
+      </div>
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <ul className="space-y-2">
+        {addresses.map((address) => (
+          <li
+            key={address.id}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-primary-100/70 px-3 py-2 dark:border-white/10"
+          >
+            <div>
+              <p className="font-semibold text-[var(--brand-text)]">
+                {address.label ?? 'Dirección'}
+                <span className="ml-2 text-xs font-normal text-[var(--brand-muted)]">
+                  {ADDRESS_TYPE_LABELS[address.type as CustomerAddressType] ?? address.type}
+                  {address.isDefault ? ' · predeterminada' : ''}
+                </span>
+              </p>
+              <p className="text-xs text-[var(--brand-muted)]">
+                {[address.street, address.city, address.postalCode].filter(Boolean).join(', ')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => startEditing(address)} className="brand-button--ghost text-xs">
+                Editar
+              </button>
+              <button
+                type="button"
+                onClick={() => void handleDelete(address.id)}
+                disabled={isSaving}
+                className="brand-button--ghost text-xs disabled:opacity-40"
+              >
+                Eliminar
+              </button>
+            </div>
+          </li>
+        ))}
+        {!addresses.length && <li className="text-xs text-[var(--brand-muted)]">Sin direcciones registradas.</li>}
+      </ul>
+
+      {editingId !== null && (
+        <div className="grid gap-2 rounded-xl border border-primary-100/70 p-3 dark:border-white/10 sm:grid-cols-2">
+          <label className={LABEL_CLASS}>
+            Nombre
+            <input
+              value={draft.label}
+              onChange={(event) => updateDraft('label', event.target.value)}
+              placeholder="Casa, oficina…"
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Tipo
+            <select
+              value={draft.type}
+              onChange={(event) => updateDraft('type', event.target.value as CustomerAddressType)}
+              className={FIELD_CLASS}
+            >
+              {Object.entries(ADDRESS_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={`${LABEL_CLASS} sm:col-span-2`}>
+            Calle y número
+            <input
+              value={draft.street}
+              onChange={(event) => updateDraft('street', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Ciudad
+            <input
+              value={draft.city}
+              onChange={(event) => updateDraft('city', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Estado
+            <input
+              value={draft.state}
+              onChange={(event) => updateDraft('state', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Código postal
+            <input
+              value={draft.postalCode}
+              onChange={(event) => updateDraft('postalCode', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            País
+            <input
+              value={draft.country}
+              onChange={(event) => updateDraft('country', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Teléfono de contacto
+            <input
+              type="tel"
+              value={draft.contactPhone}
+              onChange={(event) => updateDraft('contactPhone', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Referencias
+            <input
+              value={draft.reference}
+              onChange={(event) => updateDraft('reference', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <div className="flex flex-wrap gap-4 text-xs text-[var(--brand-muted)] sm:col-span-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.isWhatsapp}
+                onChange={(event) => updateDraft('isWhatsapp', event.target.checked)}
+              />
+              El teléfono tiene WhatsApp
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.isDefault}
+                onChange={(event) => updateDraft('isDefault', event.target.checked)}
+              />
+              Predeterminada para su tipo
+            </label>
+          </div>
+          <div className="flex justify-end gap-2 sm:col-span-2">
+            <button type="button" onClick={() => setEditingId(null)} className="brand-button--ghost text-xs">
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={isSaving}
+              className="brand-button text-xs disabled:opacity-40"
+            >
+              Guardar dirección
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type CustomerMergeBoxProps = {
+  target: CustomerAccount;
+  onMerged: () => Promise<void> | void;
+};
+
+function CustomerMergeBox({ target, onMerged }: CustomerMergeBoxProps) {
+  const [duplicateId, setDuplicateId] = useState('');
+  const [duplicate, setDuplicate] = useState<CustomerAccount | null>(null);
+  const [reason, setReason] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const handleLookup = async () => {
+    if (!duplicateId.trim()) {
+      return;
+    }
+    setIsWorking(true);
+    setDuplicate(null);
+    setFeedback({ message: null, error: null });
+    try {
+      const found = await fetchCustomerAccount(duplicateId.trim());
+      if (found.id === target.id) {
+        setFeedback({ message: null, error: 'Esa es la misma cuenta que estás viendo.' });
+        return;
+      }
+      setDuplicate(found);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No encontramos la cuenta duplicada.',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!duplicate) {
+      return;
+    }
+    if (reason.trim().length < 5) {
+      setFeedback({ message: null, error: 'Explica el motivo de la fusión.' });
+      return;
+    }
+    setIsWorking(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const summary = await mergeCustomerAccounts({
+        sourceId: duplicate.id,
+        targetId: target.id,
+        reason: reason.trim(),
+      });
+      const movedRows = Object.values(summary.moved).reduce((total, count) => total + count, 0);
+      setFeedback({
+        message: `${summary.sourceClientId} se fusionó en ${summary.targetClientId}: ${movedRows} registros movidos${
+          summary.addressesDropped ? `, ${summary.addressesDropped} direcciones descartadas por el límite` : ''
+        }.`,
+        error: null,
+      });
+      setDuplicate(null);
+      setDuplicateId('');
+      setReason('');
+      await onMerged();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos fusionar las cuentas.',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Fusionar cuenta duplicada</p>
+      <p className="text-xs text-[var(--brand-muted)]">
+        Pedidos, lealtad, reservas y facturas de la cuenta duplicada pasan a {target.clientId}; la duplicada se elimina.
+      </p>
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+      <div className="flex flex-wrap items-end gap-2">
+        <label className={LABEL_CLASS}>
+          ID o correo duplicado
+          <input
+            value={duplicateId}
+            onChange={(event) => setDuplicateId(event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => void handleLookup()}
+          disabled={isWorking}
+          className="brand-button--ghost text-xs disabled:opacity-40"
+        >
+          Buscar
+        </button>
+      </div>
+      {duplicate && (
+        <div className="space-y-2 rounded-xl border border-danger-200 bg-danger-50/60 p-3 text-xs dark:border-danger-500/40 dark:bg-danger-900/30">
+          <p>
+            Se eliminará <strong>{formatAccountName(duplicate)}</strong> ({duplicate.clientId} · {duplicate.email}) y
+            su historial quedará en <strong>{formatAccountName(target)}</strong> ({target.clientId}).
+          </p>
+          <label className={LABEL_CLASS}>
+            Motivo
+            <input value={reason} onChange={(event) => setReason(event.target.value)} className={FIELD_CLASS} />
+          </label>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => void handleMerge()}
+              disabled={isWorking}
+              className="brand-button text-xs disabled:opacity-40"
+            >
+              Fusionar cuentas
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type CustomerAccountPanelProps = {
+  identifier: string | null;
+  canMerge?: boolean;
+  onChanged?: () => Promise<void> | void;
+};
+
+/** Datos de contacto, direcciones y fusión de duplicados dentro del detalle del cliente. */
+export function CustomerAccountPanel({ identifier, canMerge = false, onChanged }: CustomerAccountPanelProps) {
+  const [account, setAccount] = useState<CustomerAccountDetail | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccount = useCallback(async () => {
+    if (!identifier) {
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAccount(await fetchCustomerAccount(identifier));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No pudimos cargar los datos del cliente.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [identifier]);
+
+  useEffect(() => {
+    if (isOpen) {
+      void loadAccount();
+    }
+  }, [isOpen, loadAccount]);
+
+  if (!identifier) {
+    return null;
+  }
+
+  const handleChanged = async () => {
+    await loadAccount();
+    await onChanged?.();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Cuenta del cliente</p>
+        <button type="button" onClick={() => setIsOpen((open) => !open)} className="brand-button--ghost text-xs">
+          {isOpen ? 'Ocultar' : 'Editar datos'}
+        </button>
+      </div>
+      {isOpen && (
+        <>
+          {error && <p className="text-xs font-semibold text-danger-600">{error}</p>}
+          {isLoading && !account && <p className="text-xs text-[var(--brand-muted)]">Cargando…</p>}
+          {account && (
+            <>
+              <CustomerAccountForm account={account} onSaved={handleChanged} />
+              <CustomerAddressesEditor
+                identifier={account.id}
+                addresses={account.addresses}
+                onChanged={handleChanged}
+              />
+              {canMerge && <CustomerMergeBox target={account} onMerged={handleChanged} />}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -28,9 +28,11 @@
 
 'use client';
 
+import type { ReactNode } from 'react';
 import { LOYALTY_STAMPS_TARGET } from '@/lib/loyalty';
 
-const MAX_COFFEES = LOYALTY_STAMPS_TARGET;
+// Tarjetas largas se acomodan en varias filas en lugar de comprimir los sellos.
+const MAX_STAMPS_PER_ROW = 10;
 
 interface CustomerLoyaltyCoffeesProps {
   count?: number | null;
@@ -38,6 +40,10 @@ interface CustomerLoyaltyCoffeesProps {
   customerName?: string | null;
   statusLabel?: string;
   subtitle?: string;
+  target?: number;
+  rewardLabel?: string;
+  points?: number | null;
+  children?: ReactNode;
 }
 
 export function CustomerLoyaltyCoffees({
@@ -46,7 +52,12 @@ export function CustomerLoyaltyCoffees({
   customerName,
   statusLabel = 'Programa activo',
   subtitle = 'Cada sello representa un consumo durante la semana',
+  target = LOYALTY_STAMPS_TARGET,
+  rewardLabel = 'Americano gratis',
+  points,
+  children,
 }: CustomerLoyaltyCoffeesProps) {
+  const MAX_COFFEES = Math.max(1, Math.floor(target));
   const normalized = Math.max(0, Math.floor(count ?? 0));
   const capped = Math.min(normalized, MAX_COFFEES);
   const hasReward = Boolean(rewardEarned);
@@ -60,8 +71,9 @@ export function CustomerLoyaltyCoffees({
         <div className="absolute inset-0 flex items-center justify-center bg-black/30">
           <div className="rounded-2xl bg-white/90 px-6 py-4 text-center text-[#5c3025] shadow-2xl">
             <p className="text-2xl">🎉</p>
-            <p className="mt-2 font-semibold">Americano gratis disponible</p>
-            <p className="text-xs text-[#7d4a30]">Registra el canje en caja para reiniciar la semana.</p>
+            <p className="mt-2 font-semibold">{rewardLabel} disponible</p>
+            <p className="text-xs text-[#7d4a30]">Registra el canje en caja para reiniciar la tarjeta.</p>
+            {children && <div className="mt-3">{children}</div>}
           </div>
         </div>
       )}
@@ -72,14 +84,19 @@ export function CustomerLoyaltyCoffees({
           <h3 className="text-2xl font-semibold">{displayName}</h3>
           <p className="text-xs text-white/75">{subtitle}</p>
         </div>
-        <div className="rounded-full bg-white/15 px-3 py-1 text-[11px] uppercase tracking-[0.35em] text-white">
-          {displayCount}/{MAX_COFFEES}
+        <div className="flex flex-col items-end gap-1">
+          <div className="rounded-full bg-white/15 px-3 py-1 text-[11px] uppercase tracking-[0.35em] text-white">
+            {displayCount}/{MAX_COFFEES}
+          </div>
+          {typeof points === 'number' && (
+            <span className="text-[11px] uppercase tracking-[0.25em] text-white/80">{points} pts</span>
+          )}
         </div>
       </div>
 
       <div
         className="mt-6 grid gap-3 text-base font-semibold"
-        style={{ gridTemplateColumns: `repeat(${MAX_COFFEES}, minmax(0, 1fr))` }}
+        style={{ gridTemplateColumns: `repeat(${Math.min(MAX_COFFEES, MAX_STAMPS_PER_ROW)}, minmax(0, 1fr))` }}
       >
         {Array.from({ length: MAX_COFFEES }, (_, index) => {
           const isFilled = index < displayCount;
@@ -98,9 +115,10 @@ export function CustomerLoyaltyCoffees({
 
       <div className="mt-4 rounded-2xl border border-white/20 bg-black/10 px-4 py-3 text-center text-xs">
         {hasReward
-          ? `¡Llevan los ${MAX_COFFEES} sellos! Confirma el beneficio antes de reiniciar su conteo semanal.`
-          : `Faltan ${remainingForReward} sellos para el Americano en cortesía.`}
+          ? `¡Llevan los ${MAX_COFFEES} sellos! Confirma el beneficio antes de reiniciar su conteo.`
+          : `Faltan ${remainingForReward} sellos para: ${rewardLabel}.`}
       </div>
+      {!hasReward && children && <div className="mt-3">{children}</div>}
     </div>
   );
 }
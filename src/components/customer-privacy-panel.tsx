@@ -0,0 +1,223 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  anonymizeCustomer,
+  buildCustomerExportUrl,
+  fetchRetentionPending,
+  runRetentionSweep,
+  type RetentionPendingUser,
+} from '@/lib/api';
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('es-MX', { dateStyle: 'medium' }).format(new Date(value));
+
+type Feedback = { message: string | null; error: string | null };
+
+type CustomerPrivacyPanelProps = {
+  identifier: string | null;
+  onAnonymized?: () => Promise<void> | void;
+};
+
+/** Solicitudes ARCO del cliente: exportar sus datos o anonimizar la cuenta. */
+export function CustomerPrivacyPanel({ identifier, onAnonymized }: CustomerPrivacyPanelProps) {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  if (!identifier) {
+    return null;
+  }
+
+  const handleAnonymize = async () => {
+    if (reason.trim().length < 5) {
+      setFeedback({ message: null, error: 'Indica el folio o motivo de la solicitud.' });
+      return;
+    }
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const result = await anonymizeCustomer(identifier, reason.trim());
+      setFeedback({
+        message: `Cuenta ${result.clientId} anonimizada: ${result.ordersScrubbed} pedidos conservan solo sus totales.`,
+        error: null,
+      });
+      setIsConfirming(false);
+      setReason('');
+      await onAnonymized?.();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos anonimizar al cliente.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Privacidad (ARCO)</p>
+        <div className="flex flex-wrap gap-2">
+          <a href={buildCustomerExportUrl(identifier, 'json')} className="brand-button--ghost text-xs">
+            Exportar JSON
+          </a>
+          <a href={buildCustomerExportUrl(identifier, 'pdf')} className="brand-button--ghost text-xs">
+            Exportar PDF
+          </a>
+          <button
+            type="button"
+            onClick={() => setIsConfirming((prev) => !prev)}
+            className="brand-button--ghost text-xs"
+          >
+            {isConfirming ? 'Cancelar' : 'Anonimizar'}
+          </button>
+        </div>
+      </div>
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+      {isConfirming && (
+        <div className="space-y-2 rounded-xl border border-danger-200 bg-danger-50/60 p-3 text-xs dark:border-danger-500/40 dark:bg-danger-900/30">
+          <p>
+            Se borrarán nombre, contacto, direcciones, datos fiscales y consentimientos. Pedidos, facturas y
+            lealtad se conservan bajo el ID del cliente. Esta acción no se puede deshacer.
+          </p>
+          <label className={LABEL_CLASS}>
+            Folio o motivo de la solicitud
+            <input value={reason} onChange={(event) => setReason(event.target.value)} className={FIELD_CLASS} />
+          </label>
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={() => void handleAnonymize()}
+              disabled={isSaving}
+              className="brand-button text-xs disabled:opacity-40"
+            >
+              Anonimizar cuenta
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Clientes con el plazo de conservación vencido y el barrido que los anonimiza. */
+export function RetentionSweepPanel() {
+  const [pending, setPending] = useState<RetentionPendingUser[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const loadPending = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPending((await fetchRetentionPending()).pending);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos consultar los plazos de conservación.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPending();
+  }, [loadPending]);
+
+  const handleSweep = async () => {
+    setIsRunning(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const result = await runRetentionSweep();
+      setFeedback({
+        message: `${result.anonymized.length} cuentas anonimizadas${
+          result.failed.length ? `, ${result.failed.length} con error` : ''
+        }${result.remaining ? '; quedan más por procesar' : ''}.`,
+        error: null,
+      });
+      await loadPending();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos completar el barrido.',
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Retención de datos</p>
+          <p className="text-xs text-[var(--brand-muted)]">
+            Clientes cuyo plazo de conservación venció; el barrido los anonimiza y lo registra en la bitácora.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => void handleSweep()}
+          disabled={isRunning || !pending.length}
+          className="brand-button text-xs disabled:opacity-40"
+        >
+          Ejecutar barrido
+        </button>
+      </div>
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+      {isLoading ? (
+        <p className="text-xs text-[var(--brand-muted)]">Cargando…</p>
+      ) : pending.length ? (
+        <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+          {pending.map((user) => (
+            <li key={user.id} className="flex justify-between gap-3">
+              <span>{user.clientId ?? user.id}</span>
+              <span className="text-[var(--brand-muted)]">vence {formatDate(user.dataRetentionUntil)}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-[var(--brand-muted)]">No hay cuentas con el plazo vencido.</p>
+      )}
+    </div>
+  );
+}
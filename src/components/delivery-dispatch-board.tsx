@@ -0,0 +1,215 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useDeliveryDispatch, type DeliveryBoardEntry } from '@/hooks/use-delivery-dispatch';
+import { DELIVERY_COLUMNS, type DeliveryDispatchAction } from '@/lib/delivery-dispatch';
+
+const FIELD_CLASS =
+  'rounded-xl border border-primary-100/70 bg-transparent px-2 py-1 text-xs text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+
+const COLUMN_ACTIONS: Partial<Record<DeliveryBoardEntry['status'], { action: DeliveryDispatchAction; label: string }>> = {
+  pending: { action: 'ready', label: 'Listo para recoger' },
+  assigned: { action: 'depart', label: 'Salió a entregar' },
+  out_for_delivery: { action: 'deliver', label: 'Entregado' },
+};
+
+const formatTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleTimeString('es-MX', { hour: '2-digit', minute: '2-digit' }) : null;
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const resolveCustomerName = ({ order }: DeliveryBoardEntry) =>
+  order.customerName?.trim() ||
+  [order.user?.firstName, order.user?.lastName].filter(Boolean).join(' ').trim() ||
+  'Cliente';
+
+type DeliveryDispatchBoardProps = {
+  currentStaffId?: string | null;
+  canAssignOthers?: boolean;
+};
+
+export function DeliveryDispatchBoard({ currentStaffId = null, canAssignOthers = false }: DeliveryDispatchBoardProps) {
+  const { entries, couriers, isLoading, error, pendingOrderIds, refresh, runAction } = useDeliveryDispatch();
+  const [selectedCouriers, setSelectedCouriers] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Solo se asigna a quien tiene las entregas activas; un barista solo se asigna a sí mismo.
+  const availableCouriers = useMemo(
+    () =>
+      couriers.filter(
+        (courier) => !courier.paused && (canAssignOthers || courier.staffId === currentStaffId)
+      ),
+    [canAssignOthers, couriers, currentStaffId]
+  );
+  const pausedCount = couriers.filter((courier) => courier.paused).length;
+
+  const columns = useMemo(
+    () =>
+      DELIVERY_COLUMNS.map((column) => ({
+        ...column,
+        entries: entries.filter((entry) => entry.status === column.status),
+      })),
+    [entries]
+  );
+
+  const handleAction = async (entry: DeliveryBoardEntry, action: DeliveryDispatchAction) => {
+    setMessage(null);
+    const courierStaffId =
+      action === 'assign'
+        ? selectedCouriers[entry.order.id] ?? availableCouriers[0]?.staffId ?? null
+        : undefined;
+    const saved = await runAction(entry.order.id, action, courierStaffId);
+    if (saved?.status === 'delivered') {
+      setMessage(
+        saved.emailSent
+          ? 'Pedido entregado; avisamos al cliente por correo.'
+          : 'Pedido entregado. El cliente no tiene correo registrado o el envío falló.'
+      );
+    }
+  };
+
+  if (!entries.length && !isLoading && !error) {
+    return null;
+  }
+
+  return (
+    <section className="card space-y-4 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="badge">Reparto a domicilio</p>
+          <p className="text-sm text-[var(--brand-muted)]">
+            {availableCouriers.length} repartidores disponibles
+            {pausedCount ? ` · ${pausedCount} en pausa` : ''}
+          </p>
+        </div>
+        <button type="button" onClick={() => void refresh()} className="brand-button--ghost text-xs">
+          {isLoading ? 'Actualizando…' : 'Recargar'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs font-semibold text-danger-600">{error}</p>}
+      {message && <p className="text-xs font-semibold text-emerald-600">{message}</p>}
+
+      <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-5">
+        {columns.map((column) => (
+          <div
+            key={column.status}
+            className="space-y-2 rounded-2xl border border-primary-100/70 bg-white/70 p-3 text-sm dark:border-white/10 dark:bg-white/5"
+          >
+            <p className="flex items-center justify-between text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+              {column.label}
+              <span className="rounded-full bg-primary-50 px-2 py-0.5 dark:bg-white/10">{column.entries.length}</span>
+            </p>
+            {column.entries.length === 0 && <p className="text-xs text-[var(--brand-muted)]">Sin pedidos.</p>}
+            {column.entries.map((entry) => {
+              const { order, dispatch } = entry;
+              const isBusy = pendingOrderIds.has(order.id);
+              const nextAction = COLUMN_ACTIONS[entry.status];
+              const canAssign = entry.status === 'ready' || entry.status === 'assigned';
+              const stamps = [
+                ['Lista', dispatch?.readyAt],
+                ['Asignada', dispatch?.assignedAt],
+                ['Salió', dispatch?.outForDeliveryAt],
+                ['Entregada', dispatch?.deliveredAt],
+              ].filter((stamp): stamp is [string, string] => Boolean(stamp[1]));
+              return (
+                <article
+                  key={order.id}
+                  className="space-y-2 rounded-xl border border-primary-100/60 p-2 dark:border-white/10"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-semibold text-primary-700 dark:text-primary-100">
+                        #{order.ticketCode ?? order.orderNumber ?? order.id.slice(0, 6)}
+                      </p>
+                      <p className="text-xs text-[var(--brand-muted)]">
+                        {resolveCustomerName(entry)} · {formatCurrency(order.total)}
+                      </p>
+                    </div>
+                  </div>
+                  {order.shipping?.address?.street && (
+                    <p className="text-xs">{order.shipping.address.street}</p>
+                  )}
+                  {dispatch?.courierName && (
+                    <p className="text-xs font-semibold">Repartidor: {dispatch.courierName}</p>
+                  )}
+                  {stamps.length > 0 && (
+                    <p className="text-[11px] text-[var(--brand-muted)]">
+                      {stamps.map(([label, value]) => `${label} ${formatTime(value)}`).join(' · ')}
+                    </p>
+                  )}
+                  {canAssign && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={selectedCouriers[order.id] ?? dispatch?.courierStaffId ?? availableCouriers[0]?.staffId ?? ''}
+                        onChange={(event) =>
+                          setSelectedCouriers((prev) => ({ ...prev, [order.id]: event.target.value }))
+                        }
+                        className={FIELD_CLASS}
+                        disabled={!availableCouriers.length || isBusy}
+                      >
+                        {!availableCouriers.length && <option value="">Sin repartidores</option>}
+                        {availableCouriers.map((courier) => (
+                          <option key={courier.staffId} value={courier.staffId}>
+                            {courier.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => void handleAction(entry, 'assign')}
+                        disabled={!availableCouriers.length || isBusy}
+                        className="brand-button text-xs disabled:opacity-40"
+                      >
+                        {entry.status === 'assigned' ? 'Reasignar' : 'Asignar'}
+                      </button>
+                    </div>
+                  )}
+                  {nextAction && (
+                    <button
+                      type="button"
+                      onClick={() => void handleAction(entry, nextAction.action)}
+                      disabled={isBusy}
+                      className="brand-button text-xs disabled:opacity-40"
+                    >
+                      {nextAction.label}
+                    </button>
+                  )}
+                </article>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,321 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { PrepTask } from '@/lib/api';
+import { useKitchenDisplay } from '@/hooks/use-kitchen-display';
+import { extractItemModifiers, formatModifierSummary } from '@/lib/product-modifiers';
+import {
+  KITCHEN_COLUMNS,
+  resolvePrepTimerLevel,
+  type KitchenColumnStatus,
+  type PrepTaskAction,
+  type PrepTimerLevel,
+} from '@/lib/prep-status';
+
+const TIMER_STYLES: Record<PrepTimerLevel, string> = {
+  ok: 'bg-emerald-500/20 text-emerald-200',
+  warning: 'bg-amber-500/25 text-amber-200',
+  late: 'bg-danger-500/30 text-danger-100 animate-pulse',
+};
+
+const GROUP_BORDER_STYLES: Record<PrepTimerLevel, string> = {
+  ok: 'border-white/10',
+  warning: 'border-amber-400/70',
+  late: 'border-danger-400',
+};
+
+const COLUMN_ACTIONS: Record<KitchenColumnStatus, { primary: PrepTaskAction; label: string }> = {
+  pending: { primary: 'claim', label: 'Tomar' },
+  in_progress: { primary: 'bump', label: 'Listo' },
+  ready: { primary: 'bump', label: 'Entregado' },
+};
+
+type TicketGroup = {
+  key: string;
+  ticketCode: string;
+  customer: string | null;
+  oldestAt: number;
+  tasks: PrepTask[];
+};
+
+const resolveTicketCode = (task: PrepTask) =>
+  task.order?.ticketCode?.trim() ||
+  task.order?.orderNumber?.trim() ||
+  task.order?.id?.slice(0, 6) ||
+  task.orderItem?.orderId?.slice(0, 6) ||
+  'Sin ticket';
+
+const resolveTaskTime = (task: PrepTask) => {
+  const parsed = task.createdAt ? Date.parse(task.createdAt) : NaN;
+  return Number.isFinite(parsed) ? parsed : Date.now();
+};
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+const groupByTicket = (tasks: PrepTask[]): TicketGroup[] => {
+  const groups = new Map<string, TicketGroup>();
+  tasks.forEach((task) => {
+    const key = task.order?.id ?? task.orderItem?.orderId ?? resolveTicketCode(task);
+    const createdAt = resolveTaskTime(task);
+    const group = groups.get(key);
+    if (group) {
+      group.tasks.push(task);
+      group.oldestAt = Math.min(group.oldestAt, createdAt);
+      return;
+    }
+    groups.set(key, {
+      key,
+      ticketCode: resolveTicketCode(task),
+      customer: task.customer?.name?.trim() || null,
+      oldestAt: createdAt,
+      tasks: [task],
+    });
+  });
+  return Array.from(groups.values()).sort((a, b) => a.oldestAt - b.oldestAt);
+};
+
+export function KitchenDisplay() {
+  const {
+    tasks,
+    recentlyCompleted,
+    isLoading,
+    isRealtime,
+    error,
+    pendingTaskIds,
+    refresh,
+    runAction,
+  } = useKitchenDisplay();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const columns = useMemo(
+    () =>
+      KITCHEN_COLUMNS.map((column) => ({
+        ...column,
+        groups: groupByTicket(tasks.filter((task) => task.status === column.status)),
+      })),
+    [tasks]
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col gap-4 bg-neutral-950 p-4 text-white">
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-300">Cocina</p>
+          <h1 className="text-2xl font-bold">Pantalla de preparación</h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-xs text-white/70">
+          <span className="flex items-center gap-2">
+            <span
+              className={`h-2 w-2 rounded-full ${isRealtime ? 'bg-emerald-400' : 'bg-amber-400'}`}
+              aria-hidden="true"
+            />
+            {isRealtime ? 'En vivo' : 'Sin conexión en vivo · actualizando por sondeo'}
+          </span>
+          {isLoading && <span>Actualizando…</span>}
+          <button
+            type="button"
+            onClick={() => void refresh()}
+            className="font-semibold text-primary-200 underline-offset-4 hover:underline"
+          >
+            Recargar
+          </button>
+          <Link href="/" className="font-semibold text-primary-200 underline-offset-4 hover:underline">
+            Volver al POS
+          </Link>
+        </div>
+      </header>
+
+      {error && (
+        <p className="rounded-2xl border border-danger-400/60 bg-danger-900/40 px-4 py-2 text-sm font-semibold text-danger-100">
+          {error}
+        </p>
+      )}
+
+      <div className="grid flex-1 gap-4 lg:grid-cols-3">
+        {columns.map((column) => (
+          <section key={column.status} className="flex flex-col gap-3 rounded-3xl bg-white/5 p-3">
+            <h2 className="flex items-center justify-between text-sm font-semibold uppercase tracking-[0.3em] text-white/70">
+              {column.label}
+              <span className="rounded-full bg-white/10 px-2 py-0.5 text-xs">
+                {column.groups.reduce((acc, group) => acc + group.tasks.length, 0)}
+              </span>
+            </h2>
+            {column.groups.length === 0 && <p className="text-xs text-white/40">Sin tareas.</p>}
+            {column.groups.map((group) => {
+              const groupLevel = resolvePrepTimerLevel(now - group.oldestAt);
+              const action = COLUMN_ACTIONS[column.status];
+              return (
+                <article
+                  key={group.key}
+                  className={`space-y-2 rounded-2xl border-2 bg-neutral-900 p-3 ${GROUP_BORDER_STYLES[groupLevel]}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="text-lg font-bold">#{group.ticketCode}</p>
+                      {group.customer && <p className="text-xs text-white/60">{group.customer}</p>}
+                    </div>
+                    {group.tasks.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          group.tasks.forEach((task) => void runAction(task, action.primary))
+                        }
+                        className="rounded-full border border-white/20 px-3 py-1 text-xs font-semibold hover:bg-white/10"
+                      >
+                        {action.label} todo
+                      </button>
+                    )}
+                  </div>
+                  <ul className="space-y-2">
+                    {group.tasks.map((task) => (
+                      <KitchenTaskRow
+                        key={task.id}
+                        task={task}
+                        now={now}
+                        actionLabel={action.label}
+                        isBusy={pendingTaskIds.has(task.id)}
+                        onPrimary={() => void runAction(task, action.primary)}
+                        onRecall={
+                          column.status === 'pending' ? null : () => void runAction(task, 'recall')
+                        }
+                      />
+                    ))}
+                  </ul>
+                </article>
+              );
+            })}
+          </section>
+        ))}
+      </div>
+
+      {recentlyCompleted.length > 0 && (
+        <footer className="space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-white/50">
+            Entregados recientemente
+          </p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {recentlyCompleted.map((task) => (
+              <button
+                key={task.id}
+                type="button"
+                disabled={pendingTaskIds.has(task.id)}
+                onClick={() => void runAction(task, 'recall')}
+                className="shrink-0 rounded-2xl border border-white/10 px-3 py-2 text-left text-xs hover:bg-white/10 disabled:opacity-40"
+              >
+                <span className="block font-semibold">
+                  #{resolveTicketCode(task)} · {task.product?.name ?? 'Producto'}
+                </span>
+                <span className="text-white/50">Recuperar</span>
+              </button>
+            ))}
+          </div>
+        </footer>
+      )}
+    </div>
+  );
+}
+
+function KitchenTaskRow({
+  task,
+  now,
+  actionLabel,
+  isBusy,
+  onPrimary,
+  onRecall,
+}: {
+  task: PrepTask;
+  now: number;
+  actionLabel: string;
+  isBusy: boolean;
+  onPrimary: () => void;
+  onRecall: (() => void) | null;
+}) {
+  const elapsed = now - resolveTaskTime(task);
+  const level = resolvePrepTimerLevel(elapsed);
+  const modifiers = extractItemModifiers(task.orderItem?.modifiers);
+  const quantity = Number(task.orderItem?.quantity ?? 1) || 1;
+
+  return (
+    <li className="flex items-start justify-between gap-3 rounded-xl bg-white/5 px-3 py-2">
+      <button
+        type="button"
+        disabled={isBusy}
+        onClick={onPrimary}
+        className="flex-1 text-left disabled:opacity-40"
+      >
+        <p className="text-base font-semibold">
+          {quantity > 1 && <span className="mr-1 text-primary-200">{quantity}×</span>}
+          {task.product?.name ?? 'Producto'}
+        </p>
+        {modifiers.length > 0 && (
+          <p className="text-sm text-amber-200">{formatModifierSummary(modifiers)}</p>
+        )}
+        {task.handlerName && <p className="text-xs text-white/50">{task.handlerName}</p>}
+      </button>
+      <div className="flex flex-col items-end gap-1">
+        <span className={`rounded-full px-2 py-0.5 font-mono text-sm font-semibold ${TIMER_STYLES[level]}`}>
+          {formatElapsed(elapsed)}
+        </span>
+        <div className="flex gap-1">
+          {onRecall && (
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={onRecall}
+              className="rounded-full border border-white/20 px-2 py-0.5 text-[11px] font-semibold hover:bg-white/10 disabled:opacity-40"
+            >
+              Regresar
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={isBusy}
+            onClick={onPrimary}
+            className="rounded-full bg-primary-500 px-2 py-0.5 text-[11px] font-semibold text-white hover:bg-primary-400 disabled:opacity-40"
+          >
+            {actionLabel}
+          </button>
+        </div>
+      </div>
+    </li>
+  );
+}
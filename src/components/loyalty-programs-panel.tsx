@@ -0,0 +1,862 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { CustomerLoyaltyCoffees } from '@/components/customer-loyalty-coffees';
+import { useCatalog } from '@/hooks/use-catalog';
+import {
+  adjustLoyaltyBalance,
+  fetchLoyaltyLedger,
+  fetchLoyaltyPrograms,
+  redeemLoyaltyReward,
+  saveLoyaltyProgram,
+  type LoyaltyLedgerHistory,
+  type LoyaltyProgramInput,
+} from '@/lib/api';
+import {
+  LEGACY_PROGRAM_ID,
+  LOYALTY_ENTRY_LABELS,
+  LOYALTY_RESET_LABELS,
+  LOYALTY_REWARD_LABELS,
+  type CustomerLoyaltyProgram,
+  type LoyaltyProgram,
+  type LoyaltyResetPeriod,
+  type LoyaltyRewardType,
+} from '@/lib/loyalty-programs';
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const WEEKDAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+type Feedback = { message: string | null; error: string | null };
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('es-MX', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const formatDelta = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+type RuleDraft = {
+  target: 'product' | 'category';
+  value: string;
+  stamps: string;
+  points: string;
+  weekdays: number[];
+};
+
+type RewardDraft = {
+  id?: string;
+  type: LoyaltyRewardType;
+  label: string;
+  pointsCost: string;
+  discountPercent: string;
+};
+
+type ProgramDraft = {
+  id?: string;
+  name: string;
+  description: string;
+  isActive: boolean;
+  resetPeriod: LoyaltyResetPeriod;
+  stampsTarget: string;
+  startsAt: string;
+  endsAt: string;
+  rules: RuleDraft[];
+  rewards: RewardDraft[];
+};
+
+const emptyRule = (): RuleDraft => ({ target: 'category', value: '', stamps: '1', points: '0', weekdays: [] });
+
+const emptyReward = (): RewardDraft => ({
+  type: 'free_drink',
+  label: '',
+  pointsCost: '',
+  discountPercent: '',
+});
+
+const emptyDraft = (): ProgramDraft => ({
+  name: '',
+  description: '',
+  isActive: true,
+  resetPeriod: 'weekly',
+  stampsTarget: '7',
+  startsAt: '',
+  endsAt: '',
+  rules: [emptyRule()],
+  rewards: [emptyReward()],
+});
+
+const toDraft = (program: LoyaltyProgram): ProgramDraft => ({
+  id: program.id,
+  name: program.name,
+  description: program.description ?? '',
+  isActive: program.isActive,
+  resetPeriod: program.resetPeriod,
+  stampsTarget: String(program.stampsTarget),
+  startsAt: program.startsAt?.slice(0, 10) ?? '',
+  endsAt: program.endsAt?.slice(0, 10) ?? '',
+  rules: program.rules.map((rule) => ({
+    target: rule.productId ? 'product' : 'category',
+    value: rule.productId ?? rule.category ?? '',
+    stamps: String(rule.stamps),
+    points: String(rule.points),
+    weekdays: rule.weekdays ?? [],
+  })),
+  rewards: program.rewards.map((reward) => ({
+    id: reward.id,
+    type: reward.type,
+    label: reward.label,
+    pointsCost: reward.pointsCost ? String(reward.pointsCost) : '',
+    discountPercent: reward.discountPercent ? String(reward.discountPercent) : '',
+  })),
+});
+
+const parsePositive = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const toInput = (draft: ProgramDraft): LoyaltyProgramInput => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  description: draft.description.trim() || null,
+  isActive: draft.isActive,
+  resetPeriod: draft.resetPeriod,
+  stampsTarget: Math.max(1, Math.floor(parsePositive(draft.stampsTarget) ?? 1)),
+  // Las fechas se guardan a mediodía para no cambiar de día por zona horaria.
+  startsAt: draft.startsAt ? new Date(`${draft.startsAt}T12:00:00`).toISOString() : null,
+  endsAt: draft.endsAt ? new Date(`${draft.endsAt}T12:00:00`).toISOString() : null,
+  rules: draft.rules
+    .filter((rule) => rule.value.trim())
+    .map((rule) => ({
+      productId: rule.target === 'product' ? rule.value.trim() : null,
+      category: rule.target === 'category' ? rule.value.trim() : null,
+      stamps: Math.floor(parsePositive(rule.stamps) ?? 0),
+      points: parsePositive(rule.points) ?? 0,
+      weekdays: rule.weekdays.length ? rule.weekdays : null,
+    })),
+  rewards: draft.rewards
+    .filter((reward) => reward.label.trim())
+    .map((reward) => ({
+      id: reward.id,
+      type: reward.type,
+      label: reward.label.trim(),
+      pointsCost: parsePositive(reward.pointsCost),
+      discountPercent: reward.type === 'discount' ? parsePositive(reward.discountPercent) : null,
+    })),
+});
+
+type CustomerLoyaltyProgramsProps = {
+  userId: string;
+  customerName: string;
+  programs: CustomerLoyaltyProgram[];
+};
+
+export function CustomerLoyaltyPrograms({ userId, customerName, programs }: CustomerLoyaltyProgramsProps) {
+  const [entries, setEntries] = useState(programs);
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  useEffect(() => {
+    setEntries(programs);
+  }, [programs]);
+
+  const handleRedeem = async (programId: string, rewardId: string) => {
+    setPendingKey(`${programId}:${rewardId}`);
+    setFeedback({ message: null, error: null });
+    try {
+      const result = await redeemLoyaltyReward({ userId, programId, rewardId });
+      setEntries((current) =>
+        current.map((entry) => (entry.programId === programId ? result.program : entry))
+      );
+      setFeedback({ message: `Canje registrado: ${result.reward.label}.`, error: null });
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos canjear la recompensa.',
+      });
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+      {entries.map((program) => {
+        const stampReward = program.rewards.find((reward) => !reward.pointsCost);
+        const redeemable = program.rewards.filter((reward) =>
+          reward.pointsCost ? program.points >= reward.pointsCost : program.rewardsAvailable > 0
+        );
+        return (
+          <CustomerLoyaltyCoffees
+            key={program.programId}
+            count={program.stamps}
+            rewardEarned={program.rewardsAvailable > 0}
+            customerName={customerName}
+            statusLabel={program.name}
+            subtitle={program.description || `Reinicio: ${LOYALTY_RESET_LABELS[program.resetPeriod]}`}
+            target={program.stampsTarget}
+            rewardLabel={stampReward?.label ?? 'Recompensa'}
+            points={program.points > 0 || program.rewards.some((reward) => reward.pointsCost) ? program.points : null}
+          >
+            {redeemable.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {redeemable.map((reward) => (
+                  <button
+                    key={reward.id}
+                    type="button"
+                    onClick={() => void handleRedeem(program.programId, reward.id)}
+                    disabled={pendingKey !== null}
+                    className="brand-button text-xs disabled:opacity-40"
+                  >
+                    Canjear {reward.label}
+                    {reward.pointsCost ? ` · ${reward.pointsCost} pts` : ''}
+                  </button>
+                ))}
+              </div>
+            )}
+          </CustomerLoyaltyCoffees>
+        );
+      })}
+    </div>
+  );
+}
+
+export function LoyaltyProgramsEditor() {
+  const { catalog } = useCatalog();
+  const [programs, setPrograms] = useState<LoyaltyProgram[]>([]);
+  const [draft, setDraft] = useState<ProgramDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const loadPrograms = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setPrograms(await fetchLoyaltyPrograms());
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar los programas de lealtad.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPrograms();
+  }, [loadPrograms]);
+
+  const updateDraft = (partial: Partial<ProgramDraft>) =>
+    setDraft((current) => (current ? { ...current, ...partial } : current));
+
+  const updateRule = (index: number, partial: Partial<RuleDraft>) =>
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            rules: current.rules.map((rule, position) => (position === index ? { ...rule, ...partial } : rule)),
+          }
+        : current
+    );
+
+  const updateReward = (index: number, partial: Partial<RewardDraft>) =>
+    setDraft((current) =>
+      current
+        ? {
+            ...current,
+            rewards: current.rewards.map((reward, position) =>
+              position === index ? { ...reward, ...partial } : reward
+            ),
+          }
+        : current
+    );
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    const input = toInput(draft);
+    if (!input.name || !input.rules.length || !input.rewards.length) {
+      setFeedback({
+        message: null,
+        error: 'Captura nombre, al menos una regla y al menos una recompensa.',
+      });
+      return;
+    }
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const saved = await saveLoyaltyProgram(input);
+      setFeedback({ message: `Programa "${saved.name}" guardado.`, error: null });
+      setDraft(null);
+      await loadPrograms();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos guardar el programa de lealtad.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const products = catalog?.products ?? [];
+  const categories = catalog?.categories ?? [];
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">
+            Programas de lealtad
+          </p>
+          <p className="text-[var(--brand-muted)]">
+            Define qué productos o categorías suman sellos y puntos, cuándo se reinicia la tarjeta y qué se canjea.
+          </p>
+        </div>
+        {!draft && (
+          <button type="button" onClick={() => setDraft(emptyDraft())} className="brand-button text-xs">
+            Nuevo programa
+          </button>
+        )}
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+      {isLoading && <p className="text-xs text-[var(--brand-muted)]">Cargando…</p>}
+
+      {!draft && (
+        <ul className="space-y-2">
+          {programs.map((program) => (
+            <li
+              key={program.id}
+              className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-primary-100/70 px-3 py-2 dark:border-white/10"
+            >
+              <div>
+                <p className="font-semibold text-primary-700 dark:text-primary-100">
+                  {program.name}
+                  {!program.isActive && (
+                    <span className="ml-2 text-xs font-normal text-[var(--brand-muted)]">(inactivo)</span>
+                  )}
+                </p>
+                <p className="text-xs text-[var(--brand-muted)]">
+                  {program.stampsTarget} sellos · {LOYALTY_RESET_LABELS[program.resetPeriod]} ·{' '}
+                  {program.rules.length} {program.rules.length === 1 ? 'regla' : 'reglas'} ·{' '}
+                  {program.rewards.map((reward) => reward.label).join(', ')}
+                </p>
+              </div>
+              {program.source === 'env' ? (
+                <span className="text-xs text-[var(--brand-muted)]">
+                  Tarjeta de respaldo; se reemplaza al crear un programa.
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setDraft(toDraft(program))}
+                  className="brand-button--ghost text-xs"
+                >
+                  Editar
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className={LABEL_CLASS}>
+              Nombre
+              <input
+                value={draft.name}
+                onChange={(event) => updateDraft({ name: event.target.value })}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Reinicio
+              <select
+                value={draft.resetPeriod}
+                onChange={(event) => updateDraft({ resetPeriod: event.target.value as LoyaltyResetPeriod })}
+                className={FIELD_CLASS}
+              >
+                {Object.entries(LOYALTY_RESET_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={LABEL_CLASS}>
+              Sellos por tarjeta
+              <input
+                type="number"
+                min={1}
+                value={draft.stampsTarget}
+                onChange={(event) => updateDraft({ stampsTarget: event.target.value })}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className={`${LABEL_CLASS} sm:col-span-3`}>
+              Descripción
+              <input
+                value={draft.description}
+                onChange={(event) => updateDraft({ description: event.target.value })}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Inicia
+              <input
+                type="date"
+                value={draft.startsAt}
+                onChange={(event) => updateDraft({ startsAt: event.target.value })}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Termina
+              <input
+                type="date"
+                value={draft.endsAt}
+                onChange={(event) => updateDraft({ endsAt: event.target.value })}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+              <input
+                type="checkbox"
+                checked={draft.isActive}
+                onChange={(event) => updateDraft({ isActive: event.target.checked })}
+              />
+              Activo
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Reglas</p>
+            {draft.rules.map((rule, index) => (
+              <div
+                key={index}
+                className="grid gap-2 rounded-xl border border-primary-100/70 p-3 dark:border-white/10 sm:grid-cols-4"
+              >
+                <label className={LABEL_CLASS}>
+                  Aplica a
+                  <select
+                    value={rule.target}
+                    onChange={(event) =>
+                      updateRule(index, {
+                        target: event.target.value === 'product' ? 'product' : 'category',
+                        value: '',
+                      })
+                    }
+                    className={FIELD_CLASS}
+                  >
+                    <option value="category">Categoría</option>
+                    <option value="product">Producto</option>
+                  </select>
+                </label>
+                <label className={LABEL_CLASS}>
+                  {rule.target === 'product' ? 'Producto' : 'Categoría'}
+                  <select
+                    value={rule.value}
+                    onChange={(event) => updateRule(index, { value: event.target.value })}
+                    className={FIELD_CLASS}
+                  >
+                    <option value="">Selecciona…</option>
+                    {rule.target === 'product'
+                      ? products.map((product) => (
+                          <option key={product.id} value={product.productId ?? product.id}>
+                            {product.name ?? product.productId ?? product.id}
+                          </option>
+                        ))
+                      : categories.map((category) => (
+                          <option key={category.name} value={category.name}>
+                            {category.name}
+                          </option>
+                        ))}
+                  </select>
+                </label>
+                <label className={LABEL_CLASS}>
+                  Sellos
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.stamps}
+                    onChange={(event) => updateRule(index, { stamps: event.target.value })}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  Puntos
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.points}
+                    onChange={(event) => updateRule(index, { points: event.target.value })}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+                <div className="flex flex-wrap items-center gap-2 sm:col-span-4">
+                  <span className="text-xs text-[var(--brand-muted)]">Solo estos días:</span>
+                  {WEEKDAY_LABELS.map((label, weekday) => (
+                    <label key={label} className="flex items-center gap-1 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={rule.weekdays.includes(weekday)}
+                        onChange={(event) =>
+                          updateRule(index, {
+                            weekdays: event.target.checked
+                              ? [...rule.weekdays, weekday].sort()
+                              : rule.weekdays.filter((day) => day !== weekday),
+                          })
+                        }
+                      />
+                      {label}
+                    </label>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateDraft({ rules: draft.rules.filter((_, position) => position !== index) })
+                    }
+                    className="ml-auto text-xs font-semibold text-danger-600"
+                  >
+                    Quitar
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft({ rules: [...draft.rules, emptyRule()] })}
+              className="brand-button--ghost text-xs"
+            >
+              Agregar regla
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Recompensas</p>
+            <p className="text-xs text-[var(--brand-muted)]">
+              Sin costo en puntos, la recompensa se canjea al completar la tarjeta de sellos.
+            </p>
+            {draft.rewards.map((reward, index) => (
+              <div
+                key={reward.id ?? index}
+                className="grid gap-2 rounded-xl border border-primary-100/70 p-3 dark:border-white/10 sm:grid-cols-4"
+              >
+                <label className={LABEL_CLASS}>
+                  Tipo
+                  <select
+                    value={reward.type}
+                    onChange={(event) => updateReward(index, { type: event.target.value as LoyaltyRewardType })}
+                    className={FIELD_CLASS}
+                  >
+                    {Object.entries(LOYALTY_REWARD_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className={LABEL_CLASS}>
+                  Nombre
+                  <input
+                    value={reward.label}
+                    onChange={(event) => updateReward(index, { label: event.target.value })}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  Costo en puntos
+                  <input
+                    type="number"
+                    min={0}
+                    value={reward.pointsCost}
+                    onChange={(event) => updateReward(index, { pointsCost: event.target.value })}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+                {reward.type === 'discount' ? (
+                  <label className={LABEL_CLASS}>
+                    Descuento (%)
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={reward.discountPercent}
+                      onChange={(event) => updateReward(index, { discountPercent: event.target.value })}
+                      className={FIELD_CLASS}
+                    />
+                  </label>
+                ) : (
+                  <div className="flex items-end justify-end">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateDraft({ rewards: draft.rewards.filter((_, position) => position !== index) })
+                      }
+                      className="text-xs font-semibold text-danger-600"
+                    >
+                      Quitar
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => updateDraft({ rewards: [...draft.rewards, emptyReward()] })}
+              className="brand-button--ghost text-xs"
+            >
+              Agregar recompensa
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="brand-button--ghost text-xs">
+              Cancelar
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={isSaving}
+              className="brand-button text-xs disabled:opacity-40"
+            >
+              Guardar programa
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type LoyaltyLedgerPanelProps = {
+  userId: string;
+  programs: Array<Pick<CustomerLoyaltyProgram, 'programId' | 'name'>>;
+  canAdjust?: boolean;
+  onAdjusted?: () => Promise<void> | void;
+};
+
+export function LoyaltyLedgerPanel({ userId, programs, canAdjust = false, onAdjusted }: LoyaltyLedgerPanelProps) {
+  const programOptions = programs.length
+    ? programs
+    : [{ programId: LEGACY_PROGRAM_ID, name: 'Programa semanal' }];
+  const [history, setHistory] = useState<LoyaltyLedgerHistory | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [programId, setProgramId] = useState(programOptions[0].programId);
+  const [points, setPoints] = useState('');
+  const [stamps, setStamps] = useState('');
+  const [reason, setReason] = useState('');
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const names = new Map(programOptions.map((program) => [program.programId, program.name]));
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setHistory(await fetchLoyaltyLedger(userId));
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar el historial de lealtad.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      void loadHistory();
+    }
+  }, [isOpen, loadHistory]);
+
+  const handleAdjust = async () => {
+    const parsedPoints = Number.parseInt(points || '0', 10);
+    const parsedStamps = Number.parseInt(stamps || '0', 10);
+    if (!Number.isFinite(parsedPoints) || !Number.isFinite(parsedStamps) || (!parsedPoints && !parsedStamps)) {
+      setFeedback({ message: null, error: 'Indica cuántos puntos o sellos sumar o restar.' });
+      return;
+    }
+    if (reason.trim().length < 5) {
+      setFeedback({ message: null, error: 'Explica el motivo del ajuste.' });
+      return;
+    }
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      await adjustLoyaltyBalance({
+        userId,
+        programId,
+        points: parsedPoints,
+        stamps: parsedStamps,
+        reason: reason.trim(),
+      });
+      setPoints('');
+      setStamps('');
+      setReason('');
+      setFeedback({ message: 'Ajuste registrado.', error: null });
+      await loadHistory();
+      await onAdjusted?.();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos registrar el ajuste.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Movimientos de lealtad</p>
+        <button type="button" onClick={() => setIsOpen((open) => !open)} className="brand-button--ghost text-xs">
+          {isOpen ? 'Ocultar' : 'Ver historial'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+          {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+          {isLoading && <p className="text-xs text-[var(--brand-muted)]">Cargando…</p>}
+
+          {history && Object.keys(history.balances).length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(history.balances).map(([key, balance]) => (
+                <span
+                  key={key}
+                  className="rounded-full bg-primary-50 px-3 py-1 text-xs font-semibold text-primary-700 dark:bg-white/10 dark:text-primary-100"
+                >
+                  {names.get(key) ?? 'Programa anterior'}: {balance} pts
+                </span>
+              ))}
+            </div>
+          )}
+
+          {history && (
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="text-[var(--brand-muted)]">
+                  <tr>
+                    <th className="py-1 pr-2">Fecha</th>
+                    <th className="py-1 pr-2">Movimiento</th>
+                    <th className="py-1 pr-2 text-right">Puntos</th>
+                    <th className="py-1 pr-2 text-right">Sellos</th>
+                    <th className="py-1">Motivo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.entries.map((entry) => (
+                    <tr key={entry.id} className="border-t border-primary-100/60 dark:border-white/10">
+                      <td className="py-1 pr-2">{formatDateTime(entry.createdAt)}</td>
+                      <td className="py-1 pr-2">{LOYALTY_ENTRY_LABELS[entry.entryType] ?? entry.entryType}</td>
+                      <td className="py-1 pr-2 text-right">{entry.points ? formatDelta(entry.points) : '—'}</td>
+                      <td className="py-1 pr-2 text-right">{entry.stamps ? formatDelta(entry.stamps) : '—'}</td>
+                      <td className="py-1">{entry.reason}</td>
+                    </tr>
+                  ))}
+                  {!history.entries.length && (
+                    <tr>
+                      <td colSpan={5} className="py-2 text-center text-[var(--brand-muted)]">
+                        Sin movimientos registrados.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {canAdjust && (
+            <div className="grid gap-2 rounded-xl border border-primary-100/70 p-3 dark:border-white/10 sm:grid-cols-4">
+              <label className={LABEL_CLASS}>
+                Programa
+                <select value={programId} onChange={(event) => setProgramId(event.target.value)} className={FIELD_CLASS}>
+                  {programOptions.map((program) => (
+                    <option key={program.programId} value={program.programId}>
+                      {program.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={LABEL_CLASS}>
+                Puntos (±)
+                <input
+                  type="number"
+                  value={points}
+                  onChange={(event) => setPoints(event.target.value)}
+                  className={FIELD_CLASS}
+                />
+              </label>
+              <label className={LABEL_CLASS}>
+                Sellos (±)
+                <input
+                  type="number"
+                  value={stamps}
+                  onChange={(event) => setStamps(event.target.value)}
+                  className={FIELD_CLASS}
+                />
+              </label>
+              <label className={`${LABEL_CLASS} sm:col-span-4`}>
+                Motivo
+                <input value={reason} onChange={(event) => setReason(event.target.value)} className={FIELD_CLASS} />
+              </label>
+              <div className="flex justify-end sm:col-span-4">
+                <button
+                  type="button"
+                  onClick={() => void handleAdjust()}
+                  disabled={isSaving}
+                  className="brand-button text-xs disabled:opacity-40"
+                >
+                  Registrar ajuste
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
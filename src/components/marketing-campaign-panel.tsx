@@ -0,0 +1,506 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createMarketingCampaign,
+  fetchCampaignAudienceCount,
+  fetchMarketingCampaigns,
+  sendMarketingCampaignBatch,
+} from '@/lib/api';
+import type {
+  CampaignAudienceFilter,
+  CustomerSegment,
+  MarketingCampaign,
+  MarketingCluster,
+} from '@/lib/marketing-campaigns';
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const CLUSTER_LABELS: Record<MarketingCluster, string> = {
+  high: 'Alta frecuencia',
+  routine: 'Recurrentes',
+  occasional: 'Esporádicos',
+};
+
+const SEGMENT_LABELS: Record<CustomerSegment, string> = {
+  active: 'Activos',
+  engaged: 'Comprometidos',
+  at_risk: 'En riesgo',
+  churned: 'Perdidos',
+  vip: 'VIP',
+};
+
+const STATUS_LABELS: Record<MarketingCampaign['status'], string> = {
+  draft: 'Borrador',
+  sending: 'Enviando',
+  sent: 'Enviada',
+};
+
+type Feedback = { message: string | null; error: string | null };
+
+type CampaignDraft = {
+  name: string;
+  subject: string;
+  headline: string;
+  body: string;
+  ctaLabel: string;
+  ctaUrl: string;
+  cluster: MarketingCluster | '';
+  favoriteDrink: string;
+  inactiveDays: string;
+  segment: CustomerSegment | '';
+  withPromo: boolean;
+  discountType: 'percentage' | 'amount';
+  discountValue: string;
+  validDays: string;
+};
+
+const EMPTY_DRAFT: CampaignDraft = {
+  name: '',
+  subject: '',
+  headline: '',
+  body: '',
+  ctaLabel: '',
+  ctaUrl: '',
+  cluster: '',
+  favoriteDrink: '',
+  inactiveDays: '',
+  segment: '',
+  withPromo: true,
+  discountType: 'percentage',
+  discountValue: '10',
+  validDays: '14',
+};
+
+const buildAudience = (draft: CampaignDraft): CampaignAudienceFilter => ({
+  cluster: draft.cluster || null,
+  favoriteDrink: draft.favoriteDrink.trim() || null,
+  inactiveDays: draft.inactiveDays ? Number(draft.inactiveDays) : null,
+  segment: draft.segment || null,
+});
+
+const describeAudience = (audience: CampaignAudienceFilter) => {
+  const parts = [
+    audience.cluster ? CLUSTER_LABELS[audience.cluster] : null,
+    audience.segment ? `Segmento ${SEGMENT_LABELS[audience.segment]}` : null,
+    audience.favoriteDrink ? `Bebida favorita: ${audience.favoriteDrink}` : null,
+    audience.inactiveDays ? `Sin comprar en ${audience.inactiveDays} días` : null,
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'Todos los clientes con consentimiento';
+};
+
+const formatRate = (value: number, total: number) =>
+  total > 0 ? `${Math.round((value / total) * 100)}%` : '—';
+
+/** Campañas por correo: armado de audiencia, envío escalonado y resultados. */
+export function MarketingCampaignPanel() {
+  const [campaigns, setCampaigns] = useState<MarketingCampaign[]>([]);
+  const [draft, setDraft] = useState<CampaignDraft>(EMPTY_DRAFT);
+  const [audienceCount, setAudienceCount] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const loadCampaigns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setCampaigns(await fetchMarketingCampaigns());
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar las campañas.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadCampaigns();
+  }, [loadCampaigns]);
+
+  const updateDraft = <K extends keyof CampaignDraft>(key: K, value: CampaignDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    if (key === 'cluster' || key === 'favoriteDrink' || key === 'inactiveDays' || key === 'segment') {
+      setAudienceCount(null);
+    }
+  };
+
+  const handlePreview = async () => {
+    setFeedback({ message: null, error: null });
+    try {
+      setAudienceCount((await fetchCampaignAudienceCount(buildAudience(draft))).count);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos calcular la audiencia.',
+      });
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const campaign = await createMarketingCampaign({
+        name: draft.name.trim(),
+        subject: draft.subject.trim(),
+        headline: draft.headline.trim() || null,
+        body: draft.body.trim(),
+        ctaLabel: draft.ctaLabel.trim() || null,
+        ctaUrl: draft.ctaUrl.trim() || null,
+        audience: buildAudience(draft),
+        promo: draft.withPromo
+          ? {
+              discountType: draft.discountType,
+              discountValue: Number(draft.discountValue),
+              validDays: Number(draft.validDays),
+            }
+          : null,
+      });
+      setFeedback({
+        message: `Campaña creada para ${campaign.recipientCount} clientes${
+          campaign.promoCode ? ` con el código ${campaign.promoCode}` : ''
+        }.`,
+        error: null,
+      });
+      setDraft(EMPTY_DRAFT);
+      setAudienceCount(null);
+      await loadCampaigns();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos crear la campaña.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Cada llamada envía un lote; seguimos mientras queden destinatarios pendientes.
+  const handleSend = async (campaign: MarketingCampaign) => {
+    setSendingId(campaign.id);
+    setFeedback({ message: null, error: null });
+    const totals = { sent: 0, failed: 0, skipped: 0 };
+    try {
+      let remaining = 1;
+      while (remaining > 0) {
+        const result = await sendMarketingCampaignBatch(campaign.id);
+        totals.sent += result.sent;
+        totals.failed += result.failed;
+        totals.skipped += result.skipped;
+        remaining = result.remaining;
+        setFeedback({
+          message: `${campaign.name}: ${totals.sent} enviados${remaining ? `, faltan ${remaining}` : ''}.`,
+          error: null,
+        });
+      }
+      setFeedback({
+        message: `${campaign.name}: ${totals.sent} enviados${
+          totals.failed ? `, ${totals.failed} con error` : ''
+        }${totals.skipped ? `, ${totals.skipped} omitidos por baja` : ''}.`,
+        error: null,
+      });
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos enviar la campaña.',
+      });
+    } finally {
+      setSendingId(null);
+      await loadCampaigns();
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Nueva campaña</p>
+        {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+        {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+        <div className="grid gap-2 sm:grid-cols-2">
+          <label className={LABEL_CLASS}>
+            Nombre interno
+            <input
+              value={draft.name}
+              onChange={(event) => updateDraft('name', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Asunto
+            <input
+              value={draft.subject}
+              onChange={(event) => updateDraft('subject', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={`${LABEL_CLASS} sm:col-span-2`}>
+            Encabezado
+            <input
+              value={draft.headline}
+              onChange={(event) => updateDraft('headline', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={`${LABEL_CLASS} sm:col-span-2`}>
+            Mensaje
+            <textarea
+              rows={5}
+              value={draft.body}
+              onChange={(event) => updateDraft('body', event.target.value)}
+              className={FIELD_CLASS}
+            />
+            <span className="mt-1 normal-case tracking-normal">
+              Usa {'{{nombre}}'} y {'{{codigo}}'}; separa párrafos con una línea en blanco.
+            </span>
+          </label>
+          <label className={LABEL_CLASS}>
+            Texto del botón
+            <input
+              value={draft.ctaLabel}
+              onChange={(event) => updateDraft('ctaLabel', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Liga del botón
+            <input
+              type="url"
+              value={draft.ctaUrl}
+              onChange={(event) => updateDraft('ctaUrl', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+        </div>
+
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Audiencia</p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          <label className={LABEL_CLASS}>
+            Cluster (últimos 30 días)
+            <select
+              value={draft.cluster}
+              onChange={(event) => updateDraft('cluster', event.target.value as MarketingCluster | '')}
+              className={FIELD_CLASS}
+            >
+              <option value="">Cualquiera</option>
+              {Object.entries(CLUSTER_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={LABEL_CLASS}>
+            Segmento
+            <select
+              value={draft.segment}
+              onChange={(event) => updateDraft('segment', event.target.value as CustomerSegment | '')}
+              className={FIELD_CLASS}
+            >
+              <option value="">Cualquiera</option>
+              {Object.entries(SEGMENT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={LABEL_CLASS}>
+            Bebida favorita
+            <input
+              value={draft.favoriteDrink}
+              onChange={(event) => updateDraft('favoriteDrink', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Días sin comprar
+            <input
+              type="number"
+              min={7}
+              max={365}
+              value={draft.inactiveDays}
+              onChange={(event) => updateDraft('inactiveDays', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-[var(--brand-muted)]">
+          <button type="button" onClick={() => void handlePreview()} className="brand-button--ghost text-xs">
+            Calcular audiencia
+          </button>
+          {audienceCount !== null && (
+            <span>{audienceCount} clientes con consentimiento de correo coinciden.</span>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-[var(--brand-muted)]">
+          <input
+            type="checkbox"
+            checked={draft.withPromo}
+            onChange={(event) => updateDraft('withPromo', event.target.checked)}
+          />
+          Generar código promocional para medir canjes
+        </label>
+        {draft.withPromo && (
+          <div className="grid gap-2 sm:grid-cols-3">
+            <label className={LABEL_CLASS}>
+              Descuento
+              <select
+                value={draft.discountType}
+                onChange={(event) =>
+                  updateDraft('discountType', event.target.value as CampaignDraft['discountType'])
+                }
+                className={FIELD_CLASS}
+              >
+                <option value="percentage">Porcentaje</option>
+                <option value="amount">Monto fijo</option>
+              </select>
+            </label>
+            <label className={LABEL_CLASS}>
+              Valor
+              <input
+                type="number"
+                min={1}
+                value={draft.discountValue}
+                onChange={(event) => updateDraft('discountValue', event.target.value)}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Vigencia (días)
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={draft.validDays}
+                onChange={(event) => updateDraft('validDays', event.target.value)}
+                className={FIELD_CLASS}
+              />
+            </label>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => void handleCreate()}
+            disabled={isSaving}
+            className="brand-button text-xs disabled:opacity-40"
+          >
+            Crear campaña
+          </button>
+        </div>
+      </div>
+
+      {isLoading && !campaigns.length ? (
+        <p className="text-xs text-[var(--brand-muted)]">Cargando…</p>
+      ) : campaigns.length ? (
+        campaigns.map((campaign) => {
+          const delivered = campaign.stats.sent;
+          return (
+            <div
+              key={campaign.id}
+              className="space-y-2 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">
+                    {STATUS_LABELS[campaign.status]}
+                  </p>
+                  <h4 className="text-lg font-semibold text-primary-700">{campaign.name}</h4>
+                  <p className="text-xs text-[var(--brand-muted)]">{describeAudience(campaign.audience)}</p>
+                </div>
+                {campaign.status !== 'sent' && (
+                  <button
+                    type="button"
+                    onClick={() => void handleSend(campaign)}
+                    disabled={Boolean(sendingId)}
+                    className="brand-button text-xs disabled:opacity-40"
+                  >
+                    {sendingId === campaign.id
+                      ? 'Enviando…'
+                      : campaign.status === 'sending'
+                        ? 'Reanudar envío'
+                        : 'Enviar'}
+                  </button>
+                )}
+              </div>
+              <dl className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-5">
+                <div>
+                  <dt className="text-[var(--brand-muted)]">Enviados</dt>
+                  <dd className="font-semibold">
+                    {delivered} / {campaign.recipientCount}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-[var(--brand-muted)]">Aperturas</dt>
+                  <dd className="font-semibold">
+                    {campaign.stats.opened} ({formatRate(campaign.stats.opened, delivered)})
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-[var(--brand-muted)]">Canjes</dt>
+                  <dd className="font-semibold">
+                    {campaign.stats.redeemed} ({formatRate(campaign.stats.redeemed, delivered)})
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-[var(--brand-muted)]">Bajas</dt>
+                  <dd className="font-semibold">{campaign.stats.unsubscribed}</dd>
+                </div>
+                <div>
+                  <dt className="text-[var(--brand-muted)]">Código</dt>
+                  <dd className="font-semibold">{campaign.promoCode ?? '—'}</dd>
+                </div>
+              </dl>
+              {(campaign.stats.failed > 0 || campaign.stats.redemptions > campaign.stats.redeemed) && (
+                <p className="text-xs text-[var(--brand-muted)]">
+                  {campaign.stats.failed > 0 ? `${campaign.stats.failed} correos con error. ` : ''}
+                  {campaign.stats.redemptions > campaign.stats.redeemed
+                    ? `${campaign.stats.redemptions - campaign.stats.redeemed} canjes de personas fuera de la lista.`
+                    : ''}
+                </p>
+              )}
+            </div>
+          );
+        })
+      ) : (
+        <p className="text-xs text-[var(--brand-muted)]">Aún no hay campañas.</p>
+      )}
+    </div>
+  );
+}
@@ -38,7 +38,31 @@ import {
   getFallbackVariantsForProduct,
 } from '@/hooks/use-menu-options';
 import { useCartStore, type CartItem } from '@/hooks/use-cart-store';
-import type { LoyaltyCustomer, ManualStockStatus } from '@/lib/api';
+import { usePosSettings } from '@/hooks/use-pos-settings';
+import { computeTaxAmount } from '@/lib/order-pricing';
+import { previewPromoCode, type LoyaltyCustomer, type ManualStockStatus } from '@/lib/api';
+import type { OrderPromoDiscount } from '@/lib/promo-codes';
+import {
+  buildModifierKey,
+  formatModifierSummary,
+  getDefaultModifierSelections,
+  resolveModifierSelections,
+  sumModifierPriceDelta,
+  type ModifierGroup,
+  type ModifierSelectionInput,
+  type OrderItemModifier,
+} from '@/lib/product-modifiers';
+import {
+  parsePaymentTenders,
+  resolvePaymentTendersMethod,
+  validatePaymentTenders,
+} from '@/lib/payment-tenders';
+import {
+  PaymentTendersEditor,
+  createPaymentTenderDraft,
+  draftsToPaymentTenders,
+  type PaymentTenderDraft,
+} from '@/components/order/payment-tenders-editor';
 import {
   LOYALTY_STAMPS_TARGET,
   PUBLIC_SALE_CLIENT_ID,
@@ -194,19 +218,41 @@ type CustomerAddress = {
   isDefault?: boolean | null;
 };
 
+export type PrefillOrderItem = {
+  productId?: string | null;
+  name?: string | null;
+  quantity?: number | null;
+};
+
 interface NewOrderModalProps {
   onClose: () => void;
-  onSuccess?: () => Promise<void> | void;
+  onSuccess?: (result: {
+    orderId: string | null;
+    cashShiftWarning: string | null;
+  }) => Promise<void> | void;
   prefillClientId?: string | null;
+  /** Productos a cargar en el carrito al abrir, p. ej. la pre-orden de una reservación. */
+  prefillItems?: PrefillOrderItem[];
+  /** Metadatos extra que viajan con el pedido (p. ej. la reservación de origen). */
+  orderMetadata?: Record<string, unknown>;
   onWalletScanRequest?: (onCapture: (value: string) => void) => void;
   resolveLoyaltyCustomer?: (identifier: string) => LoyaltyCustomer | null;
   productStockStatus?: Record<string, ManualStockStatus>;
 }
 
+const normalizeMenuLabel = (value?: string | null) =>
+  (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
 export function NewOrderModal({
   onClose,
   onSuccess,
   prefillClientId,
+  prefillItems,
+  orderMetadata,
   onWalletScanRequest,
   resolveLoyaltyCustomer,
   productStockStatus = {},
@@ -250,6 +296,17 @@ export function NewOrderModal({
   const [paymentMethod, setPaymentMethod] = useState<string | null>(null);
   const [paymentReference, setPaymentReference] = useState('');
   const [cashTenderedInput, setCashTenderedInput] = useState('');
+  const [isSplitPayment, setIsSplitPayment] = useState(false);
+  const [tenderDrafts, setTenderDrafts] = useState<PaymentTenderDraft[]>([]);
+  const [modifierDraft, setModifierDraft] = useState<{
+    menuItem: MenuItem;
+    selections: ModifierSelectionInput[];
+    error: string | null;
+  } | null>(null);
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<OrderPromoDiscount | null>(null);
+  const [promoLookupState, setPromoLookupState] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [promoError, setPromoError] = useState<string | null>(null);
   const [loyaltyMatch, setLoyaltyMatch] = useState<LoyaltyCustomer | null>(null);
   const [loyaltyBaseCoffees, setLoyaltyBaseCoffees] = useState<number | null>(null);
   const [shippingEnabled, setShippingEnabled] = useState(false);
@@ -269,6 +326,7 @@ export function NewOrderModal({
   const [addressesLoading, setAddressesLoading] = useState(false);
   const [shippingMessage, setShippingMessage] = useState<string | null>(null);
   const hasPrefilledAddress = useRef(false);
+  const hasPrefilledItems = useRef(false);
   const [availableBeverageSizes, setAvailableBeverageSizes] = useState<MenuItem[]>([]);
   const [selectedBeverageSize, setSelectedBeverageSize] = useState<string | null>(null);
   const beverageOptionIds = useMemo(
@@ -516,7 +574,7 @@ export function NewOrderModal({
   }, [paymentMethod]);
 
   const addMenuItemToCart = useCallback(
-    (menuItem: MenuItem) => {
+    (menuItem: MenuItem, modifiers: OrderItemModifier[] = []) => {
       if (!menuItem) {
         setFormError('No encontramos ese producto en el menú.');
         return;
@@ -531,6 +589,10 @@ export function NewOrderModal({
       const isEligibleForReward = isBeverage && baseCoffees !== null;
       let loyaltyReward = false;
       let variantId = menuItem.id ?? menuItem.productId;
+      if (modifiers.length) {
+        variantId = `${variantId}+${buildModifierKey(modifiers)}`;
+      }
+      const modifierDelta = sumModifierPriceDelta(modifiers);
       if (isEligibleForReward) {
         const projectedTotal = baseCoffees + beveragesAlreadyInCart + 1;
         loyaltyReward = projectedTotal % LOYALTY_STAMPS_TARGET === 0;
@@ -542,21 +604,73 @@ export function NewOrderModal({
         productId: menuItem.productId,
         variantId: variantId ?? menuItem.productId,
         name: menuItem.label,
-        price: loyaltyReward ? 0 : menuItem.price ?? 0,
+        price: loyaltyReward ? modifierDelta : (menuItem.price ?? 0) + modifierDelta,
         quantity: 1,
         category: menuItem.category ?? (kind === 'beverage' ? 'Bebida' : menuItem.category),
         subcategory: menuItem.subcategory,
         sizeId: menuItem.sizeId,
         sizeLabel: menuItem.sizeLabel,
         kind: isBeverage ? 'beverage' : kind,
-        originalPrice: menuItem.price ?? 0,
+        originalPrice: (menuItem.price ?? 0) + modifierDelta,
         loyaltyReward,
+        modifiers: modifiers.length ? modifiers : undefined,
       });
       setFormError(null);
     },
     [addItem, getBeverageUnitsInCart, isPublicSaleContext, loyaltyBaseCoffees, resolveItemKind]
   );
 
+  useEffect(() => {
+    if (!prefillItems?.length || hasPrefilledItems.current || menuLoading || !allMenuItems.length) {
+      return;
+    }
+    hasPrefilledItems.current = true;
+    const missing: string[] = [];
+    prefillItems.forEach((entry) => {
+      const label = normalizeMenuLabel(entry.name);
+      const menuItem =
+        (entry.productId ? getMenuItemById(entry.productId) : undefined) ??
+        allMenuItems.find((item) => normalizeMenuLabel(item.label) === label);
+      const groups = menuItem?.modifierGroups ?? [];
+      const resolution = groups.length
+        ? resolveModifierSelections(groups, getDefaultModifierSelections(groups))
+        : { modifiers: [] as OrderItemModifier[], error: null };
+      if (!menuItem || resolution.error || getProductStatus(menuItem.productId) === 'out') {
+        missing.push(entry.name?.trim() || entry.productId || 'Producto');
+        return;
+      }
+      const modifiers = resolution.modifiers;
+      const baseVariant = menuItem.id ?? menuItem.productId;
+      const unitPrice = (menuItem.price ?? 0) + sumModifierPriceDelta(modifiers);
+      const kind = resolveItemKind(menuItem.id);
+      addItem({
+        productId: menuItem.productId,
+        variantId: modifiers.length ? `${baseVariant}+${buildModifierKey(modifiers)}` : baseVariant,
+        name: menuItem.label,
+        price: unitPrice,
+        quantity: Math.max(1, Math.round(entry.quantity ?? 1)),
+        category: menuItem.category,
+        subcategory: menuItem.subcategory,
+        sizeId: menuItem.sizeId,
+        sizeLabel: menuItem.sizeLabel,
+        kind: isMenuItemBeverage(menuItem, kind) ? 'beverage' : kind,
+        originalPrice: unitPrice,
+        modifiers: modifiers.length ? modifiers : undefined,
+      });
+    });
+    if (missing.length) {
+      setFormError(`Agrega manualmente: ${missing.join(', ')} (no están disponibles en el menú).`);
+    }
+  }, [
+    addItem,
+    allMenuItems,
+    getMenuItemById,
+    getProductStatus,
+    menuLoading,
+    prefillItems,
+    resolveItemKind,
+  ]);
+
   const handleQuickAdd = (productId: string) => {
     const menuItem = getMenuItemById(productId);
     if (!menuItem) {
@@ -568,9 +682,60 @@ export function NewOrderModal({
       setFormError('Este producto está marcado como agotado en el POS.');
       return;
     }
+    if (menuItem.modifierGroups?.length) {
+      setModifierDraft({
+        menuItem,
+        selections: getDefaultModifierSelections(menuItem.modifierGroups),
+        error: null,
+      });
+      return;
+    }
     addMenuItemToCart(menuItem);
   };
 
+  const handleToggleModifierOption = (group: ModifierGroup, optionId: string) => {
+    setModifierDraft((current) => {
+      if (!current) {
+        return current;
+      }
+      const isSelected = current.selections.some(
+        (entry) => entry.groupId === group.id && entry.optionId === optionId
+      );
+      const others = current.selections.filter((entry) => entry.groupId !== group.id);
+      const inGroup = current.selections.filter((entry) => entry.groupId === group.id);
+      let nextInGroup: ModifierSelectionInput[];
+      if (isSelected) {
+        nextInGroup = inGroup.filter((entry) => entry.optionId !== optionId);
+      } else if (group.selection === 'single') {
+        nextInGroup = [{ groupId: group.id, optionId }];
+      } else if (group.maxSelections !== null && inGroup.length >= group.maxSelections) {
+        return {
+          ...current,
+          error: `Elige máximo ${group.maxSelections} opciones en ${group.label}.`,
+        };
+      } else {
+        nextInGroup = [...inGroup, { groupId: group.id, optionId }];
+      }
+      return { ...current, selections: [...others, ...nextInGroup], error: null };
+    });
+  };
+
+  const handleConfirmModifiers = () => {
+    if (!modifierDraft) {
+      return;
+    }
+    const { modifiers, error } = resolveModifierSelections(
+      modifierDraft.menuItem.modifierGroups ?? [],
+      modifierDraft.selections
+    );
+    if (error) {
+      setModifierDraft({ ...modifierDraft, error });
+      return;
+    }
+    addMenuItemToCart(modifierDraft.menuItem, modifiers);
+    setModifierDraft(null);
+  };
+
   const handleDropdownSelection = (setter: (value: string | null) => void) => (selectedId: string | null) => {
     setter(selectedId);
     if (selectedId) {
@@ -739,21 +904,34 @@ export function NewOrderModal({
     [getProductStatus, packageOptions]
   );
 
+  const promoCartSignature = useMemo(
+    () => items.map((item) => `${item.variantId}:${item.quantity}:${item.price}`).join('|'),
+    [items]
+  );
+
+  useEffect(() => {
+    // El descuento se calculó sobre otro carrito; hay que volver a aplicarlo.
+    setAppliedPromo(null);
+  }, [promoCartSignature]);
+
+  const discountAmount = appliedPromo ? Math.min(appliedPromo.amount, subtotal) : 0;
+  const discountedSubtotal = Math.max(0, subtotal - discountAmount);
+
   const tipComputation = useMemo(() => {
     let percent: number | null = null;
     let amount = 0;
     if (tipSelection === 'preset' && typeof selectedTipPercent === 'number') {
       percent = selectedTipPercent;
-      amount = subtotal * (selectedTipPercent / 100);
+      amount = discountedSubtotal * (selectedTipPercent / 100);
     } else if (tipSelection === 'custom') {
       if (useCustomTipAmount) {
         if (parsedCustomAmount !== null) {
           amount = parsedCustomAmount;
-          percent = subtotal > 0 ? (parsedCustomAmount / subtotal) * 100 : null;
+          percent = discountedSubtotal > 0 ? (parsedCustomAmount / discountedSubtotal) * 100 : null;
         }
       } else if (parsedCustomPercent !== null) {
         percent = parsedCustomPercent;
-        amount = subtotal * (parsedCustomPercent / 100);
+        amount = discountedSubtotal * (parsedCustomPercent / 100);
       }
     }
     return {
@@ -764,7 +942,7 @@ export function NewOrderModal({
     parsedCustomAmount,
     parsedCustomPercent,
     selectedTipPercent,
-    subtotal,
+    discountedSubtotal,
     tipSelection,
     useCustomTipAmount,
   ]);
@@ -774,10 +952,16 @@ export function NewOrderModal({
     if (!shippingEnabled || typeof deliveryTipPercent !== 'number' || deliveryTipPercent <= 0) {
       return 0;
     }
-    return subtotal * (deliveryTipPercent / 100);
-  }, [deliveryTipPercent, shippingEnabled, subtotal]);
+    return discountedSubtotal * (deliveryTipPercent / 100);
+  }, [deliveryTipPercent, discountedSubtotal, shippingEnabled]);
+
+  const { settings: posSettings } = usePosSettings();
+  const taxAmount = useMemo(
+    () => computeTaxAmount(discountedSubtotal, posSettings),
+    [discountedSubtotal, posSettings]
+  );
 
-  const totalWithTip = subtotal + tipAmount + deliveryTipAmount;
+  const totalWithTip = discountedSubtotal + taxAmount + tipAmount + deliveryTipAmount;
   const isCashPayment = paymentMethod === 'efectivo';
   const parsedCashTendered = useMemo(
     () => parsePositiveNumber(cashTenderedInput),
@@ -789,7 +973,17 @@ export function NewOrderModal({
       : null;
   const hasValidCashAmount =
     !isCashPayment || (parsedCashTendered !== null && parsedCashTendered >= totalWithTip);
-  const canSubmit = items.length > 0 && !isSubmitting && Boolean(paymentMethod) && hasValidCashAmount;
+  const splitTenders = useMemo(
+    () => draftsToPaymentTenders(tenderDrafts, detectReferenceType),
+    [tenderDrafts]
+  );
+  const splitPaymentError = isSplitPayment
+    ? validatePaymentTenders(splitTenders, totalWithTip)
+    : null;
+  const canSubmit =
+    items.length > 0 &&
+    !isSubmitting &&
+    (isSplitPayment ? !splitPaymentError : Boolean(paymentMethod) && hasValidCashAmount);
   const showPaymentReferenceField = Boolean(paymentMethod && paymentMethod !== 'efectivo');
   const paymentReferenceLabel =
     (paymentMethod && PAYMENT_REFERENCE_LABELS[paymentMethod]) || 'Referencia de pago';
@@ -858,6 +1052,13 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
     setLoyaltyMatch(null);
     setLoyaltyBaseCoffees(null);
     setCashTenderedInput('');
+    setIsSplitPayment(false);
+    setTenderDrafts([]);
+    setModifierDraft(null);
+    setPromoCodeInput('');
+    setAppliedPromo(null);
+    setPromoLookupState('idle');
+    setPromoError(null);
     setShippingEnabled(false);
     setShippingForm({
       street: '',
@@ -915,6 +1116,73 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
       );
     }
   };
+  const handleToggleSplitPayment = () => {
+    if (isSplitPayment) {
+      setIsSplitPayment(false);
+      setTenderDrafts([]);
+      return;
+    }
+    setIsSplitPayment(true);
+    setPaymentMethod(null);
+    setPaymentReference('');
+    setCashTenderedInput('');
+    setTenderDrafts([createPaymentTenderDraft('efectivo'), createPaymentTenderDraft('debito')]);
+  };
+
+  const applyPromoCode = async (rawCode: string) => {
+    const code = rawCode.trim().toUpperCase();
+    if (!code) {
+      setPromoLookupState('error');
+      setPromoError('Captura un código promocional.');
+      return;
+    }
+    if (!items.length) {
+      setPromoLookupState('error');
+      setPromoError('Agrega artículos antes de aplicar un código.');
+      return;
+    }
+    setPromoCodeInput(code);
+    setPromoLookupState('loading');
+    setPromoError(null);
+    try {
+      const discount = await previewPromoCode({
+        code,
+        userId: validatedCustomer?.id ?? null,
+        items: items.map((item) => ({
+          productId: item.productId,
+          category: item.category ?? null,
+          price: item.price,
+          quantity: item.quantity,
+        })),
+      });
+      setAppliedPromo(discount);
+      setPromoLookupState('idle');
+    } catch (error) {
+      setAppliedPromo(null);
+      setPromoLookupState('error');
+      setPromoError(
+        error instanceof Error ? error.message : 'No pudimos validar el código promocional.'
+      );
+    }
+  };
+
+  const handlePromoScan = () => {
+    if (!onWalletScanRequest) {
+      setPromoError('El lector no está disponible en este entorno.');
+      return;
+    }
+    onWalletScanRequest((value) => {
+      void applyPromoCode(value);
+    });
+  };
+
+  const handleRemovePromo = () => {
+    setAppliedPromo(null);
+    setPromoCodeInput('');
+    setPromoLookupState('idle');
+    setPromoError(null);
+  };
+
   const handleWalletScan = () => {
     if (!onWalletScanRequest) {
       setFormError('El lector no está disponible en este entorno.');
@@ -940,40 +1208,58 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
       return;
     }
 
-    if (!paymentMethod) {
-      setFormError('Selecciona un método de pago antes de registrar el pedido.');
-      return;
-    }
-
-    if (paymentMethod === 'efectivo') {
-      if (parsedCashTendered === null) {
-        setFormError('Captura con cuánto pagó el cliente.');
-        return;
-      }
-      if (parsedCashTendered < totalWithTip) {
-        setFormError('El monto recibido no puede ser menor al total.');
-        return;
-      }
-    }
-
-    const needsReference = requiresPaymentReference(paymentMethod);
+    const needsReference = !isSplitPayment && requiresPaymentReference(paymentMethod);
     const trimmedReference = paymentReference.trim();
     const normalizedReference = looksLikeLightningInvoice(trimmedReference)
       ? normalizeLightningReference(trimmedReference)
       : trimmedReference;
-    if (needsReference) {
-      if (!normalizedReference) {
-        setFormError('Captura la referencia de pago correspondiente.');
+    if (isSplitPayment) {
+      if (splitPaymentError) {
+        setFormError(splitPaymentError);
         return;
       }
-      if (!isValidReferenceForMethod(paymentMethod, normalizedReference)) {
+      const invalidTender = splitTenders.find(
+        (tender) => tender.reference && !isValidReferenceForMethod(tender.method, tender.reference)
+      );
+      if (invalidTender) {
         setFormError(
-          paymentMethod === 'cripto'
+          invalidTender.method === 'cripto'
             ? 'Ingresa una wallet 0x, ENS o factura Lightning válida.'
-            : 'La referencia necesita al menos 4 caracteres.'
+            : 'Cada referencia necesita al menos 4 caracteres.'
         );
         return;
       }
+    } else {
+      if (!paymentMethod) {
+        setFormError('Selecciona un método de pago antes de registrar el pedido.');
+        return;
+      }
+
+      if (paymentMethod === 'efectivo') {
+        if (parsedCashTendered === null) {
+          setFormError('Captura con cuánto pagó el cliente.');
+          return;
+        }
+        if (parsedCashTendered < totalWithTip) {
+          setFormError('El monto recibido no puede ser menor al total.');
+          return;
+        }
+      }
+
+      if (needsReference) {
+        if (!normalizedReference) {
+          setFormError('Captura la referencia de pago correspondiente.');
+          return;
+        }
+        if (!isValidReferenceForMethod(paymentMethod, normalizedReference)) {
+          setFormError(
+            paymentMethod === 'cripto'
+              ? 'Ingresa una wallet 0x, ENS o factura Lightning válida.'
+              : 'La referencia necesita al menos 4 caracteres.'
+          );
+          return;
+        }
+      }
     }
 
     if (shippingEnabled) {
@@ -996,7 +1282,7 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
 
     const fallbackUserId = isUsingPublicSaleId ? PUBLIC_SALE_USER_ID : undefined;
     const referenceType = normalizedReference ? detectReferenceType(normalizedReference) : null;
-    const metadataPayload: Record<string, unknown> = {};
+    const metadataPayload: Record<string, unknown> = { ...(orderMetadata ?? {}) };
     const paymentMetadata: Record<string, unknown> = {};
     if (paymentMethod) {
       paymentMetadata.method = paymentMethod;
@@ -1011,6 +1297,25 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
       paymentMetadata.cashTendered = parsedCashTendered;
       paymentMetadata.cashChange = Math.max(parsedCashTendered - totalWithTip, 0);
     }
+    // Cada pago viaja por separado; el servidor guarda una fila de `payments` por cada uno.
+    const submittedTenders = isSplitPayment
+      ? splitTenders
+      : parsePaymentTenders([
+          {
+            method: paymentMethod,
+            amount: totalWithTip,
+            reference: normalizedReference,
+            referenceType,
+            cashTendered: parsedCashTendered,
+          },
+        ]);
+    const submittedPaymentMethod = isSplitPayment
+      ? resolvePaymentTendersMethod(splitTenders)
+      : paymentMethod;
+    if (isSplitPayment) {
+      paymentMetadata.method = submittedPaymentMethod;
+      paymentMetadata.tenders = splitTenders;
+    }
     if (Object.keys(paymentMetadata).length > 0) {
       metadataPayload.payment = paymentMetadata;
     }
@@ -1062,12 +1367,14 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
           price: item.price,
           sizeId: item.sizeId,
           sizeLabel: item.sizeLabel,
+          modifiers: item.modifiers,
           metadata: normalizedMetadata,
         };
       }),
       totals: {
         subtotal,
-        tax: 0,
+        ...(discountAmount > 0 ? { discount: discountAmount } : {}),
+        tax: taxAmount,
         tip: tipAmount,
         total: totalWithTip,
       },
@@ -1079,7 +1386,9 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
       deliveryTip: shippingPayload?.deliveryTip ?? undefined,
       userId: validatedCustomer?.id ?? fallbackUserId ?? undefined,
       clientId: trimmedClientId || undefined,
-      paymentMethod,
+      paymentMethod: submittedPaymentMethod,
+      payments: submittedTenders,
+      promoCode: appliedPromo?.code ?? undefined,
     };
     if (trimmedNotes) {
       payload.notes = trimmedNotes;
@@ -1100,18 +1409,23 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
         body: JSON.stringify(payload),
       });
 
+      const result = (await response.json().catch(() => null)) as {
+        success: boolean;
+        error?: string;
+        data?: { orderId?: string | null; cashShiftWarning?: string | null };
+      } | null;
       if (!response.ok) {
-        const message = await response.text();
-        throw new Error(message || 'No pudimos crear el pedido.');
+        throw new Error(result?.error || 'No pudimos crear el pedido.');
       }
-
-      const result = (await response.json()) as { success: boolean; error?: string };
-      if (!result.success) {
-        throw new Error(result.error || 'Error desconocido al crear el pedido.');
+      if (!result?.success) {
+        throw new Error(result?.error || 'Error desconocido al crear el pedido.');
       }
 
       resetFormState();
-      await onSuccess?.();
+      await onSuccess?.({
+        orderId: result.data?.orderId ?? null,
+        cashShiftWarning: result.data?.cashShiftWarning ?? null,
+      });
       onClose();
     } catch (error) {
       setFormError(
@@ -1186,6 +1500,63 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
           allowClear
         />
       </div>
+      {modifierDraft && (
+        <div className="rounded-2xl border border-primary-200/80 bg-white/80 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+          <div className="flex items-center justify-between gap-3">
+            <p className="font-semibold text-primary-700 dark:text-primary-100">
+              {modifierDraft.menuItem.label}
+            </p>
+            <span className="text-xs text-[var(--brand-muted)]">
+              {formatCurrency(modifierDraft.menuItem.price ?? 0)}
+            </span>
+          </div>
+          <div className="mt-3 space-y-3">
+            {(modifierDraft.menuItem.modifierGroups ?? []).map((group) => (
+              <div key={group.id}>
+                <p className="text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
+                  {group.label}
+                  {group.required ? ' · obligatorio' : ''}
+                  {group.selection === 'multiple' ? ' · varias' : ''}
+                </p>
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {group.options.map((option) => {
+                    const isActive = modifierDraft.selections.some(
+                      (entry) => entry.groupId === group.id && entry.optionId === option.id
+                    );
+                    return (
+                      <button
+                        key={option.id}
+                        type="button"
+                        onClick={() => handleToggleModifierOption(group, option.id)}
+                        className={`rounded-2xl border px-3 py-1 font-semibold transition ${
+                          isActive
+                            ? 'border-primary-500 bg-primary-100 text-primary-700'
+                            : 'border-primary-100 hover:border-primary-200'
+                        }`}
+                      >
+                        {option.label}
+                        {option.priceDelta !== 0 &&
+                          ` ${option.priceDelta > 0 ? '+' : '-'}${formatCurrency(Math.abs(option.priceDelta))}`}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+          {modifierDraft.error && (
+            <p className="mt-2 text-xs text-danger-500">{modifierDraft.error}</p>
+          )}
+          <div className="mt-3 flex justify-end gap-2 text-xs">
+            <button type="button" onClick={() => setModifierDraft(null)} className="brand-button--ghost">
+              Cancelar
+            </button>
+            <button type="button" onClick={handleConfirmModifiers} className="brand-button">
+              Agregar al carrito
+            </button>
+          </div>
+        </div>
+      )}
       {menuError && (
         <p className="rounded-2xl border border-danger-200/80 bg-danger-50/70 px-4 py-2 text-xs text-danger-600 dark:border-danger-500/30 dark:bg-danger-900/30 dark:text-danger-100">
           {menuError}
@@ -1226,6 +1597,7 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
                     <p className="text-xs text-[var(--brand-muted)]">
                       {item.category ?? 'Especialidad'}
                       {item.sizeLabel ? ` · ${item.sizeLabel}` : ''}
+                      {item.modifiers?.length ? ` · ${formatModifierSummary(item.modifiers)}` : ''}
                       {' · '}
                       {item.loyaltyReward ? (
                         <span className="font-semibold text-emerald-600">{displayPrice}</span>
@@ -1367,11 +1739,81 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
             </>
           )}
         </div>
+        <div className="mt-4 space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
+            Código promocional
+          </p>
+          {appliedPromo ? (
+            <div className="flex items-center justify-between gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-xs text-emerald-800 dark:border-emerald-400/30 dark:bg-emerald-500/10 dark:text-emerald-200">
+              <div>
+                <p className="font-semibold">{appliedPromo.code}</p>
+                <p>
+                  {appliedPromo.discountType === 'percentage'
+                    ? `${appliedPromo.discountValue}% de descuento`
+                    : `${formatCurrency(appliedPromo.discountValue)} de descuento`}
+                  {appliedPromo.scope === 'lines' ? ' en artículos seleccionados' : ''}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleRemovePromo}
+                className="rounded-full border border-emerald-300 px-3 py-1 font-semibold transition hover:border-emerald-500 dark:border-emerald-400/40"
+              >
+                Quitar
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <input
+                  value={promoCodeInput}
+                  onChange={(event) => {
+                    setPromoCodeInput(event.target.value.toUpperCase());
+                    setPromoError(null);
+                    setPromoLookupState('idle');
+                  }}
+                  placeholder="XOCO-10"
+                  className="w-full rounded-xl border border-primary-100/70 px-3 py-2 pr-12 text-sm uppercase text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                />
+                <button
+                  type="button"
+                  onClick={handlePromoScan}
+                  className="absolute inset-y-0 right-3 flex items-center justify-center rounded-full border border-primary-200 bg-primary-50 px-2 text-base transition hover:border-primary-400 hover:bg-primary-100 disabled:opacity-40 dark:border-white/30 dark:bg-white/10"
+                  disabled={!walletScannerAvailable || promoLookupState === 'loading'}
+                >
+                  <span aria-hidden="true">📷</span>
+                  <span className="sr-only">Escanear código promocional</span>
+                </button>
+              </div>
+              <button
+                type="button"
+                onClick={() => void applyPromoCode(promoCodeInput)}
+                disabled={promoLookupState === 'loading' || !promoCodeInput.trim()}
+                className="rounded-xl border border-primary-200 px-3 py-2 text-xs font-semibold text-primary-700 transition hover:border-primary-400 disabled:opacity-40 dark:border-white/20 dark:text-white"
+              >
+                {promoLookupState === 'loading' ? 'Validando…' : 'Aplicar'}
+              </button>
+            </div>
+          )}
+          {promoError && <p className="text-xs text-danger-500">{promoError}</p>}
+        </div>
         <div className="mt-4 space-y-1 rounded-2xl bg-white/60 p-3 text-sm shadow-sm dark:bg-white/5">
           <div className="flex items-center justify-between">
             <span>Subtotal</span>
             <span className="font-semibold">{formatCurrency(subtotal)}</span>
           </div>
+          {discountAmount > 0 && appliedPromo && (
+            <div className="flex items-center justify-between text-emerald-700 dark:text-emerald-300">
+              <span>Descuento ({appliedPromo.code})</span>
+              <span className="font-semibold">-{formatCurrency(discountAmount)}</span>
+            </div>
+          )}
+          {taxAmount > 0 && (
+            <div className="flex items-center justify-between">
+              <span>IVA</span>
+              <span className="font-semibold">{formatCurrency(taxAmount)}</span>
+            </div>
+          )}
           <div className="flex items-center justify-between">
             <span>Propina</span>
             <span className="font-semibold text-primary-600">{formatCurrency(tipAmount)}</span>
@@ -1662,106 +2104,133 @@ const getClientLabel = (customer: ValidatedCustomer | null) => {
         <p className="mt-1 text-xs text-[var(--brand-muted)]">
           Selecciona cómo se liquidó este pedido antes de registrarlo.
         </p>
-        <div className="mt-3 grid grid-cols-2 gap-2">
-          {[
-            { key: 'debito', label: 'Débito' },
-            { key: 'credito', label: 'Crédito' },
-            { key: 'transferencia', label: 'Transferencia' },
-            { key: 'efectivo', label: 'Efectivo' },
-            { key: 'cripto', label: 'Cripto' },
-          ].map((method) => {
-            const isActive = paymentMethod === method.key;
-            return (
-              <button
-                type="button"
-                key={method.key}
-                onClick={() => setPaymentMethod(method.key)}
-                className={`rounded-2xl border px-3 py-2 text-xs font-semibold transition ${
-                  isActive
-                    ? 'border-primary-500 bg-primary-100 text-primary-800 dark:border-primary-300 dark:bg-primary-500/20 dark:text-primary-100'
-                    : 'border-primary-100 text-[var(--brand-text)] dark:border-white/20 dark:text-white'
-                }`}
-              >
-                {method.label}
-              </button>
-            );
-          })}
-        </div>
-        {!paymentMethod && (
-          <p className="mt-2 text-xs text-danger-500">Este campo es obligatorio.</p>
-        )}
-        {paymentMethod === 'efectivo' && (
-          <div className="mt-4 space-y-2 rounded-2xl border border-primary-100/70 bg-white/60 p-4 text-sm dark:border-white/20 dark:bg-white/5">
-            <label className="text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
-              ¿Con cuánto pagó?
-            </label>
-            <input
-              value={cashTenderedInput}
-              onChange={(event) => setCashTenderedInput(event.target.value)}
-              placeholder="Ej. 500"
-              inputMode="decimal"
-              className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+        <button
+          type="button"
+          onClick={handleToggleSplitPayment}
+          className={`mt-3 rounded-full border px-3 py-1 text-xs font-semibold transition ${
+            isSplitPayment
+              ? 'border-primary-500 bg-primary-100 text-primary-800 dark:border-primary-300 dark:bg-primary-500/20 dark:text-primary-100'
+              : 'border-primary-200 text-primary-700 hover:bg-primary-50 dark:border-white/30 dark:text-white dark:hover:bg-white/10'
+          }`}
+        >
+          {isSplitPayment ? 'Cobrar con un solo método' : 'Dividir pago'}
+        </button>
+        {isSplitPayment ? (
+          <div className="mt-3">
+            <PaymentTendersEditor
+              drafts={tenderDrafts}
+              onChange={setTenderDrafts}
+              total={totalWithTip}
+              onWalletScanRequest={onWalletScanRequest}
             />
-            {parsedCashTendered !== null ? (
-              parsedCashTendered < totalWithTip ? (
-                <p className="text-xs font-semibold text-danger-600">El monto es menor al total.</p>
-              ) : (
-                <div className="space-y-1 text-xs text-[var(--brand-muted)]">
-                  <p>
-                    Total:{' '}
-                    <span className="font-semibold text-primary-700 dark:text-primary-100">
-                      {formatCurrency(totalWithTip)}
-                    </span>
-                  </p>
-                  <p>
-                    Pago:{' '}
-                    <span className="font-semibold text-primary-700 dark:text-primary-100">
-                      {formatCurrency(parsedCashTendered)}
-                    </span>
-                  </p>
-                  <p>
-                    Cambio:{' '}
-                    <span className="font-semibold text-primary-700 dark:text-primary-100">
-                      {formatCurrency(cashChangePreview ?? 0)}
-                    </span>
-                  </p>
-                </div>
-              )
-            ) : (
-              <p className="text-xs text-[var(--brand-muted)]">
-                Captura la cantidad recibida para calcular el cambio.
-              </p>
+            {splitPaymentError && (
+              <p className="mt-2 text-xs text-danger-500">{splitPaymentError}</p>
             )}
           </div>
-        )}
-        {showPaymentReferenceField && (
-          <div className="mt-4">
-            <label className="text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
-              {paymentReferenceLabel}
-            </label>
-            <div className="mt-2">
-              <div className="relative">
-                <input
-                  value={paymentReference}
-                  onChange={(event) => setPaymentReference(event.target.value)}
-                  placeholder={paymentReferencePlaceholder}
-                  className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 pr-12 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
-                />
-                {paymentMethod === 'cripto' && (
+        ) : (
+          <>
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              {[
+                { key: 'debito', label: 'Débito' },
+                { key: 'credito', label: 'Crédito' },
+                { key: 'transferencia', label: 'Transferencia' },
+                { key: 'efectivo', label: 'Efectivo' },
+                { key: 'cripto', label: 'Cripto' },
+              ].map((method) => {
+                const isActive = paymentMethod === method.key;
+                return (
                   <button
                     type="button"
-                    onClick={handleWalletScan}
-                    className="absolute inset-y-0 right-3 flex items-center justify-center rounded-full border border-primary-200 bg-primary-50 px-2 text-base transition hover:border-primary-400 hover:bg-primary-100 disabled:opacity-40 dark:border-white/30 dark:bg-white/10"
-                    disabled={!walletScannerAvailable}
+                    key={method.key}
+                    onClick={() => setPaymentMethod(method.key)}
+                    className={`rounded-2xl border px-3 py-2 text-xs font-semibold transition ${
+                      isActive
+                        ? 'border-primary-500 bg-primary-100 text-primary-800 dark:border-primary-300 dark:bg-primary-500/20 dark:text-primary-100'
+                        : 'border-primary-100 text-[var(--brand-text)] dark:border-white/20 dark:text-white'
+                    }`}
                   >
-                    <span aria-hidden="true">📷</span>
-                    <span className="sr-only">Escanear referencia cripto</span>
+                    {method.label}
                   </button>
+                );
+              })}
+            </div>
+            {!paymentMethod && (
+              <p className="mt-2 text-xs text-danger-500">Este campo es obligatorio.</p>
+            )}
+            {paymentMethod === 'efectivo' && (
+              <div className="mt-4 space-y-2 rounded-2xl border border-primary-100/70 bg-white/60 p-4 text-sm dark:border-white/20 dark:bg-white/5">
+                <label className="text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
+                  ¿Con cuánto pagó?
+                </label>
+                <input
+                  value={cashTenderedInput}
+                  onChange={(event) => setCashTenderedInput(event.target.value)}
+                  placeholder="Ej. 500"
+                  inputMode="decimal"
+                  className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                />
+                {parsedCashTendered !== null ? (
+                  parsedCashTendered < totalWithTip ? (
+                    <p className="text-xs font-semibold text-danger-600">El monto es menor al total.</p>
+                  ) : (
+                    <div className="space-y-1 text-xs text-[var(--brand-muted)]">
+                      <p>
+                        Total:{' '}
+                        <span className="font-semibold text-primary-700 dark:text-primary-100">
+                          {formatCurrency(totalWithTip)}
+                        </span>
+                      </p>
+                      <p>
+                        Pago:{' '}
+                        <span className="font-semibold text-primary-700 dark:text-primary-100">
+                          {formatCurrency(parsedCashTendered)}
+                        </span>
+                      </p>
+                      <p>
+                        Cambio:{' '}
+                        <span className="font-semibold text-primary-700 dark:text-primary-100">
+                          {formatCurrency(cashChangePreview ?? 0)}
+                        </span>
+                      </p>
+                    </div>
+                  )
+                ) : (
+                  <p className="text-xs text-[var(--brand-muted)]">
+                    Captura la cantidad recibida para calcular el cambio.
+                  </p>
                 )}
               </div>
-            </div>
-            <p className="mt-1 text-xs text-[var(--brand-muted)]">{paymentReferenceHint}</p>
-          </div>
+            )}
+            {showPaymentReferenceField && (
+              <div className="mt-4">
+                <label className="text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
+                  {paymentReferenceLabel}
+                </label>
+                <div className="mt-2">
+                  <div className="relative">
+                    <input
+                      value={paymentReference}
+                      onChange={(event) => setPaymentReference(event.target.value)}
+                      placeholder={paymentReferencePlaceholder}
+                      className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 pr-12 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                    />
+                    {paymentMethod === 'cripto' && (
+                      <button
+                        type="button"
+                        onClick={handleWalletScan}
+                        className="absolute inset-y-0 right-3 flex items-center justify-center rounded-full border border-primary-200 bg-primary-50 px-2 text-base transition hover:border-primary-400 hover:bg-primary-100 disabled:opacity-40 dark:border-white/30 dark:bg-white/10"
+                        disabled={!walletScannerAvailable}
+                      >
+                        <span aria-hidden="true">📷</span>
+                        <span className="sr-only">Escanear referencia cripto</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p className="mt-1 text-xs text-[var(--brand-muted)]">{paymentReferenceHint}</p>
+              </div>
+            )}
+          </>
         )}
       </div>
 
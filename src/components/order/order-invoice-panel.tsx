@@ -0,0 +1,363 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  buildInvoiceFileUrl,
+  cancelInvoice,
+  fetchCustomerFiscalProfile,
+  fetchInvoices,
+  issueOrderInvoice,
+  type CfdiInvoice,
+  type CustomerFiscalProfile,
+  type Order,
+} from '@/lib/api';
+import { CFDI_CANCELLATION_MOTIVES, CFDI_FISCAL_REGIMES, CFDI_USES } from '@/lib/cfdi';
+import { isPublicSaleIdentifier } from '@/lib/loyalty';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const INVOICE_STATUS_LABELS: Record<CfdiInvoice['status'], string> = {
+  stamped: 'Vigente',
+  cancel_pending: 'Cancelación en proceso',
+  cancelled: 'Cancelada',
+};
+
+const EMPTY_PROFILE: CustomerFiscalProfile = {
+  rfc: '',
+  name: '',
+  regime: '',
+  postalCode: '',
+  cfdiUse: 'G03',
+};
+
+const FIELD_CLASS =
+  'mt-1 w-full rounded-xl border border-primary-100/70 bg-white px-3 py-2 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'block text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+type OrderInvoicePanelProps = {
+  order: Order;
+  canCancel?: boolean;
+};
+
+export function OrderInvoicePanel({ order, canCancel = false }: OrderInvoicePanelProps) {
+  const isPublicSale = isPublicSaleIdentifier(order.userId);
+  const [invoices, setInvoices] = useState<CfdiInvoice[]>([]);
+  const [profile, setProfile] = useState<CustomerFiscalProfile>(EMPTY_PROFILE);
+  const [saveToProfile, setSaveToProfile] = useState(true);
+  const [motive, setMotive] = useState('02');
+  const [replacementUuid, setReplacementUuid] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string; error: boolean } | null>(null);
+
+  const loadInvoices = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setInvoices(await fetchInvoices({ orderId: order.id }));
+    } catch (err) {
+      setFeedback({
+        message: err instanceof Error ? err.message : 'No pudimos cargar las facturas.',
+        error: true,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [order.id]);
+
+  useEffect(() => {
+    if (isPublicSale) {
+      return;
+    }
+    void loadInvoices();
+  }, [isPublicSale, loadInvoices]);
+
+  useEffect(() => {
+    if (isPublicSale || !order.userId) {
+      return;
+    }
+    let cancelled = false;
+    fetchCustomerFiscalProfile(order.userId)
+      .then((stored) => {
+        if (!cancelled) {
+          setProfile({
+            rfc: stored.rfc ?? '',
+            name: stored.name ?? '',
+            regime: stored.regime ?? '',
+            postalCode: stored.postalCode ?? '',
+            cfdiUse: stored.cfdiUse ?? 'G03',
+          });
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [isPublicSale, order.userId]);
+
+  if (order.status !== 'completed') {
+    return null;
+  }
+
+  if (isPublicSale) {
+    return (
+      <div className="rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-xs text-[var(--brand-muted)] dark:border-white/10 dark:bg-white/5">
+        Venta al público general: se incluye en la factura global del mes.
+      </div>
+    );
+  }
+
+  const activeInvoice = invoices.find((invoice) => invoice.status !== 'cancelled') ?? null;
+  const updateField = (field: keyof CustomerFiscalProfile, value: string) =>
+    setProfile((prev) => ({ ...prev, [field]: value }));
+
+  const handleIssue = async () => {
+    setIsSubmitting(true);
+    setFeedback(null);
+    try {
+      const invoice = await issueOrderInvoice({
+        orderId: order.id,
+        receiver: profile,
+        saveToProfile: Boolean(order.userId) && saveToProfile,
+      });
+      setFeedback({ message: `Factura ${invoice.series}-${invoice.folio} timbrada.`, error: false });
+      await loadInvoices();
+    } catch (err) {
+      setFeedback({
+        message: err instanceof Error ? err.message : 'No pudimos emitir la factura.',
+        error: true,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (invoice: CfdiInvoice) => {
+    setIsSubmitting(true);
+    setFeedback(null);
+    try {
+      const result = await cancelInvoice(invoice.id, {
+        motive,
+        replacementUuid: motive === '01' ? replacementUuid.trim() : null,
+      });
+      setFeedback({
+        message: `Factura ${result.series}-${result.folio}: ${INVOICE_STATUS_LABELS[result.status]}.`,
+        error: false,
+      });
+      setReplacementUuid('');
+      await loadInvoices();
+    } catch (err) {
+      setFeedback({
+        message: err instanceof Error ? err.message : 'No pudimos cancelar la factura.',
+        error: true,
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-600 dark:text-primary-200">
+        Factura CFDI 4.0
+      </p>
+      {isLoading ? (
+        <p className="text-xs text-[var(--brand-muted)]">Cargando facturas…</p>
+      ) : activeInvoice ? (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <p className="font-semibold">
+                {activeInvoice.series}-{activeInvoice.folio} · {activeInvoice.receiverRfc}
+              </p>
+              <p className="break-all text-xs text-[var(--brand-muted)]">
+                {activeInvoice.uuid ?? 'Sin UUID'} · {INVOICE_STATUS_LABELS[activeInvoice.status]}
+              </p>
+            </div>
+            <p className="font-semibold text-primary-700 dark:text-primary-100">
+              {formatCurrency(activeInvoice.total)}
+            </p>
+          </div>
+          <div className="flex gap-3 text-xs font-semibold">
+            <a
+              href={buildInvoiceFileUrl(activeInvoice.id, 'xml')}
+              className="text-primary-600 hover:underline dark:text-primary-300"
+            >
+              Descargar XML
+            </a>
+            <a
+              href={buildInvoiceFileUrl(activeInvoice.id, 'pdf')}
+              className="text-primary-600 hover:underline dark:text-primary-300"
+            >
+              Descargar PDF
+            </a>
+          </div>
+          {canCancel && activeInvoice.status === 'stamped' && (
+            <div className="space-y-2 border-t border-primary-100/70 pt-2 dark:border-white/10">
+              <label className={LABEL_CLASS}>
+                Motivo de cancelación
+                <select
+                  value={motive}
+                  onChange={(event) => setMotive(event.target.value)}
+                  className={FIELD_CLASS}
+                >
+                  {Object.entries(CFDI_CANCELLATION_MOTIVES).map(([code, label]) => (
+                    <option key={code} value={code}>
+                      {code} · {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {motive === '01' && (
+                <label className={LABEL_CLASS}>
+                  UUID de la factura que la sustituye
+                  <input
+                    value={replacementUuid}
+                    onChange={(event) => setReplacementUuid(event.target.value)}
+                    className={FIELD_CLASS}
+                  />
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={() => void handleCancel(activeInvoice)}
+                disabled={isSubmitting || (motive === '01' && !replacementUuid.trim())}
+                className="w-full rounded-2xl bg-danger-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-danger-700 disabled:opacity-40"
+              >
+                {isSubmitting ? 'Cancelando…' : 'Cancelar factura'}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className={LABEL_CLASS}>
+              RFC
+              <input
+                value={profile.rfc ?? ''}
+                onChange={(event) => updateField('rfc', event.target.value.toUpperCase())}
+                maxLength={13}
+                className={FIELD_CLASS}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Código postal fiscal
+              <input
+                value={profile.postalCode ?? ''}
+                onChange={(event) => updateField('postalCode', event.target.value)}
+                maxLength={5}
+                inputMode="numeric"
+                className={FIELD_CLASS}
+              />
+            </label>
+          </div>
+          <label className={LABEL_CLASS}>
+            Nombre o razón social
+            <input
+              value={profile.name ?? ''}
+              onChange={(event) => updateField('name', event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+          <div className="grid gap-2 sm:grid-cols-2">
+            <label className={LABEL_CLASS}>
+              Régimen fiscal
+              <select
+                value={profile.regime ?? ''}
+                onChange={(event) => updateField('regime', event.target.value)}
+                className={FIELD_CLASS}
+              >
+                <option value="">Selecciona…</option>
+                {Object.entries(CFDI_FISCAL_REGIMES).map(([code, label]) => (
+                  <option key={code} value={code}>
+                    {code} · {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={LABEL_CLASS}>
+              Uso de CFDI
+              <select
+                value={profile.cfdiUse ?? 'G03'}
+                onChange={(event) => updateField('cfdiUse', event.target.value)}
+                className={FIELD_CLASS}
+              >
+                {Object.entries(CFDI_USES).map(([code, label]) => (
+                  <option key={code} value={code}>
+                    {code} · {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {order.userId && (
+            <label className="flex items-center gap-2 text-xs text-[var(--brand-muted)]">
+              <input
+                type="checkbox"
+                checked={saveToProfile}
+                onChange={(event) => setSaveToProfile(event.target.checked)}
+              />
+              Guardar en el perfil del cliente
+            </label>
+          )}
+          <button
+            type="button"
+            onClick={() => void handleIssue()}
+            disabled={isSubmitting}
+            className="brand-button w-full text-xs"
+          >
+            {isSubmitting ? 'Timbrando…' : 'Emitir factura'}
+          </button>
+        </div>
+      )}
+      {invoices.some((invoice) => invoice.status === 'cancelled') && (
+        <p className="text-[11px] text-[var(--brand-muted)]">
+          Canceladas:{' '}
+          {invoices
+            .filter((invoice) => invoice.status === 'cancelled')
+            .map((invoice) => `${invoice.series}-${invoice.folio}`)
+            .join(', ')}
+        </p>
+      )}
+      {feedback && (
+        <p
+          className={`text-xs font-semibold ${
+            feedback.error ? 'text-danger-600' : 'text-primary-600 dark:text-primary-200'
+          }`}
+        >
+          {feedback.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { refundOrder, voidOrder, type Order, type OrderReversalResponse } from '@/lib/api';
+import { ORDER_REFUND_STATUS_LABELS, extractOrderRefund } from '@/lib/order-refunds';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+type ReversalMode = 'void' | 'full' | 'lines';
+
+type OrderReversalPanelProps = {
+  order: Order;
+  onCompleted?: (result: OrderReversalResponse) => void;
+};
+
+export function OrderReversalPanel({ order, onCompleted }: OrderReversalPanelProps) {
+  const isCompleted = order.status === 'completed';
+  const refund = useMemo(() => extractOrderRefund(order.metadata), [order.metadata]);
+  const lines = useMemo(
+    () =>
+      (Array.isArray(order.items) ? order.items : []).map((item, lineIndex) => {
+        const quantity = typeof item.quantity === 'number' ? item.quantity : 1;
+        const refunded = typeof item.refundedQuantity === 'number' ? item.refundedQuantity : 0;
+        return {
+          lineIndex,
+          name: item.name ?? item.productId ?? 'Producto',
+          price: typeof item.price === 'number' ? item.price : 0,
+          available: Math.max(0, quantity - refunded),
+          refunded,
+        };
+      }),
+    [order.items]
+  );
+  const [mode, setMode] = useState<ReversalMode>(isCompleted ? 'full' : 'void');
+  const [reason, setReason] = useState('');
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+
+  if (order.status === 'voided' || order.status === 'refunded') {
+    return null;
+  }
+
+  const selectedLines = lines
+    .map((line) => ({ lineIndex: line.lineIndex, quantity: quantities[line.lineIndex] ?? 0 }))
+    .filter((line) => line.quantity > 0);
+  const canSubmit =
+    Boolean(reason.trim()) && !isSubmitting && (mode !== 'lines' || selectedLines.length > 0);
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+    setIsSubmitting(true);
+    setError(null);
+    setWarnings([]);
+    try {
+      const result =
+        mode === 'void'
+          ? await voidOrder(order.id, { reason: reason.trim() })
+          : await refundOrder(order.id, {
+              reason: reason.trim(),
+              lines: mode === 'lines' ? selectedLines : null,
+            });
+      setWarnings(result.warnings);
+      setReason('');
+      setQuantities({});
+      onCompleted?.(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'No pudimos procesar la solicitud.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-danger-200/70 bg-danger-50/40 p-4 text-sm dark:border-danger-600/40 dark:bg-danger-900/20">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-danger-600 dark:text-danger-200">
+          {isCompleted ? 'Reembolso' : 'Cancelar pedido'}
+        </p>
+        {refund && (
+          <span className="text-xs font-semibold text-danger-600 dark:text-danger-200">
+            {ORDER_REFUND_STATUS_LABELS[refund.status]} · -{formatCurrency(refund.amount)}
+          </span>
+        )}
+      </div>
+      {isCompleted && (
+        <div className="flex flex-wrap gap-2 text-xs">
+          {(['full', 'lines'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`rounded-full border px-3 py-1 font-semibold transition ${
+                mode === option
+                  ? 'border-danger-500 bg-danger-600 text-white'
+                  : 'border-danger-200 text-danger-700 hover:bg-danger-50 dark:border-white/20 dark:text-white'
+              }`}
+            >
+              {option === 'full' ? 'Reembolso total' : 'Por artículo'}
+            </button>
+          ))}
+        </div>
+      )}
+      {mode === 'lines' && (
+        <ul className="space-y-2">
+          {lines.map((line) => (
+            <li key={line.lineIndex} className="flex items-center justify-between gap-3">
+              <span className="text-xs">
+                {line.name} · {formatCurrency(line.price)}
+                {line.refunded > 0 && (
+                  <span className="ml-1 text-[var(--brand-muted)]">({line.refunded} reembolsados)</span>
+                )}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={line.available}
+                disabled={line.available === 0}
+                value={quantities[line.lineIndex] ?? 0}
+                onChange={(event) => {
+                  const next = Math.min(
+                    line.available,
+                    Math.max(0, Math.floor(Number(event.target.value) || 0))
+                  );
+                  setQuantities((prev) => ({ ...prev, [line.lineIndex]: next }));
+                }}
+                className="w-16 rounded-xl border border-primary-100/70 px-2 py-1 text-right text-sm disabled:opacity-40 dark:border-white/20 dark:bg-white/5"
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="block text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+        Motivo
+        <textarea
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          rows={2}
+          placeholder="Describe el motivo (obligatorio)"
+          className="mt-1 w-full rounded-xl border border-primary-100/70 px-3 py-2 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+        />
+      </label>
+      <button
+        type="button"
+        onClick={() => void handleSubmit()}
+        disabled={!canSubmit}
+        className="w-full rounded-2xl bg-danger-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-danger-700 disabled:opacity-40"
+      >
+        {isSubmitting
+          ? 'Procesando…'
+          : mode === 'void'
+            ? 'Cancelar pedido'
+            : mode === 'lines'
+              ? 'Reembolsar artículos'
+              : 'Reembolsar pedido'}
+      </button>
+      <p className="text-[11px] text-[var(--brand-muted)]">
+        Requiere autorización de gerencia; quedará registrado con tu usuario.
+      </p>
+      {error && <p className="text-xs font-semibold text-danger-600">{error}</p>}
+      {warnings.map((warning) => (
+        <p key={warning} className="text-xs font-semibold text-amber-600">
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import {
+  PAYMENT_TENDER_METHODS,
+  parsePaymentTenders,
+  sumPaymentTenders,
+  type PaymentTender,
+  type PaymentTenderMethod,
+} from '@/lib/payment-tenders';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+export const PAYMENT_TENDER_LABELS: Record<PaymentTenderMethod, string> = {
+  debito: 'Débito',
+  credito: 'Crédito',
+  transferencia: 'Transferencia',
+  efectivo: 'Efectivo',
+  cripto: 'Cripto',
+};
+
+export type PaymentTenderDraft = {
+  key: string;
+  method: PaymentTenderMethod;
+  amountInput: string;
+  reference: string;
+  cashTenderedInput: string;
+};
+
+const parseAmountInput = (value: string) => {
+  if (!value.trim()) {
+    return null;
+  }
+  const parsed = Number.parseFloat(value.replace(/,/g, '.'));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+let draftSequence = 0;
+
+export const createPaymentTenderDraft = (
+  method: PaymentTenderMethod,
+  amount?: number | null
+): PaymentTenderDraft => {
+  draftSequence += 1;
+  return {
+    key: `tender-${Date.now()}-${draftSequence}`,
+    method,
+    amountInput: typeof amount === 'number' && amount > 0 ? amount.toFixed(2) : '',
+    reference: '',
+    cashTenderedInput: '',
+  };
+};
+
+export const paymentTenderToDraft = (tender: PaymentTender): PaymentTenderDraft => ({
+  ...createPaymentTenderDraft(tender.method, tender.amount),
+  reference: tender.reference ?? '',
+  cashTenderedInput: tender.cashTendered !== null ? String(tender.cashTendered) : '',
+});
+
+/** Convierte los renglones capturados en la lista que esperan las APIs. */
+export const draftsToPaymentTenders = (
+  drafts: PaymentTenderDraft[],
+  detectReferenceType?: (reference: string) => string
+): PaymentTender[] =>
+  parsePaymentTenders(
+    drafts.map((draft) => {
+      const reference = draft.reference.trim();
+      return {
+        method: draft.method,
+        amount: parseAmountInput(draft.amountInput),
+        reference,
+        referenceType: reference && detectReferenceType ? detectReferenceType(reference) : null,
+        cashTendered: parseAmountInput(draft.cashTenderedInput),
+      };
+    })
+  );
+
+type PaymentTendersEditorProps = {
+  drafts: PaymentTenderDraft[];
+  onChange: (drafts: PaymentTenderDraft[]) => void;
+  total: number;
+  onWalletScanRequest?: (onCapture: (value: string) => void) => void;
+};
+
+export function PaymentTendersEditor({
+  drafts,
+  onChange,
+  total,
+  onWalletScanRequest,
+}: PaymentTendersEditorProps) {
+  const paid = useMemo(() => sumPaymentTenders(draftsToPaymentTenders(drafts)), [drafts]);
+  const remaining = Math.round((total - paid) * 100) / 100;
+
+  const updateDraft = (key: string, patch: Partial<PaymentTenderDraft>) => {
+    onChange(drafts.map((draft) => (draft.key === key ? { ...draft, ...patch } : draft)));
+  };
+
+  const handleAddTender = () => {
+    onChange([
+      ...drafts,
+      createPaymentTenderDraft(
+        drafts.some((draft) => draft.method === 'efectivo') ? 'debito' : 'efectivo',
+        remaining > 0 ? remaining : null
+      ),
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {drafts.map((draft, index) => {
+        const amount = parseAmountInput(draft.amountInput);
+        const cashTendered = parseAmountInput(draft.cashTenderedInput);
+        const isCash = draft.method === 'efectivo';
+        const cashShort = isCash && cashTendered !== null && amount !== null && cashTendered < amount;
+        return (
+          <div
+            key={draft.key}
+            className="space-y-2 rounded-2xl border border-primary-100/70 bg-white/60 p-3 dark:border-white/20 dark:bg-white/5"
+          >
+            <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-[0.3em] text-[var(--brand-muted)]">
+              <span>Pago {index + 1}</span>
+              {drafts.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => onChange(drafts.filter((entry) => entry.key !== draft.key))}
+                  className="text-danger-600 hover:underline"
+                >
+                  Quitar
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={draft.method}
+                onChange={(event) =>
+                  updateDraft(draft.key, {
+                    method: event.target.value as PaymentTenderMethod,
+                    reference: '',
+                    cashTenderedInput: '',
+                  })
+                }
+                className="rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+              >
+                {PAYMENT_TENDER_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {PAYMENT_TENDER_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+              <div className="relative">
+                <input
+                  value={draft.amountInput}
+                  onChange={(event) => updateDraft(draft.key, { amountInput: event.target.value })}
+                  placeholder="Monto"
+                  inputMode="decimal"
+                  className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 pr-16 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                />
+                {remaining > 0 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateDraft(draft.key, {
+                        amountInput: ((amount ?? 0) + remaining).toFixed(2),
+                      })
+                    }
+                    className="absolute inset-y-0 right-2 my-1 rounded-full border border-primary-200 px-2 text-[10px] font-semibold text-primary-700 dark:border-white/30 dark:text-white"
+                  >
+                    Resto
+                  </button>
+                )}
+              </div>
+            </div>
+            {isCash ? (
+              <div className="space-y-1">
+                <input
+                  value={draft.cashTenderedInput}
+                  onChange={(event) =>
+                    updateDraft(draft.key, { cashTenderedInput: event.target.value })
+                  }
+                  placeholder="¿Con cuánto pagó?"
+                  inputMode="decimal"
+                  className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                />
+                {cashShort ? (
+                  <p className="text-xs font-semibold text-danger-600">
+                    El efectivo recibido es menor al monto de este pago.
+                  </p>
+                ) : cashTendered !== null && amount !== null ? (
+                  <p className="text-xs text-[var(--brand-muted)]">
+                    Cambio:{' '}
+                    <span className="font-semibold text-primary-700 dark:text-primary-100">
+                      {formatCurrency(Math.max(cashTendered - amount, 0))}
+                    </span>
+                  </p>
+                ) : null}
+              </div>
+            ) : (
+              <div className="relative">
+                <input
+                  value={draft.reference}
+                  onChange={(event) => updateDraft(draft.key, { reference: event.target.value })}
+                  placeholder={
+                    draft.method === 'cripto'
+                      ? 'Wallet / ENS / Lightning'
+                      : 'Folio de terminal o transferencia'
+                  }
+                  className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 pr-12 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                />
+                {draft.method === 'cripto' && onWalletScanRequest && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onWalletScanRequest((value) => updateDraft(draft.key, { reference: value }))
+                    }
+                    className="absolute inset-y-0 right-3 flex items-center justify-center rounded-full border border-primary-200 bg-primary-50 px-2 text-base transition hover:border-primary-400 hover:bg-primary-100 dark:border-white/30 dark:bg-white/10"
+                  >
+                    <span aria-hidden="true">📷</span>
+                    <span className="sr-only">Escanear referencia cripto</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={handleAddTender}
+        className="rounded-full border border-primary-200 px-3 py-1 text-xs font-semibold text-primary-700 transition hover:bg-primary-50 dark:border-white/30 dark:text-white dark:hover:bg-white/10"
+      >
+        Agregar pago
+      </button>
+      <div className="space-y-1 text-xs text-[var(--brand-muted)]">
+        <p>
+          Total:{' '}
+          <span className="font-semibold text-primary-700 dark:text-primary-100">
+            {formatCurrency(total)}
+          </span>
+        </p>
+        <p>
+          Pagado:{' '}
+          <span className="font-semibold text-primary-700 dark:text-primary-100">
+            {formatCurrency(paid)}
+          </span>
+        </p>
+        <p className={remaining === 0 ? '' : 'font-semibold text-danger-600'}>
+          {remaining >= 0 ? 'Restante' : 'Excedente'}: {formatCurrency(Math.abs(remaining))}
+        </p>
+      </div>
+    </div>
+  );
+}
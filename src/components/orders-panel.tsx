@@ -29,9 +29,11 @@
 'use client';
 
 import { useMemo, useState, type ReactNode } from 'react';
+import Link from 'next/link';
 import { useOrders } from '@/hooks/use-orders';
 import { usePagination } from '@/hooks/use-pagination';
 import type { Order, PrepTask } from '@/lib/api';
+import { ORDER_REFUND_STATUS_LABELS, extractOrderRefund } from '@/lib/order-refunds';
 
 const ITEMS_PER_PAGE = 3;
 const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
@@ -46,6 +48,19 @@ const statusLabel: Record<Order['status'], string> = {
   pending: 'Pendiente',
   completed: 'Completado',
   past: 'Pasado',
+  voided: 'Cancelado',
+  refunded: 'Reembolsado',
+};
+
+const getRefundSummaryLine = (order: Order) => {
+  const refund = extractOrderRefund(order.metadata);
+  if (!refund || refund.amount <= 0) {
+    return null;
+  }
+  const lastReason = refund.entries[refund.entries.length - 1]?.reason;
+  return `${ORDER_REFUND_STATUS_LABELS[refund.status]} · -${formatCurrency(refund.amount)}${
+    lastReason ? ` · ${lastReason}` : ''
+  }`;
 };
 
 const PAYMENT_METHOD_LABELS: Record<string, string> = {
@@ -293,6 +308,7 @@ export function OrdersPanel({
   const [filter, setFilter] = useState('');
   const [showPastModal, setShowPastModal] = useState(false);
   const [showCompletedModal, setShowCompletedModal] = useState(false);
+  const [showReversedModal, setShowReversedModal] = useState(false);
   const completedAll = useMemo(
     () => visibleOrders.filter((order) => order.status === 'completed'),
     [visibleOrders]
@@ -310,6 +326,9 @@ export function OrdersPanel({
   const pending = filtered.filter((order) => order.status === 'pending');
   const past = filtered.filter((order) => order.status === 'past');
   const completed = filtered.filter((order) => order.status === 'completed');
+  const reversed = filtered.filter(
+    (order) => order.status === 'voided' || order.status === 'refunded'
+  );
   const completedLastWeek = useMemo(() => {
     const threshold = Date.now() - WEEK_MS;
     return completedAll.filter((order) => {
@@ -334,6 +353,13 @@ export function OrdersPanel({
             Cada pedido incluye su ticket POS. Seguimos la regla de corte 23:59, ocultamos los
             pendientes al tercer día y los depuramos pasado un año.
           </p>
+          <Link
+            href="/kitchen"
+            target="_blank"
+            className="mt-2 inline-block text-xs font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Abrir pantalla de cocina
+          </Link>
         </div>
         <div className="flex flex-wrap items-center gap-3 text-xs text-[var(--brand-muted)]">
           <div className="flex flex-col gap-2 text-[var(--brand-muted)]">
@@ -388,6 +414,15 @@ export function OrdersPanel({
                   Completadas
                 </button>
               )}
+              {reversed.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setShowReversedModal(true)}
+                  className="brand-button text-xs"
+                >
+                  Cancelados ({reversed.length})
+                </button>
+              )}
             </div>
           </div>
           <div className="flex items-center gap-3">
@@ -453,6 +488,18 @@ export function OrdersPanel({
           isFiltered={Boolean(filter.trim())}
         />
       )}
+      {showReversedModal && (
+        <OrdersHistoryModal
+          title="Pedidos cancelados y reembolsados"
+          orders={reversed}
+          onClose={() => setShowReversedModal(false)}
+          onSelect={(order) => {
+            onSelect?.(order);
+            setShowReversedModal(false);
+          }}
+          isFiltered={Boolean(filter.trim())}
+        />
+      )}
     </section>
   );
 }
@@ -494,6 +541,7 @@ function OrdersColumn({
                 ? 'No aplica'
                 : paymentInfo.reference ?? 'Pendiente';
             const paymentSummary = buildPaymentSummary(order, paymentInfo);
+            const refundSummary = getRefundSummaryLine(order);
             return (
               <button
                 type="button"
@@ -529,6 +577,11 @@ function OrdersColumn({
                 {paymentSummary && (
                   <p className="text-xs text-[var(--brand-muted)]">Pago: {paymentSummary}</p>
                 )}
+                {refundSummary && (
+                  <p className="text-xs font-semibold text-danger-600 dark:text-danger-200">
+                    {refundSummary}
+                  </p>
+                )}
                 <p className="text-xs text-[var(--brand-muted)]">
                   Atendió: {order.queuedByStaffName ?? order.queuedByStaffId ?? 'Sin asignar'}
                 </p>
@@ -764,6 +817,7 @@ const OrdersHistoryModal = ({
                   ? 'No aplica'
                   : paymentInfo.reference ?? 'Pendiente';
               const paymentSummary = buildPaymentSummary(order, paymentInfo);
+              const refundSummary = getRefundSummaryLine(order);
               return (
                 <button
                   type="button"
@@ -804,6 +858,9 @@ const OrdersHistoryModal = ({
                       Pago: {paymentSummary}
                     </p>
                   )}
+                  {refundSummary && (
+                    <p className="text-xs font-semibold text-danger-200">{refundSummary}</p>
+                  )}
                   <p className="text-xs text-[var(--brand-muted)] dark:text-white/70">
                     Atendió: {order.queuedByStaffName ?? order.queuedByStaffId ?? 'Sin asignar'}
                   </p>
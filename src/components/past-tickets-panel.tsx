@@ -32,6 +32,7 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { FormEvent } from 'react';
 import type { TransactionHistoryEntry, TransactionsHistoryFilters } from '@/lib/api';
 import { fetchTransactionsHistory } from '@/lib/api';
+import { ORDER_REFUND_STATUS_LABELS, extractOrderRefund } from '@/lib/order-refunds';
 
 const formatCurrency = (value?: number | null) =>
   new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
@@ -297,6 +298,8 @@ export function PastTicketsPanel({ onReplay, replayingId, replayError }: PastTic
           {transactions.map((entry) => {
             const ticketId = getTicketIdentifier(entry);
             const isReplaying = replayingId === ticketId;
+            const refund = extractOrderRefund(entry.order.metadata);
+            const refundedAmount = refund?.amount ?? entry.refundedAmount ?? 0;
             return (
               <div
                 key={`${entry.order.id}-${ticketId}`}
@@ -321,6 +324,12 @@ export function PastTicketsPanel({ onReplay, replayingId, replayError }: PastTic
                 <p className="text-[11px] text-[var(--brand-muted)]">
                   {entry.order.status ?? '—'} · {entry.payment?.method ?? entry.ticket?.paymentMethod ?? 'Sin método'}
                 </p>
+                {refundedAmount > 0 && (
+                  <p className="text-[11px] font-semibold text-danger-600 dark:text-danger-200">
+                    {refund ? ORDER_REFUND_STATUS_LABELS[refund.status] : 'Reembolsado'} · -
+                    {formatCurrency(refundedAmount)}
+                  </p>
+                )}
                 <p className="text-[11px] text-[var(--brand-muted)]">Cliente: {getCustomerLabel(entry)}</p>
               </div>
             );
@@ -54,7 +54,50 @@ import {
 } from '@/hooks/use-menu-options';
 import { ThemeToggle } from '@/components/theme-toggle';
 import { PastTicketsPanel } from '@/components/past-tickets-panel';
+import { CashRegisterPanel } from '@/components/cash-register-panel';
+import { CatalogEditorPanel } from '@/components/catalog-editor-panel';
+import { RecipeEditorPanel } from '@/components/recipe-editor-panel';
+import { PurchasingPanel } from '@/components/purchasing-panel';
+import { ReorderPanel } from '@/components/reorder-panel';
+import { StockTransferPanel } from '@/components/stock-transfer-panel';
+import { BranchSwitcher } from '@/components/branch-switcher';
+import { AuditLogPanel } from '@/components/audit-log-panel';
+import { OrderReversalPanel } from '@/components/order/order-reversal-panel';
+import { OrderInvoicePanel } from '@/components/order/order-invoice-panel';
+import { ReservationFormPanel } from '@/components/reservation-form-panel';
+import { CustomerNoShowPanel, NoShowRulesPanel } from '@/components/reservation-no-show-panel';
+import { CustomerAccountForm, CustomerAccountPanel } from '@/components/customer-account-panel';
+import { CustomerPrivacyPanel, RetentionSweepPanel } from '@/components/customer-privacy-panel';
+import { MarketingCampaignPanel } from '@/components/marketing-campaign-panel';
+import {
+  CustomerLoyaltyPrograms,
+  LoyaltyLedgerPanel,
+  LoyaltyProgramsEditor,
+} from '@/components/loyalty-programs-panel';
+import { DeliveryDispatchBoard } from '@/components/delivery-dispatch-board';
+import {
+  PAYMENT_TENDER_LABELS,
+  PaymentTendersEditor,
+  createPaymentTenderDraft,
+  draftsToPaymentTenders,
+  paymentTenderToDraft,
+  type PaymentTenderDraft,
+} from '@/components/order/payment-tenders-editor';
 import { isPublicSaleOrder } from '@/lib/loyalty';
+import { extractOrderRefund } from '@/lib/order-refunds';
+import {
+  SPLIT_PAYMENT_METHOD,
+  extractPaymentTenders,
+  sumPaymentTenders,
+  validatePaymentTenders,
+  type PaymentTender,
+} from '@/lib/payment-tenders';
+import { extractOrderPromo } from '@/lib/promo-codes';
+import {
+  extractItemModifiers,
+  formatModifierSummary,
+  type OrderItemModifier,
+} from '@/lib/product-modifiers';
 import type {
   LoyaltyCustomer,
   Order,
@@ -68,12 +111,14 @@ import type {
   PartnerMetrics,
   AdvancedMetricsSection,
   AdvancedMetricsPayload,
+  BranchComparisonRow,
   AdvancedMetricsSectionId,
   ForecastPayload,
   MarketingInsights,
   TicketDetail,
   ManualStockStatus,
   TransactionHistoryEntry,
+  OrderReversalResponse,
 } from '@/lib/api';
 import {
   enqueueOrder,
@@ -81,7 +126,9 @@ import {
   completePrepTask,
   completeReservation,
   cancelReservation,
+  registerReservationArrival,
   fetchTicketDetail,
+  issueGlobalInvoice,
   updateCustomerPreferences,
   fetchReservationDetail,
   fetchPestControlStatus,
@@ -567,6 +614,10 @@ const groupReservations = (reservations: Reservation[]) => {
       completed.push(reservation);
       return;
     }
+    if (status === 'no_show') {
+      past.push(reservation);
+      return;
+    }
     if (status === 'past' || status === 'cancelled') {
       past.push({ ...reservation, status: 'past' });
       return;
@@ -1753,7 +1804,10 @@ type NavSection =
   | 'marketing'
   | 'employees'
   | 'payments'
+  | 'catalog'
+  | 'purchasing'
   | 'permissions'
+  | 'audit'
   | 'notifications';
 
 const NAV_ITEMS: { id: NavSection; label: string }[] = [
@@ -1765,7 +1819,10 @@ const NAV_ITEMS: { id: NavSection; label: string }[] = [
   { id: 'marketing', label: 'Marketing' },
   { id: 'employees', label: 'Empleados' },
   { id: 'payments', label: 'Pagos y cortes' },
+  { id: 'catalog', label: 'Catálogo' },
+  { id: 'purchasing', label: 'Compras' },
   { id: 'permissions', label: 'Permisos' },
+  { id: 'audit', label: 'Auditoría' },
   { id: 'notifications', label: 'Notificaciones' },
 ];
 
@@ -1785,7 +1842,7 @@ type StaffPanelView =
   | 'superuser'
   | null;
 
-const BARISTA_NAV_EXCLUSIONS: NavSection[] = ['employees', 'payments'];
+const BARISTA_NAV_EXCLUSIONS: NavSection[] = ['employees', 'catalog', 'purchasing'];
 const GERENTE_NAV_EXCLUSIONS: NavSection[] = ['employees', 'payments'];
 
 const HOURLY_RATE = 38.1;
@@ -1955,13 +2012,6 @@ type ApprovalTicket = {
   notes: string;
 };
 
-type CampaignNotification = {
-  id: string;
-  title: string;
-  body: string;
-  relatedView: StaffPanelView;
-};
-
 const createInventoryFromList = (names: string[], prefix: string): InventoryEntry[] =>
   names.map((name, index) => ({
     id: `${prefix}-${index}`,
@@ -2351,20 +2401,6 @@ export function PosDashboard() {
       notes: 'Revisión de limpieza de baños matutina.',
     },
   ]);
-  const [campaignFeed, setCampaignFeed] = useState<CampaignNotification[]>([
-    {
-      id: 'camp-001',
-      title: 'Revisión de salario pendiente',
-      body: 'Necesitas aprobar la solicitud GOV-001 antes de 5 días hábiles.',
-      relatedView: 'governance',
-    },
-    {
-      id: 'camp-002',
-      title: 'Evaluación de desempeño',
-      body: 'Completa la evaluación trimestral de baristas senior.',
-      relatedView: 'approvals',
-    },
-  ]);
   const [superUserQueue, setSuperUserQueue] = useState<SuperUserAction[]>([
     { id: 'sup-001', email: 'nuevo.socio@xoco.local', role: 'socio', status: 'pending' },
   ]);
@@ -2591,6 +2627,7 @@ export function PosDashboard() {
       paymentReference?: string | null;
       cashTendered?: number | null;
       cashChange?: number | null;
+      payments?: PaymentTender[] | null;
     };
   } | null>(null);
   const [showReservationHistory, setShowReservationHistory] = useState(false);
@@ -2722,6 +2759,14 @@ export function PosDashboard() {
   const [customerQuery, setCustomerQuery] = useState('');
   const [customerFilter, setCustomerFilter] = useState('');
   const [prefilledClientId, setPrefilledClientId] = useState<string | null>(null);
+  const [reservationArrival, setReservationArrival] = useState<Reservation | null>(null);
+  const [showReservationForm, setShowReservationForm] = useState(false);
+  const [showNoShowRules, setShowNoShowRules] = useState(false);
+  const [showCustomerForm, setShowCustomerForm] = useState(false);
+  const reservationPrefillItems = useMemo(
+    () => (reservationArrival ? parsePreOrderItems(reservationArrival.preOrderItems) : undefined),
+    [reservationArrival]
+  );
   const [lastPaymentReference, setLastPaymentReference] = useState<string | null>(null);
   const loyaltyCustomers = useMemo(
     () => loyaltyStats?.customers ?? [],
@@ -2862,7 +2907,11 @@ export function PosDashboard() {
     }
     if (!isSocio) {
       items = items.filter(
-        (item) => item.id !== 'advancedMetrics' && item.id !== 'forecasts' && item.id !== 'marketing'
+        (item) =>
+          item.id !== 'advancedMetrics' &&
+          item.id !== 'forecasts' &&
+          item.id !== 'marketing' &&
+          item.id !== 'audit'
       );
     }
     return items;
@@ -3647,6 +3696,7 @@ export function PosDashboard() {
   const handleCloseNewOrder = useCallback(() => {
     setShowNewOrderForm(false);
     setPrefilledClientId(null);
+    setReservationArrival(null);
   }, []);
 
   const handleOpenScanner = useCallback(() => {
@@ -3707,22 +3757,6 @@ export function PosDashboard() {
     [handleCloseWalletScanner, walletScanResolver]
   );
 
-  const getCurrentStaffName = useCallback(
-    () => {
-      if (!user) {
-        return null;
-      }
-      const direct = user.firstName?.trim();
-      if (direct) {
-        return direct.split(/\s+/)[0] ?? direct;
-      }
-      const display = buildStaffDisplayName(user);
-      const [first] = display.split(/\s+/);
-      return first ?? display;
-    },
-    [user]
-  );
-
   const handleMoveOrderToQueue = useCallback(
     async (
       order: Order,
@@ -3731,6 +3765,7 @@ export function PosDashboard() {
         paymentReference?: string | null;
         cashTendered?: number | null;
         cashChange?: number | null;
+        payments?: PaymentTender[] | null;
       }
     ) => {
       if (!user) {
@@ -3739,12 +3774,11 @@ export function PosDashboard() {
       setActionState({ isLoading: true, message: null, error: null });
       try {
         await enqueueOrder(order.id, {
-          staffId: user.id,
-          staffName: getCurrentStaffName(),
           paymentMethod: options?.paymentMethod ?? null,
           paymentReference: options?.paymentReference ?? null,
           cashTendered: options?.cashTendered ?? null,
           cashChange: options?.cashChange ?? null,
+          payments: options?.payments ?? null,
         });
         void refresh();
         void refreshPrep();
@@ -3767,7 +3801,7 @@ export function PosDashboard() {
         return false;
       }
     },
-    [getCurrentStaffName, refresh, refreshPrep, user]
+    [refresh, refreshPrep, user]
   );
 
   const handleQueuePreviewRequest = useCallback(
@@ -3778,6 +3812,7 @@ export function PosDashboard() {
         paymentReference?: string | null;
         cashTendered?: number | null;
         cashChange?: number | null;
+        payments?: PaymentTender[] | null;
       }
     ) => {
       setPendingQueue({ order, options });
@@ -3803,6 +3838,7 @@ export function PosDashboard() {
         paymentReference?: string | null;
         cashTendered?: number | null;
         cashChange?: number | null;
+        payments?: PaymentTender[] | null;
       }
     ) => {
       if (!user) {
@@ -3811,12 +3847,11 @@ export function PosDashboard() {
       setActionState({ isLoading: true, message: null, error: null });
       try {
         await enqueueOrder(order.id, {
-          staffId: user.id,
-          staffName: getCurrentStaffName(),
           paymentMethod: options?.paymentMethod ?? null,
           paymentReference: options?.paymentReference ?? null,
           cashTendered: options?.cashTendered ?? null,
           cashChange: options?.cashChange ?? null,
+          payments: options?.payments ?? null,
         });
         void refresh();
         void refreshPrep();
@@ -3838,7 +3873,7 @@ export function PosDashboard() {
         });
       }
     },
-    [enqueueSnackbar, getCurrentStaffName, refresh, refreshPrep, user]
+    [enqueueSnackbar, refresh, refreshPrep, user]
   );
 
   const handleCompletePrepOrder = useCallback(
@@ -4235,6 +4270,19 @@ export function PosDashboard() {
     }
   };
 
+  // La pre-orden se carga en un pedido nuevo; al crearse, el pedido queda ligado a la reservación.
+  const handleRegisterReservationArrival = (reservation: Reservation) => {
+    setReservationArrival(reservation);
+    handleOpenNewOrder(reservation.user?.clientId ?? reservation.userId ?? null);
+    setDetail(null);
+  };
+
+  const handleReservationRescheduled = async () => {
+    setDetail(null);
+    enqueueSnackbar('Reservación reprogramada.');
+    await refreshReservations();
+  };
+
   const handleScannedReservationConfirm = async (reservation: ScannedReservation) => {
     if (!reservation.id) {
       enqueueSnackbar('El QR no incluye un ID de reservación válido.');
@@ -4285,6 +4333,7 @@ export function PosDashboard() {
           </div>
           <div className="flex flex-col items-end gap-3 text-sm text-[var(--brand-muted)]">
             <p className="text-right">Turno {user.shiftType === 'full_time' ? 'tiempo completo' : 'medio tiempo'}</p>
+            {isSocio && <BranchSwitcher />}
             <button
               type="button"
               className="rounded-full border border-primary-200 px-4 py-2 text-xs font-semibold text-primary-600 transition hover:bg-primary-50 dark:border-white/20 dark:text-primary-200"
@@ -4323,7 +4372,6 @@ export function PosDashboard() {
         }}
         onLogout={logout}
         user={user}
-        hasCampaignNotifications={campaignFeed.length > 0}
       />
       <StaffSidePanel
         view={activeStaffPanel}
@@ -4361,8 +4409,6 @@ export function PosDashboard() {
         onGovernanceDecision={handleGovernanceDecision}
         approvalTickets={approvalTickets}
         onApprovalDecision={handleApprovalTicket}
-        campaignFeed={campaignFeed}
-        onCampaignNavigate={(view) => setActiveStaffPanel(view)}
         secureSnapshot={secureSnapshot}
         superUserQueue={superUserQueue}
         onCreateSuperUserAction={handleSuperUserAction}
@@ -4434,19 +4480,51 @@ export function PosDashboard() {
             {showNewOrderForm && (
               <section className="card space-y-4 p-6">
                 <div className="flex items-center justify-between">
-                  <p className="badge">Nuevo pedido POS</p>
+                  <p className="badge">
+                    {reservationArrival
+                      ? `Pedido de reservación ${reservationArrival.reservationCode ?? reservationArrival.id}`
+                      : 'Nuevo pedido POS'}
+                  </p>
                   <button type="button" className="text-xs uppercase tracking-[0.3em] text-[var(--brand-muted)]" onClick={handleCloseNewOrder}>
                     Cerrar
                   </button>
                 </div>
                 <NewOrderModal
+                  key={reservationArrival?.id ?? 'manual'}
                   onClose={handleCloseNewOrder}
                   prefillClientId={prefilledClientId}
+                  prefillItems={reservationPrefillItems}
+                  orderMetadata={
+                    reservationArrival
+                      ? {
+                          reservation: {
+                            id: reservationArrival.id,
+                            code: reservationArrival.reservationCode ?? null,
+                          },
+                        }
+                      : undefined
+                  }
                   onWalletScanRequest={handleWalletScanRequest}
                   resolveLoyaltyCustomer={resolveLoyaltyCustomerByIdentifier}
-                  onSuccess={async () => {
+                  onSuccess={async ({ orderId, cashShiftWarning }) => {
                     await refresh();
-                    enqueueSnackbar('Nuevo pedido creado manualmente.');
+                    if (reservationArrival && orderId) {
+                      try {
+                        await registerReservationArrival(reservationArrival.id, orderId);
+                        await refreshReservations();
+                        enqueueSnackbar(
+                          cashShiftWarning ?? 'Pedido creado y ligado a la reservación.'
+                        );
+                      } catch (error) {
+                        enqueueSnackbar(
+                          error instanceof Error
+                            ? error.message
+                            : 'El pedido se creó, pero no pudimos ligarlo a la reservación.'
+                        );
+                      }
+                    } else {
+                      enqueueSnackbar(cashShiftWarning ?? 'Nuevo pedido creado manualmente.');
+                    }
                     handleCloseNewOrder();
                   }}
                 />
@@ -4486,26 +4564,55 @@ export function PosDashboard() {
               onSelectPrepTask={(task) => setDetail({ type: 'prep', data: task })}
             />
 
+            <DeliveryDispatchBoard currentStaffId={user?.id ?? null} canAssignOthers={isManagerRole || isSocio} />
+
             <section id={reservationsSectionId} className="card space-y-6 p-6">
               <div className="flex flex-wrap items-center justify-between gap-3">
                 <div>
                   <p className="badge">Reservas compartidas</p>
                   <p className="text-sm text-[var(--brand-muted)]">Seguimos la lógica de corte 23:59; ocultamos reservas pasadas después de 3 días y las depuramos al año.</p>
                 </div>
-                <ReservationsSearchBar
-                  onSearch={(value) => setReservationFilter(value)}
-                  isLoading={reservationsLoading}
-                  onRefresh={refreshReservations}
-                  onShowPast={() => setShowReservationHistory(true)}
-                  onShowCompleted={
-                    baseCompletedReservations.length > 3
-                      ? () => setShowReservationCompletedHistory(true)
-                      : undefined
-                  }
-                  showCompletedButton={baseCompletedReservations.length > 3}
-                />
+                <div className="flex flex-wrap items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowReservationForm((prev) => !prev)}
+                    className="brand-button text-xs"
+                  >
+                    {showReservationForm ? 'Ocultar formulario' : 'Nueva reservación'}
+                  </button>
+                  {(isManagerRole || isSocio) && (
+                    <button
+                      type="button"
+                      onClick={() => setShowNoShowRules((prev) => !prev)}
+                      className="brand-button--ghost text-xs"
+                    >
+                      {showNoShowRules ? 'Ocultar reglas' : 'Reglas de inasistencia'}
+                    </button>
+                  )}
+                  <ReservationsSearchBar
+                    onSearch={(value) => setReservationFilter(value)}
+                    isLoading={reservationsLoading}
+                    onRefresh={refreshReservations}
+                    onShowPast={() => setShowReservationHistory(true)}
+                    onShowCompleted={
+                      baseCompletedReservations.length > 3
+                        ? () => setShowReservationCompletedHistory(true)
+                        : undefined
+                    }
+                    showCompletedButton={baseCompletedReservations.length > 3}
+                  />
+                </div>
               </div>
 
+              {showReservationForm && (
+                <ReservationFormPanel
+                  onSaved={() => void refreshReservations()}
+                  onCancel={() => setShowReservationForm(false)}
+                />
+              )}
+
+              {(isManagerRole || isSocio) && showNoShowRules && <NoShowRulesPanel />}
+
               {reservationsError ? (
                 <div className="rounded-2xl border border-dashed border-danger-300/70 bg-danger-50/60 px-4 py-3 text-sm text-danger-700 dark:border-danger-700/40 dark:bg-danger-900/30 dark:text-danger-100">
                   {reservationsError}
@@ -4564,6 +4671,13 @@ export function PosDashboard() {
                 </div>
                 <div className="flex items-center gap-4 text-sm text-[var(--brand-muted)]">
                   {loyaltyLoading && <p>Actualizando...</p>}
+                  <button
+                    type="button"
+                    onClick={() => setShowCustomerForm((prev) => !prev)}
+                    className="brand-button text-xs"
+                  >
+                    {showCustomerForm ? 'Ocultar formulario' : 'Nuevo cliente'}
+                  </button>
                   <button
                     type="button"
                     onClick={() => void refreshLoyalty()}
@@ -4574,6 +4688,16 @@ export function PosDashboard() {
                 </div>
               </div>
 
+              {showCustomerForm && (
+                <CustomerAccountForm
+                  onSaved={(account) => {
+                    setCustomerQuery(account.clientId);
+                    void refreshLoyalty();
+                  }}
+                  onCancel={() => setShowCustomerForm(false)}
+                />
+              )}
+
               {loyaltyError ? (
                 <div className="rounded-2xl border border-dashed border-danger-300/70 bg-danger-50/60 px-4 py-3 text-sm text-danger-700 dark:border-danger-700/40 dark:bg-danger-900/30 dark:text-danger-100">
                   {loyaltyError}
@@ -4644,6 +4768,18 @@ export function PosDashboard() {
                       }
                       onCompletePrepOrder={(order) => void handleCompletePrepOrder(order)}
                       onNotify={enqueueSnackbar}
+                      canReverse={isManagerRole || isSocio}
+                      onReversed={(result) => {
+                        void refresh();
+                        void refreshPrep();
+                        void refreshPayments();
+                        setDetail(null);
+                        enqueueSnackbar(
+                          result.refund.status === 'voided'
+                            ? 'El pedido se canceló.'
+                            : 'El reembolso quedó registrado.'
+                        );
+                      }}
                     />
                   )}
                   {detail.type === 'reservation' && (
@@ -4651,6 +4787,8 @@ export function PosDashboard() {
                       reservation={detail.data}
                       onConfirmReservation={handleConfirmReservation}
                       onCancelReservation={handleCancelReservation}
+                      onRegisterArrival={handleRegisterReservationArrival}
+                      onRescheduled={() => void handleReservationRescheduled()}
                       actionState={actionState}
                     />
                   )}
@@ -4669,6 +4807,10 @@ export function PosDashboard() {
                       isMenuLoading={menuLoading}
                       onClose={() => setDetail(null)}
                       onRefreshLoyalty={refreshLoyalty}
+                      canOverrideNoShows={isManagerRole || isSocio}
+                      canAdjustLoyalty={isManagerRole || isSocio}
+                      canMergeCustomers={isManagerRole || isSocio}
+                      canManagePrivacy={isManagerRole || isSocio}
                     />
                   )}
                   {detail.type === 'scan-reservation' && (
@@ -4971,6 +5113,7 @@ export function PosDashboard() {
                 title="Ventas · público general"
                 description="Resumen mensual del POS sin cliente identificado."
                 downloadLabel="Descargar"
+                canIssueGlobalInvoice={isManagerRole || isSocio}
               />
             </section>
             <section className="card p-6">
@@ -5099,6 +5242,9 @@ export function PosDashboard() {
               onToggleRange={toggleAdvancedRangeMode}
               onRefresh={() => void refreshAdvancedMetrics()}
             />
+            <div className="mt-6">
+              <LoyaltyProgramsEditor />
+            </div>
           </section>
         )}
 
@@ -5121,7 +5267,9 @@ export function PosDashboard() {
               </div>
             </div>
 
-            {paymentsError ? (
+            <CashRegisterPanel />
+
+            {user.role === 'barista' ? null : paymentsError ? (
               <div className="rounded-2xl border border-dashed border-danger-300/70 bg-danger-50/60 px-4 py-3 text-sm text-danger-700 dark:border-danger-700/40 dark:bg-danger-900/30 dark:text-danger-100">
                 {paymentsError}
               </div>
@@ -5134,6 +5282,33 @@ export function PosDashboard() {
           </section>
         )}
 
+        {activeSection === 'catalog' && user.role !== 'barista' && (
+          <section className="card space-y-6 p-6">
+            <div>
+              <p className="badge">Catálogo</p>
+              <p className="text-sm text-[var(--brand-muted)]">
+                Alta de productos, tamaños, categorías, precios programados y recetas.
+              </p>
+            </div>
+            <CatalogEditorPanel />
+            <RecipeEditorPanel />
+          </section>
+        )}
+
+        {activeSection === 'purchasing' && user.role !== 'barista' && (
+          <section className="card space-y-6 p-6">
+            <div>
+              <p className="badge">Compras</p>
+              <p className="text-sm text-[var(--brand-muted)]">
+                Proveedores, órdenes de compra, recepción de mercancía, reabasto sugerido y traspasos entre sucursales.
+              </p>
+            </div>
+            <PurchasingPanel />
+            <ReorderPanel />
+            <StockTransferPanel />
+          </section>
+        )}
+
         {activeSection === 'employees' && user.role !== 'gerente' && (
           <section className="card space-y-6 p-6">
             <div className="flex flex-wrap items-center justify-between gap-3">
@@ -5266,6 +5441,20 @@ export function PosDashboard() {
           </section>
         )}
 
+        {activeSection === 'audit' && isSocio && (
+          <section className="card space-y-6 p-6">
+            <div>
+              <p className="badge">Auditoría</p>
+              <p className="text-sm text-[var(--brand-muted)]">
+                Accesos, cambios de configuración, inventario, pedidos y votos con el antes y después de cada
+                registro.
+              </p>
+            </div>
+            <AuditLogPanel staff={staffData?.staff ?? []} />
+            <RetentionSweepPanel />
+          </section>
+        )}
+
         {activeSection === 'permissions' && (
           <section className="card space-y-6 p-6">
             <div className="flex flex-wrap items-center justify-between gap-3">
@@ -5566,6 +5755,7 @@ const statusStyles: Record<string, string> = {
   confirmed: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-200',
   completed: 'bg-primary-100 text-primary-700 dark:bg-primary-500/20 dark:text-primary-200',
   cancelled: 'bg-danger-100 text-danger-700 dark:bg-danger-500/20 dark:text-danger-200',
+  no_show: 'bg-danger-100 text-danger-700 dark:bg-danger-500/20 dark:text-danger-200',
 };
 
 function ReservationColumn({
@@ -5697,7 +5887,7 @@ function ReservationCard({
           <p className="text-xs text-[var(--brand-muted)]">{customerLabel}</p>
         </div>
         <span className={`rounded-full px-3 py-1 text-xs font-semibold capitalize ${statusClass}`}>
-          {statusKey}
+          {statusKey === 'no_show' ? 'no asistió' : statusKey}
         </span>
       </div>
       {reservation.message && (
@@ -5720,6 +5910,7 @@ type OrderItemEntry = {
   variantId?: string | null;
   packageId?: string | null;
   packageName?: string | null;
+  modifiers?: OrderItemModifier[] | null;
   metadata?: Record<string, unknown> | null;
 };
 
@@ -5800,12 +5991,14 @@ const normalizeItemEntry = (entry: unknown, fallbackCategory?: string | null): O
       : typeof record.group === 'string'
         ? record.group.trim()
         : null;
+  const modifiers = extractItemModifiers(record.modifiers);
   return {
     name,
     quantity,
     category,
     subcategory,
     price: price ?? undefined,
+    modifiers: modifiers.length ? modifiers : undefined,
   };
 };
 
@@ -6342,6 +6535,9 @@ const buildVirtualTicketOrderPayload = ({
         },
       ];
   const ticketId = order.ticketCode ?? order.orderNumber ?? order.id;
+  const refundSummary = extractOrderRefund(metadataObject);
+  const paymentTenders = extractPaymentTenders(metadataObject);
+  const orderPromo = extractOrderPromo(metadataObject);
   const customerName =
     order.customerName ??
     extractCustomerName(order.user) ??
@@ -6367,6 +6563,9 @@ const buildVirtualTicketOrderPayload = ({
     items: hydratedTicketItems.length > 0 ? hydratedTicketItems : fallbackTicketItems,
     qrPayload: order.qrPayload ?? metadataObject?.qrPayload ?? null,
     type: order.type ?? 'pos',
+    discount: orderPromo
+      ? { code: orderPromo.code, amount: orderPromo.amount, description: orderPromo.description }
+      : null,
     shipping: shipping
       ? {
         address: shipping.address
@@ -6400,6 +6599,28 @@ const buildVirtualTicketOrderPayload = ({
           : undefined,
       }
       : undefined,
+    refund: refundSummary
+      ? {
+        status: refundSummary.status,
+        amount: refundSummary.amount,
+        reason: refundSummary.entries[refundSummary.entries.length - 1]?.reason ?? null,
+        lines: refundSummary.entries.flatMap((entry) =>
+          entry.lines.map((line) => ({
+            name: line.name,
+            quantity: line.quantity,
+            amount: line.amount,
+          }))
+        ),
+      }
+      : null,
+    payments: paymentTenders.map((tender) => ({
+      method: tender.method,
+      label: PAYMENT_TENDER_LABELS[tender.method],
+      amount: tender.amount,
+      reference: tender.reference,
+      cashTendered: tender.cashTendered,
+      cashChange: tender.cashChange,
+    })),
   };
 };
 
@@ -6473,6 +6694,7 @@ const OrderItemsSection = ({ items }: { items: OrderItemEntry[] }) => (
           const descriptorRole = isBeverage ? 'tipo de bebida' : 'categoría';
           const descriptorLabel = descriptor ? `${descriptor} (${descriptorRole})` : null;
           const sizeLabel = resolvedSize ? `${resolvedSize} (tamaño)` : null;
+          const modifiers = extractItemModifiers(item.modifiers);
           const listKey = item.productId
             ? `${item.productId}-${item.sizeId ?? item.sizeLabel ?? index}`
             : `${index}`;
@@ -6498,6 +6720,11 @@ const OrderItemsSection = ({ items }: { items: OrderItemEntry[] }) => (
                     </span>
                   )}
                 </p>
+                {modifiers.length > 0 && (
+                  <p className="text-sm font-semibold text-primary-700 dark:text-primary-100">
+                    {formatModifierSummary(modifiers)}
+                  </p>
+                )}
               </div>
               <span className="font-bold text-primary-400 dark:text-white">
                 {hasUnitPrice ? formatCurrency(lineTotal ?? 0) : '—'}
@@ -6699,6 +6926,8 @@ const OrderDetailContent = ({
   onWalletScanRequest,
   isInPrepQueue = false,
   onNotify = () => undefined,
+  canReverse = false,
+  onReversed,
 }: {
   order: Order;
   onMoveToQueue?: (
@@ -6708,6 +6937,7 @@ const OrderDetailContent = ({
       paymentReference?: string | null;
       cashTendered?: number | null;
       cashChange?: number | null;
+      payments?: PaymentTender[] | null;
     }
   ) => void;
   onReturnToQueue?: (
@@ -6717,6 +6947,7 @@ const OrderDetailContent = ({
       paymentReference?: string | null;
       cashTendered?: number | null;
       cashChange?: number | null;
+      payments?: PaymentTender[] | null;
     }
   ) => void;
   onCompletePrepOrder?: (order: Order) => void;
@@ -6727,6 +6958,8 @@ const OrderDetailContent = ({
   onWalletScanRequest?: (onCapture: (value: string) => void) => void;
   isInPrepQueue?: boolean;
   onNotify?: (message: string) => void;
+  canReverse?: boolean;
+  onReversed?: (result: OrderReversalResponse) => void;
 }) => {
   const [detailSnapshot, setDetailSnapshot] = useState<Order | null>(null);
   const [items, setItems] = useState<OrderItemEntry[]>(
@@ -6831,6 +7064,11 @@ const OrderDetailContent = ({
     order.queuedPaymentReference ?? ''
   );
   const [cashTenderedInput, setCashTenderedInput] = useState<string>('');
+  const storedTenders = useMemo(() => extractPaymentTenders(metadataObject), [metadataObject]);
+  const orderPromo = useMemo(() => extractOrderPromo(metadataObject), [metadataObject]);
+  const [tenderDrafts, setTenderDrafts] = useState<PaymentTenderDraft[]>([]);
+  const isSplitSelection = selectedPaymentMethod === SPLIT_PAYMENT_METHOD;
+  const splitTenders = useMemo(() => draftsToPaymentTenders(tenderDrafts), [tenderDrafts]);
   const ticketRef = useRef<HTMLDivElement | null>(null);
   const [isDownloadingTicket, setIsDownloadingTicket] = useState(false);
   const [isGeneratingTicketPdf, setIsGeneratingTicketPdf] = useState(false);
@@ -6860,8 +7098,9 @@ const OrderDetailContent = ({
           ? metadataCashTendered
           : null;
     setCashTenderedInput(tendered !== null && Number.isFinite(tendered) ? String(tendered) : '');
+    setTenderDrafts(storedTenders.length > 1 ? storedTenders.map(paymentTenderToDraft) : []);
     setDetailSnapshot(null);
-  }, [metadataCashTendered, order]);
+  }, [metadataCashTendered, order, storedTenders]);
 
   useEffect(() => {
     if (order.queuedPaymentReference || !prefilledPaymentReference) {
@@ -7093,7 +7332,11 @@ const OrderDetailContent = ({
       tipValue,
     ]
   );
-  const allowPaymentEditing = !isInPrepQueue && order.status !== 'completed';
+  const allowPaymentEditing =
+    !isInPrepQueue &&
+    order.status !== 'completed' &&
+    order.status !== 'voided' &&
+    order.status !== 'refunded';
   const isPublicSale = isPublicSaleOrder(order);
   const shouldShowLoyaltyPanel = allowPaymentEditing && !isPublicSale;
   const tipAmountValue = typeof tipValue === 'number' ? tipValue : 0;
@@ -7309,14 +7552,19 @@ const OrderDetailContent = ({
       ? 'Entregado'
       : null;
   const requiresPaymentReferenceField =
-    normalizedPaymentMethod && normalizedPaymentMethod !== 'efectivo';
+    !isSplitSelection && normalizedPaymentMethod && normalizedPaymentMethod !== 'efectivo';
   const trimmedPaymentReference = paymentReference.trim();
   const hasReferenceValue = !requiresPaymentReferenceField || Boolean(trimmedPaymentReference);
-  const needsCashInput = normalizedPaymentMethod === 'efectivo';
+  const needsCashInput = !isSplitSelection && normalizedPaymentMethod === 'efectivo';
   const hasCashValue = !needsCashInput || currentCashTendered !== null;
   let paymentValidationMessage: string | null = null;
   if (!selectedPaymentMethod) {
     paymentValidationMessage = 'Selecciona el método de pago para continuar.';
+  } else if (isSplitSelection) {
+    paymentValidationMessage = validatePaymentTenders(
+      splitTenders,
+      resolvedTotalAmount ?? sumPaymentTenders(splitTenders)
+    );
   } else if (!hasReferenceValue) {
     paymentValidationMessage =
       selectedPaymentMethod === 'cripto'
@@ -7498,6 +7746,32 @@ const OrderDetailContent = ({
             </span>
           }
         />
+        {storedTenders.length > 1 && (
+          <DetailRow
+            label="Pagos"
+            value={
+              <span className="flex flex-col text-sm font-normal text-[var(--brand-text)] dark:text-white">
+                {storedTenders.map((tender, index) => (
+                  <span key={`${tender.method}-${index}`}>
+                    {PAYMENT_TENDER_LABELS[tender.method]} · {formatCurrency(tender.amount)}
+                    {tender.cashChange ? ` · cambio ${formatCurrency(tender.cashChange)}` : ''}
+                    {tender.reference ? ` · ${tender.reference}` : ''}
+                  </span>
+                ))}
+              </span>
+            }
+          />
+        )}
+        {orderPromo && (
+          <DetailRow
+            label="Promoción"
+            value={
+              <span className="text-sm font-normal text-[var(--brand-text)] dark:text-white">
+                {orderPromo.code} · -{formatCurrency(orderPromo.amount)}
+              </span>
+            }
+          />
+        )}
         <DetailRow
           label="Referencia"
           value={
@@ -7654,9 +7928,38 @@ const OrderDetailContent = ({
                     </button>
                   );
                 })}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setSelectedPaymentMethod(SPLIT_PAYMENT_METHOD);
+                    setShowPaymentSelector(false);
+                    if (!tenderDrafts.length) {
+                      setTenderDrafts([
+                        createPaymentTenderDraft('efectivo'),
+                        createPaymentTenderDraft('debito'),
+                      ]);
+                    }
+                  }}
+                  className={`rounded-2xl border px-3 py-2 text-xs font-semibold transition ${isSplitSelection
+                    ? 'border-primary-500 bg-primary-100 text-primary-800 dark:border-primary-300 dark:bg-primary-500/20 dark:text-primary-100'
+                    : 'border-primary-100 text-[var(--brand-text)] dark:border-white/20 dark:text-white'
+                    }`}
+                >
+                  Pago dividido
+                </button>
               </div>
             </div>
           )}
+          {isSplitSelection && (
+            <div className="rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+              <PaymentTendersEditor
+                drafts={tenderDrafts}
+                onChange={setTenderDrafts}
+                total={resolvedTotalAmount ?? order.total ?? 0}
+                onWalletScanRequest={onWalletScanRequest}
+              />
+            </div>
+          )}
           {selectedPaymentMethod === 'efectivo' && (
             <div className="rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
               <label className="text-xs uppercase tracking-[0.3em] text-[var(--brand-muted)]">
@@ -7701,36 +8004,38 @@ const OrderDetailContent = ({
               )}
             </div>
           )}
-          <div className="rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
-            <label className="text-xs uppercase tracking-[0.3em] text-[var(--brand-muted)]">
-              Referencia de pago
-            </label>
-            <div className="mt-2">
-              <div className="relative">
-                <input
-                  value={paymentReference}
-                  onChange={(event) => setPaymentReference(event.target.value)}
-                  placeholder="ID de transferencia, terminal o wallet (ENS / 0x…)"
-                  className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 pr-12 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
-                />
-                {selectedPaymentMethod === 'cripto' && onWalletScanRequest && (
-                  <button
-                    type="button"
-                    onClick={handleWalletScan}
-                    className="absolute inset-y-0 right-3 flex items-center justify-center rounded-full border border-primary-200 bg-primary-50 px-2 text-base transition hover:border-primary-400 hover:bg-primary-100 dark:border-white/30 dark:bg-white/10"
-                  >
-                    <span aria-hidden="true">📷</span>
-                    <span className="sr-only">Escanear referencia cripto</span>
-                  </button>
-                )}
+          {!isSplitSelection && (
+            <div className="rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+              <label className="text-xs uppercase tracking-[0.3em] text-[var(--brand-muted)]">
+                Referencia de pago
+              </label>
+              <div className="mt-2">
+                <div className="relative">
+                  <input
+                    value={paymentReference}
+                    onChange={(event) => setPaymentReference(event.target.value)}
+                    placeholder="ID de transferencia, terminal o wallet (ENS / 0x…)"
+                    className="w-full rounded-xl border border-primary-100/70 bg-transparent px-3 py-2 pr-12 text-sm text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+                  />
+                  {selectedPaymentMethod === 'cripto' && onWalletScanRequest && (
+                    <button
+                      type="button"
+                      onClick={handleWalletScan}
+                      className="absolute inset-y-0 right-3 flex items-center justify-center rounded-full border border-primary-200 bg-primary-50 px-2 text-base transition hover:border-primary-400 hover:bg-primary-100 dark:border-white/30 dark:bg-white/10"
+                    >
+                      <span aria-hidden="true">📷</span>
+                      <span className="sr-only">Escanear referencia cripto</span>
+                    </button>
+                  )}
+                </div>
               </div>
+              {!order.queuedPaymentReference && prefilledPaymentReference && (
+                <p className="mt-2 text-xs text-[var(--brand-muted)]">
+                  Última referencia escaneada: {prefilledPaymentReference}
+                </p>
+              )}
             </div>
-            {!order.queuedPaymentReference && prefilledPaymentReference && (
-              <p className="mt-2 text-xs text-[var(--brand-muted)]">
-                Última referencia escaneada: {prefilledPaymentReference}
-              </p>
-            )}
-          </div>
+          )}
           {!canSubmitPayment && (
             <p className="text-xs font-semibold text-danger-600">{paymentValidationMessage}</p>
           )}
@@ -7739,9 +8044,10 @@ const OrderDetailContent = ({
             onClick={() =>
               onMoveToQueue?.(order, {
                 paymentMethod: selectedPaymentMethod,
-                paymentReference: trimmedPaymentReference || undefined,
+                paymentReference: isSplitSelection ? undefined : trimmedPaymentReference || undefined,
                 cashTendered: needsCashInput ? currentCashTendered ?? null : null,
                 cashChange: needsCashInput ? resolvedCashChangeAmount ?? null : null,
+                payments: isSplitSelection ? splitTenders : null,
               })
             }
             disabled={!canSubmitPayment || actionState?.isLoading}
@@ -7766,12 +8072,15 @@ const OrderDetailContent = ({
               paymentReference: trimmedPaymentReference || order.queuedPaymentReference || null,
               cashTendered: needsCashInput ? currentCashTendered ?? null : null,
               cashChange: needsCashInput ? resolvedCashChangeAmount ?? null : null,
+              payments: isSplitSelection ? splitTenders : null,
             })
           }
           disabled={actionState?.isLoading}
           actionState={actionState}
         />
       )}
+      {order.status === 'completed' && <OrderInvoicePanel order={order} canCancel={canReverse} />}
+      {canReverse && <OrderReversalPanel order={order} onCompleted={onReversed} />}
     </div>
   );
 };
@@ -7780,17 +8089,23 @@ const ReservationDetailContent = ({
   reservation,
   onConfirmReservation,
   onCancelReservation,
+  onRegisterArrival,
+  onRescheduled,
   actionState,
 }: {
   reservation: Reservation;
   onConfirmReservation?: (reservation: Reservation) => void;
   onCancelReservation?: (reservation: Reservation) => void;
+  onRegisterArrival?: (reservation: Reservation) => void;
+  onRescheduled?: () => void;
   actionState?: DetailActionState;
 }) => {
+  const [isRescheduling, setIsRescheduling] = useState(false);
   const customerName = extractCustomerName(reservation.user);
   const customerPhone = extractCustomerPhone(reservation.user);
   const qrItems = parsePreOrderItems(reservation.preOrderItems);
   const preOrderText = reservation.preOrderItems?.trim() ?? '';
+  const isPending = (reservation.status ?? 'pending').toLowerCase() === 'pending';
 
   return (
     <div className="space-y-5 text-base">
@@ -7840,6 +8155,43 @@ const ReservationDetailContent = ({
           <p className="mt-1">{reservation.message}</p>
         </div>
       )}
+      {reservation.linkedOrderId && (
+        <DetailRow label="Pedido ligado" value={reservation.linkedOrderId} />
+      )}
+      {reservation.depositRequired && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50/80 px-4 py-3 text-sm font-semibold text-amber-800 dark:border-amber-500/40 dark:bg-amber-900/30 dark:text-amber-100">
+          Requiere anticipo
+          {Number(reservation.depositAmount) > 0
+            ? ` de ${formatCurrency(Number(reservation.depositAmount))}`
+            : ''}{' '}
+          por inasistencias previas.
+        </div>
+      )}
+      {isPending && isRescheduling && (
+        <ReservationFormPanel
+          reservation={reservation}
+          onSaved={() => onRescheduled?.()}
+          onCancel={() => setIsRescheduling(false)}
+        />
+      )}
+      {isPending && (onRegisterArrival || onRescheduled) && (
+        <div className="space-y-3">
+          {onRegisterArrival && !reservation.linkedOrderId && (
+            <DetailActionFooter
+              label={qrItems.length ? 'Registrar llegada y cargar pre-orden' : 'Registrar llegada y crear pedido'}
+              onClick={() => onRegisterArrival(reservation)}
+              disabled={actionState?.isLoading}
+            />
+          )}
+          {onRescheduled && !isRescheduling && (
+            <DetailActionFooter
+              label="Reprogramar"
+              onClick={() => setIsRescheduling(true)}
+              disabled={actionState?.isLoading}
+            />
+          )}
+        </div>
+      )}
       {(onConfirmReservation || onCancelReservation) && (
         <div className="space-y-3">
           {onConfirmReservation && (
@@ -7894,6 +8246,9 @@ const PrepTaskDetailContent = ({
         ? matchingOrderItem.quantity ?? null
         : null;
   const displayQuantity = safeQuantity(normalizedQuantity);
+  const prepModifiers = extractItemModifiers(
+    task.orderItem?.modifiers ?? (matchingOrderItem ? matchingOrderItem.modifiers : null)
+  );
   const detailItems: OrderItemEntry[] =
     orderItems.length > 0
       ? orderItems
@@ -7906,6 +8261,7 @@ const PrepTaskDetailContent = ({
               price: task.orderItem?.price ?? null,
               category: task.product?.category ?? null,
               subcategory: task.product?.subcategory ?? null,
+              modifiers: prepModifiers.length ? prepModifiers : null,
             },
           ]
         : orderItems; // Siempre fallback a orderItems aunque esté vacío
@@ -7964,6 +8320,20 @@ const PrepTaskDetailContent = ({
             </span>
           }
         />
+        {prepModifiers.length > 0 && (
+          <DetailRow
+            label="Modificadores"
+            value={
+              <span className="flex flex-col font-bold text-primary-900 dark:text-white">
+                {prepModifiers.map((modifier) => (
+                  <span key={`${modifier.groupId}-${modifier.optionId}`}>
+                    {modifier.groupLabel}: {modifier.label}
+                  </span>
+                ))}
+              </span>
+            }
+          />
+        )}
         <DetailRow
           label="Cantidad"
           value={
@@ -8016,6 +8386,10 @@ const CustomerDetailContent = ({
   isMenuLoading,
   onClose,
   onRefreshLoyalty,
+  canOverrideNoShows = false,
+  canAdjustLoyalty = false,
+  canMergeCustomers = false,
+  canManagePrivacy = false,
 }: {
   customer: LoyaltyCustomer;
   beverageOptions: MenuItem[];
@@ -8023,6 +8397,10 @@ const CustomerDetailContent = ({
   isMenuLoading?: boolean;
   onClose?: () => void;
   onRefreshLoyalty?: () => Promise<void> | void;
+  canOverrideNoShows?: boolean;
+  canAdjustLoyalty?: boolean;
+  canMergeCustomers?: boolean;
+  canManagePrivacy?: boolean;
 }) => {
   const name = getCustomerDisplayName(customer);
   const coffees = customer.loyaltyCoffees ?? customer.orders ?? 0;
@@ -8121,12 +8499,26 @@ const CustomerDetailContent = ({
         )}
       </header>
       {preferenceMessage && <p className={preferenceMessageClass}>{preferenceMessage}</p>}
-      <CustomerLoyaltyCoffees
-        count={coffees}
-        rewardEarned={customer.rewardEarned ?? false}
-        customerName={name}
-        statusLabel="Programa semanal"
-        subtitle="Sello por cada bebida registrada en POS"
+      {customer.loyaltyPrograms?.length ? (
+        <CustomerLoyaltyPrograms
+          userId={customer.userId}
+          customerName={name}
+          programs={customer.loyaltyPrograms}
+        />
+      ) : (
+        <CustomerLoyaltyCoffees
+          count={coffees}
+          rewardEarned={customer.rewardEarned ?? false}
+          customerName={name}
+          statusLabel="Programa semanal"
+          subtitle="Sello por cada bebida registrada en POS"
+        />
+      )}
+      <LoyaltyLedgerPanel
+        userId={customer.userId}
+        programs={customer.loyaltyPrograms ?? []}
+        canAdjust={canAdjustLoyalty}
+        onAdjusted={onRefreshLoyalty}
       />
       <div className="grid gap-3 rounded-2xl border border-primary-100/70 bg-primary-50/60 p-4 text-sm dark:border-white/10 dark:bg-white/5">
         <DetailRow label="Pedidos" value={customer.orders} />
@@ -8138,6 +8530,21 @@ const CustomerDetailContent = ({
         <DetailRow label="Última actividad" value={customer.lastActivity ? formatDate(customer.lastActivity) : '—'} />
         <DetailRow label="Email" value={customer.email ?? 'Sin registro'} />
       </div>
+      <CustomerNoShowPanel
+        identifier={customer.clientId ?? customer.userId ?? customer.email ?? null}
+        canOverride={canOverrideNoShows}
+      />
+      <CustomerAccountPanel
+        identifier={customer.userId ?? customer.clientId ?? null}
+        canMerge={canMergeCustomers}
+        onChanged={onRefreshLoyalty}
+      />
+      {canManagePrivacy && (
+        <CustomerPrivacyPanel
+          identifier={customer.userId ?? customer.clientId ?? null}
+          onAnonymized={onRefreshLoyalty}
+        />
+      )}
       <div className="rounded-2xl border border-primary-100/70 bg-white/80 px-4 py-3 text-sm dark:border-white/10 dark:bg-white/10">
         <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Preferencias</p>
         <PreferenceField
@@ -8393,6 +8800,32 @@ const PartnerMetricsContent = ({
         </div>
       )}
 
+      <div className="rounded-2xl border border-primary-100/70 bg-white/80 p-4 text-sm dark:border-white/10 dark:bg-white/10">
+        <h3 className="text-lg font-semibold text-primary-600 dark:text-primary-200">
+          Gasto por proveedor {periodLabel}
+        </h3>
+        {partnerMetrics?.supplierSpend?.length ? (
+          <div className="mt-3 space-y-2">
+            {partnerMetrics.supplierSpend.map((entry) => (
+              <div
+                key={entry.supplierId}
+                className="flex items-center justify-between rounded-xl border border-primary-50/80 px-3 py-2 text-sm dark:border-white/10"
+              >
+                <div>
+                  <p className="font-semibold">{entry.name}</p>
+                  <p className="text-xs text-[var(--brand-muted)]">{entry.receipts} recepciones</p>
+                </div>
+                <p className="font-semibold text-primary-600 dark:text-primary-200">
+                  {formatCurrency(entry.amount)}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="mt-1 text-sm text-[var(--brand-muted)]">Sin compras recibidas en este periodo.</p>
+        )}
+      </div>
+
       <PartnerFiscalControls folio={fiscalFolio} onUpdate={handleFolioUpdate} onIssue={handleIssueFolio} />
     </div>
   );
@@ -8408,6 +8841,7 @@ const SalesPanel = ({
   title,
   description,
   downloadLabel,
+  canIssueGlobalInvoice = false,
 }: {
   history: SalesHistoryEntry[] | null;
   selectedMonth: string | null;
@@ -8418,10 +8852,15 @@ const SalesPanel = ({
   title: string;
   description: string;
   downloadLabel: string;
+  canIssueGlobalInvoice?: boolean;
 }) => {
   const [exportMode, setExportMode] = useState<'csv' | 'excel' | 'chart'>('csv');
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [isInvoicing, setIsInvoicing] = useState(false);
+  const [invoiceFeedback, setInvoiceFeedback] = useState<{ message: string; error: boolean } | null>(
+    null
+  );
 
   const monthOptions = history ?? [];
   const currentEntry =
@@ -8496,6 +8935,28 @@ const SalesPanel = ({
     }
   };
 
+  const handleGlobalInvoice = async () => {
+    if (!currentEntry) {
+      return;
+    }
+    setInvoiceFeedback(null);
+    setIsInvoicing(true);
+    try {
+      const invoice = await issueGlobalInvoice(currentEntry.month);
+      setInvoiceFeedback({
+        message: `Factura global ${invoice.series}-${invoice.folio} timbrada con ${invoice.orderCount} tickets.`,
+        error: false,
+      });
+    } catch (err) {
+      setInvoiceFeedback({
+        message: err instanceof Error ? err.message : 'No pudimos emitir la factura global.',
+        error: true,
+      });
+    } finally {
+      setIsInvoicing(false);
+    }
+  };
+
   return (
     <div className="space-y-5 text-sm">
       <div className="flex flex-wrap items-center justify-between gap-3">
@@ -8574,6 +9035,16 @@ const SalesPanel = ({
               {isExporting ? 'Descargando…' : downloadLabel}
             </button>
           )}
+          {canIssueGlobalInvoice && (
+            <button
+              type="button"
+              onClick={() => void handleGlobalInvoice()}
+              className="brand-button text-xs"
+              disabled={!currentEntry || currentEntry.orderCount === 0 || isInvoicing}
+            >
+              {isInvoicing ? 'Timbrando…' : 'Factura global'}
+            </button>
+          )}
         </div>
       </div>
       {error ? (
@@ -8644,6 +9115,17 @@ const SalesPanel = ({
               </ul>
             )}
           </div>
+          {invoiceFeedback && (
+            <div
+              className={`rounded-2xl border px-3 py-2 text-xs ${
+                invoiceFeedback.error
+                  ? 'border-danger-200/70 bg-danger-50/60 text-danger-700 dark:border-danger-500/40 dark:bg-danger-900/30 dark:text-danger-100'
+                  : 'border-primary-100/70 bg-primary-50/60 text-primary-700 dark:border-white/10 dark:bg-white/5 dark:text-primary-100'
+              }`}
+            >
+              {invoiceFeedback.message}
+            </div>
+          )}
           {exportError && exportMode !== 'chart' && (
             <div className="rounded-2xl border border-danger-200/70 bg-danger-50/60 px-3 py-2 text-xs text-danger-700 dark:border-danger-500/40 dark:bg-danger-900/30 dark:text-danger-100">
               {exportError}
@@ -9026,6 +9508,12 @@ const AdvancedMetricsPanel = ({
       )}
       {!isLoading && metrics && (
         <div className="mt-5 space-y-5">
+          {metrics.branchComparison && metrics.branchComparison.length > 0 && (
+            <BranchComparisonBlock
+              rows={metrics.branchComparison}
+              scopedBranchId={metrics.branchId ?? null}
+            />
+          )}
           {ADVANCED_SECTION_ORDER.map((sectionId) => (
             <AdvancedMetricsSectionBlock
               key={sectionId}
@@ -9041,6 +9529,50 @@ const AdvancedMetricsPanel = ({
   );
 };
 
+const BranchComparisonBlock = ({
+  rows,
+  scopedBranchId,
+}: {
+  rows: BranchComparisonRow[];
+  scopedBranchId: string | null;
+}) => (
+  <div className="rounded-3xl border border-primary-100/70 p-5 text-sm shadow-sm dark:border-white/10">
+    <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Comparativo por sucursal</p>
+    <p className="text-xs text-[var(--brand-muted)]">
+      {scopedBranchId
+        ? `Las secciones muestran solo ${scopedBranchId}; el comparativo incluye todas las sucursales.`
+        : 'Las secciones consolidan todas las sucursales.'}
+    </p>
+    <div className="mt-3 overflow-x-auto">
+      <table className="w-full text-left text-xs">
+        <thead className="text-[var(--brand-muted)]">
+          <tr>
+            <th className="py-1">Sucursal</th>
+            <th className="py-1 text-right">Pedidos</th>
+            <th className="py-1 text-right">Completados</th>
+            <th className="py-1 text-right">Ventas</th>
+            <th className="py-1 text-right">Ticket promedio</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.branchId}
+              className={`border-t border-primary-100/60 dark:border-white/10 ${row.branchId === scopedBranchId ? 'font-semibold text-primary-600 dark:text-primary-200' : ''}`}
+            >
+              <td className="py-1">{row.branchName}</td>
+              <td className="py-1 text-right">{row.orders}</td>
+              <td className="py-1 text-right">{row.completedOrders}</td>
+              <td className="py-1 text-right">{formatCurrency(row.revenue)}</td>
+              <td className="py-1 text-right">{formatCurrency(row.averageTicket)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
 const AdvancedMetricsSectionBlock = ({
   sectionId,
   section,
@@ -10857,6 +11389,7 @@ const PaymentBreakdown = ({
     () => payments?.statusBreakdown ?? [],
     [payments?.statusBreakdown]
   );
+  const splitPayments = useMemo(() => payments?.splitPayments ?? [], [payments?.splitPayments]);
   const [viewMode, setViewMode] = useState<'csv' | 'excel' | 'chart'>('csv');
   const [isExporting, setIsExporting] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
@@ -10905,6 +11438,21 @@ const PaymentBreakdown = ({
         ...statusBreakdown.map((status) => [status.status ?? 'desconocido', status.count ?? 0]),
         [],
         ['Propinas registradas', Number(totalTips.toFixed(2))],
+        ...(splitPayments.length
+          ? [
+              [],
+              ['Pagos divididos'],
+              ['Pedido', 'Método', 'Monto (MXN)', 'Referencia'],
+              ...splitPayments.flatMap((split) =>
+                split.tenders.map((tender) => [
+                  split.orderNumber ?? split.orderId,
+                  tender.method,
+                  Number(tender.amount.toFixed(2)),
+                  tender.reference ?? '',
+                ])
+              ),
+            ]
+          : []),
       ];
 
       const download = (blob: Blob, extension: string) => {
@@ -10948,7 +11496,7 @@ const PaymentBreakdown = ({
     } finally {
       setIsExporting(false);
     }
-  }, [methodBreakdown, statusBreakdown, totalTips, viewMode]);
+  }, [methodBreakdown, splitPayments, statusBreakdown, totalTips, viewMode]);
 
   return (
     <div className="rounded-2xl border border-primary-100/70 bg-white/80 p-4 dark:border-white/10 dark:bg-white/10">
@@ -11047,6 +11595,40 @@ const PaymentBreakdown = ({
           </div>
         </div>
       </div>
+      {splitPayments.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">
+            Pagos divididos
+          </p>
+          <div className="mt-2 space-y-2">
+            {splitPayments.map((split) => (
+              <div
+                key={split.orderId}
+                className="rounded-xl border border-primary-50/80 px-3 py-2 text-sm dark:border-white/10"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{split.orderNumber ?? split.orderId}</span>
+                  <span className="font-semibold text-primary-600 dark:text-primary-200">
+                    {formatCurrency(split.total)}
+                  </span>
+                </div>
+                {split.tenders.map((tender, index) => (
+                  <div
+                    key={`${split.orderId}-${index}`}
+                    className="mt-1 flex items-center justify-between text-xs text-[var(--brand-muted)]"
+                  >
+                    <span>
+                      {getPaymentMethodLabel(tender.method)}
+                      {tender.reference ? ` · ${tender.reference}` : ''}
+                    </span>
+                    <span>{formatCurrency(tender.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
       <div className="mt-4 rounded-2xl bg-primary-50/80 px-3 py-2 text-sm dark:bg-white/5">
         Propinas capturadas: <span className="font-semibold">{formatCurrency(totalTips)}</span>
       </div>
@@ -11463,7 +12045,6 @@ interface StaffUtilityDrawerProps {
   onSelect: (view: StaffPanelView) => void;
   onLogout: () => void;
   user: AuthenticatedStaff;
-  hasCampaignNotifications: boolean;
 }
 
 const StaffUtilityDrawer = ({
@@ -11472,7 +12053,6 @@ const StaffUtilityDrawer = ({
   onSelect,
   onLogout,
   user,
-  hasCampaignNotifications,
 }: StaffUtilityDrawerProps) => {
   const isManager = user.role === 'gerente';
   const isSocio = user.role === 'socio' || user.role === 'superuser';
@@ -11492,11 +12072,8 @@ const StaffUtilityDrawer = ({
               className="relative flex items-center gap-1 rounded-full border border-primary-100/80 px-3 py-1 text-[10px] font-semibold text-primary-600 hover:border-primary-300 dark:border-white/20 dark:text-primary-200"
               onClick={() => onSelect('campaign')}
             >
-              <span aria-hidden="true">🔔</span>
-              <span>Notificaciones</span>
-              {hasCampaignNotifications && (
-                <span className="absolute -right-1 -top-1 h-2 w-2 rounded-full bg-red-500" aria-hidden="true" />
-              )}
+              <span aria-hidden="true">📣</span>
+              <span>Campañas</span>
             </button>
           )}
           <button type="button" onClick={onClose} className="font-semibold">
@@ -11694,8 +12271,6 @@ interface StaffSidePanelProps {
   ) => void;
   approvalTickets: ApprovalTicket[];
   onApprovalDecision: (ticketId: string, decision: 'approved' | 'declined', note?: string) => void;
-  campaignFeed: CampaignNotification[];
-  onCampaignNavigate: (view: StaffPanelView) => void;
   secureSnapshot: Record<string, string>;
   superUserQueue: SuperUserAction[];
   onCreateSuperUserAction: (payload: { email: string; role: StaffRole; note?: string }) => void;
@@ -11745,8 +12320,6 @@ const StaffSidePanel = ({
   onGovernanceDecision,
   approvalTickets,
   onApprovalDecision,
-  campaignFeed,
-  onCampaignNavigate,
   secureSnapshot,
   superUserQueue,
   onCreateSuperUserAction,
@@ -11771,7 +12344,7 @@ const StaffSidePanel = ({
     managerPayments: 'Pagos y cortes',
     governance: 'Gobernanza',
     approvals: 'Aprobaciones',
-    campaign: 'Campaña',
+    campaign: 'Campañas',
     superuser: 'Super usuario',
   };
   const panelTitle = titles[view];
@@ -11866,14 +12439,17 @@ const StaffSidePanel = ({
             />
           )}
           {view === 'managerPayments' && (
-            <ManagerPaymentsPanel
-              payments={payments}
-              paymentsLoading={paymentsLoading}
-              onRefreshPayments={onRefreshPayments}
-              orderMetrics={orderPaymentMetrics}
-              canViewAccounting={isManager}
-              onOpenTipsPanel={() => onSwitchView('managerTips')}
-            />
+            <div className="space-y-4">
+              <CashRegisterPanel />
+              <ManagerPaymentsPanel
+                payments={payments}
+                paymentsLoading={paymentsLoading}
+                onRefreshPayments={onRefreshPayments}
+                orderMetrics={orderPaymentMetrics}
+                canViewAccounting={isManager}
+                onOpenTipsPanel={() => onSwitchView('managerTips')}
+              />
+            </div>
           )}
           {view === 'governance' && (
             <GovernancePanel
@@ -11886,9 +12462,7 @@ const StaffSidePanel = ({
           {view === 'approvals' && (
             <EmployeeApprovalsPanel tickets={approvalTickets} onDecision={onApprovalDecision} />
           )}
-          {view === 'campaign' && (
-            <CampaignPanel items={campaignFeed} onNavigate={onCampaignNavigate} />
-          )}
+          {view === 'campaign' && isSocio && <MarketingCampaignPanel />}
           {view === 'superuser' && isSuperUser && (
             <SuperUserAdminPanel queue={superUserQueue} onCreateAction={onCreateSuperUserAction} />
           )}
@@ -13303,32 +13877,6 @@ const EmployeeApprovalsPanel = ({
   </div>
 );
 
-const CampaignPanel = ({
-  items,
-  onNavigate,
-}: {
-  items: CampaignNotification[];
-  onNavigate: (view: StaffPanelView) => void;
-}) => (
-  <div className="space-y-4 text-sm">
-    <p className="text-[var(--brand-muted)]">Notificaciones recientes del consejo y acciones pendientes.</p>
-    {items.map((item) => (
-      <div key={item.id} className="rounded-3xl border border-primary-100/60 bg-white/80 p-4 dark:border-white/10 dark:bg-white/5">
-        <p className="text-xs uppercase tracking-[0.3em] text-[var(--brand-muted)]">{item.id}</p>
-        <h4 className="text-lg font-semibold text-primary-700">{item.title}</h4>
-        <p className="text-xs text-[var(--brand-muted)]">{item.body}</p>
-        <button
-          type="button"
-          className="mt-3 brand-button text-xs"
-          onClick={() => onNavigate(item.relatedView ?? 'governance')}
-        >
-          Revisar
-        </button>
-      </div>
-    ))}
-  </div>
-);
-
 const SuperUserAdminPanel = ({
   queue,
   onCreateAction,
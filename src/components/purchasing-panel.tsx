@@ -0,0 +1,804 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import {
+  createPurchaseOrder,
+  createSupplier,
+  deactivateSupplier,
+  fetchPurchaseOrders,
+  fetchSupplierDirectory,
+  receivePurchaseOrder,
+  updatePurchaseOrder,
+  updateSupplier,
+  type PurchaseOrder,
+  type PurchaseOrderAction,
+  type PurchaseOrderStatus,
+  type Supplier,
+  type SupplierDirectory,
+  type SupplierItemInput,
+} from '@/lib/api';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('es-MX', { day: '2-digit', month: 'short' }) : '—';
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Borrador',
+  sent: 'Enviada',
+  partially_received: 'Recibida parcial',
+  received: 'Recibida',
+  cancelled: 'Cancelada',
+};
+
+const STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-primary-50 text-primary-700 dark:bg-white/10 dark:text-primary-100',
+  sent: 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-100',
+  partially_received: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-100',
+  received: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-100',
+  cancelled: 'bg-danger-50 text-danger-700 dark:bg-danger-900/30 dark:text-danger-100',
+};
+
+const INPUT_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+type DraftLine = { itemId: string; quantity: string; packSize: string; unitCost: string };
+type SupplierItemDraft = { itemId: string; packLabel: string; packSize: string; unitCost: string };
+type ReceiptDraft = Record<string, { quantity: string; expiresAt: string }>;
+
+const EMPTY_SUPPLIER_FORM = {
+  name: '',
+  contactName: '',
+  phone: '',
+  whatsapp: '',
+  email: '',
+  leadTimeDays: '1',
+};
+
+/** Mensaje para el proveedor; los pedidos se siguen enviando por WhatsApp. */
+const buildWhatsAppLink = (
+  order: PurchaseOrder,
+  supplier: Supplier | undefined,
+  itemNames: Map<string, string>
+) => {
+  const phone = (supplier?.whatsapp ?? supplier?.phone ?? '').replace(/\D/g, '');
+  if (!phone) {
+    return null;
+  }
+  const packLabels = new Map((supplier?.items ?? []).map((item) => [item.itemId, item.packLabel]));
+  const lines = order.lines.map((line) => {
+    const name = itemNames.get(line.itemId) ?? line.itemId;
+    const pack = packLabels.get(line.itemId);
+    return `• ${line.quantity} × ${name}${pack ? ` (${pack})` : ''}`;
+  });
+  const text = [
+    `Hola${supplier?.contactName ? ` ${supplier.contactName}` : ''}, te compartimos la orden ${order.folio} de Xoco Café:`,
+    ...lines,
+    order.notes ? `Notas: ${order.notes}` : null,
+    'Gracias.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+  return `https://wa.me/${phone}?text=${encodeURIComponent(text)}`;
+};
+
+export function PurchasingPanel() {
+  const [directory, setDirectory] = useState<SupplierDirectory | null>(null);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+  const [supplierForm, setSupplierForm] = useState(EMPTY_SUPPLIER_FORM);
+  const [editingSupplierId, setEditingSupplierId] = useState('');
+  const [supplierItems, setSupplierItems] = useState<SupplierItemDraft[]>([]);
+  const [orderSupplierId, setOrderSupplierId] = useState('');
+  const [orderLines, setOrderLines] = useState<DraftLine[]>([]);
+  const [orderNotes, setOrderNotes] = useState('');
+  const [receivingOrderId, setReceivingOrderId] = useState<string | null>(null);
+  const [receiptDraft, setReceiptDraft] = useState<ReceiptDraft>({});
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextDirectory, nextOrders] = await Promise.all([
+        fetchSupplierDirectory(),
+        fetchPurchaseOrders(),
+      ]);
+      setDirectory(nextDirectory);
+      setOrders(nextOrders);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar las compras.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const suppliers = useMemo(() => directory?.suppliers ?? [], [directory]);
+  const activeSuppliers = useMemo(() => suppliers.filter((supplier) => supplier.isActive), [suppliers]);
+  const supplierMap = useMemo(() => new Map(suppliers.map((supplier) => [supplier.id, supplier])), [suppliers]);
+  const itemMap = useMemo(
+    () => new Map((directory?.items ?? []).map((item) => [item.id, item])),
+    [directory]
+  );
+  const itemNames = useMemo(
+    () => new Map((directory?.items ?? []).map((item) => [item.id, item.name])),
+    [directory]
+  );
+  const editingSupplier = editingSupplierId ? supplierMap.get(editingSupplierId) : undefined;
+  const orderSupplier = orderSupplierId ? supplierMap.get(orderSupplierId) : undefined;
+  const draftTotal = orderLines.reduce(
+    (sum, line) => sum + (parseAmount(line.quantity) ?? 0) * (parseAmount(line.unitCost) ?? 0),
+    0
+  );
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const message = await action();
+      setFeedback({ message, error: null });
+      await loadData();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos completar la operación.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateSupplier = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!supplierForm.name.trim()) {
+      setFeedback({ message: null, error: 'El proveedor necesita nombre.' });
+      return;
+    }
+    void runAction(async () => {
+      await createSupplier({
+        name: supplierForm.name.trim(),
+        contactName: supplierForm.contactName.trim() || null,
+        phone: supplierForm.phone.trim() || null,
+        whatsapp: supplierForm.whatsapp.trim() || null,
+        email: supplierForm.email.trim() || null,
+        leadTimeDays: Math.max(0, Math.round(parseAmount(supplierForm.leadTimeDays) ?? 1)),
+      });
+      setSupplierForm(EMPTY_SUPPLIER_FORM);
+      return 'Proveedor registrado.';
+    });
+  };
+
+  const startEditingItems = (supplier: Supplier) => {
+    setEditingSupplierId(supplier.id);
+    setSupplierItems(
+      supplier.items.map((item) => ({
+        itemId: item.itemId,
+        packLabel: item.packLabel ?? '',
+        packSize: String(item.packSize),
+        unitCost: item.unitCost === null ? '' : String(item.unitCost),
+      }))
+    );
+  };
+
+  const handleSaveSupplierItems = () => {
+    if (!editingSupplier) {
+      return;
+    }
+    const items: SupplierItemInput[] = [];
+    for (const line of supplierItems) {
+      const packSize = parseAmount(line.packSize);
+      if (!line.itemId || !packSize || packSize <= 0) {
+        setFeedback({ message: null, error: 'Cada insumo necesita su presentación en unidad base.' });
+        return;
+      }
+      items.push({
+        itemId: line.itemId,
+        packLabel: line.packLabel.trim() || null,
+        packSize,
+        unitCost: parseAmount(line.unitCost),
+      });
+    }
+    void runAction(async () => {
+      await updateSupplier(editingSupplier.id, { items });
+      setEditingSupplierId('');
+      return `Insumos de ${editingSupplier.name} actualizados.`;
+    });
+  };
+
+  const handleDeactivateSupplier = (supplier: Supplier) => {
+    void runAction(async () => {
+      await deactivateSupplier(supplier.id);
+      return `${supplier.name} dado de baja.`;
+    });
+  };
+
+  const handleSelectOrderSupplier = (supplierId: string) => {
+    setOrderSupplierId(supplierId);
+    const supplier = supplierMap.get(supplierId);
+    setOrderLines(
+      (supplier?.items ?? []).map((item) => ({
+        itemId: item.itemId,
+        quantity: '',
+        packSize: String(item.packSize),
+        unitCost: item.unitCost === null ? '' : String(item.unitCost),
+      }))
+    );
+  };
+
+  const handleCreateOrder = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const lines = orderLines
+      .map((line) => ({
+        itemId: line.itemId,
+        quantity: parseAmount(line.quantity) ?? 0,
+        packSize: parseAmount(line.packSize) ?? 0,
+        unitCost: parseAmount(line.unitCost) ?? 0,
+      }))
+      .filter((line) => line.itemId && line.quantity > 0 && line.packSize > 0);
+    if (!orderSupplierId || !lines.length) {
+      setFeedback({ message: null, error: 'Elige el proveedor y al menos un insumo con cantidad.' });
+      return;
+    }
+    void runAction(async () => {
+      const order = await createPurchaseOrder({
+        supplierId: orderSupplierId,
+        notes: orderNotes.trim() || null,
+        lines,
+      });
+      setOrderSupplierId('');
+      setOrderLines([]);
+      setOrderNotes('');
+      return `Orden ${order.folio} guardada como borrador.`;
+    });
+  };
+
+  const handleOrderAction = (order: PurchaseOrder, action: PurchaseOrderAction) => {
+    if (action === 'send') {
+      const link = buildWhatsAppLink(order, supplierMap.get(order.supplierId), itemNames);
+      if (link) {
+        window.open(link, '_blank', 'noopener,noreferrer');
+      }
+    }
+    void runAction(async () => {
+      await updatePurchaseOrder(order.id, { action });
+      if (action === 'send') {
+        return `Orden ${order.folio} marcada como enviada.`;
+      }
+      return action === 'cancel' ? `Orden ${order.folio} cancelada.` : `Orden ${order.folio} cerrada.`;
+    });
+  };
+
+  const startReceiving = (order: PurchaseOrder) => {
+    setReceivingOrderId(order.id);
+    setReceiptDraft(
+      Object.fromEntries(
+        order.lines.map((line) => [
+          line.id,
+          { quantity: String(Math.max(0, line.quantity - line.receivedQuantity)), expiresAt: '' },
+        ])
+      )
+    );
+  };
+
+  const handleReceive = (order: PurchaseOrder) => {
+    const lines = order.lines
+      .map((line) => {
+        const draft = receiptDraft[line.id];
+        return {
+          lineId: line.id,
+          quantity: parseAmount(draft?.quantity ?? '') ?? 0,
+          expiresAt: draft?.expiresAt ? new Date(`${draft.expiresAt}T23:59:59`).toISOString() : null,
+        };
+      })
+      .filter((line) => line.quantity > 0);
+    if (!lines.length) {
+      setFeedback({ message: null, error: 'Captura al menos una cantidad recibida.' });
+      return;
+    }
+    void runAction(async () => {
+      const updated = await receivePurchaseOrder(order.id, lines);
+      setReceivingOrderId(null);
+      return updated.status === 'received'
+        ? `Orden ${order.folio} recibida completa.`
+        : `Recepción parcial de ${order.folio} registrada.`;
+    });
+  };
+
+  const renderItemSelect = (value: string, onChange: (itemId: string) => void) => (
+    <select value={value} onChange={(event) => onChange(event.target.value)} className={INPUT_CLASS}>
+      <option value="">Elige un insumo</option>
+      {(directory?.items ?? []).map((item) => (
+        <option key={item.id} value={item.id}>
+          {item.name} ({item.unit})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-[var(--brand-muted)]">
+          Directorio de proveedores y órdenes de compra. Al recibir, la mercancía entra al inventario
+          como lote con su caducidad y costo.
+        </p>
+        <div className="flex items-center gap-3 text-xs text-[var(--brand-muted)]">
+          {isLoading && <span>Actualizando…</span>}
+          <button
+            type="button"
+            onClick={() => void loadData()}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Actualizar compras
+          </button>
+        </div>
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="space-y-4 rounded-2xl border border-primary-100/70 bg-white/70 p-4 dark:border-white/10 dark:bg-white/5">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Proveedores</p>
+        {activeSuppliers.length === 0 ? (
+          <p className="text-xs text-[var(--brand-muted)]">Aún no hay proveedores registrados.</p>
+        ) : (
+          <div className="space-y-2">
+            {activeSuppliers.map((supplier) => (
+              <div
+                key={supplier.id}
+                className="rounded-xl border border-primary-50/80 px-3 py-2 dark:border-white/10"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">{supplier.name}</p>
+                    <p className="text-xs text-[var(--brand-muted)]">
+                      {[supplier.contactName, supplier.whatsapp ?? supplier.phone, supplier.email]
+                        .filter(Boolean)
+                        .join(' · ') || 'Sin contacto'}{' '}
+                      · entrega en {supplier.leadTimeDays} días · {supplier.items.length} insumos
+                    </p>
+                  </div>
+                  <div className="flex gap-3 text-xs font-semibold">
+                    <button
+                      type="button"
+                      onClick={() => startEditingItems(supplier)}
+                      className="text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+                    >
+                      Insumos
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDeactivateSupplier(supplier)}
+                      disabled={isSubmitting}
+                      className="text-danger-600 underline-offset-4 hover:underline disabled:opacity-40"
+                    >
+                      Dar de baja
+                    </button>
+                  </div>
+                </div>
+                {editingSupplierId === supplier.id && (
+                  <div className="mt-3 space-y-2">
+                    {supplierItems.map((line, index) => (
+                      <div key={index} className="flex flex-wrap items-end gap-2">
+                        <label className={`${LABEL_CLASS} flex-1`}>
+                          Insumo
+                          {renderItemSelect(line.itemId, (itemId) =>
+                            setSupplierItems((prev) =>
+                              prev.map((entry, position) => (position === index ? { ...entry, itemId } : entry))
+                            )
+                          )}
+                        </label>
+                        <label className={LABEL_CLASS}>
+                          Presentación
+                          <input
+                            value={line.packLabel}
+                            onChange={(event) =>
+                              setSupplierItems((prev) =>
+                                prev.map((entry, position) =>
+                                  position === index ? { ...entry, packLabel: event.target.value } : entry
+                                )
+                              )
+                            }
+                            placeholder="Bolsa 1 kg"
+                            className={`${INPUT_CLASS} w-32`}
+                          />
+                        </label>
+                        <label className={LABEL_CLASS}>
+                          Contenido{itemMap.get(line.itemId) ? ` (${itemMap.get(line.itemId)?.unit})` : ''}
+                          <input
+                            value={line.packSize}
+                            onChange={(event) =>
+                              setSupplierItems((prev) =>
+                                prev.map((entry, position) =>
+                                  position === index ? { ...entry, packSize: event.target.value } : entry
+                                )
+                              )
+                            }
+                            inputMode="decimal"
+                            className={`${INPUT_CLASS} w-24`}
+                          />
+                        </label>
+                        <label className={LABEL_CLASS}>
+                          Costo por pieza
+                          <input
+                            value={line.unitCost}
+                            onChange={(event) =>
+                              setSupplierItems((prev) =>
+                                prev.map((entry, position) =>
+                                  position === index ? { ...entry, unitCost: event.target.value } : entry
+                                )
+                              )
+                            }
+                            inputMode="decimal"
+                            className={`${INPUT_CLASS} w-24`}
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => setSupplierItems((prev) => prev.filter((_, position) => position !== index))}
+                          className="pb-1 text-xs font-semibold text-danger-600 underline-offset-4 hover:underline"
+                        >
+                          Quitar
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setSupplierItems((prev) => [
+                            ...prev,
+                            { itemId: '', packLabel: '', packSize: '1', unitCost: '' },
+                          ])
+                        }
+                        className="brand-button--ghost text-xs"
+                      >
+                        Agregar insumo
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleSaveSupplierItems}
+                        disabled={isSubmitting}
+                        className="brand-button text-xs disabled:opacity-40"
+                      >
+                        Guardar insumos
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingSupplierId('')}
+                        className="text-xs font-semibold text-[var(--brand-muted)] underline-offset-4 hover:underline"
+                      >
+                        Cancelar
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleCreateSupplier} className="flex flex-wrap items-end gap-2">
+          <label className={`${LABEL_CLASS} flex-1`}>
+            Nombre
+            <input
+              value={supplierForm.name}
+              onChange={(event) => setSupplierForm((prev) => ({ ...prev, name: event.target.value }))}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Contacto
+            <input
+              value={supplierForm.contactName}
+              onChange={(event) => setSupplierForm((prev) => ({ ...prev, contactName: event.target.value }))}
+              className={`${INPUT_CLASS} w-36`}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            WhatsApp
+            <input
+              value={supplierForm.whatsapp}
+              onChange={(event) => setSupplierForm((prev) => ({ ...prev, whatsapp: event.target.value }))}
+              inputMode="tel"
+              placeholder="52155…"
+              className={`${INPUT_CLASS} w-36`}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Correo
+            <input
+              value={supplierForm.email}
+              onChange={(event) => setSupplierForm((prev) => ({ ...prev, email: event.target.value }))}
+              type="email"
+              className={`${INPUT_CLASS} w-44`}
+            />
+          </label>
+          <label className={LABEL_CLASS}>
+            Días de entrega
+            <input
+              value={supplierForm.leadTimeDays}
+              onChange={(event) => setSupplierForm((prev) => ({ ...prev, leadTimeDays: event.target.value }))}
+              inputMode="numeric"
+              className={`${INPUT_CLASS} w-20`}
+            />
+          </label>
+          <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+            Registrar proveedor
+          </button>
+        </form>
+      </div>
+
+      <form
+        onSubmit={handleCreateOrder}
+        className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 dark:border-white/10 dark:bg-white/5"
+      >
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Nueva orden de compra</p>
+        <label className={LABEL_CLASS}>
+          Proveedor
+          <select
+            value={orderSupplierId}
+            onChange={(event) => handleSelectOrderSupplier(event.target.value)}
+            className={INPUT_CLASS}
+          >
+            <option value="">Elige un proveedor</option>
+            {activeSuppliers.map((supplier) => (
+              <option key={supplier.id} value={supplier.id}>
+                {supplier.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {orderSupplier && (
+          <>
+            {orderLines.length === 0 && (
+              <p className="text-xs text-[var(--brand-muted)]">
+                Este proveedor no tiene insumos registrados; agrégalos desde su ficha.
+              </p>
+            )}
+            {orderLines.map((line, index) => (
+              <div key={line.itemId} className="flex flex-wrap items-end gap-2">
+                <p className="flex-1 pb-1 font-semibold">
+                  {itemNames.get(line.itemId) ?? line.itemId}
+                  <span className="ml-2 text-xs font-normal text-[var(--brand-muted)]">
+                    {line.packSize} {itemMap.get(line.itemId)?.unit ?? ''} por pieza
+                  </span>
+                </p>
+                <label className={LABEL_CLASS}>
+                  Piezas
+                  <input
+                    value={line.quantity}
+                    onChange={(event) =>
+                      setOrderLines((prev) =>
+                        prev.map((entry, position) =>
+                          position === index ? { ...entry, quantity: event.target.value } : entry
+                        )
+                      )
+                    }
+                    inputMode="decimal"
+                    placeholder="0"
+                    className={`${INPUT_CLASS} w-20`}
+                  />
+                </label>
+                <label className={LABEL_CLASS}>
+                  Costo por pieza
+                  <input
+                    value={line.unitCost}
+                    onChange={(event) =>
+                      setOrderLines((prev) =>
+                        prev.map((entry, position) =>
+                          position === index ? { ...entry, unitCost: event.target.value } : entry
+                        )
+                      )
+                    }
+                    inputMode="decimal"
+                    className={`${INPUT_CLASS} w-24`}
+                  />
+                </label>
+              </div>
+            ))}
+            <label className={LABEL_CLASS}>
+              Notas
+              <input
+                value={orderNotes}
+                onChange={(event) => setOrderNotes(event.target.value)}
+                className={INPUT_CLASS}
+              />
+            </label>
+            <div className="flex items-center justify-between">
+              <p className="font-semibold">Total estimado {formatCurrency(draftTotal)}</p>
+              <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+                Guardar borrador
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Órdenes de compra</p>
+        {orders.length === 0 ? (
+          <p className="text-xs text-[var(--brand-muted)]">Sin órdenes registradas.</p>
+        ) : (
+          orders.map((order) => {
+            const supplier = supplierMap.get(order.supplierId);
+            const canReceive = order.status === 'sent' || order.status === 'partially_received';
+            return (
+              <div
+                key={order.id}
+                className="space-y-2 rounded-2xl border border-primary-100/70 px-3 py-2 dark:border-white/10"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-semibold">
+                      {order.folio} · {supplier?.name ?? 'Proveedor'}
+                    </p>
+                    <p className="text-xs text-[var(--brand-muted)]">
+                      {order.lines.length} insumos · {formatCurrency(order.total)} · entrega{' '}
+                      {formatDate(order.expectedAt)}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-3 text-xs font-semibold">
+                    <span className={`rounded-full px-2 py-0.5 ${STATUS_CLASSES[order.status]}`}>
+                      {STATUS_LABELS[order.status]}
+                    </span>
+                    {order.status === 'draft' && (
+                      <button
+                        type="button"
+                        onClick={() => handleOrderAction(order, 'send')}
+                        disabled={isSubmitting}
+                        className="text-primary-500 underline-offset-4 hover:underline disabled:opacity-40 dark:text-primary-200"
+                      >
+                        {supplier?.whatsapp || supplier?.phone ? 'Enviar por WhatsApp' : 'Marcar enviada'}
+                      </button>
+                    )}
+                    {canReceive && (
+                      <button
+                        type="button"
+                        onClick={() => startReceiving(order)}
+                        className="text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+                      >
+                        Recibir
+                      </button>
+                    )}
+                    {order.status === 'partially_received' && (
+                      <button
+                        type="button"
+                        onClick={() => handleOrderAction(order, 'close')}
+                        disabled={isSubmitting}
+                        className="text-[var(--brand-muted)] underline-offset-4 hover:underline disabled:opacity-40"
+                      >
+                        Cerrar con faltante
+                      </button>
+                    )}
+                    {(order.status === 'draft' || order.status === 'sent') && (
+                      <button
+                        type="button"
+                        onClick={() => handleOrderAction(order, 'cancel')}
+                        disabled={isSubmitting}
+                        className="text-danger-600 underline-offset-4 hover:underline disabled:opacity-40"
+                      >
+                        Cancelar
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {receivingOrderId === order.id && (
+                  <div className="space-y-2 border-t border-primary-100/60 pt-2 dark:border-white/10">
+                    {order.lines.map((line) => {
+                      const remaining = Math.max(0, line.quantity - line.receivedQuantity);
+                      const draft = receiptDraft[line.id] ?? { quantity: '', expiresAt: '' };
+                      return (
+                        <div key={line.id} className="flex flex-wrap items-end gap-2">
+                          <p className="flex-1 pb-1">
+                            {itemNames.get(line.itemId) ?? line.itemId}
+                            <span className="ml-2 text-xs text-[var(--brand-muted)]">
+                              {line.receivedQuantity}/{line.quantity} recibidas
+                            </span>
+                          </p>
+                          <label className={LABEL_CLASS}>
+                            Piezas
+                            <input
+                              value={draft.quantity}
+                              onChange={(event) =>
+                                setReceiptDraft((prev) => ({
+                                  ...prev,
+                                  [line.id]: { ...draft, quantity: event.target.value },
+                                }))
+                              }
+                              disabled={remaining <= 0}
+                              inputMode="decimal"
+                              className={`${INPUT_CLASS} w-20`}
+                            />
+                          </label>
+                          <label className={LABEL_CLASS}>
+                            Caducidad
+                            <input
+                              type="date"
+                              value={draft.expiresAt}
+                              onChange={(event) =>
+                                setReceiptDraft((prev) => ({
+                                  ...prev,
+                                  [line.id]: { ...draft, expiresAt: event.target.value },
+                                }))
+                              }
+                              disabled={remaining <= 0}
+                              className={INPUT_CLASS}
+                            />
+                          </label>
+                        </div>
+                      );
+                    })}
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleReceive(order)}
+                        disabled={isSubmitting}
+                        className="brand-button text-xs disabled:opacity-40"
+                      >
+                        Registrar recepción
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReceivingOrderId(null)}
+                        className="text-xs font-semibold text-[var(--brand-muted)] underline-offset-4 hover:underline"
+                      >
+                        Cancelar
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
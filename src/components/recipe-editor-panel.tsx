@@ -0,0 +1,417 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from 'react';
+import {
+  createRecipeLine,
+  deleteRecipeLine,
+  fetchRecipeOverview,
+  updateRecipeLine,
+  type ProductRecipeLine,
+  type RecipeOverview,
+} from '@/lib/api';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Debajo de este margen bruto resaltamos la bebida para revisar precio o receta.
+const LOW_MARGIN_THRESHOLD = 0.6;
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const INPUT_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+export function RecipeEditorPanel() {
+  const [overview, setOverview] = useState<RecipeOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedProductId, setSelectedProductId] = useState('');
+  const [scopeSizeId, setScopeSizeId] = useState('');
+  const [itemId, setItemId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [recipeYield, setRecipeYield] = useState('1');
+  const [isCritical, setIsCritical] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+
+  const loadOverview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setOverview(await fetchRecipeOverview());
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar las recetas.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadOverview();
+  }, [loadOverview]);
+
+  const itemMap = useMemo(
+    () => new Map((overview?.items ?? []).map((item) => [item.id, item])),
+    [overview]
+  );
+  const products = useMemo(() => overview?.products ?? [], [overview]);
+  const selectedProduct = products.find((product) => product.productId === selectedProductId) ?? null;
+  const missingProducts = useMemo(() => {
+    const missing = new Set(overview?.missingRecipeProductIds ?? []);
+    return products.filter((product) => missing.has(product.productId));
+  }, [overview, products]);
+  const scopedLines = useMemo(
+    () =>
+      (overview?.recipes ?? []).filter(
+        (line) =>
+          line.productId === selectedProductId && (line.sizeId ?? '') === scopeSizeId
+      ),
+    [overview, scopeSizeId, selectedProductId]
+  );
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const message = await action();
+      setFeedback({ message, error: null });
+      await loadOverview();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos actualizar la receta.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAddLine = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const quantityUsed = parseAmount(quantity);
+    const yieldValue = parseAmount(recipeYield);
+    if (!selectedProductId || !itemId || !quantityUsed || quantityUsed <= 0 || !yieldValue || yieldValue <= 0) {
+      setFeedback({ message: null, error: 'Elige el insumo, su cantidad y el rendimiento.' });
+      return;
+    }
+    void runAction(async () => {
+      await createRecipeLine({
+        productId: selectedProductId,
+        sizeId: scopeSizeId || null,
+        inventoryItemId: itemId,
+        quantityUsed,
+        yield: yieldValue,
+        isCritical,
+      });
+      setItemId('');
+      setQuantity('');
+      setRecipeYield('1');
+      setIsCritical(true);
+      return 'Insumo agregado a la receta.';
+    });
+  };
+
+  const handleUpdateLine = (line: ProductRecipeLine, field: 'quantityUsed' | 'yield', value: string) => {
+    const parsed = parseAmount(value);
+    if (!parsed || parsed <= 0 || parsed === line[field]) {
+      return;
+    }
+    void runAction(async () => {
+      await updateRecipeLine(line.id, { [field]: parsed });
+      return 'Receta actualizada.';
+    });
+  };
+
+  const handleToggleCritical = (line: ProductRecipeLine) => {
+    void runAction(async () => {
+      await updateRecipeLine(line.id, { isCritical: !line.isCritical });
+      return 'Receta actualizada.';
+    });
+  };
+
+  const handleDeleteLine = (line: ProductRecipeLine) => {
+    void runAction(async () => {
+      await deleteRecipeLine(line.id);
+      return 'Insumo retirado de la receta.';
+    });
+  };
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Recetas</p>
+          <p className="text-[var(--brand-muted)]">
+            Insumos por producto y tamaño. Cada venta descuenta estas cantidades del inventario.
+          </p>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-[var(--brand-muted)]">
+          {isLoading && <span>Actualizando…</span>}
+          <button
+            type="button"
+            onClick={() => void loadOverview()}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Actualizar recetas
+          </button>
+        </div>
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      {missingProducts.length > 0 && (
+        <div className="space-y-2 rounded-2xl border border-amber-200 bg-amber-50/70 px-3 py-2 text-xs text-amber-800 dark:border-amber-400/40 dark:bg-amber-900/20 dark:text-amber-100">
+          <p className="font-semibold">
+            {missingProducts.length} productos activos sin receta: sus ventas no descuentan inventario.
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {missingProducts.map((product) => (
+              <button
+                key={product.productId}
+                type="button"
+                onClick={() => {
+                  setSelectedProductId(product.productId);
+                  setScopeSizeId('');
+                }}
+                className="rounded-full border border-amber-300 px-2 py-0.5 hover:bg-amber-100 dark:border-amber-400/40 dark:hover:bg-amber-900/40"
+              >
+                {product.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className={`${LABEL_CLASS} flex-1`}>
+          Producto
+          <select
+            value={selectedProductId}
+            onChange={(event) => {
+              setSelectedProductId(event.target.value);
+              setScopeSizeId('');
+            }}
+            className={INPUT_CLASS}
+          >
+            <option value="">Elige un producto</option>
+            {products.map((product) => (
+              <option key={product.productId} value={product.productId}>
+                {product.name}
+                {product.hasRecipe ? '' : ' · sin receta'}
+              </option>
+            ))}
+          </select>
+        </label>
+        {selectedProduct && selectedProduct.variants.some((variant) => variant.sizeId) && (
+          <label className={LABEL_CLASS}>
+            Receta para
+            <select
+              value={scopeSizeId}
+              onChange={(event) => setScopeSizeId(event.target.value)}
+              className={INPUT_CLASS}
+            >
+              <option value="">Todos los tamaños</option>
+              {selectedProduct.variants
+                .filter((variant) => variant.sizeId)
+                .map((variant) => (
+                  <option key={variant.sizeId} value={variant.sizeId ?? ''}>
+                    {variant.label}
+                  </option>
+                ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {selectedProduct && (
+        <>
+          <div className="grid gap-3 sm:grid-cols-3">
+            {selectedProduct.variants.map((variant) => (
+              <div
+                key={variant.sizeId ?? 'base'}
+                className="rounded-2xl border border-primary-100/60 px-3 py-2 text-xs dark:border-white/10"
+              >
+                <p className="text-[11px] text-[var(--brand-muted)]">
+                  {variant.label}
+                  {variant.sizeId && variant.usesGenericRecipe && ' · receta general'}
+                </p>
+                <p className="font-semibold">
+                  Costo {variant.cost === null ? '—' : formatCurrency(variant.cost)} · Precio{' '}
+                  {formatCurrency(variant.price)}
+                </p>
+                {variant.margin !== null && (
+                  <p className={variant.margin < LOW_MARGIN_THRESHOLD ? 'text-danger-600' : 'text-emerald-600'}>
+                    Margen {formatPercent(variant.margin)}
+                  </p>
+                )}
+                {variant.missingCostItemIds.length > 0 && (
+                  <p className="text-amber-600">
+                    Sin costo de lote:{' '}
+                    {variant.missingCostItemIds
+                      .map((id) => itemMap.get(id)?.name ?? id)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {scopedLines.length === 0 ? (
+              <p className="text-xs text-[var(--brand-muted)]">
+                {scopeSizeId
+                  ? 'Este tamaño usa la receta general hasta que le agregues insumos propios.'
+                  : 'Sin insumos todavía.'}
+              </p>
+            ) : (
+              <table className="w-full text-left text-xs">
+                <thead className="text-[var(--brand-muted)]">
+                  <tr>
+                    <th className="py-1">Insumo</th>
+                    <th className="py-1">Cantidad</th>
+                    <th className="py-1">Rinde</th>
+                    <th className="py-1">Costo por pieza</th>
+                    <th className="py-1">Crítico</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {scopedLines.map((line) => {
+                    const item = itemMap.get(line.inventoryItemId);
+                    const lineCost =
+                      item?.unitCost != null ? (line.quantityUsed / line.yield) * item.unitCost : null;
+                    return (
+                      <tr key={line.id} className="border-t border-primary-100/60 dark:border-white/10">
+                        <td className="py-1 font-semibold">{item?.name ?? line.inventoryItemId}</td>
+                        <td className="py-1">
+                          <input
+                            defaultValue={line.quantityUsed}
+                            onBlur={(event) => handleUpdateLine(line, 'quantityUsed', event.target.value)}
+                            inputMode="decimal"
+                            className="w-20 rounded-lg border border-primary-100/70 px-2 py-0.5 dark:border-white/20 dark:bg-white/5"
+                          />{' '}
+                          {item?.unit ?? ''}
+                        </td>
+                        <td className="py-1">
+                          <input
+                            defaultValue={line.yield}
+                            onBlur={(event) => handleUpdateLine(line, 'yield', event.target.value)}
+                            inputMode="decimal"
+                            className="w-16 rounded-lg border border-primary-100/70 px-2 py-0.5 dark:border-white/20 dark:bg-white/5"
+                          />
+                        </td>
+                        <td className="py-1">{lineCost === null ? '—' : formatCurrency(lineCost)}</td>
+                        <td className="py-1">
+                          <input
+                            type="checkbox"
+                            checked={line.isCritical}
+                            disabled={isSubmitting}
+                            onChange={() => handleToggleCritical(line)}
+                          />
+                        </td>
+                        <td className="py-1 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteLine(line)}
+                            disabled={isSubmitting}
+                            className="font-semibold text-danger-600 underline-offset-4 hover:underline disabled:opacity-40"
+                          >
+                            Quitar
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <form onSubmit={handleAddLine} className="flex flex-wrap items-end gap-2">
+            <label className={`${LABEL_CLASS} flex-1`}>
+              Insumo
+              <select value={itemId} onChange={(event) => setItemId(event.target.value)} className={INPUT_CLASS}>
+                <option value="">Elige un insumo</option>
+                {(overview?.items ?? []).map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.name} ({item.unit})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={LABEL_CLASS}>
+              Cantidad{itemMap.get(itemId) ? ` (${itemMap.get(itemId)?.unit})` : ''}
+              <input
+                value={quantity}
+                onChange={(event) => setQuantity(event.target.value)}
+                inputMode="decimal"
+                placeholder="0"
+                className={`${INPUT_CLASS} w-24`}
+              />
+            </label>
+            <label className={LABEL_CLASS}>
+              Rinde
+              <input
+                value={recipeYield}
+                onChange={(event) => setRecipeYield(event.target.value)}
+                inputMode="decimal"
+                className={`${INPUT_CLASS} w-20`}
+              />
+            </label>
+            <label className="flex items-center gap-2 pb-1 text-xs text-[var(--brand-muted)]">
+              <input
+                type="checkbox"
+                checked={isCritical}
+                onChange={(event) => setIsCritical(event.target.checked)}
+              />
+              Crítico
+            </label>
+            <button type="submit" disabled={isSubmitting} className="brand-button text-xs disabled:opacity-40">
+              Agregar insumo
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { fetchReorderList, type ReorderList, type ReorderListItem } from '@/lib/api';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+/** Hoja imprimible de una lista de compra aprobada, agrupada por proveedor. */
+export function ReorderListSheet({ listId }: { listId: string }) {
+  const [list, setList] = useState<ReorderList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchReorderList(listId)
+      .then((result) => {
+        if (!cancelled) {
+          setList(result);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'No pudimos cargar la lista de compra.');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listId]);
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, ReorderListItem[]>();
+    (list?.items ?? []).forEach((item) => {
+      const key = item.supplierName ?? 'Sin proveedor asignado';
+      grouped.set(key, [...(grouped.get(key) ?? []), item]);
+    });
+    return Array.from(grouped.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [list]);
+
+  if (error) {
+    return <p className="p-6 text-sm text-danger-600">{error}</p>;
+  }
+  if (!list) {
+    return <p className="p-6 text-sm text-[var(--brand-muted)]">Cargando lista…</p>;
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6 bg-white p-6 text-sm text-black">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-xl font-semibold">Lista de compra {list.folio}</p>
+          <p>
+            {list.branchId ?? 'Todas las sucursales'} · aprobada el{' '}
+            {new Date(list.approvedAt).toLocaleString('es-MX', { dateStyle: 'long', timeStyle: 'short' })}
+          </p>
+          {list.notes && <p className="mt-1">Notas: {list.notes}</p>}
+        </div>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          className="brand-button text-xs print:hidden"
+        >
+          Imprimir
+        </button>
+      </div>
+
+      {groups.map(([supplier, items]) => (
+        <div key={supplier} className="space-y-1">
+          <p className="font-semibold uppercase tracking-[0.2em]">{supplier}</p>
+          <table className="w-full border-collapse text-left text-xs">
+            <thead>
+              <tr className="border-b border-black">
+                <th className="py-1">✓</th>
+                <th className="py-1">Insumo</th>
+                <th className="py-1">Sucursal</th>
+                <th className="py-1">Piezas</th>
+                <th className="py-1">Cantidad</th>
+                <th className="py-1 text-right">Costo est.</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item) => (
+                <tr key={`${item.itemId}:${item.branchId}`} className="border-b border-black/20">
+                  <td className="py-1">☐</td>
+                  <td className="py-1">{item.name}</td>
+                  <td className="py-1">{item.branchId}</td>
+                  <td className="py-1">{item.packs}</td>
+                  <td className="py-1">
+                    {item.quantity} {item.unit}
+                  </td>
+                  <td className="py-1 text-right">
+                    {item.unitCost === null ? '—' : formatCurrency(item.unitCost * item.packs)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+
+      <p className="text-right font-semibold">Total estimado {formatCurrency(list.estimatedTotal)}</p>
+    </div>
+  );
+}
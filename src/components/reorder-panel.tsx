@@ -0,0 +1,342 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  approveReorderList,
+  buildReorderCsvUrl,
+  fetchReorderLists,
+  fetchReorderSuggestions,
+  updateReorderSettings,
+  type ReorderList,
+  type ReorderReport,
+  type ReorderSuggestion,
+} from '@/lib/api';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const suggestionKey = (entry: Pick<ReorderSuggestion, 'itemId' | 'branchId'>) =>
+  `${entry.itemId}:${entry.branchId}`;
+
+const CELL_INPUT_CLASS =
+  'w-16 rounded-lg border border-primary-100/70 px-2 py-0.5 dark:border-white/20 dark:bg-white/5';
+
+export function ReorderPanel() {
+  const [report, setReport] = useState<ReorderReport | null>(null);
+  const [lists, setLists] = useState<ReorderList[]>([]);
+  const [branchFilter, setBranchFilter] = useState('');
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextReport, nextLists] = await Promise.all([fetchReorderSuggestions(), fetchReorderLists()]);
+      setReport(nextReport);
+      setLists(nextLists);
+      setSelected(
+        Object.fromEntries(
+          nextReport.suggestions.map((entry) => [suggestionKey(entry), String(entry.suggestedPacks)])
+        )
+      );
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos calcular el reabasto.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const branches = useMemo(
+    () => Array.from(new Set((report?.suggestions ?? []).map((entry) => entry.branchId))).sort(),
+    [report]
+  );
+  const visible = useMemo(
+    () =>
+      (report?.suggestions ?? []).filter((entry) => !branchFilter || entry.branchId === branchFilter),
+    [branchFilter, report]
+  );
+  const approvedLines = visible
+    .map((entry) => ({ entry, packs: parseAmount(selected[suggestionKey(entry)] ?? '') ?? 0 }))
+    .filter((line) => line.packs > 0);
+  const estimatedTotal = approvedLines.reduce(
+    (sum, line) => sum + (line.entry.unitCost ?? 0) * line.packs,
+    0
+  );
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const message = await action();
+      setFeedback({ message, error: null });
+      await loadData();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos actualizar el reabasto.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSettingsChange = (
+    entry: ReorderSuggestion,
+    field: 'leadTimeDays' | 'packSize',
+    value: string
+  ) => {
+    const parsed = parseAmount(value);
+    if (parsed === null || parsed < 0 || parsed === entry[field] || (field === 'packSize' && parsed <= 0)) {
+      return;
+    }
+    void runAction(async () => {
+      await updateReorderSettings({
+        itemId: entry.itemId,
+        [field]: field === 'leadTimeDays' ? Math.round(parsed) : parsed,
+      });
+      return `Parámetros de ${entry.name} actualizados.`;
+    });
+  };
+
+  const handleApprove = () => {
+    if (!approvedLines.length) {
+      setFeedback({ message: null, error: 'Marca al menos un insumo con piezas por comprar.' });
+      return;
+    }
+    void runAction(async () => {
+      const list = await approveReorderList({
+        branchId: branchFilter || null,
+        notes: notes.trim() || null,
+        items: approvedLines.map((line) => ({
+          itemId: line.entry.itemId,
+          branchId: line.entry.branchId,
+          packs: line.packs,
+        })),
+      });
+      setNotes('');
+      return `Lista ${list.folio} aprobada.`;
+    });
+  };
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Reabasto sugerido</p>
+          <p className="text-[var(--brand-muted)]">
+            Consumo de los últimos {report?.lookbackDays ?? '—'} días, tiempo de entrega y mínimo por
+            insumo; cada pedido cubre {report?.coverDays ?? '—'} días adicionales.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-[var(--brand-muted)]">
+          {isLoading && <span>Calculando…</span>}
+          <select
+            value={branchFilter}
+            onChange={(event) => setBranchFilter(event.target.value)}
+            className="rounded-lg border border-primary-100/70 bg-transparent px-3 py-1 text-sm text-[var(--brand-text)] dark:border-white/10"
+          >
+            <option value="">Todas las sucursales</option>
+            {branches.map((branch) => (
+              <option key={branch} value={branch}>
+                {branch}
+              </option>
+            ))}
+          </select>
+          <a
+            href={buildReorderCsvUrl(branchFilter || null)}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Descargar CSV
+          </a>
+          <button
+            type="button"
+            onClick={() => void loadData()}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Recalcular
+          </button>
+        </div>
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-xs text-[var(--brand-muted)]">
+          {isLoading ? 'Calculando sugerencias…' : 'Ningún insumo está por debajo de su punto de reorden.'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead className="text-[var(--brand-muted)]">
+              <tr>
+                <th className="py-1">Insumo</th>
+                <th className="py-1">Sucursal</th>
+                <th className="py-1">Existencia</th>
+                <th className="py-1">Consumo diario</th>
+                <th className="py-1">Días restantes</th>
+                <th className="py-1">Entrega (días)</th>
+                <th className="py-1">Presentación</th>
+                <th className="py-1">Piezas</th>
+                <th className="py-1">Proveedor</th>
+                <th className="py-1 text-right">Costo est.</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((entry) => {
+                const key = suggestionKey(entry);
+                const packs = parseAmount(selected[key] ?? '') ?? 0;
+                return (
+                  <tr key={key} className="border-t border-primary-100/60 dark:border-white/10">
+                    <td className="py-1 font-semibold">{entry.name}</td>
+                    <td className="py-1">{entry.branchId}</td>
+                    <td className={`py-1 ${entry.quantity <= entry.minStock ? 'text-danger-600' : ''}`}>
+                      {entry.quantity} {entry.unit}
+                    </td>
+                    <td className="py-1">
+                      {entry.avgDailyUse} {entry.unit}
+                    </td>
+                    <td className="py-1">{entry.daysRemaining ?? '—'}</td>
+                    <td className="py-1">
+                      <input
+                        key={`${key}-lead-${entry.leadTimeDays}`}
+                        defaultValue={entry.leadTimeDays}
+                        onBlur={(event) => handleSettingsChange(entry, 'leadTimeDays', event.target.value)}
+                        inputMode="numeric"
+                        disabled={isSubmitting}
+                        className={CELL_INPUT_CLASS}
+                      />
+                    </td>
+                    <td className="py-1">
+                      <input
+                        key={`${key}-pack-${entry.packSize}`}
+                        defaultValue={entry.packSize}
+                        onBlur={(event) => handleSettingsChange(entry, 'packSize', event.target.value)}
+                        inputMode="decimal"
+                        disabled={isSubmitting}
+                        className={CELL_INPUT_CLASS}
+                      />{' '}
+                      {entry.unit}
+                    </td>
+                    <td className="py-1">
+                      <input
+                        value={selected[key] ?? ''}
+                        onChange={(event) =>
+                          setSelected((prev) => ({ ...prev, [key]: event.target.value }))
+                        }
+                        inputMode="decimal"
+                        className={CELL_INPUT_CLASS}
+                      />
+                    </td>
+                    <td className="py-1">{entry.supplierName ?? '—'}</td>
+                    <td className="py-1 text-right">
+                      {entry.unitCost === null ? '—' : formatCurrency(entry.unitCost * packs)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-1 flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]">
+          Notas
+          <input
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            className="mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white"
+          />
+        </label>
+        <p className="pb-1 font-semibold">Total estimado {formatCurrency(estimatedTotal)}</p>
+        <button
+          type="button"
+          onClick={handleApprove}
+          disabled={isSubmitting || !approvedLines.length}
+          className="brand-button text-xs disabled:opacity-40"
+        >
+          Aprobar lista ({approvedLines.length})
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Listas aprobadas</p>
+        {lists.length === 0 ? (
+          <p className="text-xs text-[var(--brand-muted)]">Aún no hay listas aprobadas.</p>
+        ) : (
+          lists.map((list) => (
+            <div
+              key={list.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-primary-50/80 px-3 py-2 dark:border-white/10"
+            >
+              <div>
+                <p className="font-semibold">
+                  {list.folio} · {list.branchId ?? 'Todas las sucursales'}
+                </p>
+                <p className="text-xs text-[var(--brand-muted)]">
+                  {new Date(list.approvedAt).toLocaleString('es-MX', { dateStyle: 'medium', timeStyle: 'short' })}{' '}
+                  · {list.items.length} insumos · {formatCurrency(list.estimatedTotal)}
+                </p>
+              </div>
+              <a
+                href={`/reorder-lists/${encodeURIComponent(list.id)}`}
+                target="_blank"
+                rel="noreferrer"
+                className="text-xs font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+              >
+                Imprimir
+              </a>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
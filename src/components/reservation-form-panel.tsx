@@ -0,0 +1,214 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  createReservation,
+  updateReservation,
+  type Reservation,
+  type SavedReservation,
+} from '@/lib/api';
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const todayInputValue = () => {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60_000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 10);
+};
+
+type ReservationFormPanelProps = {
+  /** Con una reservación se reprograma; sin ella se registra una nueva desde el POS. */
+  reservation?: Reservation | null;
+  onSaved?: (reservation: SavedReservation) => void;
+  onCancel?: () => void;
+};
+
+export function ReservationFormPanel({ reservation, onSaved, onCancel }: ReservationFormPanelProps) {
+  const isEditing = Boolean(reservation);
+  const [customerId, setCustomerId] = useState('');
+  const [reservationDate, setReservationDate] = useState(
+    reservation?.reservationDate ?? todayInputValue()
+  );
+  const [reservationTime, setReservationTime] = useState(
+    reservation?.reservationTime?.slice(0, 5) ?? ''
+  );
+  const [peopleCount, setPeopleCount] = useState(String(reservation?.peopleCount ?? 2));
+  const [message, setMessage] = useState(reservation?.message ?? '');
+  const [preOrderItems, setPreOrderItems] = useState(reservation?.preOrderItems ?? '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+
+  const handleSubmit = async () => {
+    const people = Number.parseInt(peopleCount, 10);
+    if (!isEditing && !customerId.trim()) {
+      setFeedback({ message: null, error: 'Captura el ID de cliente o su correo.' });
+      return;
+    }
+    if (!reservationDate || !reservationTime || !Number.isFinite(people) || people < 1) {
+      setFeedback({ message: null, error: 'Completa fecha, hora y número de personas.' });
+      return;
+    }
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const details = {
+        reservationDate,
+        reservationTime,
+        peopleCount: people,
+        message: message.trim() || null,
+        preOrderItems: preOrderItems.trim() || null,
+      };
+      const saved = reservation
+        ? await updateReservation(reservation.id, details)
+        : await createReservation({ customerId: customerId.trim(), ...details });
+      const emailNote = saved.emailSent ? ' Enviamos la confirmación por correo.' : '';
+      setFeedback({
+        message: isEditing
+          ? `Reservación actualizada.${emailNote}`
+          : `Reservación ${saved.reservationCode ?? ''} registrada.${emailNote}`,
+        error: null,
+      });
+      if (!isEditing) {
+        setCustomerId('');
+        setMessage('');
+        setPreOrderItems('');
+      }
+      onSaved?.(saved);
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos guardar la reservación.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">
+          {isEditing ? 'Reprogramar reservación' : 'Nueva reservación'}
+        </p>
+        <p className="text-[var(--brand-muted)]">
+          Validamos mesas libres en la sucursal antes de guardar; el cliente recibe la confirmación por correo.
+        </p>
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        {!isEditing && (
+          <label className={LABEL_CLASS}>
+            Cliente (ID o correo)
+            <input
+              value={customerId}
+              onChange={(event) => setCustomerId(event.target.value)}
+              className={FIELD_CLASS}
+            />
+          </label>
+        )}
+        <label className={LABEL_CLASS}>
+          Fecha
+          <input
+            type="date"
+            value={reservationDate}
+            min={todayInputValue()}
+            onChange={(event) => setReservationDate(event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Hora
+          <input
+            type="time"
+            step={900}
+            value={reservationTime}
+            onChange={(event) => setReservationTime(event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Personas
+          <input
+            type="number"
+            min={1}
+            max={15}
+            value={peopleCount}
+            onChange={(event) => setPeopleCount(event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className={LABEL_CLASS}>
+          Mensaje
+          <input value={message} onChange={(event) => setMessage(event.target.value)} className={FIELD_CLASS} />
+        </label>
+        <label className={LABEL_CLASS}>
+          Pre-orden (una línea por producto, ej. 2 x Latte)
+          <textarea
+            value={preOrderItems}
+            onChange={(event) => setPreOrderItems(event.target.value)}
+            rows={2}
+            className={FIELD_CLASS}
+          />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-full border border-primary-200 px-4 py-2 text-xs font-semibold text-primary-600 transition hover:bg-primary-50 dark:border-white/20 dark:text-primary-200"
+          >
+            Cerrar
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => void handleSubmit()}
+          disabled={isSubmitting}
+          className="brand-button text-xs disabled:opacity-40"
+        >
+          {isEditing ? 'Guardar cambios' : 'Registrar reservación'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  fetchCustomerNoShows,
+  fetchPosSettings,
+  updateCustomerNoShowOverride,
+  updatePosSettings,
+  type CustomerNoShowSummary,
+  type PosSettings,
+} from '@/lib/api';
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+type Feedback = { message: string | null; error: string | null };
+
+type CustomerNoShowPanelProps = {
+  identifier: string | null;
+  canOverride?: boolean;
+};
+
+export function CustomerNoShowPanel({ identifier, canOverride = false }: CustomerNoShowPanelProps) {
+  const [summary, setSummary] = useState<CustomerNoShowSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  const loadSummary = useCallback(async () => {
+    if (!identifier) {
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setSummary(await fetchCustomerNoShows(identifier));
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar las inasistencias.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [identifier]);
+
+  useEffect(() => {
+    void loadSummary();
+  }, [loadSummary]);
+
+  const handleToggleOverride = async () => {
+    if (!identifier || !summary) {
+      return;
+    }
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const next = await updateCustomerNoShowOverride(identifier, !summary.override);
+      setSummary(next);
+      setFeedback({
+        message: next.override
+          ? 'El cliente puede reservar sin restricciones.'
+          : 'El cliente vuelve a seguir las reglas de inasistencia.',
+        error: null,
+      });
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos actualizar la excepción.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!identifier) {
+    return null;
+  }
+
+  const restriction = summary?.blocked
+    ? 'Reservas en línea bloqueadas'
+    : summary?.depositRequired
+      ? `Reserva con anticipo${summary.depositAmount ? ` de ${formatCurrency(summary.depositAmount)}` : ''}`
+      : summary?.override
+        ? 'Exento por gerencia'
+        : 'Sin restricciones';
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs uppercase tracking-[0.35em] text-[var(--brand-muted)]">Inasistencias</p>
+        {isLoading && <span className="text-xs text-[var(--brand-muted)]">Cargando…</span>}
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      {summary && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p>
+              <span className="text-2xl font-semibold text-primary-700 dark:text-primary-100">
+                {summary.count}
+              </span>{' '}
+              {summary.count === 1 ? 'reserva sin asistir' : 'reservas sin asistir'}
+              {summary.limit !== null && (
+                <span className="text-xs text-[var(--brand-muted)]"> · límite {summary.limit}</span>
+              )}
+            </p>
+            <span
+              className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                summary.blocked || summary.depositRequired
+                  ? 'bg-danger-100 text-danger-700 dark:bg-danger-500/20 dark:text-danger-200'
+                  : 'bg-emerald-100 text-emerald-700 dark:bg-emerald-500/20 dark:text-emerald-200'
+              }`}
+            >
+              {restriction}
+            </span>
+          </div>
+          {summary.history.length > 0 && (
+            <ul className="space-y-1 text-xs text-[var(--brand-muted)]">
+              {summary.history.map((entry) => (
+                <li key={entry.reservationId}>
+                  {entry.reservationCode ?? entry.reservationId.slice(0, 6)} · {entry.reservationDate}{' '}
+                  {entry.reservationTime.slice(0, 5)} · {entry.peopleCount}{' '}
+                  {entry.peopleCount === 1 ? 'persona' : 'personas'}
+                </li>
+              ))}
+            </ul>
+          )}
+          {canOverride && summary.limit !== null && (
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={() => void handleToggleOverride()}
+                disabled={isSaving}
+                className="brand-button text-xs disabled:opacity-40"
+              >
+                {summary.override ? 'Quitar excepción' : 'Autorizar reservas (gerente)'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export function NoShowRulesPanel() {
+  const [settings, setSettings] = useState<PosSettings | null>(null);
+  const [limit, setLimit] = useState('');
+  const [action, setAction] = useState<'deposit' | 'block'>('deposit');
+  const [deposit, setDeposit] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>({ message: null, error: null });
+
+  useEffect(() => {
+    fetchPosSettings()
+      .then((current) => {
+        setSettings(current);
+        setLimit(current.no_show_limit ? String(current.no_show_limit) : '');
+        setAction(current.no_show_action === 'block' ? 'block' : 'deposit');
+        setDeposit(current.no_show_deposit ? String(current.no_show_deposit) : '');
+      })
+      .catch((err: unknown) =>
+        setFeedback({
+          message: null,
+          error: err instanceof Error ? err.message : 'No pudimos cargar la configuración.',
+        })
+      );
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) {
+      return;
+    }
+    const parsedLimit = Number.parseInt(limit, 10);
+    const parsedDeposit = Number.parseFloat(deposit.replace(',', '.'));
+    const enabled = Number.isFinite(parsedLimit) && parsedLimit > 0;
+    setIsSaving(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const saved = await updatePosSettings({
+        ...settings,
+        no_show_limit: enabled ? parsedLimit : null,
+        no_show_action: enabled ? action : null,
+        no_show_deposit:
+          enabled && action === 'deposit' && Number.isFinite(parsedDeposit) && parsedDeposit > 0
+            ? parsedDeposit
+            : null,
+      });
+      setSettings(saved);
+      setFeedback({
+        message: enabled ? 'Reglas de inasistencia guardadas.' : 'Reglas de inasistencia desactivadas.',
+        error: null,
+      });
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos guardar las reglas.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">
+          Reglas de inasistencia
+        </p>
+        <p className="text-[var(--brand-muted)]">
+          Deja el límite vacío para no aplicar reglas. Un gerente puede exentar a un cliente desde su ficha.
+        </p>
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className={LABEL_CLASS}>
+          Inasistencias permitidas
+          <input
+            type="number"
+            min={1}
+            value={limit}
+            onChange={(event) => setLimit(event.target.value)}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Al llegar al límite
+          <select
+            value={action}
+            onChange={(event) => setAction(event.target.value === 'block' ? 'block' : 'deposit')}
+            className={FIELD_CLASS}
+          >
+            <option value="deposit">Pedir anticipo</option>
+            <option value="block">Bloquear reserva en línea</option>
+          </select>
+        </label>
+        {action === 'deposit' && (
+          <label className={LABEL_CLASS}>
+            Anticipo (MXN)
+            <input
+              value={deposit}
+              onChange={(event) => setDeposit(event.target.value)}
+              inputMode="decimal"
+              className={FIELD_CLASS}
+            />
+          </label>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => void handleSave()}
+          disabled={isSaving || !settings}
+          className="brand-button text-xs disabled:opacity-40"
+        >
+          Guardar reglas
+        </button>
+      </div>
+    </div>
+  );
+}
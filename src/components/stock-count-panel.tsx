@@ -0,0 +1,473 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BarcodeScanner } from '@/components/barcode-scanner';
+import {
+  buildStockCountCsvUrl,
+  cancelStockCount,
+  createStockCount,
+  fetchStockCount,
+  fetchStockCounts,
+  postStockCount,
+  recordStockCountLines,
+  type StockCount,
+  type StockCountOverview,
+  type StockCountStatus,
+} from '@/lib/api';
+
+const formatCurrency = (value?: number | null) =>
+  new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' }).format(value ?? 0);
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const formatQuantity = (value: number) => Math.round(value * 1000) / 1000;
+
+const STATUS_LABELS: Record<StockCountStatus, string> = {
+  open: 'Abierto',
+  posted: 'Contabilizado',
+  cancelled: 'Cancelado',
+};
+
+const INPUT_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+const CELL_INPUT_CLASS =
+  'w-20 rounded-lg border border-primary-100/70 px-2 py-0.5 dark:border-white/20 dark:bg-white/5';
+
+const buildDrafts = (count: StockCount) =>
+  Object.fromEntries(
+    count.lines.map((line) => [
+      line.itemId,
+      line.countedQuantity === null ? '' : String(line.countedQuantity),
+    ])
+  );
+
+export function StockCountPanel({
+  canManage,
+  defaultBranchId,
+}: {
+  canManage: boolean;
+  defaultBranchId?: string | null;
+}) {
+  const [overview, setOverview] = useState<StockCountOverview | null>(null);
+  const [count, setCount] = useState<StockCount | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [branchId, setBranchId] = useState(defaultBranchId ?? '');
+  const [itemSearch, setItemSearch] = useState('');
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+
+  const loadOverview = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setOverview(await fetchStockCounts());
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar los conteos.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadOverview();
+  }, [loadOverview]);
+
+  const showCount = (next: StockCount) => {
+    setCount(next);
+    setDrafts(buildDrafts(next));
+  };
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const message = await action();
+      setFeedback({ message, error: null });
+      await loadOverview();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos actualizar el conteo.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const filteredItems = useMemo(() => {
+    const term = itemSearch.trim().toLowerCase();
+    return (overview?.items ?? []).filter(
+      (item) => !term || item.name.toLowerCase().includes(term) || item.id.toLowerCase().includes(term)
+    );
+  }, [itemSearch, overview]);
+
+  const pendingLines = useMemo(() => {
+    if (!count) {
+      return [];
+    }
+    return count.lines
+      .map((line) => {
+        const raw = drafts[line.itemId]?.trim() ?? '';
+        const countedQuantity = raw ? parseAmount(raw) : null;
+        return { itemId: line.itemId, countedQuantity, previous: line.countedQuantity, raw };
+      })
+      .filter((entry) => (entry.raw === '' || entry.countedQuantity !== null) && entry.countedQuantity !== entry.previous)
+      .map(({ itemId, countedQuantity }) => ({ itemId, countedQuantity }));
+  }, [count, drafts]);
+
+  const handleOpenCount = () => {
+    void runAction(async () => {
+      const created = await createStockCount({
+        branchId: branchId.trim() || null,
+        itemIds: selectedItems.length ? selectedItems : undefined,
+        notes: notes.trim() || null,
+      });
+      showCount(created);
+      setSelectedItems([]);
+      setNotes('');
+      return `Conteo ${created.folio} abierto con ${created.lines.length} insumos.`;
+    });
+  };
+
+  const handleSelectCount = (countId: string) => {
+    void runAction(async () => {
+      const next = await fetchStockCount(countId);
+      showCount(next);
+      return `Conteo ${next.folio} cargado.`;
+    });
+  };
+
+  const handleSaveLines = () => {
+    if (!count || !pendingLines.length) {
+      return;
+    }
+    void runAction(async () => {
+      const next = await recordStockCountLines(count.id, pendingLines);
+      showCount(next);
+      return `${pendingLines.length} cantidades guardadas.`;
+    });
+  };
+
+  const handlePost = () => {
+    if (!count) {
+      return;
+    }
+    if (pendingLines.length) {
+      setFeedback({ message: null, error: 'Guarda las cantidades capturadas antes de contabilizar.' });
+      return;
+    }
+    void runAction(async () => {
+      const next = await postStockCount(count.id);
+      showCount(next);
+      return `Conteo ${next.folio} contabilizado. Diferencia ${formatCurrency(next.totals.varianceValue)}.`;
+    });
+  };
+
+  const handleCancel = () => {
+    if (!count) {
+      return;
+    }
+    void runAction(async () => {
+      const next = await cancelStockCount(count.id);
+      showCount(next);
+      return `Conteo ${next.folio} cancelado.`;
+    });
+  };
+
+  const handleScan = useCallback(
+    (value: string) => {
+      const code = value.trim();
+      const line = count?.lines.find((entry) => entry.barcode === code || entry.itemId === code);
+      if (!line) {
+        setFeedback({ message: null, error: `El código ${code} no corresponde a ningún insumo del conteo.` });
+        return;
+      }
+      setFeedback({ message: `${line.name}: captura la cantidad contada.`, error: null });
+      const input = inputRefs.current[line.itemId];
+      input?.focus();
+      input?.select();
+    },
+    [count]
+  );
+
+  const isOpen = count?.status === 'open';
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Conteo físico</p>
+          <p className="text-[var(--brand-muted)]">
+            La existencia esperada se congela al abrir el conteo; al contabilizar se ajusta solo la diferencia.
+          </p>
+        </div>
+        {isLoading && <span className="text-xs text-[var(--brand-muted)]">Actualizando…</span>}
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Conteos recientes</p>
+        {(overview?.counts ?? []).length === 0 ? (
+          <p className="text-xs text-[var(--brand-muted)]">Aún no hay conteos registrados.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {overview?.counts.map((entry) => (
+              <button
+                key={entry.id}
+                type="button"
+                onClick={() => handleSelectCount(entry.id)}
+                disabled={isSubmitting}
+                className={`rounded-xl border px-3 py-2 text-left text-xs dark:border-white/10 ${
+                  count?.id === entry.id ? 'border-primary-400' : 'border-primary-50/80'
+                }`}
+              >
+                <span className="block font-semibold">
+                  {entry.folio} · {entry.branchId}
+                </span>
+                <span className="text-[var(--brand-muted)]">
+                  {STATUS_LABELS[entry.status]} ·{' '}
+                  {new Date(entry.createdAt).toLocaleDateString('es-MX', { dateStyle: 'medium' })}
+                  {entry.varianceValue !== null && ` · ${formatCurrency(entry.varianceValue)}`}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canManage && (
+        <div className="space-y-3 rounded-xl border border-primary-50/80 p-3 dark:border-white/10">
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Abrir conteo</p>
+          <div className="flex flex-wrap gap-3">
+            <label className={LABEL_CLASS}>
+              Sucursal
+              <input value={branchId} onChange={(event) => setBranchId(event.target.value)} className={INPUT_CLASS} />
+            </label>
+            <label className={`${LABEL_CLASS} flex-1`}>
+              Notas
+              <input
+                value={notes}
+                onChange={(event) => setNotes(event.target.value)}
+                placeholder="Ej. conteo semanal de leche y café"
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+          <label className={LABEL_CLASS}>
+            Insumos a contar ({selectedItems.length ? selectedItems.length : 'todos'})
+            <input
+              value={itemSearch}
+              onChange={(event) => setItemSearch(event.target.value)}
+              placeholder="Buscar insumo"
+              className={INPUT_CLASS}
+            />
+          </label>
+          <div className="flex max-h-40 flex-wrap gap-2 overflow-y-auto">
+            {filteredItems.map((item) => (
+              <label key={item.id} className="flex items-center gap-1 text-xs">
+                <input
+                  type="checkbox"
+                  checked={selectedItems.includes(item.id)}
+                  onChange={(event) =>
+                    setSelectedItems((prev) =>
+                      event.target.checked ? [...prev, item.id] : prev.filter((id) => id !== item.id)
+                    )
+                  }
+                />
+                {item.name}
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={handleOpenCount}
+            disabled={isSubmitting}
+            className="brand-button text-xs disabled:opacity-40"
+          >
+            Abrir conteo
+          </button>
+        </div>
+      )}
+
+      {count && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="font-semibold">
+              {count.folio} · {count.branchId} · {STATUS_LABELS[count.status]}
+              {count.notes && <span className="font-normal text-[var(--brand-muted)]"> · {count.notes}</span>}
+            </p>
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              {isOpen && (
+                <button
+                  type="button"
+                  onClick={() => setIsScannerOpen((prev) => !prev)}
+                  className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+                >
+                  {isScannerOpen ? 'Cerrar lector' : 'Escanear códigos'}
+                </button>
+              )}
+              <a
+                href={buildStockCountCsvUrl(count.id)}
+                className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+              >
+                Descargar CSV
+              </a>
+            </div>
+          </div>
+
+          {isOpen && isScannerOpen && <BarcodeScanner onDetected={handleScan} />}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-[var(--brand-muted)]">
+                <tr>
+                  <th className="py-1">Insumo</th>
+                  <th className="py-1">Esperado</th>
+                  <th className="py-1">Contado</th>
+                  <th className="py-1">Diferencia</th>
+                  <th className="py-1">Costo unitario</th>
+                  <th className="py-1 text-right">Valor diferencia</th>
+                </tr>
+              </thead>
+              <tbody>
+                {count.lines.map((line) => {
+                  const variance = line.varianceQuantity ?? 0;
+                  return (
+                    <tr key={line.id} className="border-t border-primary-100/60 dark:border-white/10">
+                      <td className="py-1 font-semibold">
+                        {line.name}
+                        {line.barcode && (
+                          <span className="block font-normal text-[var(--brand-muted)]">{line.barcode}</span>
+                        )}
+                      </td>
+                      <td className="py-1">
+                        {formatQuantity(line.expectedQuantity)} {line.unit}
+                      </td>
+                      <td className="py-1">
+                        {isOpen ? (
+                          <input
+                            ref={(element) => {
+                              inputRefs.current[line.itemId] = element;
+                            }}
+                            value={drafts[line.itemId] ?? ''}
+                            onChange={(event) =>
+                              setDrafts((prev) => ({ ...prev, [line.itemId]: event.target.value }))
+                            }
+                            inputMode="decimal"
+                            className={CELL_INPUT_CLASS}
+                          />
+                        ) : line.countedQuantity === null ? (
+                          '—'
+                        ) : (
+                          `${formatQuantity(line.countedQuantity)} ${line.unit}`
+                        )}
+                      </td>
+                      <td
+                        className={`py-1 ${variance < 0 ? 'text-danger-600' : variance > 0 ? 'text-emerald-600' : ''}`}
+                      >
+                        {line.varianceQuantity === null
+                          ? '—'
+                          : `${variance > 0 ? '+' : ''}${formatQuantity(variance)} ${line.unit}`}
+                      </td>
+                      <td className="py-1">{line.unitCost === null ? '—' : formatCurrency(line.unitCost)}</td>
+                      <td className="py-1 text-right">
+                        {line.varianceValue === null ? '—' : formatCurrency(line.varianceValue)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+            <p className="text-[var(--brand-muted)]">
+              {count.totals.counted}/{count.totals.lines} contados · Faltante{' '}
+              {formatCurrency(count.totals.shortageValue)} · Sobrante {formatCurrency(count.totals.surplusValue)} ·{' '}
+              <span className="font-semibold text-[var(--brand-text)]">
+                Neto {formatCurrency(count.totals.varianceValue)}
+              </span>
+            </p>
+            {isOpen && (
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={handleSaveLines}
+                  disabled={isSubmitting || !pendingLines.length}
+                  className="brand-button text-xs disabled:opacity-40"
+                >
+                  Guardar cantidades ({pendingLines.length})
+                </button>
+                {canManage && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={handlePost}
+                      disabled={isSubmitting || !count.totals.counted}
+                      className="brand-button text-xs disabled:opacity-40"
+                    >
+                      Contabilizar ajustes
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      disabled={isSubmitting}
+                      className="brand-button--ghost text-xs disabled:opacity-40"
+                    >
+                      Cancelar conteo
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  createStockTransfer,
+  fetchBranches,
+  fetchSmartInventoryStatus,
+  fetchStockTransfers,
+  type BranchScope,
+  type SmartInventoryEntry,
+  type StockTransfer,
+} from '@/lib/api';
+
+const parseAmount = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const FIELD_CLASS =
+  'mt-1 rounded-xl border border-primary-100/70 bg-transparent px-3 py-1 text-sm normal-case tracking-normal text-[var(--brand-text)] focus:border-primary-400 focus:outline-none dark:border-white/20 dark:bg-white/5 dark:text-white';
+const LABEL_CLASS =
+  'flex flex-col text-xs font-semibold uppercase tracking-[0.25em] text-[var(--brand-muted)]';
+
+export function StockTransferPanel() {
+  const [scope, setScope] = useState<BranchScope | null>(null);
+  const [entries, setEntries] = useState<SmartInventoryEntry[]>([]);
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [fromBranchId, setFromBranchId] = useState('');
+  const [toBranchId, setToBranchId] = useState('');
+  const [itemId, setItemId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ message: string | null; error: string | null }>({
+    message: null,
+    error: null,
+  });
+
+  const loadData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [nextScope, status, nextTransfers] = await Promise.all([
+        fetchBranches(),
+        fetchSmartInventoryStatus(),
+        fetchStockTransfers(),
+      ]);
+      setScope(nextScope);
+      setEntries(status.entries);
+      setTransfers(nextTransfers);
+      setFromBranchId((prev) =>
+        prev || (nextScope.selected === 'all' ? nextScope.sessionBranchId : nextScope.selected)
+      );
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos cargar los traspasos.',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const sourceEntries = useMemo(
+    () =>
+      entries
+        .filter((entry) => entry.branchId === fromBranchId && entry.quantity > 0)
+        .sort((a, b) => a.name.localeCompare(b.name, 'es')),
+    [entries, fromBranchId]
+  );
+  const selectedEntry = sourceEntries.find((entry) => entry.itemId === itemId) ?? null;
+  const destinations = (scope?.branches ?? []).filter((branch) => branch.id !== fromBranchId);
+  const branchName = (id: string) => scope?.branches.find((branch) => branch.id === id)?.name ?? id;
+
+  const handleSubmit = async () => {
+    const amount = parseAmount(quantity);
+    if (!selectedEntry || !toBranchId || amount === null || amount <= 0) {
+      setFeedback({ message: null, error: 'Elige insumo, sucursal destino y una cantidad mayor a 0.' });
+      return;
+    }
+    if (amount > selectedEntry.quantity) {
+      setFeedback({
+        message: null,
+        error: `Solo hay ${selectedEntry.quantity} ${selectedEntry.unit} de ${selectedEntry.name} en origen.`,
+      });
+      return;
+    }
+    setIsSubmitting(true);
+    setFeedback({ message: null, error: null });
+    try {
+      const transfer = await createStockTransfer({
+        itemId: selectedEntry.itemId,
+        fromBranchId,
+        toBranchId,
+        quantity: amount,
+        notes: notes.trim() || null,
+      });
+      setQuantity('');
+      setNotes('');
+      setFeedback({ message: `Traspaso ${transfer.folio} registrado.`, error: null });
+      await loadData();
+    } catch (err) {
+      setFeedback({
+        message: null,
+        error: err instanceof Error ? err.message : 'No pudimos registrar el traspaso.',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5 rounded-2xl border border-primary-100/70 bg-white/70 p-4 text-sm dark:border-white/10 dark:bg-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">
+            Traspasos entre sucursales
+          </p>
+          <p className="text-[var(--brand-muted)]">
+            Cada traspaso registra una salida en origen y una entrada en destino con el mismo folio.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-[var(--brand-muted)]">
+          {isLoading && <span>Cargando…</span>}
+          <button
+            type="button"
+            onClick={() => void loadData()}
+            className="font-semibold text-primary-500 underline-offset-4 hover:underline dark:text-primary-200"
+          >
+            Actualizar
+          </button>
+        </div>
+      </div>
+
+      {feedback.error && <p className="text-xs font-semibold text-danger-600">{feedback.error}</p>}
+      {feedback.message && <p className="text-xs font-semibold text-emerald-600">{feedback.message}</p>}
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+        <label className={LABEL_CLASS}>
+          Origen
+          <select
+            value={fromBranchId}
+            onChange={(event) => {
+              setFromBranchId(event.target.value);
+              setItemId('');
+            }}
+            disabled={!scope?.canSwitch}
+            className={FIELD_CLASS}
+          >
+            {!scope?.branches.some((branch) => branch.id === fromBranchId) && fromBranchId && (
+              <option value={fromBranchId}>{fromBranchId}</option>
+            )}
+            {(scope?.branches ?? []).map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={LABEL_CLASS}>
+          Destino
+          <select
+            value={toBranchId}
+            onChange={(event) => setToBranchId(event.target.value)}
+            className={FIELD_CLASS}
+          >
+            <option value="">Selecciona</option>
+            {destinations.map((branch) => (
+              <option key={branch.id} value={branch.id}>
+                {branch.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={LABEL_CLASS}>
+          Insumo
+          <select value={itemId} onChange={(event) => setItemId(event.target.value)} className={FIELD_CLASS}>
+            <option value="">Selecciona</option>
+            {sourceEntries.map((entry) => (
+              <option key={entry.itemId} value={entry.itemId}>
+                {entry.name} ({entry.quantity} {entry.unit})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={LABEL_CLASS}>
+          Cantidad{selectedEntry ? ` (${selectedEntry.unit})` : ''}
+          <input
+            value={quantity}
+            onChange={(event) => setQuantity(event.target.value)}
+            inputMode="decimal"
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className={LABEL_CLASS}>
+          Notas
+          <input value={notes} onChange={(event) => setNotes(event.target.value)} className={FIELD_CLASS} />
+        </label>
+      </div>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => void handleSubmit()}
+          disabled={isSubmitting || !itemId || !toBranchId}
+          className="brand-button text-xs disabled:opacity-40"
+        >
+          Registrar traspaso
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.35em] text-primary-500">Traspasos recientes</p>
+        {transfers.length === 0 ? (
+          <p className="text-xs text-[var(--brand-muted)]">Aún no hay traspasos registrados.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead className="text-[var(--brand-muted)]">
+                <tr>
+                  <th className="py-1">Folio</th>
+                  <th className="py-1">Fecha</th>
+                  <th className="py-1">Insumo</th>
+                  <th className="py-1">Origen</th>
+                  <th className="py-1">Destino</th>
+                  <th className="py-1 text-right">Cantidad</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transfers.map((transfer) => (
+                  <tr key={transfer.id} className="border-t border-primary-100/60 dark:border-white/10">
+                    <td className="py-1 font-semibold">{transfer.folio}</td>
+                    <td className="py-1">
+                      {new Date(transfer.createdAt).toLocaleString('es-MX', {
+                        dateStyle: 'medium',
+                        timeStyle: 'short',
+                      })}
+                    </td>
+                    <td className="py-1">{transfer.name}</td>
+                    <td className="py-1">{branchName(transfer.fromBranchId)}</td>
+                    <td className="py-1">{branchName(transfer.toBranchId)}</td>
+                    <td className="py-1 text-right">
+                      {transfer.quantity} {transfer.unit}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -61,6 +61,7 @@ interface TicketVentaProps {
   >;
   subtotal?: number | null;
   tax?: number | null;
+  descuento?: { codigo: string; monto: number } | null;
   total: number;
   metodoPago?: string | null;
   montoRecibido?: number | null;
@@ -88,6 +89,7 @@ const TicketVenta = forwardRef<HTMLDivElement, TicketVentaProps>(function Ticket
     items,
     subtotal,
     tax,
+    descuento,
     total,
     metodoPago,
     montoRecibido,
@@ -155,6 +157,12 @@ const TicketVenta = forwardRef<HTMLDivElement, TicketVentaProps>(function Ticket
           <span className="text-gray-500">Subtotal</span>
           <span className="font-semibold">{formatCurrency(computedSubtotal)}</span>
         </div>
+        {descuento && descuento.monto > 0 && (
+          <div className="flex justify-between">
+            <span className="text-gray-500">Descuento ({descuento.codigo})</span>
+            <span className="font-semibold">-{formatCurrency(descuento.monto)}</span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-gray-500">IVA</span>
           <span className="font-semibold">{formatCurrency(resolvedTax)}</span>
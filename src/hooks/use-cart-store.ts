@@ -29,6 +29,7 @@
 'use client';
 
 import { useSyncExternalStore } from 'react';
+import type { OrderItemModifier } from '@/lib/product-modifiers';
 
 export type CartItem = {
   productId: string;
@@ -43,6 +44,7 @@ export type CartItem = {
   kind?: 'beverage' | 'food' | 'package' | 'other';
   originalPrice?: number | null;
   loyaltyReward?: boolean;
+  modifiers?: OrderItemModifier[];
 };
 
 type CartState = {
@@ -28,9 +28,10 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
 import type { CatalogPayload } from '@/lib/api';
 import { fetchCatalog } from '@/lib/api';
+import { getSupabaseBrowserClient } from '@/lib/supabase-browser';
 
 interface UseCatalogResult {
   catalog: CatalogPayload | null;
@@ -39,32 +40,134 @@ interface UseCatalogResult {
   refresh: () => Promise<void>;
 }
 
-export function useCatalog(): UseCatalogResult {
-  const [catalog, setCatalog] = useState<CatalogPayload | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+type CatalogState = {
+  catalog: CatalogPayload | null;
+  isLoading: boolean;
+  error: string | null;
+  hasLoaded: boolean;
+};
+
+const listeners = new Set<() => void>();
+
+let state: CatalogState = {
+  catalog: null,
+  isLoading: false,
+  error: null,
+  hasLoaded: false,
+};
+
+const emit = () => {
+  listeners.forEach((listener) => listener());
+};
 
-  const loadCatalog = async () => {
-    setIsLoading(true);
-    setError(null);
+const updateState = (partial: Partial<CatalogState>) => {
+  state = { ...state, ...partial };
+  emit();
+};
+
+let pendingLoad: Promise<void> | null = null;
+let unsubscribeRealtime: (() => void) | null = null;
+
+const loadCatalog = async () => {
+  if (pendingLoad) {
+    return pendingLoad;
+  }
+  pendingLoad = (async () => {
+    updateState({ isLoading: true, error: null });
     try {
       const data = await fetchCatalog();
-      setCatalog(data);
+      updateState({ catalog: data, isLoading: false, hasLoaded: true });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Error desconocido al cargar el catálogo');
+      updateState({
+        error: err instanceof Error ? err.message : 'Error desconocido al cargar el catálogo',
+        isLoading: false,
+        hasLoaded: true,
+      });
     } finally {
-      setIsLoading(false);
+      pendingLoad = null;
+    }
+  })();
+  return pendingLoad;
+};
+
+const parseInterval = () => {
+  const envValue = Number(process.env.NEXT_PUBLIC_CATALOG_POLL_INTERVAL_MS);
+  if (Number.isFinite(envValue) && envValue >= 5000) {
+    return envValue;
+  }
+  return 60000;
+};
+
+const POLLING_INTERVAL_MS = parseInterval();
+
+// El sondeo sigue activo aunque haya realtime: los cambios de precio programados
+// se aplican cuando alguien lee /api/catalog, no cuando cambia la tabla.
+let pollingTimer: number | null = null;
+
+const startPolling = () => {
+  if (pollingTimer || typeof window === 'undefined' || listeners.size === 0) {
+    return;
+  }
+  pollingTimer = window.setInterval(() => {
+    void loadCatalog();
+  }, POLLING_INTERVAL_MS);
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  startPolling();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && pollingTimer) {
+      window.clearInterval(pollingTimer);
+      pollingTimer = null;
     }
   };
+};
+
+const ensureRealtimeSubscription = () => {
+  if (unsubscribeRealtime || typeof window === 'undefined') {
+    return;
+  }
+  const client = getSupabaseBrowserClient();
+  if (!client) {
+    return;
+  }
+  const channel = client
+    .channel('pos-catalog-realtime')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'products' }, () => {
+      void loadCatalog();
+    });
+
+  unsubscribeRealtime = () => {
+    client.removeChannel(channel);
+    unsubscribeRealtime = null;
+  };
+  channel.subscribe((status) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      unsubscribeRealtime?.();
+    }
+  });
+};
+
+const getSnapshot = () => state;
+
+export function useCatalog(): UseCatalogResult {
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
   useEffect(() => {
-    void loadCatalog();
-  }, []);
+    if (!snapshot.hasLoaded && !snapshot.isLoading) {
+      void loadCatalog();
+    }
+    ensureRealtimeSubscription();
+  }, [snapshot.hasLoaded, snapshot.isLoading]);
+
+  const refresh = useCallback(() => loadCatalog(), []);
 
   return {
-    catalog,
-    isLoading,
-    error,
-    refresh: loadCatalog,
+    catalog: snapshot.catalog,
+    isLoading: snapshot.isLoading || !snapshot.hasLoaded,
+    error: snapshot.error,
+    refresh,
   };
 }
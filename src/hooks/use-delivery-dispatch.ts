@@ -0,0 +1,175 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { DeliveryCourier, DeliveryDispatchRecord, Order } from '@/lib/api';
+import { fetchDeliveryDispatchBoard, updateDeliveryDispatch } from '@/lib/api';
+import { useOrders, subscribeToOrdersRealtime } from '@/hooks/use-orders';
+import { getSupabaseBrowserClient } from '@/lib/supabase-browser';
+import type { DeliveryBoardStatus, DeliveryDispatchAction } from '@/lib/delivery-dispatch';
+
+export interface DeliveryBoardEntry {
+  order: Order;
+  status: DeliveryBoardStatus;
+  dispatch: DeliveryDispatchRecord | null;
+}
+
+interface UseDeliveryDispatchResult {
+  entries: DeliveryBoardEntry[];
+  couriers: DeliveryCourier[];
+  isLoading: boolean;
+  error: string | null;
+  pendingOrderIds: Set<string>;
+  refresh: () => Promise<void>;
+  runAction: (
+    orderId: string,
+    action: DeliveryDispatchAction,
+    courierStaffId?: string | null
+  ) => Promise<DeliveryDispatchRecord | null>;
+}
+
+const POLLING_INTERVAL_MS = 15000;
+// Mismo margen que usa la API para dejar visibles los entregados.
+const BOARD_WINDOW_MS = 12 * 60 * 60 * 1000;
+const CLOSED_ORDER_STATUSES = new Set(['voided', 'refunded']);
+
+const isDeliveryOrder = (order: Order) =>
+  Boolean(order.shipping?.addressId || order.shipping?.address || order.shipping?.lines?.length);
+
+const isRecentOrder = (order: Order) => {
+  const createdAt = order.createdAt ? Date.parse(order.createdAt) : NaN;
+  return Number.isFinite(createdAt) && Date.now() - createdAt < BOARD_WINDOW_MS;
+};
+
+export function useDeliveryDispatch(): UseDeliveryDispatchResult {
+  const { orders, isRealtime } = useOrders();
+  const [dispatches, setDispatches] = useState<DeliveryDispatchRecord[]>([]);
+  const [couriers, setCouriers] = useState<DeliveryCourier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingOrderIds, setPendingOrderIds] = useState<Set<string>>(new Set());
+  const pendingLoad = useRef<Promise<void> | null>(null);
+
+  const loadBoard = useCallback(async () => {
+    if (pendingLoad.current) {
+      return pendingLoad.current;
+    }
+    pendingLoad.current = (async () => {
+      setIsLoading(true);
+      try {
+        const board = await fetchDeliveryDispatchBoard();
+        setDispatches(board.dispatches);
+        setCouriers(board.couriers);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Error desconocido en el tablero de reparto');
+      } finally {
+        setIsLoading(false);
+        pendingLoad.current = null;
+      }
+    })();
+    return pendingLoad.current;
+  }, []);
+
+  useEffect(() => {
+    void loadBoard();
+    return subscribeToOrdersRealtime(() => void loadBoard());
+  }, [loadBoard]);
+
+  useEffect(() => {
+    const client = getSupabaseBrowserClient();
+    if (!client) {
+      return;
+    }
+    const channel = client
+      .channel('pos-delivery-dispatch')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'delivery_dispatches' },
+        () => void loadBoard()
+      );
+    channel.subscribe();
+    return () => {
+      client.removeChannel(channel);
+    };
+  }, [loadBoard]);
+
+  // Sin realtime el tablero se refresca solo, igual que la pantalla de cocina.
+  useEffect(() => {
+    if (isRealtime) {
+      return;
+    }
+    const timer = window.setInterval(() => void loadBoard(), POLLING_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isRealtime, loadBoard]);
+
+  const entries = useMemo(() => {
+    const byOrder = new Map(dispatches.map((dispatch) => [dispatch.orderId, dispatch]));
+    return orders
+      .filter((order) => isDeliveryOrder(order) && !CLOSED_ORDER_STATUSES.has(order.status))
+      .map((order) => {
+        const dispatch = byOrder.get(order.id) ?? null;
+        return { order, dispatch, status: dispatch?.status ?? 'pending' } as DeliveryBoardEntry;
+      })
+      // Sin registro de reparto solo se listan los pedidos recientes; los viejos no regresan como pendientes.
+      .filter((entry) => entry.dispatch || isRecentOrder(entry.order));
+  }, [dispatches, orders]);
+
+  const runAction = useCallback(
+    async (orderId: string, action: DeliveryDispatchAction, courierStaffId?: string | null) => {
+      setPendingOrderIds((prev) => new Set(prev).add(orderId));
+      try {
+        const saved = await updateDeliveryDispatch({ orderId, action, courierStaffId });
+        setDispatches((prev) => [
+          ...prev.filter((dispatch) => dispatch.orderId !== orderId),
+          {
+            ...saved,
+            courierName:
+              couriers.find((courier) => courier.staffId === saved.courierStaffId)?.name ?? null,
+          },
+        ]);
+        setError(null);
+        return saved;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'No pudimos actualizar el reparto');
+        return null;
+      } finally {
+        setPendingOrderIds((prev) => {
+          const next = new Set(prev);
+          next.delete(orderId);
+          return next;
+        });
+      }
+    },
+    [couriers]
+  );
+
+  return { entries, couriers, isLoading, error, pendingOrderIds, refresh: loadBoard, runAction };
+}
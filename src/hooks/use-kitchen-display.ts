@@ -0,0 +1,164 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PrepTask } from '@/lib/api';
+import { fetchPrepQueue, updatePrepTaskStatus } from '@/lib/api';
+import { useOrders, subscribeToOrdersRealtime } from '@/hooks/use-orders';
+import {
+  KITCHEN_ACTIVE_STATUSES,
+  resolvePrepTransition,
+  type PrepTaskAction,
+} from '@/lib/prep-status';
+
+interface UseKitchenDisplayResult {
+  tasks: PrepTask[];
+  recentlyCompleted: PrepTask[];
+  isLoading: boolean;
+  isRealtime: boolean;
+  error: string | null;
+  pendingTaskIds: Set<string>;
+  refresh: () => Promise<void>;
+  runAction: (task: PrepTask, action: PrepTaskAction) => Promise<void>;
+}
+
+const parseInterval = () => {
+  const envValue = Number(process.env.NEXT_PUBLIC_KDS_POLL_INTERVAL_MS);
+  if (Number.isFinite(envValue) && envValue >= 1000) {
+    return envValue;
+  }
+  return 10000;
+};
+
+const POLLING_INTERVAL_MS = parseInterval();
+const RECALL_WINDOW_MS = 30 * 60 * 1000;
+
+export function useKitchenDisplay(): UseKitchenDisplayResult {
+  const { isRealtime } = useOrders();
+  const [tasks, setTasks] = useState<PrepTask[]>([]);
+  const [recentlyCompleted, setRecentlyCompleted] = useState<PrepTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingTaskIds, setPendingTaskIds] = useState<Set<string>>(new Set());
+  const pendingLoad = useRef<Promise<void> | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    if (pendingLoad.current) {
+      return pendingLoad.current;
+    }
+    pendingLoad.current = (async () => {
+      setIsLoading(true);
+      try {
+        const completedSince = new Date(Date.now() - RECALL_WINDOW_MS).toISOString();
+        const [active, completed] = await Promise.all([
+          fetchPrepQueue(KITCHEN_ACTIVE_STATUSES),
+          fetchPrepQueue('completed', { completedSince }),
+        ]);
+        setTasks(active);
+        setRecentlyCompleted(
+          [...completed].sort((a, b) => (b.completedAt ?? '').localeCompare(a.completedAt ?? ''))
+        );
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Error desconocido en la cola de producción');
+      } finally {
+        setIsLoading(false);
+        pendingLoad.current = null;
+      }
+    })();
+    return pendingLoad.current;
+  }, []);
+
+  useEffect(() => {
+    void loadQueue();
+    return subscribeToOrdersRealtime(() => void loadQueue());
+  }, [loadQueue]);
+
+  // Sin realtime (o sin red) la pantalla se refresca sola y al reconectar.
+  useEffect(() => {
+    const handleOnline = () => void loadQueue();
+    window.addEventListener('online', handleOnline);
+    if (isRealtime) {
+      return () => window.removeEventListener('online', handleOnline);
+    }
+    const timer = window.setInterval(() => void loadQueue(), POLLING_INTERVAL_MS);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.clearInterval(timer);
+    };
+  }, [isRealtime, loadQueue]);
+
+  const runAction = useCallback(
+    async (task: PrepTask, action: PrepTaskAction) => {
+      const nextStatus = resolvePrepTransition(task.status, action);
+      if (!nextStatus) {
+        return;
+      }
+      setPendingTaskIds((prev) => new Set(prev).add(task.id));
+      const optimistic = { ...task, status: nextStatus };
+      if (nextStatus === 'completed') {
+        setTasks((prev) => prev.filter((entry) => entry.id !== task.id));
+        setRecentlyCompleted((prev) => [
+          { ...optimistic, completedAt: new Date().toISOString() },
+          ...prev,
+        ]);
+      } else if (task.status === 'completed') {
+        setRecentlyCompleted((prev) => prev.filter((entry) => entry.id !== task.id));
+        setTasks((prev) => [...prev, { ...optimistic, completedAt: null }]);
+      } else {
+        setTasks((prev) => prev.map((entry) => (entry.id === task.id ? optimistic : entry)));
+      }
+      try {
+        await updatePrepTaskStatus(task.id, action);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'No pudimos actualizar la tarea');
+      } finally {
+        setPendingTaskIds((prev) => {
+          const next = new Set(prev);
+          next.delete(task.id);
+          return next;
+        });
+        void loadQueue();
+      }
+    },
+    [loadQueue]
+  );
+
+  return {
+    tasks,
+    recentlyCompleted,
+    isLoading,
+    isRealtime,
+    error,
+    pendingTaskIds,
+    refresh: loadQueue,
+    runAction,
+  };
+}
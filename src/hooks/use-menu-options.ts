@@ -32,6 +32,8 @@ import { useMemo, useCallback } from 'react';
 import { useCatalog } from '@/hooks/use-catalog';
 import type { CatalogProduct, ManualStockStatus } from '@/lib/api';
 import { FALLBACK_BEVERAGES } from '@/data/fallback-beverages';
+import { extractSizeOptions, resolveCatalogBasePrice, slugify } from '@/lib/order-pricing';
+import { extractModifierGroups, type ModifierGroup } from '@/lib/product-modifiers';
 
 export interface MenuItem {
   id: string;
@@ -44,6 +46,7 @@ export interface MenuItem {
   sizeId?: string | null;
   sizeLabel?: string | null;
   stockStatus?: ManualStockStatus;
+  modifierGroups?: ModifierGroup[];
 }
 
 const randomPackagePrice = () => {
@@ -56,14 +59,6 @@ const randomPackagePrice = () => {
 
 const normalize = (value?: string | null) => value?.trim().toLowerCase() ?? '';
 
-const slugify = (value: string) =>
-  value
-    .normalize('NFD')
-    .replace(/\p{Diacritic}/gu, '')
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-');
-
 const FALLBACK_PACKAGES: MenuItem[] = [
   {
     id: 'pkg-1-cafe-mexicano-panqué',
@@ -197,17 +192,6 @@ const FOOD_KEYWORDS = [
 ];
 const PACKAGE_KEYWORDS = ['paquete', 'paquetes', 'combo', 'kit', 'box', 'use', 'bundle', 'pack'];
 
-const parsePrice = (value: unknown): number | null => {
-  if (typeof value === 'number' && Number.isFinite(value)) {
-    return value;
-  }
-  if (typeof value === 'string') {
-    const parsed = Number.parseFloat(value);
-    return Number.isFinite(parsed) ? parsed : null;
-  }
-  return null;
-};
-
 const classifyProduct = (item: MenuItem) => {
   const haystack = `${normalize(item.category)} ${normalize(item.subcategory)} ${normalize(item.label)}`
     .normalize('NFD')
@@ -249,128 +233,14 @@ const dedupeMenuItems = (items: MenuItem[]): MenuItem[] => {
   return Array.from(map.values());
 };
 
-type SizeOption = {
-  id: string;
-  label: string;
-  price: number | null;
-};
-
-const coerceSizeOptions = (value: unknown): SizeOption[] => {
-  if (Array.isArray(value)) {
-    return value
-      .map((entry, index) => {
-        if (typeof entry === 'string') {
-          const sanitized = slugify(entry) || `size-${index}`;
-          return { id: sanitized, label: entry, price: null };
-        }
-        if (typeof entry === 'number') {
-          return { id: `size-${index}`, label: `Opción ${index + 1}`, price: entry };
-        }
-        if (entry && typeof entry === 'object') {
-          const raw = entry as Record<string, unknown>;
-          const sourceId =
-            (typeof raw.id === 'string' && raw.id) ||
-            (typeof raw.value === 'string' && raw.value) ||
-            (typeof raw.sizeId === 'string' && raw.sizeId) ||
-            (typeof raw.size === 'string' && raw.size) ||
-            null;
-          const rawLabel =
-            (typeof raw.label === 'string' && raw.label) ||
-            (typeof raw.name === 'string' && raw.name) ||
-            (typeof raw.size === 'string' && raw.size) ||
-            sourceId;
-          const price = parsePrice(raw.price ?? raw.amount ?? raw.value ?? raw.cost ?? null);
-          return {
-            id: (sourceId && slugify(sourceId)) || `size-${index}`,
-            label: rawLabel ?? `Opción ${index + 1}`,
-            price: price ?? null,
-          };
-        }
-        return null;
-      })
-      .filter((option): option is SizeOption => Boolean(option && option.id && option.label));
-  }
-
-  if (value && typeof value === 'object') {
-    return Object.entries(value as Record<string, unknown>)
-      .map(([key, raw], index) => {
-        if (typeof raw === 'number' || typeof raw === 'string') {
-          const price = parsePrice(raw);
-          return {
-            id: slugify(key) || `size-${index}`,
-            label: key,
-            price: price ?? null,
-          };
-        }
-        if (raw && typeof raw === 'object') {
-          const nested = raw as Record<string, unknown>;
-          const label =
-            (typeof nested.label === 'string' && nested.label) ||
-            (typeof nested.name === 'string' && nested.name) ||
-            key;
-          const id =
-            (typeof nested.id === 'string' && nested.id) ||
-            (typeof nested.sizeId === 'string' && nested.sizeId) ||
-            (typeof nested.value === 'string' && nested.value) ||
-            key;
-          const price = parsePrice(nested.price ?? nested.amount ?? nested.value ?? nested.cost ?? null);
-          return {
-            id: slugify(id) || `size-${index}`,
-            label,
-            price: price ?? null,
-          };
-        }
-        return null;
-      })
-      .filter((option): option is SizeOption => Boolean(option && option.id && option.label));
-  }
-
-  return [];
-};
-
-const extractSizeOptions = (product: CatalogProduct): SizeOption[] => {
-  const metadata =
-    product.metadata && typeof product.metadata === 'object'
-      ? (product.metadata as Record<string, unknown>)
-      : null;
-  const productRecord = product as unknown as Record<string, unknown>;
-  const sources: unknown[] = [product.availableSizes, productRecord['available_sizes']];
-  if (metadata) {
-    sources.push(
-      metadata['availableSizes'],
-      metadata['available_sizes'],
-      metadata['sizes'],
-      metadata['sizeOptions'],
-      metadata['variants']
-    );
-  }
-
-  const all = sources
-    .filter((source) => source !== undefined && source !== null)
-    .flatMap((source) => coerceSizeOptions(source));
-
-  const unique = new Map<string, SizeOption>();
-  all.forEach((option, index) => {
-    const key = option.id || `size-${index}`;
-    if (!unique.has(key)) {
-      unique.set(key, option);
-    }
-  });
-  return Array.from(unique.values());
-};
-
 const buildVariantLabel = (baseLabel: string, sizeLabel?: string | null) =>
   sizeLabel ? `${baseLabel} · ${sizeLabel}` : baseLabel;
 
 const mapProductToMenuItems = (product: CatalogProduct): MenuItem[] => {
   const baseId = product.productId?.trim() || product.id;
   const label = product.name?.trim() || baseId;
-  const price =
-    parsePrice(product.price) ??
-    parsePrice(product.cost) ??
-    (product.totalRevenue && product.totalSales
-      ? Number(product.totalRevenue) / Number(product.totalSales || 1)
-      : null);
+  const price = resolveCatalogBasePrice(product);
+  const modifierGroups = extractModifierGroups(product);
 
   const baseItem = {
     productId: baseId,
@@ -378,6 +248,7 @@ const mapProductToMenuItems = (product: CatalogProduct): MenuItem[] => {
     category: product.category ?? null,
     subcategory: product.subcategory ?? null,
     calories: null,
+    modifierGroups: modifierGroups.length ? modifierGroups : undefined,
   };
 
   const sizeOptions = extractSizeOptions(product);
@@ -416,11 +287,22 @@ export function useMenuOptions() {
 
   const menuItems = useMemo(() => {
     const products = catalog?.products ?? [];
-    const entries = products.flatMap(mapProductToMenuItems);
+    const entries = products
+      .filter((product) => product.isActive !== false)
+      .flatMap(mapProductToMenuItems);
     const deduped = dedupeMenuItems(entries);
-    const existingVariantKeys = new Set(deduped.map((item) => buildVariantKey(item)));
+    // Los productos desactivados también bloquean su respaldo local para no reaparecer.
+    const retiredEntries = products
+      .filter((product) => product.isActive === false)
+      .flatMap(mapProductToMenuItems);
+    const retiredProductIds = new Set(retiredEntries.map((item) => normalize(item.productId)));
+    const existingVariantKeys = new Set(
+      [...deduped, ...retiredEntries].map((item) => buildVariantKey(item))
+    );
     const fallbackBeverages = FALLBACK_VARIANT_ENTRIES.filter(
-      (item) => !existingVariantKeys.has(buildVariantKey(item))
+      (item) =>
+        !existingVariantKeys.has(buildVariantKey(item)) &&
+        !retiredProductIds.has(normalize(item.productId))
     );
     const augmented = [...deduped, ...fallbackBeverages];
 
@@ -447,7 +329,9 @@ export function useMenuOptions() {
       return true;
     });
 
-    const seenLabels = new Set(normalizedVariants.map((item) => normalize(item.label)));
+    const seenLabels = new Set(
+      [...normalizedVariants, ...retiredEntries].map((item) => normalize(item.label))
+    );
     const fallbackPackages = FALLBACK_PACKAGES.filter(
       (pkg) => !seenLabels.has(normalize(pkg.label))
     );
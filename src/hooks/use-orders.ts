@@ -38,6 +38,7 @@ interface UseOrdersResult {
   orders: Order[];
   isLoading: boolean;
   error: string | null;
+  isRealtime: boolean;
   refresh: () => Promise<void>;
 }
 
@@ -46,15 +47,18 @@ type OrdersState = {
   isLoading: boolean;
   error: string | null;
   hasLoaded: boolean;
+  isRealtime: boolean;
 };
 
 const listeners = new Set<() => void>();
+const realtimeListeners = new Set<() => void>();
 
 let state: OrdersState = {
   orders: [],
   isLoading: false,
   error: null,
   hasLoaded: false,
+  isRealtime: false,
 };
 
 const emit = () => {
@@ -152,6 +156,7 @@ const ensureRealtimeSubscription = () => {
   }
   const triggerRefresh = () => {
     void loadOrders();
+    realtimeListeners.forEach((listener) => listener());
   };
   const channel = client
     .channel('pos-orders-realtime')
@@ -161,19 +166,34 @@ const ensureRealtimeSubscription = () => {
   channel.subscribe((status) => {
     if (status === 'SUBSCRIBED') {
       stopLocalPolling();
+      updateState({ isRealtime: true });
       unsubscribeRealtime = () => {
         client.removeChannel(channel);
         unsubscribeRealtime = null;
+        updateState({ isRealtime: false });
         startLocalPolling();
       };
     } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
       client.removeChannel(channel);
       unsubscribeRealtime = null;
+      updateState({ isRealtime: false });
       startLocalPolling();
     }
   });
 };
 
+/**
+ * Permite a otras vistas (p. ej. la pantalla de cocina) reaccionar a los mismos
+ * eventos de `orders` y `prep_queue` sin abrir un segundo canal.
+ */
+export const subscribeToOrdersRealtime = (listener: () => void) => {
+  realtimeListeners.add(listener);
+  ensureRealtimeSubscription();
+  return () => {
+    realtimeListeners.delete(listener);
+  };
+};
+
 const getSnapshot = () => state;
 
 export function useOrders(): UseOrdersResult {
@@ -192,6 +212,7 @@ export function useOrders(): UseOrdersResult {
     orders: snapshot.orders,
     isLoading: snapshot.isLoading,
     error: snapshot.error,
+    isRealtime: snapshot.isRealtime,
     refresh,
   };
 }
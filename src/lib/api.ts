@@ -26,8 +26,44 @@
  * --------------------------------------------------------------------
  */
 
-export type OrderStatus = 'pending' | 'completed' | 'past';
-export type ReservationStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
+import type { OrderRefundEntry, OrderRefundSummary } from '@/lib/order-refunds';
+import type {
+  CashDenominationCount,
+  CashMovement,
+  CashMovementType,
+  CashShiftSummary,
+  CashZReport,
+} from '@/lib/cash-shift';
+import type { PaymentTender } from '@/lib/payment-tenders';
+import type { DeliveryDispatchAction, DeliveryStage } from '@/lib/delivery-dispatch';
+import type {
+  CustomerLoyaltyProgram,
+  LoyaltyEarningRule,
+  LoyaltyLedgerEntry,
+  LoyaltyProgram,
+  LoyaltyResetPeriod,
+  LoyaltyReward,
+} from '@/lib/loyalty-programs';
+import type {
+  CustomerAccount,
+  CustomerAccountInput,
+  CustomerAddressInput,
+  CustomerMergeSummary,
+} from '@/lib/customer-accounts';
+import type { DecryptedAddressPayload } from '@/lib/address-decrypt';
+import type { AnonymizationResult } from '@/lib/customer-privacy';
+import type {
+  CampaignAudienceFilter,
+  CampaignSendResult,
+  MarketingCampaign,
+  MarketingCampaignInput,
+} from '@/lib/marketing-campaigns';
+import type { OrderPromoDiscount } from '@/lib/promo-codes';
+import type { PrepTaskAction } from '@/lib/prep-status';
+import type { OrderItemModifier } from '@/lib/product-modifiers';
+
+export type OrderStatus = 'pending' | 'completed' | 'past' | 'voided' | 'refunded';
+export type ReservationStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no_show';
 
 export interface OrderUserInfo {
   firstNameEncrypted?: string | null;
@@ -82,6 +118,8 @@ export interface OrderItemSummary {
   variantId?: string | null;
   packageId?: string | null;
   packageName?: string | null;
+  refundedQuantity?: number | null;
+  modifiers?: OrderItemModifier[] | null;
   metadata?: Record<string, unknown> | null;
 }
 
@@ -148,12 +186,49 @@ export interface Reservation {
   branchNumber?: string | null;
   message?: string | null;
   preOrderItems?: string | null;
+  linkedOrderId?: string | null;
+  sourceType?: 'pos' | 'cliente' | string | null;
+  depositRequired?: boolean | null;
+  depositAmount?: number | null;
   status?: ReservationStatus | string | null;
   createdAt?: string | null;
   updatedAt?: string | null;
   isHidden?: boolean;
 }
 
+export interface ReservationInput {
+  customerId: string;
+  peopleCount: number;
+  reservationDate: string;
+  reservationTime: string;
+  message?: string | null;
+  preOrderItems?: string | null;
+}
+
+export type ReservationUpdate = Partial<Omit<ReservationInput, 'customerId'>>;
+
+export type SavedReservation = Reservation & { emailSent: boolean };
+
+export interface CustomerNoShowSummary {
+  userId: string;
+  count: number;
+  limit: number | null;
+  action: 'deposit' | 'block' | null;
+  depositAmount: number | null;
+  override: boolean;
+  blocked: boolean;
+  depositRequired: boolean;
+  history: Array<{
+    reservationId: string;
+    reservationCode: string | null;
+    reservationDate: string;
+    reservationTime: string;
+    branchId: string;
+    peopleCount: number;
+    archivedAt: string;
+  }>;
+}
+
 export interface PrepOrder {
   id?: string | null;
   orderNumber?: string | null;
@@ -187,6 +262,7 @@ export interface PrepOrderItem {
   productId?: string | null;
   quantity?: number | null;
   price?: number | null;
+  modifiers?: OrderItemModifier[] | null;
   createdAt?: string | null;
 }
 
@@ -197,7 +273,7 @@ export interface PrepProduct {
   subcategory?: string | null;
 }
 
-export type PrepStatus = 'pending' | 'in_progress' | 'completed' | string;
+export type PrepStatus = 'pending' | 'in_progress' | 'ready' | 'completed' | string;
 
 export interface PrepTask {
   id: string;
@@ -251,6 +327,7 @@ export interface LoyaltyCustomer {
   loyaltyCoffees?: number | null;
   rewardEarned?: boolean | null;
   weeklyCoffeeCount?: number | null;
+  loyaltyPrograms?: CustomerLoyaltyProgram[];
 }
 
 export interface LoyaltyStats {
@@ -319,6 +396,7 @@ export interface PaymentRecord {
   status?: string | null;
   tipAmount?: number | null;
   tipPercent?: number | null;
+  externalPaymentId?: string | null;
   createdAt?: string | null;
   updatedAt?: string | null;
   order?: Order | null;
@@ -334,6 +412,14 @@ export interface PaymentStatusBreakdown {
   count: number;
 }
 
+export interface SplitPaymentSummary {
+  orderId: string;
+  orderNumber?: string | null;
+  total: number;
+  createdAt?: string | null;
+  tenders: Array<{ method: string; amount: number; reference?: string | null }>;
+}
+
 export interface ReportRequest {
   id: string;
   scope?: string | null;
@@ -355,6 +441,7 @@ export interface PaymentsDashboard {
   payments: PaymentRecord[];
   methodBreakdown: PaymentMethodBreakdown[];
   statusBreakdown: PaymentStatusBreakdown[];
+  splitPayments?: SplitPaymentSummary[];
   pendingReports: ReportRequest[];
 }
 
@@ -444,6 +531,7 @@ export interface CatalogProduct {
   updatedAt?: string | null;
   availableSizes?: unknown;
   available_sizes?: unknown;
+  modifierGroups?: unknown;
   metadata?: Record<string, unknown> | null;
 }
 
@@ -465,6 +553,18 @@ export interface PosSettings {
   charge_tax?: boolean | string | null;
   footer?: string | null;
   img?: string | null;
+  // Datos del emisor para CFDI 4.0.
+  rfc?: string | null;
+  legal_name?: string | null;
+  fiscal_regime?: string | null;
+  expedition_postal_code?: string | null;
+  invoice_series?: string | null;
+  global_invoice_series?: string | null;
+  certificate_number?: string | null;
+  // Reglas de inasistencia a reservaciones.
+  no_show_limit?: number | null;
+  no_show_action?: 'deposit' | 'block' | null;
+  no_show_deposit?: number | null;
   updatedAt?: string | null;
 }
 
@@ -491,6 +591,7 @@ export interface TransactionHistoryEntry {
   } | null;
   total: number;
   tip: number;
+  refundedAmount?: number | null;
   status?: string | null;
   createdAt?: string | null;
 }
@@ -544,6 +645,7 @@ export interface PartnerMetrics {
   };
   reports: ReportRequest[];
   advanced: PartnerAdvancedMetrics;
+  supplierSpend?: SupplierSpend[];
   availableMonths?: Array<{ month: string; label: string }>;
   selectedMonth?: string | null;
 }
@@ -637,6 +739,17 @@ export interface AdvancedMetricsPayload {
   sections: Record<AdvancedMetricsSectionId, AdvancedMetricsSection>;
   forecasts: ForecastPayload;
   marketing: MarketingInsights;
+  branchId?: string | null;
+  branchComparison?: BranchComparisonRow[];
+}
+
+export interface BranchComparisonRow {
+  branchId: string;
+  branchName: string;
+  orders: number;
+  completedOrders: number;
+  revenue: number;
+  averageTicket: number;
 }
 
 export type HygieneArea = 'BAÑO' | 'COCINA' | 'BARRA' | 'MESAS';
@@ -706,10 +819,23 @@ export interface SmartInventoryEntry {
   percentAvailable: number;
 }
 
+export interface ExpiringInventoryBatch {
+  batchId: string;
+  itemId: string;
+  name: string;
+  unit: string;
+  branchId: string;
+  quantity: number;
+  expiresAt: string;
+  reference: string | null;
+  isExpired: boolean;
+}
+
 export interface SmartInventoryStatus {
   entries: SmartInventoryEntry[];
   lowStock: SmartInventoryEntry[];
   zeroStock: SmartInventoryEntry[];
+  expiring?: ExpiringInventoryBatch[];
 }
 
 export type SmartInventoryActionRequest =
@@ -718,6 +844,7 @@ export type SmartInventoryActionRequest =
       itemId: string;
       quantity: number;
       unitSize: number;
+      unitCost?: number;
       branchId?: string;
       expiresAt?: string;
       reference?: string;
@@ -727,7 +854,29 @@ export type SmartInventoryActionRequest =
       action: 'sale';
       branchId?: string;
       staffId?: string;
-      saleItems: Array<{ productId: string; quantity: number }>;
+      saleItems: Array<{
+        productId: string;
+        sizeId?: string | null;
+        quantity: number;
+        modifiers?: OrderItemModifier[] | null;
+      }>;
+    }
+  | {
+      action: 'return';
+      branchId?: string;
+      staffId?: string;
+      reference?: string;
+      returnItems: Array<{
+        productId: string;
+        sizeId?: string | null;
+        quantity: number;
+        modifiers?: OrderItemModifier[] | null;
+      }>;
+    }
+  | {
+      action: 'discard';
+      batchId: string;
+      staffId?: string;
     }
   | {
       action: 'status';
@@ -846,8 +995,14 @@ export async function fetchReservationDetail(identifier: string): Promise<Reserv
   return payload.data ?? null;
 }
 
-export async function fetchPrepQueue(status?: PrepStatus): Promise<PrepTask[]> {
-  const url = buildApiUrl('/api/prep-queue', status ? { status } : undefined);
+export async function fetchPrepQueue(
+  status?: PrepStatus | PrepStatus[],
+  options?: { completedSince?: string }
+): Promise<PrepTask[]> {
+  const url = buildApiUrl('/api/prep-queue', {
+    status: Array.isArray(status) ? status.join(',') : status,
+    completedSince: options?.completedSince,
+  });
 
   const response = await fetch(url, { cache: 'no-store', keepalive: true });
 
@@ -867,16 +1022,13 @@ export async function fetchPrepQueue(status?: PrepStatus): Promise<PrepTask[]> {
 export async function enqueueOrder(
   orderId: string,
   params?: {
-    staffId?: string | null;
-    staffName?: string | null;
     paymentMethod?: string | null;
     paymentReference?: string | null;
     cashTendered?: number | null;
     cashChange?: number | null;
+    payments?: PaymentTender[] | null;
   }
 ): Promise<void> {
-  const staffId = params?.staffId?.trim() ? params.staffId.trim() : null;
-  const staffName = params?.staffName?.trim() ? params.staffName.trim() : null;
   const paymentMethod = params?.paymentMethod?.trim() ? params.paymentMethod.trim() : null;
   const paymentReference = params?.paymentReference?.trim() ? params.paymentReference.trim() : null;
   const cashTendered =
@@ -887,54 +1039,35 @@ export async function enqueueOrder(
     typeof params?.cashChange === 'number' && Number.isFinite(params.cashChange)
       ? params.cashChange
       : null;
-  const url = buildApiUrl(`/api/orders/${orderId}/queue`, staffId ? { staffId } : undefined);
-  const headers: Record<string, string> = {};
-  if (staffId) {
-    headers['Content-Type'] = 'application/json';
-    headers['X-XOCO-Staff-Id'] = staffId;
-  }
-  if (staffName) {
-    headers['X-XOCO-Staff-Name'] = staffName;
-  }
-  if (paymentMethod) {
-    headers['X-XOCO-Payment-Method'] = paymentMethod;
-  }
-  if (paymentReference) {
-    headers['X-XOCO-Payment-Reference'] = paymentReference;
-  }
+  const url = buildApiUrl(`/api/orders/${orderId}/queue`);
   const payload: Record<string, unknown> = {};
-  if (staffId) {
-    payload.staffId = staffId;
-  }
   if (paymentReference) {
     payload.paymentReference = paymentReference;
   }
   if (paymentMethod) {
     payload.paymentMethod = paymentMethod;
   }
-  if (staffName) {
-    payload.staffName = staffName;
-  }
   if (cashTendered !== null) {
     payload.cashTendered = cashTendered;
   }
   if (cashChange !== null) {
     payload.cashChange = cashChange;
   }
-
-  const finalHeaders = { ...headers };
-  if (Object.keys(payload).length) {
-    finalHeaders['Content-Type'] = 'application/json';
+  if (params?.payments?.length) {
+    payload.payments = params.payments;
   }
+
+  const hasPayload = Object.keys(payload).length > 0;
   const response = await fetch(url, {
     method: 'POST',
     keepalive: true,
-    headers: Object.keys(finalHeaders).length ? finalHeaders : undefined,
-    body: Object.keys(payload).length ? JSON.stringify(payload) : undefined,
+    headers: hasPayload ? { 'Content-Type': 'application/json' } : undefined,
+    body: hasPayload ? JSON.stringify(payload) : undefined,
   });
 
   if (!response.ok) {
-    throw new Error('No pudimos mover el pedido a la cola de producción');
+    const errorPayload = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(errorPayload?.error ?? 'No pudimos mover el pedido a la cola de producción');
   }
 }
 
@@ -947,6 +1080,78 @@ export async function completeOrder(orderId: string): Promise<void> {
   }
 }
 
+export type OrderReversalResponse = {
+  orderId: string;
+  status: string;
+  refund: OrderRefundSummary;
+  entry: OrderRefundEntry;
+  warnings: string[];
+};
+
+const postOrderReversal = async (
+  orderId: string,
+  action: 'void' | 'refund',
+  payload: Record<string, unknown>,
+  fallbackMessage: string
+): Promise<OrderReversalResponse> => {
+  const url = buildApiUrl(`/api/orders/${encodeURIComponent(orderId)}/${action}`);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+    body: JSON.stringify(payload),
+  });
+  const result = (await response.json().catch(() => null)) as {
+    success?: boolean;
+    data?: OrderReversalResponse;
+    error?: string;
+  } | null;
+  if (!response.ok || !result?.success || !result.data) {
+    throw new Error(result?.error ?? fallbackMessage);
+  }
+  return result.data;
+};
+
+export async function voidOrder(
+  orderId: string,
+  payload: { reason: string }
+): Promise<OrderReversalResponse> {
+  return postOrderReversal(orderId, 'void', payload, 'No pudimos cancelar el pedido');
+}
+
+export async function refundOrder(
+  orderId: string,
+  payload: {
+    reason: string;
+    lines?: Array<{ lineIndex: number; quantity: number }> | null;
+  }
+): Promise<OrderReversalResponse> {
+  return postOrderReversal(orderId, 'refund', payload, 'No pudimos reembolsar el pedido');
+}
+
+export async function previewPromoCode(payload: {
+  code: string;
+  userId?: string | null;
+  items: Array<{ productId: string; category?: string | null; price: number; quantity: number }>;
+}): Promise<OrderPromoDiscount> {
+  const url = buildApiUrl('/api/promotions/check');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+    body: JSON.stringify(payload),
+  });
+  const result = (await response.json().catch(() => null)) as {
+    success?: boolean;
+    data?: OrderPromoDiscount;
+    error?: string;
+  } | null;
+  if (!response.ok || !result?.success || !result.data) {
+    throw new Error(result?.error ?? 'No pudimos validar el código promocional');
+  }
+  return result.data;
+}
+
 export async function updateCustomerPreferences(
   identifier: string,
   payload: { beverage?: string | null; food?: string | null }
@@ -1015,6 +1220,60 @@ export async function cancelReservation(reservationId: string): Promise<void> {
   await updateReservationStatus(reservationId, 'cancelled');
 }
 
+export async function createReservation(input: ReservationInput): Promise<SavedReservation> {
+  return requestStaffApi<SavedReservation>(
+    '/api/reservations',
+    'POST',
+    { ...input },
+    'No pudimos registrar la reservación'
+  );
+}
+
+export async function updateReservation(
+  reservationId: string,
+  changes: ReservationUpdate
+): Promise<SavedReservation> {
+  return requestStaffApi<SavedReservation>(
+    `/api/reservations/${encodeURIComponent(reservationId)}`,
+    'PATCH',
+    { ...changes },
+    'No pudimos modificar la reservación'
+  );
+}
+
+export async function registerReservationArrival(
+  reservationId: string,
+  orderId: string
+): Promise<{ id: string; status: string; linkedOrderId: string }> {
+  return requestStaffApi(
+    `/api/reservations/${encodeURIComponent(reservationId)}/arrival`,
+    'POST',
+    { orderId },
+    'No pudimos ligar el pedido a la reservación'
+  );
+}
+
+export async function fetchCustomerNoShows(identifier: string): Promise<CustomerNoShowSummary> {
+  return requestStaffApi<CustomerNoShowSummary>(
+    `/api/customers/${encodeURIComponent(identifier)}/no-shows`,
+    'GET',
+    null,
+    'No pudimos cargar las inasistencias del cliente'
+  );
+}
+
+export async function updateCustomerNoShowOverride(
+  identifier: string,
+  override: boolean
+): Promise<CustomerNoShowSummary> {
+  return requestStaffApi<CustomerNoShowSummary>(
+    `/api/customers/${encodeURIComponent(identifier)}/no-shows`,
+    'PATCH',
+    { override },
+    'No pudimos actualizar la excepción del cliente'
+  );
+}
+
 export async function fetchTicketDetail(identifier: string): Promise<TicketDetail> {
   const url = buildApiUrl(`/api/orders/ticket/${encodeURIComponent(identifier)}`);
   const response = await fetch(url, { cache: 'no-store', keepalive: true });
@@ -1040,6 +1299,28 @@ export async function completePrepTask(taskId: string): Promise<void> {
   }
 }
 
+export async function updatePrepTaskStatus(
+  taskId: string,
+  action: PrepTaskAction
+): Promise<Pick<PrepTask, 'id' | 'status' | 'handledByStaffId' | 'updatedAt' | 'completedAt'>> {
+  const url = buildApiUrl(`/api/prep-queue/${encodeURIComponent(taskId)}/status`);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    cache: 'no-store',
+    body: JSON.stringify({ action }),
+  });
+  const result = (await response.json().catch(() => null)) as {
+    success?: boolean;
+    data?: Pick<PrepTask, 'id' | 'status' | 'handledByStaffId' | 'updatedAt' | 'completedAt'>;
+    error?: string;
+  } | null;
+  if (!response.ok || !result?.success || !result.data) {
+    throw new Error(result?.error ?? 'No pudimos actualizar la tarea de preparación');
+  }
+  return result.data;
+}
+
 export async function fetchInventoryDashboard(): Promise<InventoryDashboard> {
   const url = buildApiUrl('/api/inventory-dashboard');
   const response = await fetch(url, { cache: 'no-store', keepalive: true });
@@ -1099,6 +1380,84 @@ export async function fetchPaymentsDashboard(): Promise<PaymentsDashboard> {
   return payload.data;
 }
 
+export interface CashRegisterOverview {
+  activeShift: CashShiftSummary | null;
+  closings: CashShiftSummary[];
+}
+
+const requestCashRegister = async <T>(
+  init: RequestInit | null,
+  fallbackMessage: string,
+  query = ''
+): Promise<T> => {
+  const url = buildApiUrl(`/api/cash-register${query}`);
+  const response = await fetch(url, {
+    cache: 'no-store',
+    keepalive: true,
+    ...(init ?? {}),
+  });
+  const payload = (await response.json().catch(() => null)) as {
+    success?: boolean;
+    data?: T;
+    error?: string;
+  } | null;
+  if (!response.ok || !payload?.success || payload.data === undefined) {
+    throw new Error(payload?.error ?? fallbackMessage);
+  }
+  return payload.data;
+};
+
+const postCashRegister = <T>(body: Record<string, unknown>, fallbackMessage: string) =>
+  requestCashRegister<T>(
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    },
+    fallbackMessage
+  );
+
+export async function fetchCashRegisterOverview(): Promise<CashRegisterOverview> {
+  return requestCashRegister<CashRegisterOverview>(null, 'No pudimos cargar los turnos de caja');
+}
+
+export async function fetchCashZReport(turnoId: number): Promise<CashZReport> {
+  return requestCashRegister<CashZReport>(
+    null,
+    'No pudimos generar el reporte Z',
+    `?turnoId=${encodeURIComponent(String(turnoId))}`
+  );
+}
+
+export async function openCashShift(saldoInicial: number): Promise<CashShiftSummary> {
+  return postCashRegister<CashShiftSummary>(
+    { action: 'open', saldoInicial },
+    'No pudimos abrir el turno de caja'
+  );
+}
+
+export async function registerCashMovement(payload: {
+  tipo: CashMovementType;
+  monto: number;
+  motivo: string;
+  turnoId?: number;
+}): Promise<CashMovement> {
+  return postCashRegister<CashMovement>(
+    { action: 'expense', ...payload },
+    'No pudimos registrar el movimiento de caja'
+  );
+}
+
+export async function closeCashShift(payload: {
+  conteo: CashDenominationCount;
+  turnoId?: number;
+}): Promise<{
+  result: { turnoId: number; saldoEsperado: number; montoFisico: number; diferencia: number; estado: string };
+  report: CashZReport;
+}> {
+  return postCashRegister({ action: 'close', ...payload }, 'No pudimos cerrar el turno de caja');
+}
+
 export async function fetchStaffDashboard(): Promise<StaffDashboard> {
   const url = buildApiUrl('/api/staff-dashboard');
   const response = await fetch(url, { cache: 'no-store', keepalive: true });
@@ -1168,6 +1527,136 @@ export async function fetchDeliveryStatuses(
   return payload.data;
 }
 
+export interface DeliveryDispatchRecord {
+  id: string;
+  orderId: string;
+  branchId?: string | null;
+  status: DeliveryStage;
+  courierStaffId?: string | null;
+  courierName?: string | null;
+  readyAt?: string | null;
+  assignedAt?: string | null;
+  outForDeliveryAt?: string | null;
+  deliveredAt?: string | null;
+  notifiedAt?: string | null;
+  updatedAt?: string | null;
+  emailSent?: boolean;
+}
+
+export interface DeliveryCourier {
+  staffId: string;
+  name: string;
+  role?: string | null;
+  branchId?: string | null;
+  paused: boolean;
+  note?: string | null;
+}
+
+export interface DeliveryDispatchBoard {
+  dispatches: DeliveryDispatchRecord[];
+  couriers: DeliveryCourier[];
+}
+
+export async function fetchDeliveryDispatchBoard(): Promise<DeliveryDispatchBoard> {
+  return requestStaffApi<DeliveryDispatchBoard>(
+    '/api/staff/delivery-dispatch',
+    'GET',
+    null,
+    'No pudimos obtener el tablero de reparto.'
+  );
+}
+
+export async function updateDeliveryDispatch(payload: {
+  orderId: string;
+  action: DeliveryDispatchAction;
+  courierStaffId?: string | null;
+}): Promise<DeliveryDispatchRecord> {
+  return requestStaffApi<DeliveryDispatchRecord>(
+    '/api/staff/delivery-dispatch',
+    'POST',
+    payload,
+    'No pudimos actualizar el reparto.'
+  );
+}
+
+export type LoyaltyProgramInput = {
+  id?: string;
+  name: string;
+  description?: string | null;
+  isActive: boolean;
+  resetPeriod: LoyaltyResetPeriod;
+  stampsTarget: number;
+  rules: LoyaltyEarningRule[];
+  rewards: Array<Omit<LoyaltyReward, 'id'> & { id?: string }>;
+  startsAt?: string | null;
+  endsAt?: string | null;
+};
+
+export interface LoyaltyRedemptionResult {
+  reward: LoyaltyReward;
+  program: CustomerLoyaltyProgram;
+}
+
+export async function fetchLoyaltyPrograms(): Promise<LoyaltyProgram[]> {
+  return requestStaffApi<LoyaltyProgram[]>(
+    '/api/loyalty/programs',
+    'GET',
+    null,
+    'No pudimos cargar los programas de lealtad.'
+  );
+}
+
+export async function saveLoyaltyProgram(payload: LoyaltyProgramInput): Promise<LoyaltyProgram> {
+  return requestStaffApi<LoyaltyProgram>(
+    '/api/loyalty/programs',
+    'POST',
+    payload,
+    'No pudimos guardar el programa de lealtad.'
+  );
+}
+
+export async function redeemLoyaltyReward(payload: {
+  userId: string;
+  programId: string;
+  rewardId?: string | null;
+}): Promise<LoyaltyRedemptionResult> {
+  return requestStaffApi<LoyaltyRedemptionResult>(
+    '/api/loyalty/redeem',
+    'POST',
+    payload,
+    'No pudimos canjear la recompensa.'
+  );
+}
+
+export interface LoyaltyLedgerHistory {
+  entries: LoyaltyLedgerEntry[];
+  balances: Record<string, number>;
+}
+
+export async function fetchLoyaltyLedger(userId: string): Promise<LoyaltyLedgerHistory> {
+  return requestStaffApi<LoyaltyLedgerHistory>(
+    `/api/loyalty/ledger?userId=${encodeURIComponent(userId)}`,
+    'GET',
+    null,
+    'No pudimos cargar el historial de lealtad.'
+  );
+}
+
+export async function adjustLoyaltyBalance(payload: {
+  userId: string;
+  programId: string;
+  points: number;
+  stamps: number;
+  reason: string;
+}): Promise<LoyaltyLedgerEntry> {
+  return requestStaffApi<LoyaltyLedgerEntry>(
+    '/api/loyalty/ledger',
+    'POST',
+    payload,
+    'No pudimos registrar el ajuste.'
+  );
+}
+
 export async function fetchCatalog(): Promise<CatalogPayload> {
   const url = buildApiUrl('/api/catalog');
   const response = await fetch(url, { cache: 'no-store', keepalive: true });
@@ -1185,6 +1674,1002 @@ export async function fetchCatalog(): Promise<CatalogPayload> {
   return payload.data;
 }
 
+export type CatalogSizeInput = {
+  id?: string | null;
+  label: string;
+  price?: number | null;
+};
+
+export type CatalogProductInput = {
+  productId?: string | null;
+  name: string;
+  category: string;
+  subcategory?: string | null;
+  price: number;
+  cost?: number | null;
+  isActive?: boolean;
+  sizes?: CatalogSizeInput[];
+  modifierGroups?: Array<Record<string, unknown>>;
+};
+
+export type CatalogProductUpdate = Partial<
+  Pick<
+    CatalogProductInput,
+    'name' | 'category' | 'subcategory' | 'price' | 'cost' | 'isActive' | 'modifierGroups'
+  >
+>;
+
+export type PriceChangeStatus = 'scheduled' | 'applied' | 'cancelled';
+
+export interface ProductPriceChange {
+  id: string;
+  productId: string;
+  sizeId?: string | null;
+  price: number;
+  effectiveAt: string;
+  status: PriceChangeStatus;
+  createdByStaffId?: string | null;
+  appliedAt?: string | null;
+  createdAt?: string | null;
+}
+
+const requestStaffApi = async <T>(
+  path: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  body: Record<string, unknown> | null,
+  fallbackMessage: string
+): Promise<T> => {
+  const url = buildApiUrl(path);
+  const response = await fetch(url, {
+    method,
+    cache: 'no-store',
+    ...(body
+      ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+      : {}),
+  });
+  const payload = (await response.json().catch(() => null)) as {
+    success?: boolean;
+    data?: T;
+    error?: string;
+  } | null;
+  if (!response.ok || !payload?.success || payload.data === undefined) {
+    throw new Error(payload?.error ?? fallbackMessage);
+  }
+  return payload.data;
+};
+
+const requestCatalogAdmin = <T>(
+  path: string,
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE',
+  body: Record<string, unknown> | null,
+  fallbackMessage: string
+) => requestStaffApi<T>(`/api/catalog${path}`, method, body, fallbackMessage);
+
+const catalogProductPath = (productId: string) => `/products/${encodeURIComponent(productId)}`;
+
+export async function createCatalogProduct(payload: CatalogProductInput): Promise<CatalogProduct> {
+  return requestCatalogAdmin('/products', 'POST', payload, 'No pudimos crear el producto');
+}
+
+export async function updateCatalogProduct(
+  productId: string,
+  payload: CatalogProductUpdate
+): Promise<CatalogProduct> {
+  return requestCatalogAdmin(
+    catalogProductPath(productId),
+    'PATCH',
+    payload,
+    'No pudimos actualizar el producto'
+  );
+}
+
+export async function deactivateCatalogProduct(productId: string): Promise<CatalogProduct> {
+  return requestCatalogAdmin(
+    catalogProductPath(productId),
+    'DELETE',
+    null,
+    'No pudimos desactivar el producto'
+  );
+}
+
+export async function upsertCatalogSize(
+  productId: string,
+  size: CatalogSizeInput
+): Promise<CatalogProduct> {
+  return requestCatalogAdmin(
+    `${catalogProductPath(productId)}/sizes`,
+    'POST',
+    size,
+    'No pudimos guardar el tamaño'
+  );
+}
+
+export async function deleteCatalogSize(productId: string, sizeId: string): Promise<CatalogProduct> {
+  return requestCatalogAdmin(
+    `${catalogProductPath(productId)}/sizes`,
+    'DELETE',
+    { sizeId },
+    'No pudimos eliminar el tamaño'
+  );
+}
+
+export async function renameCatalogCategory(
+  from: string,
+  to: string
+): Promise<{ name: string; products: number }> {
+  return requestCatalogAdmin(
+    '/categories',
+    'PATCH',
+    { from, to },
+    'No pudimos renombrar la categoría'
+  );
+}
+
+export async function deleteCatalogCategory(
+  name: string,
+  reassignTo?: string | null
+): Promise<{ name: string; reassignTo: string | null; products: number }> {
+  return requestCatalogAdmin(
+    '/categories',
+    'DELETE',
+    { name, reassignTo: reassignTo ?? null },
+    'No pudimos eliminar la categoría'
+  );
+}
+
+export async function fetchPriceChanges(
+  status: PriceChangeStatus | 'all' = 'scheduled'
+): Promise<ProductPriceChange[]> {
+  return requestCatalogAdmin(
+    `/price-changes?status=${encodeURIComponent(status)}`,
+    'GET',
+    null,
+    'No pudimos cargar los cambios de precio'
+  );
+}
+
+export async function schedulePriceChange(payload: {
+  productId: string;
+  sizeId?: string | null;
+  price: number;
+  effectiveAt: string;
+}): Promise<ProductPriceChange> {
+  return requestCatalogAdmin(
+    '/price-changes',
+    'POST',
+    payload,
+    'No pudimos programar el cambio de precio'
+  );
+}
+
+export async function cancelPriceChange(id: string): Promise<ProductPriceChange> {
+  return requestCatalogAdmin(
+    '/price-changes',
+    'DELETE',
+    { id },
+    'No pudimos cancelar el cambio de precio'
+  );
+}
+
+export interface ProductRecipeLine {
+  id: string;
+  productId: string;
+  sizeId?: string | null;
+  inventoryItemId: string;
+  quantityUsed: number;
+  yield: number;
+  isCritical: boolean;
+}
+
+export type ProductRecipeInput = {
+  productId: string;
+  sizeId?: string | null;
+  inventoryItemId: string;
+  quantityUsed: number;
+  yield?: number;
+  isCritical?: boolean;
+};
+
+export interface RecipeInventoryItem {
+  id: string;
+  name: string;
+  unit: string;
+  unitCost: number | null;
+}
+
+export interface RecipeVariantCost {
+  sizeId: string | null;
+  label: string;
+  price: number;
+  cost: number | null;
+  margin: number | null;
+  usesGenericRecipe: boolean;
+  missingCostItemIds: string[];
+}
+
+export interface ProductRecipeSummary {
+  productId: string;
+  name: string;
+  category: string | null;
+  isActive: boolean;
+  hasRecipe: boolean;
+  variants: RecipeVariantCost[];
+}
+
+export interface RecipeOverview {
+  items: RecipeInventoryItem[];
+  recipes: ProductRecipeLine[];
+  products: ProductRecipeSummary[];
+  missingRecipeProductIds: string[];
+}
+
+export async function fetchRecipeOverview(): Promise<RecipeOverview> {
+  return requestCatalogAdmin('/recipes', 'GET', null, 'No pudimos cargar las recetas');
+}
+
+export async function createRecipeLine(payload: ProductRecipeInput): Promise<ProductRecipeLine> {
+  return requestCatalogAdmin('/recipes', 'POST', payload, 'No pudimos guardar la receta');
+}
+
+export async function updateRecipeLine(
+  recipeId: string,
+  payload: Partial<Pick<ProductRecipeInput, 'quantityUsed' | 'yield' | 'isCritical'>>
+): Promise<ProductRecipeLine> {
+  return requestCatalogAdmin(
+    `/recipes/${encodeURIComponent(recipeId)}`,
+    'PATCH',
+    payload,
+    'No pudimos actualizar la receta'
+  );
+}
+
+export async function deleteRecipeLine(recipeId: string): Promise<{ id: string }> {
+  return requestCatalogAdmin(
+    `/recipes/${encodeURIComponent(recipeId)}`,
+    'DELETE',
+    null,
+    'No pudimos eliminar la línea de receta'
+  );
+}
+
+export interface SupplierItem {
+  id: string;
+  supplierId: string;
+  itemId: string;
+  supplierSku: string | null;
+  packLabel: string | null;
+  packSize: number;
+  unitCost: number | null;
+  isPreferred: boolean;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  whatsapp: string | null;
+  email: string | null;
+  leadTimeDays: number;
+  notes: string | null;
+  isActive: boolean;
+  items: SupplierItem[];
+  createdAt: string | null;
+}
+
+export type SupplierItemInput = Pick<SupplierItem, 'itemId' | 'packSize'> &
+  Partial<Pick<SupplierItem, 'supplierSku' | 'packLabel' | 'unitCost' | 'isPreferred'>>;
+
+export interface SupplierInput {
+  name: string;
+  contactName?: string | null;
+  phone?: string | null;
+  whatsapp?: string | null;
+  email?: string | null;
+  leadTimeDays?: number;
+  notes?: string | null;
+  items?: SupplierItemInput[];
+}
+
+export interface PurchasingInventoryItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+export interface SupplierDirectory {
+  suppliers: Supplier[];
+  items: PurchasingInventoryItem[];
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  itemId: string;
+  quantity: number;
+  packSize: number;
+  unitCost: number;
+  receivedQuantity: number;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  folio: string;
+  supplierId: string;
+  branchId: string;
+  status: PurchaseOrderStatus;
+  notes: string | null;
+  total: number;
+  expectedAt: string | null;
+  sentAt: string | null;
+  receivedAt: string | null;
+  createdAt: string | null;
+  lines: PurchaseOrderLine[];
+}
+
+export type PurchaseOrderLineInput = Pick<PurchaseOrderLine, 'itemId' | 'quantity' | 'packSize' | 'unitCost'>;
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  branchId?: string | null;
+  notes?: string | null;
+  expectedAt?: string | null;
+  lines: PurchaseOrderLineInput[];
+}
+
+export type PurchaseOrderAction = 'send' | 'cancel' | 'close';
+
+export interface PurchaseReceiptLineInput {
+  lineId: string;
+  quantity: number;
+  expiresAt?: string | null;
+}
+
+export interface SupplierSpend {
+  supplierId: string;
+  name: string;
+  amount: number;
+  receipts: number;
+}
+
+export async function fetchSupplierDirectory(): Promise<SupplierDirectory> {
+  return requestStaffApi('/api/suppliers', 'GET', null, 'No pudimos cargar los proveedores');
+}
+
+export async function createSupplier(payload: SupplierInput): Promise<Supplier> {
+  return requestStaffApi('/api/suppliers', 'POST', { ...payload }, 'No pudimos registrar al proveedor');
+}
+
+export async function updateSupplier(
+  supplierId: string,
+  payload: Partial<SupplierInput>
+): Promise<Supplier> {
+  return requestStaffApi(
+    `/api/suppliers/${encodeURIComponent(supplierId)}`,
+    'PATCH',
+    { ...payload },
+    'No pudimos actualizar al proveedor'
+  );
+}
+
+export async function deactivateSupplier(supplierId: string): Promise<{ id: string }> {
+  return requestStaffApi(
+    `/api/suppliers/${encodeURIComponent(supplierId)}`,
+    'DELETE',
+    null,
+    'No pudimos dar de baja al proveedor'
+  );
+}
+
+export async function fetchPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+  const query = status ? `?status=${encodeURIComponent(status)}` : '';
+  return requestStaffApi(
+    `/api/purchase-orders${query}`,
+    'GET',
+    null,
+    'No pudimos cargar las órdenes de compra'
+  );
+}
+
+export async function createPurchaseOrder(payload: PurchaseOrderInput): Promise<PurchaseOrder> {
+  return requestStaffApi(
+    '/api/purchase-orders',
+    'POST',
+    { ...payload },
+    'No pudimos crear la orden de compra'
+  );
+}
+
+export async function updatePurchaseOrder(
+  purchaseOrderId: string,
+  payload: Partial<Omit<PurchaseOrderInput, 'supplierId'>> & { action?: PurchaseOrderAction }
+): Promise<PurchaseOrder> {
+  return requestStaffApi(
+    `/api/purchase-orders/${encodeURIComponent(purchaseOrderId)}`,
+    'PATCH',
+    { ...payload },
+    'No pudimos actualizar la orden de compra'
+  );
+}
+
+export async function receivePurchaseOrder(
+  purchaseOrderId: string,
+  lines: PurchaseReceiptLineInput[]
+): Promise<PurchaseOrder> {
+  return requestStaffApi(
+    `/api/purchase-orders/${encodeURIComponent(purchaseOrderId)}/receive`,
+    'POST',
+    { lines },
+    'No pudimos registrar la recepción'
+  );
+}
+
+export interface ReorderSuggestion {
+  itemId: string;
+  name: string;
+  unit: string;
+  branchId: string;
+  quantity: number;
+  minStock: number;
+  avgDailyUse: number;
+  daysRemaining: number | null;
+  leadTimeDays: number;
+  packSize: number;
+  reorderPoint: number;
+  suggestedPacks: number;
+  suggestedQuantity: number;
+  supplierId: string | null;
+  supplierName: string | null;
+  unitCost: number | null;
+  estimatedCost: number | null;
+}
+
+export interface ReorderReport {
+  generatedAt: string;
+  lookbackDays: number;
+  coverDays: number;
+  suggestions: ReorderSuggestion[];
+}
+
+export interface ReorderListItem {
+  itemId: string;
+  name: string;
+  unit: string;
+  branchId: string;
+  packs: number;
+  packSize: number;
+  quantity: number;
+  supplierId: string | null;
+  supplierName: string | null;
+  unitCost: number | null;
+}
+
+export interface ReorderList {
+  id: string;
+  folio: string;
+  branchId: string | null;
+  notes: string | null;
+  items: ReorderListItem[];
+  estimatedTotal: number;
+  approvedByStaffId: string | null;
+  approvedAt: string;
+}
+
+export interface ReorderSettingsInput {
+  itemId: string;
+  leadTimeDays?: number | null;
+  packSize?: number | null;
+}
+
+const buildReorderQuery = (branchId?: string | null, format?: 'csv') => {
+  const params = new URLSearchParams();
+  if (branchId) {
+    params.set('branchId', branchId);
+  }
+  if (format) {
+    params.set('format', format);
+  }
+  const query = params.toString();
+  return `/api/reorder/suggestions${query ? `?${query}` : ''}`;
+};
+
+export async function fetchReorderSuggestions(branchId?: string | null): Promise<ReorderReport> {
+  return requestStaffApi(
+    buildReorderQuery(branchId),
+    'GET',
+    null,
+    'No pudimos calcular las sugerencias de reabasto'
+  );
+}
+
+export function buildReorderCsvUrl(branchId?: string | null) {
+  return buildApiUrl(buildReorderQuery(branchId, 'csv'));
+}
+
+export async function updateReorderSettings(payload: ReorderSettingsInput): Promise<ReorderSettingsInput> {
+  return requestStaffApi(
+    '/api/reorder/settings',
+    'PATCH',
+    { ...payload },
+    'No pudimos guardar la configuración de reabasto'
+  );
+}
+
+export async function fetchReorderLists(): Promise<ReorderList[]> {
+  return requestStaffApi('/api/reorder/lists', 'GET', null, 'No pudimos cargar las listas de compra');
+}
+
+export async function fetchReorderList(listId: string): Promise<ReorderList> {
+  return requestStaffApi(
+    `/api/reorder/lists/${encodeURIComponent(listId)}`,
+    'GET',
+    null,
+    'No pudimos cargar la lista de compra'
+  );
+}
+
+export async function approveReorderList(payload: {
+  branchId?: string | null;
+  notes?: string | null;
+  items: Array<Pick<ReorderListItem, 'itemId' | 'branchId' | 'packs'>>;
+}): Promise<ReorderList> {
+  return requestStaffApi(
+    '/api/reorder/lists',
+    'POST',
+    { ...payload },
+    'No pudimos aprobar la lista de compra'
+  );
+}
+
+export type StockCountStatus = 'open' | 'posted' | 'cancelled';
+
+export interface StockCountLine {
+  id: string;
+  itemId: string;
+  name: string;
+  unit: string;
+  barcode: string | null;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  unitCost: number | null;
+  varianceQuantity: number | null;
+  varianceValue: number | null;
+  countedAt: string | null;
+}
+
+export interface StockCountSummary {
+  id: string;
+  folio: string;
+  branchId: string;
+  status: StockCountStatus;
+  notes: string | null;
+  varianceValue: number | null;
+  createdAt: string;
+  postedAt: string | null;
+}
+
+export interface StockCount extends StockCountSummary {
+  lines: StockCountLine[];
+  totals: {
+    lines: number;
+    counted: number;
+    shortageValue: number;
+    surplusValue: number;
+    varianceValue: number;
+  };
+}
+
+export interface StockCountOverview {
+  counts: StockCountSummary[];
+  items: Array<PurchasingInventoryItem & { categoryId: string | null }>;
+}
+
+const stockCountPath = (countId: string) => `/api/stock-counts/${encodeURIComponent(countId)}`;
+
+export async function fetchStockCounts(): Promise<StockCountOverview> {
+  return requestStaffApi('/api/stock-counts', 'GET', null, 'No pudimos cargar los conteos');
+}
+
+export async function fetchStockCount(countId: string): Promise<StockCount> {
+  return requestStaffApi(stockCountPath(countId), 'GET', null, 'No pudimos cargar el conteo');
+}
+
+export function buildStockCountCsvUrl(countId: string) {
+  return buildApiUrl(`${stockCountPath(countId)}?format=csv`);
+}
+
+export async function createStockCount(payload: {
+  branchId?: string | null;
+  itemIds?: string[];
+  notes?: string | null;
+}): Promise<StockCount> {
+  return requestStaffApi('/api/stock-counts', 'POST', { ...payload }, 'No pudimos abrir el conteo');
+}
+
+export async function recordStockCountLines(
+  countId: string,
+  lines: Array<{ itemId: string; countedQuantity: number | null }>
+): Promise<StockCount> {
+  return requestStaffApi(
+    `${stockCountPath(countId)}/lines`,
+    'PATCH',
+    { lines },
+    'No pudimos guardar las cantidades contadas'
+  );
+}
+
+export async function postStockCount(countId: string): Promise<StockCount> {
+  return requestStaffApi(
+    `${stockCountPath(countId)}/post`,
+    'POST',
+    {},
+    'No pudimos contabilizar el conteo'
+  );
+}
+
+export async function cancelStockCount(countId: string): Promise<StockCount> {
+  return requestStaffApi(stockCountPath(countId), 'DELETE', null, 'No pudimos cancelar el conteo');
+}
+
+export interface Branch {
+  id: string;
+  code: string;
+  name: string;
+  city: string | null;
+}
+
+export interface BranchScope {
+  branches: Branch[];
+  // `all` cuando un socio está viendo todas las sucursales.
+  selected: string;
+  sessionBranchId: string;
+  canSwitch: boolean;
+}
+
+export async function fetchBranches(): Promise<BranchScope> {
+  return requestStaffApi('/api/branches', 'GET', null, 'No pudimos cargar las sucursales');
+}
+
+export async function selectBranch(branchId: string): Promise<{ selected: string }> {
+  return requestStaffApi('/api/branches', 'POST', { branchId }, 'No pudimos cambiar de sucursal');
+}
+
+export interface StockTransfer {
+  id: string;
+  folio: string;
+  itemId: string;
+  name: string;
+  unit: string;
+  fromBranchId: string;
+  toBranchId: string;
+  quantity: number;
+  notes: string | null;
+  createdAt: string;
+}
+
+export async function fetchStockTransfers(): Promise<StockTransfer[]> {
+  return requestStaffApi('/api/inventory/transfers', 'GET', null, 'No pudimos cargar los traspasos');
+}
+
+export async function createStockTransfer(payload: {
+  itemId: string;
+  fromBranchId?: string | null;
+  toBranchId: string;
+  quantity: number;
+  notes?: string | null;
+}): Promise<StockTransfer> {
+  return requestStaffApi(
+    '/api/inventory/transfers',
+    'POST',
+    { ...payload },
+    'No pudimos registrar el traspaso'
+  );
+}
+
+export interface AuditLogEntry {
+  id: string;
+  staffId: string | null;
+  staffEmail: string | null;
+  staffRole: string | null;
+  action: string;
+  level: string;
+  // `changes` guarda el diff { campo: { before, after } } cuando la acción modificó un registro.
+  details: Record<string, unknown>;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export type AuditLogFilters = {
+  staffId?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+};
+
+const buildAuditLogQuery = (filters: AuditLogFilters, format?: 'csv') => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  if (format) {
+    params.set('format', format);
+  }
+  const query = params.toString();
+  return `/api/audit-logs${query ? `?${query}` : ''}`;
+};
+
+export async function fetchAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+  return requestStaffApi(buildAuditLogQuery(filters), 'GET', null, 'No pudimos cargar la bitácora');
+}
+
+export function buildAuditLogCsvUrl(filters: AuditLogFilters = {}) {
+  return buildApiUrl(buildAuditLogQuery(filters, 'csv'));
+}
+
+export type CfdiInvoiceStatus = 'stamped' | 'cancel_pending' | 'cancelled';
+
+export interface CfdiInvoice {
+  id: string;
+  kind: 'individual' | 'global';
+  orderId: string | null;
+  ticketId: string | null;
+  userId: string | null;
+  series: string;
+  folio: number;
+  uuid: string | null;
+  status: CfdiInvoiceStatus;
+  receiverRfc: string;
+  receiverName: string;
+  receiverRegime: string;
+  receiverPostalCode: string;
+  cfdiUse: string;
+  paymentForm: string;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  currency: string;
+  globalMonth: string | null;
+  orderCount: number;
+  pacProvider: string | null;
+  stampedAt: string | null;
+  cancellationMotive: string | null;
+  replacementUuid: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+}
+
+export interface CustomerFiscalProfile {
+  rfc: string | null;
+  name: string | null;
+  regime: string | null;
+  postalCode: string | null;
+  cfdiUse: string | null;
+}
+
+export type CfdiInvoiceFilters = {
+  orderId?: string;
+  kind?: 'individual' | 'global';
+};
+
+export async function fetchInvoices(filters: CfdiInvoiceFilters = {}): Promise<CfdiInvoice[]> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  const query = params.toString();
+  return requestStaffApi(
+    `/api/invoices${query ? `?${query}` : ''}`,
+    'GET',
+    null,
+    'No pudimos cargar las facturas'
+  );
+}
+
+export async function issueOrderInvoice(payload: {
+  orderId: string;
+  receiver?: Partial<CustomerFiscalProfile> | null;
+  saveToProfile?: boolean;
+}): Promise<CfdiInvoice> {
+  return requestStaffApi('/api/invoices', 'POST', { ...payload }, 'No pudimos emitir la factura');
+}
+
+export async function issueGlobalInvoice(month: string): Promise<CfdiInvoice> {
+  return requestStaffApi(
+    '/api/invoices/global',
+    'POST',
+    { month },
+    'No pudimos emitir la factura global'
+  );
+}
+
+export async function cancelInvoice(
+  invoiceId: string,
+  payload: { motive: string; replacementUuid?: string | null }
+): Promise<CfdiInvoice> {
+  return requestStaffApi(
+    `/api/invoices/${encodeURIComponent(invoiceId)}/cancel`,
+    'POST',
+    { ...payload },
+    'No pudimos cancelar la factura'
+  );
+}
+
+export function buildInvoiceFileUrl(invoiceId: string, format: 'xml' | 'pdf') {
+  return buildApiUrl(`/api/invoices/${encodeURIComponent(invoiceId)}?format=${format}`);
+}
+
+export async function fetchCustomerFiscalProfile(identifier: string): Promise<CustomerFiscalProfile> {
+  return requestStaffApi(
+    `/api/customers/${encodeURIComponent(identifier)}/fiscal`,
+    'GET',
+    null,
+    'No pudimos cargar los datos fiscales'
+  );
+}
+
+export async function updateCustomerFiscalProfile(
+  identifier: string,
+  profile: CustomerFiscalProfile
+): Promise<CustomerFiscalProfile> {
+  return requestStaffApi(
+    `/api/customers/${encodeURIComponent(identifier)}/fiscal`,
+    'PATCH',
+    { ...profile },
+    'No pudimos guardar los datos fiscales'
+  );
+}
+
+export type CustomerAccountDetail = CustomerAccount & { addresses: DecryptedAddressPayload[] };
+
+export async function fetchCustomerAccount(identifier: string): Promise<CustomerAccountDetail> {
+  return requestStaffApi(
+    `/api/customers/${encodeURIComponent(identifier)}`,
+    'GET',
+    null,
+    'No pudimos cargar los datos del cliente'
+  );
+}
+
+export async function createCustomerAccount(input: CustomerAccountInput): Promise<CustomerAccount> {
+  return requestStaffApi('/api/customers', 'POST', input, 'No pudimos registrar al cliente');
+}
+
+export async function updateCustomerAccount(
+  identifier: string,
+  changes: Partial<CustomerAccountInput>
+): Promise<CustomerAccount> {
+  return requestStaffApi(
+    `/api/customers/${encodeURIComponent(identifier)}`,
+    'PATCH',
+    changes,
+    'No pudimos guardar los datos del cliente'
+  );
+}
+
+export async function saveCustomerAddress(
+  identifier: string,
+  address: CustomerAddressInput,
+  addressId?: string
+): Promise<DecryptedAddressPayload> {
+  return requestStaffApi(
+    '/api/customers/addresses',
+    addressId ? 'PATCH' : 'POST',
+    { identifier, address, ...(addressId ? { addressId } : {}) },
+    'No pudimos guardar la dirección'
+  );
+}
+
+export async function deleteCustomerAddress(identifier: string, addressId: string): Promise<{ id: string }> {
+  const params = new URLSearchParams({ identifier, addressId });
+  return requestStaffApi(
+    `/api/customers/addresses?${params.toString()}`,
+    'DELETE',
+    null,
+    'No pudimos eliminar la dirección'
+  );
+}
+
+export async function mergeCustomerAccounts(payload: {
+  sourceId: string;
+  targetId: string;
+  reason: string;
+}): Promise<CustomerMergeSummary> {
+  return requestStaffApi(
+    '/api/customers/merge',
+    'POST',
+    { ...payload },
+    'No pudimos fusionar las cuentas'
+  );
+}
+
+export function buildCustomerExportUrl(identifier: string, format: 'json' | 'pdf') {
+  return buildApiUrl(`/api/customers/${encodeURIComponent(identifier)}/privacy-export?format=${format}`);
+}
+
+export async function anonymizeCustomer(identifier: string, reason: string): Promise<AnonymizationResult> {
+  return requestStaffApi(
+    `/api/customers/${encodeURIComponent(identifier)}/anonymize`,
+    'POST',
+    { reason },
+    'No pudimos anonimizar al cliente'
+  );
+}
+
+export type RetentionPendingUser = { id: string; clientId: string | null; dataRetentionUntil: string };
+
+export type RetentionSweepResult = {
+  anonymized: AnonymizationResult[];
+  failed: Array<{ userId: string; error: string }>;
+  remaining: boolean;
+};
+
+export async function fetchRetentionPending(): Promise<{ pending: RetentionPendingUser[] }> {
+  return requestStaffApi(
+    '/api/customers/retention-sweep',
+    'GET',
+    null,
+    'No pudimos consultar los plazos de conservación'
+  );
+}
+
+export async function runRetentionSweep(): Promise<RetentionSweepResult> {
+  return requestStaffApi(
+    '/api/customers/retention-sweep',
+    'POST',
+    null,
+    'No pudimos completar el barrido de retención'
+  );
+}
+
+export async function fetchMarketingCampaigns(): Promise<MarketingCampaign[]> {
+  return requestStaffApi('/api/marketing/campaigns', 'GET', null, 'No pudimos cargar las campañas');
+}
+
+export async function fetchCampaignAudienceCount(
+  filter: CampaignAudienceFilter
+): Promise<{ count: number }> {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && String(value).trim()) {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return requestStaffApi(
+    `/api/marketing/audience${query ? `?${query}` : ''}`,
+    'GET',
+    null,
+    'No pudimos calcular la audiencia'
+  );
+}
+
+export async function createMarketingCampaign(
+  payload: MarketingCampaignInput
+): Promise<MarketingCampaign> {
+  return requestStaffApi(
+    '/api/marketing/campaigns',
+    'POST',
+    { ...payload },
+    'No pudimos crear la campaña'
+  );
+}
+
+export async function sendMarketingCampaignBatch(campaignId: string): Promise<CampaignSendResult> {
+  return requestStaffApi(
+    `/api/marketing/campaigns/${encodeURIComponent(campaignId)}/send`,
+    'POST',
+    null,
+    'No pudimos enviar la campaña'
+  );
+}
+
 export type TransactionsHistoryFilters = {
   from?: string;
   to?: string;
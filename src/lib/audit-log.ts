@@ -0,0 +1,269 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { isIP } from 'net';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { getRequestIp, type StaffSessionClaims } from '@/lib/auth/staff-session';
+import type { CatalogAction } from '@/lib/catalog-admin';
+import type { AuditLogEntry } from '@/lib/api';
+
+export const AUDIT_LOGS_TABLE = process.env.SUPABASE_POS_ACTION_LOGS_TABLE ?? 'pos_action_logs';
+const STAFF_TABLE = process.env.SUPABASE_STAFF_TABLE ?? 'staff_users';
+const AUDIT_DEFAULT_LIMIT = 200;
+const AUDIT_MAX_LIMIT = 1000;
+
+export type AuditAction =
+  | CatalogAction
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.password_change'
+  | 'pos.settings.update'
+  | 'inventory.manual_status'
+  | 'order.queue'
+  | 'order.complete'
+  | 'reservation.status'
+  | 'reservation.create'
+  | 'reservation.update'
+  | 'reservation.arrival'
+  | 'promotion.create'
+  | 'promotion.update'
+  | 'governance.vote'
+  | 'invoice.create'
+  | 'invoice.global'
+  | 'invoice.cancel'
+  | 'customer.create'
+  | 'customer.update'
+  | 'customer.merge'
+  | 'customer.privacy.export'
+  | 'customer.privacy.anonymize'
+  | 'customer.privacy.sweep'
+  | 'customer.fiscal.update'
+  | 'customer.no_show.override'
+  | 'delivery.dispatch'
+  | 'loyalty.program.create'
+  | 'loyalty.program.update'
+  | 'loyalty.reward.redeem'
+  | 'loyalty.adjust'
+  | 'marketing.campaign.create'
+  | 'marketing.campaign.send';
+
+export type AuditLevel = 'info' | 'warning';
+
+type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// `updatedAt` cambia en cada escritura y solo ensucia el diff.
+const DIFF_IGNORED_KEYS = new Set(['updatedAt']);
+
+const sameValue = (left: unknown, right: unknown) =>
+  JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+
+/**
+ * Campos que la escritura modificó. Solo se comparan las llaves de `after`,
+ * que son las que tocó la ruta; el resto del registro no se audita.
+ */
+export const diffRecords = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>
+): AuditChanges => {
+  const changes: AuditChanges = {};
+  Object.entries(after).forEach(([key, value]) => {
+    if (DIFF_IGNORED_KEYS.has(key) || value === undefined) {
+      return;
+    }
+    const previous = before?.[key] ?? null;
+    if (!sameValue(previous, value)) {
+      changes[key] = { before: previous, after: value };
+    }
+  });
+  return changes;
+};
+
+/**
+ * Registra una acción sensible en `pos_action_logs`. Nunca lanza: una falla de
+ * auditoría no debe tumbar la operación que ya se completó.
+ */
+export const logAuditAction = async ({
+  request,
+  session,
+  staffId,
+  action,
+  level = 'info',
+  before,
+  after,
+  details = {},
+}: {
+  request?: Request | null;
+  session?: StaffSessionClaims | null;
+  staffId?: string | null;
+  action: AuditAction;
+  level?: AuditLevel;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  details?: Record<string, unknown>;
+}) => {
+  const ip = request ? getRequestIp(request) : null;
+  const changes = after ? diffRecords(before, after) : null;
+  const { error } = await supabaseAdmin.from(AUDIT_LOGS_TABLE).insert({
+    id: randomUUID(),
+    staffId: staffId ?? session?.staffId ?? null,
+    action,
+    details: changes && Object.keys(changes).length ? { ...details, changes } : details,
+    level,
+    ipAddress: ip && isIP(ip) ? ip : null,
+    userAgent: request?.headers.get('user-agent') ?? null,
+  });
+  if (error) {
+    console.warn(`No pudimos registrar la acción ${action} en auditoría:`, error.message);
+  }
+};
+
+export type AuditLogFilters = {
+  staffId?: string | null;
+  action?: string | null;
+  from?: string | null;
+  to?: string | null;
+  limit?: number | null;
+};
+
+/**
+ * Bitácora filtrada. `action` sin punto se toma como módulo (`order` abarca
+ * `order.queue` y `order.complete`); con punto debe coincidir exacto.
+ */
+export const loadAuditLogs = async (filters: AuditLogFilters): Promise<AuditLogEntry[]> => {
+  const limit = Math.min(Math.max(filters.limit ?? AUDIT_DEFAULT_LIMIT, 1), AUDIT_MAX_LIMIT);
+  let query = supabaseAdmin
+    .from(AUDIT_LOGS_TABLE)
+    .select('id,"staffId",action,details,level,"ipAddress","userAgent","createdAt"')
+    .order('createdAt', { ascending: false })
+    .limit(limit);
+  if (filters.staffId) {
+    query = query.eq('staffId', filters.staffId);
+  }
+  if (filters.action) {
+    query = filters.action.includes('.')
+      ? query.eq('action', filters.action)
+      : query.like('action', `${filters.action}.%`);
+  }
+  if (filters.from) {
+    query = query.gte('createdAt', filters.from);
+  }
+  if (filters.to) {
+    query = query.lte('createdAt', filters.to);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  const rows = (data ?? []) as Record<string, unknown>[];
+
+  const staffIds = Array.from(
+    new Set(rows.map((row) => row.staffId).filter((id): id is string => typeof id === 'string'))
+  );
+  const staffById = new Map<string, { email: string | null; role: string | null }>();
+  if (staffIds.length) {
+    const { data: staffRows, error: staffError } = await supabaseAdmin
+      .from(STAFF_TABLE)
+      .select('id,email,role')
+      .in('id', staffIds);
+    if (staffError) {
+      throw new Error(staffError.message);
+    }
+    (staffRows ?? []).forEach((staff) => {
+      staffById.set(String(staff.id), {
+        email: typeof staff.email === 'string' ? staff.email : null,
+        role: typeof staff.role === 'string' ? staff.role : null,
+      });
+    });
+  }
+
+  return rows.map((row) => {
+    const staffId = typeof row.staffId === 'string' ? row.staffId : null;
+    const staff = staffId ? staffById.get(staffId) : null;
+    return {
+      id: String(row.id),
+      staffId,
+      staffEmail: staff?.email ?? null,
+      staffRole: staff?.role ?? null,
+      action: String(row.action ?? ''),
+      level: typeof row.level === 'string' ? row.level : 'info',
+      details:
+        row.details && typeof row.details === 'object' ? (row.details as Record<string, unknown>) : {},
+      ipAddress: typeof row.ipAddress === 'string' ? row.ipAddress : null,
+      userAgent: typeof row.userAgent === 'string' ? row.userAgent : null,
+      createdAt: String(row.createdAt ?? ''),
+    };
+  });
+};
+
+// Una celda que empieza con = + - @ (o tabulador/retorno) se abre como fórmula
+// en Excel; el apóstrofo la deja como texto.
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '""';
+  }
+  const text = String(value);
+  const safe = CSV_FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export const buildAuditLogCsv = (entries: AuditLogEntry[]) => {
+  const headers = [
+    'createdAt',
+    'action',
+    'level',
+    'staffId',
+    'staffEmail',
+    'ipAddress',
+    'userAgent',
+    'changes',
+    'details',
+  ];
+  const lines = [headers.join(',')];
+  entries.forEach((entry) => {
+    const { changes, ...details } = entry.details;
+    lines.push(
+      [
+        entry.createdAt,
+        entry.action,
+        entry.level,
+        entry.staffId ?? '',
+        entry.staffEmail ?? '',
+        entry.ipAddress ?? '',
+        entry.userAgent ?? '',
+        changes ? JSON.stringify(changes) : '',
+        Object.keys(details).length ? JSON.stringify(details) : '',
+      ]
+        .map(toCsvValue)
+        .join(',')
+    );
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,88 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+/*
+ * Alcance por sucursal de las rutas del POS.
+ * La sucursal sale de la sesión del staff; solo los socios pueden cambiarla con una cookie.
+ */
+
+import { readCookie, type StaffSessionClaims } from '@/lib/auth/staff-session';
+import type { StaffRole } from '@/providers/auth-provider';
+
+export const DEFAULT_BRANCH_ID = process.env.DEFAULT_BRANCH_ID ?? 'MATRIZ';
+export const BRANCH_SCOPE_COOKIE = 'xoco_pos_branch';
+export const ALL_BRANCHES = 'all';
+
+const BRANCH_SWITCH_ROLES: StaffRole[] = ['socio', 'superuser'];
+
+export const canSwitchBranch = (session: Pick<StaffSessionClaims, 'role'>) =>
+  BRANCH_SWITCH_ROLES.includes(session.role);
+
+export const resolveSessionBranch = (session: Pick<StaffSessionClaims, 'branchId'>) =>
+  session.branchId?.trim() || DEFAULT_BRANCH_ID;
+
+/**
+ * Sucursal que acotan las lecturas. El staff siempre ve la suya; los socios
+ * pueden elegir otra con el selector o `null` para ver todas las sucursales.
+ */
+export const resolveBranchScope = (request: Request, session: StaffSessionClaims) => {
+  if (!canSwitchBranch(session)) {
+    return resolveSessionBranch(session);
+  }
+  const selected = readCookie(request, BRANCH_SCOPE_COOKIE)?.trim();
+  if (selected === ALL_BRANCHES) {
+    return null;
+  }
+  return selected || resolveSessionBranch(session);
+};
+
+// Las escrituras siempre caen en una sucursal concreta, aunque el socio esté viendo todas.
+export const resolveWriteBranch = (request: Request, session: StaffSessionClaims) =>
+  resolveBranchScope(request, session) ?? resolveSessionBranch(session);
+
+// Un registro de otra sucursal no se modifica; el socio con vista global sí puede.
+export const isOutsideBranchScope = (
+  request: Request,
+  session: StaffSessionClaims,
+  branchId?: string | null
+) => {
+  const scope = resolveBranchScope(request, session);
+  return Boolean(scope && branchId && branchId !== scope);
+};
+
+export const buildBranchScopeCookie = (branchId: string, maxAge = 60 * 60 * 24 * 30) => ({
+  name: BRANCH_SCOPE_COOKIE,
+  value: branchId,
+  httpOnly: true,
+  sameSite: 'strict' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge,
+});
+
+export const buildClearedBranchScopeCookie = () => buildBranchScopeCookie('', 0);
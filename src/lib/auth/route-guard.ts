@@ -0,0 +1,178 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+/*
+ * Guardia compartida para las rutas de src/app/api.
+ * Cada ruta declara aquí qué roles del staff pueden invocar cada método.
+ * Rutas fuera del mapa (login, reset, notificaciones con llave, canje con token de
+ * cliente, pixel y baja de campañas) no usan la guardia.
+ */
+
+import { NextResponse } from 'next/server';
+import type { StaffRole } from '@/providers/auth-provider';
+import {
+  isStaffSessionRevoked,
+  readStaffSessionToken,
+  verifyStaffSessionToken,
+  type StaffSessionClaims,
+} from '@/lib/auth/staff-session';
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+const ALL_STAFF: StaffRole[] = ['barista', 'gerente', 'socio', 'superuser'];
+const MANAGERS: StaffRole[] = ['gerente', 'socio', 'superuser'];
+const PARTNERS: StaffRole[] = ['socio', 'superuser'];
+
+export const ROUTE_PERMISSIONS = {
+  '/api/auth/change-password': { POST: ALL_STAFF },
+  '/api/advanced-metrics': { GET: PARTNERS },
+  '/api/audit-logs': { GET: PARTNERS },
+  '/api/availability': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/availability-new': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/branches': { GET: ALL_STAFF, POST: PARTNERS },
+  '/api/cash-register': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/catalog': { GET: ALL_STAFF },
+  '/api/catalog/categories': { PATCH: MANAGERS, DELETE: MANAGERS },
+  '/api/catalog/price-changes': { GET: MANAGERS, POST: MANAGERS, DELETE: MANAGERS },
+  '/api/catalog/products': { POST: MANAGERS },
+  '/api/catalog/products/[productId]': { PATCH: MANAGERS, DELETE: MANAGERS },
+  '/api/catalog/products/[productId]/sizes': { POST: MANAGERS, DELETE: MANAGERS },
+  '/api/catalog/recipes': { GET: MANAGERS, POST: MANAGERS },
+  '/api/catalog/recipes/[recipeId]': { PATCH: MANAGERS, DELETE: MANAGERS },
+  '/api/cofepris/export': { GET: ALL_STAFF },
+  '/api/cofepris/pest': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/customers': { POST: ALL_STAFF },
+  '/api/customers/[identifier]': { GET: ALL_STAFF, PATCH: ALL_STAFF },
+  '/api/customers/[identifier]/anonymize': { POST: MANAGERS },
+  '/api/customers/[identifier]/fiscal': { GET: ALL_STAFF, PATCH: ALL_STAFF },
+  '/api/customers/[identifier]/no-shows': { GET: ALL_STAFF, PATCH: MANAGERS },
+  '/api/customers/[identifier]/preferences': { PUT: ALL_STAFF },
+  '/api/customers/[identifier]/privacy-export': { GET: MANAGERS },
+  '/api/customers/addresses': { GET: ALL_STAFF, POST: ALL_STAFF, PATCH: ALL_STAFF, DELETE: ALL_STAFF },
+  '/api/customers/lookup': { GET: ALL_STAFF },
+  '/api/customers/merge': { POST: MANAGERS },
+  '/api/customers/retention-sweep': { GET: PARTNERS, POST: PARTNERS },
+  '/api/hygiene-checklist': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/invoices': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/invoices/[invoiceId]': { GET: ALL_STAFF },
+  '/api/invoices/[invoiceId]/cancel': { POST: MANAGERS },
+  '/api/invoices/global': { POST: MANAGERS },
+  '/api/inventory-dashboard': { GET: ALL_STAFF },
+  '/api/inventory/manual-status': { POST: ALL_STAFF },
+  '/api/inventory/transfers': { GET: MANAGERS, POST: MANAGERS },
+  '/api/loyalty': { GET: ALL_STAFF },
+  '/api/loyalty/ledger': { GET: ALL_STAFF, POST: MANAGERS },
+  '/api/loyalty/programs': { GET: ALL_STAFF, POST: MANAGERS },
+  '/api/loyalty/redeem': { POST: ALL_STAFF },
+  '/api/marketing-history': { GET: PARTNERS },
+  '/api/marketing/audience': { GET: PARTNERS },
+  '/api/marketing/campaigns': { GET: PARTNERS, POST: PARTNERS },
+  '/api/marketing/campaigns/[campaignId]/send': { POST: PARTNERS },
+  '/api/orders': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/orders/[orderId]/complete': { POST: ALL_STAFF },
+  '/api/orders/[orderId]/queue': { POST: ALL_STAFF },
+  '/api/orders/[orderId]/refund': { POST: MANAGERS },
+  '/api/orders/[orderId]/void': { POST: MANAGERS },
+  '/api/orders/ticket/[identifier]': { GET: ALL_STAFF },
+  '/api/partner-metrics': { GET: PARTNERS },
+  '/api/payments-dashboard': { GET: ALL_STAFF },
+  '/api/pos-settings': { GET: ALL_STAFF, PUT: MANAGERS },
+  '/api/prep-queue': { GET: ALL_STAFF },
+  '/api/prep-queue/[taskId]/complete': { POST: ALL_STAFF },
+  '/api/prep-queue/[taskId]/status': { POST: ALL_STAFF },
+  '/api/promotions/check': { POST: ALL_STAFF },
+  '/api/promotions/manage': { POST: MANAGERS },
+  '/api/public-sales-summary': { GET: ALL_STAFF },
+  '/api/purchase-orders': { GET: MANAGERS, POST: MANAGERS },
+  '/api/purchase-orders/[purchaseOrderId]': { PATCH: MANAGERS },
+  '/api/purchase-orders/[purchaseOrderId]/receive': { POST: MANAGERS },
+  '/api/qr': { GET: ALL_STAFF },
+  '/api/reorder/lists': { GET: MANAGERS, POST: MANAGERS },
+  '/api/reorder/lists/[listId]': { GET: MANAGERS },
+  '/api/reorder/settings': { PATCH: MANAGERS },
+  '/api/reorder/suggestions': { GET: MANAGERS },
+  '/api/reservations': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/reservations/[reservationId]': { GET: ALL_STAFF, PATCH: ALL_STAFF },
+  '/api/reservations/[reservationId]/arrival': { POST: ALL_STAFF },
+  '/api/reservations/[reservationId]/complete': { POST: ALL_STAFF },
+  '/api/reset-supabase': { POST: MANAGERS },
+  '/api/smart-inventory': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/staff-dashboard': { GET: ALL_STAFF },
+  '/api/staff-evaluations': { GET: MANAGERS, POST: MANAGERS },
+  '/api/staff-governance/requests': { GET: MANAGERS, POST: MANAGERS },
+  '/api/staff-governance/votes': { GET: PARTNERS, POST: PARTNERS },
+  '/api/staff/delivery-dispatch': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/staff/delivery-status': { GET: ALL_STAFF, POST: ALL_STAFF },
+  '/api/stock-counts': { GET: ALL_STAFF, POST: MANAGERS },
+  '/api/stock-counts/[countId]': { GET: ALL_STAFF, DELETE: MANAGERS },
+  '/api/stock-counts/[countId]/lines': { PATCH: ALL_STAFF },
+  '/api/stock-counts/[countId]/post': { POST: MANAGERS },
+  '/api/suppliers': { GET: MANAGERS, POST: MANAGERS },
+  '/api/suppliers/[supplierId]': { PATCH: MANAGERS, DELETE: MANAGERS },
+  '/api/transactions-history': { GET: ALL_STAFF },
+  '/api/user/coffee-count': { GET: ALL_STAFF, POST: MANAGERS, PUT: MANAGERS },
+  '/api/user/loyalty-history': { GET: ALL_STAFF },
+  '/api/waste-logs': { GET: ALL_STAFF, POST: ALL_STAFF },
+} satisfies Record<string, Partial<Record<HttpMethod, StaffRole[]>>>;
+
+export type GuardedRoute = keyof typeof ROUTE_PERMISSIONS;
+
+export type StaffGuardResult =
+  | { ok: true; session: StaffSessionClaims }
+  | { ok: false; response: NextResponse };
+
+const deny = (status: 401 | 403, error: string): StaffGuardResult => ({
+  ok: false,
+  response: NextResponse.json({ success: false, error }, { status }),
+});
+
+export const canRoleAccess = (route: GuardedRoute, method: string, role: StaffRole) => {
+  const permissions = ROUTE_PERMISSIONS[route] as Partial<Record<string, StaffRole[]>>;
+  const allowed = permissions[method.toUpperCase()];
+  return Boolean(allowed?.includes(role));
+};
+
+export const requireStaffSession = async (
+  request: Request,
+  route: GuardedRoute
+): Promise<StaffGuardResult> => {
+  const token = readStaffSessionToken(request);
+  if (!token) {
+    return deny(401, 'Inicia sesión en el POS para continuar.');
+  }
+  const session = verifyStaffSessionToken(token);
+  if (!session) {
+    return deny(401, 'Tu sesión expiró. Inicia sesión de nuevo.');
+  }
+  if (await isStaffSessionRevoked(session.sessionId)) {
+    return deny(401, 'Tu sesión fue cerrada. Inicia sesión de nuevo.');
+  }
+  if (!canRoleAccess(route, request.method, session.role)) {
+    return deny(403, 'Tu rol no tiene permiso para esta acción.');
+  }
+  return { ok: true, session };
+};
@@ -0,0 +1,218 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+/*
+ * Sesiones firmadas del staff del POS.
+ * El token viaja en una cookie httpOnly y cada sesión queda registrada en staff_sessions.
+ */
+
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { AuthenticatedStaff, StaffRole } from '@/providers/auth-provider';
+
+const SESSIONS_TABLE = process.env.SUPABASE_STAFF_SESSIONS_TABLE ?? 'staff_sessions';
+// Sin secreto configurado no se emiten ni se aceptan tokens.
+const SESSION_SECRET =
+  process.env.POS_SESSION_SECRET?.trim() || process.env.JWT_SECRET?.trim() || null;
+const SESSION_TTL_MINUTES = Number(process.env.POS_SESSION_TTL_MINUTES ?? 720);
+const SESSION_ISSUER = 'xoco-pos';
+
+export const STAFF_SESSION_COOKIE = 'xoco_pos_session';
+
+export interface StaffSessionClaims {
+  sessionId: string;
+  staffId: string;
+  email: string;
+  role: StaffRole;
+  branchId: string | null;
+  name: string | null;
+}
+
+const STAFF_ROLES: StaffRole[] = ['barista', 'gerente', 'socio', 'superuser'];
+
+const isStaffRole = (value: unknown): value is StaffRole =>
+  typeof value === 'string' && STAFF_ROLES.includes(value as StaffRole);
+
+const readString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const getRequestIp = (request: Request) =>
+  request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ??
+  request.headers.get('x-real-ip')?.trim() ??
+  null;
+
+const detectDeviceType = (userAgent: string | null) => {
+  if (!userAgent) {
+    return null;
+  }
+  if (/ipad|tablet/i.test(userAgent)) {
+    return 'tablet';
+  }
+  if (/mobile|android|iphone/i.test(userAgent)) {
+    return 'mobile';
+  }
+  return 'desktop';
+};
+
+const buildDisplayName = (staff: AuthenticatedStaff) => {
+  const name = [staff.firstName, staff.lastName].filter(Boolean).join(' ').trim();
+  return name || null;
+};
+
+export const issueStaffSession = async (staff: AuthenticatedStaff, request: Request) => {
+  if (!SESSION_SECRET) {
+    throw new Error('POS_SESSION_SECRET no está configurado; no se pueden emitir sesiones.');
+  }
+  const sessionId = randomUUID();
+  const startedAt = new Date();
+  const expiresAt = new Date(startedAt.getTime() + SESSION_TTL_MINUTES * 60 * 1000);
+  const claims: StaffSessionClaims = {
+    sessionId,
+    staffId: staff.id,
+    email: staff.email,
+    role: staff.role,
+    branchId: staff.branchId ?? null,
+    name: buildDisplayName(staff),
+  };
+
+  const userAgent = request.headers.get('user-agent');
+  const { error } = await supabaseAdmin.from(SESSIONS_TABLE).insert({
+    id: sessionId,
+    staffId: staff.id,
+    sessionStart: startedAt.toISOString(),
+    ipAddress: getRequestIp(request),
+    userAgent,
+    deviceType: detectDeviceType(userAgent),
+  });
+  // Sin su renglón en staff_sessions el token se trataría como revocado.
+  if (error) {
+    throw new Error(`No pudimos registrar la sesión del staff: ${error.message}`);
+  }
+
+  const token = jwt.sign(claims, SESSION_SECRET, {
+    expiresIn: SESSION_TTL_MINUTES * 60,
+    issuer: SESSION_ISSUER,
+    subject: staff.id,
+  }) as string;
+
+  return { token, sessionId, expiresAt: expiresAt.toISOString(), maxAge: SESSION_TTL_MINUTES * 60 };
+};
+
+export const verifyStaffSessionToken = (token: string): StaffSessionClaims | null => {
+  if (!SESSION_SECRET) {
+    return null;
+  }
+  try {
+    const decoded = jwt.verify(token, SESSION_SECRET, { issuer: SESSION_ISSUER }) as
+      | Record<string, unknown>
+      | string
+      | null;
+    if (!decoded || typeof decoded === 'string') {
+      return null;
+    }
+    const sessionId = readString(decoded.sessionId);
+    const staffId = readString(decoded.staffId);
+    const email = readString(decoded.email);
+    if (!sessionId || !staffId || !email || !isStaffRole(decoded.role)) {
+      return null;
+    }
+    return {
+      sessionId,
+      staffId,
+      email,
+      role: decoded.role,
+      branchId: readString(decoded.branchId),
+      name: readString(decoded.name),
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const readCookie = (request: Request, name: string) => {
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return null;
+  }
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+};
+
+export const readStaffSessionToken = (request: Request) => {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.toLowerCase().startsWith('bearer ')) {
+    const bearer = authHeader.slice(7).trim();
+    if (bearer) {
+      return bearer;
+    }
+  }
+  return readCookie(request, STAFF_SESSION_COOKIE);
+};
+
+// Una sesión cerrada o sin registro en staff_sessions invalida el token aunque la
+// firma siga vigente; si no podemos consultar la tabla también se rechaza.
+export const isStaffSessionRevoked = async (sessionId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(SESSIONS_TABLE)
+    .select('id,"sessionEnd"')
+    .eq('id', sessionId)
+    .maybeSingle();
+  if (error) {
+    console.warn('No pudimos validar la sesión del staff, se rechaza:', error.message);
+    return true;
+  }
+  return !data || Boolean(data.sessionEnd);
+};
+
+export const endStaffSession = async (sessionId: string) => {
+  const { error } = await supabaseAdmin
+    .from(SESSIONS_TABLE)
+    .update({ sessionEnd: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('sessionEnd', null);
+  if (error) {
+    console.warn('No pudimos cerrar la sesión del staff:', error.message);
+  }
+};
+
+export const buildSessionCookie = (token: string, maxAge: number) => ({
+  name: STAFF_SESSION_COOKIE,
+  value: token,
+  httpOnly: true,
+  sameSite: 'strict' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge,
+});
+
+export const buildClearedSessionCookie = () => buildSessionCookie('', 0);
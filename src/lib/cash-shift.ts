@@ -0,0 +1,116 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+export type CashShiftStatus = 'abierto' | 'cerrado';
+export type CashCloseState = 'OK' | 'Faltante' | 'Sobrante';
+export type CashMovementType = 'gasto' | 'retiro';
+export type CashSaleMethod = 'efectivo' | 'tarjeta' | 'transferencia';
+
+export type CashDenomination = {
+  id: string;
+  label: string;
+  value: number;
+  kind: 'billete' | 'moneda';
+};
+
+export const CASH_DENOMINATIONS: CashDenomination[] = [
+  { id: '1000', label: '$1,000', value: 1000, kind: 'billete' },
+  { id: '500', label: '$500', value: 500, kind: 'billete' },
+  { id: '200', label: '$200', value: 200, kind: 'billete' },
+  { id: '100', label: '$100', value: 100, kind: 'billete' },
+  { id: '50', label: '$50', value: 50, kind: 'billete' },
+  { id: '20', label: '$20', value: 20, kind: 'billete' },
+  { id: '10', label: '$10', value: 10, kind: 'moneda' },
+  { id: '5', label: '$5', value: 5, kind: 'moneda' },
+  { id: '2', label: '$2', value: 2, kind: 'moneda' },
+  { id: '1', label: '$1', value: 1, kind: 'moneda' },
+  { id: '0.5', label: '$0.50', value: 0.5, kind: 'moneda' },
+];
+
+export type CashDenominationCount = Record<string, number>;
+
+export const sumDenominationCount = (count: CashDenominationCount) =>
+  Number(
+    CASH_DENOMINATIONS.reduce((acc, denomination) => {
+      const pieces = Number(count[denomination.id] ?? 0);
+      return acc + (Number.isFinite(pieces) && pieces > 0 ? Math.floor(pieces) * denomination.value : 0);
+    }, 0).toFixed(2)
+  );
+
+/**
+ * Normaliza los métodos de pago del POS (débito, crédito, etc.) a los que
+ * acepta la tabla `ventas`. Cripto y otros métodos no se registran en caja.
+ */
+export const toCashSaleMethod = (method?: string | null): CashSaleMethod | null => {
+  const normalized = method?.trim().toLowerCase() ?? '';
+  if (normalized === 'efectivo' || normalized === 'cash') {
+    return 'efectivo';
+  }
+  if (['tarjeta', 'debito', 'credito', 'card'].includes(normalized)) {
+    return 'tarjeta';
+  }
+  if (normalized === 'transferencia' || normalized === 'transfer') {
+    return 'transferencia';
+  }
+  return null;
+};
+
+export type CashMovement = {
+  id: number;
+  turnoId: number;
+  tipo: CashMovementType;
+  monto: number;
+  motivo: string;
+  usuarioId: string | null;
+  fecha: string;
+};
+
+export type CashShiftSummary = {
+  id: number;
+  usuarioId: string;
+  estado: CashShiftStatus;
+  fechaApertura: string;
+  fechaCierre: string | null;
+  saldoInicial: number;
+  totalVentasEfectivo: number;
+  totalGastosEfectivo: number;
+  saldoEsperado: number | null;
+  montoFisico: number | null;
+  diferencia: number | null;
+  estadoCorte: CashCloseState | null;
+  branchId: string | null;
+};
+
+export type CashZReport = {
+  turno: CashShiftSummary;
+  ventasPorMetodo: Array<{ metodo: CashSaleMethod; total: number; operaciones: number }>;
+  reembolsos: { total: number; operaciones: number };
+  movimientos: CashMovement[];
+  conteo: CashDenominationCount | null;
+  generadoEn: string;
+};
@@ -0,0 +1,228 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { StaffSessionClaims } from '@/lib/auth/staff-session';
+import { logAuditAction } from '@/lib/audit-log';
+import { extractSizeOptions, roundCurrency, slugify, type SizeOption } from '@/lib/order-pricing';
+import type { CatalogProduct } from '@/lib/api';
+
+export const CATALOG_PRODUCTS_TABLE = process.env.SUPABASE_PRODUCTS_TABLE ?? 'products';
+export const PRICE_CHANGES_TABLE =
+  process.env.SUPABASE_PRODUCT_PRICE_CHANGES_TABLE ?? 'product_price_changes';
+
+/** Llaves de `metadata` donde versiones anteriores guardaban los tamaños. */
+const LEGACY_SIZE_KEYS = ['availableSizes', 'available_sizes', 'sizes', 'sizeOptions', 'variants'];
+
+export type CatalogAction =
+  | 'catalog.product.create'
+  | 'catalog.product.update'
+  | 'catalog.product.deactivate'
+  | 'catalog.size.upsert'
+  | 'catalog.size.delete'
+  | 'catalog.category.rename'
+  | 'catalog.category.delete'
+  | 'catalog.price.schedule'
+  | 'catalog.price.cancel'
+  | 'catalog.price.apply'
+  | 'catalog.recipe.create'
+  | 'catalog.recipe.update'
+  | 'catalog.recipe.delete'
+  | 'inventory.supplier.create'
+  | 'inventory.supplier.update'
+  | 'inventory.supplier.deactivate'
+  | 'inventory.purchase_order.create'
+  | 'inventory.purchase_order.update'
+  | 'inventory.purchase_order.send'
+  | 'inventory.purchase_order.cancel'
+  | 'inventory.purchase_order.close'
+  | 'inventory.purchase_order.receive'
+  | 'inventory.reorder.settings'
+  | 'inventory.reorder.approve'
+  | 'inventory.stock_count.open'
+  | 'inventory.stock_count.post'
+  | 'inventory.stock_count.cancel'
+  | 'inventory.transfer';
+
+export const logCatalogAction = async ({
+  request,
+  session,
+  action,
+  details,
+}: {
+  request?: Request | null;
+  session?: StaffSessionClaims | null;
+  action: CatalogAction;
+  details: Record<string, unknown>;
+}) => {
+  await logAuditAction({ request, session, action, details });
+};
+
+export const loadCatalogProduct = async (productId: string): Promise<CatalogProduct | null> => {
+  const byId = await supabaseAdmin
+    .from(CATALOG_PRODUCTS_TABLE)
+    .select('*')
+    .eq('id', productId)
+    .maybeSingle();
+  if (byId.error) {
+    throw new Error(byId.error.message);
+  }
+  if (byId.data) {
+    return byId.data as CatalogProduct;
+  }
+  const byProductId = await supabaseAdmin
+    .from(CATALOG_PRODUCTS_TABLE)
+    .select('*')
+    .eq('productId', productId)
+    .maybeSingle();
+  if (byProductId.error) {
+    throw new Error(byProductId.error.message);
+  }
+  return (byProductId.data as CatalogProduct | null) ?? null;
+};
+
+export const normalizeSizeInputs = (
+  sizes: Array<{ id?: string | null; label: string; price?: number | null }>
+): SizeOption[] => {
+  const unique = new Map<string, SizeOption>();
+  sizes.forEach((size, index) => {
+    const label = size.label.trim();
+    const id = slugify(size.id?.trim() || label) || `size-${index}`;
+    unique.set(id, {
+      id,
+      label,
+      price: typeof size.price === 'number' ? roundCurrency(size.price) : null,
+    });
+  });
+  return Array.from(unique.values());
+};
+
+/**
+ * Los tamaños se guardan solo en `available_sizes`; las copias antiguas en
+ * `metadata` se eliminan para que un tamaño borrado no reaparezca al leerlo.
+ */
+export const buildSizesUpdate = (product: CatalogProduct, sizes: SizeOption[]) => {
+  const metadata =
+    product.metadata && typeof product.metadata === 'object' ? { ...product.metadata } : null;
+  if (metadata) {
+    LEGACY_SIZE_KEYS.forEach((key) => {
+      delete metadata[key];
+    });
+  }
+  return {
+    available_sizes: sizes,
+    metadata,
+  };
+};
+
+export const readProductSizes = (product: CatalogProduct) => extractSizeOptions(product);
+
+type PriceChangeRow = {
+  id: string;
+  productId: string;
+  sizeId: string | null;
+  price: number | string;
+};
+
+/**
+ * Aplica los cambios de precio cuya fecha ya pasó. Se invoca al leer el
+ * catálogo y al cotizar un pedido, así que la caja nunca cobra el precio
+ * anterior. Cada cambio se reclama con una actualización condicionada a
+ * `scheduled`; si dos lecturas coinciden, solo una lo aplica y lo registra.
+ */
+export const applyDuePriceChanges = async () => {
+  const nowISO = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from(PRICE_CHANGES_TABLE)
+    .select('id,"productId","sizeId",price')
+    .eq('status', 'scheduled')
+    .lte('effectiveAt', nowISO)
+    .order('effectiveAt', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  const setStatus = (id: string, from: string, to: string) =>
+    supabaseAdmin
+      .from(PRICE_CHANGES_TABLE)
+      .update({ status: to, appliedAt: to === 'scheduled' ? null : nowISO })
+      .eq('id', id)
+      .eq('status', from)
+      .select('id');
+
+  let applied = 0;
+  for (const change of (data ?? []) as PriceChangeRow[]) {
+    const { data: claimed, error: claimError } = await setStatus(change.id, 'scheduled', 'applied');
+    if (claimError) {
+      throw new Error(claimError.message);
+    }
+    if (!claimed?.length) {
+      continue;
+    }
+    const product = await loadCatalogProduct(change.productId);
+    const price = roundCurrency(Number(change.price));
+    const sizes = product ? readProductSizes(product) : [];
+    if (
+      !product ||
+      !Number.isFinite(price) ||
+      (change.sizeId && !sizes.some((size) => size.id === change.sizeId))
+    ) {
+      await setStatus(change.id, 'applied', 'cancelled');
+      continue;
+    }
+    const update = change.sizeId
+      ? buildSizesUpdate(
+          product,
+          sizes.map((size) => (size.id === change.sizeId ? { ...size, price } : size))
+        )
+      : { price };
+    const { error: updateError } = await supabaseAdmin
+      .from(CATALOG_PRODUCTS_TABLE)
+      .update({ ...update, updatedAt: nowISO })
+      .eq('id', product.id);
+    if (updateError) {
+      console.warn('No pudimos aplicar el cambio de precio programado:', updateError.message);
+      // Se libera para reintentarlo en la siguiente lectura.
+      await setStatus(change.id, 'applied', 'scheduled');
+      continue;
+    }
+    await logCatalogAction({
+      action: 'catalog.price.apply',
+      details: {
+        productId: product.id,
+        sizeId: change.sizeId,
+        priceChangeId: change.id,
+        before: change.sizeId
+          ? sizes.find((size) => size.id === change.sizeId)?.price ?? null
+          : product.price ?? null,
+        after: price,
+      },
+    });
+    applied += 1;
+  }
+  return applied;
+};
@@ -0,0 +1,674 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'node:crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { CfdiInvoice, CustomerFiscalProfile, PosSettings } from '@/lib/api';
+import {
+  CFDI_CANCELLATION_MOTIVES,
+  CFDI_FISCAL_REGIMES,
+  CFDI_USES,
+  PUBLIC_RECEIVER_NAME,
+  PUBLIC_RECEIVER_RFC,
+  buildCfdiPdfLines,
+  buildCfdiXml,
+  buildGlobalConcepts,
+  buildOrderConcepts,
+  isValidPostalCode,
+  isValidRfc,
+  normalizeRfc,
+  resolveCfdiIssuer,
+  resolveGlobalPaymentForm,
+  resolvePaymentForm,
+  type CfdiDocument,
+  type CfdiIssuer,
+  type CfdiOrderItem,
+} from '@/lib/cfdi';
+import { resolvePacProvider } from '@/lib/cfdi-pac';
+import { isPublicSaleOrder, loadPublicSalesHistory } from '@/lib/public-sales';
+import { buildTextPdf } from '@/lib/text-pdf';
+
+export const CFDI_INVOICES_TABLE = process.env.SUPABASE_CFDI_INVOICES_TABLE ?? 'cfdi_invoices';
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const TICKETS_TABLE = process.env.SUPABASE_TICKETS_TABLE ?? 'tickets';
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const POS_SETTINGS_TABLE = process.env.SUPABASE_POS_SETTINGS_TABLE ?? 'pos_settings';
+const INVOICE_LIST_LIMIT = 100;
+
+const INVOICE_SUMMARY_FIELDS = [
+  'id',
+  'kind',
+  '"orderId"',
+  '"ticketId"',
+  '"userId"',
+  'series',
+  'folio',
+  'uuid',
+  'status',
+  '"receiverRfc"',
+  '"receiverName"',
+  '"receiverRegime"',
+  '"receiverPostalCode"',
+  '"cfdiUse"',
+  '"paymentForm"',
+  'subtotal',
+  'discount',
+  'tax',
+  'total',
+  'currency',
+  '"globalMonth"',
+  '"orderIds"',
+  '"pacProvider"',
+  '"stampedAt"',
+  '"cancellationMotive"',
+  '"replacementUuid"',
+  '"cancelledAt"',
+  '"createdAt"',
+].join(',');
+
+const FISCAL_PROFILE_FIELDS = 'id,"fiscalRfc","fiscalName","fiscalRegime","fiscalPostalCode","cfdiUse"';
+
+export type InvoiceResult =
+  | { ok: true; invoice: CfdiInvoice }
+  | { ok: false; status: number; error: string };
+
+const fail = (status: number, error: string): InvoiceResult => ({ ok: false, status, error });
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toTrimmed = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const parseJson = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+export const normalizeInvoiceRow = (row: Record<string, unknown>): CfdiInvoice => {
+  const orderIds = parseJson(row.orderIds);
+  return {
+    id: String(row.id),
+    kind: row.kind === 'global' ? 'global' : 'individual',
+    orderId: toTrimmed(row.orderId),
+    ticketId: toTrimmed(row.ticketId),
+    userId: toTrimmed(row.userId),
+    series: String(row.series ?? ''),
+    folio: toNumber(row.folio),
+    uuid: toTrimmed(row.uuid),
+    status:
+      row.status === 'cancelled' || row.status === 'cancel_pending' ? row.status : 'stamped',
+    receiverRfc: String(row.receiverRfc ?? ''),
+    receiverName: String(row.receiverName ?? ''),
+    receiverRegime: String(row.receiverRegime ?? ''),
+    receiverPostalCode: String(row.receiverPostalCode ?? ''),
+    cfdiUse: String(row.cfdiUse ?? ''),
+    paymentForm: String(row.paymentForm ?? ''),
+    subtotal: toNumber(row.subtotal),
+    discount: toNumber(row.discount),
+    tax: toNumber(row.tax),
+    total: toNumber(row.total),
+    currency: String(row.currency ?? 'MXN'),
+    globalMonth: toTrimmed(row.globalMonth),
+    orderCount: Array.isArray(orderIds) ? orderIds.length : row.orderId ? 1 : 0,
+    pacProvider: toTrimmed(row.pacProvider),
+    stampedAt: toTrimmed(row.stampedAt),
+    cancellationMotive: toTrimmed(row.cancellationMotive),
+    replacementUuid: toTrimmed(row.replacementUuid),
+    cancelledAt: toTrimmed(row.cancelledAt),
+    createdAt: String(row.createdAt ?? ''),
+  };
+};
+
+export const normalizeFiscalProfile = (
+  row: Record<string, unknown> | null | undefined
+): CustomerFiscalProfile => ({
+  rfc: toTrimmed(row?.fiscalRfc),
+  name: toTrimmed(row?.fiscalName),
+  regime: toTrimmed(row?.fiscalRegime),
+  postalCode: toTrimmed(row?.fiscalPostalCode),
+  cfdiUse: toTrimmed(row?.cfdiUse),
+});
+
+/** Devuelve el primer problema de los datos fiscales del receptor o null si son válidos. */
+export const validateFiscalProfile = (profile: CustomerFiscalProfile): string | null => {
+  if (!isValidRfc(profile.rfc)) {
+    return 'El RFC no tiene un formato válido.';
+  }
+  if (!profile.name) {
+    return 'Captura el nombre o razón social tal como aparece en la constancia fiscal.';
+  }
+  if (!profile.regime || !CFDI_FISCAL_REGIMES[profile.regime]) {
+    return 'Selecciona un régimen fiscal válido.';
+  }
+  if (!isValidPostalCode(profile.postalCode)) {
+    return 'El código postal fiscal debe tener 5 dígitos.';
+  }
+  if (!profile.cfdiUse || !CFDI_USES[profile.cfdiUse]) {
+    return 'Selecciona un uso de CFDI válido.';
+  }
+  return null;
+};
+
+export const toFiscalProfileUpdate = (profile: CustomerFiscalProfile) => ({
+  fiscalRfc: profile.rfc ? normalizeRfc(profile.rfc) : null,
+  fiscalName: profile.name ? profile.name.toUpperCase() : null,
+  fiscalRegime: profile.regime,
+  fiscalPostalCode: profile.postalCode,
+  cfdiUse: profile.cfdiUse,
+});
+
+export const loadInvoices = async (filters: {
+  orderId?: string | null;
+  kind?: 'individual' | 'global' | null;
+  limit?: number;
+}) => {
+  let query = supabaseAdmin
+    .from(CFDI_INVOICES_TABLE)
+    .select(INVOICE_SUMMARY_FIELDS)
+    .order('createdAt', { ascending: false })
+    .limit(filters.limit ?? INVOICE_LIST_LIMIT);
+  if (filters.orderId) {
+    query = query.eq('orderId', filters.orderId);
+  }
+  if (filters.kind) {
+    query = query.eq('kind', filters.kind);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data ?? []) as unknown as Record<string, unknown>[]).map(normalizeInvoiceRow);
+};
+
+export const loadInvoiceFiles = async (invoiceId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(CFDI_INVOICES_TABLE)
+    .select(`${INVOICE_SUMMARY_FIELDS},xml,"pdfBase64"`)
+    .eq('id', invoiceId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) {
+    return null;
+  }
+  const row = data as unknown as Record<string, unknown>;
+  return {
+    invoice: normalizeInvoiceRow(row),
+    xml: typeof row.xml === 'string' ? row.xml : '',
+    pdfBase64: typeof row.pdfBase64 === 'string' ? row.pdfBase64 : null,
+  };
+};
+
+const loadIssuer = async (): Promise<CfdiIssuer | null> => {
+  const { data, error } = await supabaseAdmin
+    .from(POS_SETTINGS_TABLE)
+    .select('*')
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return resolveCfdiIssuer(data as PosSettings | null);
+};
+
+// El contador por serie (`next_cfdi_folio`) asigna el folio de forma atómica.
+const nextFolio = async (series: string) => {
+  const { data, error } = await supabaseAdmin.rpc('next_cfdi_folio', { p_series: series });
+  if (error) {
+    throw new Error(error.message);
+  }
+  const folio = toNumber(data);
+  if (folio <= 0) {
+    throw new Error('No pudimos asignar el folio de la factura.');
+  }
+  return folio;
+};
+
+/**
+ * Factura vigente que ampara el pedido, individual o global. Un pedido
+ * facturado no se reembolsa hasta cancelar el comprobante.
+ */
+export const findActiveOrderInvoice = async (orderId: string) => {
+  const [individual, global] = await Promise.all([
+    supabaseAdmin
+      .from(CFDI_INVOICES_TABLE)
+      .select('id,series,folio')
+      .eq('orderId', orderId)
+      .neq('status', 'cancelled')
+      .limit(1)
+      .maybeSingle(),
+    supabaseAdmin
+      .from(CFDI_INVOICES_TABLE)
+      .select('id,series,folio')
+      .eq('kind', 'global')
+      .filter('orderIds', 'cs', JSON.stringify([orderId]))
+      .neq('status', 'cancelled')
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (individual.error || global.error) {
+    throw new Error(individual.error?.message ?? global.error?.message);
+  }
+  const row = individual.data ?? global.data;
+  return row ? { id: String(row.id), series: String(row.series), folio: toNumber(row.folio) } : null;
+};
+
+const linkTicketsToInvoice = async (orderIds: string[], invoiceId: string) => {
+  if (!orderIds.length) {
+    return;
+  }
+  const { error } = await supabaseAdmin
+    .from(TICKETS_TABLE)
+    .update({ invoiceId })
+    .in('orderId', orderIds);
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+/**
+ * Timbra el comprobante con el PAC configurado, genera su representación
+ * impresa y guarda XML y PDF. Los tickets de los pedidos quedan ligados a la factura.
+ */
+const stampAndStore = async (input: {
+  document: CfdiDocument;
+  kind: 'individual' | 'global';
+  orderIds: string[];
+  orderId?: string | null;
+  ticketId?: string | null;
+  userId?: string | null;
+  globalMonth?: string | null;
+  staffId?: string | null;
+}): Promise<InvoiceResult> => {
+  const { xml, totals } = buildCfdiXml(input.document);
+  const provider = resolvePacProvider();
+
+  let stamp: Awaited<ReturnType<typeof provider.stamp>>;
+  try {
+    stamp = await provider.stamp(xml);
+  } catch (stampError) {
+    const message = stampError instanceof Error ? stampError.message : 'sin detalle';
+    return fail(502, `El PAC rechazó el comprobante: ${message}`);
+  }
+
+  const pdf = buildTextPdf(buildCfdiPdfLines(input.document, stamp));
+  const record = {
+    id: randomUUID(),
+    kind: input.kind,
+    orderId: input.orderId ?? null,
+    ticketId: input.ticketId ?? null,
+    userId: input.userId ?? null,
+    series: input.document.series,
+    folio: input.document.folio,
+    uuid: stamp.uuid,
+    status: 'stamped',
+    receiverRfc: input.document.receiver.rfc,
+    receiverName: input.document.receiver.name,
+    receiverRegime: input.document.receiver.regime,
+    receiverPostalCode: input.document.receiver.postalCode,
+    cfdiUse: input.document.receiver.cfdiUse,
+    paymentForm: input.document.paymentForm,
+    subtotal: totals.subtotal,
+    discount: totals.discount,
+    tax: totals.tax,
+    total: totals.total,
+    currency: input.document.currency,
+    globalMonth: input.globalMonth ?? null,
+    orderIds: input.orderIds,
+    xml: stamp.xml,
+    pdfBase64: pdf.toString('base64'),
+    pacProvider: provider.name,
+    stampedAt: new Date().toISOString(),
+    createdByStaffId: input.staffId ?? null,
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from(CFDI_INVOICES_TABLE)
+    .insert(record)
+    .select(INVOICE_SUMMARY_FIELDS)
+    .single();
+  if (error) {
+    if (error.code === '23505') {
+      return fail(409, 'Otra factura se emitió al mismo tiempo; intenta de nuevo.');
+    }
+    throw new Error(error.message);
+  }
+
+  await linkTicketsToInvoice(input.orderIds, record.id);
+  return { ok: true, invoice: normalizeInvoiceRow(data as unknown as Record<string, unknown>) };
+};
+
+const parseOrderItems = (value: unknown): CfdiOrderItem[] => {
+  const parsed = parseJson(value);
+  if (Array.isArray(parsed)) {
+    return parsed as CfdiOrderItem[];
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { items?: unknown }).items)) {
+    return (parsed as { items: CfdiOrderItem[] }).items;
+  }
+  return [];
+};
+
+/**
+ * Factura un pedido completado a nombre del cliente. Los datos fiscales
+ * capturados en caja tienen prioridad sobre los guardados en su perfil y, si
+ * se pide, reemplazan a estos últimos.
+ */
+export const issueOrderInvoice = async (input: {
+  orderId: string;
+  receiver?: Partial<CustomerFiscalProfile> | null;
+  saveToProfile?: boolean;
+  staffId?: string | null;
+}): Promise<InvoiceResult> => {
+  const { data: order, error: orderError } = await supabaseAdmin
+    .from(ORDERS_TABLE)
+    .select('*')
+    .eq('id', input.orderId)
+    .maybeSingle();
+  if (orderError) {
+    throw new Error(orderError.message);
+  }
+  if (!order) {
+    return fail(404, 'Pedido no encontrado');
+  }
+  if (order.status !== 'completed') {
+    return fail(400, 'Solo se pueden facturar pedidos completados.');
+  }
+  if (isPublicSaleOrder(order)) {
+    return fail(400, 'Las ventas al público general se incluyen en la factura global del mes.');
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from(CFDI_INVOICES_TABLE)
+    .select('id')
+    .eq('orderId', input.orderId)
+    .neq('status', 'cancelled')
+    .limit(1)
+    .maybeSingle();
+  if (existingError) {
+    throw new Error(existingError.message);
+  }
+  if (existing) {
+    return fail(409, 'El pedido ya tiene una factura vigente.');
+  }
+
+  let storedProfile: CustomerFiscalProfile = normalizeFiscalProfile(null);
+  if (order.userId) {
+    const { data: user, error: userError } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .select(FISCAL_PROFILE_FIELDS)
+      .eq('id', order.userId)
+      .maybeSingle();
+    if (userError) {
+      throw new Error(userError.message);
+    }
+    storedProfile = normalizeFiscalProfile(user as Record<string, unknown> | null);
+  }
+  const overrides = input.receiver ?? {};
+  const profile: CustomerFiscalProfile = {
+    rfc: toTrimmed(overrides.rfc) ?? storedProfile.rfc,
+    name: toTrimmed(overrides.name) ?? storedProfile.name,
+    regime: toTrimmed(overrides.regime) ?? storedProfile.regime,
+    postalCode: toTrimmed(overrides.postalCode) ?? storedProfile.postalCode,
+    cfdiUse: toTrimmed(overrides.cfdiUse) ?? storedProfile.cfdiUse ?? 'G03',
+  };
+  const profileError = validateFiscalProfile(profile);
+  if (profileError) {
+    return fail(400, profileError);
+  }
+
+  const issuer = await loadIssuer();
+  if (!issuer) {
+    return fail(400, 'Configura RFC, razón social, régimen y código postal del emisor.');
+  }
+
+  const totals = (parseJson(order.totals) ?? {}) as Record<string, unknown>;
+  const concepts = buildOrderConcepts(parseOrderItems(order.items), {
+    taxCharged: toNumber(totals.tax ?? order.vat_amount) > 0,
+    orderDiscount: toNumber(totals.discount),
+    fallbackTotal:
+      toNumber(order.total) - toNumber(order.tipAmount) - toNumber(order.deliveryTipAmount),
+  });
+  if (!concepts.length) {
+    return fail(400, 'El pedido no tiene importes facturables.');
+  }
+
+  const { data: ticket, error: ticketError } = await supabaseAdmin
+    .from(TICKETS_TABLE)
+    .select('id')
+    .eq('orderId', input.orderId)
+    .maybeSingle();
+  if (ticketError) {
+    throw new Error(ticketError.message);
+  }
+
+  const fiscalUpdate = toFiscalProfileUpdate(profile);
+  const result = await stampAndStore({
+    document: {
+      series: issuer.series,
+      folio: await nextFolio(issuer.series),
+      issuedAt: new Date(),
+      paymentForm: resolvePaymentForm(order.queuedPaymentMethod, order.metadata),
+      currency: 'MXN',
+      issuer,
+      receiver: {
+        rfc: fiscalUpdate.fiscalRfc as string,
+        name: fiscalUpdate.fiscalName as string,
+        regime: profile.regime as string,
+        postalCode: profile.postalCode as string,
+        cfdiUse: profile.cfdiUse as string,
+      },
+      concepts,
+    },
+    kind: 'individual',
+    orderIds: [input.orderId],
+    orderId: input.orderId,
+    ticketId: ticket?.id ?? null,
+    userId: order.userId ?? null,
+    staffId: input.staffId,
+  });
+
+  if (result.ok && input.saveToProfile && order.userId) {
+    const { error: profileUpdateError } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .update(fiscalUpdate)
+      .eq('id', order.userId);
+    if (profileUpdateError) {
+      console.error('No pudimos guardar los datos fiscales del cliente:', profileUpdateError);
+    }
+  }
+  return result;
+};
+
+/**
+ * Factura global mensual (periodicidad 04) con los tickets del público general
+ * que reporta `/api/public-sales-summary`, sin los que ya se facturaron aparte.
+ */
+export const issueGlobalInvoice = async (input: {
+  month: string;
+  staffId?: string | null;
+}): Promise<InvoiceResult> => {
+  const currentMonth = new Date().toISOString().substring(0, 7);
+  if (input.month > currentMonth) {
+    return fail(400, 'No se puede facturar un mes futuro.');
+  }
+
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from(CFDI_INVOICES_TABLE)
+    .select('id')
+    .eq('kind', 'global')
+    .eq('globalMonth', input.month)
+    .neq('status', 'cancelled')
+    .limit(1)
+    .maybeSingle();
+  if (existingError) {
+    throw new Error(existingError.message);
+  }
+  if (existing) {
+    return fail(409, 'Ese mes ya tiene una factura global vigente.');
+  }
+
+  const { publicHistory } = await loadPublicSalesHistory();
+  const monthOrders = publicHistory.find((entry) => entry.month === input.month)?.orders ?? [];
+  const orderIds = monthOrders.map((order) => order.id);
+
+  const invoiced = new Set<string>();
+  if (orderIds.length) {
+    const { data: invoicedRows, error: invoicedError } = await supabaseAdmin
+      .from(CFDI_INVOICES_TABLE)
+      .select('"orderId"')
+      .in('orderId', orderIds)
+      .neq('status', 'cancelled');
+    if (invoicedError) {
+      throw new Error(invoicedError.message);
+    }
+    (invoicedRows ?? []).forEach((row) => invoiced.add(String(row.orderId)));
+  }
+  const pending = monthOrders.filter((order) => !invoiced.has(order.id));
+  const concepts = buildGlobalConcepts(pending);
+  if (!concepts.length) {
+    return fail(400, 'No hay ventas al público general por facturar en ese mes.');
+  }
+
+  const issuer = await loadIssuer();
+  if (!issuer) {
+    return fail(400, 'Configura RFC, razón social, régimen y código postal del emisor.');
+  }
+
+  const [year, month] = input.month.split('-');
+  return stampAndStore({
+    document: {
+      series: issuer.globalSeries,
+      folio: await nextFolio(issuer.globalSeries),
+      issuedAt: new Date(),
+      paymentForm: resolveGlobalPaymentForm(pending),
+      currency: 'MXN',
+      issuer,
+      receiver: {
+        rfc: PUBLIC_RECEIVER_RFC,
+        name: PUBLIC_RECEIVER_NAME,
+        regime: '616',
+        postalCode: issuer.postalCode,
+        cfdiUse: 'S01',
+      },
+      concepts,
+      globalPeriod: { month, year },
+    },
+    kind: 'global',
+    orderIds: pending.map((order) => order.id),
+    globalMonth: input.month,
+    staffId: input.staffId,
+  });
+};
+
+/**
+ * Solicita la cancelación al PAC. Si el receptor debe aceptarla queda como
+ * `cancel_pending`; al cancelarse, los tickets dejan de apuntar a la factura.
+ */
+export const cancelInvoice = async (input: {
+  invoiceId: string;
+  motive: string;
+  replacementUuid?: string | null;
+  staffId?: string | null;
+}): Promise<InvoiceResult> => {
+  if (!CFDI_CANCELLATION_MOTIVES[input.motive]) {
+    return fail(400, 'Motivo de cancelación inválido.');
+  }
+  const replacementUuid = toTrimmed(input.replacementUuid)?.toUpperCase() ?? null;
+  if (input.motive === '01' && !replacementUuid) {
+    return fail(400, 'El motivo 01 requiere el folio fiscal de la factura que la sustituye.');
+  }
+
+  const current = await loadInvoiceFiles(input.invoiceId);
+  if (!current) {
+    return fail(404, 'Factura no encontrada');
+  }
+  if (current.invoice.status === 'cancelled') {
+    return fail(409, 'La factura ya está cancelada.');
+  }
+
+  const issuer = await loadIssuer();
+  if (!issuer) {
+    return fail(400, 'Configura RFC, razón social, régimen y código postal del emisor.');
+  }
+
+  const provider = resolvePacProvider();
+  let cancellation: Awaited<ReturnType<typeof provider.cancel>>;
+  try {
+    cancellation = await provider.cancel({
+      uuid: current.invoice.uuid ?? '',
+      issuerRfc: issuer.rfc,
+      receiverRfc: current.invoice.receiverRfc,
+      total: current.invoice.total,
+      motive: input.motive,
+      replacementUuid: input.motive === '01' ? replacementUuid : null,
+    });
+  } catch (cancelError) {
+    const message = cancelError instanceof Error ? cancelError.message : 'sin detalle';
+    return fail(502, `El PAC rechazó la cancelación: ${message}`);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(CFDI_INVOICES_TABLE)
+    .update({
+      status: cancellation.status,
+      cancellationMotive: input.motive,
+      replacementUuid: input.motive === '01' ? replacementUuid : null,
+      cancellationAcknowledgement: cancellation.acknowledgement,
+      cancelledAt: cancellation.cancelledAt ? new Date().toISOString() : null,
+      cancelledByStaffId: input.staffId ?? null,
+    })
+    .eq('id', input.invoiceId)
+    .select(INVOICE_SUMMARY_FIELDS)
+    .single();
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (cancellation.status === 'cancelled') {
+    const { error: ticketError } = await supabaseAdmin
+      .from(TICKETS_TABLE)
+      .update({ invoiceId: null })
+      .eq('invoiceId', input.invoiceId);
+    if (ticketError) {
+      throw new Error(ticketError.message);
+    }
+  }
+
+  return { ok: true, invoice: normalizeInvoiceRow(data as unknown as Record<string, unknown>) };
+};
@@ -0,0 +1,127 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { formatCfdiDate } from '@/lib/cfdi';
+
+export type PacStampResult = {
+  uuid: string;
+  /** XML sellado con el complemento TimbreFiscalDigital. */
+  xml: string;
+  stampedAt: string;
+  satCertificateNumber: string;
+  /** Verdadero cuando el timbre no proviene de un PAC autorizado por el SAT. */
+  testMode: boolean;
+};
+
+export type PacCancelInput = {
+  uuid: string;
+  issuerRfc: string;
+  receiverRfc: string;
+  total: number;
+  motive: string;
+  replacementUuid?: string | null;
+};
+
+export type PacCancelResult = {
+  /** `cancel_pending` cuando el receptor aún debe aceptar la cancelación. */
+  status: 'cancelled' | 'cancel_pending';
+  acknowledgement: string;
+  cancelledAt: string | null;
+};
+
+/**
+ * Contrato que cumple cualquier proveedor de certificación (PAC). Para
+ * conectar uno nuevo basta con implementarlo y registrarlo en `PAC_PROVIDERS`.
+ */
+export interface PacProvider {
+  name: string;
+  stamp(xml: string): Promise<PacStampResult>;
+  cancel(input: PacCancelInput): Promise<PacCancelResult>;
+}
+
+const TFD_NAMESPACE = 'http://www.sat.gob.mx/TimbreFiscalDigital';
+const LOCAL_PAC_RFC = 'AAA010101AAA';
+const LOCAL_SAT_CERTIFICATE = '00000000000000000000';
+
+const digest = (value: string) => createHash('sha256').update(value, 'utf8').digest('base64');
+
+/**
+ * PAC local para desarrollo y pruebas: sella con un hash del XML y genera un
+ * UUID aleatorio. Los comprobantes que emite no tienen validez ante el SAT.
+ */
+const createLocalPacProvider = (): PacProvider => ({
+  name: 'local',
+  async stamp(xml) {
+    const uuid = randomUUID().toUpperCase();
+    const stampedAt = formatCfdiDate(new Date());
+    const sealed = xml.replace('Sello=""', `Sello="${digest(xml)}"`);
+    const selloCfd = digest(sealed);
+    const timbre = [
+      '  <cfdi:Complemento>',
+      `    <tfd:TimbreFiscalDigital xmlns:tfd="${TFD_NAMESPACE}" Version="1.1" UUID="${uuid}" FechaTimbrado="${stampedAt}" RfcProvCertif="${LOCAL_PAC_RFC}" SelloCFD="${selloCfd}" NoCertificadoSAT="${LOCAL_SAT_CERTIFICATE}" SelloSAT="${digest(
+        `${uuid}|${stampedAt}|${selloCfd}`
+      )}"/>`,
+      '  </cfdi:Complemento>',
+    ].join('\n');
+    return {
+      uuid,
+      xml: sealed.replace('</cfdi:Comprobante>', `${timbre}\n</cfdi:Comprobante>`),
+      stampedAt,
+      satCertificateNumber: LOCAL_SAT_CERTIFICATE,
+      testMode: true,
+    };
+  },
+  async cancel(input) {
+    const cancelledAt = formatCfdiDate(new Date());
+    const acknowledgement = [
+      '<Acuse',
+      ` Fecha="${cancelledAt}"`,
+      ` RfcEmisor="${input.issuerRfc}"`,
+      ` UUID="${input.uuid}"`,
+      ` Motivo="${input.motive}"`,
+      input.replacementUuid ? ` FolioSustitucion="${input.replacementUuid}"` : '',
+      ' EstatusUUID="201"/>',
+    ].join('');
+    return { status: 'cancelled', acknowledgement, cancelledAt };
+  },
+});
+
+const PAC_PROVIDERS: Record<string, () => PacProvider> = {
+  local: createLocalPacProvider,
+};
+
+/** Proveedor configurado en `CFDI_PAC_PROVIDER` (por defecto, el PAC local). */
+export const resolvePacProvider = (): PacProvider => {
+  const name = process.env.CFDI_PAC_PROVIDER?.trim().toLowerCase() || 'local';
+  const factory = PAC_PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Proveedor PAC no soportado: ${name}`);
+  }
+  return factory();
+};
@@ -0,0 +1,530 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import type { PosSettings } from '@/lib/api';
+import { extractPaymentTenders } from '@/lib/payment-tenders';
+
+const CFDI_NAMESPACE = 'http://www.sat.gob.mx/cfd/4';
+const CFDI_SCHEMA_LOCATION =
+  'http://www.sat.gob.mx/cfd/4 http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd';
+const CFDI_TIMEZONE = 'America/Mexico_City';
+
+const parseRate = (value?: string | null) => {
+  const parsed = Number.parseFloat(value ?? '');
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return null;
+  }
+  return parsed > 1 ? parsed / 100 : parsed;
+};
+
+/** Tasa de IVA trasladado en los CFDI; independiente de si el POS lo cobra aparte. */
+export const CFDI_TAX_RATE = parseRate(process.env.CFDI_IVA_RATE) ?? 0.16;
+const DEFAULT_PRODUCT_CODE = process.env.CFDI_DEFAULT_PRODUCT_CODE?.trim() || '90101501';
+const DEFAULT_UNIT_CODE = process.env.CFDI_DEFAULT_UNIT_CODE?.trim() || 'H87';
+
+export const PUBLIC_RECEIVER_RFC = 'XAXX010101000';
+export const PUBLIC_RECEIVER_NAME = 'PUBLICO EN GENERAL';
+
+/** Regímenes fiscales del catálogo c_RegimenFiscal del SAT. */
+export const CFDI_FISCAL_REGIMES: Record<string, string> = {
+  '601': 'General de Ley Personas Morales',
+  '603': 'Personas Morales con Fines no Lucrativos',
+  '605': 'Sueldos y Salarios e Ingresos Asimilados a Salarios',
+  '606': 'Arrendamiento',
+  '608': 'Demás ingresos',
+  '612': 'Personas Físicas con Actividades Empresariales y Profesionales',
+  '616': 'Sin obligaciones fiscales',
+  '621': 'Incorporación Fiscal',
+  '625': 'Actividades Empresariales con ingresos a través de Plataformas Tecnológicas',
+  '626': 'Régimen Simplificado de Confianza',
+};
+
+/** Usos de CFDI (c_UsoCFDI) habituales en consumo de alimentos. */
+export const CFDI_USES: Record<string, string> = {
+  G01: 'Adquisición de mercancías',
+  G03: 'Gastos en general',
+  S01: 'Sin efectos fiscales',
+  CP01: 'Pagos',
+};
+
+/** Motivos de cancelación del SAT; el 01 exige el UUID que sustituye al CFDI. */
+export const CFDI_CANCELLATION_MOTIVES: Record<string, string> = {
+  '01': 'Comprobante emitido con errores con relación',
+  '02': 'Comprobante emitido con errores sin relación',
+  '03': 'No se llevó a cabo la operación',
+  '04': 'Operación nominativa relacionada en una factura global',
+};
+
+/** Formas de pago (c_FormaPago) por método de cobro del POS. */
+const PAYMENT_FORMS: Record<string, string> = {
+  efectivo: '01',
+  transferencia: '03',
+  credito: '04',
+  cripto: '31',
+  debito: '28',
+};
+const UNDEFINED_PAYMENT_FORM = '99';
+
+const RFC_PATTERN = /^[A-ZÑ&]{3,4}\d{6}[A-Z\d]{3}$/;
+const POSTAL_CODE_PATTERN = /^\d{5}$/;
+
+export const normalizeRfc = (value?: string | null) =>
+  (value ?? '').trim().toUpperCase().replace(/[\s-]/g, '');
+
+export const isValidRfc = (value?: string | null) => RFC_PATTERN.test(normalizeRfc(value));
+
+export const isValidPostalCode = (value?: string | null) =>
+  POSTAL_CODE_PATTERN.test((value ?? '').trim());
+
+export type CfdiIssuer = {
+  rfc: string;
+  name: string;
+  regime: string;
+  postalCode: string;
+  series: string;
+  globalSeries: string;
+  certificateNumber: string;
+};
+
+export type CfdiReceiver = {
+  rfc: string;
+  name: string;
+  regime: string;
+  postalCode: string;
+  cfdiUse: string;
+};
+
+export type CfdiConcept = {
+  productCode: string;
+  sku: string | null;
+  quantity: number;
+  unitCode: string;
+  description: string;
+  unitValue: number;
+  amount: number;
+  discount: number;
+  taxBase: number;
+  taxAmount: number;
+};
+
+export type CfdiTotals = {
+  subtotal: number;
+  discount: number;
+  taxBase: number;
+  tax: number;
+  total: number;
+};
+
+export type CfdiDocument = {
+  series: string;
+  folio: number;
+  issuedAt: Date;
+  paymentForm: string;
+  currency: string;
+  issuer: CfdiIssuer;
+  receiver: CfdiReceiver;
+  concepts: CfdiConcept[];
+  /** Solo en la factura global: periodicidad mensual del mes facturado. */
+  globalPeriod?: { month: string; year: string } | null;
+};
+
+export type CfdiOrderItem = {
+  productId?: string | null;
+  name?: string | null;
+  sizeLabel?: string | null;
+  quantity?: number | null;
+  price?: number | null;
+  discount?: number | null;
+  refundedQuantity?: number | null;
+};
+
+export type CfdiGlobalOrder = {
+  id: string;
+  ticketCode: string | null;
+  total: number;
+  tipAmount: number;
+  tax: number;
+  paymentMethod: string | null;
+};
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+const toNumber = (value: unknown) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toTrimmed = (value?: string | null) => value?.trim() || null;
+
+/**
+ * Lee los datos del emisor guardados en `pos_settings`. Devuelve null si falta
+ * cualquiera de los datos obligatorios para timbrar.
+ */
+export const resolveCfdiIssuer = (settings?: PosSettings | null): CfdiIssuer | null => {
+  const rfc = normalizeRfc(settings?.rfc);
+  const name = toTrimmed(settings?.legal_name);
+  const regime = toTrimmed(settings?.fiscal_regime);
+  const postalCode = toTrimmed(settings?.expedition_postal_code);
+  if (!isValidRfc(rfc) || !name || !regime || !isValidPostalCode(postalCode)) {
+    return null;
+  }
+  return {
+    rfc,
+    name: name.toUpperCase(),
+    regime,
+    postalCode: postalCode as string,
+    series: toTrimmed(settings?.invoice_series)?.toUpperCase() ?? 'A',
+    globalSeries: toTrimmed(settings?.global_invoice_series)?.toUpperCase() ?? 'G',
+    certificateNumber: toTrimmed(settings?.certificate_number) ?? '',
+  };
+};
+
+/**
+ * Forma de pago del CFDI. En pagos divididos se usa la del pago con mayor
+ * monto, como pide el SAT para operaciones con varias formas de pago.
+ */
+export const resolvePaymentForm = (method?: string | null, metadata?: unknown) => {
+  const tenders = extractPaymentTenders(metadata);
+  if (tenders.length) {
+    const largest = tenders.reduce((max, tender) => (tender.amount > max.amount ? tender : max));
+    return PAYMENT_FORMS[largest.method] ?? UNDEFINED_PAYMENT_FORM;
+  }
+  return PAYMENT_FORMS[(method ?? '').trim().toLowerCase()] ?? UNDEFINED_PAYMENT_FORM;
+};
+
+const buildConcept = (input: {
+  productCode: string;
+  sku: string | null;
+  quantity: number;
+  unitCode: string;
+  description: string;
+  netUnitValue: number;
+  netDiscount: number;
+}): CfdiConcept => {
+  const unitValue = round(input.netUnitValue, 6);
+  const amount = round(unitValue * input.quantity);
+  const discount = Math.min(round(input.netDiscount), amount);
+  const taxBase = round(amount - discount);
+  return {
+    productCode: input.productCode,
+    sku: input.sku,
+    quantity: input.quantity,
+    unitCode: input.unitCode,
+    description: input.description,
+    unitValue,
+    amount,
+    discount,
+    taxBase,
+    taxAmount: round(taxBase * CFDI_TAX_RATE),
+  };
+};
+
+/**
+ * Conceptos de la factura de un pedido a partir de `orders.items`. Si el IVA
+ * se cobró aparte (`taxCharged`), los precios del pedido ya son la base; si no,
+ * se desglosa del precio. Las propinas no son ingreso del emisor y no se facturan.
+ * Las piezas reembolsadas (`refundedQuantity`) se descuentan junto con su parte
+ * del descuento.
+ */
+export const buildOrderConcepts = (
+  items: CfdiOrderItem[],
+  options: { taxCharged: boolean; orderDiscount?: number; fallbackTotal?: number }
+): CfdiConcept[] => {
+  const factor = options.taxCharged ? 1 : 1 / (1 + CFDI_TAX_RATE);
+  const lines = items.filter((item) => toNumber(item.quantity) > 0 && toNumber(item.price) > 0);
+
+  if (!lines.length) {
+    const total = toNumber(options.fallbackTotal);
+    return total > 0
+      ? [
+          buildConcept({
+            productCode: DEFAULT_PRODUCT_CODE,
+            sku: null,
+            quantity: 1,
+            unitCode: 'E48',
+            description: 'Consumo de alimentos y bebidas',
+            netUnitValue: total * factor,
+            netDiscount: 0,
+          }),
+        ]
+      : [];
+  }
+
+  // Pedidos antiguos guardan solo el descuento total; se reparte por importe.
+  const hasLineDiscounts = lines.some((item) => toNumber(item.discount) > 0);
+  const grossSubtotal = lines.reduce(
+    (acc, item) => acc + toNumber(item.price) * toNumber(item.quantity),
+    0
+  );
+  const orderDiscount = hasLineDiscounts ? 0 : toNumber(options.orderDiscount);
+
+  return lines.flatMap((item) => {
+    const soldQuantity = toNumber(item.quantity);
+    const quantity = Math.max(0, soldQuantity - toNumber(item.refundedQuantity));
+    if (quantity <= 0) {
+      return [];
+    }
+    const gross = toNumber(item.price) * quantity;
+    const lineDiscount = hasLineDiscounts
+      ? (toNumber(item.discount) * quantity) / soldQuantity
+      : grossSubtotal > 0
+        ? (orderDiscount * gross) / grossSubtotal
+        : 0;
+    const name = toTrimmed(item.name) ?? toTrimmed(item.productId) ?? 'Producto';
+    const sizeLabel = toTrimmed(item.sizeLabel);
+    return [
+      buildConcept({
+        productCode: DEFAULT_PRODUCT_CODE,
+        sku: toTrimmed(item.productId),
+        quantity,
+        unitCode: DEFAULT_UNIT_CODE,
+        description: sizeLabel ? `${name} (${sizeLabel})` : name,
+        netUnitValue: toNumber(item.price) * factor,
+        netDiscount: lineDiscount * factor,
+      }),
+    ];
+  });
+};
+
+/**
+ * Conceptos de la factura global: uno por ticket del público general con la
+ * clave 01010101 y unidad ACT que exige el SAT. El IVA se toma del ticket si se
+ * cobró aparte o se desglosa del total sin propina.
+ */
+export const buildGlobalConcepts = (orders: CfdiGlobalOrder[]): CfdiConcept[] =>
+  orders
+    .map((order) => {
+      const gross = toNumber(order.total) - toNumber(order.tipAmount);
+      const tax = toNumber(order.tax);
+      const net = tax > 0 ? gross - tax : gross / (1 + CFDI_TAX_RATE);
+      return buildConcept({
+        productCode: '01010101',
+        sku: order.ticketCode ?? order.id,
+        quantity: 1,
+        unitCode: 'ACT',
+        description: 'Venta',
+        netUnitValue: net,
+        netDiscount: 0,
+      });
+    })
+    .filter((concept) => concept.amount > 0);
+
+/** Forma de pago de la factura global: la que sumó más monto en el periodo. */
+export const resolveGlobalPaymentForm = (orders: CfdiGlobalOrder[]) => {
+  const totals = new Map<string, number>();
+  orders.forEach((order) => {
+    const form = resolvePaymentForm(order.paymentMethod);
+    totals.set(form, (totals.get(form) ?? 0) + toNumber(order.total));
+  });
+  const [top] = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  return top?.[0] ?? UNDEFINED_PAYMENT_FORM;
+};
+
+export const summarizeConcepts = (concepts: CfdiConcept[]): CfdiTotals => {
+  const subtotal = round(concepts.reduce((acc, concept) => acc + concept.amount, 0));
+  const discount = round(concepts.reduce((acc, concept) => acc + concept.discount, 0));
+  const taxBase = round(concepts.reduce((acc, concept) => acc + concept.taxBase, 0));
+  const tax = round(concepts.reduce((acc, concept) => acc + concept.taxAmount, 0));
+  return { subtotal, discount, taxBase, tax, total: round(subtotal - discount + tax) };
+};
+
+/** Fecha de emisión en hora local del centro (formato AAAA-MM-DDThh:mm:ss, sin zona). */
+export const formatCfdiDate = (date: Date) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: CFDI_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const read = (type: string) => parts.find((part) => part.type === type)?.value ?? '00';
+  return `${read('year')}-${read('month')}-${read('day')}T${read('hour')}:${read('minute')}:${read('second')}`;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const attributes = (values: Record<string, string | number | null | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+
+const money = (value: number) => value.toFixed(2);
+const TAX_RATE_LABEL = CFDI_TAX_RATE.toFixed(6);
+
+/**
+ * Genera el XML CFDI 4.0 sin sellar (Sello y Certificado vacíos). El PAC, que
+ * resguarda el CSD del emisor, sella y agrega el Timbre Fiscal Digital.
+ */
+export const buildCfdiXml = (document: CfdiDocument) => {
+  const totals = summarizeConcepts(document.concepts);
+  const comprobante = attributes({
+    'xmlns:cfdi': CFDI_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': CFDI_SCHEMA_LOCATION,
+    Version: '4.0',
+    Serie: document.series,
+    Folio: document.folio,
+    Fecha: formatCfdiDate(document.issuedAt),
+    Sello: '',
+    FormaPago: document.paymentForm,
+    NoCertificado: document.issuer.certificateNumber,
+    Certificado: '',
+    SubTotal: money(totals.subtotal),
+    Descuento: totals.discount > 0 ? money(totals.discount) : null,
+    Moneda: document.currency,
+    Total: money(totals.total),
+    TipoDeComprobante: 'I',
+    Exportacion: '01',
+    MetodoPago: 'PUE',
+    LugarExpedicion: document.issuer.postalCode,
+  });
+
+  const lines = [`<?xml version="1.0" encoding="UTF-8"?>`, `<cfdi:Comprobante ${comprobante}>`];
+  if (document.globalPeriod) {
+    lines.push(
+      `  <cfdi:InformacionGlobal ${attributes({
+        Periodicidad: '04',
+        Meses: document.globalPeriod.month,
+        Año: document.globalPeriod.year,
+      })}/>`
+    );
+  }
+  lines.push(
+    `  <cfdi:Emisor ${attributes({
+      Rfc: document.issuer.rfc,
+      Nombre: document.issuer.name,
+      RegimenFiscal: document.issuer.regime,
+    })}/>`,
+    `  <cfdi:Receptor ${attributes({
+      Rfc: document.receiver.rfc,
+      Nombre: document.receiver.name,
+      DomicilioFiscalReceptor: document.receiver.postalCode,
+      RegimenFiscalReceptor: document.receiver.regime,
+      UsoCFDI: document.receiver.cfdiUse,
+    })}/>`,
+    '  <cfdi:Conceptos>'
+  );
+  document.concepts.forEach((concept) => {
+    lines.push(
+      `    <cfdi:Concepto ${attributes({
+        ClaveProdServ: concept.productCode,
+        NoIdentificacion: concept.sku,
+        Cantidad: concept.quantity,
+        ClaveUnidad: concept.unitCode,
+        Descripcion: concept.description,
+        ValorUnitario: concept.unitValue.toFixed(6),
+        Importe: money(concept.amount),
+        Descuento: concept.discount > 0 ? money(concept.discount) : null,
+        ObjetoImp: '02',
+      })}>`,
+      '      <cfdi:Impuestos>',
+      '        <cfdi:Traslados>',
+      `          <cfdi:Traslado ${attributes({
+        Base: money(concept.taxBase),
+        Impuesto: '002',
+        TipoFactor: 'Tasa',
+        TasaOCuota: TAX_RATE_LABEL,
+        Importe: money(concept.taxAmount),
+      })}/>`,
+      '        </cfdi:Traslados>',
+      '      </cfdi:Impuestos>',
+      '    </cfdi:Concepto>'
+    );
+  });
+  lines.push(
+    '  </cfdi:Conceptos>',
+    `  <cfdi:Impuestos TotalImpuestosTrasladados="${money(totals.tax)}">`,
+    '    <cfdi:Traslados>',
+    `      <cfdi:Traslado ${attributes({
+      Base: money(totals.taxBase),
+      Impuesto: '002',
+      TipoFactor: 'Tasa',
+      TasaOCuota: TAX_RATE_LABEL,
+      Importe: money(totals.tax),
+    })}/>`,
+    '    </cfdi:Traslados>',
+    '  </cfdi:Impuestos>',
+    '</cfdi:Comprobante>'
+  );
+  return { xml: lines.join('\n'), totals };
+};
+
+/** Representación impresa del CFDI timbrado para el PDF que se entrega al cliente. */
+export const buildCfdiPdfLines = (
+  document: CfdiDocument,
+  stamp: { uuid: string; stampedAt: string; satCertificateNumber: string; testMode: boolean }
+) => {
+  const totals = summarizeConcepts(document.concepts);
+  const lines = [
+    `FACTURA ${document.series}-${document.folio} · CFDI 4.0`,
+    stamp.testMode ? 'TIMBRADO DE PRUEBA · SIN VALIDEZ FISCAL' : '',
+    '',
+    `Emisor: ${document.issuer.name} · RFC ${document.issuer.rfc}`,
+    `Régimen ${document.issuer.regime} · Lugar de expedición ${document.issuer.postalCode}`,
+    `Receptor: ${document.receiver.name} · RFC ${document.receiver.rfc}`,
+    `Régimen ${document.receiver.regime} · C.P. ${document.receiver.postalCode} · Uso ${document.receiver.cfdiUse}`,
+    `Fecha de emisión: ${formatCfdiDate(document.issuedAt)} · Forma de pago ${document.paymentForm} · PUE`,
+  ];
+  if (document.globalPeriod) {
+    lines.push(`Factura global · Periodo ${document.globalPeriod.month}/${document.globalPeriod.year}`);
+  }
+  lines.push('', 'Cant. | Clave | Descripción | Valor unitario | Importe');
+  document.concepts.forEach((concept) => {
+    lines.push(
+      `${concept.quantity} | ${concept.productCode} | ${concept.description} | ${concept.unitValue.toFixed(
+        2
+      )} | ${money(concept.amount)}`
+    );
+  });
+  lines.push(
+    '',
+    `Subtotal: ${money(totals.subtotal)}`,
+    ...(totals.discount > 0 ? [`Descuento: ${money(totals.discount)}`] : []),
+    `IVA ${(CFDI_TAX_RATE * 100).toFixed(0)}%: ${money(totals.tax)}`,
+    `Total: ${money(totals.total)} ${document.currency}`,
+    '',
+    `Folio fiscal (UUID): ${stamp.uuid}`,
+    `Fecha de timbrado: ${stamp.stampedAt}`,
+    `No. de certificado del SAT: ${stamp.satCertificateNumber}`,
+    'Este documento es una representación impresa de un CFDI.'
+  );
+  return lines;
+};
@@ -0,0 +1,663 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomInt, randomUUID } from 'node:crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import {
+  buildEncryptedUserColumns,
+  encryptCustomerField,
+  withDecryptedUserNames,
+  type RawUserRecord,
+} from '@/lib/customer-decrypt';
+import { decryptAddressRow, type EncryptedAddressRow } from '@/lib/address-decrypt';
+import {
+  LOYALTY_LEDGER_TABLE,
+  LOYALTY_PROGRAMS_REQUIRED_ERROR,
+  recalculateLoyaltyProgress,
+} from '@/lib/loyalty-sync';
+import { mergeCampaignRecipients } from '@/lib/marketing-campaigns';
+
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const ADDRESSES_TABLE = process.env.SUPABASE_ADDRESSES_TABLE ?? 'addresses';
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const LOYALTY_PROGRESS_TABLE = process.env.SUPABASE_LOYALTY_PROGRESS_TABLE ?? 'loyalty_program_progress';
+const MARKETING_RECIPIENTS_TABLE =
+  process.env.SUPABASE_MARKETING_RECIPIENTS_TABLE ?? 'marketing_campaign_recipients';
+
+// Mismo límite que el trigger `enforce_address_limit`.
+export const MAX_CUSTOMER_ADDRESSES = 3;
+
+const CLIENT_ID_ATTEMPTS = 8;
+const CLIENT_ID_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const ACCOUNT_FIELDS = [
+  'id',
+  '"clientId"',
+  'email',
+  '"firstNameEncrypted"',
+  '"firstNameIv"',
+  '"firstNameTag"',
+  '"firstNameSalt"',
+  '"lastNameEncrypted"',
+  '"lastNameIv"',
+  '"lastNameTag"',
+  '"lastNameSalt"',
+  '"phoneEncrypted"',
+  '"phoneIv"',
+  '"phoneTag"',
+  '"phoneSalt"',
+  'city',
+  'country',
+  '"marketingEmail"',
+  '"marketingSms"',
+  '"registrationSource"',
+  '"createdAt"',
+].join(',');
+
+const ADDRESS_FIELDS =
+  'id,"userId",label,nickname,type,"isDefault","createdAt","updatedAt",payload,payload_iv,payload_tag,payload_salt';
+
+/**
+ * Tablas cuyo historial pasa a la cuenta que sobrevive en una fusión. Las
+ * direcciones, el avance de lealtad y los envíos de campañas tienen reglas
+ * propias y van aparte.
+ */
+const MERGE_TABLES = [
+  ORDERS_TABLE,
+  process.env.SUPABASE_TICKETS_TABLE ?? 'tickets',
+  process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations',
+  process.env.SUPABASE_RESERVATION_FAILURES_TABLE ?? 'reservation_failures',
+  LOYALTY_LEDGER_TABLE,
+  process.env.SUPABASE_CUSTOMER_CONSUMPTION_TABLE ?? 'customer_consumption',
+  process.env.SUPABASE_PROMO_REDEMPTIONS_TABLE ?? 'promo_redemptions',
+  process.env.SUPABASE_CFDI_INVOICES_TABLE ?? 'cfdi_invoices',
+  process.env.SUPABASE_REVIEWS_TABLE ?? 'reviews',
+  // La bitácora ARCO se conserva aunque la cuenta duplicada se borre.
+  process.env.SUPABASE_DATA_RETENTION_LOGS_TABLE ?? 'data_retention_logs',
+];
+
+/** Errores de este módulo con el estado y mensaje que devuelven las rutas. */
+export const CUSTOMER_ACCOUNT_ERRORS: Record<string, { status: number; message: string }> = {
+  CUSTOMER_NOT_FOUND: { status: 404, message: 'No encontramos a la persona indicada.' },
+  EMAIL_TAKEN: { status: 409, message: 'Ya existe una cuenta con ese correo.' },
+  CLIENT_ID_UNAVAILABLE: { status: 503, message: 'No pudimos asignar un ID de cliente, intenta de nuevo.' },
+  ADDRESS_NOT_FOUND: { status: 404, message: 'La dirección no existe para este cliente.' },
+  ADDRESS_LIMIT: {
+    status: 409,
+    message: `Solo se pueden registrar ${MAX_CUSTOMER_ADDRESSES} direcciones por cliente.`,
+  },
+  SAME_ACCOUNT: { status: 400, message: 'Elige dos cuentas distintas para fusionar.' },
+};
+
+export type CustomerAccount = {
+  id: string;
+  clientId: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+  city: string | null;
+  country: string | null;
+  marketingEmail: boolean;
+  marketingSms: boolean;
+  registrationSource: string | null;
+  createdAt: string | null;
+};
+
+export type CustomerAccountInput = {
+  email: string;
+  firstName: string;
+  lastName?: string | null;
+  phone?: string | null;
+  city?: string | null;
+  country?: string | null;
+  marketingEmail?: boolean;
+  marketingSms?: boolean;
+};
+
+export type CustomerAddressType = 'shipping' | 'billing' | 'other';
+
+export type CustomerAddressInput = {
+  label: string;
+  nickname?: string | null;
+  type: CustomerAddressType;
+  street: string;
+  city: string;
+  state?: string | null;
+  postalCode: string;
+  country: string;
+  reference?: string | null;
+  additionalInfo?: string | null;
+  contactPhone?: string | null;
+  isWhatsapp?: boolean;
+  isDefault?: boolean;
+};
+
+export type CustomerMergeSummary = {
+  sourceId: string;
+  sourceClientId: string;
+  targetId: string;
+  targetClientId: string;
+  moved: Record<string, number>;
+  addressesMoved: number;
+  addressesDropped: number;
+};
+
+type AccountRow = NonNullable<RawUserRecord> & { id: string; email: string };
+
+export const normalizeCustomerEmail = (value: string) => value.trim().toLowerCase();
+
+const toNullableText = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed || null;
+};
+
+const toCustomerAccount = (row: AccountRow): CustomerAccount => {
+  const hydrated = withDecryptedUserNames(row) ?? row;
+  return {
+    id: row.id,
+    clientId: String(row.clientId ?? ''),
+    email: row.email,
+    firstName: toNullableText(hydrated.firstName),
+    lastName: toNullableText(hydrated.lastName),
+    phone: toNullableText(hydrated.phone),
+    city: toNullableText(row.city),
+    country: toNullableText(row.country),
+    marketingEmail: Boolean(row.marketingEmail),
+    marketingSms: Boolean(row.marketingSms),
+    registrationSource: toNullableText(row.registrationSource),
+    createdAt: toNullableText(row.createdAt),
+  };
+};
+
+const loadAccountRow = async (column: string, value: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select(ACCOUNT_FIELDS)
+    .eq(column, value)
+    .limit(1)
+    .maybeSingle();
+  if (error && error.code !== 'PGRST116') {
+    throw new Error(error.message);
+  }
+  return data && typeof data === 'object' && !('error' in data) ? (data as unknown as AccountRow) : null;
+};
+
+/** Busca la cuenta por `clientId`, id interno o correo. */
+const findAccountRow = async (identifier: string) => {
+  const trimmed = identifier.trim();
+  if (!trimmed) {
+    return null;
+  }
+  if (trimmed.includes('@')) {
+    return loadAccountRow('email', normalizeCustomerEmail(trimmed));
+  }
+  return (await loadAccountRow('clientId', trimmed)) ?? loadAccountRow('id', trimmed);
+};
+
+export const findCustomerAccount = async (identifier: string) => {
+  const row = await findAccountRow(identifier);
+  return row ? toCustomerAccount(row) : null;
+};
+
+const isEmailTaken = async (email: string, exceptUserId?: string) => {
+  const row = await loadAccountRow('email', email);
+  return Boolean(row && row.id !== exceptUserId);
+};
+
+/** Genera un `clientId` libre con el formato de la app: tres letras y cuatro dígitos. */
+const generateClientId = async () => {
+  for (let attempt = 0; attempt < CLIENT_ID_ATTEMPTS; attempt += 1) {
+    const letters = Array.from(
+      { length: 3 },
+      () => CLIENT_ID_LETTERS[randomInt(CLIENT_ID_LETTERS.length)]
+    ).join('');
+    const candidate = `${letters}-${String(randomInt(10000)).padStart(4, '0')}`;
+    if (!(await loadAccountRow('clientId', candidate))) {
+      return candidate;
+    }
+  }
+  throw new Error('CLIENT_ID_UNAVAILABLE');
+};
+
+const consentColumns = (
+  input: Pick<CustomerAccountInput, 'marketingEmail' | 'marketingSms'>,
+  previous?: Pick<CustomerAccount, 'marketingEmail' | 'marketingSms'>
+) => {
+  const columns: Record<string, boolean | string> = {};
+  if (input.marketingEmail !== undefined && input.marketingEmail !== previous?.marketingEmail) {
+    columns.marketingEmail = input.marketingEmail;
+  }
+  if (input.marketingSms !== undefined && input.marketingSms !== previous?.marketingSms) {
+    columns.marketingSms = input.marketingSms;
+  }
+  if (Object.keys(columns).length) {
+    columns.consentUpdatedAt = new Date().toISOString();
+  }
+  return columns;
+};
+
+/** Alta de un cliente desde el mostrador; nombre y teléfono se guardan cifrados. */
+export const createCustomerAccount = async (input: CustomerAccountInput) => {
+  const email = normalizeCustomerEmail(input.email);
+  if (await isEmailTaken(email)) {
+    throw new Error('EMAIL_TAKEN');
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .insert({
+      id: randomUUID(),
+      email,
+      clientId: await generateClientId(),
+      registrationSource: 'pos',
+      city: toNullableText(input.city),
+      country: toNullableText(input.country),
+      ...buildEncryptedUserColumns(
+        { firstName: input.firstName, lastName: input.lastName ?? null, phone: input.phone ?? null },
+        email
+      ),
+      ...consentColumns(input),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .select(ACCOUNT_FIELDS)
+    .single();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return toCustomerAccount(data as unknown as AccountRow);
+};
+
+// Lo que la app de clientes guarda cifrado en `addresses.payload`.
+type AddressPayload = Omit<Required<CustomerAddressInput>, 'type'> & { type: string };
+
+const encryptAddressPayload = (payload: AddressPayload, email: string) => {
+  const encrypted = encryptCustomerField(JSON.stringify(payload), email);
+  return {
+    payload: encrypted.encrypted,
+    payload_iv: encrypted.iv,
+    payload_tag: encrypted.tag,
+    payload_salt: encrypted.salt,
+  };
+};
+
+const loadAddressRows = async (userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(ADDRESSES_TABLE)
+    .select(ADDRESS_FIELDS)
+    .eq('userId', userId)
+    .order('createdAt', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as EncryptedAddressRow[];
+};
+
+/** Vuelve a cifrar las direcciones con otro correo, p. ej. al cambiarlo o al fusionar. */
+const reencryptAddressRow = (
+  row: EncryptedAddressRow,
+  fromEmail: string,
+  toEmail: string,
+  overrides: Partial<AddressPayload> = {}
+) => {
+  const decrypted = decryptAddressRow(row, fromEmail);
+  if (!decrypted) {
+    return null;
+  }
+  const payload: AddressPayload = {
+    label: decrypted.label ?? 'Dirección',
+    nickname: decrypted.nickname ?? null,
+    type: decrypted.type ?? 'shipping',
+    street: decrypted.street ?? '',
+    city: decrypted.city ?? '',
+    state: decrypted.state ?? null,
+    postalCode: decrypted.postalCode ?? '',
+    country: decrypted.country ?? '',
+    reference: decrypted.reference ?? null,
+    additionalInfo: decrypted.additionalInfo ?? null,
+    contactPhone: decrypted.contactPhone ?? null,
+    isWhatsapp: Boolean(decrypted.isWhatsapp),
+    isDefault: Boolean(decrypted.isDefault),
+    ...overrides,
+  };
+  return encryptAddressPayload(payload, toEmail);
+};
+
+/**
+ * Actualiza los datos de contacto. Si cambia el correo, la llave de cifrado
+ * cambia con él: nombre, teléfono y direcciones se vuelven a cifrar.
+ */
+export const updateCustomerAccount = async (
+  identifier: string,
+  changes: Partial<CustomerAccountInput>
+) => {
+  const row = await findAccountRow(identifier);
+  if (!row) {
+    throw new Error('CUSTOMER_NOT_FOUND');
+  }
+  const current = toCustomerAccount(row);
+  const email = changes.email ? normalizeCustomerEmail(changes.email) : current.email;
+  const emailChanged = email !== current.email;
+  if (emailChanged && (await isEmailTaken(email, row.id))) {
+    throw new Error('EMAIL_TAKEN');
+  }
+
+  const fields: string[] = [];
+  const encryptedValues: Record<string, string | null> = {};
+  (['firstName', 'lastName', 'phone'] as const).forEach((field) => {
+    const next = changes[field] === undefined ? current[field] : toNullableText(changes[field]);
+    if (next !== current[field]) {
+      fields.push(field);
+    }
+    if (next !== current[field] || emailChanged) {
+      encryptedValues[field] = next;
+    }
+  });
+
+  const updates: Record<string, unknown> = buildEncryptedUserColumns(encryptedValues, email);
+  if (emailChanged) {
+    fields.push('email');
+    updates.email = email;
+  }
+  (['city', 'country'] as const).forEach((field) => {
+    const next = changes[field] === undefined ? current[field] : toNullableText(changes[field]);
+    if (next !== current[field]) {
+      fields.push(field);
+      updates[field] = next;
+    }
+  });
+  const consent = consentColumns(changes, current);
+  fields.push(...Object.keys(consent).filter((key) => key !== 'consentUpdatedAt'));
+  Object.assign(updates, consent);
+
+  if (!fields.length) {
+    return { account: current, fields };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .update(updates)
+    .eq('id', row.id)
+    .select(ACCOUNT_FIELDS)
+    .single();
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (emailChanged) {
+    for (const address of await loadAddressRows(row.id)) {
+      const payload = reencryptAddressRow(address, current.email, email);
+      if (!payload) {
+        continue;
+      }
+      const { error: addressError } = await supabaseAdmin
+        .from(ADDRESSES_TABLE)
+        .update(payload)
+        .eq('id', address.id);
+      if (addressError) {
+        throw new Error(addressError.message);
+      }
+    }
+  }
+
+  return { account: toCustomerAccount(data as unknown as AccountRow), fields };
+};
+
+export const loadCustomerAddresses = async (account: Pick<CustomerAccount, 'id' | 'email'>) =>
+  (await loadAddressRows(account.id))
+    .map((row) => decryptAddressRow(row, account.email))
+    .filter((address): address is NonNullable<typeof address> => Boolean(address));
+
+/**
+ * Guarda una dirección con el payload cifrado. Solo puede haber una dirección
+ * predeterminada por tipo, así que marcar una nueva libera la anterior.
+ */
+export const saveCustomerAddress = async (
+  account: Pick<CustomerAccount, 'id' | 'email'>,
+  input: CustomerAddressInput,
+  addressId?: string
+) => {
+  const rows = await loadAddressRows(account.id);
+  if (addressId && !rows.some((row) => row.id === addressId)) {
+    throw new Error('ADDRESS_NOT_FOUND');
+  }
+  if (!addressId && rows.length >= MAX_CUSTOMER_ADDRESSES) {
+    throw new Error('ADDRESS_LIMIT');
+  }
+
+  const isDefault = Boolean(input.isDefault);
+  if (isDefault) {
+    const { error } = await supabaseAdmin
+      .from(ADDRESSES_TABLE)
+      .update({ isDefault: false })
+      .eq('userId', account.id)
+      .eq('type', input.type)
+      .eq('isDefault', true);
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  const payload: AddressPayload = {
+    label: input.label.trim(),
+    nickname: toNullableText(input.nickname),
+    type: input.type,
+    street: input.street.trim(),
+    city: input.city.trim(),
+    state: toNullableText(input.state),
+    postalCode: input.postalCode.trim(),
+    country: input.country.trim(),
+    reference: toNullableText(input.reference),
+    additionalInfo: toNullableText(input.additionalInfo),
+    contactPhone: toNullableText(input.contactPhone),
+    isWhatsapp: Boolean(input.isWhatsapp),
+    isDefault,
+  };
+  const columns = {
+    label: payload.label,
+    nickname: payload.nickname,
+    type: payload.type,
+    isDefault,
+    ...encryptAddressPayload(payload, account.email),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const query = addressId
+    ? supabaseAdmin.from(ADDRESSES_TABLE).update(columns).eq('id', addressId)
+    : supabaseAdmin.from(ADDRESSES_TABLE).insert({ id: randomUUID(), userId: account.id, ...columns });
+  const { data, error } = await query.select(ADDRESS_FIELDS).single();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return decryptAddressRow(data as EncryptedAddressRow, account.email);
+};
+
+export const deleteCustomerAddress = async (userId: string, addressId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(ADDRESSES_TABLE)
+    .delete()
+    .eq('id', addressId)
+    .eq('userId', userId)
+    .select('id');
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data?.length) {
+    throw new Error('ADDRESS_NOT_FOUND');
+  }
+};
+
+const reassignRows = async (table: string, sourceId: string, targetId: string) => {
+  const { count, error } = await supabaseAdmin
+    .from(table)
+    .update({ userId: targetId }, { count: 'exact' })
+    .eq('userId', sourceId);
+  if (error) {
+    throw new Error(`${table}: ${error.message}`);
+  }
+  return count ?? 0;
+};
+
+/**
+ * Pasa las direcciones que quepan bajo el límite, cifradas con el correo de la
+ * cuenta destino. Nunca llegan como predeterminadas para no chocar con las suyas.
+ */
+const mergeAddresses = async (source: AccountRow, target: AccountRow) => {
+  const [sourceRows, targetRows] = await Promise.all([
+    loadAddressRows(source.id),
+    loadAddressRows(target.id),
+  ]);
+  const room = Math.max(0, MAX_CUSTOMER_ADDRESSES - targetRows.length);
+  let moved = 0;
+  for (const row of sourceRows.slice(0, room)) {
+    const payload = reencryptAddressRow(row, source.email, target.email, { isDefault: false });
+    if (!payload) {
+      continue;
+    }
+    const { error } = await supabaseAdmin
+      .from(ADDRESSES_TABLE)
+      .update({ ...payload, userId: target.id, isDefault: false })
+      .eq('id', row.id);
+    if (error) {
+      throw new Error(`${ADDRESSES_TABLE}: ${error.message}`);
+    }
+    moved += 1;
+  }
+  return { moved, dropped: sourceRows.length - moved };
+};
+
+/**
+ * El avance por periodo es único por cliente y programa: si ambas cuentas
+ * tienen fila se conservan los canjes de las dos y los sellos se recalculan
+ * después con los pedidos ya fusionados.
+ */
+const mergeLoyaltyProgress = async (sourceId: string, targetId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(LOYALTY_PROGRESS_TABLE)
+    .select('id,"programId","userId","periodKey","rewardsRedeemed"')
+    .in('userId', [sourceId, targetId]);
+  if (error) {
+    throw new Error(`${LOYALTY_PROGRESS_TABLE}: ${error.message}`);
+  }
+  const rows = data ?? [];
+  let moved = 0;
+  for (const row of rows.filter((entry) => entry.userId === sourceId)) {
+    const match = rows.find(
+      (entry) =>
+        entry.userId === targetId &&
+        entry.programId === row.programId &&
+        entry.periodKey === row.periodKey
+    );
+    const result = match
+      ? await supabaseAdmin
+          .from(LOYALTY_PROGRESS_TABLE)
+          .update({
+            rewardsRedeemed: Number(match.rewardsRedeemed ?? 0) + Number(row.rewardsRedeemed ?? 0),
+          })
+          .eq('id', match.id)
+      : await supabaseAdmin.from(LOYALTY_PROGRESS_TABLE).update({ userId: targetId }).eq('id', row.id);
+    if (result.error) {
+      throw new Error(`${LOYALTY_PROGRESS_TABLE}: ${result.error.message}`);
+    }
+    moved += 1;
+  }
+  return moved;
+};
+
+/**
+ * Fusiona una cuenta duplicada en la que sobrevive: pedidos, lealtad,
+ * reservas y el resto del historial cambian de dueño y la duplicada se borra.
+ * No hay transacción; si algo falla la cuenta duplicada sigue existiendo y
+ * repetir la fusión mueve lo que faltó.
+ */
+export const mergeCustomerAccounts = async (
+  sourceIdentifier: string,
+  targetIdentifier: string
+): Promise<CustomerMergeSummary> => {
+  const [source, target] = await Promise.all([
+    findAccountRow(sourceIdentifier),
+    findAccountRow(targetIdentifier),
+  ]);
+  if (!source || !target) {
+    throw new Error('CUSTOMER_NOT_FOUND');
+  }
+  if (source.id === target.id) {
+    throw new Error('SAME_ACCOUNT');
+  }
+
+  const moved: Record<string, number> = {};
+  for (const table of MERGE_TABLES) {
+    moved[table] = await reassignRows(table, source.id, target.id);
+  }
+
+  const sourceClientId = String(source.clientId ?? '');
+  const targetClientId = String(target.clientId ?? '');
+  if (sourceClientId) {
+    const { error } = await supabaseAdmin
+      .from(ORDERS_TABLE)
+      .update({ pos_customer_id: targetClientId })
+      .eq('userId', target.id)
+      .eq('pos_customer_id', sourceClientId);
+    if (error) {
+      throw new Error(`${ORDERS_TABLE}: ${error.message}`);
+    }
+  }
+
+  moved[LOYALTY_PROGRESS_TABLE] = await mergeLoyaltyProgress(source.id, target.id);
+  moved[MARKETING_RECIPIENTS_TABLE] = await mergeCampaignRecipients(source.id, target.id);
+  const addresses = await mergeAddresses(source, target);
+
+  const { error: deleteError } = await supabaseAdmin.from(USERS_TABLE).delete().eq('id', source.id);
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+
+  // La fusión ya quedó hecha; un fallo aquí solo deja los sellos como estaban.
+  try {
+    await recalculateLoyaltyProgress(target.id);
+  } catch (error) {
+    if (!(error instanceof Error && error.message === LOYALTY_PROGRAMS_REQUIRED_ERROR)) {
+      console.error('Error recalculando lealtad tras fusionar cuentas:', error);
+    }
+  }
+
+  return {
+    sourceId: source.id,
+    sourceClientId,
+    targetId: target.id,
+    targetClientId,
+    moved,
+    addressesMoved: addresses.moved,
+    addressesDropped: addresses.dropped,
+  };
+};
@@ -26,7 +26,7 @@
  * --------------------------------------------------------------------
  */
 
-import { createDecipheriv, pbkdf2Sync } from 'node:crypto';
+import { createCipheriv, createDecipheriv, pbkdf2Sync, randomBytes } from 'node:crypto';
 
 type RawEncryptedValue =
   | string
@@ -202,6 +202,59 @@ export const decryptCustomerField = (input: RawEncryptedValue, email?: string |
   return decryptWithEmailKey(normalized, email);
 };
 
+export type EncryptedCustomerField = {
+  encrypted: string;
+  iv: string;
+  tag: string;
+  salt: string;
+};
+
+/**
+ * Cifra un valor con el mismo esquema que leen `decryptCustomerField` y la app
+ * de clientes: llave PBKDF2 derivada del correo, AES-256-GCM y todo en hex.
+ */
+export const encryptCustomerField = (value: string, email: string): EncryptedCustomerField => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = pbkdf2Sync(email.trim(), salt, 100000, 32, 'sha256');
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return {
+    encrypted: encrypted.toString('hex'),
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    salt: salt.toString('hex'),
+  };
+};
+
+export const ENCRYPTED_USER_FIELDS = ['firstName', 'lastName', 'phone'] as const;
+
+export type EncryptedUserField = (typeof ENCRYPTED_USER_FIELDS)[number];
+
+/**
+ * Columnas `${campo}Encrypted|Iv|Tag|Salt` listas para `users`. Un valor vacío
+ * limpia las cuatro columnas. Las columnas en claro solo existen en la réplica
+ * SQLite y no se escriben.
+ */
+export const buildEncryptedUserColumns = (
+  values: Partial<Record<EncryptedUserField, string | null>>,
+  email: string
+) => {
+  const columns: Record<string, string | null> = {};
+  ENCRYPTED_USER_FIELDS.forEach((field) => {
+    if (!(field in values)) {
+      return;
+    }
+    const value = values[field]?.trim();
+    const payload = value ? encryptCustomerField(value, email) : null;
+    columns[`${field}Encrypted`] = payload?.encrypted ?? null;
+    columns[`${field}Iv`] = payload?.iv ?? null;
+    columns[`${field}Tag`] = payload?.tag ?? null;
+    columns[`${field}Salt`] = payload?.salt ?? null;
+  });
+  return columns;
+};
+
 export type RawUserRecord = {
   email?: string | null;
   clientId?: string | null;
@@ -0,0 +1,472 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'node:crypto';
+import { isIP } from 'node:net';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { withDecryptedUserNames, type RawUserRecord } from '@/lib/customer-decrypt';
+import { findCustomerAccount, loadCustomerAddresses } from '@/lib/customer-accounts';
+import {
+  loadCustomerLoyaltyPrograms,
+  loadLoyaltyLedger,
+  loadLoyaltyPointBalances,
+} from '@/lib/loyalty-sync';
+import { buildTextPdf } from '@/lib/text-pdf';
+
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const RESERVATIONS_TABLE = process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations';
+const ADDRESSES_TABLE = process.env.SUPABASE_ADDRESSES_TABLE ?? 'addresses';
+const SESSIONS_TABLE = process.env.SUPABASE_SESSIONS_TABLE ?? 'sessions';
+const PAGE_ANALYTICS_TABLE = process.env.SUPABASE_PAGE_ANALYTICS_TABLE ?? 'page_analytics';
+const CONVERSION_EVENTS_TABLE = process.env.SUPABASE_CONVERSION_EVENTS_TABLE ?? 'conversion_events';
+export const DATA_RETENTION_LOGS_TABLE =
+  process.env.SUPABASE_DATA_RETENTION_LOGS_TABLE ?? 'data_retention_logs';
+
+const EXPORT_ROW_LIMIT = 5000;
+const RETENTION_SWEEP_BATCH = 100;
+
+// Columnas que nunca salen en una exportación: credenciales y los datos cifrados,
+// que se entregan ya descifrados.
+const EXPORT_HIDDEN_COLUMNS = new Set(['passwordHash']);
+const ENCRYPTED_COLUMN_SUFFIXES = ['Encrypted', 'Iv', 'Tag', 'Salt'];
+
+const ORDER_EXPORT_FIELDS =
+  'id,"orderNumber",status,total,currency,"createdAt",items,totals,"tipAmount","deliveryTipAmount",customer_name,shipping_contact_phone';
+
+/**
+ * Llaves de `orders.metadata` e `orders.items` que identifican a la persona.
+ * Las propinas de entrega viven dentro de `delivery` y se conservan.
+ */
+const ORDER_PERSONAL_KEYS = ['shipping', 'deliveryAddressId', 'customer', 'customerName', 'contactPhone'];
+
+export type RetentionAction = 'export' | 'anonymize' | 'retention_sweep';
+
+export type CustomerDataExport = {
+  generatedAt: string;
+  profile: Record<string, unknown>;
+  addresses: Array<Record<string, unknown>>;
+  orders: Array<Record<string, unknown>>;
+  loyalty: {
+    balances: Record<string, number>;
+    programs: Array<Record<string, unknown>>;
+    ledger: Array<Record<string, unknown>>;
+  };
+  reservations: Array<Record<string, unknown>>;
+  retentionLog: Array<Record<string, unknown>>;
+};
+
+export type AnonymizationResult = {
+  userId: string;
+  clientId: string;
+  anonymizedAt: string;
+  ordersScrubbed: number;
+  reservationsScrubbed: number;
+  addressesDeleted: number;
+};
+
+type RetentionContext = {
+  staffId?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+};
+
+const isEncryptedColumn = (key: string) =>
+  ENCRYPTED_COLUMN_SUFFIXES.some((suffix) => key.endsWith(suffix) && key !== suffix);
+
+const loadRows = async (table: string, fields: string, userId: string, orderBy = 'createdAt') => {
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select(fields)
+    .eq('userId', userId)
+    .order(orderBy, { ascending: false })
+    .limit(EXPORT_ROW_LIMIT);
+  if (error) {
+    throw new Error(`${table}: ${error.message}`);
+  }
+  return (data ?? []) as unknown as Array<Record<string, unknown>>;
+};
+
+/** Registra la acción en `data_retention_logs`, la bitácora que piden las solicitudes ARCO. */
+export const logRetentionAction = async (
+  userId: string,
+  action: RetentionAction,
+  details: Record<string, unknown>,
+  context: RetentionContext = {}
+) => {
+  const { error } = await supabaseAdmin.from(DATA_RETENTION_LOGS_TABLE).insert({
+    id: randomUUID(),
+    userId,
+    action,
+    details: JSON.stringify(details),
+    ipAddress: context.ipAddress && isIP(context.ipAddress) ? context.ipAddress : null,
+    userAgent: context.userAgent ?? null,
+    adminUserId: context.staffId ?? null,
+    createdAt: new Date().toISOString(),
+  });
+  if (error) {
+    throw new Error(`${DATA_RETENTION_LOGS_TABLE}: ${error.message}`);
+  }
+};
+
+/**
+ * Derecho de acceso: todo lo que guardamos del cliente, con nombre, teléfono y
+ * direcciones descifrados. Las credenciales no se incluyen.
+ */
+export const buildCustomerDataExport = async (identifier: string): Promise<CustomerDataExport | null> => {
+  const account = await findCustomerAccount(identifier);
+  if (!account) {
+    return null;
+  }
+
+  const { data: userRow, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select('*')
+    .eq('id', account.id)
+    .single();
+  if (error) {
+    throw new Error(error.message);
+  }
+  const hydrated = withDecryptedUserNames(userRow as NonNullable<RawUserRecord>) ?? userRow;
+  const profile = Object.fromEntries(
+    Object.entries(hydrated as Record<string, unknown>).filter(
+      ([key]) => !EXPORT_HIDDEN_COLUMNS.has(key) && !isEncryptedColumn(key)
+    )
+  );
+
+  const [addresses, orders, reservations, ledger, balances, programs, retentionLog] = await Promise.all([
+    loadCustomerAddresses(account),
+    loadRows(ORDERS_TABLE, ORDER_EXPORT_FIELDS, account.id),
+    loadRows(RESERVATIONS_TABLE, '*', account.id),
+    loadLoyaltyLedger(account.id, EXPORT_ROW_LIMIT),
+    loadLoyaltyPointBalances([account.id]),
+    loadCustomerLoyaltyPrograms([{ id: account.id }]),
+    loadRows(DATA_RETENTION_LOGS_TABLE, 'action,details,"createdAt"', account.id),
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    profile,
+    addresses: addresses.map((address) => ({ ...address })),
+    orders,
+    loyalty: {
+      balances: Object.fromEntries(balances.get(account.id) ?? new Map<string, number>()),
+      programs: (programs.get(account.id) ?? []).map((program) => ({ ...program })),
+      ledger: ledger.map((entry) => ({ ...entry })),
+    },
+    reservations,
+    retentionLog,
+  };
+};
+
+const formatExportValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const wrapLine = (text: string, width = 95) => {
+  const lines: string[] = [];
+  for (let index = 0; index < text.length; index += width) {
+    lines.push(index ? `    ${text.slice(index, index + width)}` : text.slice(index, index + width));
+  }
+  return lines.length ? lines : [''];
+};
+
+export const buildCustomerExportPdf = (data: CustomerDataExport) => {
+  const lines: string[] = [
+    'Xoco Café — Expediente de datos personales (derecho de acceso ARCO)',
+    `Generado: ${data.generatedAt}`,
+    '',
+    'PERFIL',
+  ];
+  const push = (text: string) => lines.push(...wrapLine(text));
+
+  Object.entries(data.profile).forEach(([key, value]) => push(`${key}: ${formatExportValue(value)}`));
+
+  lines.push('', `DIRECCIONES (${data.addresses.length})`);
+  data.addresses.forEach((address) =>
+    push(
+      `${formatExportValue(address.label)}: ${[address.street, address.city, address.state, address.postalCode, address.country]
+        .filter(Boolean)
+        .join(', ')} · Tel. ${formatExportValue(address.contactPhone)}`
+    )
+  );
+
+  lines.push('', `PEDIDOS (${data.orders.length})`);
+  data.orders.forEach((order) =>
+    push(
+      `${formatExportValue(order.createdAt)} · ${formatExportValue(order.orderNumber ?? order.id)} · ${formatExportValue(order.status)} · ${formatExportValue(order.total)} ${formatExportValue(order.currency)}`
+    )
+  );
+
+  lines.push('', 'LEALTAD');
+  Object.entries(data.loyalty.balances).forEach(([programId, points]) => push(`Saldo ${programId}: ${points} pts`));
+  data.loyalty.ledger.forEach((entry) =>
+    push(
+      `${formatExportValue(entry.createdAt)} · ${formatExportValue(entry.entryType)} · ${formatExportValue(entry.points)} pts · ${formatExportValue(entry.stamps)} sellos · ${formatExportValue(entry.reason)}`
+    )
+  );
+
+  lines.push('', `RESERVAS (${data.reservations.length})`);
+  data.reservations.forEach((reservation) =>
+    push(
+      `${formatExportValue(reservation.reservationDate)} ${formatExportValue(reservation.reservationTime)} · ${formatExportValue(reservation.reservationCode)} · ${formatExportValue(reservation.peopleCount)} personas · ${formatExportValue(reservation.status)}`
+    )
+  );
+
+  lines.push('', 'BITÁCORA DE PRIVACIDAD');
+  data.retentionLog.forEach((entry) =>
+    push(`${formatExportValue(entry.createdAt)} · ${formatExportValue(entry.action)}`)
+  );
+
+  return buildTextPdf(lines);
+};
+
+const scrubJsonRecord = (value: unknown) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { value, changed: false };
+  }
+  const record = { ...(value as Record<string, unknown>) };
+  let changed = false;
+  ORDER_PERSONAL_KEYS.forEach((key) => {
+    if (key in record) {
+      delete record[key];
+      changed = true;
+    }
+  });
+  const delivery = record.delivery;
+  if (delivery && typeof delivery === 'object' && !Array.isArray(delivery)) {
+    const tip = (delivery as Record<string, unknown>).tip;
+    record.delivery = tip === undefined ? null : { tip };
+    changed = true;
+  }
+  return { value: record, changed };
+};
+
+/** Quita nombre, teléfono y dirección de los pedidos; totales, artículos y fechas se quedan para contabilidad. */
+const scrubCustomerOrders = async (userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(ORDERS_TABLE)
+    .select('id,metadata,items')
+    .eq('userId', userId);
+  if (error) {
+    throw new Error(`${ORDERS_TABLE}: ${error.message}`);
+  }
+  for (const order of data ?? []) {
+    const metadata = scrubJsonRecord(order.metadata);
+    const items = scrubJsonRecord(order.items);
+    const { error: updateError } = await supabaseAdmin
+      .from(ORDERS_TABLE)
+      .update({
+        customer_name: null,
+        shipping_contact_phone: null,
+        shipping_address_id: null,
+        notes: null,
+        message: null,
+        instructions: null,
+        ...(metadata.changed ? { metadata: metadata.value } : {}),
+        ...(items.changed ? { items: items.value } : {}),
+      })
+      .eq('id', order.id);
+    if (updateError) {
+      throw new Error(`${ORDERS_TABLE}: ${updateError.message}`);
+    }
+  }
+  return data?.length ?? 0;
+};
+
+/**
+ * Derecho de cancelación: borra los datos que identifican al cliente y deja la
+ * cuenta como seudónimo (`clientId`) para que pedidos, facturas y lealtad
+ * sigan cuadrando. No se puede deshacer.
+ */
+export const anonymizeCustomer = async (
+  userId: string,
+  action: Extract<RetentionAction, 'anonymize' | 'retention_sweep'>,
+  reason: string,
+  context: RetentionContext = {}
+): Promise<AnonymizationResult> => {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select('id,"clientId","anonymizedAt"')
+    .eq('id', userId)
+    .maybeSingle();
+  if (userError) {
+    throw new Error(userError.message);
+  }
+  if (!user) {
+    throw new Error('CUSTOMER_NOT_FOUND');
+  }
+  if (user.anonymizedAt) {
+    throw new Error('ALREADY_ANONYMIZED');
+  }
+
+  const ordersScrubbed = await scrubCustomerOrders(userId);
+
+  const { count: reservationsScrubbed, error: reservationsError } = await supabaseAdmin
+    .from(RESERVATIONS_TABLE)
+    .update({ message: null }, { count: 'exact' })
+    .eq('userId', userId);
+  if (reservationsError) {
+    throw new Error(`${RESERVATIONS_TABLE}: ${reservationsError.message}`);
+  }
+
+  const { count: addressesDeleted, error: addressesError } = await supabaseAdmin
+    .from(ADDRESSES_TABLE)
+    .delete({ count: 'exact' })
+    .eq('userId', userId);
+  if (addressesError) {
+    throw new Error(`${ADDRESSES_TABLE}: ${addressesError.message}`);
+  }
+
+  const { error: sessionsError } = await supabaseAdmin.from(SESSIONS_TABLE).delete().eq('userId', userId);
+  if (sessionsError) {
+    throw new Error(`${SESSIONS_TABLE}: ${sessionsError.message}`);
+  }
+
+  // La analítica se conserva sin dueño para no alterar las métricas históricas.
+  for (const table of [PAGE_ANALYTICS_TABLE, CONVERSION_EVENTS_TABLE]) {
+    const { error } = await supabaseAdmin.from(table).update({ userId: null }).eq('userId', userId);
+    if (error) {
+      throw new Error(`${table}: ${error.message}`);
+    }
+  }
+
+  const anonymizedAt = new Date().toISOString();
+  const { error: updateError } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .update({
+      email: `anonimo+${userId}@xoco.invalid`,
+      passwordHash: null,
+      googleId: null,
+      walletAddress: null,
+      avatarUrl: null,
+      firstNameEncrypted: null,
+      firstNameIv: null,
+      firstNameTag: null,
+      firstNameSalt: null,
+      lastNameEncrypted: null,
+      lastNameIv: null,
+      lastNameTag: null,
+      lastNameSalt: null,
+      phoneEncrypted: null,
+      phoneIv: null,
+      phoneTag: null,
+      phoneSalt: null,
+      city: null,
+      country: null,
+      fiscalRfc: null,
+      fiscalName: null,
+      fiscalRegime: null,
+      fiscalPostalCode: null,
+      favoriteColdDrink: null,
+      favoriteHotDrink: null,
+      favoriteFood: null,
+      marketingEmail: false,
+      marketingSms: false,
+      marketingPush: false,
+      consentUpdatedAt: anonymizedAt,
+      userAgent: null,
+      ipAddress: null,
+      referrerUrl: null,
+      utmSource: null,
+      utmMedium: null,
+      utmCampaign: null,
+      utmTerm: null,
+      utmContent: null,
+      deviceType: null,
+      browserLanguage: null,
+      timezone: null,
+      platform: null,
+      monthlyMetrics: null,
+      userSegment: null,
+      dataRetentionUntil: null,
+      anonymizedAt,
+    })
+    .eq('id', userId);
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+
+  const result: AnonymizationResult = {
+    userId,
+    clientId: String(user.clientId ?? ''),
+    anonymizedAt,
+    ordersScrubbed,
+    reservationsScrubbed: reservationsScrubbed ?? 0,
+    addressesDeleted: addressesDeleted ?? 0,
+  };
+  await logRetentionAction(userId, action, { ...result, reason }, context);
+  return result;
+};
+
+/** Clientes cuyo plazo de conservación ya venció y siguen identificables. */
+export const loadExpiredRetentionUsers = async (at = new Date(), limit = RETENTION_SWEEP_BATCH) => {
+  const { data, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select('id,"clientId","dataRetentionUntil"')
+    .lt('dataRetentionUntil', at.toISOString())
+    .is('anonymizedAt', null)
+    .order('dataRetentionUntil', { ascending: true })
+    .limit(limit);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as Array<{ id: string; clientId: string | null; dataRetentionUntil: string }>;
+};
+
+/**
+ * Anonimiza por lotes a quienes pasaron `dataRetentionUntil`. Un cliente que
+ * falla no detiene al resto; se reporta en `failed` y se reintenta en la
+ * siguiente corrida.
+ */
+export const sweepExpiredCustomerData = async (context: RetentionContext = {}, at = new Date()) => {
+  const expired = await loadExpiredRetentionUsers(at);
+  const anonymized: AnonymizationResult[] = [];
+  const failed: Array<{ userId: string; error: string }> = [];
+  for (const user of expired) {
+    try {
+      anonymized.push(
+        await anonymizeCustomer(
+          user.id,
+          'retention_sweep',
+          `Plazo de conservación vencido (${user.dataRetentionUntil})`,
+          context
+        )
+      );
+    } catch (error) {
+      failed.push({ userId: user.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { anonymized, failed, remaining: expired.length === RETENTION_SWEEP_BATCH };
+};
@@ -0,0 +1,62 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+export type DeliveryStage = 'ready' | 'assigned' | 'out_for_delivery' | 'delivered';
+// `pending` es el pedido a domicilio que todavía no se marca listo; no tiene registro de reparto.
+export type DeliveryBoardStatus = 'pending' | DeliveryStage;
+export type DeliveryDispatchAction = 'ready' | 'assign' | 'depart' | 'deliver';
+
+export const DELIVERY_COLUMNS: { status: DeliveryBoardStatus; label: string }[] = [
+  { status: 'pending', label: 'En preparación' },
+  { status: 'ready', label: 'Listos para recoger' },
+  { status: 'assigned', label: 'Asignados' },
+  { status: 'out_for_delivery', label: 'En camino' },
+  { status: 'delivered', label: 'Entregados' },
+];
+
+/** Columna con la hora en que el pedido entró a cada etapa. */
+export const DELIVERY_STAGE_TIMESTAMPS: Record<DeliveryStage, string> = {
+  ready: 'readyAt',
+  assigned: 'assignedAt',
+  out_for_delivery: 'outForDeliveryAt',
+  delivered: 'deliveredAt',
+};
+
+/**
+ * Flujo del reparto: pending → ready → assigned → out_for_delivery → delivered.
+ * `assign` también reasigna mientras el repartidor no haya salido.
+ */
+const DELIVERY_TRANSITIONS: Record<DeliveryDispatchAction, Partial<Record<DeliveryBoardStatus, DeliveryStage>>> = {
+  ready: { pending: 'ready' },
+  assign: { ready: 'assigned', assigned: 'assigned' },
+  depart: { assigned: 'out_for_delivery' },
+  deliver: { out_for_delivery: 'delivered' },
+};
+
+export const resolveDeliveryTransition = (status: DeliveryBoardStatus, action: DeliveryDispatchAction) =>
+  DELIVERY_TRANSITIONS[action][status] ?? null;
@@ -0,0 +1,321 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { LOYALTY_ELIGIBLE_PRODUCTS, LOYALTY_STAMPS_TARGET } from '@/lib/loyalty';
+
+export type LoyaltyResetPeriod = 'weekly' | 'monthly' | 'never';
+export type LoyaltyRewardType = 'free_drink' | 'discount' | 'upgrade';
+
+/** Regla de acumulación; si `weekdays` viene, solo aplica esos días (0 = domingo). */
+export interface LoyaltyEarningRule {
+  productId?: string | null;
+  category?: string | null;
+  stamps: number;
+  points: number;
+  weekdays?: number[] | null;
+}
+
+export interface LoyaltyReward {
+  id: string;
+  type: LoyaltyRewardType;
+  label: string;
+  // Sin costo en puntos, la recompensa se canjea con la tarjeta de sellos completa.
+  pointsCost?: number | null;
+  discountPercent?: number | null;
+  productId?: string | null;
+}
+
+export interface LoyaltyProgram {
+  id: string;
+  name: string;
+  description?: string | null;
+  isActive: boolean;
+  resetPeriod: LoyaltyResetPeriod;
+  stampsTarget: number;
+  rules: LoyaltyEarningRule[];
+  rewards: LoyaltyReward[];
+  startsAt?: string | null;
+  endsAt?: string | null;
+  // `env` marca la tarjeta semanal de respaldo que no vive en la base.
+  source?: 'db' | 'env';
+}
+
+export interface LoyaltyProgramProgress {
+  programId: string;
+  periodKey: string;
+  stamps: number;
+  points: number;
+  rewardsEarned: number;
+  rewardsRedeemed: number;
+}
+
+export interface LoyaltyOrderItem {
+  productId?: string | null;
+  category?: string | null;
+  quantity: number;
+}
+
+export const LEGACY_PROGRAM_ID = 'weekly-card';
+
+export const LOYALTY_RESET_LABELS: Record<LoyaltyResetPeriod, string> = {
+  weekly: 'Semanal',
+  monthly: 'Mensual',
+  never: 'Sin reinicio',
+};
+
+export const LOYALTY_REWARD_LABELS: Record<LoyaltyRewardType, string> = {
+  free_drink: 'Bebida gratis',
+  discount: 'Descuento',
+  upgrade: 'Upgrade',
+};
+
+/** Tarjeta semanal histórica, armada con las variables de entorno. */
+export const buildLegacyLoyaltyProgram = (): LoyaltyProgram => ({
+  id: LEGACY_PROGRAM_ID,
+  name: 'Programa semanal',
+  description: 'Sello por cada bebida registrada en POS',
+  isActive: LOYALTY_ELIGIBLE_PRODUCTS.length > 0,
+  resetPeriod: 'weekly',
+  stampsTarget: LOYALTY_STAMPS_TARGET,
+  rules: LOYALTY_ELIGIBLE_PRODUCTS.map((productId) => ({ productId, stamps: 1, points: 0 })),
+  rewards: [{ id: 'americano', type: 'free_drink', label: 'Americano gratis' }],
+  source: 'env',
+});
+
+const normalizeKey = (value?: string | null) => value?.trim().toLowerCase() ?? '';
+
+const toCount = (value: unknown) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 0;
+};
+
+const parseJsonList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+export const normalizeLoyaltyRules = (value: unknown): LoyaltyEarningRule[] =>
+  parseJsonList(value)
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((entry) => {
+      const weekdays = Array.isArray(entry.weekdays)
+        ? entry.weekdays.map(Number).filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+        : [];
+      return {
+        productId: typeof entry.productId === 'string' && entry.productId.trim() ? entry.productId.trim() : null,
+        category: typeof entry.category === 'string' && entry.category.trim() ? entry.category.trim() : null,
+        stamps: toCount(entry.stamps),
+        points: toCount(entry.points),
+        weekdays: weekdays.length ? weekdays : null,
+      };
+    })
+    .filter((rule) => (rule.productId || rule.category) && (rule.stamps || rule.points));
+
+export const normalizeLoyaltyRewards = (value: unknown): LoyaltyReward[] =>
+  parseJsonList(value)
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === 'object')
+    .map((entry, index) => ({
+      id: typeof entry.id === 'string' && entry.id.trim() ? entry.id.trim() : `reward-${index + 1}`,
+      type: (['free_drink', 'discount', 'upgrade'] as const).includes(entry.type as LoyaltyRewardType)
+        ? (entry.type as LoyaltyRewardType)
+        : 'free_drink',
+      label: typeof entry.label === 'string' && entry.label.trim() ? entry.label.trim() : 'Recompensa',
+      pointsCost: toCount(entry.pointsCost) || null,
+      discountPercent: toCount(entry.discountPercent) || null,
+      productId: typeof entry.productId === 'string' && entry.productId.trim() ? entry.productId.trim() : null,
+    }));
+
+/** Inicio del periodo vigente; la semana arranca el lunes como la tarjeta original. */
+export const getLoyaltyPeriodStart = (resetPeriod: LoyaltyResetPeriod, now = new Date()) => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (resetPeriod === 'weekly') {
+    const day = start.getDay();
+    start.setDate(start.getDate() - (day === 0 ? 6 : day - 1));
+    return start;
+  }
+  if (resetPeriod === 'monthly') {
+    start.setDate(1);
+    return start;
+  }
+  return new Date(0);
+};
+
+export const getLoyaltyPeriodKey = (resetPeriod: LoyaltyResetPeriod, at = new Date()) => {
+  if (resetPeriod === 'never') {
+    return 'all';
+  }
+  const start = getLoyaltyPeriodStart(resetPeriod, at);
+  const year = start.getFullYear();
+  const month = String(start.getMonth() + 1).padStart(2, '0');
+  if (resetPeriod === 'monthly') {
+    return `${year}-${month}`;
+  }
+  return `${year}-${month}-${String(start.getDate()).padStart(2, '0')}`;
+};
+
+export const isLoyaltyProgramLive = (program: LoyaltyProgram, at = new Date()) => {
+  if (!program.isActive) {
+    return false;
+  }
+  const time = at.getTime();
+  if (program.startsAt && Date.parse(program.startsAt) > time) {
+    return false;
+  }
+  if (program.endsAt && Date.parse(program.endsAt) < time) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Sellos y puntos que un pedido suma al programa. Por artículo gana la regla
+ * más generosa que aplique ese día, así una regla de "martes doble" convive con
+ * la regla base sin sumarse dos veces.
+ */
+export const evaluateLoyaltyItems = (
+  program: LoyaltyProgram,
+  items: LoyaltyOrderItem[],
+  at = new Date()
+) => {
+  const weekday = at.getDay();
+  return items.reduce(
+    (totals, item) => {
+      const productKey = normalizeKey(item.productId);
+      const categoryKey = normalizeKey(item.category);
+      let stamps = 0;
+      let points = 0;
+      program.rules.forEach((rule) => {
+        if (rule.weekdays?.length && !rule.weekdays.includes(weekday)) {
+          return;
+        }
+        const matches =
+          (rule.productId && normalizeKey(rule.productId) === productKey) ||
+          (rule.category && categoryKey && normalizeKey(rule.category) === categoryKey);
+        if (!matches) {
+          return;
+        }
+        stamps = Math.max(stamps, rule.stamps);
+        points = Math.max(points, rule.points);
+      });
+      const quantity = Math.max(0, Math.floor(item.quantity));
+      return { stamps: totals.stamps + stamps * quantity, points: totals.points + points * quantity };
+    },
+    { stamps: 0, points: 0 }
+  );
+};
+
+/** Suma sellos al avance; cada tarjeta completa se vuelve una recompensa disponible. */
+export const addLoyaltyStamps = (
+  progress: LoyaltyProgramProgress,
+  earned: { stamps: number; points: number },
+  stampsTarget: number
+): LoyaltyProgramProgress => {
+  const target = Math.max(1, stampsTarget);
+  const totalStamps = progress.stamps + earned.stamps;
+  return {
+    ...progress,
+    stamps: totalStamps % target,
+    points: progress.points + earned.points,
+    rewardsEarned: progress.rewardsEarned + Math.floor(totalStamps / target),
+  };
+};
+
+export const availableLoyaltyRewards = (progress: Pick<LoyaltyProgramProgress, 'rewardsEarned' | 'rewardsRedeemed'>) =>
+  Math.max(0, progress.rewardsEarned - progress.rewardsRedeemed);
+
+/** Avance de un cliente en un programa, listo para pintar la tarjeta. */
+export interface CustomerLoyaltyProgram {
+  programId: string;
+  name: string;
+  description?: string | null;
+  resetPeriod: LoyaltyResetPeriod;
+  stampsTarget: number;
+  stamps: number;
+  points: number;
+  rewardsAvailable: number;
+  rewards: LoyaltyReward[];
+}
+
+export const toCustomerLoyaltyProgram = (
+  program: LoyaltyProgram,
+  progress?: Pick<LoyaltyProgramProgress, 'stamps' | 'points' | 'rewardsEarned' | 'rewardsRedeemed'> | null
+): CustomerLoyaltyProgram => ({
+  programId: program.id,
+  name: program.name,
+  description: program.description ?? null,
+  resetPeriod: program.resetPeriod,
+  stampsTarget: program.stampsTarget,
+  stamps: progress?.stamps ?? 0,
+  points: progress?.points ?? 0,
+  rewardsAvailable: progress ? availableLoyaltyRewards(progress) : 0,
+  rewards: program.rewards,
+});
+
+export type LoyaltyLedgerEntryType = 'earn' | 'redeem' | 'expire' | 'adjust';
+
+/** Fila inmutable de `loyalty_points`; los puntos negativos restan saldo. */
+export interface LoyaltyLedgerEntry {
+  id: string;
+  userId: string;
+  programId?: string | null;
+  entryType: LoyaltyLedgerEntryType;
+  points: number;
+  stamps: number;
+  reason: string;
+  orderId?: string | null;
+  expiresAt?: string | null;
+  staffId?: string | null;
+  sourceEntryId?: string | null;
+  createdAt: string;
+}
+
+export const LOYALTY_ENTRY_LABELS: Record<LoyaltyLedgerEntryType, string> = {
+  earn: 'Acumulación',
+  redeem: 'Canje',
+  expire: 'Vencimiento',
+  adjust: 'Ajuste',
+};
+
+/** Saldo de puntos por programa, derivado del libro. */
+export const sumLoyaltyLedger = (entries: Array<Pick<LoyaltyLedgerEntry, 'programId' | 'points'>>) =>
+  entries.reduce((balances, entry) => {
+    const key = entry.programId ?? LEGACY_PROGRAM_ID;
+    balances.set(key, (balances.get(key) ?? 0) + (Number(entry.points) || 0));
+    return balances;
+  }, new Map<string, number>());
@@ -26,32 +26,54 @@
  * --------------------------------------------------------------------
  */
 
+import { randomUUID } from 'crypto';
 import { supabaseAdmin } from '@/lib/supabase-server';
+import { addWeeklyPunches, normalizeWeeklyPunches } from '@/lib/loyalty';
 import {
-  LOYALTY_ELIGIBLE_PRODUCTS,
-  LOYALTY_STAMPS_TARGET,
-  addWeeklyPunches,
-  getCurrentWeekBounds,
-  isLoyaltyEligibleProduct,
-  normalizeWeeklyPunches,
-} from '@/lib/loyalty';
+  LEGACY_PROGRAM_ID,
+  addLoyaltyStamps,
+  availableLoyaltyRewards,
+  buildLegacyLoyaltyProgram,
+  evaluateLoyaltyItems,
+  getLoyaltyPeriodKey,
+  getLoyaltyPeriodStart,
+  isLoyaltyProgramLive,
+  normalizeLoyaltyRewards,
+  normalizeLoyaltyRules,
+  sumLoyaltyLedger,
+  toCustomerLoyaltyProgram,
+  type CustomerLoyaltyProgram,
+  type LoyaltyLedgerEntry,
+  type LoyaltyOrderItem,
+  type LoyaltyProgram,
+  type LoyaltyProgramProgress,
+  type LoyaltyResetPeriod,
+} from '@/lib/loyalty-programs';
 
 const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
 const ORDER_ITEMS_TABLE = process.env.SUPABASE_ORDER_ITEMS_TABLE ?? 'order_items';
 const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const PRODUCTS_TABLE = process.env.SUPABASE_PRODUCTS_TABLE ?? 'products';
+export const LOYALTY_PROGRAMS_TABLE = process.env.SUPABASE_LOYALTY_PROGRAMS_TABLE ?? 'loyalty_programs';
+const LOYALTY_PROGRESS_TABLE = process.env.SUPABASE_LOYALTY_PROGRESS_TABLE ?? 'loyalty_program_progress';
 const LOYALTY_RECALC_LIMIT = Number(process.env.LOYALTY_RECALC_LIMIT ?? 200);
-const ELIGIBLE_STATUSES = (process.env.LOYALTY_ELIGIBLE_STATUSES || 'completed')
+export const LOYALTY_LEDGER_TABLE = process.env.SUPABASE_LOYALTY_PUNCHES_TABLE ?? 'loyalty_points';
+// Días de vigencia de cada acumulación de puntos; 0 desactiva el vencimiento.
+const LOYALTY_POINTS_EXPIRY_DAYS = Number(process.env.LOYALTY_POINTS_EXPIRY_DAYS ?? 365);
+const LOYALTY_LEDGER_PAGE_SIZE = 100;
+export const LOYALTY_ELIGIBLE_STATUSES = (process.env.LOYALTY_ELIGIBLE_STATUSES || 'completed')
   .split(',')
   .map((status) => status.trim())
   .filter(Boolean);
 
-export const LOYALTY_PRODUCTS_REQUIRED_ERROR = 'LOYALTY_PRODUCTS_MISSING';
+export const LOYALTY_PROGRAMS_REQUIRED_ERROR = 'LOYALTY_PROGRAMS_MISSING';
 
-const ensureEligibleProductsConfigured = () => {
-  if (!LOYALTY_ELIGIBLE_PRODUCTS.length) {
-    throw new Error(LOYALTY_PRODUCTS_REQUIRED_ERROR);
-  }
-};
+const PROGRESS_FIELDS = 'id,"programId","userId","periodKey",stamps,points,"rewardsEarned","rewardsRedeemed"';
+
+const LEDGER_FIELDS =
+  'id,"userId","programId","entryType",points,stamps,reason,"orderId","expiresAt","staffId","sourceEntryId","createdAt"';
+
+type ProgressRow = LoyaltyProgramProgress & { id?: string; userId: string };
 
 const normalizeQuantity = (value: unknown) => {
   const parsed = typeof value === 'string' ? Number.parseFloat(value) : Number(value);
@@ -61,10 +83,13 @@ const normalizeQuantity = (value: unknown) => {
   return parsed <= 0 ? 1 : Math.floor(parsed);
 };
 
-export const parseOrderItems = (raw: unknown) => {
+export const parseOrderItems = (raw: unknown): unknown[] => {
   if (Array.isArray(raw)) {
     return raw;
   }
+  if (raw && typeof raw === 'object' && Array.isArray((raw as { list?: unknown }).list)) {
+    return (raw as { list: unknown[] }).list;
+  }
   if (typeof raw === 'string') {
     try {
       const parsed = JSON.parse(raw);
@@ -76,27 +101,6 @@ export const parseOrderItems = (raw: unknown) => {
   return [];
 };
 
-export const countEligiblePunchesFromSnapshot = (snapshot: unknown) => {
-  const items = parseOrderItems(snapshot);
-  if (!items.length) {
-    return 0;
-  }
-  return items.reduce((total, item) => {
-    if (!item || typeof item !== 'object') {
-      return total;
-    }
-    const record = item as Record<string, unknown>;
-    const productIdValue = record.productId ?? record.product_id;
-    if (typeof productIdValue !== 'string') {
-      return total;
-    }
-    if (!isLoyaltyEligibleProduct(productIdValue)) {
-      return total;
-    }
-    return total + normalizeQuantity(record.quantity ?? record.qty ?? 1);
-  }, 0);
-};
-
 export const loadOrderItemsSnapshot = async (orderId: string, snapshot: unknown) => {
   const inline = parseOrderItems(snapshot);
   if (inline.length) {
@@ -119,84 +123,778 @@ export const loadOrderItemsSnapshot = async (orderId: string, snapshot: unknown)
   }));
 };
 
-export const recalculateWeeklyCoffeeCount = async (userId: string) => {
-  ensureEligibleProductsConfigured();
-  const { start } = getCurrentWeekBounds();
+export const mapLoyaltyProgramRow = (row: Record<string, unknown>): LoyaltyProgram => ({
+  id: String(row.id),
+  name: typeof row.name === 'string' ? row.name : 'Programa',
+  description: typeof row.description === 'string' ? row.description : null,
+  isActive: row.isActive !== false,
+  resetPeriod: (['weekly', 'monthly', 'never'] as const).includes(row.resetPeriod as LoyaltyResetPeriod)
+    ? (row.resetPeriod as LoyaltyResetPeriod)
+    : 'weekly',
+  stampsTarget: Math.max(1, Number(row.stampsTarget ?? 1) || 1),
+  rules: normalizeLoyaltyRules(row.rules),
+  rewards: normalizeLoyaltyRewards(row.rewards),
+  startsAt: typeof row.startsAt === 'string' ? row.startsAt : null,
+  endsAt: typeof row.endsAt === 'string' ? row.endsAt : null,
+  source: 'db',
+});
 
-  const query = supabaseAdmin
-    .from(ORDERS_TABLE)
-    .select('id,status,"items","createdAt"')
-    .eq('userId', userId)
-    .gte('createdAt', start.toISOString())
-    .order('createdAt', { ascending: false })
-    .limit(LOYALTY_RECALC_LIMIT);
+export const loadLoyaltyPrograms = async () => {
+  const { data, error } = await supabaseAdmin
+    .from(LOYALTY_PROGRAMS_TABLE)
+    .select('id,name,description,"isActive","resetPeriod","stampsTarget",rules,rewards,"startsAt","endsAt"')
+    .order('createdAt', { ascending: true });
+  if (error) {
+    console.warn('No pudimos cargar los programas de lealtad; usamos la tarjeta semanal:', error.message);
+    return [];
+  }
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map(mapLoyaltyProgramRow);
+};
 
-  if (ELIGIBLE_STATUSES.length) {
-    query.in('status', ELIGIBLE_STATUSES);
+/**
+ * Programas vigentes. Si la base no tiene ninguno activo se usa la tarjeta
+ * semanal de las variables de entorno, que guarda su avance en `users`.
+ */
+export const loadActiveLoyaltyPrograms = async (at = new Date()) => {
+  const programs = (await loadLoyaltyPrograms()).filter((program) => isLoyaltyProgramLive(program, at));
+  if (programs.length) {
+    return programs;
   }
+  const legacy = buildLegacyLoyaltyProgram();
+  return legacy.isActive ? [legacy] : [];
+};
 
-  const { data: orders, error } = await query;
+export const ensureLoyaltyProgramsConfigured = async () => {
+  const programs = await loadActiveLoyaltyPrograms();
+  if (!programs.length) {
+    throw new Error(LOYALTY_PROGRAMS_REQUIRED_ERROR);
+  }
+  return programs;
+};
+
+/** Normaliza los artículos del pedido y completa la categoría desde `products`. */
+export const toLoyaltyItems = async (snapshots: unknown[][]): Promise<LoyaltyOrderItem[][]> => {
+  const parsed = snapshots.map((items) =>
+    items
+      .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+      .map((record) => {
+        const productId = record.productId ?? record.product_id;
+        const quantity = normalizeQuantity(record.quantity ?? record.qty ?? 1);
+        const refunded = Number(record.refundedQuantity ?? 0);
+        return {
+          productId: typeof productId === 'string' ? productId : null,
+          category: typeof record.category === 'string' ? record.category : null,
+          quantity: Math.max(
+            0,
+            Number.isFinite(refunded) && refunded > 0 ? quantity - Math.floor(refunded) : quantity
+          ),
+        };
+      })
+  );
+
+  const missing = new Set<string>();
+  parsed.flat().forEach((item) => {
+    if (item.productId && !item.category) {
+      missing.add(item.productId);
+    }
+  });
+  if (!missing.size) {
+    return parsed;
+  }
+
+  const ids = Array.from(missing);
+  const { data, error } = await supabaseAdmin
+    .from(PRODUCTS_TABLE)
+    .select('id,"productId",category')
+    .or(`id.in.(${ids.join(',')}),productId.in.(${ids.join(',')})`);
   if (error) {
-    throw error;
+    console.warn('No pudimos cargar las categorías para lealtad:', error.message);
+    return parsed;
   }
+  const categories = new Map<string, string>();
+  (data ?? []).forEach((product) => {
+    if (typeof product.category !== 'string') {
+      return;
+    }
+    if (typeof product.id === 'string') {
+      categories.set(product.id, product.category);
+    }
+    if (typeof product.productId === 'string') {
+      categories.set(product.productId, product.category);
+    }
+  });
+  return parsed.map((items) =>
+    items.map((item) =>
+      item.productId && !item.category
+        ? { ...item, category: categories.get(item.productId) ?? null }
+        : item
+    )
+  );
+};
 
-  const punches = (orders ?? []).reduce(
-    (total, order) => total + countEligiblePunchesFromSnapshot(order.items),
-    0
+const emptyProgress = (program: LoyaltyProgram, userId: string, at: Date): ProgressRow => ({
+  programId: program.id,
+  userId,
+  periodKey: getLoyaltyPeriodKey(program.resetPeriod, at),
+  stamps: 0,
+  points: 0,
+  rewardsEarned: 0,
+  rewardsRedeemed: 0,
+});
+
+const loadProgressRows = async (programs: LoyaltyProgram[], userIds: string[], at = new Date()) => {
+  const dbPrograms = programs.filter((program) => program.source === 'db');
+  if (!dbPrograms.length || !userIds.length) {
+    return [] as ProgressRow[];
+  }
+  const periodKeys = Array.from(
+    new Set(dbPrograms.map((program) => getLoyaltyPeriodKey(program.resetPeriod, at)))
   );
-  const normalized = normalizeWeeklyPunches(punches);
+  const { data, error } = await supabaseAdmin
+    .from(LOYALTY_PROGRESS_TABLE)
+    .select(PROGRESS_FIELDS)
+    .in('programId', dbPrograms.map((program) => program.id))
+    .in('userId', userIds)
+    .in('periodKey', periodKeys);
+  if (error) {
+    throw new Error(error.message);
+  }
+  // Solo cuenta la fila del periodo vigente de cada programa.
+  return ((data ?? []) as unknown as ProgressRow[]).filter((row) => {
+    const program = dbPrograms.find((entry) => entry.id === row.programId);
+    return program ? row.periodKey === getLoyaltyPeriodKey(program.resetPeriod, at) : false;
+  });
+};
+
+const saveProgress = async (row: ProgressRow) => {
+  const { error } = await supabaseAdmin.from(LOYALTY_PROGRESS_TABLE).upsert(
+    {
+      id: row.id ?? randomUUID(),
+      programId: row.programId,
+      userId: row.userId,
+      periodKey: row.periodKey,
+      stamps: row.stamps,
+      points: row.points,
+      rewardsEarned: row.rewardsEarned,
+      rewardsRedeemed: row.rewardsRedeemed,
+      updatedAt: new Date().toISOString(),
+    },
+    { onConflict: 'programId,userId,periodKey' }
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+};
 
-  const { error: updateError } = await supabaseAdmin
+/**
+ * La app de clientes lee `users.weeklyCoffeeCount`/`rewardEarned`; reflejamos ahí
+ * la primera tarjeta activa para no romperla.
+ */
+const mirrorPrimaryCard = async (userId: string, progress: ProgressRow) => {
+  const { error } = await supabaseAdmin
     .from(USERS_TABLE)
     .update({
-      weeklyCoffeeCount: normalized.weeklyCoffeeCount,
-      rewardEarned: normalized.rewardEarned,
+      weeklyCoffeeCount: progress.stamps,
+      rewardEarned: availableLoyaltyRewards(progress) > 0,
     })
     .eq('id', userId);
-
-  if (updateError) {
-    throw updateError;
+  if (error) {
+    throw new Error(error.message);
   }
-
-  return {
-    userId,
-    weeklyCoffeeCount: normalized.weeklyCoffeeCount,
-    rewardEarned: normalized.rewardEarned,
-    punches,
-    maxStamps: LOYALTY_STAMPS_TARGET,
-  };
 };
 
-export const applyPunchesForUser = async (userId: string, punches: number) => {
+const loadLegacyCard = async (userId: string) => {
   const { data, error } = await supabaseAdmin
     .from(USERS_TABLE)
     .select('id,"weeklyCoffeeCount","rewardEarned"')
     .eq('id', userId)
     .maybeSingle();
-
   if (error) {
     throw error;
   }
   if (!data) {
     throw new Error('USER_NOT_FOUND');
   }
-  if (data.rewardEarned) {
-    return { weeklyCoffeeCount: data.weeklyCoffeeCount ?? 0, rewardEarned: true };
+  return { weeklyCoffeeCount: data.weeklyCoffeeCount ?? 0, rewardEarned: Boolean(data.rewardEarned) };
+};
+
+const saveLegacyCard = async (userId: string, state: { weeklyCoffeeCount: number; rewardEarned: boolean }) => {
+  const { error } = await supabaseAdmin.from(USERS_TABLE).update(state).eq('id', userId);
+  if (error) {
+    throw error;
   }
-  const nextState = addWeeklyPunches(data.weeklyCoffeeCount ?? 0, punches);
-  const { error: updateError } = await supabaseAdmin
-    .from(USERS_TABLE)
-    .update({
-      weeklyCoffeeCount: nextState.weeklyCoffeeCount,
-      rewardEarned: nextState.rewardEarned,
+};
+
+const legacyToCustomerProgram = (
+  program: LoyaltyProgram,
+  state: { weeklyCoffeeCount?: number | null; rewardEarned?: boolean | null }
+) =>
+  toCustomerLoyaltyProgram(program, {
+    stamps: Math.max(0, Number(state.weeklyCoffeeCount ?? 0)),
+    points: 0,
+    rewardsEarned: state.rewardEarned ? 1 : 0,
+    rewardsRedeemed: 0,
+  });
+
+type LoyaltyLedgerInput = Omit<LoyaltyLedgerEntry, 'id' | 'createdAt'>;
+
+const buildLedgerEntry = (
+  entry: Pick<LoyaltyLedgerInput, 'userId' | 'programId' | 'entryType' | 'reason'> & Partial<LoyaltyLedgerInput>
+): LoyaltyLedgerInput => ({
+  points: 0,
+  stamps: 0,
+  orderId: null,
+  expiresAt: null,
+  staffId: null,
+  sourceEntryId: null,
+  ...entry,
+});
+
+const buildPointsExpiry = (points: number, at: Date) =>
+  points > 0 && LOYALTY_POINTS_EXPIRY_DAYS > 0
+    ? new Date(at.getTime() + LOYALTY_POINTS_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+/** Las filas del libro nunca se editan: cualquier corrección es una fila nueva. */
+export const appendLoyaltyLedger = async (entries: LoyaltyLedgerInput[]) => {
+  if (!entries.length) {
+    return [] as LoyaltyLedgerEntry[];
+  }
+  const createdAt = new Date().toISOString();
+  const rows: LoyaltyLedgerEntry[] = entries.map((entry) => ({ id: randomUUID(), ...entry, createdAt }));
+  const { error } = await supabaseAdmin.from(LOYALTY_LEDGER_TABLE).insert(rows);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return rows;
+};
+
+/** Saldo de puntos de cada cliente por programa, sumando su libro completo. */
+export const loadLoyaltyPointBalances = async (userIds: string[]) => {
+  const balances = new Map<string, Map<string, number>>();
+  if (!userIds.length) {
+    return balances;
+  }
+  const { data, error } = await supabaseAdmin
+    .from(LOYALTY_LEDGER_TABLE)
+    .select('"userId","programId",points')
+    .in('userId', userIds);
+  if (error) {
+    throw new Error(error.message);
+  }
+  const rows = (data ?? []) as Array<Pick<LoyaltyLedgerEntry, 'userId' | 'programId' | 'points'>>;
+  userIds.forEach((userId) => {
+    balances.set(userId, sumLoyaltyLedger(rows.filter((row) => row.userId === userId)));
+  });
+  return balances;
+};
+
+export const loadLoyaltyLedger = async (userId: string, limit = LOYALTY_LEDGER_PAGE_SIZE) => {
+  const { data, error } = await supabaseAdmin
+    .from(LOYALTY_LEDGER_TABLE)
+    .select(LEDGER_FIELDS)
+    .eq('userId', userId)
+    .order('createdAt', { ascending: false })
+    .limit(limit);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []) as unknown as LoyaltyLedgerEntry[];
+};
+
+const loadOrderEarnEntries = async (orderId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(LOYALTY_LEDGER_TABLE)
+    .select(LEDGER_FIELDS)
+    .eq('orderId', orderId)
+    .in('entryType', ['earn', 'adjust']);
+  if (error) {
+    throw new Error(error.message);
+  }
+  const rows = (data ?? []) as unknown as LoyaltyLedgerEntry[];
+  // Un reembolso parcial puede dejar varios ajustes contra la misma acumulación.
+  const reversed = new Map<string, { points: number; stamps: number }>();
+  rows.forEach((row) => {
+    if (row.entryType !== 'adjust' || !row.sourceEntryId) {
+      return;
+    }
+    const current = reversed.get(row.sourceEntryId) ?? { points: 0, stamps: 0 };
+    reversed.set(row.sourceEntryId, {
+      points: current.points + row.points,
+      stamps: current.stamps + row.stamps,
+    });
+  });
+  return {
+    earned: rows.filter((row) => row.entryType === 'earn'),
+    reversed,
+  };
+};
+
+/** Suma al cliente lo que el pedido gana en cada programa vigente. */
+export const applyOrderToLoyaltyPrograms = async (
+  userId: string,
+  snapshotItems: unknown[],
+  options: { orderId?: string | null; at?: Date } = {}
+) => {
+  const at = options.at ?? new Date();
+  const orderId = options.orderId ?? null;
+  const programs = await loadActiveLoyaltyPrograms(at);
+  if (!programs.length) {
+    return [];
+  }
+  // Un pedido que se vuelve a completar no acumula dos veces en el mismo programa.
+  const credited = new Set(
+    orderId ? (await loadOrderEarnEntries(orderId)).earned.map((entry) => entry.programId) : []
+  );
+  const [items] = await toLoyaltyItems([snapshotItems]);
+  const existing = await loadProgressRows(programs, [userId], at);
+  const balances = (await loadLoyaltyPointBalances([userId])).get(userId) ?? new Map<string, number>();
+  const entries: LoyaltyLedgerInput[] = [];
+  const writes: Array<() => Promise<void>> = [];
+  const results: CustomerLoyaltyProgram[] = [];
+
+  for (const [index, program] of programs.entries()) {
+    const earned = credited.has(program.id)
+      ? { stamps: 0, points: 0 }
+      : evaluateLoyaltyItems(program, items, at);
+    if (program.source === 'env') {
+      const current = await loadLegacyCard(userId);
+      // La tarjeta semanal original no suma más sellos hasta canjear el premio.
+      const next =
+        current.rewardEarned || !earned.stamps ? current : addWeeklyPunches(current.weeklyCoffeeCount, earned.stamps);
+      if (next !== current) {
+        entries.push(
+          buildLedgerEntry({
+            userId,
+            programId: program.id,
+            entryType: 'earn',
+            stamps: earned.stamps,
+            reason: 'Pedido completado',
+            orderId,
+          })
+        );
+        writes.push(() => saveLegacyCard(userId, next));
+      }
+      results.push(legacyToCustomerProgram(program, next));
+      continue;
+    }
+    const previous =
+      existing.find((row) => row.programId === program.id) ?? emptyProgress(program, userId, at);
+    const next = {
+      ...previous,
+      ...addLoyaltyStamps(
+        { ...previous, points: balances.get(program.id) ?? 0 },
+        earned,
+        program.stampsTarget
+      ),
+    };
+    if (earned.stamps || earned.points) {
+      entries.push(
+        buildLedgerEntry({
+          userId,
+          programId: program.id,
+          entryType: 'earn',
+          points: earned.points,
+          stamps: earned.stamps,
+          reason: 'Pedido completado',
+          orderId,
+          expiresAt: buildPointsExpiry(earned.points, at),
+        })
+      );
+      writes.push(() => saveProgress(next));
+      if (index === 0) {
+        writes.push(() => mirrorPrimaryCard(userId, next));
+      }
+    }
+    results.push(toCustomerLoyaltyProgram(program, next));
+  }
+
+  // El libro va primero: si el índice único rechaza la fila, la tarjeta no cambia.
+  await appendLoyaltyLedger(entries);
+  for (const write of writes) {
+    await write();
+  }
+  return results;
+};
+
+/**
+ * Compensa con ajustes las acumulaciones de un pedido revertido o reembolsado.
+ * Con `remainingItems` solo se descuenta la parte de los artículos devueltos:
+ * cada acumulación conserva la proporción que siguen ganando los que quedan.
+ * Las filas originales se conservan para poder explicar el saldo.
+ */
+export const reverseOrderLoyaltyEntries = async (orderId: string, remainingItems: unknown[] = []) => {
+  const { earned, reversed } = await loadOrderEarnEntries(orderId);
+  const pending = earned.filter((entry) => {
+    const previous = reversed.get(entry.id);
+    return entry.points + (previous?.points ?? 0) > 0 || entry.stamps + (previous?.stamps ?? 0) > 0;
+  });
+  if (!pending.length) {
+    return [] as LoyaltyLedgerEntry[];
+  }
+
+  const partial = remainingItems.length > 0;
+  const programs = partial ? [...(await loadLoyaltyPrograms()), buildLegacyLoyaltyProgram()] : [];
+  // La proporción compara el pedido completo contra lo que queda sin devolver.
+  const [originalItems = [], keptItems = []] = partial
+    ? await toLoyaltyItems([
+        remainingItems.map((item) =>
+          item && typeof item === 'object' ? { ...item, refundedQuantity: 0 } : item
+        ),
+        remainingItems,
+      ])
+    : [];
+
+  const keptShare = (entry: LoyaltyLedgerEntry) => {
+    if (!partial) {
+      return { points: 0, stamps: 0 };
+    }
+    const program = programs.find((candidate) => candidate.id === entry.programId);
+    if (!program) {
+      // Sin las reglas del programa no se puede atribuir la parte devuelta; se deja como está.
+      return { points: entry.points, stamps: entry.stamps };
+    }
+    const at = new Date(entry.createdAt);
+    const original = evaluateLoyaltyItems(program, originalItems, at);
+    const kept = evaluateLoyaltyItems(program, keptItems, at);
+    const share = (earnedValue: number, originalValue: number, keptValue: number) =>
+      originalValue > 0 ? Math.min(earnedValue, Math.floor((earnedValue * keptValue) / originalValue)) : 0;
+    return {
+      points: share(entry.points, original.points, kept.points),
+      stamps: share(entry.stamps, original.stamps, kept.stamps),
+    };
+  };
+
+  return appendLoyaltyLedger(
+    pending.flatMap((entry) => {
+      const previous = reversed.get(entry.id) ?? { points: 0, stamps: 0 };
+      const kept = keptShare(entry);
+      // Nunca devuelve lo que ya se descontó en un reembolso anterior.
+      const points = Math.min(0, kept.points - (entry.points + previous.points));
+      const stamps = Math.min(0, kept.stamps - (entry.stamps + previous.stamps));
+      if (!points && !stamps) {
+        return [];
+      }
+      return [
+        buildLedgerEntry({
+          userId: entry.userId,
+          programId: entry.programId ?? null,
+          entryType: 'adjust',
+          points,
+          stamps,
+          reason: partial ? 'Reembolso parcial del pedido' : 'Pedido revertido',
+          orderId,
+          sourceEntryId: entry.id,
+        }),
+      ];
     })
-    .eq('id', userId);
-  if (updateError) {
-    throw updateError;
+  );
+};
+
+/**
+ * Recalcula los sellos del periodo vigente de cada programa desde los pedidos,
+ * por ejemplo después de revertir o reembolsar uno. Los puntos salen del libro
+ * y los canjes ya registrados se conservan.
+ */
+export const recalculateLoyaltyProgress = async (userId: string, at = new Date()) => {
+  const programs = await ensureLoyaltyProgramsConfigured();
+  const since = programs
+    .map((program) => getLoyaltyPeriodStart(program.resetPeriod, at))
+    .reduce((earliest, start) => (start < earliest ? start : earliest));
+
+  const query = supabaseAdmin
+    .from(ORDERS_TABLE)
+    .select('id,status,"items","createdAt"')
+    .eq('userId', userId)
+    .gte('createdAt', since.toISOString())
+    .order('createdAt', { ascending: false })
+    .limit(LOYALTY_RECALC_LIMIT);
+  if (LOYALTY_ELIGIBLE_STATUSES.length) {
+    query.in('status', LOYALTY_ELIGIBLE_STATUSES);
+  }
+  const { data: orders, error } = await query;
+  if (error) {
+    throw error;
+  }
+
+  const orderRows = orders ?? [];
+  const itemsByOrder = await toLoyaltyItems(orderRows.map((order) => parseOrderItems(order.items)));
+  const existing = await loadProgressRows(programs, [userId], at);
+  const balances = (await loadLoyaltyPointBalances([userId])).get(userId) ?? new Map<string, number>();
+  const results: CustomerLoyaltyProgram[] = [];
+
+  for (const [index, program] of programs.entries()) {
+    const start = getLoyaltyPeriodStart(program.resetPeriod, at);
+    const stamps = orderRows.reduce((total, order, orderIndex) => {
+      const createdAt = new Date(order.createdAt);
+      if (createdAt < start) {
+        return total;
+      }
+      return total + evaluateLoyaltyItems(program, itemsByOrder[orderIndex], createdAt).stamps;
+    }, 0);
+
+    if (program.source === 'env') {
+      const next = normalizeWeeklyPunches(stamps);
+      await saveLegacyCard(userId, next);
+      results.push(legacyToCustomerProgram(program, next));
+      continue;
+    }
+    const previous =
+      existing.find((row) => row.programId === program.id) ?? emptyProgress(program, userId, at);
+    const next = {
+      ...previous,
+      ...addLoyaltyStamps(
+        { ...previous, stamps: 0, points: 0, rewardsEarned: 0 },
+        { stamps, points: balances.get(program.id) ?? 0 },
+        program.stampsTarget
+      ),
+    };
+    await saveProgress(next);
+    if (index === 0) {
+      await mirrorPrimaryCard(userId, next);
+    }
+    results.push(toCustomerLoyaltyProgram(program, next));
+  }
+
+  const primary = results[0];
+  return {
+    userId,
+    weeklyCoffeeCount: primary?.stamps ?? 0,
+    rewardEarned: (primary?.rewardsAvailable ?? 0) > 0,
+    maxStamps: primary?.stampsTarget ?? 0,
+    programs: results,
+  };
+};
+
+/** Avance vigente de varios clientes, agrupado por `userId`. */
+export const loadCustomerLoyaltyPrograms = async (
+  users: Array<{ id: string; weeklyCoffeeCount?: number | null; rewardEarned?: boolean | null }>,
+  at = new Date()
+) => {
+  const programs = await loadActiveLoyaltyPrograms(at);
+  const userIds = users.map((user) => user.id);
+  const rows = await loadProgressRows(programs, userIds, at);
+  const balances = programs.some((program) => program.source === 'db')
+    ? await loadLoyaltyPointBalances(userIds)
+    : new Map<string, Map<string, number>>();
+  const byUser = new Map<string, CustomerLoyaltyProgram[]>();
+  users.forEach((user) => {
+    byUser.set(
+      user.id,
+      programs.map((program) => {
+        if (program.source === 'env') {
+          return legacyToCustomerProgram(program, user);
+        }
+        const row = rows.find((entry) => entry.userId === user.id && entry.programId === program.id);
+        return toCustomerLoyaltyProgram(program, {
+          ...(row ?? emptyProgress(program, user.id, at)),
+          points: balances.get(user.id)?.get(program.id) ?? 0,
+        });
+      })
+    );
+  });
+  return byUser;
+};
+
+/**
+ * Canjea una recompensa del catálogo. Las que tienen costo en puntos los
+ * descuentan; el resto consume una tarjeta de sellos completa.
+ */
+export const redeemLoyaltyReward = async (
+  userId: string,
+  programId: string,
+  rewardId?: string | null,
+  staffId?: string | null
+) => {
+  const at = new Date();
+  const programs = await loadActiveLoyaltyPrograms(at);
+  const program = programs.find((entry) => entry.id === programId);
+  if (!program) {
+    throw new Error('PROGRAM_NOT_FOUND');
+  }
+  const reward = rewardId
+    ? program.rewards.find((entry) => entry.id === rewardId)
+    : program.rewards.find((entry) => !entry.pointsCost);
+  if (!reward) {
+    throw new Error('REWARD_NOT_FOUND');
+  }
+  const redemption = buildLedgerEntry({
+    userId,
+    programId: program.id,
+    entryType: 'redeem',
+    reason: `Canje: ${reward.label}`,
+    staffId: staffId ?? null,
+  });
+
+  if (program.source === 'env') {
+    const current = await loadLegacyCard(userId);
+    if (!current.rewardEarned) {
+      throw new Error('REWARD_NOT_AVAILABLE');
+    }
+    const next = { weeklyCoffeeCount: 0, rewardEarned: false };
+    await appendLoyaltyLedger([{ ...redemption, stamps: -program.stampsTarget }]);
+    await saveLegacyCard(userId, next);
+    return { reward, program: legacyToCustomerProgram(program, next) };
+  }
+
+  const [existing] = await loadProgressRows([program], [userId], at);
+  const balance = (await loadLoyaltyPointBalances([userId])).get(userId)?.get(program.id) ?? 0;
+  const previous = { ...(existing ?? emptyProgress(program, userId, at)), points: balance };
+  let next: ProgressRow;
+  if (reward.pointsCost) {
+    if (balance < reward.pointsCost) {
+      throw new Error('REWARD_NOT_AVAILABLE');
+    }
+    await appendLoyaltyLedger([{ ...redemption, points: -reward.pointsCost }]);
+    next = { ...previous, points: balance - reward.pointsCost };
+  } else {
+    if (availableLoyaltyRewards(previous) < 1) {
+      throw new Error('REWARD_NOT_AVAILABLE');
+    }
+    await appendLoyaltyLedger([{ ...redemption, stamps: -program.stampsTarget }]);
+    next = { ...previous, rewardsRedeemed: previous.rewardsRedeemed + 1 };
+  }
+  await saveProgress(next);
+  if (programs[0]?.id === program.id) {
+    await mirrorPrimaryCard(userId, next);
+  }
+  return { reward, program: toCustomerLoyaltyProgram(program, next) };
+};
+
+/**
+ * Ajuste manual de sellos y/o puntos en cualquier programa, incluso uno ya
+ * inactivo. Siempre queda una fila con el motivo y quién lo hizo.
+ */
+export const adjustLoyaltyBalance = async (adjustment: {
+  userId: string;
+  programId: string;
+  points: number;
+  stamps: number;
+  reason: string;
+  staffId?: string | null;
+}) => {
+  const at = new Date();
+  const program = [...(await loadLoyaltyPrograms()), buildLegacyLoyaltyProgram()].find(
+    (entry) => entry.id === adjustment.programId
+  );
+  if (!program) {
+    throw new Error('PROGRAM_NOT_FOUND');
+  }
+  const balance =
+    (await loadLoyaltyPointBalances([adjustment.userId])).get(adjustment.userId)?.get(program.id) ?? 0;
+  if (balance + adjustment.points < 0) {
+    throw new Error('INSUFFICIENT_POINTS');
+  }
+
+  const [entry] = await appendLoyaltyLedger([
+    buildLedgerEntry({
+      userId: adjustment.userId,
+      programId: program.id,
+      entryType: 'adjust',
+      points: adjustment.points,
+      stamps: adjustment.stamps,
+      reason: adjustment.reason,
+      staffId: adjustment.staffId ?? null,
+      expiresAt: buildPointsExpiry(adjustment.points, at),
+    }),
+  ]);
+
+  if (program.source === 'env') {
+    if (adjustment.stamps) {
+      const current = await loadLegacyCard(adjustment.userId);
+      await saveLegacyCard(
+        adjustment.userId,
+        adjustment.stamps > 0
+          ? addWeeklyPunches(current.weeklyCoffeeCount, adjustment.stamps)
+          : normalizeWeeklyPunches(current.weeklyCoffeeCount + adjustment.stamps)
+      );
+    }
+    return entry;
+  }
+
+  const [existing] = await loadProgressRows([program], [adjustment.userId], at);
+  const previous = { ...(existing ?? emptyProgress(program, adjustment.userId, at)), points: balance };
+  const next =
+    adjustment.stamps >= 0
+      ? { ...previous, ...addLoyaltyStamps(previous, adjustment, program.stampsTarget) }
+      : {
+          ...previous,
+          stamps: Math.max(0, previous.stamps + adjustment.stamps),
+          points: balance + adjustment.points,
+        };
+  await saveProgress(next);
+  const [primary] = await loadActiveLoyaltyPrograms(at);
+  if (primary?.id === program.id) {
+    await mirrorPrimaryCard(adjustment.userId, next);
   }
-  return nextState;
+  return entry;
 };
 
-export const ensureLoyaltyProductsConfigured = () => {
-  ensureEligibleProductsConfigured();
+/** Sellos capturados a mano en la tarjeta principal, con el gerente que los autorizó. */
+export const addManualStamps = async (
+  userId: string,
+  stamps: number,
+  options: { reason?: string; staffId?: string | null } = {}
+) => {
+  const at = new Date();
+  const [program] = await ensureLoyaltyProgramsConfigured();
+  const entry = buildLedgerEntry({
+    userId,
+    programId: program.id,
+    entryType: 'adjust',
+    stamps,
+    reason: options.reason ?? 'Sellos capturados a mano',
+    staffId: options.staffId ?? null,
+  });
+  if (program.source === 'env') {
+    const current = await loadLegacyCard(userId);
+    if (current.rewardEarned) {
+      throw new Error('REWARD_PENDING');
+    }
+    const next = addWeeklyPunches(current.weeklyCoffeeCount, stamps);
+    await appendLoyaltyLedger([entry]);
+    await saveLegacyCard(userId, next);
+    return legacyToCustomerProgram(program, next);
+  }
+  const [existing] = await loadProgressRows([program], [userId], at);
+  const previous = existing ?? emptyProgress(program, userId, at);
+  const next = {
+    ...previous,
+    ...addLoyaltyStamps(previous, { stamps, points: 0 }, program.stampsTarget),
+  };
+  await appendLoyaltyLedger([entry]);
+  await saveProgress(next);
+  await mirrorPrimaryCard(userId, next);
+  return toCustomerLoyaltyProgram(program, next);
+};
+
+/** Reinicia la tarjeta principal dando por canjeadas sus recompensas pendientes. */
+export const resetPrimaryLoyaltyCard = async (userId: string, staffId: string | null = null) => {
+  const at = new Date();
+  const [program] = await loadActiveLoyaltyPrograms(at);
+  const reset = (stamps: number) =>
+    stamps > 0
+      ? appendLoyaltyLedger([
+          buildLedgerEntry({
+            userId,
+            programId: program?.id ?? LEGACY_PROGRAM_ID,
+            entryType: 'adjust',
+            stamps: -stamps,
+            reason: 'Reinicio manual de la tarjeta',
+            staffId,
+          }),
+        ])
+      : Promise.resolve([]);
+  if (!program || program.source === 'env') {
+    const current = await loadLegacyCard(userId);
+    await reset(current.weeklyCoffeeCount);
+    await saveLegacyCard(userId, { weeklyCoffeeCount: 0, rewardEarned: false });
+    return;
+  }
+  const [existing] = await loadProgressRows([program], [userId], at);
+  const previous = existing ?? emptyProgress(program, userId, at);
+  const next = { ...previous, stamps: 0, rewardsRedeemed: previous.rewardsEarned };
+  await reset(previous.stamps);
+  await saveProgress(next);
+  await mirrorPrimaryCard(userId, next);
 };
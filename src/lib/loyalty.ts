@@ -77,33 +77,6 @@ export const isPublicSaleOrder = (order: PublicSaleOrderInput) => {
   return candidates.some((identifier) => isPublicSaleIdentifier(identifier));
 };
 
-const normalizedEligibleProducts = new Set(
-  LOYALTY_ELIGIBLE_PRODUCTS.map((productId) => productId.toLowerCase())
-);
-
-export const isLoyaltyEligibleProduct = (productId?: string | null) => {
-  if (!productId) {
-    return false;
-  }
-  const normalized = productId.trim().toLowerCase();
-  if (!normalized) {
-    return false;
-  }
-  return normalizedEligibleProducts.has(normalized);
-};
-
-export const getCurrentWeekBounds = () => {
-  const now = new Date();
-  const day = now.getDay(); // 0 (Sun) - 6 (Sat)
-  const diff = day === 0 ? 6 : day - 1;
-  const start = new Date(now);
-  start.setHours(0, 0, 0, 0);
-  start.setDate(start.getDate() - diff);
-  const end = new Date(start);
-  end.setDate(start.getDate() + 7);
-  return { start, end };
-};
-
 export const normalizeWeeklyPunches = (totalPunches: number) => {
   const sanitized = Math.max(0, Math.floor(totalPunches));
   if (sanitized >= LOYALTY_STAMPS_TARGET) {
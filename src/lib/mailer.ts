@@ -473,3 +473,101 @@ export async function sendMarketingOptInEmail({
     text: textBody,
   });
 }
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+interface MarketingCampaignEmailInput {
+  to: string;
+  displayName?: string | null;
+  subject: string;
+  headline?: string | null;
+  body: string;
+  ctaLabel?: string | null;
+  ctaUrl?: string | null;
+  promoCode?: string | null;
+  promoSummary?: string | null;
+  promoExpiresAt?: string | null;
+  unsubscribeUrl: string;
+  openTrackingUrl?: string | null;
+}
+
+/**
+ * Correo de campaña. El texto lo escribe el staff y admite `{{nombre}}` y
+ * `{{codigo}}`; los párrafos se separan con una línea en blanco.
+ */
+export async function sendMarketingCampaignEmail({
+  to,
+  displayName,
+  subject,
+  headline,
+  body,
+  ctaLabel,
+  ctaUrl,
+  promoCode,
+  promoSummary,
+  promoExpiresAt,
+  unsubscribeUrl,
+  openTrackingUrl,
+}: MarketingCampaignEmailInput) {
+  const name = friendlyName(displayName);
+  const fillTemplate = (value: string) =>
+    value.replace(/\{\{\s*nombre\s*\}\}/gi, name).replace(/\{\{\s*codigo\s*\}\}/gi, promoCode ?? '');
+  const paragraphs = fillTemplate(body)
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  const readableExpiry = promoExpiresAt
+    ? new Date(promoExpiresAt).toLocaleDateString('es-MX', { dateStyle: 'medium' })
+    : null;
+
+  const htmlBody = `
+    ${headline ? `<h2>${escapeHtml(fillTemplate(headline))}</h2>` : ''}
+    ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />')}</p>`).join('\n')}
+    ${
+      promoCode
+        ? `<p>Tu código: <strong>${escapeHtml(promoCode)}</strong>${
+            promoSummary ? ` (${escapeHtml(promoSummary)})` : ''
+          }${readableExpiry ? `, válido hasta el ${readableExpiry}` : ''}.</p>`
+        : ''
+    }
+    ${
+      ctaLabel && ctaUrl
+        ? `<p><a href="${escapeHtml(ctaUrl)}">${escapeHtml(ctaLabel)}</a></p>`
+        : ''
+    }
+    <p style="font-size:12px;color:#888">Recibes este correo porque aceptaste novedades de Xoco Café.
+      <a href="${escapeHtml(unsubscribeUrl)}">Darte de baja</a>.</p>
+    ${openTrackingUrl ? `<img src="${escapeHtml(openTrackingUrl)}" width="1" height="1" alt="" />` : ''}
+  `;
+
+  const textBody = [
+    headline ? fillTemplate(headline) : '',
+    paragraphs.join('\n\n'),
+    promoCode
+      ? `Tu código: ${promoCode}${promoSummary ? ` (${promoSummary})` : ''}${
+          readableExpiry ? `, válido hasta el ${readableExpiry}` : ''
+        }`
+      : '',
+    ctaLabel && ctaUrl ? `${ctaLabel}: ${ctaUrl}` : '',
+    `Darte de baja: ${unsubscribeUrl}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return deliverTransactionalEmail({
+    to,
+    subject: fillTemplate(subject),
+    html: htmlBody,
+    text: textBody,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  });
+}
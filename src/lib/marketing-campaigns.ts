@@ -0,0 +1,806 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { withDecryptedUserNames } from '@/lib/customer-decrypt';
+import { sendMarketingCampaignEmail } from '@/lib/mailer';
+
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const PROMO_CODES_TABLE = 'promo_codes';
+const PROMO_REDEMPTIONS_TABLE = 'promo_redemptions';
+export const MARKETING_CAMPAIGNS_TABLE =
+  process.env.SUPABASE_MARKETING_CAMPAIGNS_TABLE ?? 'marketing_campaigns';
+const CAMPAIGN_RECIPIENTS_TABLE =
+  process.env.SUPABASE_MARKETING_RECIPIENTS_TABLE ?? 'marketing_campaign_recipients';
+
+// Envío escalonado: cada llamada manda un lote y espera entre correos para no
+// rebasar el límite del proveedor SMTP.
+const SEND_BATCH_SIZE = Number(process.env.MARKETING_SEND_BATCH_SIZE ?? 20);
+const SEND_INTERVAL_MS = Number(process.env.MARKETING_SEND_INTERVAL_MS ?? 500);
+const MAX_AUDIENCE = 5000;
+const RECIPIENT_INSERT_CHUNK = 500;
+const CLUSTER_WINDOW_DAYS = 30;
+const CAMPAIGN_LIST_LIMIT = 50;
+const DAY_MS = 86_400_000;
+
+export const MARKETING_CAMPAIGN_ERRORS: Record<string, { status: number; message: string }> = {
+  CAMPAIGN_NOT_FOUND: { status: 404, message: 'La campaña no existe.' },
+  EMPTY_AUDIENCE: {
+    status: 400,
+    message: 'Ningún cliente con consentimiento de correo coincide con esa audiencia.',
+  },
+  CAMPAIGN_COMPLETED: { status: 409, message: 'La campaña ya se envió por completo.' },
+  INVALID_TOKEN: { status: 404, message: 'La liga ya no es válida.' },
+};
+
+export const MARKETING_CLUSTERS = ['high', 'routine', 'occasional'] as const;
+
+export type MarketingCluster = (typeof MARKETING_CLUSTERS)[number];
+
+/** Valores que escribe el trigger `calculate_user_segment` en `users.userSegment`. */
+export const CUSTOMER_SEGMENTS = ['active', 'engaged', 'at_risk', 'churned', 'vip'] as const;
+
+export type CustomerSegment = (typeof CUSTOMER_SEGMENTS)[number];
+
+/** Misma regla que el histórico de marketing: gasto u órdenes en el periodo. */
+export const classifyMarketingCluster = (stat: { orders: number; spent: number }): MarketingCluster => {
+  if (stat.spent >= 800 || stat.orders >= 12) {
+    return 'high';
+  }
+  if (stat.spent >= 300) {
+    return 'routine';
+  }
+  return 'occasional';
+};
+
+export type CampaignAudienceFilter = {
+  cluster?: MarketingCluster | null;
+  favoriteDrink?: string | null;
+  inactiveDays?: number | null;
+  segment?: CustomerSegment | null;
+};
+
+export type CampaignPromoInput = {
+  discountType: 'percentage' | 'amount';
+  discountValue: number;
+  validDays: number;
+};
+
+export type MarketingCampaignInput = {
+  name: string;
+  subject: string;
+  headline?: string | null;
+  body: string;
+  ctaLabel?: string | null;
+  ctaUrl?: string | null;
+  audience: CampaignAudienceFilter;
+  promo?: CampaignPromoInput | null;
+};
+
+export type MarketingCampaignStatus = 'draft' | 'sending' | 'sent';
+
+export type MarketingCampaignStats = {
+  pending: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  opened: number;
+  unsubscribed: number;
+  redeemed: number;
+  redemptions: number;
+};
+
+export type MarketingCampaign = {
+  id: string;
+  name: string;
+  subject: string;
+  headline: string | null;
+  body: string;
+  ctaLabel: string | null;
+  ctaUrl: string | null;
+  audience: CampaignAudienceFilter;
+  status: MarketingCampaignStatus;
+  recipientCount: number;
+  promoCode: string | null;
+  promoExpiresAt: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+  stats: MarketingCampaignStats;
+};
+
+export type CampaignSendResult = {
+  campaignId: string;
+  sent: number;
+  failed: number;
+  skipped: number;
+  remaining: number;
+  status: MarketingCampaignStatus;
+};
+
+type AudienceMember = {
+  id: string;
+  email: string;
+};
+
+type PromoRow = {
+  id: string;
+  code: string;
+  discountType: string | null;
+  discountValue: number | null;
+  expiresAt: string | null;
+};
+
+const AUDIENCE_FIELDS =
+  'id,email,"favoriteColdDrink","favoriteHotDrink","createdAt"';
+const RECIPIENT_USER_FIELDS =
+  'id,email,"marketingEmail","anonymizedAt","firstNameEncrypted","firstNameIv","firstNameTag","firstNameSalt"';
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const normalizeText = (value: unknown) =>
+  typeof value === 'string'
+    ? value
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim()
+        .toLowerCase()
+    : '';
+
+const loadOrdersSince = async (sinceIso: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(ORDERS_TABLE)
+    .select('"userId",total')
+    .gte('createdAt', sinceIso);
+  if (error) {
+    throw new Error(`${ORDERS_TABLE}: ${error.message}`);
+  }
+  return (data ?? []) as Array<{ userId: string | null; total: unknown }>;
+};
+
+/**
+ * Clientes que recibirían la campaña. Siempre se limita a quienes aceptaron
+ * `marketingEmail` y no están anonimizados; los filtros se combinan entre sí.
+ */
+export const resolveCampaignAudience = async (
+  filter: CampaignAudienceFilter
+): Promise<AudienceMember[]> => {
+  let query = supabaseAdmin
+    .from(USERS_TABLE)
+    .select(AUDIENCE_FIELDS)
+    .eq('marketingEmail', true)
+    .is('anonymizedAt', null)
+    .limit(MAX_AUDIENCE);
+  if (filter.segment) {
+    query = query.eq('userSegment', filter.segment);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`${USERS_TABLE}: ${error.message}`);
+  }
+  let users = ((data ?? []) as Array<Record<string, unknown>>).filter(
+    (user) => typeof user.email === 'string' && user.email.includes('@')
+  );
+
+  const drink = normalizeText(filter.favoriteDrink);
+  if (drink) {
+    users = users.filter(
+      (user) =>
+        normalizeText(user.favoriteColdDrink).includes(drink) ||
+        normalizeText(user.favoriteHotDrink).includes(drink)
+    );
+  }
+
+  if (filter.cluster && users.length) {
+    const orders = await loadOrdersSince(
+      new Date(Date.now() - CLUSTER_WINDOW_DAYS * DAY_MS).toISOString()
+    );
+    const stats = new Map<string, { orders: number; spent: number }>();
+    orders.forEach((order) => {
+      const userId = order.userId?.trim();
+      if (!userId) {
+        return;
+      }
+      const entry = stats.get(userId) ?? { orders: 0, spent: 0 };
+      entry.orders += 1;
+      entry.spent += Number(order.total) || 0;
+      stats.set(userId, entry);
+    });
+    users = users.filter((user) => {
+      const entry = stats.get(String(user.id));
+      return Boolean(entry && classifyMarketingCluster(entry) === filter.cluster);
+    });
+  }
+
+  if (filter.inactiveDays && users.length) {
+    const cutoff = new Date(Date.now() - filter.inactiveDays * DAY_MS).toISOString();
+    const recentOrders = await loadOrdersSince(cutoff);
+    const activeIds = new Set(recentOrders.map((order) => order.userId?.trim()).filter(Boolean));
+    // Una cuenta más nueva que el periodo todavía no puede considerarse inactiva.
+    users = users.filter(
+      (user) =>
+        !activeIds.has(String(user.id)) &&
+        typeof user.createdAt === 'string' &&
+        user.createdAt <= cutoff
+    );
+  }
+
+  return users.map((user) => ({ id: String(user.id), email: String(user.email) }));
+};
+
+const buildPromoSummary = (promo: PromoRow | null) => {
+  if (!promo?.discountValue) {
+    return null;
+  }
+  return promo.discountType === 'amount'
+    ? `$${Number(promo.discountValue).toFixed(2)} de descuento`
+    : `${Number(promo.discountValue)}% de descuento`;
+};
+
+const generatePromoCode = () => `XOCO-${randomBytes(4).toString('hex').toUpperCase()}`;
+
+const createCampaignPromoCode = async (
+  campaignId: string,
+  promo: CampaignPromoInput,
+  staffId: string | null
+) => {
+  const nowISO = new Date().toISOString();
+  const record = {
+    id: randomUUID(),
+    code: generatePromoCode(),
+    description: `Campaña ${campaignId}`,
+    appliesTo: 'product',
+    discountType: promo.discountType,
+    discountValue: promo.discountValue,
+    maxRedemptions: null,
+    perUserLimit: 1,
+    metadata: { source: 'marketing_campaign', campaignId },
+    validFrom: nowISO,
+    expiresAt: new Date(Date.now() + promo.validDays * DAY_MS).toISOString(),
+    isActive: true,
+    createdBy: staffId ?? 'pos',
+    createdAt: nowISO,
+    updatedAt: nowISO,
+  };
+  const { error } = await supabaseAdmin.from(PROMO_CODES_TABLE).insert(record);
+  if (error) {
+    throw new Error(`${PROMO_CODES_TABLE}: ${error.message}`);
+  }
+  return record;
+};
+
+const emptyStats = (): MarketingCampaignStats => ({
+  pending: 0,
+  sent: 0,
+  failed: 0,
+  skipped: 0,
+  opened: 0,
+  unsubscribed: 0,
+  redeemed: 0,
+  redemptions: 0,
+});
+
+const mapCampaignRow = (
+  row: Record<string, unknown>,
+  promo: PromoRow | null,
+  stats: MarketingCampaignStats
+): MarketingCampaign => ({
+  id: String(row.id),
+  name: String(row.name ?? ''),
+  subject: String(row.subject ?? ''),
+  headline: typeof row.headline === 'string' ? row.headline : null,
+  body: String(row.body ?? ''),
+  ctaLabel: typeof row.ctaLabel === 'string' ? row.ctaLabel : null,
+  ctaUrl: typeof row.ctaUrl === 'string' ? row.ctaUrl : null,
+  audience:
+    row.audience && typeof row.audience === 'object'
+      ? (row.audience as CampaignAudienceFilter)
+      : {},
+  status: (row.status as MarketingCampaignStatus) ?? 'draft',
+  recipientCount: Number(row.recipientCount ?? 0),
+  promoCode: promo?.code ?? null,
+  promoExpiresAt: promo?.expiresAt ?? null,
+  createdAt: String(row.createdAt ?? ''),
+  startedAt: typeof row.startedAt === 'string' ? row.startedAt : null,
+  completedAt: typeof row.completedAt === 'string' ? row.completedAt : null,
+  stats,
+});
+
+const loadPromoRows = async (promoIds: string[]) => {
+  if (!promoIds.length) {
+    return new Map<string, PromoRow>();
+  }
+  const { data, error } = await supabaseAdmin
+    .from(PROMO_CODES_TABLE)
+    .select('id,code,"discountType","discountValue","expiresAt"')
+    .in('id', promoIds);
+  if (error) {
+    throw new Error(`${PROMO_CODES_TABLE}: ${error.message}`);
+  }
+  return new Map(((data ?? []) as PromoRow[]).map((row) => [row.id, row]));
+};
+
+/**
+ * Métricas por campaña: envíos por estado, aperturas del pixel, bajas y canjes
+ * del código generado. `redeemed` cuenta destinatarios que lo usaron;
+ * `redemptions` incluye cualquier canje, aunque el código se haya compartido.
+ */
+const loadCampaignStats = async (
+  campaigns: Array<Record<string, unknown>>
+): Promise<Map<string, MarketingCampaignStats>> => {
+  const statsMap = new Map<string, MarketingCampaignStats>();
+  if (!campaigns.length) {
+    return statsMap;
+  }
+  const campaignIds = campaigns.map((row) => String(row.id));
+  const { data: recipients, error } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .select('"campaignId","userId",status,"openedAt","unsubscribedAt"')
+    .in('campaignId', campaignIds);
+  if (error) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${error.message}`);
+  }
+  const recipientUsers = new Map<string, Set<string>>();
+  ((recipients ?? []) as Array<Record<string, unknown>>).forEach((row) => {
+    const campaignId = String(row.campaignId);
+    const stats = statsMap.get(campaignId) ?? emptyStats();
+    // Un lote reclamado que aún no termina sigue contando como pendiente.
+    const status = (row.status === 'sending' ? 'pending' : String(row.status)) as
+      | 'pending'
+      | 'sent'
+      | 'failed'
+      | 'skipped';
+    if (status in stats) {
+      stats[status] += 1;
+    }
+    if (row.openedAt) {
+      stats.opened += 1;
+    }
+    if (row.unsubscribedAt) {
+      stats.unsubscribed += 1;
+    }
+    statsMap.set(campaignId, stats);
+    const users = recipientUsers.get(campaignId) ?? new Set<string>();
+    users.add(String(row.userId));
+    recipientUsers.set(campaignId, users);
+  });
+
+  const promoToCampaign = new Map(
+    campaigns
+      .filter((row) => typeof row.promoCodeId === 'string')
+      .map((row) => [String(row.promoCodeId), String(row.id)])
+  );
+  if (promoToCampaign.size) {
+    const { data: redemptions, error: redemptionsError } = await supabaseAdmin
+      .from(PROMO_REDEMPTIONS_TABLE)
+      .select('"promoCodeId","userId"')
+      .in('promoCodeId', Array.from(promoToCampaign.keys()))
+      .eq('status', 'redeemed');
+    if (redemptionsError) {
+      throw new Error(`${PROMO_REDEMPTIONS_TABLE}: ${redemptionsError.message}`);
+    }
+    const redeemers = new Map<string, Set<string>>();
+    ((redemptions ?? []) as Array<{ promoCodeId: string; userId: string | null }>).forEach(
+      (row) => {
+        const campaignId = promoToCampaign.get(row.promoCodeId);
+        if (!campaignId) {
+          return;
+        }
+        const stats = statsMap.get(campaignId) ?? emptyStats();
+        stats.redemptions += 1;
+        statsMap.set(campaignId, stats);
+        if (row.userId && recipientUsers.get(campaignId)?.has(row.userId)) {
+          const users = redeemers.get(campaignId) ?? new Set<string>();
+          users.add(row.userId);
+          redeemers.set(campaignId, users);
+        }
+      }
+    );
+    redeemers.forEach((users, campaignId) => {
+      const stats = statsMap.get(campaignId);
+      if (stats) {
+        stats.redeemed = users.size;
+      }
+    });
+  }
+  return statsMap;
+};
+
+const buildCampaigns = async (rows: Array<Record<string, unknown>>) => {
+  const promoIds = rows
+    .map((row) => row.promoCodeId)
+    .filter((value): value is string => typeof value === 'string');
+  const [promos, stats] = await Promise.all([loadPromoRows(promoIds), loadCampaignStats(rows)]);
+  return rows.map((row) =>
+    mapCampaignRow(
+      row,
+      typeof row.promoCodeId === 'string' ? promos.get(row.promoCodeId) ?? null : null,
+      stats.get(String(row.id)) ?? emptyStats()
+    )
+  );
+};
+
+export const loadMarketingCampaigns = async (): Promise<MarketingCampaign[]> => {
+  const { data, error } = await supabaseAdmin
+    .from(MARKETING_CAMPAIGNS_TABLE)
+    .select('*')
+    .order('createdAt', { ascending: false })
+    .limit(CAMPAIGN_LIST_LIMIT);
+  if (error) {
+    throw new Error(`${MARKETING_CAMPAIGNS_TABLE}: ${error.message}`);
+  }
+  return buildCampaigns((data ?? []) as Array<Record<string, unknown>>);
+};
+
+const loadCampaignRow = async (campaignId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(MARKETING_CAMPAIGNS_TABLE)
+    .select('*')
+    .eq('id', campaignId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`${MARKETING_CAMPAIGNS_TABLE}: ${error.message}`);
+  }
+  if (!data) {
+    throw new Error('CAMPAIGN_NOT_FOUND');
+  }
+  return data as Record<string, unknown>;
+};
+
+/**
+ * Crea la campaña con su lista de destinatarios congelada y, si se pidió,
+ * el código promocional de un solo uso por cliente con el que se miden canjes.
+ */
+export const createMarketingCampaign = async (
+  input: MarketingCampaignInput,
+  staffId: string | null
+): Promise<MarketingCampaign> => {
+  const audience = await resolveCampaignAudience(input.audience);
+  if (!audience.length) {
+    throw new Error('EMPTY_AUDIENCE');
+  }
+
+  const campaignId = randomUUID();
+  const promo = input.promo ? await createCampaignPromoCode(campaignId, input.promo, staffId) : null;
+  const nowISO = new Date().toISOString();
+  const record = {
+    id: campaignId,
+    name: input.name,
+    subject: input.subject,
+    headline: input.headline || null,
+    body: input.body,
+    ctaLabel: input.ctaLabel || null,
+    ctaUrl: input.ctaUrl || null,
+    audience: {
+      cluster: input.audience.cluster ?? null,
+      favoriteDrink: input.audience.favoriteDrink?.trim() || null,
+      inactiveDays: input.audience.inactiveDays ?? null,
+      segment: input.audience.segment ?? null,
+    },
+    promoCodeId: promo?.id ?? null,
+    status: 'draft',
+    recipientCount: audience.length,
+    createdByStaffId: staffId,
+    createdAt: nowISO,
+    updatedAt: nowISO,
+  };
+  const { data, error } = await supabaseAdmin
+    .from(MARKETING_CAMPAIGNS_TABLE)
+    .insert(record)
+    .select('*')
+    .single();
+  if (error) {
+    throw new Error(`${MARKETING_CAMPAIGNS_TABLE}: ${error.message}`);
+  }
+
+  for (let index = 0; index < audience.length; index += RECIPIENT_INSERT_CHUNK) {
+    const chunk = audience.slice(index, index + RECIPIENT_INSERT_CHUNK).map((member) => ({
+      id: randomUUID(),
+      campaignId,
+      userId: member.id,
+      status: 'pending',
+      createdAt: nowISO,
+    }));
+    const { error: recipientsError } = await supabaseAdmin
+      .from(CAMPAIGN_RECIPIENTS_TABLE)
+      .insert(chunk);
+    if (recipientsError) {
+      throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${recipientsError.message}`);
+    }
+  }
+
+  const [campaign] = await buildCampaigns([data as Record<string, unknown>]);
+  return campaign;
+};
+
+const updateRecipient = async (recipientId: string, changes: Record<string, unknown>) => {
+  const { error } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .update(changes)
+    .eq('id', recipientId);
+  if (error) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${error.message}`);
+  }
+};
+
+/**
+ * Envía el siguiente lote de destinatarios pendientes. El consentimiento se
+ * vuelve a revisar al enviar: quien se dio de baja después de crear la campaña
+ * queda como `skipped`. La campaña pasa a `sent` cuando no quedan pendientes.
+ */
+export const sendMarketingCampaignBatch = async (
+  campaignId: string,
+  origin: string
+): Promise<CampaignSendResult> => {
+  const campaign = await loadCampaignRow(campaignId);
+  if (campaign.status === 'sent') {
+    throw new Error('CAMPAIGN_COMPLETED');
+  }
+  const promo =
+    typeof campaign.promoCodeId === 'string'
+      ? (await loadPromoRows([campaign.promoCodeId])).get(campaign.promoCodeId) ?? null
+      : null;
+
+  const nowISO = new Date().toISOString();
+  if (campaign.status === 'draft') {
+    const { error } = await supabaseAdmin
+      .from(MARKETING_CAMPAIGNS_TABLE)
+      .update({ status: 'sending', startedAt: nowISO, updatedAt: nowISO })
+      .eq('id', campaignId);
+    if (error) {
+      throw new Error(`${MARKETING_CAMPAIGNS_TABLE}: ${error.message}`);
+    }
+  }
+
+  const { data: pending, error: pendingError } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .select('id')
+    .eq('campaignId', campaignId)
+    .eq('status', 'pending')
+    .limit(SEND_BATCH_SIZE);
+  if (pendingError) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${pendingError.message}`);
+  }
+  // Se reclaman los destinatarios antes de enviar: un doble clic u otro proceso
+  // que lea los mismos pendientes ya no los obtiene y nadie recibe dos correos.
+  let batch: Array<{ id: string; userId: string }> = [];
+  if (pending?.length) {
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from(CAMPAIGN_RECIPIENTS_TABLE)
+      .update({ status: 'sending' })
+      .in(
+        'id',
+        pending.map((entry) => entry.id)
+      )
+      .eq('status', 'pending')
+      .select('id,"userId"');
+    if (claimError) {
+      throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${claimError.message}`);
+    }
+    batch = (claimed ?? []) as Array<{ id: string; userId: string }>;
+  }
+
+  const users = new Map<string, Record<string, unknown>>();
+  if (batch.length) {
+    const { data: userRows, error: usersError } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .select(RECIPIENT_USER_FIELDS)
+      .in(
+        'id',
+        batch.map((entry) => entry.userId)
+      );
+    if (usersError) {
+      throw new Error(`${USERS_TABLE}: ${usersError.message}`);
+    }
+    ((userRows ?? []) as Array<Record<string, unknown>>).forEach((row) =>
+      users.set(String(row.id), row)
+    );
+  }
+
+  const result: CampaignSendResult = {
+    campaignId,
+    sent: 0,
+    failed: 0,
+    skipped: 0,
+    remaining: 0,
+    status: 'sending',
+  };
+  const promoSummary = buildPromoSummary(promo);
+
+  for (const [index, recipient] of batch.entries()) {
+    const user = users.get(recipient.userId);
+    if (!user || !user.marketingEmail || user.anonymizedAt || typeof user.email !== 'string') {
+      await updateRecipient(recipient.id, { status: 'skipped' });
+      result.skipped += 1;
+      continue;
+    }
+    if (index > 0) {
+      await wait(SEND_INTERVAL_MS);
+    }
+    const token = randomBytes(24).toString('hex');
+    await updateRecipient(recipient.id, { tokenHash: hashToken(token) });
+    const delivery = await sendMarketingCampaignEmail({
+      to: user.email,
+      displayName: withDecryptedUserNames(user)?.firstName,
+      subject: String(campaign.subject),
+      headline: typeof campaign.headline === 'string' ? campaign.headline : null,
+      body: String(campaign.body),
+      ctaLabel: typeof campaign.ctaLabel === 'string' ? campaign.ctaLabel : null,
+      ctaUrl: typeof campaign.ctaUrl === 'string' ? campaign.ctaUrl : null,
+      promoCode: promo?.code ?? null,
+      promoSummary,
+      promoExpiresAt: promo?.expiresAt ?? null,
+      unsubscribeUrl: `${origin}/api/marketing/unsubscribe?token=${token}`,
+      openTrackingUrl: `${origin}/api/marketing/open?token=${token}`,
+    });
+    if (delivery.success) {
+      await updateRecipient(recipient.id, {
+        status: 'sent',
+        sentAt: new Date().toISOString(),
+        error: null,
+      });
+      result.sent += 1;
+    } else {
+      await updateRecipient(recipient.id, {
+        status: 'failed',
+        error: delivery.message ?? 'Error de envío',
+      });
+      result.failed += 1;
+    }
+  }
+
+  // Los lotes que otro proceso sigue enviando también cuentan como pendientes.
+  const { count, error: countError } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('campaignId', campaignId)
+    .in('status', ['pending', 'sending']);
+  if (countError) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${countError.message}`);
+  }
+  result.remaining = count ?? 0;
+
+  if (!result.remaining) {
+    const completedAt = new Date().toISOString();
+    const { error } = await supabaseAdmin
+      .from(MARKETING_CAMPAIGNS_TABLE)
+      .update({ status: 'sent', completedAt, updatedAt: completedAt })
+      .eq('id', campaignId);
+    if (error) {
+      throw new Error(`${MARKETING_CAMPAIGNS_TABLE}: ${error.message}`);
+    }
+    result.status = 'sent';
+  }
+  return result;
+};
+
+/** Marca la primera apertura del correo; el pixel puede cargarse varias veces. */
+export const recordCampaignOpen = async (token: string) => {
+  const { error } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .update({ openedAt: new Date().toISOString() })
+    .eq('tokenHash', hashToken(token))
+    .is('openedAt', null);
+  if (error) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${error.message}`);
+  }
+};
+
+/** Baja desde la liga del correo: retira el consentimiento `marketingEmail`. */
+export const unsubscribeCampaignRecipient = async (token: string) => {
+  const { data: recipient, error } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .select('id,"userId","unsubscribedAt"')
+    .eq('tokenHash', hashToken(token))
+    .maybeSingle();
+  if (error) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${error.message}`);
+  }
+  if (!recipient) {
+    throw new Error('INVALID_TOKEN');
+  }
+  if (recipient.unsubscribedAt) {
+    return;
+  }
+
+  const nowISO = new Date().toISOString();
+  const { error: userError } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .update({ marketingEmail: false, consentUpdatedAt: nowISO })
+    .eq('id', recipient.userId);
+  if (userError) {
+    throw new Error(`${USERS_TABLE}: ${userError.message}`);
+  }
+  await updateRecipient(String(recipient.id), { unsubscribedAt: nowISO });
+};
+
+type RecipientMergeRow = {
+  id: string;
+  campaignId: string;
+  userId: string;
+  sentAt: string | null;
+  openedAt: string | null;
+  unsubscribedAt: string | null;
+};
+
+const earliest = (...values: Array<string | null>) =>
+  values.filter((value): value is string => Boolean(value)).sort()[0] ?? null;
+
+/**
+ * Pasa los envíos de una cuenta duplicada a la que sobrevive. Si ambas estaban
+ * en la misma campaña queda una sola fila: la del correo que sí salió (su liga
+ * de baja sigue sirviendo) con la apertura y la baja de las dos, así una campaña
+ * en curso no le vuelve a escribir. Una baja en la duplicada retira también el
+ * consentimiento de la cuenta destino.
+ */
+export const mergeCampaignRecipients = async (sourceId: string, targetId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(CAMPAIGN_RECIPIENTS_TABLE)
+    .select('id,"campaignId","userId","sentAt","openedAt","unsubscribedAt"')
+    .in('userId', [sourceId, targetId]);
+  if (error) {
+    throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${error.message}`);
+  }
+  const rows = (data ?? []) as RecipientMergeRow[];
+  let moved = 0;
+  for (const row of rows.filter((entry) => entry.userId === sourceId)) {
+    const match = rows.find((entry) => entry.userId === targetId && entry.campaignId === row.campaignId);
+    const changes = {
+      userId: targetId,
+      openedAt: earliest(row.openedAt, match?.openedAt ?? null),
+      unsubscribedAt: earliest(row.unsubscribedAt, match?.unsubscribedAt ?? null),
+    };
+    const [keep, drop] = match && (match.sentAt || !row.sentAt) ? [match, row] : [row, match];
+    if (drop) {
+      const { error: deleteError } = await supabaseAdmin
+        .from(CAMPAIGN_RECIPIENTS_TABLE)
+        .delete()
+        .eq('id', drop.id);
+      if (deleteError) {
+        throw new Error(`${CAMPAIGN_RECIPIENTS_TABLE}: ${deleteError.message}`);
+      }
+    }
+    await updateRecipient(keep.id, changes);
+    moved += 1;
+  }
+
+  if (rows.some((entry) => entry.userId === sourceId && entry.unsubscribedAt)) {
+    const { error: userError } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .update({ marketingEmail: false, consentUpdatedAt: new Date().toISOString() })
+      .eq('id', targetId);
+    if (userError) {
+      throw new Error(`${USERS_TABLE}: ${userError.message}`);
+    }
+  }
+  return moved;
+};
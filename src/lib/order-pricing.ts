@@ -0,0 +1,351 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import type { CatalogProduct, PosSettings } from '@/lib/api';
+import { FALLBACK_BEVERAGES } from '@/data/fallback-beverages';
+import { sumModifierPriceDelta, type OrderItemModifier } from '@/lib/product-modifiers';
+
+export type SizeOption = {
+  id: string;
+  label: string;
+  price: number | null;
+};
+
+export type PricingLineInput = {
+  productId: string;
+  quantity: number;
+  price: number;
+  sizeId: string | null;
+  sizeLabel: string | null;
+  variantId: string | null;
+  /** Modificadores ya validados contra el catálogo; su precio se suma al unitario. */
+  modifiers?: OrderItemModifier[] | null;
+};
+
+export type PricedLine = {
+  productId: string;
+  quantity: number;
+  clientPrice: number;
+  unitPrice: number;
+  verified: boolean;
+};
+
+export type OrderTotalsSnapshot = {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  tip: number;
+  deliveryTip: number;
+  total: number;
+};
+
+export type OrderPricingResult = OrderTotalsSnapshot & {
+  lines: PricedLine[];
+  unverifiedProductIds: string[];
+  taxRate: number;
+  chargeTax: boolean;
+};
+
+const normalize = (value?: string | null) => value?.trim().toLowerCase() ?? '';
+
+export const findCatalogProduct = (catalog: Map<string, CatalogProduct>, productId: string) =>
+  catalog.get(normalize(productId)) ?? null;
+
+export const slugify = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-');
+
+export const roundCurrency = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const parsePrice = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Number.parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const coerceSizeOptions = (value: unknown): SizeOption[] => {
+  if (Array.isArray(value)) {
+    return value
+      .map((entry, index) => {
+        if (typeof entry === 'string') {
+          const sanitized = slugify(entry) || `size-${index}`;
+          return { id: sanitized, label: entry, price: null };
+        }
+        if (typeof entry === 'number') {
+          return { id: `size-${index}`, label: `Opción ${index + 1}`, price: entry };
+        }
+        if (entry && typeof entry === 'object') {
+          const raw = entry as Record<string, unknown>;
+          const sourceId =
+            (typeof raw.id === 'string' && raw.id) ||
+            (typeof raw.value === 'string' && raw.value) ||
+            (typeof raw.sizeId === 'string' && raw.sizeId) ||
+            (typeof raw.size === 'string' && raw.size) ||
+            null;
+          const rawLabel =
+            (typeof raw.label === 'string' && raw.label) ||
+            (typeof raw.name === 'string' && raw.name) ||
+            (typeof raw.size === 'string' && raw.size) ||
+            sourceId;
+          const price = parsePrice(raw.price ?? raw.amount ?? raw.value ?? raw.cost ?? null);
+          return {
+            id: (sourceId && slugify(sourceId)) || `size-${index}`,
+            label: rawLabel ?? `Opción ${index + 1}`,
+            price: price ?? null,
+          };
+        }
+        return null;
+      })
+      .filter((option): option is SizeOption => Boolean(option && option.id && option.label));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .map(([key, raw], index) => {
+        if (typeof raw === 'number' || typeof raw === 'string') {
+          const price = parsePrice(raw);
+          return {
+            id: slugify(key) || `size-${index}`,
+            label: key,
+            price: price ?? null,
+          };
+        }
+        if (raw && typeof raw === 'object') {
+          const nested = raw as Record<string, unknown>;
+          const label =
+            (typeof nested.label === 'string' && nested.label) ||
+            (typeof nested.name === 'string' && nested.name) ||
+            key;
+          const id =
+            (typeof nested.id === 'string' && nested.id) ||
+            (typeof nested.sizeId === 'string' && nested.sizeId) ||
+            (typeof nested.value === 'string' && nested.value) ||
+            key;
+          const price = parsePrice(nested.price ?? nested.amount ?? nested.value ?? nested.cost ?? null);
+          return {
+            id: slugify(id) || `size-${index}`,
+            label,
+            price: price ?? null,
+          };
+        }
+        return null;
+      })
+      .filter((option): option is SizeOption => Boolean(option && option.id && option.label));
+  }
+
+  return [];
+};
+
+export const extractSizeOptions = (product: CatalogProduct): SizeOption[] => {
+  const metadata =
+    product.metadata && typeof product.metadata === 'object'
+      ? (product.metadata as Record<string, unknown>)
+      : null;
+  const productRecord = product as unknown as Record<string, unknown>;
+  const sources: unknown[] = [product.availableSizes, productRecord['available_sizes']];
+  if (metadata) {
+    sources.push(
+      metadata['availableSizes'],
+      metadata['available_sizes'],
+      metadata['sizes'],
+      metadata['sizeOptions'],
+      metadata['variants']
+    );
+  }
+
+  const all = sources
+    .filter((source) => source !== undefined && source !== null)
+    .flatMap((source) => coerceSizeOptions(source));
+
+  const unique = new Map<string, SizeOption>();
+  all.forEach((option, index) => {
+    const key = option.id || `size-${index}`;
+    if (!unique.has(key)) {
+      unique.set(key, option);
+    }
+  });
+  return Array.from(unique.values());
+};
+
+export const resolveCatalogBasePrice = (product: CatalogProduct) =>
+  parsePrice(product.price) ??
+  parsePrice(product.cost) ??
+  (product.totalRevenue && product.totalSales
+    ? Number(product.totalRevenue) / Number(product.totalSales || 1)
+    : null);
+
+/**
+ * Interpreta `pos_settings.tax` como porcentaje (16) o fracción (0.16) y solo
+ * aplica IVA adicional cuando `charge_tax` está activo; de lo contrario los
+ * precios del catálogo ya lo incluyen.
+ */
+export const resolveTaxSettings = (settings?: PosSettings | null) => {
+  const rawChargeTax = settings?.charge_tax;
+  const chargeTax =
+    typeof rawChargeTax === 'string'
+      ? ['true', '1', 'si', 'sí', 'yes'].includes(rawChargeTax.trim().toLowerCase())
+      : Boolean(rawChargeTax);
+  const rawRate = parsePrice(settings?.tax) ?? 0;
+  const taxRate = rawRate > 1 ? rawRate / 100 : Math.max(0, rawRate);
+  return { chargeTax, taxRate: chargeTax ? taxRate : 0 };
+};
+
+export const computeTaxAmount = (subtotal: number, settings?: PosSettings | null) => {
+  const { taxRate } = resolveTaxSettings(settings);
+  return roundCurrency(subtotal * taxRate);
+};
+
+const findSizeOption = (options: SizeOption[], line: PricingLineInput) => {
+  const variantSuffix = line.variantId?.includes('::') ? line.variantId.split('::').pop() ?? null : null;
+  const candidateIds = [line.sizeId, variantSuffix]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => slugify(value));
+  const byId = options.find((option) => candidateIds.includes(option.id));
+  if (byId) {
+    return byId;
+  }
+  const label = normalize(line.sizeLabel);
+  return label ? options.find((option) => normalize(option.label) === label) ?? null : null;
+};
+
+const resolveFallbackPrice = (line: PricingLineInput) => {
+  const beverage = FALLBACK_BEVERAGES.find(
+    (entry) => normalize(entry.productId) === normalize(line.productId)
+  );
+  if (!beverage) {
+    return null;
+  }
+  const options: SizeOption[] = beverage.sizes.map((size, index) => {
+    const normalizedSize = size as { id?: string | null; label: string; price: number };
+    return {
+      id: normalizedSize.id?.trim() || slugify(normalizedSize.label) || `size-${index}`,
+      label: normalizedSize.label,
+      price: normalizedSize.price,
+    };
+  });
+  return findSizeOption(options, line)?.price ?? (options.length === 1 ? options[0].price : null);
+};
+
+export const resolveCatalogUnitPrice = (line: PricingLineInput, product?: CatalogProduct | null) => {
+  if (!product) {
+    return resolveFallbackPrice(line);
+  }
+  const basePrice = resolveCatalogBasePrice(product);
+  const sizeOptions = extractSizeOptions(product);
+  if (sizeOptions.length) {
+    const option = findSizeOption(sizeOptions, line);
+    if (!option) {
+      return null;
+    }
+    return typeof option.price === 'number' && option.price > 0 ? option.price : basePrice;
+  }
+  return basePrice;
+};
+
+/**
+ * Reconstruye los importes del pedido a partir del catálogo. Nunca se usa el
+ * precio enviado por el cliente: las líneas cuyo producto o tamaño no se puede
+ * resolver quedan en cero y se reportan en `unverifiedProductIds` para que la
+ * ruta rechace el pedido. El descuento se resta antes de calcular IVA y propinas.
+ */
+export const computeOrderPricing = ({
+  lines,
+  catalog,
+  settings,
+  tipPercent,
+  tipAmount,
+  deliveryTipPercent,
+  deliveryTipAmount,
+  discount,
+}: {
+  lines: PricingLineInput[];
+  catalog: Map<string, CatalogProduct>;
+  settings?: PosSettings | null;
+  tipPercent?: number | null;
+  tipAmount?: number | null;
+  deliveryTipPercent?: number | null;
+  deliveryTipAmount?: number | null;
+  discount?: number | null;
+}): OrderPricingResult => {
+  const unverified = new Set<string>();
+  const pricedLines = lines.map((line) => {
+    const product = findCatalogProduct(catalog, line.productId);
+    const catalogPrice = resolveCatalogUnitPrice(line, product);
+    const verified = typeof catalogPrice === 'number' && Number.isFinite(catalogPrice) && catalogPrice > 0;
+    if (!verified) {
+      unverified.add(line.productId);
+    }
+    return {
+      productId: line.productId,
+      quantity: line.quantity,
+      clientPrice: line.price,
+      unitPrice: verified
+        ? roundCurrency(catalogPrice + sumModifierPriceDelta(line.modifiers ?? []))
+        : 0,
+      verified,
+    };
+  });
+
+  const subtotal = roundCurrency(
+    pricedLines.reduce((acc, line) => acc + line.unitPrice * line.quantity, 0)
+  );
+  const appliedDiscount = roundCurrency(Math.min(Math.max(0, discount ?? 0), subtotal));
+  const discountedSubtotal = roundCurrency(subtotal - appliedDiscount);
+  const { chargeTax, taxRate } = resolveTaxSettings(settings);
+  const tax = computeTaxAmount(discountedSubtotal, settings);
+  const tip =
+    typeof tipPercent === 'number' && tipPercent > 0
+      ? roundCurrency(discountedSubtotal * (tipPercent / 100))
+      : roundCurrency(Math.max(0, tipAmount ?? 0));
+  const deliveryTip =
+    typeof deliveryTipPercent === 'number' && deliveryTipPercent > 0
+      ? roundCurrency(discountedSubtotal * (deliveryTipPercent / 100))
+      : roundCurrency(Math.max(0, deliveryTipAmount ?? 0));
+
+  return {
+    lines: pricedLines,
+    unverifiedProductIds: Array.from(unverified),
+    subtotal,
+    discount: appliedDiscount,
+    tax,
+    tip,
+    deliveryTip,
+    total: roundCurrency(discountedSubtotal + tax + tip + deliveryTip),
+    taxRate,
+    chargeTax,
+  };
+};
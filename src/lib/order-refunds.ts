@@ -0,0 +1,122 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+export type OrderReversalType = 'void' | 'refund';
+
+export type OrderRefundLine = {
+  lineIndex: number;
+  productId: string | null;
+  name: string | null;
+  quantity: number;
+  amount: number;
+};
+
+export type OrderRefundEntry = {
+  id: string;
+  type: OrderReversalType;
+  amount: number;
+  reason: string;
+  lines: OrderRefundLine[];
+  approvedByStaffId: string | null;
+  approvedByName: string | null;
+  paymentMethod: string | null;
+  createdAt: string;
+};
+
+export type OrderRefundSummary = {
+  status: 'voided' | 'refunded' | 'partially_refunded';
+  amount: number;
+  entries: OrderRefundEntry[];
+  updatedAt: string | null;
+};
+
+/** Estados finales: el pedido ya no vuelve a la cola ni se completa. */
+export const REVERSED_ORDER_STATUSES = ['voided', 'refunded'];
+
+/** Filtro de PostgREST para `.not('status', 'in', ...)`. */
+export const REVERSED_ORDER_STATUS_FILTER = `(${REVERSED_ORDER_STATUSES.join(',')})`;
+
+export const isReversedOrderStatus = (status: unknown) =>
+  typeof status === 'string' && REVERSED_ORDER_STATUSES.includes(status);
+
+const toAmount = (value: unknown) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+};
+
+const parseMetadata = (metadata: unknown): Record<string, unknown> | null => {
+  if (!metadata) {
+    return null;
+  }
+  if (typeof metadata === 'string') {
+    try {
+      const parsed = JSON.parse(metadata);
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+    } catch {
+      return null;
+    }
+  }
+  return typeof metadata === 'object' ? (metadata as Record<string, unknown>) : null;
+};
+
+/**
+ * Lee `metadata.refund` de un pedido. Devuelve null cuando el pedido nunca fue
+ * cancelado ni reembolsado.
+ */
+export const extractOrderRefund = (metadata: unknown): OrderRefundSummary | null => {
+  const record = parseMetadata(metadata);
+  const raw = record?.refund;
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const refund = raw as Record<string, unknown>;
+  const status =
+    refund.status === 'voided' || refund.status === 'refunded' || refund.status === 'partially_refunded'
+      ? refund.status
+      : null;
+  if (!status) {
+    return null;
+  }
+  const entries = Array.isArray(refund.entries)
+    ? (refund.entries as unknown[]).filter(
+        (entry): entry is OrderRefundEntry => Boolean(entry && typeof entry === 'object')
+      )
+    : [];
+  return {
+    status,
+    amount: toAmount(refund.amount),
+    entries,
+    updatedAt: typeof refund.updatedAt === 'string' ? refund.updatedAt : null,
+  };
+};
+
+export const ORDER_REFUND_STATUS_LABELS: Record<OrderRefundSummary['status'], string> = {
+  voided: 'Cancelado',
+  refunded: 'Reembolsado',
+  partially_refunded: 'Reembolso parcial',
+};
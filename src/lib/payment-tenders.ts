@@ -0,0 +1,192 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+export const PAYMENT_TENDER_METHODS = [
+  'debito',
+  'credito',
+  'transferencia',
+  'efectivo',
+  'cripto',
+] as const;
+
+export type PaymentTenderMethod = (typeof PAYMENT_TENDER_METHODS)[number];
+
+/** Método que se guarda en el pedido cuando se liquidó con más de un pago. */
+export const SPLIT_PAYMENT_METHOD = 'mixto';
+
+/** Diferencia máxima (MXN) aceptada entre la suma de los pagos y el total. */
+export const PAYMENT_TENDER_TOLERANCE = 0.01;
+
+export type PaymentTender = {
+  method: PaymentTenderMethod;
+  amount: number;
+  reference: string | null;
+  referenceType: string | null;
+  cashTendered: number | null;
+  cashChange: number | null;
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const toAmount = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+const toTrimmed = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, 140) : null;
+};
+
+const isTenderMethod = (value: unknown): value is PaymentTenderMethod =>
+  typeof value === 'string' &&
+  (PAYMENT_TENDER_METHODS as readonly string[]).includes(value.trim().toLowerCase());
+
+/**
+ * Normaliza la lista de pagos recibida del cliente o guardada en
+ * `metadata.payment.tenders`. Descarta entradas sin método reconocido o sin
+ * monto; el cambio en efectivo siempre se recalcula.
+ */
+export const parsePaymentTenders = (value: unknown): PaymentTender[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.reduce<PaymentTender[]>((acc, entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return acc;
+    }
+    const record = entry as Record<string, unknown>;
+    if (!isTenderMethod(record.method)) {
+      return acc;
+    }
+    const method = record.method.trim().toLowerCase() as PaymentTenderMethod;
+    const amount = toAmount(record.amount);
+    if (amount === null || amount <= 0) {
+      return acc;
+    }
+    const isCash = method === 'efectivo';
+    const cashTendered = isCash ? toAmount(record.cashTendered) : null;
+    const reference = isCash ? null : toTrimmed(record.reference)?.replace(/^lightning:/i, '') ?? null;
+    acc.push({
+      method,
+      amount: roundAmount(amount),
+      reference,
+      referenceType: reference ? toTrimmed(record.referenceType) : null,
+      cashTendered,
+      cashChange: cashTendered !== null ? roundAmount(Math.max(cashTendered - amount, 0)) : null,
+    });
+    return acc;
+  }, []);
+};
+
+/** Lee los pagos guardados en `metadata.payment.tenders` de un pedido. */
+export const extractPaymentTenders = (metadata: unknown): PaymentTender[] => {
+  let record: unknown = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      record = JSON.parse(metadata);
+    } catch {
+      return [];
+    }
+  }
+  if (!record || typeof record !== 'object') {
+    return [];
+  }
+  const payment = (record as Record<string, unknown>).payment;
+  if (!payment || typeof payment !== 'object') {
+    return [];
+  }
+  return parsePaymentTenders((payment as Record<string, unknown>).tenders);
+};
+
+export const sumPaymentTenders = (tenders: PaymentTender[]) =>
+  roundAmount(tenders.reduce((acc, tender) => acc + tender.amount, 0));
+
+/**
+ * Valida que cada pago tenga su referencia (o el efectivo recibido) y que la
+ * suma cubra exactamente el total del pedido. Devuelve el mensaje de error o
+ * null si la lista es válida.
+ */
+export const validatePaymentTenders = (
+  tenders: PaymentTender[],
+  total: number,
+  tolerance = PAYMENT_TENDER_TOLERANCE
+): string | null => {
+  if (!tenders.length) {
+    return 'Registra al menos un pago.';
+  }
+  for (const tender of tenders) {
+    if (tender.method === 'efectivo') {
+      if (tender.cashTendered === null || tender.cashTendered < tender.amount) {
+        return 'El efectivo recibido no puede ser menor al monto cobrado en efectivo.';
+      }
+    } else if (!tender.reference) {
+      return 'Cada pago con tarjeta, transferencia o cripto necesita su referencia.';
+    }
+  }
+  const difference = roundAmount(sumPaymentTenders(tenders) - total);
+  if (Math.abs(difference) > tolerance) {
+    return difference < 0
+      ? `Faltan ${roundAmount(-difference).toFixed(2)} MXN para cubrir el total.`
+      : `Los pagos exceden el total por ${difference.toFixed(2)} MXN.`;
+  }
+  return null;
+};
+
+/** Método a guardar en el pedido: el del único pago o `mixto` si hay varios. */
+export const resolvePaymentTendersMethod = (tenders: PaymentTender[]): string | null => {
+  if (!tenders.length) {
+    return null;
+  }
+  const methods = new Set(tenders.map((tender) => tender.method));
+  return methods.size === 1 ? tenders[0].method : SPLIT_PAYMENT_METHOD;
+};
+
+/**
+ * Reparte un reembolso entre los pagos del pedido en proporción a lo que cubrió
+ * cada uno. El último pago absorbe el redondeo.
+ */
+export const allocateRefundAcrossTenders = (amount: number, tenders: PaymentTender[]) => {
+  const paid = sumPaymentTenders(tenders);
+  if (amount <= 0 || paid <= 0) {
+    return [];
+  }
+  let remaining = roundAmount(amount);
+  const allocations = tenders.map((tender, index) => {
+    const share =
+      index === tenders.length - 1
+        ? remaining
+        : Math.min(remaining, roundAmount((amount * tender.amount) / paid));
+    remaining = roundAmount(remaining - share);
+    return { method: tender.method, amount: share };
+  });
+  return allocations.filter((allocation) => allocation.amount > 0);
+};
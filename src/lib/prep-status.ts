@@ -0,0 +1,69 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+export type KitchenColumnStatus = 'pending' | 'in_progress' | 'ready';
+export type PrepTaskAction = 'claim' | 'bump' | 'recall';
+
+export const KITCHEN_COLUMNS: { status: KitchenColumnStatus; label: string }[] = [
+  { status: 'pending', label: 'Pendientes' },
+  { status: 'in_progress', label: 'En preparación' },
+  { status: 'ready', label: 'Listos' },
+];
+
+export const KITCHEN_ACTIVE_STATUSES: KitchenColumnStatus[] = ['pending', 'in_progress', 'ready'];
+
+/** Minutos desde que entró la tarea; marcan ámbar y rojo en la pantalla de cocina. */
+export const PREP_WARNING_MINUTES = Number(process.env.NEXT_PUBLIC_KDS_WARNING_MINUTES ?? 5);
+export const PREP_LATE_MINUTES = Number(process.env.NEXT_PUBLIC_KDS_LATE_MINUTES ?? 10);
+
+export type PrepTimerLevel = 'ok' | 'warning' | 'late';
+
+export const resolvePrepTimerLevel = (elapsedMs: number): PrepTimerLevel => {
+  const minutes = elapsedMs / 60000;
+  if (minutes >= PREP_LATE_MINUTES) {
+    return 'late';
+  }
+  if (minutes >= PREP_WARNING_MINUTES) {
+    return 'warning';
+  }
+  return 'ok';
+};
+
+/**
+ * Flujo de la cola: pending → in_progress → ready → completed.
+ * `claim` toma la tarea (también vale para reasignarla), `bump` avanza un paso
+ * y `recall` regresa uno para corregir un despacho por error.
+ */
+const PREP_TRANSITIONS: Record<PrepTaskAction, Partial<Record<string, string>>> = {
+  claim: { pending: 'in_progress', in_progress: 'in_progress' },
+  bump: { pending: 'in_progress', in_progress: 'ready', ready: 'completed' },
+  recall: { in_progress: 'pending', ready: 'in_progress', completed: 'ready' },
+};
+
+export const resolvePrepTransition = (status: string, action: PrepTaskAction) =>
+  PREP_TRANSITIONS[action][status] ?? null;
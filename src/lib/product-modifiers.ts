@@ -0,0 +1,290 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import type { CatalogProduct } from '@/lib/api';
+
+export type ModifierSelectionMode = 'single' | 'multiple';
+
+export type ModifierOption = {
+  id: string;
+  label: string;
+  priceDelta: number;
+  /** Insumo que se descuenta al vender la opción (p. ej. leche de avena). */
+  inventoryItemId: string | null;
+  /** Cantidad en la unidad del insumo; si falta se usa la de la receta reemplazada. */
+  inventoryQuantity: number | null;
+  /** Insumo de la receta base que deja de descontarse (p. ej. leche entera). */
+  replacesInventoryItemId: string | null;
+  isDefault: boolean;
+};
+
+export type ModifierGroup = {
+  id: string;
+  label: string;
+  selection: ModifierSelectionMode;
+  required: boolean;
+  maxSelections: number | null;
+  options: ModifierOption[];
+};
+
+/** Opción elegida tal como se guarda en el snapshot de `order_items`. */
+export type OrderItemModifier = {
+  groupId: string;
+  groupLabel: string;
+  optionId: string;
+  label: string;
+  priceDelta: number;
+  inventoryItemId: string | null;
+  inventoryQuantity: number | null;
+  replacesInventoryItemId: string | null;
+};
+
+export type ModifierSelectionInput = {
+  groupId: string;
+  optionId: string;
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const toAmount = (value: unknown): number | null => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+};
+
+const toTrimmed = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, 140) : null;
+};
+
+const toKey = (value: unknown, fallback: string) =>
+  (toTrimmed(value) ?? fallback)
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-');
+
+const parseModifierOption = (value: unknown, index: number): ModifierOption | null => {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  const label = toTrimmed(record.label) ?? toTrimmed(record.name);
+  if (!label) {
+    return null;
+  }
+  const inventoryQuantity = toAmount(record.inventoryQuantity ?? record.quantityUsed);
+  return {
+    id: toKey(record.id, label || `opcion-${index}`),
+    label,
+    priceDelta: roundAmount(toAmount(record.priceDelta ?? record.price) ?? 0),
+    inventoryItemId: toTrimmed(record.inventoryItemId),
+    inventoryQuantity: inventoryQuantity !== null && inventoryQuantity > 0 ? inventoryQuantity : null,
+    replacesInventoryItemId: toTrimmed(record.replacesInventoryItemId),
+    isDefault: record.isDefault === true,
+  };
+};
+
+/**
+ * Normaliza los grupos de modificadores guardados en el catálogo. Los grupos
+ * sin opciones válidas se descartan.
+ */
+export const parseModifierGroups = (value: unknown): ModifierGroup[] => {
+  let source: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      source = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(source)) {
+    return [];
+  }
+  return source.reduce<ModifierGroup[]>((acc, entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      return acc;
+    }
+    const record = entry as Record<string, unknown>;
+    const label = toTrimmed(record.label) ?? toTrimmed(record.name);
+    const options = Array.isArray(record.options)
+      ? record.options
+          .map((option, optionIndex) => parseModifierOption(option, optionIndex))
+          .filter((option): option is ModifierOption => Boolean(option))
+      : [];
+    if (!label || !options.length) {
+      return acc;
+    }
+    const selection: ModifierSelectionMode = record.selection === 'multiple' ? 'multiple' : 'single';
+    const maxSelections = toAmount(record.maxSelections);
+    acc.push({
+      id: toKey(record.id, label || `grupo-${index}`),
+      label,
+      selection,
+      required: record.required === true,
+      maxSelections:
+        selection === 'multiple' && maxSelections !== null && maxSelections > 0
+          ? Math.floor(maxSelections)
+          : null,
+      options,
+    });
+    return acc;
+  }, []);
+};
+
+/** Lee los grupos de `products.modifierGroups` o, en su defecto, de `metadata.modifierGroups`. */
+export const extractModifierGroups = (product?: CatalogProduct | null): ModifierGroup[] => {
+  if (!product) {
+    return [];
+  }
+  const metadata =
+    product.metadata && typeof product.metadata === 'object'
+      ? (product.metadata as Record<string, unknown>)
+      : null;
+  const productRecord = product as unknown as Record<string, unknown>;
+  const sources = [
+    product.modifierGroups,
+    productRecord['modifier_groups'],
+    metadata?.['modifierGroups'],
+    metadata?.['modifier_groups'],
+  ];
+  for (const source of sources) {
+    const groups = parseModifierGroups(source);
+    if (groups.length) {
+      return groups;
+    }
+  }
+  return [];
+};
+
+const toOrderItemModifier = (group: ModifierGroup, option: ModifierOption): OrderItemModifier => ({
+  groupId: group.id,
+  groupLabel: group.label,
+  optionId: option.id,
+  label: option.label,
+  priceDelta: option.priceDelta,
+  inventoryItemId: option.inventoryItemId,
+  inventoryQuantity: option.inventoryQuantity,
+  replacesInventoryItemId: option.replacesInventoryItemId,
+});
+
+/** Opciones marcadas como predeterminadas; sirven para precargar el selector. */
+export const getDefaultModifierSelections = (groups: ModifierGroup[]): ModifierSelectionInput[] =>
+  groups.flatMap((group) => {
+    const defaults = group.options.filter((option) => option.isDefault);
+    const picked = group.selection === 'single' ? defaults.slice(0, 1) : defaults;
+    return picked.map((option) => ({ groupId: group.id, optionId: option.id }));
+  });
+
+/**
+ * Valida la selección contra los grupos del catálogo y devuelve los
+ * modificadores con el precio vigente. Un grupo obligatorio sin selección toma
+ * su opción predeterminada; si no tiene, la selección es inválida.
+ */
+export const resolveModifierSelections = (
+  groups: ModifierGroup[],
+  selections: ModifierSelectionInput[]
+): { modifiers: OrderItemModifier[]; error: string | null } => {
+  const modifiers: OrderItemModifier[] = [];
+  for (const selection of selections) {
+    const group = groups.find((entry) => entry.id === selection.groupId);
+    const option = group?.options.find((entry) => entry.id === selection.optionId);
+    if (!group || !option) {
+      return { modifiers: [], error: 'El modificador seleccionado ya no está disponible.' };
+    }
+    if (!modifiers.some((entry) => entry.groupId === group.id && entry.optionId === option.id)) {
+      modifiers.push(toOrderItemModifier(group, option));
+    }
+  }
+  for (const group of groups) {
+    const picked = modifiers.filter((entry) => entry.groupId === group.id);
+    if (group.selection === 'single' && picked.length > 1) {
+      return { modifiers: [], error: `Elige solo una opción en ${group.label}.` };
+    }
+    if (group.maxSelections !== null && picked.length > group.maxSelections) {
+      return {
+        modifiers: [],
+        error: `Elige máximo ${group.maxSelections} opciones en ${group.label}.`,
+      };
+    }
+    if (group.required && !picked.length) {
+      const fallback = group.options.find((option) => option.isDefault);
+      if (!fallback) {
+        return { modifiers: [], error: `Selecciona una opción en ${group.label}.` };
+      }
+      modifiers.push(toOrderItemModifier(group, fallback));
+    }
+  }
+  return { modifiers, error: null };
+};
+
+/** Normaliza los modificadores guardados en una línea del pedido. */
+export const extractItemModifiers = (value: unknown): OrderItemModifier[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.reduce<OrderItemModifier[]>((acc, entry) => {
+    if (!entry || typeof entry !== 'object') {
+      return acc;
+    }
+    const record = entry as Record<string, unknown>;
+    const groupId = toTrimmed(record.groupId);
+    const optionId = toTrimmed(record.optionId);
+    const label = toTrimmed(record.label);
+    if (!groupId || !optionId || !label) {
+      return acc;
+    }
+    const inventoryQuantity = toAmount(record.inventoryQuantity);
+    acc.push({
+      groupId,
+      groupLabel: toTrimmed(record.groupLabel) ?? groupId,
+      optionId,
+      label,
+      priceDelta: roundAmount(toAmount(record.priceDelta) ?? 0),
+      inventoryItemId: toTrimmed(record.inventoryItemId),
+      inventoryQuantity: inventoryQuantity !== null && inventoryQuantity > 0 ? inventoryQuantity : null,
+      replacesInventoryItemId: toTrimmed(record.replacesInventoryItemId),
+    });
+    return acc;
+  }, []);
+};
+
+export const sumModifierPriceDelta = (modifiers: OrderItemModifier[]) =>
+  roundAmount(modifiers.reduce((acc, modifier) => acc + modifier.priceDelta, 0));
+
+/** Clave estable para distinguir en el carrito la misma bebida con distintos modificadores. */
+export const buildModifierKey = (modifiers: OrderItemModifier[]) =>
+  modifiers
+    .map((modifier) => `${modifier.groupId}:${modifier.optionId}`)
+    .sort()
+    .join(',');
+
+export const formatModifierSummary = (modifiers: OrderItemModifier[]) =>
+  modifiers.map((modifier) => modifier.label).join(', ');
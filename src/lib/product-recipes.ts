@@ -0,0 +1,207 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { CATALOG_PRODUCTS_TABLE } from '@/lib/catalog-admin';
+import { extractSizeOptions, resolveCatalogBasePrice, roundCurrency } from '@/lib/order-pricing';
+import { selectRecipeForSize, resolveRecipeQuantity } from '@/lib/smart-inventory';
+import type {
+  CatalogProduct,
+  ProductRecipeLine,
+  ProductRecipeSummary,
+  RecipeInventoryItem,
+  RecipeOverview,
+  RecipeVariantCost,
+} from '@/lib/api';
+
+export const RECIPES_TABLE = process.env.SUPABASE_PRODUCT_RECIPES ?? 'product_recipes';
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
+const BATCHES_TABLE = process.env.SUPABASE_INVENTORY_BATCHES ?? 'inventory_batches';
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const normalizeRecipeRow = (row: Record<string, unknown>): ProductRecipeLine => ({
+  id: String(row.id),
+  productId: String(row.productId),
+  sizeId: typeof row.sizeId === 'string' && row.sizeId ? row.sizeId : null,
+  inventoryItemId: String(row.inventoryItemId),
+  quantityUsed: toNumber(row.quantityUsed),
+  yield: toNumber(row.yield, 1) || 1,
+  isCritical: row.isCritical !== false,
+});
+
+/**
+ * Costo por unidad base de cada insumo: promedio ponderado de los lotes con
+ * existencia y costo capturado; sin lotes vigentes usamos `avgCost` del insumo.
+ */
+export const fetchInventoryUnitCosts = async (
+  items: Array<{ id: string; avgCost?: number | string | null }>
+) => {
+  const { data, error } = await supabaseAdmin
+    .from(BATCHES_TABLE)
+    .select('"itemId",quantity,"unitCost"')
+    .gt('quantity', 0)
+    .not('unitCost', 'is', null);
+  if (error) {
+    throw new Error(error.message);
+  }
+  const totals = new Map<string, { quantity: number; value: number }>();
+  (data ?? []).forEach((batch) => {
+    const quantity = toNumber(batch.quantity);
+    const unitCost = toNumber(batch.unitCost, NaN);
+    if (quantity <= 0 || !Number.isFinite(unitCost)) {
+      return;
+    }
+    const entry = totals.get(batch.itemId) ?? { quantity: 0, value: 0 };
+    entry.quantity += quantity;
+    entry.value += quantity * unitCost;
+    totals.set(batch.itemId, entry);
+  });
+  const costs = new Map<string, number>();
+  items.forEach((item) => {
+    const batchTotals = totals.get(item.id);
+    if (batchTotals && batchTotals.quantity > 0) {
+      costs.set(item.id, batchTotals.value / batchTotals.quantity);
+      return;
+    }
+    const avgCost = toNumber(item.avgCost, NaN);
+    if (Number.isFinite(avgCost) && avgCost > 0) {
+      costs.set(item.id, avgCost);
+    }
+  });
+  return costs;
+};
+
+const buildVariantCost = (
+  recipe: ProductRecipeLine[],
+  unitCosts: Map<string, number>,
+  variant: { sizeId: string | null; label: string; price: number }
+): RecipeVariantCost => {
+  const rows = recipe.map((line) => ({
+    productId: line.productId,
+    sizeId: line.sizeId ?? null,
+    inventoryItemId: line.inventoryItemId,
+    quantityUsed: line.quantityUsed,
+    recipeYield: line.yield,
+    isCritical: line.isCritical,
+  }));
+  const lines = selectRecipeForSize(rows, variant.sizeId);
+  const missingCostItemIds = lines
+    .filter((line) => !unitCosts.has(line.inventoryItemId))
+    .map((line) => line.inventoryItemId);
+  const cost =
+    lines.length && !missingCostItemIds.length
+      ? roundCurrency(
+          lines.reduce(
+            (acc, line) => acc + resolveRecipeQuantity(line) * (unitCosts.get(line.inventoryItemId) ?? 0),
+            0
+          )
+        )
+      : null;
+  return {
+    ...variant,
+    cost,
+    margin: cost !== null && variant.price > 0 ? (variant.price - cost) / variant.price : null,
+    usesGenericRecipe: !variant.sizeId || !lines.some((line) => line.sizeId === variant.sizeId),
+    missingCostItemIds,
+  };
+};
+
+export const loadRecipeOverview = async (): Promise<RecipeOverview> => {
+  const [productsResult, itemsResult, recipesResult] = await Promise.all([
+    supabaseAdmin.from(CATALOG_PRODUCTS_TABLE).select('*').order('name', { ascending: true }),
+    supabaseAdmin
+      .from(ITEMS_TABLE)
+      .select('id,name,unit,"avgCost"')
+      .order('name', { ascending: true }),
+    supabaseAdmin.from(RECIPES_TABLE).select('*'),
+  ]);
+  const failure = productsResult.error ?? itemsResult.error ?? recipesResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+
+  const rawItems = (itemsResult.data ?? []) as Array<{
+    id: string;
+    name: string;
+    unit?: string | null;
+    avgCost?: number | string | null;
+  }>;
+  const unitCosts = await fetchInventoryUnitCosts(rawItems);
+  const items: RecipeInventoryItem[] = rawItems.map((item) => ({
+    id: item.id,
+    name: item.name,
+    unit: item.unit ?? 'unidad',
+    unitCost: unitCosts.get(item.id) ?? null,
+  }));
+
+  const recipes = (recipesResult.data ?? []).map((row) =>
+    normalizeRecipeRow(row as Record<string, unknown>)
+  );
+  const recipesByProduct = new Map<string, ProductRecipeLine[]>();
+  recipes.forEach((line) => {
+    const list = recipesByProduct.get(line.productId) ?? [];
+    list.push(line);
+    recipesByProduct.set(line.productId, list);
+  });
+
+  const products: ProductRecipeSummary[] = ((productsResult.data ?? []) as CatalogProduct[]).map(
+    (product) => {
+      const recipe = recipesByProduct.get(product.id) ?? [];
+      const basePrice = resolveCatalogBasePrice(product) ?? 0;
+      const sizes = extractSizeOptions(product);
+      const variants = sizes.length
+        ? sizes.map((size) => ({
+            sizeId: size.id,
+            label: size.label,
+            price: typeof size.price === 'number' && size.price > 0 ? size.price : basePrice,
+          }))
+        : [{ sizeId: null, label: 'Único', price: basePrice }];
+      return {
+        productId: product.id,
+        name: product.name ?? product.id,
+        category: product.category ?? null,
+        isActive: product.isActive !== false,
+        hasRecipe: recipe.length > 0,
+        variants: variants.map((variant) => buildVariantCost(recipe, unitCosts, variant)),
+      };
+    }
+  );
+
+  return {
+    items,
+    recipes,
+    products,
+    missingRecipeProductIds: products
+      .filter((product) => product.isActive && !product.hasRecipe)
+      .map((product) => product.productId),
+  };
+};
@@ -0,0 +1,209 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+export type PromoAppliesTo = 'product' | 'membership' | 'both';
+export type PromoDiscountType = 'percentage' | 'amount' | 'trial';
+
+export type PromoCodeRecord = {
+  id: string;
+  code: string;
+  description: string | null;
+  appliesTo: PromoAppliesTo;
+  discountType: PromoDiscountType;
+  discountValue: number | null;
+  durationDays: number | null;
+  maxRedemptions: number | null;
+  perUserLimit: number | null;
+  metadata: Record<string, unknown> | null;
+  validFrom: string | null;
+  expiresAt: string | null;
+  isActive: boolean;
+};
+
+export type PromoDiscountLine = {
+  productId: string;
+  category?: string | null;
+  unitPrice: number;
+  quantity: number;
+};
+
+export type OrderPromoDiscount = {
+  promoCodeId: string;
+  code: string;
+  description: string | null;
+  discountType: 'percentage' | 'amount';
+  discountValue: number;
+  scope: 'order' | 'lines';
+  amount: number;
+  lines: Array<{ lineIndex: number; productId: string; amount: number }>;
+};
+
+const roundAmount = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const normalizeKey = (value?: string | null) => value?.trim().toLowerCase() ?? '';
+
+const readTargetList = (metadata: Record<string, unknown> | null, keys: string[]) => {
+  const values = keys.flatMap((key) => {
+    const raw = metadata?.[key];
+    return Array.isArray(raw) ? raw : [];
+  });
+  return new Set(
+    values
+      .filter((value): value is string => typeof value === 'string' && Boolean(value.trim()))
+      .map((value) => normalizeKey(value))
+  );
+};
+
+/**
+ * Calcula el descuento de un código sobre las líneas del pedido. Si el código
+ * define `metadata.productIds` o `metadata.categories` el descuento se aplica
+ * solo a esas líneas (el monto fijo es por unidad); de lo contrario se aplica
+ * al subtotal del pedido. Devuelve null si el código no aplica.
+ */
+export const computePromoDiscount = (
+  promo: PromoCodeRecord,
+  lines: PromoDiscountLine[]
+): OrderPromoDiscount | null => {
+  if (promo.discountType !== 'percentage' && promo.discountType !== 'amount') {
+    return null;
+  }
+  const value = Math.max(0, promo.discountValue ?? 0);
+  if (value <= 0) {
+    return null;
+  }
+  const productIds = readTargetList(promo.metadata, ['productIds', 'products']);
+  const categories = readTargetList(promo.metadata, ['categories']);
+  const isLineScoped = productIds.size > 0 || categories.size > 0;
+  const base = {
+    promoCodeId: promo.id,
+    code: promo.code,
+    description: promo.description,
+    discountType: promo.discountType,
+    discountValue: value,
+  };
+
+  if (!isLineScoped) {
+    const subtotal = roundAmount(
+      lines.reduce((acc, line) => acc + line.unitPrice * line.quantity, 0)
+    );
+    const amount = roundAmount(
+      Math.min(subtotal, promo.discountType === 'percentage' ? (subtotal * value) / 100 : value)
+    );
+    return amount > 0 ? { ...base, scope: 'order', amount, lines: [] } : null;
+  }
+
+  const discountedLines = lines
+    .map((line, lineIndex) => {
+      const matches =
+        productIds.has(normalizeKey(line.productId)) ||
+        categories.has(normalizeKey(line.category));
+      if (!matches) {
+        return null;
+      }
+      const lineTotal = line.unitPrice * line.quantity;
+      const amount = roundAmount(
+        Math.min(
+          lineTotal,
+          promo.discountType === 'percentage' ? (lineTotal * value) / 100 : value * line.quantity
+        )
+      );
+      return amount > 0 ? { lineIndex, productId: line.productId, amount } : null;
+    })
+    .filter((line): line is OrderPromoDiscount['lines'][number] => Boolean(line));
+  if (!discountedLines.length) {
+    return null;
+  }
+  return {
+    ...base,
+    scope: 'lines',
+    amount: roundAmount(discountedLines.reduce((acc, line) => acc + line.amount, 0)),
+    lines: discountedLines,
+  };
+};
+
+/**
+ * Descuento que corresponde a cada línea. En descuentos al pedido se reparte en
+ * proporción al importe de la línea; la última absorbe el redondeo.
+ */
+export const resolveLineDiscounts = (
+  discount: OrderPromoDiscount,
+  lines: PromoDiscountLine[]
+): number[] => {
+  if (discount.scope === 'lines') {
+    return lines.map(
+      (_, lineIndex) => discount.lines.find((line) => line.lineIndex === lineIndex)?.amount ?? 0
+    );
+  }
+  const subtotal = lines.reduce((acc, line) => acc + line.unitPrice * line.quantity, 0);
+  if (subtotal <= 0) {
+    return lines.map(() => 0);
+  }
+  let remaining = discount.amount;
+  return lines.map((line, index) => {
+    const share =
+      index === lines.length - 1
+        ? remaining
+        : roundAmount((discount.amount * line.unitPrice * line.quantity) / subtotal);
+    remaining = roundAmount(remaining - share);
+    return share;
+  });
+};
+
+/** Lee el código aplicado al pedido desde `metadata.promo`. */
+export const extractOrderPromo = (metadata: unknown): OrderPromoDiscount | null => {
+  let record: unknown = metadata;
+  if (typeof metadata === 'string') {
+    try {
+      record = JSON.parse(metadata);
+    } catch {
+      return null;
+    }
+  }
+  if (!record || typeof record !== 'object') {
+    return null;
+  }
+  const promo = (record as Record<string, unknown>).promo;
+  if (!promo || typeof promo !== 'object') {
+    return null;
+  }
+  const entry = promo as Partial<OrderPromoDiscount>;
+  const amount = typeof entry.amount === 'number' ? entry.amount : Number(entry.amount);
+  if (typeof entry.code !== 'string' || !Number.isFinite(amount) || amount <= 0) {
+    return null;
+  }
+  return {
+    promoCodeId: typeof entry.promoCodeId === 'string' ? entry.promoCodeId : '',
+    code: entry.code,
+    description: typeof entry.description === 'string' ? entry.description : null,
+    discountType: entry.discountType === 'amount' ? 'amount' : 'percentage',
+    discountValue: typeof entry.discountValue === 'number' ? entry.discountValue : 0,
+    scope: entry.scope === 'lines' ? 'lines' : 'order',
+    amount,
+    lines: Array.isArray(entry.lines) ? entry.lines : [],
+  };
+};
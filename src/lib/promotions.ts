@@ -0,0 +1,192 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { PromoAppliesTo, PromoCodeRecord, PromoDiscountType } from '@/lib/promo-codes';
+
+const PROMO_CODES_TABLE = 'promo_codes';
+const PROMO_REDEMPTIONS_TABLE = 'promo_redemptions';
+
+export type PromoCheckResult =
+  | { ok: true; promo: PromoCodeRecord }
+  | { ok: false; error: string };
+
+const toNullableNumber = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toPromoRecord = (row: Record<string, unknown>): PromoCodeRecord => ({
+  id: String(row.id),
+  code: String(row.code),
+  description: typeof row.description === 'string' ? row.description : null,
+  appliesTo: (row.appliesTo as PromoAppliesTo) ?? 'product',
+  discountType: (row.discountType as PromoDiscountType) ?? 'percentage',
+  discountValue: toNullableNumber(row.discountValue),
+  durationDays: toNullableNumber(row.durationDays),
+  maxRedemptions: toNullableNumber(row.maxRedemptions),
+  perUserLimit: toNullableNumber(row.perUserLimit),
+  metadata:
+    row.metadata && typeof row.metadata === 'object'
+      ? (row.metadata as Record<string, unknown>)
+      : null,
+  validFrom: typeof row.validFrom === 'string' ? row.validFrom : null,
+  expiresAt: typeof row.expiresAt === 'string' ? row.expiresAt : null,
+  isActive: Boolean(row.isActive),
+});
+
+/**
+ * Reglas compartidas por la app de clientes y la caja: código activo, ventana
+ * de vigencia, `maxRedemptions`, `perUserLimit` y `appliesTo`. Sin `userId`
+ * (venta al público) no se evalúa el límite por usuario.
+ */
+export const checkPromoCode = async ({
+  code,
+  userId,
+  target,
+}: {
+  code: string;
+  userId?: string | null;
+  target?: Exclude<PromoAppliesTo, 'both'>;
+}): Promise<PromoCheckResult> => {
+  const normalizedCode = code.trim().toUpperCase();
+  const { data: row, error: promoError } = await supabaseAdmin
+    .from(PROMO_CODES_TABLE)
+    .select('*')
+    .eq('code', normalizedCode)
+    .maybeSingle();
+
+  if (promoError) {
+    throw new Error(promoError.message);
+  }
+
+  if (!row || !row.isActive) {
+    return { ok: false, error: 'El código no es válido o está inactivo.' };
+  }
+  const promo = toPromoRecord(row as Record<string, unknown>);
+
+  const now = Date.now();
+  if (promo.validFrom && new Date(promo.validFrom).getTime() > now) {
+    return { ok: false, error: 'El código aún no está activo.' };
+  }
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() < now) {
+    return { ok: false, error: 'El código ha expirado.' };
+  }
+
+  if (target && promo.appliesTo !== 'both' && promo.appliesTo !== target) {
+    return {
+      ok: false,
+      error:
+        target === 'product'
+          ? 'Este código solo aplica a membresías.'
+          : 'Este código solo aplica a productos.',
+    };
+  }
+
+  if (promo.maxRedemptions) {
+    const { count: totalCount, error: totalError } = await supabaseAdmin
+      .from(PROMO_REDEMPTIONS_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('promoCodeId', promo.id)
+      .eq('status', 'redeemed');
+
+    if (totalError) {
+      throw new Error(totalError.message);
+    }
+    if (typeof totalCount === 'number' && totalCount >= promo.maxRedemptions) {
+      return { ok: false, error: 'Este código alcanzó el número máximo de usos.' };
+    }
+  }
+
+  const perUserLimit = promo.perUserLimit ?? 1;
+  if (userId && perUserLimit > 0) {
+    const { count: userCount, error: userError } = await supabaseAdmin
+      .from(PROMO_REDEMPTIONS_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('promoCodeId', promo.id)
+      .eq('userId', userId)
+      .eq('status', 'redeemed');
+
+    if (userError) {
+      throw new Error(userError.message);
+    }
+    if (typeof userCount === 'number' && userCount >= perUserLimit) {
+      return { ok: false, error: 'Ya usaste este código.' };
+    }
+  }
+
+  return { ok: true, promo };
+};
+
+export const recordPromoRedemption = async ({
+  promoCodeId,
+  userId,
+  orderId,
+  context,
+}: {
+  promoCodeId: string;
+  userId?: string | null;
+  orderId?: string | null;
+  context: Record<string, unknown>;
+}) => {
+  const redemptionId = randomUUID();
+  const record: Record<string, unknown> = {
+    id: redemptionId,
+    promoCodeId,
+    userId: userId ?? null,
+    status: 'redeemed',
+    context: {
+      ...context,
+      redeemedAt: new Date().toISOString(),
+    },
+  };
+  if (orderId) {
+    record.orderId = orderId;
+  }
+  const { error } = await supabaseAdmin.from(PROMO_REDEMPTIONS_TABLE).insert(record);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return redemptionId;
+};
+
+/** Libera los códigos usados por un pedido cancelado para que vuelvan a contar. */
+export const releaseOrderPromoRedemptions = async (orderId: string) => {
+  const { error } = await supabaseAdmin
+    .from(PROMO_REDEMPTIONS_TABLE)
+    .update({ status: 'voided' })
+    .eq('orderId', orderId)
+    .eq('status', 'redeemed');
+  if (error) {
+    throw new Error(error.message);
+  }
+};
@@ -0,0 +1,210 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+
+const sanitizeEnv = (value?: string | null) => value?.trim() || null;
+
+export const PUBLIC_SALE_CLIENT_ID =
+  sanitizeEnv(process.env.SUPABASE_PUBLIC_SALE_CLIENT_ID) ??
+  sanitizeEnv(process.env.NEXT_PUBLIC_PUBLIC_SALE_CLIENT_ID) ??
+  'AAA-1111';
+export const PUBLIC_SALE_USER_ID =
+  sanitizeEnv(process.env.SUPABASE_PUBLIC_SALE_USER_ID) ??
+  sanitizeEnv(process.env.NEXT_PUBLIC_PUBLIC_SALE_USER_ID) ??
+  PUBLIC_SALE_CLIENT_ID;
+const PUBLIC_SALE_USER_ID_LOWER = PUBLIC_SALE_USER_ID?.toLowerCase() ?? '';
+
+const ORDERS_TABLE = process.env.SUPABASE_ORDERS_TABLE ?? 'orders';
+const MAX_MONTHS = 18;
+
+const toNumber = (value: unknown) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const normalize = (value?: string | null) =>
+  typeof value === 'string' ? value.trim().toLowerCase() : '';
+
+export const isPublicSaleOrder = (order: { userId?: string | null }) => {
+  const userId = normalize(order.userId);
+  if (!userId) {
+    return false;
+  }
+  if (PUBLIC_SALE_USER_ID_LOWER && userId === PUBLIC_SALE_USER_ID_LOWER) {
+    return true;
+  }
+  return false;
+};
+
+const buildMonthLabel = (monthKey: string) => {
+  const baseDate = new Date(`${monthKey}-01T00:00:00Z`);
+  return baseDate.toLocaleDateString('es-MX', { month: 'long', year: 'numeric' });
+};
+
+export type NormalizedOrder = {
+  id: string;
+  ticketCode: string | null;
+  orderNumber: string | null;
+  total: number;
+  tipAmount: number;
+  /** IVA cobrado aparte del precio; 0 cuando los precios ya lo incluían. */
+  tax: number;
+  createdAt: string;
+  paymentMethod: string | null;
+};
+
+export type SalesMonthEntry = {
+  month: string;
+  label: string;
+  totalSales: number;
+  totalTips: number;
+  orderCount: number;
+  recentOrders: NormalizedOrder[];
+  orders: NormalizedOrder[];
+};
+
+type RawOrderRow = {
+  id: string;
+  orderNumber?: string | null;
+  userId?: string | null;
+  status?: string | null;
+  total?: number | null;
+  tipAmount?: number | null;
+  totals?: { tax?: number | null } | null;
+  vat_amount?: number | null;
+  createdAt?: string | null;
+  queuedPaymentMethod?: string | null;
+};
+
+/**
+ * Agrupa por mes los pedidos completados de los últimos 18 meses: el historial
+ * del público general (cliente AAA-1111) y el de todas las ventas. Alimenta el
+ * resumen del tablero y la factura global mensual.
+ */
+export const loadPublicSalesHistory = async () => {
+  const now = new Date();
+  const earliest = new Date(now.getFullYear(), now.getMonth() - (MAX_MONTHS - 1), 1);
+  earliest.setHours(0, 0, 0, 0);
+
+  const orderSelectFields = [
+    'id',
+    '"orderNumber"',
+    '"userId"',
+    '"status"',
+    '"total"',
+    '"tipAmount"',
+    '"totals"',
+    '"vat_amount"',
+    '"createdAt"',
+    '"queuedPaymentMethod"',
+  ];
+  const { data, error } = await supabaseAdmin
+    .from(ORDERS_TABLE)
+    .select(orderSelectFields.join(','))
+    .eq('status', 'completed')
+    .gte('createdAt', earliest.toISOString())
+    .order('createdAt', { ascending: false });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const publicMonthMap = new Map<string, { label: string; orders: NormalizedOrder[] }>();
+  const overallMonthMap = new Map<string, { label: string; orders: NormalizedOrder[] }>();
+
+  const rows: RawOrderRow[] = Array.isArray(data) ? ((data as unknown) as RawOrderRow[]) : [];
+  rows.forEach((order) => {
+    if (!order.createdAt) {
+      return;
+    }
+    const monthKey = order.createdAt.substring(0, 7);
+    const normalized: NormalizedOrder = {
+      id: order.id,
+      ticketCode: order.orderNumber ?? null,
+      orderNumber: order.orderNumber ?? null,
+      total: toNumber(order.total),
+      tipAmount: toNumber(order.tipAmount),
+      tax: toNumber(order.totals?.tax ?? order.vat_amount),
+      createdAt: order.createdAt,
+      paymentMethod: order.queuedPaymentMethod ?? null,
+    };
+    const overallEntry =
+      overallMonthMap.get(monthKey) ?? { label: buildMonthLabel(monthKey), orders: [] };
+    overallEntry.orders.push(normalized);
+    overallMonthMap.set(monthKey, overallEntry);
+
+    if (isPublicSaleOrder(order)) {
+      const publicEntry =
+        publicMonthMap.get(monthKey) ?? { label: buildMonthLabel(monthKey), orders: [] };
+      publicEntry.orders.push(normalized);
+      publicMonthMap.set(monthKey, publicEntry);
+    }
+  });
+
+  const ensureMonthEntry = (
+    map: Map<string, { label: string; orders: NormalizedOrder[] }>,
+    monthKey: string
+  ) => {
+    if (!map.has(monthKey)) {
+      map.set(monthKey, { label: buildMonthLabel(monthKey), orders: [] });
+    }
+  };
+
+  const currentMonthKey = new Date().toISOString().substring(0, 7);
+  ensureMonthEntry(publicMonthMap, currentMonthKey);
+  ensureMonthEntry(overallMonthMap, currentMonthKey);
+
+  const buildHistory = (
+    map: Map<string, { label: string; orders: NormalizedOrder[] }>
+  ): SalesMonthEntry[] => {
+    const sortedMonths = Array.from(map.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+    const limitedMonths = sortedMonths.slice(0, MAX_MONTHS);
+    return limitedMonths.map(([month, entry]) => {
+      const totalSales = entry.orders.reduce((sum, order) => sum + order.total, 0);
+      const totalTips = entry.orders.reduce((sum, order) => sum + order.tipAmount, 0);
+      const recentOrders = [...entry.orders]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, 3);
+      return {
+        month,
+        label: entry.label,
+        totalSales: Number(totalSales.toFixed(2)),
+        totalTips: Number(totalTips.toFixed(2)),
+        orderCount: entry.orders.length,
+        recentOrders,
+        orders: entry.orders,
+      };
+    });
+  };
+
+  return {
+    publicHistory: buildHistory(publicMonthMap),
+    overallHistory: buildHistory(overallMonthMap),
+  };
+};
@@ -0,0 +1,408 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { roundCurrency } from '@/lib/order-pricing';
+import { handleIngress } from '@/lib/smart-inventory';
+import type {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderLineInput,
+  PurchaseOrderStatus,
+  PurchaseReceiptLineInput,
+  PurchasingInventoryItem,
+  Supplier,
+  SupplierDirectory,
+  SupplierItem,
+  SupplierItemInput,
+} from '@/lib/api';
+
+export const SUPPLIERS_TABLE = process.env.SUPABASE_SUPPLIERS_TABLE ?? 'suppliers';
+export const SUPPLIER_ITEMS_TABLE = process.env.SUPABASE_SUPPLIER_ITEMS_TABLE ?? 'supplier_items';
+export const PURCHASE_ORDERS_TABLE = process.env.SUPABASE_PURCHASE_ORDERS_TABLE ?? 'purchase_orders';
+export const PURCHASE_ORDER_ITEMS_TABLE =
+  process.env.SUPABASE_PURCHASE_ORDER_ITEMS_TABLE ?? 'purchase_order_items';
+export const PURCHASE_RECEIPTS_TABLE =
+  process.env.SUPABASE_PURCHASE_RECEIPTS_TABLE ?? 'purchase_receipts';
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
+
+const ORDER_HISTORY_LIMIT = 100;
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toText = (value: unknown) => (typeof value === 'string' && value.trim() ? value : null);
+
+const normalizeSupplierItemRow = (row: Record<string, unknown>): SupplierItem => ({
+  id: String(row.id),
+  supplierId: String(row.supplierId),
+  itemId: String(row.itemId),
+  supplierSku: toText(row.supplierSku),
+  packLabel: toText(row.packLabel),
+  packSize: toNumber(row.packSize, 1) || 1,
+  unitCost: row.unitCost === null || row.unitCost === undefined ? null : toNumber(row.unitCost),
+  isPreferred: row.isPreferred === true,
+});
+
+const normalizeSupplierRow = (row: Record<string, unknown>, items: SupplierItem[]): Supplier => ({
+  id: String(row.id),
+  name: String(row.name ?? ''),
+  contactName: toText(row.contactName),
+  phone: toText(row.phone),
+  whatsapp: toText(row.whatsapp),
+  email: toText(row.email),
+  leadTimeDays: toNumber(row.leadTimeDays, 1),
+  notes: toText(row.notes),
+  isActive: row.isActive !== false,
+  items,
+  createdAt: toText(row.createdAt),
+});
+
+const normalizeOrderLineRow = (row: Record<string, unknown>): PurchaseOrderLine => ({
+  id: String(row.id),
+  itemId: String(row.itemId),
+  quantity: toNumber(row.quantity),
+  packSize: toNumber(row.packSize, 1) || 1,
+  unitCost: toNumber(row.unitCost),
+  receivedQuantity: toNumber(row.receivedQuantity),
+});
+
+const normalizeOrderRow = (row: Record<string, unknown>, lines: PurchaseOrderLine[]): PurchaseOrder => ({
+  id: String(row.id),
+  folio: String(row.folio ?? ''),
+  supplierId: String(row.supplierId),
+  branchId: String(row.branchId ?? ''),
+  status: (row.status as PurchaseOrderStatus) ?? 'draft',
+  notes: toText(row.notes),
+  total: toNumber(row.total),
+  expectedAt: toText(row.expectedAt),
+  sentAt: toText(row.sentAt),
+  receivedAt: toText(row.receivedAt),
+  createdAt: toText(row.createdAt),
+  lines,
+});
+
+const groupBy = <T>(rows: T[], key: (row: T) => string) => {
+  const grouped = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const bucket = grouped.get(key(row)) ?? [];
+    bucket.push(row);
+    grouped.set(key(row), bucket);
+  });
+  return grouped;
+};
+
+export const loadSupplierDirectory = async (): Promise<SupplierDirectory> => {
+  const [suppliersResult, supplierItemsResult, itemsResult] = await Promise.all([
+    supabaseAdmin.from(SUPPLIERS_TABLE).select('*').order('name', { ascending: true }),
+    supabaseAdmin.from(SUPPLIER_ITEMS_TABLE).select('*'),
+    supabaseAdmin
+      .from(ITEMS_TABLE)
+      .select('id,name,unit')
+      .eq('isActive', true)
+      .order('name', { ascending: true }),
+  ]);
+  const failure = suppliersResult.error ?? supplierItemsResult.error ?? itemsResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+  const itemsBySupplier = groupBy(
+    ((supplierItemsResult.data ?? []) as Record<string, unknown>[]).map(normalizeSupplierItemRow),
+    (item) => item.supplierId
+  );
+  return {
+    suppliers: ((suppliersResult.data ?? []) as Record<string, unknown>[]).map((row) =>
+      normalizeSupplierRow(row, itemsBySupplier.get(String(row.id)) ?? [])
+    ),
+    items: ((itemsResult.data ?? []) as Record<string, unknown>[]).map(
+      (row): PurchasingInventoryItem => ({
+        id: String(row.id),
+        name: String(row.name ?? row.id),
+        unit: String(row.unit ?? 'unidad'),
+      })
+    ),
+  };
+};
+
+export const loadSupplier = async (supplierId: string): Promise<Supplier | null> => {
+  const [supplierResult, itemsResult] = await Promise.all([
+    supabaseAdmin.from(SUPPLIERS_TABLE).select('*').eq('id', supplierId).maybeSingle(),
+    supabaseAdmin.from(SUPPLIER_ITEMS_TABLE).select('*').eq('supplierId', supplierId),
+  ]);
+  const failure = supplierResult.error ?? itemsResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+  if (!supplierResult.data) {
+    return null;
+  }
+  return normalizeSupplierRow(
+    supplierResult.data as Record<string, unknown>,
+    ((itemsResult.data ?? []) as Record<string, unknown>[]).map(normalizeSupplierItemRow)
+  );
+};
+
+/** Reemplaza la lista completa de insumos que surte el proveedor. */
+export const replaceSupplierItems = async (supplierId: string, items: SupplierItemInput[]) => {
+  const { error: deleteError } = await supabaseAdmin
+    .from(SUPPLIER_ITEMS_TABLE)
+    .delete()
+    .eq('supplierId', supplierId);
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+  const unique = new Map(items.map((item) => [item.itemId, item]));
+  if (!unique.size) {
+    return;
+  }
+  const { error } = await supabaseAdmin.from(SUPPLIER_ITEMS_TABLE).insert(
+    Array.from(unique.values()).map((item) => ({
+      id: randomUUID(),
+      supplierId,
+      itemId: item.itemId,
+      supplierSku: item.supplierSku?.trim() || null,
+      packLabel: item.packLabel?.trim() || null,
+      packSize: item.packSize,
+      unitCost: typeof item.unitCost === 'number' ? roundCurrency(item.unitCost) : null,
+      isPreferred: item.isPreferred ?? false,
+    }))
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+const fetchOrderLines = async (orderIds: string[]) => {
+  if (!orderIds.length) {
+    return new Map<string, PurchaseOrderLine[]>();
+  }
+  const { data, error } = await supabaseAdmin
+    .from(PURCHASE_ORDER_ITEMS_TABLE)
+    .select('*')
+    .in('purchaseOrderId', orderIds)
+    .order('createdAt', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  const rows = (data ?? []) as Record<string, unknown>[];
+  const grouped = groupBy(rows, (row) => String(row.purchaseOrderId));
+  return new Map(
+    Array.from(grouped.entries()).map(([orderId, lines]) => [orderId, lines.map(normalizeOrderLineRow)])
+  );
+};
+
+export const loadPurchaseOrders = async (status?: PurchaseOrderStatus | null) => {
+  let query = supabaseAdmin
+    .from(PURCHASE_ORDERS_TABLE)
+    .select('*')
+    .order('createdAt', { ascending: false })
+    .limit(ORDER_HISTORY_LIMIT);
+  if (status) {
+    query = query.eq('status', status);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+  const rows = (data ?? []) as Record<string, unknown>[];
+  const lines = await fetchOrderLines(rows.map((row) => String(row.id)));
+  return rows.map((row) => normalizeOrderRow(row, lines.get(String(row.id)) ?? []));
+};
+
+export const loadPurchaseOrder = async (purchaseOrderId: string): Promise<PurchaseOrder | null> => {
+  const { data, error } = await supabaseAdmin
+    .from(PURCHASE_ORDERS_TABLE)
+    .select('*')
+    .eq('id', purchaseOrderId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) {
+    return null;
+  }
+  const lines = await fetchOrderLines([purchaseOrderId]);
+  return normalizeOrderRow(data as Record<string, unknown>, lines.get(purchaseOrderId) ?? []);
+};
+
+export const computePurchaseOrderTotal = (lines: Array<Pick<PurchaseOrderLine, 'quantity' | 'unitCost'>>) =>
+  roundCurrency(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+/** Folio legible para compartir con el proveedor: OC-AAAAMMDD-XXXX. */
+export const buildPurchaseOrderFolio = () => {
+  const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `OC-${datePart}-${randomUUID().slice(0, 4).toUpperCase()}`;
+};
+
+/** Reemplaza las líneas de una orden en borrador y devuelve el total nuevo. */
+export const replacePurchaseOrderLines = async (purchaseOrderId: string, lines: PurchaseOrderLineInput[]) => {
+  const { error: deleteError } = await supabaseAdmin
+    .from(PURCHASE_ORDER_ITEMS_TABLE)
+    .delete()
+    .eq('purchaseOrderId', purchaseOrderId);
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+  const { error } = await supabaseAdmin.from(PURCHASE_ORDER_ITEMS_TABLE).insert(
+    lines.map((line) => ({
+      id: randomUUID(),
+      purchaseOrderId,
+      itemId: line.itemId,
+      quantity: line.quantity,
+      packSize: line.packSize,
+      unitCost: roundCurrency(line.unitCost),
+      receivedQuantity: 0,
+    }))
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+  return computePurchaseOrderTotal(lines);
+};
+
+const remainingQuantity = (line: PurchaseOrderLine) => Math.max(0, line.quantity - line.receivedQuantity);
+
+const resolveReceivedStatus = (lines: PurchaseOrderLine[]): PurchaseOrderStatus => {
+  if (lines.every((line) => remainingQuantity(line) <= 0)) {
+    return 'received';
+  }
+  return lines.some((line) => line.receivedQuantity > 0) ? 'partially_received' : 'sent';
+};
+
+export type PurchaseReceiptResult =
+  | { ok: true; order: PurchaseOrder }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Registra la mercancía recibida: cada línea pasa por el ingreso de inventario
+ * (stock, movimiento y lote con caducidad) y deja un recibo con su importe.
+ * La orden queda parcial hasta que todas sus líneas se reciben completas.
+ */
+export const receivePurchaseOrderLines = async (
+  order: PurchaseOrder,
+  inputs: PurchaseReceiptLineInput[],
+  staffId?: string | null
+): Promise<PurchaseReceiptResult> => {
+  if (order.status !== 'sent' && order.status !== 'partially_received') {
+    return {
+      ok: false,
+      status: 409,
+      error:
+        order.status === 'draft'
+          ? 'Envía la orden al proveedor antes de recibirla.'
+          : 'La orden ya está cerrada.',
+    };
+  }
+  const lines = new Map(order.lines.map((line) => [line.id, line]));
+  for (const input of inputs) {
+    const line = lines.get(input.lineId);
+    if (!line) {
+      return { ok: false, status: 400, error: 'Una de las líneas no pertenece a la orden.' };
+    }
+    if (input.quantity > remainingQuantity(line)) {
+      return {
+        ok: false,
+        status: 400,
+        error: `Solo faltan ${remainingQuantity(line)} piezas de una de las líneas.`,
+      };
+    }
+  }
+
+  const receivedAt = new Date().toISOString();
+  for (const input of inputs) {
+    const line = lines.get(input.lineId)!;
+    // El guardia sobre la cantidad recibida evita duplicar el ingreso si dos
+    // personas capturan la misma recepción al mismo tiempo.
+    const nextReceived = line.receivedQuantity + input.quantity;
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from(PURCHASE_ORDER_ITEMS_TABLE)
+      .update({ receivedQuantity: nextReceived })
+      .eq('id', line.id)
+      .eq('receivedQuantity', line.receivedQuantity)
+      .select('id');
+    if (claimError) {
+      throw new Error(claimError.message);
+    }
+    if (!claimed?.length) {
+      return { ok: false, status: 409, error: 'La orden cambió mientras recibías; recárgala.' };
+    }
+    try {
+      await handleIngress({
+        action: 'ingress',
+        itemId: line.itemId,
+        quantity: input.quantity,
+        unitSize: line.packSize,
+        unitCost: line.unitCost,
+        branchId: order.branchId,
+        expiresAt: input.expiresAt ?? undefined,
+        reference: `OC ${order.folio}`,
+        staffId: staffId ?? undefined,
+      });
+    } catch (error) {
+      await supabaseAdmin
+        .from(PURCHASE_ORDER_ITEMS_TABLE)
+        .update({ receivedQuantity: line.receivedQuantity })
+        .eq('id', line.id);
+      throw error;
+    }
+    const { error: receiptError } = await supabaseAdmin.from(PURCHASE_RECEIPTS_TABLE).insert({
+      id: randomUUID(),
+      purchaseOrderId: order.id,
+      purchaseOrderItemId: line.id,
+      supplierId: order.supplierId,
+      itemId: line.itemId,
+      quantity: input.quantity,
+      amount: roundCurrency(input.quantity * line.unitCost),
+      expiresAt: input.expiresAt ? new Date(input.expiresAt).toISOString() : null,
+      receivedByStaffId: staffId ?? null,
+      receivedAt,
+    });
+    if (receiptError) {
+      console.warn('No pudimos guardar el recibo de compra:', receiptError.message);
+    }
+    lines.set(line.id, { ...line, receivedQuantity: nextReceived });
+  }
+
+  const nextStatus = resolveReceivedStatus(Array.from(lines.values()));
+  const { error: statusError } = await supabaseAdmin
+    .from(PURCHASE_ORDERS_TABLE)
+    .update({
+      status: nextStatus,
+      receivedAt: nextStatus === 'received' ? receivedAt : null,
+      updatedAt: receivedAt,
+    })
+    .eq('id', order.id);
+  if (statusError) {
+    throw new Error(statusError.message);
+  }
+  const refreshed = await loadPurchaseOrder(order.id);
+  return { ok: true, order: refreshed ?? order };
+};
@@ -0,0 +1,361 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { roundCurrency } from '@/lib/order-pricing';
+import { SUPPLIERS_TABLE, SUPPLIER_ITEMS_TABLE } from '@/lib/purchase-orders';
+import type { ReorderList, ReorderListItem, ReorderReport, ReorderSuggestion } from '@/lib/api';
+
+export const REORDER_LISTS_TABLE = process.env.SUPABASE_REORDER_LISTS_TABLE ?? 'reorder_lists';
+export const INVENTORY_ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
+const STOCK_TABLE = process.env.SUPABASE_INVENTORY_STOCK ?? 'inventory_stock';
+const MOVEMENTS_TABLE = process.env.SUPABASE_INVENTORY_MOVEMENTS ?? 'inventory_movements';
+const LEDGER_TABLE = process.env.SUPABASE_STOCK_LEDGER_TABLE ?? 'inventory_stock_ledger';
+
+const DEFAULT_LOOKBACK_DAYS = Number(process.env.REORDER_LOOKBACK_DAYS ?? 28);
+const DEFAULT_COVER_DAYS = Number(process.env.REORDER_COVER_DAYS ?? 7);
+const DEFAULT_LEAD_TIME_DAYS = Number(process.env.REORDER_DEFAULT_LEAD_TIME_DAYS ?? 2);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toOptionalNumber = (value: unknown) =>
+  value === null || value === undefined || value === '' ? null : toNumber(value, NaN);
+
+const usageKey = (itemId: string, branchId: string) => `${itemId}:${branchId}`;
+
+type ReorderItemMeta = {
+  id: string;
+  name: string;
+  unit: string;
+  minStock: number;
+  leadTimeDays: number;
+  packSize: number;
+  supplierId: string | null;
+  supplierName: string | null;
+  unitCost: number | null;
+};
+
+/**
+ * Parámetros de reabasto por insumo: primero lo configurado en el insumo, luego
+ * el proveedor preferido (o el único que lo surte) y al final los valores por omisión.
+ */
+export const loadReorderItems = async () => {
+  const [itemsResult, supplierItemsResult, suppliersResult] = await Promise.all([
+    supabaseAdmin
+      .from(INVENTORY_ITEMS_TABLE)
+      .select('id,name,unit,"minStock","isActive","reorderLeadTimeDays","reorderPackSize"')
+      .eq('isActive', true),
+    supabaseAdmin
+      .from(SUPPLIER_ITEMS_TABLE)
+      .select('"supplierId","itemId","packSize","unitCost","isPreferred"'),
+    supabaseAdmin.from(SUPPLIERS_TABLE).select('id,name,"leadTimeDays","isActive"'),
+  ]);
+  const failure = itemsResult.error ?? supplierItemsResult.error ?? suppliersResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+  const suppliers = new Map(
+    (suppliersResult.data ?? [])
+      .filter((supplier) => supplier.isActive !== false)
+      .map((supplier) => [String(supplier.id), supplier])
+  );
+  const supplierByItem = new Map<string, Record<string, unknown>>();
+  (supplierItemsResult.data ?? []).forEach((row) => {
+    if (!suppliers.has(String(row.supplierId))) {
+      return;
+    }
+    const current = supplierByItem.get(String(row.itemId));
+    if (!current || (row.isPreferred && !current.isPreferred)) {
+      supplierByItem.set(String(row.itemId), row);
+    }
+  });
+
+  return new Map(
+    (itemsResult.data ?? []).map((row): [string, ReorderItemMeta] => {
+      const supplierItem = supplierByItem.get(String(row.id));
+      const supplier = supplierItem ? suppliers.get(String(supplierItem.supplierId)) : undefined;
+      const configuredLead = toOptionalNumber(row.reorderLeadTimeDays);
+      const configuredPack = toOptionalNumber(row.reorderPackSize);
+      const supplierPack = supplierItem ? toNumber(supplierItem.packSize, 1) : null;
+      return [
+        String(row.id),
+        {
+          id: String(row.id),
+          name: String(row.name ?? row.id),
+          unit: String(row.unit ?? 'unidad'),
+          minStock: toNumber(row.minStock),
+          leadTimeDays:
+            configuredLead !== null && Number.isFinite(configuredLead)
+              ? configuredLead
+              : supplier
+                ? toNumber(supplier.leadTimeDays, DEFAULT_LEAD_TIME_DAYS)
+                : DEFAULT_LEAD_TIME_DAYS,
+          packSize:
+            configuredPack && configuredPack > 0 ? configuredPack : supplierPack && supplierPack > 0 ? supplierPack : 1,
+          supplierId: supplier ? String(supplier.id) : null,
+          supplierName: supplier ? String(supplier.name) : null,
+          unitCost:
+            supplierItem && supplierItem.unitCost !== null && supplierItem.unitCost !== undefined
+              ? toNumber(supplierItem.unitCost)
+              : null,
+        },
+      ];
+    })
+  );
+};
+
+/**
+ * Consumo por insumo y sucursal en la ventana. El libro de existencias es la
+ * misma fuente que usa `buildForecasts`; cuando un insumo no tiene asientos ahí
+ * tomamos las salidas que registra el inventario inteligente en cada venta.
+ */
+const loadUsage = async (sinceIso: string, branchId?: string | null) => {
+  let ledgerQuery = supabaseAdmin
+    .from(LEDGER_TABLE)
+    .select('"itemId","branchId","outQty"')
+    .gte('createdAt', sinceIso)
+    .eq('isCancelled', false);
+  let movementsQuery = supabaseAdmin
+    .from(MOVEMENTS_TABLE)
+    .select('"itemId","branchId",quantity')
+    .eq('type', 'out')
+    .gte('createdAt', sinceIso);
+  if (branchId) {
+    ledgerQuery = ledgerQuery.eq('branchId', branchId);
+    movementsQuery = movementsQuery.eq('branchId', branchId);
+  }
+  const [ledgerResult, movementsResult] = await Promise.all([ledgerQuery, movementsQuery]);
+  if (ledgerResult.error) {
+    console.warn('Reorder ledger query failed:', ledgerResult.error.message);
+  }
+  if (movementsResult.error) {
+    throw new Error(movementsResult.error.message);
+  }
+  const ledgerUsage = new Map<string, number>();
+  (ledgerResult.data ?? []).forEach((row) => {
+    const key = usageKey(String(row.itemId), String(row.branchId));
+    ledgerUsage.set(key, (ledgerUsage.get(key) ?? 0) + toNumber(row.outQty));
+  });
+  const movementUsage = new Map<string, number>();
+  (movementsResult.data ?? []).forEach((row) => {
+    const key = usageKey(String(row.itemId), String(row.branchId));
+    movementUsage.set(key, (movementUsage.get(key) ?? 0) + Math.abs(toNumber(row.quantity)));
+  });
+  movementUsage.forEach((quantity, key) => {
+    if (!ledgerUsage.has(key)) {
+      ledgerUsage.set(key, quantity);
+    }
+  });
+  return ledgerUsage;
+};
+
+/**
+ * Sugerencia por insumo y sucursal: se pide cuando la existencia no alcanza
+ * para el tiempo de entrega más el mínimo, y se completa hasta cubrir también
+ * `coverDays` de consumo, redondeando a piezas completas del proveedor.
+ */
+export const computeReorderSuggestions = async (
+  options: { branchId?: string | null; lookbackDays?: number; coverDays?: number } = {}
+): Promise<ReorderReport> => {
+  const lookbackDays = Math.max(1, options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS);
+  const coverDays = Math.max(0, options.coverDays ?? DEFAULT_COVER_DAYS);
+  const sinceIso = new Date(Date.now() - lookbackDays * DAY_MS).toISOString();
+
+  let stockQuery = supabaseAdmin.from(STOCK_TABLE).select('"itemId","branchId",quantity');
+  if (options.branchId) {
+    stockQuery = stockQuery.eq('branchId', options.branchId);
+  }
+  const [items, usage, stockResult] = await Promise.all([
+    loadReorderItems(),
+    loadUsage(sinceIso, options.branchId),
+    stockQuery,
+  ]);
+  if (stockResult.error) {
+    throw new Error(stockResult.error.message);
+  }
+
+  const suggestions = (stockResult.data ?? [])
+    .map((stock): ReorderSuggestion | null => {
+      const meta = items.get(String(stock.itemId));
+      if (!meta) {
+        return null;
+      }
+      const branchId = String(stock.branchId);
+      const quantity = toNumber(stock.quantity);
+      const avgDailyUse = (usage.get(usageKey(meta.id, branchId)) ?? 0) / lookbackDays;
+      const daysRemaining = avgDailyUse > 0 ? quantity / avgDailyUse : null;
+      const reorderPoint = avgDailyUse * meta.leadTimeDays + meta.minStock;
+      const needsReorder =
+        avgDailyUse > 0 ? quantity <= reorderPoint : meta.minStock > 0 && quantity <= meta.minStock;
+      if (!needsReorder) {
+        return null;
+      }
+      const target = avgDailyUse * (meta.leadTimeDays + coverDays) + meta.minStock;
+      const suggestedPacks = Math.max(1, Math.ceil(Math.max(0, target - quantity) / meta.packSize));
+      return {
+        itemId: meta.id,
+        name: meta.name,
+        unit: meta.unit,
+        branchId,
+        quantity: Number(quantity.toFixed(3)),
+        minStock: meta.minStock,
+        avgDailyUse: Number(avgDailyUse.toFixed(2)),
+        daysRemaining: daysRemaining === null ? null : Number(daysRemaining.toFixed(1)),
+        leadTimeDays: meta.leadTimeDays,
+        packSize: meta.packSize,
+        reorderPoint: Number(reorderPoint.toFixed(2)),
+        suggestedPacks,
+        suggestedQuantity: Number((suggestedPacks * meta.packSize).toFixed(3)),
+        supplierId: meta.supplierId,
+        supplierName: meta.supplierName,
+        unitCost: meta.unitCost,
+        estimatedCost: meta.unitCost === null ? null : roundCurrency(meta.unitCost * suggestedPacks),
+      };
+    })
+    .filter((entry): entry is ReorderSuggestion => Boolean(entry))
+    .sort((a, b) => {
+      if (a.daysRemaining === null) return b.daysRemaining === null ? a.name.localeCompare(b.name) : 1;
+      if (b.daysRemaining === null) return -1;
+      return a.daysRemaining - b.daysRemaining;
+    });
+
+  return { generatedAt: new Date().toISOString(), lookbackDays, coverDays, suggestions };
+};
+
+const toCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '""';
+  }
+  return `"${String(value).replace(/"/g, '""')}"`;
+};
+
+export const buildReorderCsv = (suggestions: ReorderSuggestion[]) => {
+  const headers = [
+    'branchId',
+    'itemId',
+    'name',
+    'unit',
+    'quantity',
+    'minStock',
+    'avgDailyUse',
+    'daysRemaining',
+    'leadTimeDays',
+    'reorderPoint',
+    'packSize',
+    'suggestedPacks',
+    'suggestedQuantity',
+    'supplier',
+    'estimatedCost',
+  ];
+  const lines = [headers.join(',')];
+  suggestions.forEach((entry) => {
+    lines.push(
+      [
+        entry.branchId,
+        entry.itemId,
+        entry.name,
+        entry.unit,
+        entry.quantity,
+        entry.minStock,
+        entry.avgDailyUse,
+        entry.daysRemaining ?? '',
+        entry.leadTimeDays,
+        entry.reorderPoint,
+        entry.packSize,
+        entry.suggestedPacks,
+        entry.suggestedQuantity,
+        entry.supplierName ?? '',
+        entry.estimatedCost ?? '',
+      ]
+        .map(toCsvValue)
+        .join(',')
+    );
+  });
+  return lines.join('\n');
+};
+
+export const normalizeReorderListRow = (row: Record<string, unknown>): ReorderList => ({
+  id: String(row.id),
+  folio: String(row.folio ?? ''),
+  branchId: typeof row.branchId === 'string' && row.branchId ? row.branchId : null,
+  notes: typeof row.notes === 'string' && row.notes ? row.notes : null,
+  items: Array.isArray(row.items) ? (row.items as ReorderListItem[]) : [],
+  estimatedTotal: toNumber(row.estimatedTotal),
+  approvedByStaffId: typeof row.approvedByStaffId === 'string' ? row.approvedByStaffId : null,
+  approvedAt: String(row.approvedAt ?? row.createdAt ?? ''),
+});
+
+/** Congela las piezas aprobadas con los parámetros vigentes de cada insumo. */
+export const buildReorderListRecord = async (input: {
+  branchId?: string | null;
+  notes?: string | null;
+  items: Array<{ itemId: string; branchId: string; packs: number }>;
+  staffId?: string | null;
+}) => {
+  const items = await loadReorderItems();
+  const missing = input.items.find((entry) => !items.has(entry.itemId));
+  if (missing) {
+    return { ok: false as const, error: `El insumo ${missing.itemId} ya no está activo.` };
+  }
+  const listItems = input.items.map((entry): ReorderListItem => {
+    const meta = items.get(entry.itemId)!;
+    return {
+      itemId: meta.id,
+      name: meta.name,
+      unit: meta.unit,
+      branchId: entry.branchId,
+      packs: entry.packs,
+      packSize: meta.packSize,
+      quantity: Number((entry.packs * meta.packSize).toFixed(3)),
+      supplierId: meta.supplierId,
+      supplierName: meta.supplierName,
+      unitCost: meta.unitCost,
+    };
+  });
+  const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return {
+    ok: true as const,
+    record: {
+      id: randomUUID(),
+      folio: `LC-${datePart}-${randomUUID().slice(0, 4).toUpperCase()}`,
+      branchId: input.branchId || null,
+      notes: input.notes?.trim() || null,
+      items: listItems,
+      estimatedTotal: roundCurrency(
+        listItems.reduce((sum, item) => sum + (item.unitCost ?? 0) * item.packs, 0)
+      ),
+      approvedByStaffId: input.staffId ?? null,
+      approvedAt: new Date().toISOString(),
+    },
+  };
+};
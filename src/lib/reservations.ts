@@ -0,0 +1,468 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'node:crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { type RawUserRecord, withDecryptedUserNames } from '@/lib/customer-decrypt';
+import { sendReservationCreatedEmail } from '@/lib/mailer';
+
+export const RESERVATIONS_TABLE = process.env.SUPABASE_RESERVATIONS_TABLE ?? 'reservations';
+export const RESERVATION_FAILURES_TABLE =
+  process.env.SUPABASE_RESERVATION_FAILURES_TABLE ?? 'reservation_failures';
+const BRANCHES_TABLE = process.env.SUPABASE_BRANCHES_TABLE ?? 'branches';
+const USERS_TABLE = process.env.SUPABASE_USERS_TABLE ?? 'users';
+const POS_SETTINGS_TABLE = process.env.SUPABASE_POS_SETTINGS_TABLE ?? 'pos_settings';
+const RESERVATION_TIMEZONE = 'America/Mexico_City';
+// Días que una inasistencia cuenta para las reglas; después queda lista para depurarse.
+const NO_SHOW_WINDOW_DAYS = Number(process.env.RESERVATION_NO_SHOW_WINDOW_DAYS ?? 365);
+const NO_SHOW_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const NO_SHOW_SWEEP_BATCH = 200;
+
+export const MAX_RESERVATION_PEOPLE = 15;
+
+// Una reserva `completed` ya llegó, pero sigue ocupando su mesa durante el turno.
+const OCCUPYING_STATUSES = ['pending', 'completed'];
+
+const CUSTOMER_FIELDS = [
+  'id',
+  '"clientId"',
+  'email',
+  '"firstNameEncrypted"',
+  '"firstNameIv"',
+  '"firstNameTag"',
+  '"firstNameSalt"',
+  '"lastNameEncrypted"',
+  '"lastNameIv"',
+  '"lastNameTag"',
+  '"lastNameSalt"',
+].join(',');
+
+export type ReservationCapacity = {
+  branchId: string;
+  branchName: string;
+  tables: number;
+  seatsPerTable: number;
+  slotMinutes: number;
+  maxPerSlot: number | null;
+};
+
+export type ReservationCustomer = {
+  id: string;
+  clientId: string | null;
+  email: string | null;
+  displayName: string | null;
+};
+
+export type NoShowAction = 'deposit' | 'block';
+
+export type NoShowPolicy = {
+  count: number;
+  limit: number | null;
+  action: NoShowAction | null;
+  depositAmount: number | null;
+  override: boolean;
+  blocked: boolean;
+  depositRequired: boolean;
+};
+
+// Error que lanza el trigger `reservations_enforce_capacity` si otra reserva
+// tomó las mesas entre la validación y la escritura.
+const RESERVATION_CAPACITY_ERROR = 'RESERVATION_CAPACITY_EXCEEDED';
+export const RESERVATION_CAPACITY_CONFLICT_MESSAGE =
+  'El horario se llenó mientras registrabas la reservación; elige otro horario.';
+
+export const isReservationCapacityError = (error?: { message?: string } | null) =>
+  Boolean(error?.message?.includes(RESERVATION_CAPACITY_ERROR));
+
+export type CapacityCheck =
+  | { ok: true; capacity: ReservationCapacity }
+  | { ok: false; status: number; error: string };
+
+const toPositiveInteger = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) && parsed >= 0
+    ? Math.floor(parsed)
+    : fallback;
+};
+
+/** Normaliza `HH:MM` o `HH:MM:SS` (como lo devuelve Postgres) a `HH:MM`. */
+export const normalizeReservationTime = (value: unknown) => {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const todayReservationDate = () =>
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone: RESERVATION_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date());
+
+export const tablesForParty = (peopleCount: number, seatsPerTable: number) =>
+  Math.max(1, Math.ceil(peopleCount / Math.max(1, seatsPerTable)));
+
+export const loadReservationCapacity = async (
+  branchId: string
+): Promise<ReservationCapacity | null> => {
+  const { data, error } = await supabaseAdmin
+    .from(BRANCHES_TABLE)
+    .select(
+      'id,name,"isActive","reservationTables","reservationSeatsPerTable","reservationSlotMinutes","reservationMaxPerSlot"'
+    )
+    .eq('id', branchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data || data.isActive === false) {
+    return null;
+  }
+
+  const maxPerSlot = toPositiveInteger(data.reservationMaxPerSlot, 0);
+  return {
+    branchId: String(data.id),
+    branchName: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : String(data.id),
+    tables: toPositiveInteger(data.reservationTables, 8),
+    seatsPerTable: Math.max(1, toPositiveInteger(data.reservationSeatsPerTable, 4)),
+    slotMinutes: Math.max(15, toPositiveInteger(data.reservationSlotMinutes, 90)),
+    maxPerSlot: maxPerSlot > 0 ? maxPerSlot : null,
+  };
+};
+
+/**
+ * Valida que la sucursal tenga mesas libres para el horario pedido. Cada reserva
+ * ocupa `ceil(personas / lugares por mesa)` mesas durante `slotMinutes`, así que
+ * se cuentan todas las reservas activas que se traslapan con ese intervalo.
+ * El trigger de la tabla repite la cuenta al escribir para cubrir altas simultáneas.
+ */
+export const checkReservationCapacity = async (input: {
+  branchId: string;
+  reservationDate: string;
+  reservationTime: string;
+  peopleCount: number;
+  excludeReservationId?: string | null;
+}): Promise<CapacityCheck> => {
+  const capacity = await loadReservationCapacity(input.branchId);
+  if (!capacity) {
+    return { ok: false, status: 404, error: 'Sucursal no encontrada o inactiva' };
+  }
+
+  const requestedTables = tablesForParty(input.peopleCount, capacity.seatsPerTable);
+  if (requestedTables > capacity.tables) {
+    return {
+      ok: false,
+      status: 409,
+      error: `La sucursal solo admite reservas de hasta ${capacity.tables * capacity.seatsPerTable} personas.`,
+    };
+  }
+
+  let query = supabaseAdmin
+    .from(RESERVATIONS_TABLE)
+    .select('id,"reservationTime","peopleCount"')
+    .eq('branchId', input.branchId)
+    .eq('reservationDate', input.reservationDate)
+    .in('status', OCCUPYING_STATUSES);
+  if (input.excludeReservationId) {
+    query = query.neq('id', input.excludeReservationId);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const requestedStart = toMinutes(input.reservationTime);
+  let occupiedTables = 0;
+  let sameSlotCount = 0;
+  for (const row of data ?? []) {
+    const time = normalizeReservationTime(row.reservationTime);
+    if (!time) {
+      continue;
+    }
+    const start = toMinutes(time);
+    if (start === requestedStart) {
+      sameSlotCount += 1;
+    }
+    if (Math.abs(start - requestedStart) < capacity.slotMinutes) {
+      occupiedTables += tablesForParty(toPositiveInteger(row.peopleCount, 1), capacity.seatsPerTable);
+    }
+  }
+
+  if (capacity.maxPerSlot !== null && sameSlotCount >= capacity.maxPerSlot) {
+    return {
+      ok: false,
+      status: 409,
+      error: `El horario de las ${input.reservationTime} ya tiene ${capacity.maxPerSlot} reservaciones.`,
+    };
+  }
+
+  if (occupiedTables + requestedTables > capacity.tables) {
+    const available = Math.max(0, capacity.tables - occupiedTables);
+    return {
+      ok: false,
+      status: 409,
+      error: `Sin mesas suficientes a las ${input.reservationTime}: quedan ${available} de ${capacity.tables}.`,
+    };
+  }
+
+  return { ok: true, capacity };
+};
+
+const toCustomer = (row: Record<string, unknown>): ReservationCustomer => {
+  const user = withDecryptedUserNames(row as RawUserRecord);
+  const displayName = [user?.firstName, user?.lastName].filter(Boolean).join(' ').trim();
+  return {
+    id: String(row.id),
+    clientId: typeof row.clientId === 'string' ? row.clientId : null,
+    email: typeof row.email === 'string' && row.email.trim() ? row.email.trim() : null,
+    displayName: displayName || null,
+  };
+};
+
+/** Busca al cliente por `clientId`, id interno o correo. */
+export const resolveReservationCustomer = async (
+  identifier: string
+): Promise<ReservationCustomer | null> => {
+  const trimmed = identifier.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const lookups: Array<[string, string]> = trimmed.includes('@')
+    ? [['email', trimmed.toLowerCase()]]
+    : [
+        ['clientId', trimmed],
+        ['id', trimmed],
+      ];
+
+  for (const [column, value] of lookups) {
+    const { data, error } = await supabaseAdmin
+      .from(USERS_TABLE)
+      .select(CUSTOMER_FIELDS)
+      .eq(column, value)
+      .limit(1)
+      .maybeSingle();
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(error.message);
+    }
+    if (data && typeof data === 'object' && !('error' in data)) {
+      return toCustomer(data as Record<string, unknown>);
+    }
+  }
+  return null;
+};
+
+export const loadReservationCustomer = async (userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(USERS_TABLE)
+    .select(CUSTOMER_FIELDS)
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data && typeof data === 'object' && !('error' in data)
+    ? toCustomer(data as Record<string, unknown>)
+    : null;
+};
+
+/** Envía la confirmación; un fallo del correo no revierte la reserva. */
+export const sendReservationConfirmation = async (input: {
+  customer: ReservationCustomer;
+  reservationCode: string;
+  reservationDate: string;
+  reservationTime: string;
+  peopleCount: number;
+  branchName: string;
+  message?: string | null;
+  preOrderItems?: string | null;
+}) => {
+  if (!input.customer.email) {
+    return false;
+  }
+  const result = await sendReservationCreatedEmail({
+    to: input.customer.email,
+    displayName: input.customer.displayName,
+    reservationCode: input.reservationCode,
+    reservationDate: input.reservationDate,
+    reservationTime: input.reservationTime,
+    peopleCount: input.peopleCount,
+    branchLabel: input.branchName,
+    message: input.message ?? undefined,
+    preOrderItems: input.preOrderItems ?? undefined,
+  });
+  return result.success;
+};
+
+const FAILURE_SOURCE_FIELDS =
+  'id,"reservationCode","userId","reservationDate","reservationTime","branchId","branchNumber","peopleCount",message,"preOrderItems"';
+
+/**
+ * Archiva como inasistencia cada reserva que llegó a su corte (23:59 del día
+ * reservado) sin confirmarse ni ligarse a un pedido. Es idempotente: la llave
+ * única de "originalReservationId" evita duplicar el registro.
+ */
+export const recordReservationNoShows = async () => {
+  const { data, error } = await supabaseAdmin
+    .from(RESERVATIONS_TABLE)
+    .select(FAILURE_SOURCE_FIELDS)
+    .in('status', ['pending', 'past'])
+    .is('linkedOrderId', null)
+    .lt('reservationDate', todayReservationDate())
+    .limit(NO_SHOW_SWEEP_BATCH);
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (data ?? []) as unknown as Array<Record<string, unknown>>;
+  if (!rows.length) {
+    return 0;
+  }
+
+  const cleanupAt = new Date(Date.now() + NO_SHOW_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const failures = rows.map((row) => ({
+    id: randomUUID(),
+    originalReservationId: String(row.id),
+    userId: row.userId,
+    reservationCode: row.reservationCode ?? null,
+    reservationDate: row.reservationDate,
+    reservationTime: normalizeReservationTime(row.reservationTime) ?? String(row.reservationTime),
+    branchId: row.branchId,
+    branchNumber: row.branchNumber ?? null,
+    peopleCount: toPositiveInteger(row.peopleCount, 1),
+    message: row.message ?? null,
+    preOrderItems: row.preOrderItems ?? null,
+    status: 'no_show',
+    cleanupAt,
+  }));
+
+  const { error: failuresError } = await supabaseAdmin
+    .from(RESERVATION_FAILURES_TABLE)
+    .upsert(failures, { onConflict: 'originalReservationId', ignoreDuplicates: true });
+  if (failuresError) {
+    throw new Error(failuresError.message);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from(RESERVATIONS_TABLE)
+    .update({ status: 'no_show', updatedAt: new Date().toISOString() })
+    .in(
+      'id',
+      rows.map((row) => String(row.id))
+    );
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+
+  return rows.length;
+};
+
+let lastNoShowSweepAt = 0;
+
+/** Corre el barrido como máximo cada cinco minutos por instancia. */
+export const sweepReservationNoShows = async () => {
+  if (Date.now() - lastNoShowSweepAt < NO_SHOW_SWEEP_INTERVAL_MS) {
+    return 0;
+  }
+  lastNoShowSweepAt = Date.now();
+  return recordReservationNoShows();
+};
+
+export const countCustomerNoShows = async (userId: string) => {
+  const { count, error } = await supabaseAdmin
+    .from(RESERVATION_FAILURES_TABLE)
+    .select('id', { count: 'exact', head: true })
+    .eq('userId', userId)
+    .eq('status', 'no_show')
+    .gt('cleanupAt', new Date().toISOString());
+  if (error) {
+    throw new Error(error.message);
+  }
+  return count ?? 0;
+};
+
+const loadNoShowRules = async () => {
+  const { data, error } = await supabaseAdmin
+    .from(POS_SETTINGS_TABLE)
+    .select('no_show_limit,no_show_action,no_show_deposit')
+    .order('updatedAt', { ascending: false, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  const limit = toPositiveInteger(data?.no_show_limit, 0);
+  const action = data?.no_show_action === 'deposit' || data?.no_show_action === 'block'
+    ? (data.no_show_action as NoShowAction)
+    : null;
+  const deposit = Number(data?.no_show_deposit);
+  return {
+    limit: limit > 0 && action ? limit : null,
+    action: limit > 0 ? action : null,
+    depositAmount: Number.isFinite(deposit) && deposit > 0 ? deposit : null,
+  };
+};
+
+/** Mismo criterio que el trigger `reservations_enforce_no_show_policy` aplica a las reservas en línea. */
+export const evaluateNoShowPolicy = async (userId: string): Promise<NoShowPolicy> => {
+  const [rules, count, user] = await Promise.all([
+    loadNoShowRules(),
+    countCustomerNoShows(userId),
+    supabaseAdmin.from(USERS_TABLE).select('"noShowOverride"').eq('id', userId).maybeSingle(),
+  ]);
+  if (user.error) {
+    throw new Error(user.error.message);
+  }
+  const override = Boolean(user.data?.noShowOverride);
+  const reached = rules.limit !== null && count >= rules.limit && !override;
+  return {
+    count,
+    limit: rules.limit,
+    action: rules.action,
+    depositAmount: rules.depositAmount,
+    override,
+    blocked: reached && rules.action === 'block',
+    depositRequired: reached && rules.action === 'deposit',
+  };
+};
@@ -0,0 +1,938 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { DEFAULT_BRANCH_ID } from '@/lib/auth/branch-scope';
+import type { OrderItemModifier } from '@/lib/product-modifiers';
+
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
+const STOCK_TABLE = process.env.SUPABASE_INVENTORY_STOCK ?? 'inventory_stock';
+const MOVEMENTS_TABLE = process.env.SUPABASE_INVENTORY_MOVEMENTS ?? 'inventory_movements';
+const BATCHES_TABLE = process.env.SUPABASE_INVENTORY_BATCHES ?? 'inventory_batches';
+const RECIPES_TABLE = process.env.SUPABASE_PRODUCT_RECIPES ?? 'product_recipes';
+const PRODUCTS_TABLE = process.env.SUPABASE_PRODUCTS_TABLE ?? 'products';
+const WASTE_TABLE = process.env.SUPABASE_WASTE_TABLE ?? 'waste_logs';
+export const TRANSFERS_TABLE = process.env.SUPABASE_STOCK_TRANSFERS_TABLE ?? 'stock_transfers';
+const EXPIRY_ALERT_DAYS = Number(process.env.INVENTORY_EXPIRY_ALERT_DAYS ?? 3);
+
+export type SmartInventoryAction = 'ingress' | 'sale' | 'return' | 'discard' | 'status';
+
+export type InventoryModifierInput = Pick<
+  OrderItemModifier,
+  'inventoryItemId' | 'inventoryQuantity' | 'replacesInventoryItemId'
+>;
+
+export type InventoryLineInput = {
+  productId: string;
+  sizeId?: string | null;
+  quantity: number;
+  modifiers?: InventoryModifierInput[] | null;
+};
+
+export type SmartInventoryRequest =
+  | {
+    action: 'ingress';
+    itemId: string;
+    quantity: number;
+    unitSize: number;
+    unitCost?: number;
+    branchId?: string;
+    expiresAt?: string;
+    reference?: string;
+    staffId?: string;
+  }
+  | {
+    action: 'sale';
+    branchId?: string;
+    staffId?: string;
+    saleItems: InventoryLineInput[];
+  }
+  | {
+    action: 'return';
+    branchId?: string;
+    staffId?: string;
+    reference?: string;
+    returnItems: InventoryLineInput[];
+  }
+  | {
+    action: 'discard';
+    batchId: string;
+    staffId?: string;
+  }
+  | {
+    action: 'status';
+  };
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const parsed = Number(value);
+  if (Number.isFinite(parsed)) {
+    return parsed;
+  }
+  return fallback;
+};
+
+export const normalizeBranch = (branchId?: string | null) => branchId?.trim() || DEFAULT_BRANCH_ID;
+
+export const fetchInventoryStatus = async (branchId?: string | null) => {
+  const expiryCutoff = new Date(Date.now() + EXPIRY_ALERT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  let stockQuery = supabaseAdmin.from(STOCK_TABLE).select('id,itemId,branchId,quantity');
+  let batchesQuery = supabaseAdmin
+    .from(BATCHES_TABLE)
+    .select('id,"itemId","branchId",quantity,"expiresAt",reference')
+    .gt('quantity', 0)
+    .is('discardedAt', null)
+    .lte('expiresAt', expiryCutoff)
+    .order('expiresAt', { ascending: true });
+  if (branchId) {
+    stockQuery = stockQuery.eq('branchId', branchId);
+    batchesQuery = batchesQuery.eq('branchId', branchId);
+  }
+  const [
+    { data: items, error: itemsError },
+    { data: stock, error: stockError },
+    { data: batches, error: batchesError },
+  ] = await Promise.all([
+    supabaseAdmin
+      .from(ITEMS_TABLE)
+      .select('id,name,unit,"minStock"')
+      .order('name', { ascending: true }),
+    stockQuery,
+    batchesQuery,
+  ]);
+  if (itemsError || stockError || batchesError) {
+    const message =
+      itemsError?.message || stockError?.message || batchesError?.message || 'No pudimos cargar inventario.';
+    throw new Error(message);
+  }
+  const itemMap = new Map(
+    (items ?? []).map((item) => [
+      item.id,
+      {
+        id: item.id,
+        name: item.name,
+        minStock: toNumber(item.minStock ?? 0),
+        unit: item.unit ?? 'unidad',
+        isCritical: toNumber(item.minStock ?? 0) > 0,
+      },
+    ])
+  );
+  const entries = (stock ?? []).map((row) => {
+    const item = itemMap.get(row.itemId) ?? {
+      id: row.itemId,
+      name: row.itemId,
+      minStock: 0,
+      unit: 'unidad',
+      isCritical: false,
+    };
+    const quantity = toNumber(row.quantity ?? 0);
+    const capacity = item.minStock > 0 ? quantity / item.minStock : 1;
+    return {
+      stockId: row.id,
+      itemId: row.itemId,
+      name: item.name,
+      quantity,
+      minStock: item.minStock,
+      unit: item.unit,
+      branchId: row.branchId,
+      isCritical: item.isCritical,
+      percentAvailable: Math.min(1, capacity),
+    };
+  });
+  const lowStock = entries.filter((entry) => entry.isCritical && entry.percentAvailable <= 0.2);
+  const zeroStock = entries.filter((entry) => entry.quantity <= 0);
+  const now = Date.now();
+  const expiring = (batches ?? []).map((batch) => {
+    const item = itemMap.get(batch.itemId);
+    return {
+      batchId: String(batch.id),
+      itemId: String(batch.itemId),
+      name: item?.name ?? String(batch.itemId),
+      unit: item?.unit ?? 'unidad',
+      branchId: String(batch.branchId),
+      quantity: toNumber(batch.quantity ?? 0),
+      expiresAt: String(batch.expiresAt),
+      reference: batch.reference ?? null,
+      isExpired: new Date(batch.expiresAt).getTime() <= now,
+    };
+  });
+  return { entries, lowStock, zeroStock, expiring };
+};
+
+export const getItem = async (itemId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from(ITEMS_TABLE)
+    .select('id,name,unit,"minStock"')
+    .eq('id', itemId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) {
+    throw new Error('Insumo no encontrado.');
+  }
+  return {
+    id: data.id,
+    name: data.name,
+    minStock: toNumber(data.minStock ?? 0),
+    unit: data.unit ?? 'unidad',
+    isCritical: toNumber(data.minStock ?? 0) > 0,
+  };
+};
+
+export const upsertStock = async (itemId: string, branchId: string, nextQuantity: number) => {
+  const existing = await supabaseAdmin
+    .from(STOCK_TABLE)
+    .select('id,quantity')
+    .eq('itemId', itemId)
+    .eq('branchId', branchId)
+    .maybeSingle();
+  if (existing.error && existing.error.code !== 'PGRST116') {
+    throw new Error(existing.error.message);
+  }
+  if (existing.data?.id) {
+    await supabaseAdmin
+      .from(STOCK_TABLE)
+      .update({
+        quantity: nextQuantity,
+        lastUpdatedAt: new Date().toISOString(),
+      })
+      .eq('id', existing.data.id);
+    return existing.data.id as string;
+  }
+  const { data, error } = await supabaseAdmin
+    .from(STOCK_TABLE)
+    .insert({
+      itemId,
+      branchId,
+      quantity: nextQuantity,
+      lastUpdatedAt: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error) {
+    throw new Error(error.message);
+  }
+  return data.id as string;
+};
+
+export const logMovement = async (
+  itemId: string,
+  branchId: string,
+  quantity: number,
+  type: 'in' | 'out' | 'adjustment',
+  reason: string,
+  staffId?: string | null,
+  transferId?: string | null
+) => {
+  await supabaseAdmin.from(MOVEMENTS_TABLE).insert({
+    itemId,
+    branchId,
+    type,
+    quantity,
+    reason,
+    createdByStaffId: staffId ?? null,
+    ...(transferId ? { transferId } : {}),
+  });
+};
+
+export const receiveBatches = async (
+  itemId: string,
+  branchId: string,
+  quantity: number,
+  expiresAt?: string,
+  reference?: string,
+  unitCost?: number | null
+) => {
+  await supabaseAdmin.from(BATCHES_TABLE).insert({
+    itemId,
+    branchId,
+    quantity,
+    unitCost: typeof unitCost === 'number' && Number.isFinite(unitCost) ? unitCost : null,
+    expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+    reference: reference?.trim() || null,
+    receivedAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * Descuenta `amount` de los lotes vivos del insumo en orden PCPS: primero los que
+ * caducan antes, luego los que no tienen caducidad, por fecha de llegada. Los lotes
+ * descartados no participan. Devuelve lo que no alcanzó a cubrirse y las porciones
+ * tomadas de cada lote, para que un traspaso conserve caducidad y costo.
+ */
+const deductBatches = async (itemId: string, branchId: string, amount: number) => {
+  const { data: batches, error } = await supabaseAdmin
+    .from(BATCHES_TABLE)
+    .select('id,quantity,"expiresAt","receivedAt","unitCost",reference')
+    .eq('itemId', itemId)
+    .eq('branchId', branchId)
+    .gt('quantity', 0)
+    .is('discardedAt', null)
+    .order('expiresAt', { ascending: true, nullsFirst: false })
+    .order('receivedAt', { ascending: true })
+    .order('createdAt', { ascending: true });
+  if (error) {
+    throw new Error(error.message);
+  }
+  let remaining = amount;
+  const updates: Array<{ id: string; quantity: number }> = [];
+  const portions: Array<{
+    quantity: number;
+    expiresAt: string | null;
+    unitCost: number | null;
+    reference: string | null;
+  }> = [];
+  (batches ?? []).forEach((batch) => {
+    if (remaining <= 0) {
+      return;
+    }
+    const available = toNumber(batch.quantity ?? 0);
+    if (available <= 0) {
+      return;
+    }
+    const deduction = Math.min(available, remaining);
+    remaining -= deduction;
+    updates.push({ id: String(batch.id), quantity: available - deduction });
+    portions.push({
+      quantity: deduction,
+      expiresAt: batch.expiresAt ?? null,
+      unitCost: batch.unitCost === null || batch.unitCost === undefined ? null : toNumber(batch.unitCost),
+      reference: batch.reference ?? null,
+    });
+  });
+  return {
+    remaining,
+    portions,
+    apply: () =>
+      Promise.all(
+        updates.map((entry) =>
+          supabaseAdmin
+            .from(BATCHES_TABLE)
+            .update({ quantity: entry.quantity, updatedAt: new Date().toISOString() })
+            .eq('id', entry.id)
+        )
+      ),
+  };
+};
+
+export const consumeBatches = async (
+  itemId: string,
+  branchId: string,
+  amount: number,
+  metadata?: { orderReference?: string; staffId?: string }
+) => {
+  const deduction = await deductBatches(itemId, branchId, amount);
+  if (deduction.remaining > 0) {
+    throw new Error('Stock insuficiente para cubrir la receta.');
+  }
+  await deduction.apply();
+  await logMovement(itemId, branchId, amount * -1, 'out', metadata?.orderReference ?? 'Venta POS', metadata?.staffId);
+};
+
+/**
+ * Ajuste por conteo físico: mueve la existencia por `delta` (positivo o
+ * negativo), registra el movimiento `adjustment` y lleva la diferencia a los
+ * lotes. Los faltantes se descuentan de los lotes que caducan primero; los
+ * sobrantes entran como un lote nuevo con el costo del conteo.
+ */
+export const applyStockAdjustment = async (payload: {
+  itemId: string;
+  branchId: string;
+  delta: number;
+  reason: string;
+  unitCost?: number | null;
+  staffId?: string | null;
+}) => {
+  if (!payload.delta) {
+    return 0;
+  }
+  const existingStock = await supabaseAdmin
+    .from(STOCK_TABLE)
+    .select('quantity')
+    .eq('itemId', payload.itemId)
+    .eq('branchId', payload.branchId)
+    .maybeSingle();
+  if (existingStock.error && existingStock.error.code !== 'PGRST116') {
+    throw new Error(existingStock.error.message);
+  }
+  const currentQuantity = toNumber(existingStock.data?.quantity ?? 0);
+  const nextQuantity = Math.max(0, currentQuantity + payload.delta);
+  await upsertStock(payload.itemId, payload.branchId, nextQuantity);
+  await logMovement(
+    payload.itemId,
+    payload.branchId,
+    payload.delta,
+    'adjustment',
+    payload.reason,
+    payload.staffId
+  );
+
+  if (payload.delta > 0) {
+    await receiveBatches(
+      payload.itemId,
+      payload.branchId,
+      payload.delta,
+      undefined,
+      payload.reason,
+      payload.unitCost ?? null
+    );
+    return nextQuantity;
+  }
+
+  const deduction = await deductBatches(payload.itemId, payload.branchId, Math.abs(payload.delta));
+  await deduction.apply();
+  return nextQuantity;
+};
+
+export type ProductRecipeRow = {
+  productId: string;
+  sizeId?: string | null;
+  inventoryItemId: string;
+  quantityUsed: number;
+  recipeYield?: number | null;
+  isCritical?: boolean | null;
+};
+
+export const fetchRecipes = async (productIds: string[]) => {
+  if (!productIds.length) {
+    return [];
+  }
+  const { data, error } = await supabaseAdmin
+    .from(RECIPES_TABLE)
+    .select('"productId","sizeId","inventoryItemId","quantityUsed","yield","isCritical"')
+    .in('productId', productIds);
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data ?? []).map((row) => ({
+    productId: row.productId,
+    sizeId: (row as { sizeId?: string | null }).sizeId ?? null,
+    inventoryItemId: row.inventoryItemId,
+    quantityUsed: toNumber(
+      (row.quantityUsed as number | string | null) ?? (row as { quantity?: number }).quantity ?? 0
+    ),
+    recipeYield: toNumber((row as { yield?: number | string | null }).yield ?? 1, 1) || 1,
+    isCritical: (row as { isCritical?: boolean }).isCritical ?? true,
+  })) as ProductRecipeRow[];
+};
+
+/**
+ * Una receta por tamaño sustituye a la receta general del producto; si el
+ * tamaño no tiene líneas propias se usa la general (sin `sizeId`).
+ */
+export const selectRecipeForSize = (recipe: ProductRecipeRow[], sizeId?: string | null) => {
+  if (sizeId) {
+    const sized = recipe.filter((entry) => entry.sizeId === sizeId);
+    if (sized.length) {
+      return sized;
+    }
+  }
+  return recipe.filter((entry) => !entry.sizeId);
+};
+
+/** Cantidad del insumo por pieza vendida, en la unidad del insumo. */
+export const resolveRecipeQuantity = (entry: ProductRecipeRow) =>
+  toNumber(entry.quantityUsed ?? 0) / Math.max(toNumber(entry.recipeYield ?? 1, 1), Number.EPSILON);
+
+export const updateProductFlags = async (
+  productIds: string[],
+  isLowStock: boolean,
+  isActive: boolean
+) => {
+  if (!productIds.length) {
+    return;
+  }
+  const { data: dbProducts, error } = await supabaseAdmin
+    .from(PRODUCTS_TABLE)
+    .select('id,"productId"')
+    .in('productId', productIds);
+  if (error) {
+    throw new Error(error.message);
+  }
+  const ids = (dbProducts ?? []).map((product) => product.id).filter(Boolean) as string[];
+  if (!ids.length) {
+    return;
+  }
+  await supabaseAdmin
+    .from(PRODUCTS_TABLE)
+    .update({
+      is_low_stock: isLowStock,
+      isLowStock,
+      isActive,
+      updatedAt: new Date().toISOString(),
+    })
+    .in('id', ids);
+};
+
+type RecipeRequirement = { amount: number; products: Set<string>; isCritical: boolean };
+
+/**
+ * Ajusta la receta base con los modificadores de la línea: una opción con
+ * `replacesInventoryItemId` sustituye ese insumo (leche de avena en lugar de
+ * entera) y una opción sin reemplazo suma su insumo (shot extra).
+ */
+const applyModifiersToRecipe = (
+  productId: string,
+  recipe: ProductRecipeRow[],
+  modifiers: InventoryModifierInput[]
+): ProductRecipeRow[] => {
+  const linked = modifiers.filter((modifier) => modifier.inventoryItemId);
+  if (!linked.length) {
+    return recipe;
+  }
+  const adjusted = recipe.map((entry) => {
+    const replacement = linked.find(
+      (modifier) => modifier.replacesInventoryItemId === entry.inventoryItemId
+    );
+    if (!replacement?.inventoryItemId) {
+      return entry;
+    }
+    return {
+      ...entry,
+      inventoryItemId: replacement.inventoryItemId,
+      quantityUsed: replacement.inventoryQuantity ?? resolveRecipeQuantity(entry),
+      recipeYield: 1,
+    };
+  });
+  linked
+    .filter((modifier) => !modifier.replacesInventoryItemId && (modifier.inventoryQuantity ?? 0) > 0)
+    .forEach((modifier) => {
+      adjusted.push({
+        productId,
+        inventoryItemId: modifier.inventoryItemId as string,
+        quantityUsed: modifier.inventoryQuantity ?? 0,
+        recipeYield: 1,
+        isCritical: false,
+      });
+    });
+  return adjusted;
+};
+
+const buildRecipeRequirements = async (lines: InventoryLineInput[]) => {
+  const productIds = lines.map((item) => item.productId);
+  const recipes = await fetchRecipes(productIds);
+  const recipesByProduct = new Map<string, ProductRecipeRow[]>();
+  recipes.forEach((recipe) => {
+    const list = recipesByProduct.get(recipe.productId) ?? [];
+    list.push(recipe);
+    recipesByProduct.set(recipe.productId, list);
+  });
+  const requiredByItem = new Map<string, RecipeRequirement>();
+  for (const saleItem of lines) {
+    const recipe = applyModifiersToRecipe(
+      saleItem.productId,
+      selectRecipeForSize(recipesByProduct.get(saleItem.productId) ?? [], saleItem.sizeId),
+      saleItem.modifiers ?? []
+    );
+    recipe.forEach((entry) => {
+      const totalUnits = saleItem.quantity * resolveRecipeQuantity(entry);
+      if (totalUnits <= 0) {
+        return;
+      }
+      const bucket = requiredByItem.get(entry.inventoryItemId) ?? {
+        amount: 0,
+        products: new Set<string>(),
+        isCritical: Boolean(entry.isCritical ?? true),
+      };
+      bucket.amount += totalUnits;
+      bucket.products.add(saleItem.productId);
+      bucket.isCritical = bucket.isCritical || Boolean(entry.isCritical ?? true);
+      requiredByItem.set(entry.inventoryItemId, bucket);
+    });
+  }
+  return requiredByItem;
+};
+
+export const handleIngress = async (payload: Extract<SmartInventoryRequest, { action: 'ingress' }>) => {
+  if (!payload.itemId || !Number.isFinite(payload.quantity) || !Number.isFinite(payload.unitSize)) {
+    throw new Error('Necesitamos insumo, cantidad y unidad base.');
+  }
+  const branchId = normalizeBranch(payload.branchId);
+  const baseQuantity = payload.quantity * payload.unitSize;
+  if (baseQuantity <= 0) {
+    throw new Error('La cantidad convertida debe ser mayor a 0.');
+  }
+  const item = await getItem(payload.itemId);
+  const existingStock = await supabaseAdmin
+    .from(STOCK_TABLE)
+    .select('quantity')
+    .eq('itemId', payload.itemId)
+    .eq('branchId', branchId)
+    .maybeSingle();
+  if (existingStock.error && existingStock.error.code !== 'PGRST116') {
+    throw new Error(existingStock.error.message);
+  }
+  const currentQuantity = toNumber(existingStock.data?.quantity ?? 0);
+  const nextQuantity = currentQuantity + baseQuantity;
+  await upsertStock(payload.itemId, branchId, nextQuantity);
+  await logMovement(
+    payload.itemId,
+    branchId,
+    baseQuantity,
+    'in',
+    payload.reference ? `Ingreso ${payload.reference}` : 'Ingreso manual',
+    payload.staffId
+  );
+  // El costo llega por pieza comprada; el lote lo guarda por unidad base (g, ml).
+  const unitCost =
+    typeof payload.unitCost === 'number' && payload.unitCost >= 0
+      ? payload.unitCost / payload.unitSize
+      : null;
+  await receiveBatches(
+    payload.itemId,
+    branchId,
+    baseQuantity,
+    payload.expiresAt,
+    payload.reference,
+    unitCost
+  );
+  return {
+    item,
+    branchId,
+    received: baseQuantity,
+  };
+};
+
+export const handleSale = async (payload: Extract<SmartInventoryRequest, { action: 'sale' }>) => {
+  if (!payload.saleItems?.length) {
+    throw new Error('Necesitamos al menos un producto vendido.');
+  }
+  const branchId = normalizeBranch(payload.branchId);
+  const requiredByItem = await buildRecipeRequirements(payload.saleItems);
+  if (!requiredByItem.size) {
+    throw new Error('Las recetas de los productos no están definidas.');
+  }
+  const adjustments: Array<Promise<void>> = [];
+  for (const [itemId, bucket] of requiredByItem.entries()) {
+    adjustments.push(
+      (async () => {
+        const itemInfo = await getItem(itemId);
+        const stockRow = await supabaseAdmin
+          .from(STOCK_TABLE)
+          .select('quantity')
+          .eq('itemId', itemId)
+          .eq('branchId', branchId)
+          .maybeSingle();
+        if (stockRow.error && stockRow.error.code !== 'PGRST116') {
+          throw new Error(stockRow.error.message);
+        }
+        const currentQuantity = toNumber(stockRow.data?.quantity ?? 0);
+        if (currentQuantity < bucket.amount) {
+          throw new Error(`Stock insuficiente para ${itemId}.`);
+        }
+        const nextQuantity = Math.max(0, currentQuantity - bucket.amount);
+        await consumeBatches(itemId, branchId, bucket.amount, {
+          orderReference: `Venta · ${Array.from(bucket.products).join(',')}`,
+          staffId: payload.staffId,
+        });
+        await upsertStock(itemId, branchId, nextQuantity);
+        const criticalFlag = bucket.isCritical || itemInfo.isCritical;
+        const isLowStock =
+          criticalFlag && itemInfo.minStock > 0
+            ? nextQuantity / itemInfo.minStock <= 0.2
+            : criticalFlag && nextQuantity <= 0;
+        const shouldDeactivate = nextQuantity <= 0;
+        await updateProductFlags(
+          Array.from(bucket.products),
+          Boolean(isLowStock),
+          !shouldDeactivate
+        );
+      })()
+    );
+  }
+  await Promise.all(adjustments);
+  return { branchId };
+};
+
+export const handleReturn = async (payload: Extract<SmartInventoryRequest, { action: 'return' }>) => {
+  if (!payload.returnItems?.length) {
+    throw new Error('Necesitamos al menos un producto devuelto.');
+  }
+  const branchId = normalizeBranch(payload.branchId);
+  const requiredByItem = await buildRecipeRequirements(payload.returnItems);
+  const reference = payload.reference?.trim() || null;
+  const returned: Array<{ itemId: string; quantity: number }> = [];
+  for (const [itemId, bucket] of requiredByItem.entries()) {
+    const itemInfo = await getItem(itemId);
+    const stockRow = await supabaseAdmin
+      .from(STOCK_TABLE)
+      .select('quantity')
+      .eq('itemId', itemId)
+      .eq('branchId', branchId)
+      .maybeSingle();
+    if (stockRow.error && stockRow.error.code !== 'PGRST116') {
+      throw new Error(stockRow.error.message);
+    }
+    const nextQuantity = toNumber(stockRow.data?.quantity ?? 0) + bucket.amount;
+    await upsertStock(itemId, branchId, nextQuantity);
+    await logMovement(
+      itemId,
+      branchId,
+      bucket.amount,
+      'in',
+      reference ? `Devolución ${reference}` : `Devolución · ${Array.from(bucket.products).join(',')}`,
+      payload.staffId
+    );
+    await receiveBatches(itemId, branchId, bucket.amount, undefined, reference ?? undefined);
+    const isLowStock =
+      itemInfo.minStock > 0 ? nextQuantity / itemInfo.minStock <= 0.2 : nextQuantity <= 0;
+    await updateProductFlags(Array.from(bucket.products), isLowStock, nextQuantity > 0);
+    returned.push({ itemId, quantity: bucket.amount });
+  }
+  return { branchId, returned };
+};
+
+/**
+ * Traspasa existencia entre sucursales: sale del origen por PCPS y entra al destino
+ * con la caducidad y el costo de cada lote, dejando dos movimientos ligados.
+ */
+export const transferStock = async (payload: {
+  itemId: string;
+  fromBranchId: string;
+  toBranchId: string;
+  quantity: number;
+  notes?: string | null;
+  staffId?: string | null;
+}) => {
+  const fromBranchId = normalizeBranch(payload.fromBranchId);
+  const toBranchId = normalizeBranch(payload.toBranchId);
+  if (fromBranchId === toBranchId) {
+    throw new Error('El origen y el destino deben ser sucursales distintas.');
+  }
+  if (!Number.isFinite(payload.quantity) || payload.quantity <= 0) {
+    throw new Error('La cantidad a traspasar debe ser mayor a 0.');
+  }
+  const item = await getItem(payload.itemId);
+  const { data: stockRows, error: stockError } = await supabaseAdmin
+    .from(STOCK_TABLE)
+    .select('"branchId",quantity')
+    .eq('itemId', item.id)
+    .in('branchId', [fromBranchId, toBranchId]);
+  if (stockError) {
+    throw new Error(stockError.message);
+  }
+  const stockByBranch = new Map(
+    (stockRows ?? []).map((row) => [String(row.branchId), toNumber(row.quantity ?? 0)])
+  );
+  const available = stockByBranch.get(fromBranchId) ?? 0;
+  if (available < payload.quantity) {
+    throw new Error(`Stock insuficiente de ${item.name} en ${fromBranchId}.`);
+  }
+
+  const transferId = randomUUID();
+  const createdAt = new Date().toISOString();
+  const folio = `TR-${createdAt.slice(0, 10).replace(/-/g, '')}-${transferId.slice(0, 4).toUpperCase()}`;
+  const { error: transferError } = await supabaseAdmin.from(TRANSFERS_TABLE).insert({
+    id: transferId,
+    folio,
+    itemId: item.id,
+    fromBranchId,
+    toBranchId,
+    quantity: payload.quantity,
+    notes: payload.notes?.trim() || null,
+    createdByStaffId: payload.staffId ?? null,
+    createdAt,
+  });
+  if (transferError) {
+    throw new Error(transferError.message);
+  }
+
+  const deduction = await deductBatches(item.id, fromBranchId, payload.quantity);
+  await deduction.apply();
+  await upsertStock(item.id, fromBranchId, available - payload.quantity);
+  await upsertStock(item.id, toBranchId, (stockByBranch.get(toBranchId) ?? 0) + payload.quantity);
+  await logMovement(
+    item.id,
+    fromBranchId,
+    payload.quantity * -1,
+    'out',
+    `Traspaso ${folio} a ${toBranchId}`,
+    payload.staffId,
+    transferId
+  );
+  await logMovement(
+    item.id,
+    toBranchId,
+    payload.quantity,
+    'in',
+    `Traspaso ${folio} de ${fromBranchId}`,
+    payload.staffId,
+    transferId
+  );
+
+  // Si los lotes del origen no cubrían todo, el faltante llega como lote sin caducidad.
+  const portions =
+    deduction.remaining > 0
+      ? [
+          ...deduction.portions,
+          { quantity: deduction.remaining, expiresAt: null, unitCost: null, reference: null },
+        ]
+      : deduction.portions;
+  for (const portion of portions) {
+    await receiveBatches(
+      item.id,
+      toBranchId,
+      portion.quantity,
+      portion.expiresAt ?? undefined,
+      portion.reference ?? folio,
+      portion.unitCost
+    );
+  }
+
+  return {
+    id: transferId,
+    folio,
+    itemId: item.id,
+    name: item.name,
+    unit: item.unit,
+    fromBranchId,
+    toBranchId,
+    quantity: payload.quantity,
+    notes: payload.notes?.trim() || null,
+    createdAt,
+  };
+};
+
+// Los residuos se reportan en kg; solo convertimos insumos medidos en masa o volumen.
+const toWasteKg = (unit: string, quantity: number) => {
+  const normalized = unit.trim().toLowerCase();
+  if (normalized === 'g' || normalized === 'ml') {
+    return quantity / 1000;
+  }
+  if (normalized === 'kg' || normalized === 'l') {
+    return quantity;
+  }
+  return 0;
+};
+
+/**
+ * Descarta completo un lote caducado: lo marca, descuenta la existencia, registra
+ * la salida y deja el residuo en la bitácora para el reporte COFEPRIS. Con
+ * `scopeBranchId` solo se encuentran los lotes de esa sucursal.
+ */
+export const handleDiscard = async (
+  payload: Extract<SmartInventoryRequest, { action: 'discard' }>,
+  scopeBranchId?: string | null
+) => {
+  if (!payload.batchId) {
+    throw new Error('Necesitamos el lote a descartar.');
+  }
+  const { data: batch, error } = await supabaseAdmin
+    .from(BATCHES_TABLE)
+    .select('id,"itemId","branchId",quantity,"expiresAt",reference,"discardedAt"')
+    .eq('id', payload.batchId)
+    .match(scopeBranchId ? { branchId: scopeBranchId } : {})
+    .maybeSingle();
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!batch) {
+    throw new Error('Lote no encontrado.');
+  }
+  if (!batch.expiresAt || new Date(batch.expiresAt).getTime() > Date.now()) {
+    throw new Error('Solo puedes descartar lotes caducados.');
+  }
+  const quantity = toNumber(batch.quantity ?? 0);
+  const discardedAt = new Date().toISOString();
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from(BATCHES_TABLE)
+    .update({
+      quantity: 0,
+      discardedAt,
+      discardedQuantity: quantity,
+      discardedByStaffId: payload.staffId ?? null,
+      updatedAt: discardedAt,
+    })
+    .eq('id', batch.id)
+    .is('discardedAt', null)
+    .select('id');
+  if (claimError) {
+    throw new Error(claimError.message);
+  }
+  if (!claimed?.length) {
+    throw new Error('El lote ya fue descartado.');
+  }
+
+  const item = await getItem(batch.itemId);
+  const stockRow = await supabaseAdmin
+    .from(STOCK_TABLE)
+    .select('quantity')
+    .eq('itemId', batch.itemId)
+    .eq('branchId', batch.branchId)
+    .maybeSingle();
+  if (stockRow.error && stockRow.error.code !== 'PGRST116') {
+    throw new Error(stockRow.error.message);
+  }
+  const nextQuantity = Math.max(0, toNumber(stockRow.data?.quantity ?? 0) - quantity);
+  await upsertStock(batch.itemId, batch.branchId, nextQuantity);
+  const reason = batch.reference ? `Caducidad lote ${batch.reference}` : 'Caducidad de lote';
+  await logMovement(batch.itemId, batch.branchId, quantity * -1, 'out', reason, payload.staffId);
+
+  const wasteKg = toWasteKg(item.unit, quantity);
+  const isBeverage = ['ml', 'l'].includes(item.unit.trim().toLowerCase());
+  const { error: wasteError } = await supabaseAdmin.from(WASTE_TABLE).insert({
+    organicBeveragesKg: isBeverage ? wasteKg : 0,
+    organicFoodsKg: isBeverage ? 0 : wasteKg,
+    inorganicKg: 0,
+    branchId: batch.branchId,
+    staffId: payload.staffId ?? null,
+    batchId: batch.id,
+    itemId: batch.itemId,
+    createdAt: discardedAt,
+  });
+  if (wasteError) {
+    console.warn('No pudimos registrar el residuo del lote descartado:', wasteError.message);
+  }
+  return { batchId: String(batch.id), itemId: item.id, branchId: batch.branchId, discarded: quantity };
+};
+
+export const resolveRequest = async (payload: SmartInventoryRequest, scopeBranchId?: string | null) => {
+  if (payload.action === 'ingress') {
+    const result = await handleIngress(payload);
+    const status = await fetchInventoryStatus(scopeBranchId);
+    return { status, result };
+  }
+  if (payload.action === 'sale') {
+    const result = await handleSale(payload);
+    const status = await fetchInventoryStatus(scopeBranchId);
+    return { status, result };
+  }
+  if (payload.action === 'return') {
+    const result = await handleReturn(payload);
+    const status = await fetchInventoryStatus(scopeBranchId);
+    return { status, result };
+  }
+  if (payload.action === 'discard') {
+    const result = await handleDiscard(payload, scopeBranchId);
+    const status = await fetchInventoryStatus(scopeBranchId);
+    return { status, result };
+  }
+  const status = await fetchInventoryStatus(scopeBranchId);
+  return { status, result: null };
+};
@@ -149,17 +149,19 @@ const deriveOrderStatus = (order: Order, now: Date) => {
   return 'pending';
 };
 
+// Una reserva pendiente que pasa su corte es una inasistencia; el servidor la
+// archiva en `reservation_failures` en su siguiente barrido.
 const deriveReservationStatus = (reservation: Reservation, now: Date) => {
   const status = (reservation.status ?? 'pending').toLowerCase();
-  if (status === 'completed') {
-    return 'completed';
+  if (status === 'completed' || status === 'no_show') {
+    return status;
   }
   if (status === 'cancelled') {
     return 'past';
   }
   const cutoff = getReservationCutoff(reservation);
   if (cutoff && now > cutoff) {
-    return 'past';
+    return 'no_show';
   }
   return 'pending';
 };
@@ -181,12 +183,14 @@ const shouldHidePastOrder = (order: Order, now: Date) =>
 const shouldPurgePastOrder = (order: Order, now: Date) =>
   order.status === 'past' && isOlderThan(order.updatedAt ?? order.createdAt, PAST_PURGE_MS, now);
 
+const CLOSED_RESERVATION_STATUSES = new Set(['past', 'cancelled', 'no_show']);
+
 const shouldHidePastReservation = (reservation: Reservation, now: Date) =>
-  (reservation.status === 'past' || reservation.status === 'cancelled') &&
+  CLOSED_RESERVATION_STATUSES.has(reservation.status ?? '') &&
   isOlderThan(reservation.updatedAt ?? reservation.createdAt, PAST_HIDE_MS, now);
 
 const shouldPurgePastReservation = (reservation: Reservation, now: Date) =>
-  (reservation.status === 'past' || reservation.status === 'cancelled') &&
+  CLOSED_RESERVATION_STATUSES.has(reservation.status ?? '') &&
   isOlderThan(reservation.updatedAt ?? reservation.createdAt, PAST_PURGE_MS, now);
 
 const annotateHiddenFlag = <T extends { isHidden?: boolean }>(record: T, hidden: boolean): T => {
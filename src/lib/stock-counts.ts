@@ -0,0 +1,301 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+import { randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { roundCurrency } from '@/lib/order-pricing';
+import { fetchInventoryUnitCosts } from '@/lib/product-recipes';
+import { applyStockAdjustment, normalizeBranch } from '@/lib/smart-inventory';
+import type { StockCount, StockCountLine, StockCountStatus, StockCountSummary } from '@/lib/api';
+
+export const STOCK_COUNTS_TABLE = process.env.SUPABASE_STOCK_COUNTS_TABLE ?? 'stock_counts';
+export const STOCK_COUNT_LINES_TABLE =
+  process.env.SUPABASE_STOCK_COUNT_LINES_TABLE ?? 'stock_count_lines';
+const ITEMS_TABLE = process.env.SUPABASE_INVENTORY_ITEMS ?? 'inventory_items';
+const STOCK_TABLE = process.env.SUPABASE_INVENTORY_STOCK ?? 'inventory_stock';
+
+const COUNT_HISTORY_LIMIT = 30;
+
+const toNumber = (value: unknown, fallback = 0) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const toOptionalNumber = (value: unknown) =>
+  value === null || value === undefined ? null : toNumber(value, NaN);
+
+export const normalizeStockCountRow = (row: Record<string, unknown>): StockCountSummary => ({
+  id: String(row.id),
+  folio: String(row.folio ?? ''),
+  branchId: String(row.branchId ?? ''),
+  status: (row.status as StockCountStatus) ?? 'open',
+  notes: typeof row.notes === 'string' && row.notes ? row.notes : null,
+  varianceValue: toOptionalNumber(row.varianceValue),
+  createdAt: String(row.createdAt ?? ''),
+  postedAt: typeof row.postedAt === 'string' ? row.postedAt : null,
+});
+
+export const loadStockCountOverview = async () => {
+  const [countsResult, itemsResult] = await Promise.all([
+    supabaseAdmin
+      .from(STOCK_COUNTS_TABLE)
+      .select('*')
+      .order('createdAt', { ascending: false })
+      .limit(COUNT_HISTORY_LIMIT),
+    supabaseAdmin
+      .from(ITEMS_TABLE)
+      .select('id,name,unit,"categoryId"')
+      .eq('isActive', true)
+      .order('name', { ascending: true }),
+  ]);
+  const failure = countsResult.error ?? itemsResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+  return {
+    counts: ((countsResult.data ?? []) as Record<string, unknown>[]).map(normalizeStockCountRow),
+    items: (itemsResult.data ?? []).map((row) => ({
+      id: String(row.id),
+      name: String(row.name ?? row.id),
+      unit: String(row.unit ?? 'unidad'),
+      categoryId: typeof row.categoryId === 'string' ? row.categoryId : null,
+    })),
+  };
+};
+
+export const loadStockCount = async (countId: string): Promise<StockCount | null> => {
+  const [countResult, linesResult] = await Promise.all([
+    supabaseAdmin.from(STOCK_COUNTS_TABLE).select('*').eq('id', countId).maybeSingle(),
+    supabaseAdmin.from(STOCK_COUNT_LINES_TABLE).select('*').eq('countId', countId),
+  ]);
+  const failure = countResult.error ?? linesResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+  if (!countResult.data) {
+    return null;
+  }
+  const rows = (linesResult.data ?? []) as Record<string, unknown>[];
+  const itemIds = rows.map((row) => String(row.itemId));
+  const { data: items, error: itemsError } = itemIds.length
+    ? await supabaseAdmin.from(ITEMS_TABLE).select('id,name,unit,barcode').in('id', itemIds)
+    : { data: [], error: null };
+  if (itemsError) {
+    throw new Error(itemsError.message);
+  }
+  const itemMap = new Map((items ?? []).map((item) => [String(item.id), item]));
+
+  const lines = rows
+    .map((row): StockCountLine => {
+      const item = itemMap.get(String(row.itemId));
+      const expectedQuantity = toNumber(row.expectedQuantity);
+      const countedQuantity = toOptionalNumber(row.countedQuantity);
+      const unitCost = toOptionalNumber(row.unitCost);
+      const varianceQuantity =
+        countedQuantity === null ? null : Number((countedQuantity - expectedQuantity).toFixed(3));
+      return {
+        id: String(row.id),
+        itemId: String(row.itemId),
+        name: String(item?.name ?? row.itemId),
+        unit: String(item?.unit ?? 'unidad'),
+        barcode: typeof item?.barcode === 'string' && item.barcode ? item.barcode : null,
+        expectedQuantity,
+        countedQuantity,
+        unitCost,
+        varianceQuantity,
+        varianceValue:
+          varianceQuantity === null || unitCost === null ? null : roundCurrency(varianceQuantity * unitCost),
+        countedAt: typeof row.countedAt === 'string' ? row.countedAt : null,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const shortageValue = lines.reduce(
+    (sum, line) => sum + (line.varianceValue !== null && line.varianceValue < 0 ? line.varianceValue : 0),
+    0
+  );
+  const surplusValue = lines.reduce(
+    (sum, line) => sum + (line.varianceValue !== null && line.varianceValue > 0 ? line.varianceValue : 0),
+    0
+  );
+  return {
+    ...normalizeStockCountRow(countResult.data as Record<string, unknown>),
+    lines,
+    totals: {
+      lines: lines.length,
+      counted: lines.filter((line) => line.countedQuantity !== null).length,
+      shortageValue: roundCurrency(shortageValue),
+      surplusValue: roundCurrency(surplusValue),
+      varianceValue: roundCurrency(shortageValue + surplusValue),
+    },
+  };
+};
+
+/**
+ * Abre un conteo congelando la existencia esperada y el costo unitario de cada
+ * insumo en la sucursal. Sin `itemIds` se cuentan todos los insumos activos.
+ */
+export const openStockCount = async (input: {
+  branchId?: string | null;
+  itemIds?: string[];
+  notes?: string | null;
+  staffId?: string | null;
+}) => {
+  const branchId = normalizeBranch(input.branchId);
+  let itemsQuery = supabaseAdmin.from(ITEMS_TABLE).select('id,"avgCost"').eq('isActive', true);
+  if (input.itemIds?.length) {
+    itemsQuery = itemsQuery.in('id', input.itemIds);
+  }
+  const [itemsResult, stockResult] = await Promise.all([
+    itemsQuery,
+    supabaseAdmin.from(STOCK_TABLE).select('"itemId",quantity').eq('branchId', branchId),
+  ]);
+  const failure = itemsResult.error ?? stockResult.error;
+  if (failure) {
+    throw new Error(failure.message);
+  }
+  const items = (itemsResult.data ?? []) as Array<{ id: string; avgCost?: number | string | null }>;
+  if (!items.length) {
+    return null;
+  }
+  const stock = new Map((stockResult.data ?? []).map((row) => [String(row.itemId), toNumber(row.quantity)]));
+  const unitCosts = await fetchInventoryUnitCosts(items);
+
+  const countId = randomUUID();
+  const datePart = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const { error } = await supabaseAdmin.from(STOCK_COUNTS_TABLE).insert({
+    id: countId,
+    folio: `CF-${datePart}-${randomUUID().slice(0, 4).toUpperCase()}`,
+    branchId,
+    status: 'open',
+    notes: input.notes?.trim() || null,
+    createdByStaffId: input.staffId ?? null,
+  });
+  if (error) {
+    throw new Error(error.message);
+  }
+  const { error: linesError } = await supabaseAdmin.from(STOCK_COUNT_LINES_TABLE).insert(
+    items.map((item) => ({
+      id: randomUUID(),
+      countId,
+      itemId: item.id,
+      expectedQuantity: stock.get(item.id) ?? 0,
+      countedQuantity: null,
+      unitCost: unitCosts.get(item.id) ?? null,
+    }))
+  );
+  if (linesError) {
+    await supabaseAdmin.from(STOCK_COUNTS_TABLE).delete().eq('id', countId);
+    throw new Error(linesError.message);
+  }
+  return loadStockCount(countId);
+};
+
+/**
+ * Contabiliza el conteo: la diferencia contra lo esperado al abrirlo se aplica
+ * sobre la existencia actual, así las ventas ocurridas durante el conteo no se
+ * pierden. Los insumos sin cantidad capturada no se ajustan.
+ */
+export const postStockCountAdjustments = async (count: StockCount, staffId?: string | null) => {
+  const postedAt = new Date().toISOString();
+  const { data: claimed, error } = await supabaseAdmin
+    .from(STOCK_COUNTS_TABLE)
+    .update({
+      status: 'posted',
+      postedAt,
+      postedByStaffId: staffId ?? null,
+      varianceValue: count.totals.varianceValue,
+    })
+    .eq('id', count.id)
+    .eq('status', 'open')
+    .select('id');
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!claimed?.length) {
+    return false;
+  }
+  for (const line of count.lines) {
+    if (line.varianceQuantity === null || line.varianceQuantity === 0) {
+      continue;
+    }
+    await applyStockAdjustment({
+      itemId: line.itemId,
+      branchId: count.branchId,
+      delta: line.varianceQuantity,
+      reason: `Conteo ${count.folio}`,
+      unitCost: line.unitCost,
+      staffId,
+    });
+  }
+  return true;
+};
+
+const toCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '""';
+  }
+  return `"${String(value).replace(/"/g, '""')}"`;
+};
+
+export const buildStockCountCsv = (count: StockCount) => {
+  const headers = [
+    'folio',
+    'branchId',
+    'itemId',
+    'name',
+    'unit',
+    'expectedQuantity',
+    'countedQuantity',
+    'varianceQuantity',
+    'unitCost',
+    'varianceValue',
+    'countedAt',
+  ];
+  const lines = [headers.join(',')];
+  count.lines.forEach((line) => {
+    lines.push(
+      [
+        count.folio,
+        count.branchId,
+        line.itemId,
+        line.name,
+        line.unit,
+        line.expectedQuantity,
+        line.countedQuantity ?? '',
+        line.varianceQuantity ?? '',
+        line.unitCost ?? '',
+        line.varianceValue ?? '',
+        line.countedAt ?? '',
+      ]
+        .map(toCsvValue)
+        .join(',')
+    );
+  });
+  return lines.join('\n');
+};
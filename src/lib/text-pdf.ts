@@ -0,0 +1,117 @@
+/*
+ * --------------------------------------------------------------------
+ *  Xoco POS — Point of Sale System
+ *  Software Property of Xoco Café
+ *  Copyright (c) 2025 Xoco Café
+ *  Principal Developer: Donovan Riaño
+ *
+ *  Licensed under the Apache License, Version 2.0 (the "License");
+ *  you may not use this file except in compliance with the License.
+ *  You may obtain a copy of the License at:
+ *      http://www.apache.org/licenses/LICENSE-2.0
+ *
+ *  Unless required by applicable law or agreed to in writing, software
+ *  distributed under the License is distributed on an "AS IS" BASIS,
+ *  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ *  See the License for the specific language governing permissions and
+ *  limitations under the License.
+ *
+ *  --------------------------------------------------------------------
+ *  PROPIEDAD DEL SOFTWARE — XOCO CAFÉ.
+ *  Sistema Xoco POS — Punto de Venta.
+ *  Desarrollador Principal: Donovan Riaño.
+ *
+ *  Este archivo está licenciado bajo Apache License 2.0.
+ *  Consulta el archivo LICENSE en la raíz del proyecto para más detalles.
+ * --------------------------------------------------------------------
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN_LEFT = 72;
+const MARGIN_TOP = 760;
+const FONT_SIZE = 10;
+const LEADING = 14;
+/** Líneas por página con el interlineado fijo de 14 pt y márgenes de una carta. */
+const LINES_PER_PAGE = Math.floor((MARGIN_TOP - 40) / LEADING);
+
+const escapePdfText = (text: string) =>
+  text
+    .replace(/—|–/g, '-')
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const chunkLines = (lines: string[]) => {
+  const pages: string[][] = [];
+  for (let index = 0; index < lines.length; index += LINES_PER_PAGE) {
+    pages.push(lines.slice(index, index + LINES_PER_PAGE));
+  }
+  return pages.length ? pages : [[]];
+};
+
+/**
+ * Genera un PDF de texto plano (Helvetica 10 pt, tamaño carta) sin dependencias.
+ * Las líneas se reparten en tantas páginas como hagan falta; el texto se
+ * codifica en WinAnsi para conservar acentos y eñes.
+ */
+export const buildTextPdf = (lines: string[]) => {
+  const pages = chunkLines(lines);
+  const parts: string[] = [];
+  let offset = 0;
+  const offsets: number[] = [0];
+  const push = (chunk: string) => {
+    parts.push(chunk);
+    offset += Buffer.byteLength(chunk, 'latin1');
+  };
+  push('%PDF-1.4\n');
+  const register = (body: string) => {
+    const index = offsets.length;
+    offsets.push(offset);
+    push(`${index} 0 obj\n${body}\nendobj\n`);
+    return index;
+  };
+
+  const fontIndex = register(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  );
+  // Cada página ocupa dos objetos (contenido y página); el árbol de páginas va después.
+  const pagesIndex = fontIndex + pages.length * 2 + 1;
+  const pageIndexes = pages.map((pageLines) => {
+    const content = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN_LEFT} ${MARGIN_TOP} Td`,
+      ...pageLines.map((line, index) => {
+        const escaped = escapePdfText(line);
+        return index === 0 ? `(${escaped}) Tj` : `T*\n(${escaped}) Tj`;
+      }),
+      'ET',
+    ].join('\n');
+    const contentsIndex = register(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+    return register(
+      `<< /Type /Page /Parent ${pagesIndex} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${contentsIndex} 0 R /Resources << /Font << /F1 ${fontIndex} 0 R >> >> >>`
+    );
+  });
+  register(
+    `<< /Type /Pages /Kids [${pageIndexes.map((index) => `${index} 0 R`).join(' ')}] /Count ${
+      pageIndexes.length
+    } >>`
+  );
+  const catalogIndex = register(`<< /Type /Catalog /Pages ${pagesIndex} 0 R >>`);
+
+  const xrefStart = offset;
+  const totalObjects = offsets.length;
+  push(`xref\n0 ${totalObjects}\n`);
+  push('0000000000 65535 f \n');
+  for (let i = 1; i < totalObjects; i += 1) {
+    push(`${offsets[i].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${totalObjects} /Root ${catalogIndex} 0 R >>\n`);
+  push(`startxref\n${xrefStart}\n%%EOF`);
+  return Buffer.from(parts.join(''), 'latin1');
+};
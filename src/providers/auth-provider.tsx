@@ -71,6 +71,7 @@ const STORAGE_KEY = 'xoco-pos.auth.user';
 const SESSION_STORAGE_KEY = 'xoco-pos.auth.sessionStartedAt';
 const LAST_ACTIVITY_KEY = 'xoco-pos.auth.lastActivity';
 const SESSION_TIMEOUT_MS = 5 * 60 * 1000;
+const LOGOUT_ENDPOINT = '/api/auth/logout';
 
 const readStoredUser = () => {
   if (typeof window === 'undefined') {
@@ -120,6 +121,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       return;
     }
     const handleUnload = () => {
+      if (window.localStorage.getItem(STORAGE_KEY)) {
+        navigator.sendBeacon?.(LOGOUT_ENDPOINT);
+      }
       window.localStorage.removeItem(STORAGE_KEY);
       window.localStorage.removeItem(SESSION_STORAGE_KEY);
       window.localStorage.removeItem(LAST_ACTIVITY_KEY);
@@ -195,6 +199,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   );
 
   const logout = useCallback(() => {
+    void fetch(LOGOUT_ENDPOINT, { method: 'POST', keepalive: true }).catch((err) => {
+      console.warn('No pudimos cerrar la sesión en el servidor:', err);
+    });
     setState({ user: null, sessionStartedAt: null });
     persistState(null, null);
     setSessionSeconds(0);
@@ -236,12 +243,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const response = await fetch('/api/auth/change-password', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: user.id,
-          email: user.email,
-          currentPassword,
-          newPassword,
-        }),
+        body: JSON.stringify({ currentPassword, newPassword }),
       });
 
       const payload = (await response.json()) as { success: boolean; error?: string };
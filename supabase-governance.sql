@@ -975,6 +975,28 @@ BEGIN
 END$$;
 
 CREATE INDEX IF NOT EXISTS ventas_turno_id_idx ON public.ventas (turno_id);
+CREATE INDEX IF NOT EXISTS ventas_order_id_idx ON public.ventas (order_id);
+
+-- Corte ciego: conteo por denominación y resultado del arqueo.
+ALTER TABLE public.turnos
+  ADD COLUMN IF NOT EXISTS monto_fisico NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS diferencia NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS estado_corte TEXT,
+  ADD COLUMN IF NOT EXISTS conteo_denominaciones JSONB,
+  ADD COLUMN IF NOT EXISTS cerrado_por TEXT;
+
+-- Gastos y retiros de caja chica que alimentan total_gastos_efectivo.
+CREATE TABLE IF NOT EXISTS public.gastos_caja (
+  id SERIAL PRIMARY KEY,
+  turno_id INTEGER NOT NULL REFERENCES public.turnos(id) ON DELETE CASCADE,
+  tipo TEXT NOT NULL CHECK (tipo IN ('gasto','retiro')),
+  monto NUMERIC(12,2) NOT NULL CHECK (monto > 0),
+  motivo TEXT NOT NULL,
+  usuario_id TEXT,
+  fecha TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS gastos_caja_turno_idx ON public.gastos_caja (turno_id);
 
 DROP TRIGGER IF EXISTS trg_order_items_enqueue ON public.order_items;
 
@@ -2117,3 +2139,709 @@ CREATE TABLE IF NOT EXISTS public.promo_redemptions (
   context JSONB,
   "redeemedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
+
+-- Canjes desde la caja: el código queda ligado al pedido que lo usó.
+ALTER TABLE public.promo_redemptions
+  ADD COLUMN IF NOT EXISTS "orderId" TEXT REFERENCES public.orders(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS promo_redemptions_order_id_idx ON public.promo_redemptions ("orderId");
+
+-- Modificadores por producto (tipo de leche, shots, jarabes). Cada grupo es
+-- [{ id, label, selection: 'single'|'multiple', required, maxSelections,
+--    options: [{ id, label, priceDelta, inventoryItemId, inventoryQuantity,
+--                replacesInventoryItemId, isDefault }] }]
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS "modifierGroups" JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Opciones elegidas en cada línea del pedido (snapshot con precio e insumo).
+ALTER TABLE public.order_items
+  ADD COLUMN IF NOT EXISTS modifiers JSONB;
+
+-- Tamaños editables desde el POS: [{ id, label, price }].
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS available_sizes JSONB;
+
+-- Cambios de precio programados; se aplican al leer /api/catalog una vez que
+-- llega "effectiveAt". Sin "sizeId" el cambio afecta el precio base.
+CREATE TABLE IF NOT EXISTS public.product_price_changes (
+  id TEXT PRIMARY KEY,
+  "productId" TEXT NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  "sizeId" TEXT,
+  price NUMERIC(10,2) NOT NULL CHECK (price >= 0),
+  "effectiveAt" TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'applied', 'cancelled')),
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "appliedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS product_price_changes_due_idx
+  ON public.product_price_changes (status, "effectiveAt");
+
+-- Pantalla de cocina: la cola pasa por pending → in_progress → ready → completed
+-- y la sección "Entregados recientemente" filtra por "completedAt".
+CREATE INDEX IF NOT EXISTS prep_queue_completed_at_idx ON public.prep_queue ("completedAt");
+
+-- Lotes de insumos (PEPS). El costo se guarda por unidad base (g, ml, unidad)
+-- y alimenta el costo por bebida del editor de recetas.
+CREATE TABLE IF NOT EXISTS public.inventory_batches (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  "itemId" TEXT NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  "branchId" TEXT NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  quantity NUMERIC(12,3) NOT NULL DEFAULT 0,
+  "expiresAt" TIMESTAMPTZ,
+  reference TEXT,
+  "receivedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+ALTER TABLE public.inventory_batches
+  ADD COLUMN IF NOT EXISTS "unitCost" NUMERIC(12,4);
+CREATE INDEX IF NOT EXISTS inventory_batches_item_branch_idx
+  ON public.inventory_batches ("itemId", "branchId", "expiresAt");
+
+-- Recetas por tamaño: sin "sizeId" la receta aplica a todos los tamaños que no
+-- tengan una propia. "quantityUsed" va en la unidad del insumo y rinde "yield" piezas.
+ALTER TABLE public.product_recipes
+  ADD COLUMN IF NOT EXISTS "sizeId" TEXT,
+  ADD COLUMN IF NOT EXISTS "yield" NUMERIC(10,3) NOT NULL DEFAULT 1 CHECK ("yield" > 0),
+  ADD COLUMN IF NOT EXISTS "isCritical" BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW();
+CREATE UNIQUE INDEX IF NOT EXISTS product_recipes_line_uq
+  ON public.product_recipes ("productId", COALESCE("sizeId", ''), "inventoryItemId");
+
+-- Proveedores y órdenes de compra. Cada proveedor declara los insumos que surte,
+-- con la presentación ("packSize" en unidad base del insumo) y su costo por pieza.
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  "contactName" TEXT,
+  phone TEXT,
+  whatsapp TEXT,
+  email TEXT,
+  "leadTimeDays" INTEGER NOT NULL DEFAULT 1 CHECK ("leadTimeDays" >= 0),
+  notes TEXT,
+  "isActive" BOOLEAN NOT NULL DEFAULT TRUE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.supplier_items (
+  id TEXT PRIMARY KEY,
+  "supplierId" TEXT NOT NULL REFERENCES public.suppliers(id) ON DELETE CASCADE,
+  "itemId" TEXT NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  "supplierSku" TEXT,
+  "packLabel" TEXT,
+  "packSize" NUMERIC(12,3) NOT NULL DEFAULT 1 CHECK ("packSize" > 0),
+  "unitCost" NUMERIC(12,2),
+  "isPreferred" BOOLEAN NOT NULL DEFAULT FALSE,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS supplier_items_supplier_item_uq
+  ON public.supplier_items ("supplierId", "itemId");
+
+-- Flujo: draft → sent → partially_received → received (o cancelled antes de recibir).
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id TEXT PRIMARY KEY,
+  folio TEXT NOT NULL UNIQUE,
+  "supplierId" TEXT NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  "branchId" TEXT NOT NULL REFERENCES public.branches(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  notes TEXT,
+  total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  "expectedAt" TIMESTAMPTZ,
+  "sentAt" TIMESTAMPTZ,
+  "receivedAt" TIMESTAMPTZ,
+  "cancelledAt" TIMESTAMPTZ,
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS purchase_orders_status_idx
+  ON public.purchase_orders (status, "createdAt" DESC);
+
+-- "quantity" y "receivedQuantity" van en piezas del proveedor; al recibir se
+-- multiplican por "packSize" para el ingreso al inventario.
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id TEXT PRIMARY KEY,
+  "purchaseOrderId" TEXT NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  "itemId" TEXT NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity NUMERIC(12,3) NOT NULL CHECK (quantity > 0),
+  "packSize" NUMERIC(12,3) NOT NULL DEFAULT 1 CHECK ("packSize" > 0),
+  "unitCost" NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK ("unitCost" >= 0),
+  "receivedQuantity" NUMERIC(12,3) NOT NULL DEFAULT 0 CHECK ("receivedQuantity" >= 0),
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS purchase_order_items_order_idx
+  ON public.purchase_order_items ("purchaseOrderId");
+
+-- Cada recepción queda registrada con su importe; el panel de socios suma el
+-- gasto por proveedor a partir de esta tabla.
+CREATE TABLE IF NOT EXISTS public.purchase_receipts (
+  id TEXT PRIMARY KEY,
+  "purchaseOrderId" TEXT NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  "purchaseOrderItemId" TEXT NOT NULL REFERENCES public.purchase_order_items(id) ON DELETE CASCADE,
+  "supplierId" TEXT NOT NULL REFERENCES public.suppliers(id) ON DELETE RESTRICT,
+  "itemId" TEXT NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  quantity NUMERIC(12,3) NOT NULL CHECK (quantity > 0),
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  "expiresAt" TIMESTAMPTZ,
+  "receivedByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "receivedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS purchase_receipts_supplier_idx
+  ON public.purchase_receipts ("supplierId", "receivedAt");
+
+-- Motor de reabasto: tiempo de entrega y presentación por insumo. Sin valor se
+-- usa el proveedor preferido de supplier_items y, en su defecto, los valores
+-- por omisión del servidor.
+ALTER TABLE public.inventory_items
+  ADD COLUMN IF NOT EXISTS "reorderLeadTimeDays" INTEGER CHECK ("reorderLeadTimeDays" >= 0),
+  ADD COLUMN IF NOT EXISTS "reorderPackSize" NUMERIC(12,3) CHECK ("reorderPackSize" > 0);
+
+-- Listas de compra aprobadas por gerencia. "items" guarda el snapshot de cada
+-- sugerencia aprobada: [{ itemId, name, unit, branchId, packs, packSize,
+-- quantity, supplierId, supplierName, unitCost }].
+CREATE TABLE IF NOT EXISTS public.reorder_lists (
+  id TEXT PRIMARY KEY,
+  folio TEXT NOT NULL UNIQUE,
+  "branchId" TEXT REFERENCES public.branches(id) ON DELETE SET NULL,
+  notes TEXT,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "estimatedTotal" NUMERIC(12,2) NOT NULL DEFAULT 0,
+  "approvedByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "approvedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS reorder_lists_approved_idx
+  ON public.reorder_lists ("approvedAt" DESC);
+
+-- Código de barras del empaque para capturar conteos con el lector.
+ALTER TABLE public.inventory_items
+  ADD COLUMN IF NOT EXISTS barcode TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS inventory_items_barcode_uq
+  ON public.inventory_items (barcode) WHERE barcode IS NOT NULL;
+
+-- Conteos físicos: al abrirse se congela la existencia esperada por insumo; al
+-- contabilizarse la diferencia se registra como movimiento "adjustment" y se
+-- aplica a los lotes (PCPS: primero los que caducan antes).
+CREATE TABLE IF NOT EXISTS public.stock_counts (
+  id TEXT PRIMARY KEY,
+  folio TEXT NOT NULL UNIQUE,
+  "branchId" TEXT NOT NULL REFERENCES public.branches(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'posted', 'cancelled')),
+  notes TEXT,
+  "varianceValue" NUMERIC(12,2),
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "postedByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "postedAt" TIMESTAMPTZ,
+  "cancelledAt" TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS stock_counts_branch_idx
+  ON public.stock_counts ("branchId", "createdAt" DESC);
+
+CREATE TABLE IF NOT EXISTS public.stock_count_lines (
+  id TEXT PRIMARY KEY,
+  "countId" TEXT NOT NULL REFERENCES public.stock_counts(id) ON DELETE CASCADE,
+  "itemId" TEXT NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  "expectedQuantity" NUMERIC(12,3) NOT NULL DEFAULT 0,
+  "countedQuantity" NUMERIC(12,3) CHECK ("countedQuantity" >= 0),
+  "unitCost" NUMERIC(12,4),
+  "countedByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "countedAt" TIMESTAMPTZ
+);
+CREATE UNIQUE INDEX IF NOT EXISTS stock_count_lines_item_uq
+  ON public.stock_count_lines ("countId", "itemId");
+
+-- Caducidades (PCPS: primero en caducar, primero en salir). Un lote
+-- caducado se descarta completo; queda marcado aquí, genera una salida en
+-- inventory_movements y un registro en waste_logs ligado por "batchId".
+ALTER TABLE public.inventory_batches
+  ADD COLUMN IF NOT EXISTS "discardedAt" TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS "discardedQuantity" NUMERIC(12,3),
+  ADD COLUMN IF NOT EXISTS "discardedByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS inventory_batches_discarded_idx
+  ON public.inventory_batches ("discardedAt")
+  WHERE "discardedAt" IS NOT NULL;
+
+ALTER TABLE public.waste_logs
+  ADD COLUMN IF NOT EXISTS "batchId" TEXT REFERENCES public.inventory_batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "itemId" TEXT REFERENCES public.inventory_items(id) ON DELETE SET NULL;
+
+-- Operación multisucursal: cada pedido y cada tarea de preparación pertenecen a
+-- una sucursal. Los registros previos quedan en MATRIZ.
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS "branchId" TEXT REFERENCES public.branches(id) ON DELETE RESTRICT DEFAULT 'MATRIZ';
+CREATE INDEX IF NOT EXISTS orders_branch_created_idx
+  ON public.orders ("branchId", "createdAt" DESC);
+
+ALTER TABLE public.prep_queue
+  ADD COLUMN IF NOT EXISTS "branchId" TEXT REFERENCES public.branches(id) ON DELETE RESTRICT DEFAULT 'MATRIZ';
+CREATE INDEX IF NOT EXISTS prep_queue_branch_status_idx
+  ON public.prep_queue ("branchId", status);
+
+-- Traspasos entre sucursales: cada traspaso genera una salida en el origen y una
+-- entrada en el destino ligadas por "transferId"; los lotes viajan con su caducidad.
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+  id TEXT PRIMARY KEY,
+  folio TEXT NOT NULL UNIQUE,
+  "itemId" TEXT NOT NULL REFERENCES public.inventory_items(id) ON DELETE RESTRICT,
+  "fromBranchId" TEXT NOT NULL REFERENCES public.branches(id) ON DELETE RESTRICT,
+  "toBranchId" TEXT NOT NULL REFERENCES public.branches(id) ON DELETE RESTRICT,
+  quantity NUMERIC(12,3) NOT NULL CHECK (quantity > 0),
+  notes TEXT,
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ("fromBranchId" <> "toBranchId")
+);
+CREATE INDEX IF NOT EXISTS stock_transfers_created_idx
+  ON public.stock_transfers ("createdAt" DESC);
+
+ALTER TABLE public.inventory_movements
+  ADD COLUMN IF NOT EXISTS "transferId" TEXT REFERENCES public.stock_transfers(id) ON DELETE SET NULL;
+
+-- Bitácora de auditoría: el visor de socios filtra por staff, acción y fecha.
+-- "details".changes guarda el diff { campo: { before, after } } de cada escritura.
+CREATE INDEX IF NOT EXISTS pos_action_logs_created_idx
+  ON public.pos_action_logs ("createdAt" DESC);
+CREATE INDEX IF NOT EXISTS pos_action_logs_staff_created_idx
+  ON public.pos_action_logs ("staffId", "createdAt" DESC);
+CREATE INDEX IF NOT EXISTS pos_action_logs_action_created_idx
+  ON public.pos_action_logs (action, "createdAt" DESC);
+
+-- Facturación CFDI 4.0: datos fiscales del cliente, facturas timbradas por el PAC
+-- y liga desde el ticket. Los datos del emisor viven en pos_settings
+-- (rfc, legal_name, fiscal_regime, expedition_postal_code, invoice_series).
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS "fiscalRfc" TEXT,
+  ADD COLUMN IF NOT EXISTS "fiscalName" TEXT,
+  ADD COLUMN IF NOT EXISTS "fiscalRegime" TEXT,
+  ADD COLUMN IF NOT EXISTS "fiscalPostalCode" TEXT,
+  ADD COLUMN IF NOT EXISTS "cfdiUse" TEXT DEFAULT 'G03';
+
+CREATE TABLE IF NOT EXISTS public.cfdi_invoices (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'individual' CHECK (kind IN ('individual', 'global')),
+  "orderId" TEXT REFERENCES public.orders(id) ON DELETE RESTRICT,
+  "ticketId" TEXT REFERENCES public.tickets(id) ON DELETE SET NULL,
+  "userId" TEXT REFERENCES public.users(id) ON DELETE SET NULL,
+  series TEXT NOT NULL,
+  folio INTEGER NOT NULL,
+  uuid TEXT UNIQUE,
+  status TEXT NOT NULL DEFAULT 'stamped' CHECK (status IN ('stamped', 'cancel_pending', 'cancelled')),
+  "receiverRfc" TEXT NOT NULL,
+  "receiverName" TEXT NOT NULL,
+  "receiverRegime" TEXT NOT NULL,
+  "receiverPostalCode" TEXT NOT NULL,
+  "cfdiUse" TEXT NOT NULL,
+  "paymentForm" TEXT NOT NULL,
+  subtotal NUMERIC(12,2) NOT NULL DEFAULT 0,
+  discount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  tax NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  "globalMonth" TEXT,
+  "orderIds" JSONB,
+  xml TEXT NOT NULL,
+  "pdfBase64" TEXT,
+  "pacProvider" TEXT,
+  "stampedAt" TIMESTAMPTZ,
+  "cancellationMotive" TEXT CHECK ("cancellationMotive" IN ('01', '02', '03', '04')),
+  "replacementUuid" TEXT,
+  "cancellationAcknowledgement" TEXT,
+  "cancelledAt" TIMESTAMPTZ,
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "cancelledByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (series, folio)
+);
+CREATE INDEX IF NOT EXISTS cfdi_invoices_order_idx ON public.cfdi_invoices ("orderId");
+CREATE INDEX IF NOT EXISTS cfdi_invoices_created_idx ON public.cfdi_invoices ("createdAt" DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS cfdi_invoices_global_month_uq
+  ON public.cfdi_invoices ("globalMonth")
+  WHERE kind = 'global' AND status <> 'cancelled';
+
+ALTER TABLE public.tickets
+  ADD COLUMN IF NOT EXISTS "invoiceId" TEXT REFERENCES public.cfdi_invoices(id) ON DELETE SET NULL;
+
+-- Reservaciones desde el POS: cada sucursal define su capacidad y las reservas
+-- se validan contra ella en la API en lugar del índice de un solo horario.
+DROP TRIGGER IF EXISTS trg_reservations_matriz_only ON public.reservations;
+DROP FUNCTION IF EXISTS public.reservations_enforce_matriz();
+DROP INDEX IF EXISTS public.reservations_unique_slot_idx;
+
+ALTER TABLE public.branches
+  ADD COLUMN IF NOT EXISTS "reservationTables" INTEGER NOT NULL DEFAULT 8 CHECK ("reservationTables" >= 0),
+  ADD COLUMN IF NOT EXISTS "reservationSeatsPerTable" INTEGER NOT NULL DEFAULT 4 CHECK ("reservationSeatsPerTable" >= 1),
+  ADD COLUMN IF NOT EXISTS "reservationSlotMinutes" INTEGER NOT NULL DEFAULT 90 CHECK ("reservationSlotMinutes" BETWEEN 15 AND 480),
+  ADD COLUMN IF NOT EXISTS "reservationMaxPerSlot" INTEGER CHECK ("reservationMaxPerSlot" IS NULL OR "reservationMaxPerSlot" >= 1);
+
+CREATE INDEX IF NOT EXISTS reservations_branch_date_idx
+  ON public.reservations ("branchId", "reservationDate", status);
+
+-- Inasistencias: las reservas pendientes que pasan su corte (23:59 del día
+-- reservado) se archivan en reservation_failures con status 'no_show' y la
+-- reservación queda como 'no_show'. "cleanupAt" marca hasta cuándo cuenta.
+ALTER TABLE public.reservation_failures
+  ALTER COLUMN "originalReservationId" TYPE TEXT USING "originalReservationId"::text;
+CREATE INDEX IF NOT EXISTS reservation_failures_user_status_idx
+  ON public.reservation_failures ("userId", status, "cleanupAt");
+
+ALTER TABLE public.reservations
+  ADD COLUMN IF NOT EXISTS "depositRequired" BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS "depositAmount" NUMERIC(10,2);
+
+-- Excepción que un gerente otorga desde la ficha del cliente.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS "noShowOverride" BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS "noShowOverrideByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "noShowOverrideAt" TIMESTAMPTZ;
+
+-- Reglas opcionales: después de no_show_limit inasistencias se pide anticipo
+-- (no_show_action = 'deposit') o se bloquea la reserva en línea ('block').
+ALTER TABLE IF EXISTS public.pos_settings
+  ADD COLUMN IF NOT EXISTS no_show_limit INTEGER CHECK (no_show_limit IS NULL OR no_show_limit >= 1),
+  ADD COLUMN IF NOT EXISTS no_show_action TEXT CHECK (no_show_action IN ('deposit', 'block')),
+  ADD COLUMN IF NOT EXISTS no_show_deposit NUMERIC(10,2);
+
+CREATE OR REPLACE FUNCTION public.reservations_enforce_no_show_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_limit INTEGER;
+  v_action TEXT;
+  v_deposit NUMERIC(10,2);
+  v_override BOOLEAN;
+  v_count INTEGER;
+BEGIN
+  -- Las reservas del POS ya pasan por la API, que aplica la misma regla.
+  IF NEW."sourceType" IS DISTINCT FROM 'cliente' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT no_show_limit, no_show_action, no_show_deposit
+    INTO v_limit, v_action, v_deposit
+  FROM public.pos_settings
+  ORDER BY "updatedAt" DESC NULLS LAST
+  LIMIT 1;
+
+  IF v_limit IS NULL OR v_action IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT "noShowOverride" INTO v_override FROM public.users WHERE id = NEW."userId";
+  IF COALESCE(v_override, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count
+  FROM public.reservation_failures
+  WHERE "userId" = NEW."userId"
+    AND status = 'no_show'
+    AND "cleanupAt" > NOW();
+
+  IF v_count < v_limit THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_action = 'block' THEN
+    RAISE EXCEPTION 'Reservas en línea bloqueadas por % inasistencias', v_count;
+  END IF;
+
+  NEW."depositRequired" := TRUE;
+  NEW."depositAmount" := v_deposit;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_reservations_no_show_policy ON public.reservations;
+CREATE TRIGGER trg_reservations_no_show_policy
+  BEFORE INSERT ON public.reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reservations_enforce_no_show_policy();
+
+-- Reparto a domicilio: un registro por pedido con su etapa y la hora en que
+-- entró a cada una (lista para recoger → asignada → en camino → entregada).
+-- Solo se asigna a repartidores sin entregas en pausa (staff_users.delivery_paused).
+CREATE TABLE IF NOT EXISTS public.delivery_dispatches (
+  id TEXT PRIMARY KEY,
+  "orderId" TEXT NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  "branchId" TEXT REFERENCES public.branches(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'ready'
+    CHECK (status IN ('ready', 'assigned', 'out_for_delivery', 'delivered')),
+  "courierStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "readyAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "assignedAt" TIMESTAMPTZ,
+  "outForDeliveryAt" TIMESTAMPTZ,
+  "deliveredAt" TIMESTAMPTZ,
+  "notifiedAt" TIMESTAMPTZ,
+  "updatedByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS delivery_dispatches_branch_status_idx
+  ON public.delivery_dispatches ("branchId", status);
+CREATE INDEX IF NOT EXISTS delivery_dispatches_courier_delivered_idx
+  ON public.delivery_dispatches ("courierStaffId", "deliveredAt" DESC);
+
+-- Programas de lealtad como datos: varios activos a la vez, cada uno con sus
+-- reglas de sellos/puntos por producto o categoría, su periodo de reinicio y su
+-- catálogo de recompensas. Sin programas activos el POS usa la tarjeta semanal
+-- definida por LOYALTY_MAX_STAMPS y LOYALTY_ELIGIBLE_PRODUCTS.
+--   rules:   [{ "productId" | "category", "stamps", "points", "weekdays": [0-6] }]
+--   rewards: [{ "id", "type": free_drink|discount|upgrade, "label", "pointsCost", "discountPercent", "productId" }]
+CREATE TABLE IF NOT EXISTS public.loyalty_programs (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  "isActive" BOOLEAN NOT NULL DEFAULT TRUE,
+  "resetPeriod" TEXT NOT NULL DEFAULT 'weekly' CHECK ("resetPeriod" IN ('weekly', 'monthly', 'never')),
+  "stampsTarget" INTEGER NOT NULL DEFAULT 7 CHECK ("stampsTarget" >= 1),
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  rewards JSONB NOT NULL DEFAULT '[]'::jsonb,
+  "startsAt" TIMESTAMPTZ,
+  "endsAt" TIMESTAMPTZ,
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Avance del cliente por programa y periodo ("periodKey": lunes de la semana
+-- 2025-02-10, mes 2025-02 o 'all' sin reinicio).
+-- Al llegar a "stampsTarget" los sellos se convierten en una recompensa disponible.
+CREATE TABLE IF NOT EXISTS public.loyalty_program_progress (
+  id TEXT PRIMARY KEY,
+  "programId" TEXT NOT NULL REFERENCES public.loyalty_programs(id) ON DELETE CASCADE,
+  "userId" TEXT NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  "periodKey" TEXT NOT NULL,
+  stamps INTEGER NOT NULL DEFAULT 0,
+  points INTEGER NOT NULL DEFAULT 0,
+  "rewardsEarned" INTEGER NOT NULL DEFAULT 0,
+  "rewardsRedeemed" INTEGER NOT NULL DEFAULT 0,
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("programId", "userId", "periodKey")
+);
+CREATE INDEX IF NOT EXISTS loyalty_program_progress_user_idx
+  ON public.loyalty_program_progress ("userId", "periodKey");
+
+-- Libro de puntos de lealtad: cada acumulación, canje, vencimiento y ajuste
+-- manual es una fila inmutable. El saldo es la suma de "points" por cliente y
+-- programa; "stamps" deja constancia de los sellos que movió cada fila.
+-- Los ajustes y vencimientos que corrigen una fila anterior la ligan en "sourceEntryId".
+ALTER TABLE public.loyalty_points
+  ADD COLUMN IF NOT EXISTS "entryType" TEXT NOT NULL DEFAULT 'earn',
+  ADD COLUMN IF NOT EXISTS "programId" TEXT,
+  ADD COLUMN IF NOT EXISTS stamps INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "staffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS "sourceEntryId" TEXT REFERENCES public.loyalty_points(id) ON DELETE SET NULL;
+
+ALTER TABLE public.loyalty_points DROP CONSTRAINT IF EXISTS loyalty_points_entry_type_check;
+ALTER TABLE public.loyalty_points
+  ADD CONSTRAINT loyalty_points_entry_type_check
+  CHECK ("entryType" IN ('earn', 'redeem', 'expire', 'adjust'));
+
+CREATE INDEX IF NOT EXISTS loyalty_points_user_created_idx
+  ON public.loyalty_points ("userId", "createdAt" DESC);
+
+-- Un pedido acumula una sola vez por programa aunque se marque completado dos veces.
+CREATE UNIQUE INDEX IF NOT EXISTS loyalty_points_order_earn_uidx
+  ON public.loyalty_points ("orderId", "programId")
+  WHERE "entryType" = 'earn' AND "orderId" IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.loyalty_points_block_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'loyalty_points es inmutable: registra un ajuste en lugar de editar la fila %', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_loyalty_points_immutable ON public.loyalty_points;
+CREATE TRIGGER trg_loyalty_points_immutable
+  BEFORE UPDATE ON public.loyalty_points
+  FOR EACH ROW
+  EXECUTE FUNCTION public.loyalty_points_block_update();
+
+-- Fusión de cuentas desde POS: el libro de lealtad sigue siendo inmutable,
+-- pero una fila puede cambiar de dueño si "userId" es lo único que se modifica.
+CREATE OR REPLACE FUNCTION public.loyalty_points_block_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'userId') = (to_jsonb(OLD) - 'userId') THEN
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'loyalty_points es inmutable: registra un ajuste en lugar de editar la fila %', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Derechos ARCO: una cuenta anonimizada conserva su "clientId" como seudónimo
+-- para contabilidad; "anonymizedAt" evita que el barrido de retención la repita.
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS "anonymizedAt" TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS users_retention_pending_idx
+  ON public.users ("dataRetentionUntil")
+  WHERE "anonymizedAt" IS NULL AND "dataRetentionUntil" IS NOT NULL;
+
+-- Campañas de marketing por correo. "audience" guarda el filtro con que se armó
+-- la lista ({ cluster, favoriteDrink, inactiveDays, segment }); los destinatarios
+-- se congelan al crear la campaña y solo incluyen clientes con "marketingEmail".
+-- Cada campaña genera su propio código en promo_codes para medir los canjes.
+CREATE TABLE IF NOT EXISTS public.marketing_campaigns (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  headline TEXT,
+  body TEXT NOT NULL,
+  "ctaLabel" TEXT,
+  "ctaUrl" TEXT,
+  audience JSONB NOT NULL DEFAULT '{}'::jsonb,
+  "promoCodeId" TEXT REFERENCES public.promo_codes(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sending', 'sent')),
+  "recipientCount" INTEGER NOT NULL DEFAULT 0,
+  "createdByStaffId" TEXT REFERENCES public.staff_users(id) ON DELETE SET NULL,
+  "startedAt" TIMESTAMPTZ,
+  "completedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Un renglón por cliente y campaña. "tokenHash" es el sha256 del token que va en
+-- el pixel de apertura y en la liga de baja; el token en claro solo viaja en el correo.
+CREATE TABLE IF NOT EXISTS public.marketing_campaign_recipients (
+  id TEXT PRIMARY KEY,
+  "campaignId" TEXT NOT NULL REFERENCES public.marketing_campaigns(id) ON DELETE CASCADE,
+  "userId" TEXT NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+  "tokenHash" TEXT UNIQUE,
+  error TEXT,
+  "sentAt" TIMESTAMPTZ,
+  "openedAt" TIMESTAMPTZ,
+  "unsubscribedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE ("campaignId", "userId")
+);
+CREATE INDEX IF NOT EXISTS marketing_campaign_recipients_pending_idx
+  ON public.marketing_campaign_recipients ("campaignId", status);
+
+-- `sending` marca los destinatarios que un envío ya reclamó.
+ALTER TABLE public.marketing_campaign_recipients
+  DROP CONSTRAINT IF EXISTS marketing_campaign_recipients_status_check;
+ALTER TABLE public.marketing_campaign_recipients
+  ADD CONSTRAINT marketing_campaign_recipients_status_check
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped'));
+
+-- Sucursal del turno de caja: el respaldo al turno compartido y los cortes se
+-- acotan por sucursal. Los turnos previos toman la sucursal de quien los abrió.
+ALTER TABLE public.turnos
+  ADD COLUMN IF NOT EXISTS "branchId" TEXT REFERENCES public.branches(id) ON DELETE SET NULL;
+
+UPDATE public.turnos t
+SET "branchId" = s."branchId"
+FROM public.staff_users s
+WHERE t."branchId" IS NULL
+  AND s.id = t.usuario_id;
+
+CREATE INDEX IF NOT EXISTS turnos_branch_estado_idx ON public.turnos ("branchId", estado);
+
+-- Folios de CFDI: se toman de un contador por serie antes de timbrar, así dos
+-- facturas simultáneas nunca comparten folio. El contador arranca en el folio
+-- más alto ya emitido.
+CREATE TABLE IF NOT EXISTS public.cfdi_folio_counters (
+  series TEXT PRIMARY KEY,
+  "lastFolio" INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.cfdi_folio_counters (series, "lastFolio")
+SELECT series, MAX(folio) FROM public.cfdi_invoices GROUP BY series
+ON CONFLICT (series) DO UPDATE
+  SET "lastFolio" = GREATEST(public.cfdi_folio_counters."lastFolio", EXCLUDED."lastFolio");
+
+CREATE OR REPLACE FUNCTION public.next_cfdi_folio(p_series TEXT)
+RETURNS INTEGER AS $$
+  INSERT INTO public.cfdi_folio_counters AS counter (series, "lastFolio")
+  VALUES (p_series, 1)
+  ON CONFLICT (series) DO UPDATE SET "lastFolio" = counter."lastFolio" + 1
+  RETURNING "lastFolio";
+$$ LANGUAGE sql;
+
+-- Capacidad de reservaciones: la API valida antes para dar un mensaje claro, pero
+-- dos altas simultáneas podrían pasar la misma validación. El trigger serializa
+-- las escrituras de cada sucursal y fecha con un candado y vuelve a contar mesas
+-- con las mismas reglas; si no caben falla con RESERVATION_CAPACITY_EXCEEDED y
+-- la API responde 409.
+CREATE OR REPLACE FUNCTION public.reservations_enforce_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  branch RECORD;
+  requested_tables INTEGER;
+  occupied_tables INTEGER;
+  same_slot INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'completed') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('pending', 'completed')
+    AND NEW."branchId" = OLD."branchId"
+    AND NEW."reservationDate" = OLD."reservationDate"
+    AND NEW."reservationTime" = OLD."reservationTime"
+    AND NEW."peopleCount" <= OLD."peopleCount" THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(NEW."branchId" || ':' || NEW."reservationDate"::TEXT));
+
+  SELECT
+    "reservationTables" AS tables,
+    GREATEST(1, "reservationSeatsPerTable") AS seats,
+    "reservationSlotMinutes" AS slot_minutes,
+    "reservationMaxPerSlot" AS max_per_slot
+  INTO branch
+  FROM public.branches
+  WHERE id = NEW."branchId";
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  requested_tables := GREATEST(1, CEIL(NEW."peopleCount"::NUMERIC / branch.seats));
+
+  SELECT
+    COALESCE(SUM(GREATEST(1, CEIL(r."peopleCount"::NUMERIC / branch.seats))), 0),
+    COUNT(*) FILTER (WHERE r."reservationTime" = NEW."reservationTime")
+  INTO occupied_tables, same_slot
+  FROM public.reservations r
+  WHERE r."branchId" = NEW."branchId"
+    AND r."reservationDate" = NEW."reservationDate"
+    AND r.status IN ('pending', 'completed')
+    AND r.id <> NEW.id
+    AND ABS(EXTRACT(EPOCH FROM (r."reservationTime" - NEW."reservationTime"))) / 60 < branch.slot_minutes;
+
+  IF (branch.max_per_slot IS NOT NULL AND same_slot >= branch.max_per_slot)
+    OR occupied_tables + requested_tables > branch.tables THEN
+    RAISE EXCEPTION 'RESERVATION_CAPACITY_EXCEEDED';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_reservations_capacity ON public.reservations;
+CREATE TRIGGER trg_reservations_capacity
+  BEFORE INSERT OR UPDATE ON public.reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reservations_enforce_capacity();
+
+-- Totales en efectivo del turno: todas las terminales de una sucursal comparten
+-- el turno abierto, así que el incremento se hace en la misma sentencia y dos
+-- ventas simultáneas no se pisan.
+CREATE OR REPLACE FUNCTION public.sumar_totales_turno(
+  p_turno_id INTEGER,
+  p_ventas_efectivo NUMERIC,
+  p_gastos_efectivo NUMERIC
+)
+RETURNS VOID AS $$
+  UPDATE public.turnos
+  SET total_ventas_efectivo = total_ventas_efectivo + COALESCE(p_ventas_efectivo, 0),
+      total_gastos_efectivo = total_gastos_efectivo + COALESCE(p_gastos_efectivo, 0)
+  WHERE id = p_turno_id;
+$$ LANGUAGE sql;